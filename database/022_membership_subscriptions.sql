@@ -0,0 +1,140 @@
+-- ===================================================================
+-- MEMBERSHIP SUBSCRIPTIONS (RENEWALS, GRACE PERIODS AND DUNNING)
+-- One row per user and membership type. Tracks the paid-up billing
+-- period so the renewal job knows when to charge, retry or downgrade.
+-- Every renewal charge is still a row in creators_membership /
+-- members_membership so it flows through the normal webhook + audit path.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS membership_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  membership_type TEXT NOT NULL CHECK (membership_type IN ('creator', 'member')),
+  tier TEXT NOT NULL,
+  billing_cycle TEXT NOT NULL CHECK (billing_cycle IN ('monthly', 'annual')),
+  amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  payment_method TEXT NOT NULL,
+  gateway TEXT NOT NULL,
+  payment_token TEXT, -- reusable card token returned by the gateway, if any
+  email TEXT,
+  phone_number TEXT,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'past_due', 'canceled', 'expired')),
+  current_period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  current_period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  grace_period_days INTEGER NOT NULL DEFAULT 7 CHECK (grace_period_days >= 0),
+  grace_period_ends_at TIMESTAMP WITH TIME ZONE,
+  dunning_attempts INTEGER NOT NULL DEFAULT 0,
+  next_renewal_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_renewal_transaction_id UUID,
+  last_renewal_error TEXT,
+  canceled_at TIMESTAMP WITH TIME ZONE,
+  downgraded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT membership_subscriptions_user_type_unique UNIQUE (user_id, membership_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_subscriptions_user_id ON membership_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_membership_subscriptions_status ON membership_subscriptions(status);
+CREATE INDEX IF NOT EXISTS idx_membership_subscriptions_next_attempt ON membership_subscriptions(next_renewal_attempt_at)
+  WHERE status IN ('active', 'past_due');
+CREATE INDEX IF NOT EXISTS idx_membership_subscriptions_period_end ON membership_subscriptions(current_period_end);
+
+-- Link each transaction to the subscription it started or renewed
+ALTER TABLE creators_membership
+  ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES membership_subscriptions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_renewal BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE members_membership
+  ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES membership_subscriptions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS is_renewal BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_creators_membership_subscription_id ON creators_membership(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_members_membership_subscription_id ON members_membership(subscription_id);
+
+-- ===================================================================
+-- UPDATED_AT TRIGGER
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION update_membership_subscriptions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_membership_subscriptions_updated_at ON membership_subscriptions;
+CREATE TRIGGER trigger_update_membership_subscriptions_updated_at
+BEFORE UPDATE ON membership_subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION update_membership_subscriptions_updated_at();
+
+-- ===================================================================
+-- AUTO-RENEW TOGGLE
+-- Users may only flip cancel_at_period_end on their own subscription;
+-- every other column is owned by the renewal job (service role).
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION set_membership_auto_renew(
+  p_subscription_id UUID,
+  p_auto_renew BOOLEAN
+)
+RETURNS membership_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subscription membership_subscriptions;
+BEGIN
+  UPDATE membership_subscriptions
+  SET cancel_at_period_end = NOT p_auto_renew,
+      canceled_at = CASE WHEN p_auto_renew THEN NULL ELSE NOW() END
+  WHERE id = p_subscription_id
+    AND user_id = auth.uid()
+    AND status IN ('active', 'past_due')
+  RETURNING * INTO v_subscription;
+
+  IF v_subscription.id IS NULL THEN
+    RAISE EXCEPTION 'Subscription not found or not renewable';
+  END IF;
+
+  RETURN v_subscription;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_membership_auto_renew(UUID, BOOLEAN) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE membership_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own membership_subscriptions" ON membership_subscriptions;
+CREATE POLICY "Users can view own membership_subscriptions"
+ON membership_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage membership_subscriptions" ON membership_subscriptions;
+CREATE POLICY "Service role can manage membership_subscriptions"
+ON membership_subscriptions FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- SCHEDULE
+-- Run the renewal job hourly (requires pg_cron + pg_net):
+--
+-- SELECT cron.schedule(
+--   'process-membership-renewals',
+--   '0 * * * *',
+--   $$ SELECT net.http_post(
+--        url := 'https://<project-ref>.supabase.co/functions/v1/processMembershipRenewals',
+--        headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--      ) $$
+-- );
+-- ===================================================================
@@ -0,0 +1,183 @@
+-- ===================================================================
+-- PAYMENT REFUNDS
+-- Admin-issued full or partial refunds for membership and course
+-- payments. A refund is requested through the refundPayment edge
+-- function and settled when the gateway's refund webhook arrives at
+-- handlePaymentWebhookUnified.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_type TEXT NOT NULL
+    CHECK (payment_type IN ('creator_membership', 'member_membership', 'course_enrollment')),
+  payment_id UUID NOT NULL, -- creators_membership / members_membership / student_enrollments id
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  is_full_refund BOOLEAN NOT NULL DEFAULT FALSE,
+  reason TEXT NOT NULL,
+  gateway TEXT NOT NULL,
+  gateway_refund_id TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  error_message TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment ON payment_refunds(payment_type, payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_user_id ON payment_refunds(user_id);
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_gateway_refund_id ON payment_refunds(gateway_refund_id);
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_status ON payment_refunds(status);
+
+-- ===================================================================
+-- REFUND TRACKING ON PAYMENTS
+-- status gains 'refunded' / 'partially_refunded' once a refund settles
+-- ===================================================================
+
+ALTER TABLE creators_membership
+  ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE members_membership
+  ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.student_enrollments
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_at timestamp with time zone;
+
+ALTER TABLE public.student_enrollments
+  DROP CONSTRAINT IF EXISTS student_enrollments_payment_status_check,
+  ADD CONSTRAINT student_enrollments_payment_status_check CHECK (
+    payment_status = ANY (ARRAY['pending'::text, 'completed'::text, 'failed'::text, 'refunded'::text, 'partially_refunded'::text])
+  );
+
+ALTER TABLE public.student_enrollments
+  DROP CONSTRAINT IF EXISTS student_enrollments_status_check,
+  ADD CONSTRAINT student_enrollments_status_check CHECK (
+    status = ANY (ARRAY['active'::text, 'completed'::text, 'dropped'::text, 'refunded'::text])
+  );
+
+ALTER TABLE public.enrollment_invoices
+  ADD COLUMN IF NOT EXISTS refunded_amount numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunded_at timestamp with time zone;
+
+ALTER TABLE public.enrollment_invoices
+  DROP CONSTRAINT IF EXISTS enrollment_invoices_status_check,
+  ADD CONSTRAINT enrollment_invoices_status_check CHECK (
+    status IN ('pending', 'paid', 'cancelled', 'refunded', 'partially_refunded')
+  );
+
+-- ===================================================================
+-- UPDATED_AT TRIGGER
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION update_payment_refunds_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_payment_refunds_updated_at ON payment_refunds;
+CREATE TRIGGER trigger_update_payment_refunds_updated_at
+BEFORE UPDATE ON payment_refunds
+FOR EACH ROW
+EXECUTE FUNCTION update_payment_refunds_updated_at();
+
+-- ===================================================================
+-- SETTLING REFUNDS
+-- ===================================================================
+
+-- Add a settled refund to the payment's refunded_amount in one statement,
+-- so refunds settling at the same time are never lost. Returns the new
+-- refunded amount, the amount paid and the resulting status ('refunded'
+-- once everything paid has gone back, else 'partially_refunded').
+CREATE OR REPLACE FUNCTION apply_payment_refund(p_payment_type TEXT, p_payment_id UUID, p_amount NUMERIC)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_refunded NUMERIC;
+  v_paid NUMERIC;
+BEGIN
+  IF p_payment_type = 'course_enrollment' THEN
+    UPDATE public.student_enrollments
+    SET refunded_amount = refunded_amount + p_amount,
+        payment_status = CASE
+          WHEN refunded_amount + p_amount >= price_paid THEN 'refunded'
+          ELSE 'partially_refunded'
+        END,
+        refunded_at = NOW()
+    WHERE id = p_payment_id
+    RETURNING refunded_amount, price_paid INTO v_refunded, v_paid;
+  ELSIF p_payment_type = 'member_membership' THEN
+    UPDATE members_membership
+    SET refunded_amount = refunded_amount + p_amount,
+        status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE 'partially_refunded' END,
+        payment_status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE 'partially_refunded' END,
+        refunded_at = NOW()
+    WHERE id = p_payment_id
+    RETURNING refunded_amount, amount INTO v_refunded, v_paid;
+  ELSIF p_payment_type = 'creator_membership' THEN
+    UPDATE creators_membership
+    SET refunded_amount = refunded_amount + p_amount,
+        status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE 'partially_refunded' END,
+        payment_status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE 'partially_refunded' END,
+        refunded_at = NOW()
+    WHERE id = p_payment_id
+    RETURNING refunded_amount, amount INTO v_refunded, v_paid;
+  ELSE
+    RAISE EXCEPTION 'Unknown payment type %', p_payment_type;
+  END IF;
+
+  IF v_refunded IS NULL THEN
+    RAISE EXCEPTION 'Refunded payment % not found', p_payment_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'refunded_amount', v_refunded,
+    'paid_amount', v_paid,
+    'status', CASE WHEN v_refunded >= v_paid THEN 'refunded' ELSE 'partially_refunded' END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_payment_refund(TEXT, UUID, NUMERIC) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_payment_refund(TEXT, UUID, NUMERIC) TO service_role;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Refunds are written only by edge functions (service role)
+-- ===================================================================
+
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own payment_refunds" ON payment_refunds;
+CREATE POLICY "Users can view own payment_refunds"
+ON payment_refunds FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all payment_refunds" ON payment_refunds;
+CREATE POLICY "Admins can view all payment_refunds"
+ON payment_refunds FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage payment_refunds" ON payment_refunds;
+CREATE POLICY "Service role can manage payment_refunds"
+ON payment_refunds FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,36 @@
+-- ===================================================================
+-- SANDBOX PAYMENT GATEWAY
+-- State for the offline sandboxGateway edge function. Only used when
+-- PAYMENT_GATEWAY=sandbox (local development); safe to leave empty in
+-- production.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS sandbox_gateway_payments (
+  reference TEXT PRIMARY KEY,
+  merchant_reference TEXT NOT NULL, -- the tx_ref / externalId we sent
+  amount DECIMAL(12, 2) NOT NULL,
+  currency TEXT NOT NULL,
+  email TEXT,
+  phone_number TEXT,
+  title TEXT,
+  description TEXT,
+  redirect_url TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  card_token TEXT,
+  refunded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sandbox_gateway_payments_merchant_reference
+  ON sandbox_gateway_payments(merchant_reference);
+
+-- Only the sandboxGateway function (service role) reads or writes this table
+ALTER TABLE sandbox_gateway_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage sandbox_gateway_payments" ON sandbox_gateway_payments;
+CREATE POLICY "Service role can manage sandbox_gateway_payments"
+ON sandbox_gateway_payments FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
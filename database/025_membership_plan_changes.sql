@@ -0,0 +1,176 @@
+-- ===================================================================
+-- MID-CYCLE PLAN CHANGES (PRORATION)
+-- Upgrades are charged immediately with credit for the unused part of
+-- the current period (see src/lib/membershipProrationConfig.ts); the
+-- proration breakdown travels in the transaction metadata.
+-- Downgrades and annual -> monthly switches are scheduled here and
+-- applied by processMembershipRenewals at the next renewal.
+-- ===================================================================
+
+ALTER TABLE membership_subscriptions
+  ADD COLUMN IF NOT EXISTS scheduled_tier TEXT,
+  ADD COLUMN IF NOT EXISTS scheduled_billing_cycle TEXT
+    CHECK (scheduled_billing_cycle IN ('monthly', 'annual')),
+  ADD COLUMN IF NOT EXISTS scheduled_amount DECIMAL(10, 2)
+    CHECK (scheduled_amount > 0),
+  ADD COLUMN IF NOT EXISTS scheduled_change_requested_at TIMESTAMP WITH TIME ZONE;
+
+-- ===================================================================
+-- PLAN ORDER AND PRICES
+-- Tier order and prices mirror src/lib/tierPricingConfig.ts and
+-- src/lib/memberTierPricingConfig.ts. membership_plan_price returns NULL
+-- for a plan that is not sold.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION membership_tier_rank(
+  p_membership_type TEXT,
+  p_tier TEXT
+)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_membership_type
+    WHEN 'creator' THEN array_position(ARRAY['free', 'premium', 'professional', 'elite'], p_tier) - 1
+    WHEN 'member' THEN array_position(ARRAY['welcome', 'premium', 'elite', 'enterprise'], p_tier)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION membership_plan_price(
+  p_membership_type TEXT,
+  p_tier TEXT,
+  p_billing_cycle TEXT
+)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT prices.amount
+  FROM (
+    VALUES
+      ('creator', 'premium', 'monthly', 9.99),
+      ('creator', 'premium', 'annual', 99.00),
+      ('creator', 'professional', 'monthly', 24.99),
+      ('creator', 'professional', 'annual', 249.00),
+      ('creator', 'elite', 'monthly', 99.99),
+      ('creator', 'elite', 'annual', 999.00),
+      ('member', 'welcome', 'monthly', 2.99),
+      ('member', 'welcome', 'annual', 29.88),
+      ('member', 'premium', 'monthly', 9.99),
+      ('member', 'premium', 'annual', 99.00),
+      ('member', 'elite', 'monthly', 19.99),
+      ('member', 'elite', 'annual', 199.00),
+      ('member', 'enterprise', 'monthly', 49.99),
+      ('member', 'enterprise', 'annual', 499.00)
+  ) AS prices(membership_type, tier, billing_cycle, amount)
+  WHERE prices.membership_type = p_membership_type
+    AND prices.tier = p_tier
+    AND prices.billing_cycle = p_billing_cycle;
+$$;
+
+-- ===================================================================
+-- SCHEDULE / CANCEL A PLAN CHANGE
+-- Users may only schedule changes on their own renewable subscription,
+-- and only changes that wait for the renewal: a lower tier, or the same
+-- tier switching from annual to monthly. Everything else is charged now
+-- through initializePaymentUnified. The renewal price comes from
+-- membership_plan_price, never from the caller.
+-- Scheduling a change also turns auto-renew back on, since the change
+-- only happens through a renewal.
+-- ===================================================================
+
+DROP FUNCTION IF EXISTS schedule_membership_change(UUID, TEXT, TEXT, DECIMAL);
+
+CREATE OR REPLACE FUNCTION schedule_membership_change(
+  p_subscription_id UUID,
+  p_tier TEXT,
+  p_billing_cycle TEXT
+)
+RETURNS membership_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subscription membership_subscriptions;
+  v_current_rank INTEGER;
+  v_target_rank INTEGER;
+  v_amount DECIMAL;
+BEGIN
+  IF p_billing_cycle NOT IN ('monthly', 'annual') THEN
+    RAISE EXCEPTION 'Invalid billing cycle';
+  END IF;
+
+  SELECT * INTO v_subscription
+  FROM membership_subscriptions
+  WHERE id = p_subscription_id
+    AND user_id = auth.uid()
+    AND status IN ('active', 'past_due')
+  FOR UPDATE;
+
+  IF v_subscription.id IS NULL THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  v_current_rank := membership_tier_rank(v_subscription.membership_type, v_subscription.tier);
+  v_target_rank := membership_tier_rank(v_subscription.membership_type, p_tier);
+  v_amount := membership_plan_price(v_subscription.membership_type, p_tier, p_billing_cycle);
+
+  IF v_target_rank IS NULL OR v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Unknown plan';
+  END IF;
+
+  IF NOT (
+    v_target_rank < v_current_rank
+    OR (
+      v_target_rank = v_current_rank
+      AND v_subscription.billing_cycle = 'annual'
+      AND p_billing_cycle = 'monthly'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only downgrades and annual to monthly switches can be scheduled';
+  END IF;
+
+  UPDATE membership_subscriptions
+  SET scheduled_tier = p_tier,
+      scheduled_billing_cycle = p_billing_cycle,
+      scheduled_amount = v_amount,
+      scheduled_change_requested_at = NOW(),
+      cancel_at_period_end = FALSE,
+      canceled_at = NULL
+  WHERE id = v_subscription.id
+  RETURNING * INTO v_subscription;
+
+  RETURN v_subscription;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION schedule_membership_change(UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_scheduled_membership_change(
+  p_subscription_id UUID
+)
+RETURNS membership_subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_subscription membership_subscriptions;
+BEGIN
+  UPDATE membership_subscriptions
+  SET scheduled_tier = NULL,
+      scheduled_billing_cycle = NULL,
+      scheduled_amount = NULL,
+      scheduled_change_requested_at = NULL
+  WHERE id = p_subscription_id
+    AND user_id = auth.uid()
+  RETURNING * INTO v_subscription;
+
+  IF v_subscription.id IS NULL THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  RETURN v_subscription;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_scheduled_membership_change(UUID) TO authenticated;
@@ -0,0 +1,443 @@
+-- ===================================================================
+-- PRICING CATALOG
+-- One catalog for everything we sell: creator/member memberships,
+-- courses and event tickets. Each product has prices per price book
+-- (one book per currency) and per billing cycle. Prices are effective
+-- dated: a price change closes the current row and inserts a new one,
+-- so historical charges can always be priced as they were.
+-- ===================================================================
+
+-- ===================================================================
+-- PRICE BOOKS
+-- One per currency, with the payment methods that can collect it.
+-- src/lib/paymentMethodConfig.ts reads supported_payment_methods.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS price_books (
+  currency TEXT PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  name TEXT NOT NULL,
+  symbol TEXT,
+  decimal_places INTEGER NOT NULL DEFAULT 2 CHECK (decimal_places BETWEEN 0 AND 4),
+  supported_payment_methods TEXT[] NOT NULL DEFAULT '{}',
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_books_single_default
+  ON price_books(is_default) WHERE is_default;
+
+INSERT INTO price_books (currency, name, symbol, decimal_places, supported_payment_methods, is_default)
+VALUES
+  ('USD', 'US Dollar', '$', 2, ARRAY['card', 'express_pay'], TRUE),
+  ('UGX', 'Ugandan Shilling', 'USh', 0, ARRAY['card', 'mobile_money', 'express_pay'], FALSE),
+  ('KES', 'Kenyan Shilling', 'KSh', 2, ARRAY['card', 'mobile_money', 'express_pay'], FALSE),
+  ('NGN', 'Nigerian Naira', '₦', 2, ARRAY['card'], FALSE),
+  ('GHS', 'Ghanaian Cedi', 'GH₵', 2, ARRAY['card', 'mobile_money', 'express_pay'], FALSE),
+  ('TZS', 'Tanzanian Shilling', 'TSh', 0, ARRAY['card', 'mobile_money'], FALSE),
+  ('EUR', 'Euro', '€', 2, ARRAY['express_pay'], FALSE),
+  ('GBP', 'British Pound', '£', 2, ARRAY['express_pay'], FALSE),
+  ('CAD', 'Canadian Dollar', 'CA$', 2, ARRAY['express_pay'], FALSE),
+  ('AUD', 'Australian Dollar', 'A$', 2, ARRAY['express_pay'], FALSE)
+ON CONFLICT (currency) DO NOTHING;
+
+-- ===================================================================
+-- CATALOG PRODUCTS
+-- product_ref points at the thing being sold:
+--   creator_membership / member_membership -> tier name
+--   course -> masterclass_page_content.id
+--   event_ticket -> events.id
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS catalog_products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_type TEXT NOT NULL CHECK (product_type IN ('creator_membership', 'member_membership', 'course', 'event_ticket')),
+  product_ref TEXT NOT NULL,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_type, product_ref)
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_products_type ON catalog_products(product_type);
+
+-- ===================================================================
+-- CATALOG PRICES
+-- A price applies from effective_from until effective_to (open ended
+-- when NULL). Memberships are priced per 'monthly'/'annual' cycle,
+-- courses and tickets use 'one_time'.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS catalog_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES catalog_products(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL REFERENCES price_books(currency),
+  billing_cycle TEXT NOT NULL DEFAULT 'one_time' CHECK (billing_cycle IN ('one_time', 'monthly', 'annual')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount >= 0),
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  effective_to TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_prices_lookup
+  ON catalog_prices(product_id, currency, billing_cycle, effective_from DESC);
+
+-- ===================================================================
+-- UPDATED_AT TRIGGERS
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION update_price_books_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS price_books_updated_at ON price_books;
+CREATE TRIGGER price_books_updated_at
+  BEFORE UPDATE ON price_books
+  FOR EACH ROW
+  EXECUTE FUNCTION update_price_books_updated_at();
+
+CREATE OR REPLACE FUNCTION update_catalog_products_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS catalog_products_updated_at ON catalog_products;
+CREATE TRIGGER catalog_products_updated_at
+  BEFORE UPDATE ON catalog_products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_catalog_products_updated_at();
+
+-- ===================================================================
+-- PRICE LOOKUP
+-- Price of a product in a price book at a point in time (now by
+-- default). Returns NULL when the product has no price in that book.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION get_catalog_price(
+  p_product_type TEXT,
+  p_product_ref TEXT,
+  p_currency TEXT,
+  p_billing_cycle TEXT DEFAULT 'one_time',
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT cp.amount
+  FROM catalog_prices cp
+  JOIN catalog_products p ON p.id = cp.product_id
+  JOIN price_books b ON b.currency = cp.currency
+  WHERE p.product_type = p_product_type
+    AND p.product_ref = p_product_ref
+    AND p.is_active
+    AND b.is_active
+    AND cp.currency = UPPER(p_currency)
+    AND cp.billing_cycle = p_billing_cycle
+    AND cp.effective_from <= p_at
+    AND (cp.effective_to IS NULL OR cp.effective_to > p_at)
+  ORDER BY cp.effective_from DESC
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_catalog_price(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO anon, authenticated;
+
+-- Every product's price in effect right now
+CREATE OR REPLACE VIEW current_catalog_prices AS
+SELECT DISTINCT ON (cp.product_id, cp.currency, cp.billing_cycle)
+  p.id AS product_id,
+  p.product_type,
+  p.product_ref,
+  p.name,
+  cp.id AS price_id,
+  cp.currency,
+  cp.billing_cycle,
+  cp.amount,
+  cp.effective_from,
+  cp.effective_to
+FROM catalog_prices cp
+JOIN catalog_products p ON p.id = cp.product_id
+JOIN price_books b ON b.currency = cp.currency
+WHERE p.is_active
+  AND b.is_active
+  AND cp.effective_from <= NOW()
+  AND (cp.effective_to IS NULL OR cp.effective_to > NOW())
+ORDER BY cp.product_id, cp.currency, cp.billing_cycle, cp.effective_from DESC;
+
+GRANT SELECT ON current_catalog_prices TO anon, authenticated;
+
+-- ===================================================================
+-- SET A PRICE
+-- Creates the product if needed, closes the price currently in effect
+-- at p_effective_from and inserts the new one. Future-dated changes
+-- already scheduled are left alone. Runs with the caller's rights, so
+-- RLS limits it to admins and the service role.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION set_catalog_price(
+  p_product_type TEXT,
+  p_product_ref TEXT,
+  p_name TEXT,
+  p_currency TEXT,
+  p_billing_cycle TEXT,
+  p_amount DECIMAL,
+  p_effective_from TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS catalog_prices
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id UUID;
+  v_price catalog_prices;
+BEGIN
+  INSERT INTO catalog_products (product_type, product_ref, name)
+  VALUES (p_product_type, p_product_ref, COALESCE(p_name, p_product_ref))
+  ON CONFLICT (product_type, product_ref)
+  DO UPDATE SET name = COALESCE(p_name, catalog_products.name)
+  RETURNING id INTO v_product_id;
+
+  UPDATE catalog_prices
+  SET effective_to = p_effective_from
+  WHERE product_id = v_product_id
+    AND currency = UPPER(p_currency)
+    AND billing_cycle = p_billing_cycle
+    AND effective_from < p_effective_from
+    AND (effective_to IS NULL OR effective_to > p_effective_from);
+
+  INSERT INTO catalog_prices (product_id, currency, billing_cycle, amount, effective_from, created_by)
+  VALUES (v_product_id, UPPER(p_currency), p_billing_cycle, p_amount, p_effective_from, auth.uid())
+  RETURNING * INTO v_price;
+
+  RETURN v_price;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_catalog_price(TEXT, TEXT, TEXT, TEXT, TEXT, DECIMAL, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- ===================================================================
+-- KEEP COURSE AND EVENT PRICES IN SYNC
+-- Creators still edit course_price / events.price in place; every edit
+-- becomes a new effective-dated catalog price.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION sync_course_catalog_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Currency changed: the old price book no longer sells this course
+  IF TG_OP = 'UPDATE' AND OLD.course_currency IS DISTINCT FROM NEW.course_currency THEN
+    UPDATE catalog_prices
+    SET effective_to = NOW()
+    WHERE product_id = (
+        SELECT id FROM catalog_products
+        WHERE product_type = 'course' AND product_ref = NEW.id::TEXT
+      )
+      AND currency = OLD.course_currency
+      AND effective_to IS NULL;
+  END IF;
+
+  PERFORM set_catalog_price('course', NEW.id::TEXT, NEW.title, NEW.course_currency, 'one_time', NEW.course_price);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS masterclass_page_content_catalog_price ON masterclass_page_content;
+CREATE TRIGGER masterclass_page_content_catalog_price
+  AFTER INSERT OR UPDATE OF course_price, course_currency ON masterclass_page_content
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_course_catalog_price();
+
+-- events.price has no currency column; tickets are sold in UGX
+CREATE OR REPLACE FUNCTION sync_event_catalog_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.price IS NOT NULL THEN
+    PERFORM set_catalog_price('event_ticket', NEW.id::TEXT, NEW.title, 'UGX', 'one_time', NEW.price);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS events_catalog_price ON events;
+CREATE TRIGGER events_catalog_price
+  AFTER INSERT OR UPDATE OF price ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_event_catalog_price();
+
+-- ===================================================================
+-- SEED
+-- Membership prices from src/lib/tierPricingConfig.ts and
+-- src/lib/memberTierPricingConfig.ts, plus existing courses and events.
+-- ===================================================================
+
+INSERT INTO catalog_products (product_type, product_ref, name)
+VALUES
+  ('creator_membership', 'premium', 'Creator Premium'),
+  ('creator_membership', 'professional', 'Creator Professional'),
+  ('creator_membership', 'elite', 'Creator Elite'),
+  ('member_membership', 'welcome', 'Member Welcome'),
+  ('member_membership', 'premium', 'Member Premium'),
+  ('member_membership', 'elite', 'Member Elite'),
+  ('member_membership', 'enterprise', 'Member Enterprise')
+ON CONFLICT (product_type, product_ref) DO NOTHING;
+
+INSERT INTO catalog_prices (product_id, currency, billing_cycle, amount)
+SELECT p.id, 'USD', seed.billing_cycle, seed.amount
+FROM (
+  VALUES
+    ('creator_membership', 'premium', 'monthly', 9.99),
+    ('creator_membership', 'premium', 'annual', 99.00),
+    ('creator_membership', 'professional', 'monthly', 24.99),
+    ('creator_membership', 'professional', 'annual', 249.00),
+    ('creator_membership', 'elite', 'monthly', 99.99),
+    ('creator_membership', 'elite', 'annual', 999.00),
+    ('member_membership', 'welcome', 'monthly', 2.99),
+    ('member_membership', 'welcome', 'annual', 29.88),
+    ('member_membership', 'premium', 'monthly', 9.99),
+    ('member_membership', 'premium', 'annual', 99.00),
+    ('member_membership', 'elite', 'monthly', 19.99),
+    ('member_membership', 'elite', 'annual', 199.00),
+    ('member_membership', 'enterprise', 'monthly', 49.99),
+    ('member_membership', 'enterprise', 'annual', 499.00)
+) AS seed(product_type, product_ref, billing_cycle, amount)
+JOIN catalog_products p
+  ON p.product_type = seed.product_type AND p.product_ref = seed.product_ref
+WHERE NOT EXISTS (
+  SELECT 1 FROM catalog_prices cp
+  WHERE cp.product_id = p.id AND cp.currency = 'USD' AND cp.billing_cycle = seed.billing_cycle
+);
+
+INSERT INTO catalog_products (product_type, product_ref, name)
+SELECT 'course', m.id::TEXT, m.title
+FROM masterclass_page_content m
+ON CONFLICT (product_type, product_ref) DO NOTHING;
+
+INSERT INTO catalog_prices (product_id, currency, billing_cycle, amount)
+SELECT p.id, m.course_currency, 'one_time', m.course_price
+FROM masterclass_page_content m
+JOIN catalog_products p ON p.product_type = 'course' AND p.product_ref = m.id::TEXT
+WHERE NOT EXISTS (SELECT 1 FROM catalog_prices cp WHERE cp.product_id = p.id);
+
+INSERT INTO catalog_products (product_type, product_ref, name)
+SELECT 'event_ticket', e.id::TEXT, e.title
+FROM events e
+WHERE e.price IS NOT NULL
+ON CONFLICT (product_type, product_ref) DO NOTHING;
+
+INSERT INTO catalog_prices (product_id, currency, billing_cycle, amount)
+SELECT p.id, 'UGX', 'one_time', e.price
+FROM events e
+JOIN catalog_products p ON p.product_type = 'event_ticket' AND p.product_ref = e.id::TEXT
+WHERE e.price IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM catalog_prices cp WHERE cp.product_id = p.id);
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- The catalog is public; only admins and edge functions change it.
+-- ===================================================================
+
+ALTER TABLE price_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE catalog_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE catalog_prices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view price_books" ON price_books;
+CREATE POLICY "Anyone can view price_books"
+ON price_books FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage price_books" ON price_books;
+CREATE POLICY "Admins can manage price_books"
+ON price_books FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage price_books" ON price_books;
+CREATE POLICY "Service role can manage price_books"
+ON price_books FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Anyone can view catalog_products" ON catalog_products;
+CREATE POLICY "Anyone can view catalog_products"
+ON catalog_products FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage catalog_products" ON catalog_products;
+CREATE POLICY "Admins can manage catalog_products"
+ON catalog_products FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage catalog_products" ON catalog_products;
+CREATE POLICY "Service role can manage catalog_products"
+ON catalog_products FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Anyone can view catalog_prices" ON catalog_prices;
+CREATE POLICY "Anyone can view catalog_prices"
+ON catalog_prices FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage catalog_prices" ON catalog_prices;
+CREATE POLICY "Admins can manage catalog_prices"
+ON catalog_prices FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage catalog_prices" ON catalog_prices;
+CREATE POLICY "Service role can manage catalog_prices"
+ON catalog_prices FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- SCHEDULED PLAN CHANGES USE CATALOG PRICES
+-- schedule_membership_change prices the renewal with
+-- membership_plan_price; from here on that is the catalog price
+-- (memberships are priced in the USD book).
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION membership_plan_price(
+  p_membership_type TEXT,
+  p_tier TEXT,
+  p_billing_cycle TEXT
+)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT get_catalog_price(p_membership_type || '_membership', p_tier, 'USD', p_billing_cycle);
+$$;
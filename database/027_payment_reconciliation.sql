@@ -0,0 +1,143 @@
+-- ===================================================================
+-- PAYMENT RECONCILIATION
+-- The reconcilePayments edge function asks the gateway about membership
+-- transactions we have not heard back on (lost webhook, abandoned
+-- checkout) and double-checks recently completed ones:
+--   * settles stale pending/processing transactions the gateway has
+--     completed or failed
+--   * expires checkouts that never completed
+--   * flags amount/currency mismatches between our records and the gateway
+-- Every run and every transaction it touched is recorded here; admins
+-- download a day's items as CSV from reconcilePayments?date=YYYY-MM-DD.
+-- ===================================================================
+
+ALTER TABLE creators_membership
+  ADD COLUMN IF NOT EXISTS reconciliation_status TEXT
+    CHECK (reconciliation_status IN ('matched', 'settled', 'expired', 'mismatch')),
+  ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE members_membership
+  ADD COLUMN IF NOT EXISTS reconciliation_status TEXT
+    CHECK (reconciliation_status IN ('matched', 'settled', 'expired', 'mismatch')),
+  ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_creators_membership_open_reconciliation
+  ON creators_membership(created_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_members_membership_open_reconciliation
+  ON members_membership(created_at)
+  WHERE status IN ('pending', 'processing');
+
+-- ===================================================================
+-- RECONCILIATION RUNS
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS payment_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  checked INTEGER NOT NULL DEFAULT 0,
+  settled INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  expired INTEGER NOT NULL DEFAULT 0,
+  mismatched INTEGER NOT NULL DEFAULT 0,
+  matched INTEGER NOT NULL DEFAULT 0,
+  still_pending INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_runs_run_date
+  ON payment_reconciliation_runs(run_date DESC);
+
+-- ===================================================================
+-- RECONCILIATION ITEMS
+-- One row per transaction a run changed or flagged. Transactions that
+-- are simply still waiting on the customer are only counted on the run.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS payment_reconciliation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES payment_reconciliation_runs(id) ON DELETE CASCADE,
+  membership_type TEXT NOT NULL CHECK (membership_type IN ('creator', 'member')),
+  transaction_id UUID NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  gateway TEXT,
+  gateway_reference TEXT,
+  outcome TEXT NOT NULL CHECK (outcome IN ('settled', 'failed', 'expired', 'mismatch', 'matched', 'error')),
+  previous_status TEXT,
+  new_status TEXT,
+  amount DECIMAL(10, 2),
+  currency TEXT,
+  gateway_status TEXT,
+  gateway_amount DECIMAL(10, 2),
+  gateway_currency TEXT,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_items_run_id
+  ON payment_reconciliation_items(run_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_items_transaction
+  ON payment_reconciliation_items(membership_type, transaction_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_items_outcome
+  ON payment_reconciliation_items(outcome);
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Written only by reconcilePayments (service role); admins can read.
+-- ===================================================================
+
+ALTER TABLE payment_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view payment_reconciliation_runs" ON payment_reconciliation_runs;
+CREATE POLICY "Admins can view payment_reconciliation_runs"
+ON payment_reconciliation_runs FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage payment_reconciliation_runs" ON payment_reconciliation_runs;
+CREATE POLICY "Service role can manage payment_reconciliation_runs"
+ON payment_reconciliation_runs FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can view payment_reconciliation_items" ON payment_reconciliation_items;
+CREATE POLICY "Admins can view payment_reconciliation_items"
+ON payment_reconciliation_items FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage payment_reconciliation_items" ON payment_reconciliation_items;
+CREATE POLICY "Service role can manage payment_reconciliation_items"
+ON payment_reconciliation_items FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- SCHEDULE
+-- Run the reconciliation job hourly (requires pg_cron + pg_net):
+--
+-- SELECT cron.schedule(
+--   'reconcile-payments',
+--   '15 * * * *',
+--   $$ SELECT net.http_post(
+--        url := 'https://<project-ref>.supabase.co/functions/v1/reconcilePayments',
+--        headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--      ) $$
+-- );
+-- ===================================================================
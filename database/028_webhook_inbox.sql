@@ -0,0 +1,162 @@
+-- ===================================================================
+-- WEBHOOK INBOX
+-- Every verified webhook (payment gateways and Mux) is stored here
+-- before it is processed, so a failed database update is retried rather
+-- than lost and a redelivered event is processed once.
+--
+-- Lifecycle:
+--   pending -> processing -> processed
+--                         -> failed (retried at next_attempt_at with
+--                            exponential backoff)
+--                         -> dead_letter (after max_attempts; replayed
+--                            by an admin with replay_webhook_event)
+-- See supabase/functions/_shared/webhookInbox.ts.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_inbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL CHECK (source IN ('eversend', 'flutterwave', 'sandbox', 'mux')),
+  -- Identifies the event for de-duplication of redeliveries
+  event_key TEXT NOT NULL,
+  event_type TEXT,
+  payload JSONB NOT NULL,
+  signature TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  dead_lettered_at TIMESTAMP WITH TIME ZONE,
+  replay_count INTEGER NOT NULL DEFAULT 0,
+  replayed_at TIMESTAMP WITH TIME ZONE,
+  replayed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  CONSTRAINT webhook_inbox_source_event_key_unique UNIQUE (source, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_inbox_due
+  ON webhook_inbox(next_attempt_at)
+  WHERE status IN ('pending', 'failed');
+CREATE INDEX IF NOT EXISTS idx_webhook_inbox_status ON webhook_inbox(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_inbox_received_at ON webhook_inbox(received_at DESC);
+
+-- ===================================================================
+-- CLAIM EVENTS
+-- Locks due events for one worker (SKIP LOCKED lets several run side
+-- by side). Events stuck in 'processing' for 10 minutes - a worker that
+-- died mid-event - are claimed again. Pass p_event_id to claim a single
+-- event right after it was stored.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION claim_webhook_inbox_events(
+  p_limit INTEGER DEFAULT 20,
+  p_event_id UUID DEFAULT NULL
+)
+RETURNS SETOF webhook_inbox
+LANGUAGE sql
+AS $$
+  UPDATE webhook_inbox
+  SET status = 'processing',
+      locked_at = NOW(),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM webhook_inbox
+    WHERE (p_event_id IS NULL OR id = p_event_id)
+      AND (
+        (status IN ('pending', 'failed') AND next_attempt_at <= NOW())
+        OR (status = 'processing' AND locked_at < NOW() - INTERVAL '10 minutes')
+      )
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_inbox_events(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_inbox_events(INTEGER, UUID) TO service_role;
+
+-- ===================================================================
+-- REPLAY (admins)
+-- Puts a dead-lettered or failed event - or a processed one that needs
+-- to be applied again - back in the queue with fresh attempts.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION replay_webhook_event(p_event_id UUID)
+RETURNS webhook_inbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_event webhook_inbox;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE webhook_inbox
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = NOW(),
+      locked_at = NULL,
+      dead_lettered_at = NULL,
+      replay_count = replay_count + 1,
+      replayed_at = NOW(),
+      replayed_by = auth.uid()
+  WHERE id = p_event_id
+    AND status <> 'processing'
+  RETURNING * INTO v_event;
+
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Webhook event not found or currently processing';
+  END IF;
+
+  RETURN v_event;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION replay_webhook_event(UUID) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE webhook_inbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view webhook_inbox" ON webhook_inbox;
+CREATE POLICY "Admins can view webhook_inbox"
+ON webhook_inbox FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage webhook_inbox" ON webhook_inbox;
+CREATE POLICY "Service role can manage webhook_inbox"
+ON webhook_inbox FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- SCHEDULE
+-- Run the inbox worker every minute (requires pg_cron + pg_net):
+--
+-- SELECT cron.schedule(
+--   'process-webhook-inbox',
+--   '* * * * *',
+--   $$ SELECT net.http_post(
+--        url := 'https://<project-ref>.supabase.co/functions/v1/processWebhookInbox',
+--        headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--      ) $$
+-- );
+-- ===================================================================
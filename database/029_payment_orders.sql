@@ -0,0 +1,272 @@
+-- ===================================================================
+-- PAYMENT ORDERS
+-- One-off purchases (course enrollments, event tickets, tips) go through
+-- the same pipeline as memberships: initializePaymentUnified prices the
+-- item server-side and creates the order under an idempotency key, and
+-- the verified gateway webhook (via the webhook inbox) fulfils it - the
+-- enrollment, invoice, ticket or tip is only written then.
+--
+-- Lifecycle:
+--   pending -> processing -> completed (fulfilled)
+--                         -> failed / expired
+--   completed -> refunded / partially_refunded
+-- See supabase/functions/_shared/purchaseOrders.ts.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS payment_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('course_enrollment', 'event_ticket', 'tip')),
+  -- Course id, event id or creator name (tips)
+  item_ref TEXT NOT NULL,
+  item_title TEXT,
+  list_price DECIMAL(12, 2) NOT NULL,
+  discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL,
+  payment_method TEXT NOT NULL,
+  gateway TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'expired', 'refunded', 'partially_refunded')),
+  transaction_id TEXT,
+  reference_id TEXT,
+  checkout_url TEXT,
+  -- Row the purchase created: student_enrollments, event_registrations or tips
+  fulfillment_id UUID,
+  fulfilled_at TIMESTAMP WITH TIME ZONE,
+  refunded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  error_message TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_orders_user_id ON payment_orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_payment_orders_item ON payment_orders(item_type, item_ref);
+CREATE INDEX IF NOT EXISTS idx_payment_orders_status ON payment_orders(status);
+CREATE INDEX IF NOT EXISTS idx_payment_orders_transaction_id ON payment_orders(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_payment_orders_reference_id ON payment_orders(reference_id);
+
+CREATE OR REPLACE FUNCTION update_payment_orders_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_payment_orders_updated_at ON payment_orders;
+CREATE TRIGGER trigger_payment_orders_updated_at
+BEFORE UPDATE ON payment_orders
+FOR EACH ROW
+EXECUTE FUNCTION update_payment_orders_updated_at();
+
+-- ===================================================================
+-- ORDER AUDIT LOG
+-- payment_audit_log is keyed to the membership tables, so orders keep
+-- their own trail.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS payment_order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES payment_orders(id) ON DELETE CASCADE,
+  user_id UUID,
+  action TEXT NOT NULL,
+  action_type TEXT NOT NULL,
+  previous_status TEXT,
+  new_status TEXT,
+  details JSONB DEFAULT '{}'::jsonb,
+  performed_by TEXT DEFAULT 'system',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_order_events_order_id ON payment_order_events(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_order_events_created_at ON payment_order_events(created_at DESC);
+
+-- ===================================================================
+-- ENROLLMENTS
+-- Paid enrollments are written by the webhook, not the browser. Users
+-- keep enrolling themselves in free courses and updating their progress,
+-- but can no longer mark an enrollment paid.
+-- ===================================================================
+
+ALTER TABLE public.student_enrollments
+  ADD COLUMN IF NOT EXISTS payment_order_id UUID REFERENCES payment_orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS currency TEXT,
+  -- Set once the enrollment is paid for (or free); createCertificate requires it
+  ADD COLUMN IF NOT EXISTS certificate_eligible BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE public.student_enrollments
+SET certificate_eligible = TRUE
+WHERE payment_status = 'completed'
+  AND certificate_eligible = FALSE;
+
+-- Free enrollments are eligible as soon as they are created
+CREATE OR REPLACE FUNCTION set_free_enrollment_certificate_eligible()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.price_paid = 0 AND NEW.payment_status = 'completed' THEN
+    NEW.certificate_eligible := TRUE;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_free_enrollment_certificate_eligible ON public.student_enrollments;
+CREATE TRIGGER trigger_free_enrollment_certificate_eligible
+BEFORE INSERT ON public.student_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION set_free_enrollment_certificate_eligible();
+
+DROP POLICY IF EXISTS "Users can create enrollments for themselves" ON public.student_enrollments;
+CREATE POLICY "Users can create enrollments for themselves"
+ON public.student_enrollments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND price_paid = 0
+  AND EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id
+    AND COALESCE(mpc.course_price, 0) = 0
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage student_enrollments" ON public.student_enrollments;
+CREATE POLICY "Service role can manage student_enrollments"
+ON public.student_enrollments FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- Payment columns only change through the service role (webhooks, refunds)
+CREATE OR REPLACE FUNCTION protect_enrollment_payment_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.price_paid IS DISTINCT FROM OLD.price_paid
+    OR NEW.transaction_id IS DISTINCT FROM OLD.transaction_id
+    OR NEW.payment_order_id IS DISTINCT FROM OLD.payment_order_id
+    OR NEW.certificate_eligible IS DISTINCT FROM OLD.certificate_eligible THEN
+    RAISE EXCEPTION 'Enrollment payment details can only be changed by the payment system';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_enrollment_payment_fields ON public.student_enrollments;
+CREATE TRIGGER trigger_protect_enrollment_payment_fields
+BEFORE UPDATE ON public.student_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION protect_enrollment_payment_fields();
+
+-- ===================================================================
+-- CERTIFICATES AND INVOICES
+-- Certificates need a paid (or free) enrollment; invoices for paid
+-- enrollments are written by the webhook.
+-- ===================================================================
+
+DROP POLICY IF EXISTS "Users can create their own certificates" ON public.student_certificates;
+CREATE POLICY "Users can create their own certificates"
+ON public.student_certificates
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.student_enrollments se
+    WHERE se.id = enrollment_id
+    AND se.user_id = auth.uid()
+    AND se.certificate_eligible
+  )
+);
+
+DROP POLICY IF EXISTS "Users can create their own invoices" ON public.enrollment_invoices;
+
+DROP POLICY IF EXISTS "Service role can manage enrollment_invoices" ON public.enrollment_invoices;
+CREATE POLICY "Service role can manage enrollment_invoices"
+ON public.enrollment_invoices FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- RECONCILIATION
+-- reconcilePayments verifies orders still pending/processing with the
+-- gateway, like membership transactions, and expires abandoned
+-- checkouts. Its items record orders with membership_type 'order'.
+-- ===================================================================
+
+ALTER TABLE payment_orders
+  ADD COLUMN IF NOT EXISTS reconciliation_status TEXT
+    CHECK (reconciliation_status IN ('settled', 'expired', 'mismatch')),
+  ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_payment_orders_open_reconciliation
+  ON payment_orders(created_at)
+  WHERE status IN ('pending', 'processing');
+
+ALTER TABLE payment_reconciliation_items
+  DROP CONSTRAINT IF EXISTS payment_reconciliation_items_membership_type_check;
+ALTER TABLE payment_reconciliation_items
+  ADD CONSTRAINT payment_reconciliation_items_membership_type_check
+    CHECK (membership_type IN ('creator', 'member', 'order'));
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Orders are created and settled by edge functions (service role).
+-- ===================================================================
+
+ALTER TABLE payment_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_order_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own payment_orders" ON payment_orders;
+CREATE POLICY "Users can view own payment_orders"
+ON payment_orders FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view payment_orders" ON payment_orders;
+CREATE POLICY "Admins can view payment_orders"
+ON payment_orders FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage payment_orders" ON payment_orders;
+CREATE POLICY "Service role can manage payment_orders"
+ON payment_orders FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own payment_order_events" ON payment_order_events;
+CREATE POLICY "Users can view own payment_order_events"
+ON payment_order_events FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view payment_order_events" ON payment_order_events;
+CREATE POLICY "Admins can view payment_order_events"
+ON payment_order_events FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage payment_order_events" ON payment_order_events;
+CREATE POLICY "Service role can manage payment_order_events"
+ON payment_order_events FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,537 @@
+-- ===================================================================
+-- PROMO CODES V2
+-- Rules on top of the single discount per course from 016/017:
+--   * codes for courses, event tickets and membership tiers (applies_to,
+--     item_refs)
+--   * per-user redemption limits, first-purchase-only codes and minimum
+--     order amounts
+--   * explicit stacking: up to 3 codes combine when every one of them is
+--     stackable; percentage codes apply before fixed amounts
+--   * bulk single-use partner codes generated from a template code
+--   * redemption analytics for the code's owner (created_by)
+--
+-- evaluate_promo_codes is the one place discounts are calculated: the
+-- client previews with it and initializePaymentUnified re-checks with it
+-- before charging. Redemptions are recorded when the payment settles.
+-- ===================================================================
+
+ALTER TABLE public.promo_codes
+  ALTER COLUMN discount_percentage DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  -- Purchase types the code is valid for
+  ADD COLUMN IF NOT EXISTS applies_to TEXT[] NOT NULL DEFAULT ARRAY['course_enrollment'],
+  -- Course ids, event ids or membership tiers; NULL = any item of those types
+  ADD COLUMN IF NOT EXISTS item_refs TEXT[],
+  -- Currency of discount_amount / min_order_amount; NULL = any currency
+  ADD COLUMN IF NOT EXISTS currency TEXT,
+  ADD COLUMN IF NOT EXISTS min_order_amount DECIMAL(12, 2),
+  ADD COLUMN IF NOT EXISTS max_uses_per_user INTEGER,
+  ADD COLUMN IF NOT EXISTS first_purchase_only BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS is_stackable BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS batch_id UUID,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE public.promo_codes DROP CONSTRAINT IF EXISTS promo_codes_applies_to_check;
+ALTER TABLE public.promo_codes
+  ADD CONSTRAINT promo_codes_applies_to_check CHECK (
+    applies_to <@ ARRAY['course_enrollment', 'event_ticket', 'creator_membership', 'member_membership']
+    AND cardinality(applies_to) > 0
+  );
+
+ALTER TABLE public.promo_codes DROP CONSTRAINT IF EXISTS promo_codes_discount_check;
+ALTER TABLE public.promo_codes
+  ADD CONSTRAINT promo_codes_discount_check CHECK (
+    (discount_percentage > 0 AND discount_percentage <= 100)
+    OR discount_amount > 0
+  ) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_promo_codes_created_by ON public.promo_codes(created_by);
+CREATE INDEX IF NOT EXISTS idx_promo_codes_batch_id ON public.promo_codes(batch_id);
+CREATE INDEX IF NOT EXISTS idx_promo_codes_code_upper ON public.promo_codes(UPPER(code));
+
+-- ===================================================================
+-- PARTNER BATCHES
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS promo_code_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  partner_name TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.promo_codes DROP CONSTRAINT IF EXISTS promo_codes_batch_fkey;
+ALTER TABLE public.promo_codes
+  ADD CONSTRAINT promo_codes_batch_fkey FOREIGN KEY (batch_id)
+  REFERENCES promo_code_batches(id) ON DELETE CASCADE;
+
+-- ===================================================================
+-- REDEMPTIONS
+-- One row per code used on a settled payment (replaces
+-- enrollment_promo_codes for new purchases).
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL
+    CHECK (item_type IN ('course_enrollment', 'event_ticket', 'creator_membership', 'member_membership')),
+  item_ref TEXT NOT NULL,
+  payment_order_id UUID REFERENCES payment_orders(id) ON DELETE SET NULL,
+  membership_transaction_id UUID,
+  currency TEXT NOT NULL,
+  -- Order price before any code, the part this code took off, what was paid
+  list_amount DECIMAL(12, 2) NOT NULL,
+  discount_amount DECIMAL(12, 2) NOT NULL,
+  amount_paid DECIMAL(12, 2) NOT NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT promo_code_redemptions_order_unique UNIQUE (promo_code_id, payment_order_id),
+  CONSTRAINT promo_code_redemptions_membership_unique UNIQUE (promo_code_id, membership_transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_promo ON promo_code_redemptions(promo_code_id);
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_user ON promo_code_redemptions(user_id, promo_code_id);
+
+-- Carry over course redemptions recorded before v2
+INSERT INTO promo_code_redemptions (
+  promo_code_id, user_id, item_type, item_ref, currency,
+  list_amount, discount_amount, amount_paid, redeemed_at
+)
+SELECT
+  epc.promo_code_id,
+  se.user_id,
+  'course_enrollment',
+  se.course_id::TEXT,
+  COALESCE(se.currency, 'UGX'),
+  se.price_paid + epc.discount_amount,
+  epc.discount_amount,
+  se.price_paid,
+  se.enrolled_at
+FROM public.enrollment_promo_codes epc
+JOIN public.student_enrollments se ON se.id = epc.enrollment_id
+WHERE NOT EXISTS (
+  SELECT 1 FROM promo_code_redemptions r
+  WHERE r.promo_code_id = epc.promo_code_id
+  AND r.user_id = se.user_id
+  AND r.item_ref = se.course_id::TEXT
+);
+
+-- Orders can carry several stacked codes
+ALTER TABLE payment_orders
+  ADD COLUMN IF NOT EXISTS promo_code_ids UUID[] NOT NULL DEFAULT '{}';
+
+UPDATE payment_orders
+SET promo_code_ids = ARRAY[promo_code_id]
+WHERE promo_code_id IS NOT NULL
+  AND cardinality(promo_code_ids) = 0;
+
+ALTER TABLE payment_orders DROP COLUMN IF EXISTS promo_code_id;
+
+-- ===================================================================
+-- EVALUATE CODES
+-- Returns { valid, error?, list_amount, discount_amount, final_amount,
+-- codes: [{ id, code, discount_amount }] } for the given codes applied to
+-- one purchase. p_amount is the price before codes. Signed-in users
+-- evaluate for themselves; the service role passes p_user_id.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION evaluate_promo_codes(
+  p_codes TEXT[],
+  p_item_type TEXT,
+  p_item_ref TEXT,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  c_max_codes CONSTANT INTEGER := 3;
+  v_user_id UUID;
+  v_codes TEXT[];
+  v_code TEXT;
+  v_promo public.promo_codes;
+  v_promos public.promo_codes[] := ARRAY[]::public.promo_codes[];
+  v_user_uses INTEGER;
+  v_has_purchase BOOLEAN;
+  v_remaining DECIMAL;
+  v_discount DECIMAL;
+  v_applied JSONB := '[]'::JSONB;
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    v_user_id := p_user_id;
+  ELSE
+    IF p_user_id IS NOT NULL AND p_user_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Cannot evaluate promo codes for another user';
+    END IF;
+    v_user_id := auth.uid();
+  END IF;
+
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('valid', FALSE, 'error', 'Sign in to use promo codes');
+  END IF;
+
+  SELECT ARRAY_AGG(DISTINCT UPPER(TRIM(c)))
+  INTO v_codes
+  FROM UNNEST(p_codes) AS c
+  WHERE TRIM(c) <> '';
+
+  IF v_codes IS NULL THEN
+    RETURN jsonb_build_object('valid', FALSE, 'error', 'Enter a promo code');
+  END IF;
+
+  IF cardinality(v_codes) > c_max_codes THEN
+    RETURN jsonb_build_object('valid', FALSE, 'error', format('At most %s promo codes can be combined', c_max_codes));
+  END IF;
+
+  FOREACH v_code IN ARRAY v_codes LOOP
+    SELECT * INTO v_promo FROM public.promo_codes WHERE UPPER(code) = v_code;
+
+    IF v_promo.id IS NULL
+      OR NOT v_promo.is_active
+      OR v_promo.valid_from > NOW()
+      OR v_promo.valid_until <= NOW()
+      OR (v_promo.max_uses IS NOT NULL AND COALESCE(v_promo.current_uses, 0) >= v_promo.max_uses) THEN
+      RETURN jsonb_build_object('valid', FALSE, 'code', v_code, 'error', format('%s is invalid or expired', v_code));
+    END IF;
+
+    IF NOT (p_item_type = ANY(v_promo.applies_to))
+      OR (v_promo.item_refs IS NOT NULL AND NOT (p_item_ref = ANY(v_promo.item_refs)))
+      OR (v_promo.course_id IS NOT NULL AND v_promo.course_id::TEXT <> p_item_ref) THEN
+      RETURN jsonb_build_object('valid', FALSE, 'code', v_code, 'error', format('%s does not apply to this purchase', v_code));
+    END IF;
+
+    IF v_promo.currency IS NOT NULL AND v_promo.currency <> p_currency THEN
+      RETURN jsonb_build_object('valid', FALSE, 'code', v_code, 'error', format('%s is only valid for %s prices', v_code, v_promo.currency));
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND p_amount < v_promo.min_order_amount THEN
+      RETURN jsonb_build_object('valid', FALSE, 'code', v_code,
+        'error', format('%s requires an order of at least %s %s', v_code, v_promo.min_order_amount, COALESCE(v_promo.currency, p_currency)));
+    END IF;
+
+    IF v_promo.max_uses_per_user IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_user_uses
+      FROM promo_code_redemptions
+      WHERE promo_code_id = v_promo.id AND user_id = v_user_id;
+
+      IF v_user_uses >= v_promo.max_uses_per_user THEN
+        RETURN jsonb_build_object('valid', FALSE, 'code', v_code, 'error', format('You have already used %s', v_code));
+      END IF;
+    END IF;
+
+    IF v_promo.first_purchase_only THEN
+      SELECT
+        EXISTS (
+          SELECT 1 FROM payment_orders
+          WHERE user_id = v_user_id
+          AND status IN ('completed', 'refunded', 'partially_refunded')
+        )
+        OR EXISTS (SELECT 1 FROM creators_membership WHERE user_id = v_user_id AND status = 'completed')
+        OR EXISTS (SELECT 1 FROM members_membership WHERE user_id = v_user_id AND status = 'completed')
+        OR EXISTS (
+          SELECT 1 FROM public.student_enrollments
+          WHERE user_id = v_user_id AND price_paid > 0 AND payment_status = 'completed'
+        )
+      INTO v_has_purchase;
+
+      IF v_has_purchase THEN
+        RETURN jsonb_build_object('valid', FALSE, 'code', v_code, 'error', format('%s is only valid on your first purchase', v_code));
+      END IF;
+    END IF;
+
+    v_promos := v_promos || v_promo;
+  END LOOP;
+
+  IF cardinality(v_promos) > 1 THEN
+    FOREACH v_promo IN ARRAY v_promos LOOP
+      IF NOT v_promo.is_stackable THEN
+        RETURN jsonb_build_object('valid', FALSE, 'code', v_promo.code,
+          'error', format('%s cannot be combined with other codes', v_promo.code));
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Percentage codes first (each on what is left), then fixed amounts
+  v_remaining := p_amount;
+
+  FOR v_promo IN
+    SELECT * FROM UNNEST(v_promos)
+    ORDER BY (COALESCE(discount_percentage, 0) > 0) DESC, code
+  LOOP
+    IF COALESCE(v_promo.discount_percentage, 0) > 0 THEN
+      v_discount := ROUND(v_remaining * v_promo.discount_percentage / 100, 2);
+    ELSE
+      v_discount := LEAST(v_promo.discount_amount, v_remaining);
+    END IF;
+
+    v_remaining := v_remaining - v_discount;
+    v_applied := v_applied || jsonb_build_object(
+      'id', v_promo.id,
+      'code', v_promo.code,
+      'discount_amount', v_discount
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'valid', TRUE,
+    'list_amount', p_amount,
+    'discount_amount', p_amount - v_remaining,
+    'final_amount', v_remaining,
+    'codes', v_applied
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION evaluate_promo_codes(TEXT[], TEXT, TEXT, DECIMAL, TEXT, UUID) TO authenticated;
+
+-- ===================================================================
+-- BULK PARTNER CODES
+-- Copies the rules of a template code into p_quantity single-use codes
+-- (TEMPLATE-XXXXXXXX). Owners of the template and admins only.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION generate_promo_code_batch(
+  p_template_id UUID,
+  p_quantity INTEGER,
+  p_partner_name TEXT DEFAULT NULL
+)
+RETURNS promo_code_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_template public.promo_codes;
+  v_batch promo_code_batches;
+BEGIN
+  SELECT * INTO v_template FROM public.promo_codes WHERE id = p_template_id;
+
+  IF v_template.id IS NULL THEN
+    RAISE EXCEPTION 'Template promo code not found';
+  END IF;
+
+  IF v_template.created_by <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only the owner of a promo code can generate codes from it';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 OR p_quantity > 1000 THEN
+    RAISE EXCEPTION 'Quantity must be between 1 and 1000';
+  END IF;
+
+  INSERT INTO promo_code_batches (template_id, name, partner_name, quantity, created_by)
+  VALUES (
+    v_template.id,
+    COALESCE(p_partner_name, v_template.code) || ' - ' || p_quantity || ' codes',
+    p_partner_name,
+    p_quantity,
+    auth.uid()
+  )
+  RETURNING * INTO v_batch;
+
+  INSERT INTO public.promo_codes (
+    code, description, discount_percentage, discount_amount, currency,
+    max_uses, max_uses_per_user, min_order_amount, first_purchase_only,
+    is_stackable, applies_to, item_refs, course_id,
+    valid_from, valid_until, is_active, created_by, batch_id
+  )
+  SELECT
+    UPPER(v_template.code) || '-' || UPPER(SUBSTRING(md5(gen_random_uuid()::TEXT) FROM 1 FOR 8)),
+    v_template.description, v_template.discount_percentage, v_template.discount_amount, v_template.currency,
+    1, 1, v_template.min_order_amount, v_template.first_purchase_only,
+    v_template.is_stackable, v_template.applies_to, v_template.item_refs, v_template.course_id,
+    v_template.valid_from, v_template.valid_until, TRUE, auth.uid(), v_batch.id
+  FROM generate_series(1, p_quantity);
+
+  RETURN v_batch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_promo_code_batch(UUID, INTEGER, TEXT) TO authenticated;
+
+-- ===================================================================
+-- ANALYTICS
+-- Uses and revenue impact per code and currency, for codes the caller
+-- owns (admins see all). Pass p_batch_id for a partner batch.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION get_promo_code_analytics(
+  p_promo_code_id UUID DEFAULT NULL,
+  p_batch_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  promo_code_id UUID,
+  code TEXT,
+  batch_id UUID,
+  is_active BOOLEAN,
+  currency TEXT,
+  uses BIGINT,
+  unique_users BIGINT,
+  gross_amount DECIMAL,
+  discount_amount DECIMAL,
+  net_revenue DECIMAL,
+  first_redeemed_at TIMESTAMP WITH TIME ZONE,
+  last_redeemed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_is_admin BOOLEAN;
+BEGIN
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  ) INTO v_is_admin;
+
+  RETURN QUERY
+  SELECT
+    pc.id,
+    pc.code,
+    pc.batch_id,
+    pc.is_active,
+    r.currency,
+    COUNT(r.id),
+    COUNT(DISTINCT r.user_id),
+    COALESCE(SUM(r.list_amount), 0),
+    COALESCE(SUM(r.discount_amount), 0),
+    COALESCE(SUM(r.amount_paid), 0),
+    MIN(r.redeemed_at),
+    MAX(r.redeemed_at)
+  FROM public.promo_codes pc
+  LEFT JOIN promo_code_redemptions r ON r.promo_code_id = pc.id
+  WHERE (v_is_admin OR pc.created_by = auth.uid())
+    AND (p_promo_code_id IS NULL OR pc.id = p_promo_code_id)
+    AND (p_batch_id IS NULL OR pc.batch_id = p_batch_id)
+  GROUP BY pc.id, pc.code, pc.batch_id, pc.is_active, r.currency
+  ORDER BY COUNT(r.id) DESC, pc.code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_promo_code_analytics(UUID, UUID) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Partner batch codes are never listed publicly. Creators may issue
+-- codes for their own courses; everything else needs an admin.
+-- ===================================================================
+
+DROP POLICY IF EXISTS "Everyone can view active promo codes" ON public.promo_codes;
+CREATE POLICY "Everyone can view active promo codes"
+ON public.promo_codes
+FOR SELECT
+USING (is_active = true AND batch_id IS NULL);
+
+DROP POLICY IF EXISTS "Owners can view own promo codes" ON public.promo_codes;
+CREATE POLICY "Owners can view own promo codes"
+ON public.promo_codes
+FOR SELECT
+USING (auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "Creators can create promo codes for own courses" ON public.promo_codes;
+CREATE POLICY "Creators can create promo codes for own courses"
+ON public.promo_codes
+FOR INSERT
+WITH CHECK (
+  auth.uid() = created_by
+  AND applies_to = ARRAY['course_enrollment']
+  AND course_id IS NOT NULL
+  AND item_refs IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id
+    AND mpc.user_id = auth.uid()
+  )
+);
+
+-- An update must keep the code within what its owner could have created
+DROP POLICY IF EXISTS "Owners can update own promo codes" ON public.promo_codes;
+CREATE POLICY "Owners can update own promo codes"
+ON public.promo_codes
+FOR UPDATE
+USING (auth.uid() = created_by)
+WITH CHECK (
+  auth.uid() = created_by
+  AND applies_to = ARRAY['course_enrollment']
+  AND course_id IS NOT NULL
+  AND item_refs IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id
+    AND mpc.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can manage promo codes" ON public.promo_codes;
+CREATE POLICY "Admins can manage promo codes"
+ON public.promo_codes
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+ALTER TABLE promo_code_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view own promo_code_batches" ON promo_code_batches;
+CREATE POLICY "Owners can view own promo_code_batches"
+ON promo_code_batches FOR SELECT
+USING (auth.uid() = created_by);
+
+DROP POLICY IF EXISTS "Admins can view promo_code_batches" ON promo_code_batches;
+CREATE POLICY "Admins can view promo_code_batches"
+ON promo_code_batches FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view own promo_code_redemptions" ON promo_code_redemptions;
+CREATE POLICY "Users can view own promo_code_redemptions"
+ON promo_code_redemptions FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Owners can view redemptions of own promo codes" ON promo_code_redemptions;
+CREATE POLICY "Owners can view redemptions of own promo codes"
+ON promo_code_redemptions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.promo_codes pc
+    WHERE pc.id = promo_code_id
+    AND pc.created_by = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can view promo_code_redemptions" ON promo_code_redemptions;
+CREATE POLICY "Admins can view promo_code_redemptions"
+ON promo_code_redemptions FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage promo_code_redemptions" ON promo_code_redemptions;
+CREATE POLICY "Service role can manage promo_code_redemptions"
+ON promo_code_redemptions FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
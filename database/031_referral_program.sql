@@ -0,0 +1,370 @@
+-- ===================================================================
+-- REFERRAL PROGRAM
+-- Every user gets one persistent referral code. A signup through a
+-- ?ref=<code> link carries the code in the auth metadata and is attached
+-- to the referrer by a trigger. The referred user's first paid membership
+-- or course enrollment converts the referral (record_referral_conversion,
+-- called by the payment webhook) and rewards the referrer with loyalty
+-- points or account credit, as configured in referral_reward_rules.
+--
+-- Lifecycle:
+--   referrals: signed_up -> converted
+--   referral_rewards: pending -> paid (credit payouts) / cancelled
+--   Points are added to profiles.loyalty_points straight away (paid).
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS referral_codes (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS referrals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- A user can only ever be referred once
+  referred_user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  referral_code TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'signed_up' CHECK (status IN ('signed_up', 'converted')),
+  -- The first paid purchase the referral is attributed to
+  converted_item_type TEXT
+    CHECK (converted_item_type IN ('creator_membership', 'member_membership', 'course_enrollment')),
+  converted_payment_id UUID,
+  converted_amount DECIMAL(12, 2),
+  converted_currency TEXT,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT referrals_not_self CHECK (referrer_id <> referred_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_id ON referrals(referrer_id);
+CREATE INDEX IF NOT EXISTS idx_referrals_status ON referrals(status);
+
+-- ===================================================================
+-- REWARD RULES
+-- One rule per purchase type. reward_type picks what the referrer earns;
+-- disable a rule to stop rewarding that purchase type.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS referral_reward_rules (
+  item_type TEXT PRIMARY KEY
+    CHECK (item_type IN ('creator_membership', 'member_membership', 'course_enrollment')),
+  reward_type TEXT NOT NULL DEFAULT 'loyalty_points'
+    CHECK (reward_type IN ('loyalty_points', 'account_credit')),
+  points INTEGER NOT NULL DEFAULT 0 CHECK (points >= 0),
+  credit_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (credit_amount >= 0),
+  credit_currency TEXT NOT NULL DEFAULT 'USD',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO referral_reward_rules (item_type, reward_type, points)
+VALUES
+  ('creator_membership', 'loyalty_points', 100),
+  ('member_membership', 'loyalty_points', 100),
+  ('course_enrollment', 'loyalty_points', 50)
+ON CONFLICT (item_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS referral_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- One reward per referral
+  referral_id UUID NOT NULL UNIQUE REFERENCES referrals(id) ON DELETE CASCADE,
+  referrer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reward_type TEXT NOT NULL CHECK (reward_type IN ('loyalty_points', 'account_credit')),
+  points INTEGER NOT NULL DEFAULT 0,
+  credit_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  credit_currency TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled')),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  payout_reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_rewards_referrer_id ON referral_rewards(referrer_id);
+CREATE INDEX IF NOT EXISTS idx_referral_rewards_status ON referral_rewards(status);
+
+-- ===================================================================
+-- CODES
+-- ===================================================================
+
+-- The caller's referral code, created on first use
+CREATE OR REPLACE FUNCTION get_my_referral_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT code INTO v_code FROM referral_codes WHERE user_id = auth.uid();
+  IF v_code IS NOT NULL THEN
+    RETURN v_code;
+  END IF;
+
+  LOOP
+    v_code := 'TT-' || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 8));
+    BEGIN
+      INSERT INTO referral_codes (user_id, code) VALUES (auth.uid(), v_code);
+      RETURN v_code;
+    EXCEPTION WHEN unique_violation THEN
+      -- Another request created the user's code first, or the code is taken
+      SELECT code INTO v_code FROM referral_codes WHERE user_id = auth.uid();
+      IF v_code IS NOT NULL THEN
+        RETURN v_code;
+      END IF;
+    END;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_referral_code() TO authenticated;
+
+-- ===================================================================
+-- ATTRIBUTION AT SIGNUP
+-- SignUp passes the ?ref= code as raw_user_meta_data.referral_code. A bad
+-- code never blocks the signup.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION attach_referral_on_signup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_code TEXT := UPPER(TRIM(NEW.raw_user_meta_data->>'referral_code'));
+  v_referrer_id UUID;
+BEGIN
+  IF v_code IS NULL OR v_code = '' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_referrer_id FROM public.referral_codes WHERE code = v_code;
+
+  IF v_referrer_id IS NOT NULL AND v_referrer_id <> NEW.id THEN
+    INSERT INTO public.referrals (referrer_id, referred_user_id, referral_code)
+    VALUES (v_referrer_id, NEW.id, v_code)
+    ON CONFLICT (referred_user_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Referral attribution failed for %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_referral ON auth.users;
+CREATE TRIGGER on_auth_user_created_referral
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.attach_referral_on_signup();
+
+-- ===================================================================
+-- CONVERSION
+-- Called by the payment webhook (service role) when a payment settles.
+-- Only the referred user's first settled purchase converts the referral;
+-- repeat calls and later purchases are no-ops. Returns the reward id.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION record_referral_conversion(
+  p_user_id UUID,
+  p_item_type TEXT,
+  p_payment_id UUID,
+  p_amount DECIMAL,
+  p_currency TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_referral referrals%ROWTYPE;
+  v_rule referral_reward_rules%ROWTYPE;
+  v_reward_id UUID;
+BEGIN
+  IF auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Only the payment system can record referral conversions';
+  END IF;
+
+  UPDATE referrals
+  SET status = 'converted',
+      converted_item_type = p_item_type,
+      converted_payment_id = p_payment_id,
+      converted_amount = p_amount,
+      converted_currency = p_currency,
+      converted_at = NOW()
+  WHERE referred_user_id = p_user_id
+    AND status = 'signed_up'
+  RETURNING * INTO v_referral;
+
+  IF v_referral.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_rule
+  FROM referral_reward_rules
+  WHERE item_type = p_item_type
+    AND is_active;
+
+  IF v_rule.item_type IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_rule.reward_type = 'loyalty_points' THEN
+    INSERT INTO referral_rewards (referral_id, referrer_id, reward_type, points, status, paid_at)
+    VALUES (v_referral.id, v_referral.referrer_id, 'loyalty_points', v_rule.points, 'paid', NOW())
+    RETURNING id INTO v_reward_id;
+
+    UPDATE public.profiles
+    SET loyalty_points = loyalty_points + v_rule.points,
+        updated_at = NOW()
+    WHERE id = v_referral.referrer_id;
+  ELSE
+    INSERT INTO referral_rewards (referral_id, referrer_id, reward_type, credit_amount, credit_currency)
+    VALUES (v_referral.id, v_referral.referrer_id, 'account_credit', v_rule.credit_amount, v_rule.credit_currency)
+    RETURNING id INTO v_reward_id;
+  END IF;
+
+  RETURN v_reward_id;
+END;
+$$;
+
+-- ===================================================================
+-- REFERRER DASHBOARD
+-- Referred users are shown by name only.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION get_my_referrals()
+RETURNS TABLE (
+  referral_id UUID,
+  referred_name TEXT,
+  status TEXT,
+  signed_up_at TIMESTAMP WITH TIME ZONE,
+  converted_item_type TEXT,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  reward_type TEXT,
+  reward_points INTEGER,
+  reward_credit_amount DECIMAL,
+  reward_credit_currency TEXT,
+  payout_status TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT
+    r.id,
+    COALESCE(p.name, 'New member'),
+    r.status,
+    r.created_at,
+    r.converted_item_type,
+    r.converted_at,
+    rw.reward_type,
+    rw.points,
+    rw.credit_amount,
+    rw.credit_currency,
+    rw.status,
+    rw.paid_at
+  FROM referrals r
+  LEFT JOIN public.profiles p ON p.id = r.referred_user_id
+  LEFT JOIN referral_rewards rw ON rw.referral_id = r.id
+  WHERE r.referrer_id = auth.uid()
+  ORDER BY r.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_referrals() TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Codes, referrals and rewards are written by the functions above.
+-- ===================================================================
+
+ALTER TABLE referral_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_reward_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_rewards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own referral_codes" ON referral_codes;
+CREATE POLICY "Users can view own referral_codes"
+ON referral_codes FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own referrals" ON referrals;
+CREATE POLICY "Users can view own referrals"
+ON referrals FOR SELECT
+USING (auth.uid() = referrer_id OR auth.uid() = referred_user_id);
+
+DROP POLICY IF EXISTS "Admins can view referrals" ON referrals;
+CREATE POLICY "Admins can view referrals"
+ON referrals FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage referrals" ON referrals;
+CREATE POLICY "Service role can manage referrals"
+ON referrals FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Anyone can view referral_reward_rules" ON referral_reward_rules;
+CREATE POLICY "Anyone can view referral_reward_rules"
+ON referral_reward_rules FOR SELECT
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Admins can manage referral_reward_rules" ON referral_reward_rules;
+CREATE POLICY "Admins can manage referral_reward_rules"
+ON referral_reward_rules FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view own referral_rewards" ON referral_rewards;
+CREATE POLICY "Users can view own referral_rewards"
+ON referral_rewards FOR SELECT
+USING (auth.uid() = referrer_id);
+
+-- Admins settle account credit payouts (status, paid_at, payout_reference)
+DROP POLICY IF EXISTS "Admins can manage referral_rewards" ON referral_rewards;
+CREATE POLICY "Admins can manage referral_rewards"
+ON referral_rewards FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage referral_rewards" ON referral_rewards;
+CREATE POLICY "Service role can manage referral_rewards"
+ON referral_rewards FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,238 @@
+-- ===================================================================
+-- COURSE CURRICULUM
+-- Courses are made of ordered sections, each holding ordered lessons.
+-- A lesson is a Mux video, an article or a downloadable resource, with
+-- a duration and an optional free-preview flag. Authored by the course
+-- owner in EditMasterclassContentModal; played by CourseLessonViewer.
+--
+-- Lesson content (playback id, article body, resource URL) is only
+-- readable by the owner, enrolled students, or anyone for free-preview
+-- lessons. get_course_curriculum returns the full outline to everyone
+-- with content hidden where the caller has no access.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS course_sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.masterclass_page_content(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_sections_course ON course_sections(course_id, position);
+
+CREATE TABLE IF NOT EXISTS course_lessons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.masterclass_page_content(id) ON DELETE CASCADE,
+  section_id UUID NOT NULL REFERENCES course_sections(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  lesson_type TEXT NOT NULL DEFAULT 'video' CHECK (lesson_type IN ('video', 'article', 'resource')),
+  position INTEGER NOT NULL DEFAULT 0,
+  duration_seconds INTEGER NOT NULL DEFAULT 0 CHECK (duration_seconds >= 0),
+  is_free_preview BOOLEAN NOT NULL DEFAULT FALSE,
+  -- video
+  mux_playback_id TEXT,
+  -- masterclass_video_uploads row the video came from
+  video_upload_id UUID,
+  thumbnail_url TEXT,
+  -- article
+  article_body TEXT,
+  -- resource
+  resource_url TEXT,
+  resource_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_lessons_section ON course_lessons(section_id, position);
+CREATE INDEX IF NOT EXISTS idx_course_lessons_course ON course_lessons(course_id);
+
+CREATE OR REPLACE FUNCTION update_curriculum_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_course_sections_updated_at ON course_sections;
+CREATE TRIGGER trigger_course_sections_updated_at
+BEFORE UPDATE ON course_sections
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_course_lessons_updated_at ON course_lessons;
+CREATE TRIGGER trigger_course_lessons_updated_at
+BEFORE UPDATE ON course_lessons
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- A lesson belongs to a section of the same course
+CREATE OR REPLACE FUNCTION check_lesson_section_course()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM course_sections
+    WHERE id = NEW.section_id AND course_id = NEW.course_id
+  ) THEN
+    RAISE EXCEPTION 'Lesson section belongs to a different course';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_lesson_section_course ON course_lessons;
+CREATE TRIGGER trigger_check_lesson_section_course
+BEFORE INSERT OR UPDATE OF section_id, course_id ON course_lessons
+FOR EACH ROW
+EXECUTE FUNCTION check_lesson_section_course();
+
+-- Keep masterclass_page_content.lessons_count (shown on course cards and
+-- used for progress) in step with the curriculum
+CREATE OR REPLACE FUNCTION sync_course_lessons_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_course_id UUID := COALESCE(NEW.course_id, OLD.course_id);
+BEGIN
+  UPDATE public.masterclass_page_content
+  SET lessons_count = (SELECT COUNT(*) FROM course_lessons WHERE course_id = v_course_id)
+  WHERE id = v_course_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_course_lessons_count ON course_lessons;
+CREATE TRIGGER trigger_sync_course_lessons_count
+AFTER INSERT OR DELETE ON course_lessons
+FOR EACH ROW
+EXECUTE FUNCTION sync_course_lessons_count();
+
+-- ===================================================================
+-- ACCESS
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION can_access_course_content(p_course_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.masterclass_page_content
+    WHERE id = p_course_id AND user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.student_enrollments
+    WHERE course_id = p_course_id
+      AND user_id = auth.uid()
+      AND payment_status IN ('completed', 'partially_refunded')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_access_course_content(UUID) TO authenticated;
+
+-- Full outline of a course; lesson content is NULL where the caller has
+-- no access (not enrolled and not a free preview)
+CREATE OR REPLACE FUNCTION get_course_curriculum(p_course_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  v_has_access BOOLEAN := can_access_course_content(p_course_id);
+BEGIN
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', s.id,
+        'title', s.title,
+        'description', s.description,
+        'position', s.position,
+        'lessons', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'id', l.id,
+              'section_id', l.section_id,
+              'title', l.title,
+              'description', l.description,
+              'lesson_type', l.lesson_type,
+              'position', l.position,
+              'duration_seconds', l.duration_seconds,
+              'is_free_preview', l.is_free_preview,
+              'thumbnail_url', l.thumbnail_url,
+              'resource_name', l.resource_name,
+              'is_locked', NOT (v_has_access OR l.is_free_preview),
+              'mux_playback_id', CASE WHEN v_has_access OR l.is_free_preview THEN l.mux_playback_id END,
+              'article_body', CASE WHEN v_has_access OR l.is_free_preview THEN l.article_body END,
+              'resource_url', CASE WHEN v_has_access OR l.is_free_preview THEN l.resource_url END
+            )
+            ORDER BY l.position, l.created_at
+          )
+          FROM course_lessons l
+          WHERE l.section_id = s.id
+        ), '[]'::jsonb)
+      )
+      ORDER BY s.position, s.created_at
+    )
+    FROM course_sections s
+    WHERE s.course_id = p_course_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_course_curriculum(UUID) TO anon, authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE course_sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_lessons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view course_sections" ON course_sections;
+CREATE POLICY "Anyone can view course_sections"
+ON course_sections FOR SELECT
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Course owners can manage course_sections" ON course_sections;
+CREATE POLICY "Course owners can manage course_sections"
+ON course_sections FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id AND mpc.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id AND mpc.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Students can view accessible course_lessons" ON course_lessons;
+CREATE POLICY "Students can view accessible course_lessons"
+ON course_lessons FOR SELECT
+USING (is_free_preview OR can_access_course_content(course_id));
+
+DROP POLICY IF EXISTS "Course owners can manage course_lessons" ON course_lessons;
+CREATE POLICY "Course owners can manage course_lessons"
+ON course_lessons FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id AND mpc.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id AND mpc.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,307 @@
+-- ===================================================================
+-- LESSON PROGRESS
+-- One row per student per lesson, written from Mux playback events:
+-- seconds actually watched, watched percentage and the last position
+-- (for resume across devices). A video lesson is complete once the
+-- watched percentage passes the course's completion threshold; articles
+-- and resources are completed when opened.
+--
+-- student_enrollments.lessons_completed / progress_percentage are now
+-- derived from these rows by refresh_enrollment_progress and can no
+-- longer be written by the browser.
+-- ===================================================================
+
+ALTER TABLE public.masterclass_page_content
+  ADD COLUMN IF NOT EXISTS completion_threshold_percent INTEGER NOT NULL DEFAULT 90
+    CHECK (completion_threshold_percent BETWEEN 1 AND 100);
+
+CREATE TABLE IF NOT EXISTS lesson_progress (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  enrollment_id UUID NOT NULL REFERENCES public.student_enrollments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.masterclass_page_content(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES course_lessons(id) ON DELETE CASCADE,
+  -- Seconds of the video actually played (seeking ahead does not count)
+  watched_seconds NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (watched_seconds >= 0),
+  duration_seconds NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (duration_seconds >= 0),
+  watched_percentage NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (watched_percentage BETWEEN 0 AND 100),
+  last_position_seconds NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (last_position_seconds >= 0),
+  is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  last_watched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, lesson_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_progress_enrollment ON lesson_progress(enrollment_id);
+CREATE INDEX IF NOT EXISTS idx_lesson_progress_user_course ON lesson_progress(user_id, course_id);
+
+DROP TRIGGER IF EXISTS trigger_lesson_progress_updated_at ON lesson_progress;
+CREATE TRIGGER trigger_lesson_progress_updated_at
+BEFORE UPDATE ON lesson_progress
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- ===================================================================
+-- ENROLLMENT PROGRESS
+-- ===================================================================
+
+-- Progress columns only change through refresh_enrollment_progress (or
+-- the service role). A new enrollment always starts without progress.
+CREATE OR REPLACE FUNCTION protect_enrollment_progress_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+    OR current_setting('app.enrollment_progress_sync', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'completed' THEN
+      RAISE EXCEPTION 'Enrollment progress is derived from lesson progress and cannot be set directly';
+    END IF;
+
+    NEW.progress_percentage := 0;
+    NEW.lessons_completed := 0;
+    NEW.completed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.progress_percentage IS DISTINCT FROM OLD.progress_percentage
+    OR NEW.lessons_completed IS DISTINCT FROM OLD.lessons_completed
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR (NEW.status IS DISTINCT FROM OLD.status AND 'completed' IN (NEW.status, OLD.status)) THEN
+    RAISE EXCEPTION 'Enrollment progress is derived from lesson progress and cannot be set directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_enrollment_progress_fields ON public.student_enrollments;
+CREATE TRIGGER trigger_protect_enrollment_progress_fields
+BEFORE INSERT OR UPDATE ON public.student_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION protect_enrollment_progress_fields();
+
+-- Recompute lessons_completed / progress_percentage / status for an
+-- enrollment from its lesson_progress rows
+CREATE OR REPLACE FUNCTION refresh_enrollment_progress(p_enrollment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_enrollment RECORD;
+  v_total INTEGER;
+  v_completed INTEGER;
+  v_percentage INTEGER;
+BEGIN
+  SELECT * INTO v_enrollment
+  FROM public.student_enrollments
+  WHERE id = p_enrollment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment not found';
+  END IF;
+
+  IF auth.role() <> 'service_role' AND v_enrollment.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to refresh this enrollment';
+  END IF;
+
+  SELECT COUNT(*) INTO v_total
+  FROM course_lessons
+  WHERE course_id = v_enrollment.course_id;
+
+  SELECT COUNT(*) INTO v_completed
+  FROM lesson_progress lp
+  JOIN course_lessons cl ON cl.id = lp.lesson_id
+  WHERE lp.enrollment_id = p_enrollment_id
+    AND lp.is_completed;
+
+  v_percentage := CASE WHEN v_total > 0 THEN LEAST(100, ROUND(v_completed * 100.0 / v_total)) ELSE 0 END;
+
+  PERFORM set_config('app.enrollment_progress_sync', 'on', TRUE);
+
+  UPDATE public.student_enrollments
+  SET lessons_completed = v_completed,
+      progress_percentage = v_percentage,
+      status = CASE
+        WHEN status = 'refunded' THEN status
+        WHEN v_total > 0 AND v_completed >= v_total THEN 'completed'
+        ELSE 'active'
+      END,
+      completed_at = CASE
+        WHEN v_total > 0 AND v_completed >= v_total THEN COALESCE(completed_at, NOW())
+        ELSE NULL
+      END
+  WHERE id = p_enrollment_id;
+
+  PERFORM set_config('app.enrollment_progress_sync', 'off', TRUE);
+
+  RETURN jsonb_build_object(
+    'lessons_completed', v_completed,
+    'total_lessons', v_total,
+    'progress_percentage', v_percentage,
+    'is_completed', v_total > 0 AND v_completed >= v_total
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refresh_enrollment_progress(UUID) TO authenticated;
+
+-- ===================================================================
+-- RECORDING PROGRESS
+-- ===================================================================
+
+-- Record playback of a lesson by the current user. p_watched_seconds is
+-- the playback time since the last report (capped at a minute and at the
+-- wall-clock time since the last report, so reports cannot complete a
+-- lesson faster than it plays); p_position_seconds is where the player is
+-- now. Articles and resources are completed on the first report.
+-- Returns the lesson's progress row plus the refreshed enrollment
+-- progress, or NULL when the user has no paid enrollment.
+CREATE OR REPLACE FUNCTION record_lesson_progress(
+  p_lesson_id UUID,
+  p_position_seconds NUMERIC DEFAULT 0,
+  p_duration_seconds NUMERIC DEFAULT NULL,
+  p_watched_seconds NUMERIC DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_lesson RECORD;
+  v_enrollment_id UUID;
+  v_threshold INTEGER;
+  v_duration NUMERIC;
+  v_progress lesson_progress%ROWTYPE;
+  v_watched NUMERIC;
+  v_percentage NUMERIC;
+  v_was_completed BOOLEAN;
+  v_enrollment_progress JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT l.id, l.course_id, l.lesson_type, l.duration_seconds, mpc.completion_threshold_percent
+  INTO v_lesson
+  FROM course_lessons l
+  JOIN public.masterclass_page_content mpc ON mpc.id = l.course_id
+  WHERE l.id = p_lesson_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lesson not found';
+  END IF;
+
+  SELECT id INTO v_enrollment_id
+  FROM public.student_enrollments
+  WHERE user_id = v_user_id
+    AND course_id = v_lesson.course_id
+    AND payment_status IN ('completed', 'partially_refunded')
+    AND status <> 'refunded';
+
+  IF v_enrollment_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_threshold := v_lesson.completion_threshold_percent;
+  -- The authored (or Mux) duration wins; the player's is only trusted for
+  -- lessons without one, capped at a day and never shrinking (below)
+  v_duration := COALESCE(
+    NULLIF(v_lesson.duration_seconds, 0),
+    LEAST(GREATEST(COALESCE(p_duration_seconds, 0), 0), 86400)
+  );
+
+  INSERT INTO lesson_progress (enrollment_id, user_id, course_id, lesson_id, duration_seconds)
+  VALUES (v_enrollment_id, v_user_id, v_lesson.course_id, p_lesson_id, v_duration)
+  ON CONFLICT (user_id, lesson_id) DO NOTHING;
+
+  SELECT * INTO v_progress
+  FROM lesson_progress
+  WHERE user_id = v_user_id AND lesson_id = p_lesson_id
+  FOR UPDATE;
+
+  v_was_completed := v_progress.is_completed;
+
+  IF COALESCE(v_lesson.duration_seconds, 0) = 0 THEN
+    v_duration := GREATEST(v_duration, COALESCE(v_progress.duration_seconds, 0));
+  END IF;
+
+  IF v_lesson.lesson_type = 'video' THEN
+    -- No more than a minute per report, and no more than the time since
+    -- the last one (a few seconds of slack for network jitter)
+    v_watched := v_progress.watched_seconds + LEAST(
+      GREATEST(COALESCE(p_watched_seconds, 0), 0),
+      60,
+      GREATEST(EXTRACT(EPOCH FROM NOW() - COALESCE(v_progress.last_watched_at, v_progress.created_at)), 0) + 5
+    );
+    IF v_duration > 0 THEN
+      v_watched := LEAST(v_watched, v_duration);
+      v_percentage := ROUND(v_watched * 100 / v_duration, 2);
+    ELSE
+      v_percentage := 0;
+    END IF;
+  ELSE
+    v_watched := v_progress.watched_seconds;
+    v_percentage := 100;
+  END IF;
+
+  UPDATE lesson_progress
+  SET watched_seconds = v_watched,
+      duration_seconds = v_duration,
+      watched_percentage = GREATEST(watched_percentage, v_percentage),
+      last_position_seconds = GREATEST(COALESCE(p_position_seconds, 0), 0),
+      is_completed = is_completed OR v_percentage >= v_threshold,
+      completed_at = CASE
+        WHEN is_completed THEN completed_at
+        WHEN v_percentage >= v_threshold THEN NOW()
+      END,
+      last_watched_at = NOW()
+  WHERE id = v_progress.id
+  RETURNING * INTO v_progress;
+
+  IF v_progress.is_completed AND NOT v_was_completed THEN
+    v_enrollment_progress := refresh_enrollment_progress(v_enrollment_id);
+  END IF;
+
+  RETURN to_jsonb(v_progress) || jsonb_build_object(
+    'completion_threshold_percent', v_threshold,
+    'enrollment_progress', v_enrollment_progress
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_lesson_progress(UUID, NUMERIC, NUMERIC, NUMERIC) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Rows are written only through record_lesson_progress
+-- ===================================================================
+
+ALTER TABLE lesson_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own lesson_progress" ON lesson_progress;
+CREATE POLICY "Users can view own lesson_progress"
+ON lesson_progress FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Course owners can view lesson_progress" ON lesson_progress;
+CREATE POLICY "Course owners can view lesson_progress"
+ON lesson_progress FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id AND mpc.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage lesson_progress" ON lesson_progress;
+CREATE POLICY "Service role can manage lesson_progress"
+ON lesson_progress FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
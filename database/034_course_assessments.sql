@@ -0,0 +1,467 @@
+-- ===================================================================
+-- COURSE ASSESSMENTS
+-- Instructors attach quizzes to a lesson, a section, or the course as a
+-- whole (final assessment). A quiz has a question bank of multiple
+-- choice, multi-select and short answer questions; each attempt draws
+-- questions_per_attempt of them at random. Attempts are graded on the
+-- server against a pass mark, with an optional attempt limit.
+--
+-- Correct answers never leave the database: students only see quizzes
+-- through start_quiz_attempt / submit_quiz_attempt. A course is complete
+-- (and a certificate can be issued) once every lesson is complete and
+-- every required quiz is passed.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS course_quizzes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.masterclass_page_content(id) ON DELETE CASCADE,
+  -- Where the quiz sits; both NULL means a final course assessment
+  section_id UUID REFERENCES course_sections(id) ON DELETE SET NULL,
+  lesson_id UUID REFERENCES course_lessons(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  pass_mark_percent INTEGER NOT NULL DEFAULT 70 CHECK (pass_mark_percent BETWEEN 1 AND 100),
+  -- NULL means unlimited attempts
+  max_attempts INTEGER CHECK (max_attempts IS NULL OR max_attempts > 0),
+  -- NULL means every question in the bank, in random order
+  questions_per_attempt INTEGER CHECK (questions_per_attempt IS NULL OR questions_per_attempt > 0),
+  is_required BOOLEAN NOT NULL DEFAULT TRUE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_quizzes_course ON course_quizzes(course_id, position);
+
+CREATE TABLE IF NOT EXISTS quiz_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES course_quizzes(id) ON DELETE CASCADE,
+  question_type TEXT NOT NULL CHECK (question_type IN ('multiple_choice', 'multi_select', 'short_answer')),
+  prompt TEXT NOT NULL,
+  -- [{ "id": "a", "text": "..." }] for choice questions
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,
+  correct_option_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- Short answers match case-insensitively after trimming
+  accepted_answers TEXT[] NOT NULL DEFAULT '{}',
+  points INTEGER NOT NULL DEFAULT 1 CHECK (points > 0),
+  explanation TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_questions_quiz ON quiz_questions(quiz_id, position);
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES course_quizzes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  enrollment_id UUID NOT NULL REFERENCES public.student_enrollments(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'submitted')),
+  -- Questions drawn for this attempt, in the order they were shown
+  question_ids UUID[] NOT NULL,
+  answers JSONB,
+  results JSONB,
+  score_points INTEGER,
+  max_points INTEGER,
+  score_percent NUMERIC(5, 2),
+  passed BOOLEAN,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (quiz_id, user_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_quiz ON quiz_attempts(user_id, quiz_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_enrollment ON quiz_attempts(enrollment_id);
+
+DROP TRIGGER IF EXISTS trigger_course_quizzes_updated_at ON course_quizzes;
+CREATE TRIGGER trigger_course_quizzes_updated_at
+BEFORE UPDATE ON course_quizzes
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_quiz_questions_updated_at ON quiz_questions;
+CREATE TRIGGER trigger_quiz_questions_updated_at
+BEFORE UPDATE ON quiz_questions
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- ===================================================================
+-- TAKING QUIZZES
+-- ===================================================================
+
+-- Start (or resume) an attempt for the current user. Returns the drawn
+-- questions without their answers.
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz course_quizzes%ROWTYPE;
+  v_enrollment_id UUID;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempts_used INTEGER;
+  v_question_ids UUID[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_quiz FROM course_quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  SELECT id INTO v_enrollment_id
+  FROM public.student_enrollments
+  WHERE user_id = v_user_id
+    AND course_id = v_quiz.course_id
+    AND payment_status IN ('completed', 'partially_refunded')
+    AND status <> 'refunded';
+
+  IF v_enrollment_id IS NULL THEN
+    RAISE EXCEPTION 'Enroll in this course to take its quizzes';
+  END IF;
+
+  -- Serialize attempt numbering per user and quiz
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE quiz_id = p_quiz_id AND user_id = v_user_id AND status = 'in_progress'
+  ORDER BY attempt_number DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT COUNT(*) INTO v_attempts_used
+    FROM quiz_attempts
+    WHERE quiz_id = p_quiz_id AND user_id = v_user_id;
+
+    IF v_quiz.max_attempts IS NOT NULL AND v_attempts_used >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'No attempts left for this quiz';
+    END IF;
+
+    SELECT ARRAY(
+      SELECT id FROM quiz_questions
+      WHERE quiz_id = p_quiz_id
+      ORDER BY random()
+      LIMIT v_quiz.questions_per_attempt
+    ) INTO v_question_ids;
+
+    IF COALESCE(array_length(v_question_ids, 1), 0) = 0 THEN
+      RAISE EXCEPTION 'This quiz has no questions yet';
+    END IF;
+
+    INSERT INTO quiz_attempts (quiz_id, user_id, enrollment_id, attempt_number, question_ids)
+    VALUES (p_quiz_id, v_user_id, v_enrollment_id, v_attempts_used + 1, v_question_ids)
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'attempt_number', v_attempt.attempt_number,
+    'max_attempts', v_quiz.max_attempts,
+    'pass_mark_percent', v_quiz.pass_mark_percent,
+    'questions', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', q.id,
+          'question_type', q.question_type,
+          'prompt', q.prompt,
+          'options', q.options,
+          'points', q.points
+        )
+        ORDER BY ord.n
+      ), '[]'::jsonb)
+      FROM unnest(v_attempt.question_ids) WITH ORDINALITY AS ord(question_id, n)
+      JOIN quiz_questions q ON q.id = ord.question_id
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(UUID) TO authenticated;
+
+-- Grade an attempt. p_answers maps question id to an array of option ids
+-- (choice questions) or a string (short answer). Multi-select questions
+-- score only when exactly the correct options are chosen.
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(p_attempt_id UUID, p_answers JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz course_quizzes%ROWTYPE;
+  v_question quiz_questions%ROWTYPE;
+  v_answer JSONB;
+  v_selected TEXT[];
+  v_is_correct BOOLEAN;
+  v_score INTEGER := 0;
+  v_max INTEGER := 0;
+  v_percent NUMERIC;
+  v_results JSONB := '[]'::jsonb;
+  v_enrollment_progress JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_attempt.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Attempt not found';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted';
+  END IF;
+
+  SELECT * INTO v_quiz FROM course_quizzes WHERE id = v_attempt.quiz_id;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_ids) WITH ORDINALITY AS ord(question_id, n)
+    JOIN quiz_questions q ON q.id = ord.question_id
+    ORDER BY ord.n
+  LOOP
+    v_answer := p_answers -> v_question.id::TEXT;
+    v_max := v_max + v_question.points;
+
+    IF v_question.question_type = 'short_answer' THEN
+      v_is_correct := v_answer IS NOT NULL
+        AND jsonb_typeof(v_answer) = 'string'
+        AND LOWER(TRIM(v_answer #>> '{}')) IN (
+          SELECT LOWER(TRIM(a)) FROM unnest(v_question.accepted_answers) AS a
+        );
+    ELSE
+      v_selected := CASE
+        WHEN v_answer IS NOT NULL AND jsonb_typeof(v_answer) = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(v_answer))
+        ELSE '{}'
+      END;
+      v_is_correct := cardinality(v_selected) > 0
+        AND v_selected <@ v_question.correct_option_ids
+        AND v_question.correct_option_ids <@ v_selected
+        AND (v_question.question_type = 'multi_select' OR cardinality(v_selected) = 1);
+    END IF;
+
+    IF v_is_correct THEN
+      v_score := v_score + v_question.points;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'question_id', v_question.id,
+      'is_correct', v_is_correct,
+      'explanation', v_question.explanation
+    );
+  END LOOP;
+
+  v_percent := CASE WHEN v_max > 0 THEN ROUND(v_score * 100.0 / v_max, 2) ELSE 0 END;
+
+  UPDATE quiz_attempts
+  SET status = 'submitted',
+      answers = COALESCE(p_answers, '{}'::jsonb),
+      results = v_results,
+      score_points = v_score,
+      max_points = v_max,
+      score_percent = v_percent,
+      passed = v_percent >= v_quiz.pass_mark_percent,
+      submitted_at = NOW()
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  IF v_attempt.passed THEN
+    v_enrollment_progress := refresh_enrollment_progress(v_attempt.enrollment_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'attempt_number', v_attempt.attempt_number,
+    'score_points', v_score,
+    'max_points', v_max,
+    'score_percent', v_percent,
+    'passed', v_attempt.passed,
+    'pass_mark_percent', v_quiz.pass_mark_percent,
+    'results', v_results,
+    'enrollment_progress', v_enrollment_progress
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_quiz_attempt(UUID, JSONB) TO authenticated;
+
+-- ===================================================================
+-- COMPLETION
+-- Enrollment progress (033) now also requires the course's required
+-- quizzes to be passed before the enrollment is marked completed.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION refresh_enrollment_progress(p_enrollment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_enrollment RECORD;
+  v_total INTEGER;
+  v_completed INTEGER;
+  v_percentage INTEGER;
+  v_required_quizzes INTEGER;
+  v_passed_quizzes INTEGER;
+  v_is_completed BOOLEAN;
+BEGIN
+  SELECT * INTO v_enrollment
+  FROM public.student_enrollments
+  WHERE id = p_enrollment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Enrollment not found';
+  END IF;
+
+  IF auth.role() <> 'service_role' AND v_enrollment.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to refresh this enrollment';
+  END IF;
+
+  SELECT COUNT(*) INTO v_total
+  FROM course_lessons
+  WHERE course_id = v_enrollment.course_id;
+
+  SELECT COUNT(*) INTO v_completed
+  FROM lesson_progress lp
+  JOIN course_lessons cl ON cl.id = lp.lesson_id
+  WHERE lp.enrollment_id = p_enrollment_id
+    AND lp.is_completed;
+
+  SELECT COUNT(*) INTO v_required_quizzes
+  FROM course_quizzes
+  WHERE course_id = v_enrollment.course_id
+    AND is_required;
+
+  SELECT COUNT(DISTINCT cq.id) INTO v_passed_quizzes
+  FROM course_quizzes cq
+  JOIN quiz_attempts qa ON qa.quiz_id = cq.id
+  WHERE cq.course_id = v_enrollment.course_id
+    AND cq.is_required
+    AND qa.user_id = v_enrollment.user_id
+    AND qa.passed;
+
+  v_percentage := CASE WHEN v_total > 0 THEN LEAST(100, ROUND(v_completed * 100.0 / v_total)) ELSE 0 END;
+  v_is_completed := (v_total > 0 OR v_required_quizzes > 0)
+    AND v_completed >= v_total
+    AND v_passed_quizzes >= v_required_quizzes;
+
+  PERFORM set_config('app.enrollment_progress_sync', 'on', TRUE);
+
+  UPDATE public.student_enrollments
+  SET lessons_completed = v_completed,
+      progress_percentage = v_percentage,
+      status = CASE
+        WHEN status = 'refunded' THEN status
+        WHEN v_is_completed THEN 'completed'
+        ELSE 'active'
+      END,
+      completed_at = CASE WHEN v_is_completed THEN COALESCE(completed_at, NOW()) END
+  WHERE id = p_enrollment_id;
+
+  PERFORM set_config('app.enrollment_progress_sync', 'off', TRUE);
+
+  RETURN jsonb_build_object(
+    'lessons_completed', v_completed,
+    'total_lessons', v_total,
+    'progress_percentage', v_percentage,
+    'required_quizzes', v_required_quizzes,
+    'quizzes_passed', v_passed_quizzes,
+    'is_completed', v_is_completed
+  );
+END;
+$$;
+
+-- Certificates need a completed enrollment, not just a paid one
+DROP POLICY IF EXISTS "Users can create their own certificates" ON public.student_certificates;
+CREATE POLICY "Users can create their own certificates"
+ON public.student_certificates
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.student_enrollments se
+    WHERE se.id = enrollment_id
+    AND se.user_id = auth.uid()
+    AND se.certificate_eligible
+    AND se.status = 'completed'
+  )
+);
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Students read quiz settings and their own attempts; questions (with
+-- answers) are only readable by the course owner.
+-- ===================================================================
+
+ALTER TABLE course_quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view course_quizzes" ON course_quizzes;
+CREATE POLICY "Anyone can view course_quizzes"
+ON course_quizzes FOR SELECT
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Course owners can manage course_quizzes" ON course_quizzes;
+CREATE POLICY "Course owners can manage course_quizzes"
+ON course_quizzes FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id AND mpc.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content mpc
+    WHERE mpc.id = course_id AND mpc.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Course owners can manage quiz_questions" ON quiz_questions;
+CREATE POLICY "Course owners can manage quiz_questions"
+ON quiz_questions FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM course_quizzes cq
+    JOIN public.masterclass_page_content mpc ON mpc.id = cq.course_id
+    WHERE cq.id = quiz_id AND mpc.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM course_quizzes cq
+    JOIN public.masterclass_page_content mpc ON mpc.id = cq.course_id
+    WHERE cq.id = quiz_id AND mpc.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view own quiz_attempts" ON quiz_attempts;
+CREATE POLICY "Users can view own quiz_attempts"
+ON quiz_attempts FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Course owners can view quiz_attempts" ON quiz_attempts;
+CREATE POLICY "Course owners can view quiz_attempts"
+ON quiz_attempts FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM course_quizzes cq
+    JOIN public.masterclass_page_content mpc ON mpc.id = cq.course_id
+    WHERE cq.id = quiz_id AND mpc.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage quiz_attempts" ON quiz_attempts;
+CREATE POLICY "Service role can manage quiz_attempts"
+ON quiz_attempts FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
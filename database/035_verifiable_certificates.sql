@@ -0,0 +1,193 @@
+-- ===================================================================
+-- VERIFIABLE CERTIFICATES
+-- Certificates are issued by the issue-certificate edge function: it
+-- checks the enrollment is completed, takes a number from
+-- generate_certificate_number, renders a PDF and stores it in B2.
+-- Browsers can no longer insert certificates.
+--
+-- Anyone can confirm a certificate at /verify/:certificateNumber
+-- (verify_certificate). Course owners and admins can revoke one; a
+-- revoked certificate still verifies, but as revoked. Once revoked, only
+-- the course owner or an admin can issue the enrollment a new one.
+-- ===================================================================
+
+ALTER TABLE public.student_certificates
+  ADD COLUMN IF NOT EXISTS holder_name TEXT,
+  ADD COLUMN IF NOT EXISTS instructor_name TEXT,
+  -- B2 object key of the PDF
+  ADD COLUMN IF NOT EXISTS storage_key TEXT,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revoked_reason TEXT,
+  ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- One live certificate per enrollment; a revoked one can be re-issued
+CREATE UNIQUE INDEX IF NOT EXISTS idx_student_certificates_live_enrollment
+ON public.student_certificates(enrollment_id)
+WHERE revoked_at IS NULL;
+
+-- Set by revoke_certificate, cleared when the instructor re-issues
+ALTER TABLE public.student_enrollments
+  ADD COLUMN IF NOT EXISTS certificate_revoked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION protect_enrollment_certificate_revocation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+    OR current_setting('app.certificate_revocation', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.certificate_revoked_at IS DISTINCT FROM OLD.certificate_revoked_at THEN
+    RAISE EXCEPTION 'Certificate revocations can only be changed by the instructor or an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_enrollment_certificate_revocation ON public.student_enrollments;
+CREATE TRIGGER trigger_protect_enrollment_certificate_revocation
+BEFORE UPDATE ON public.student_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION protect_enrollment_certificate_revocation();
+
+-- Certificates are only written by the issue-certificate edge function
+DROP POLICY IF EXISTS "Users can create their own certificates" ON public.student_certificates;
+
+DROP POLICY IF EXISTS "Service role can manage student_certificates" ON public.student_certificates;
+CREATE POLICY "Service role can manage student_certificates"
+ON public.student_certificates FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- NUMBERING
+-- CERT-YYYY-XXXXXXXXXX from random bytes; unguessable, and retried on
+-- the (unlikely) chance it is already taken.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION generate_certificate_number()
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_number TEXT;
+BEGIN
+  LOOP
+    v_number := 'CERT-' || TO_CHAR(NOW(), 'YYYY') || '-'
+      || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 10));
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.student_certificates WHERE certificate_number = v_number
+    );
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_certificate_number() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION generate_certificate_number() TO service_role;
+
+-- ===================================================================
+-- VERIFICATION AND REVOCATION
+-- ===================================================================
+
+-- Public lookup by certificate number; NULL when there is no such certificate
+CREATE OR REPLACE FUNCTION verify_certificate(p_certificate_number TEXT)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'certificate_number', c.certificate_number,
+    'holder_name', COALESCE(c.holder_name, p.name),
+    'course_id', c.course_id,
+    'course_title', c.course_title,
+    'instructor_name', COALESCE(c.instructor_name, mpc.creator),
+    'issued_at', c.generated_at,
+    'download_url', CASE WHEN c.revoked_at IS NULL AND c.download_url NOT LIKE 'data:%' THEN c.download_url END,
+    'status', CASE WHEN c.revoked_at IS NULL THEN 'valid' ELSE 'revoked' END,
+    'revoked_at', c.revoked_at,
+    'revoked_reason', c.revoked_reason,
+    'can_revoke', staff.can_revoke,
+    -- Lets the instructor re-issue a revoked certificate
+    'enrollment_id', CASE WHEN staff.can_revoke THEN c.enrollment_id END
+  )
+  FROM public.student_certificates c
+  LEFT JOIN public.profiles p ON p.id = c.user_id
+  LEFT JOIN public.masterclass_page_content mpc ON mpc.id = c.course_id
+  CROSS JOIN LATERAL (
+    SELECT auth.uid() IS NOT NULL AND (
+      mpc.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM auth.users
+        WHERE id = auth.uid()
+        AND raw_app_meta_data->>'role' = 'admin'
+      )
+    ) AS can_revoke
+  ) staff
+  WHERE c.certificate_number = UPPER(TRIM(p_certificate_number));
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_certificate(TEXT) TO anon, authenticated;
+
+-- Revoke a certificate; allowed for the course owner and admins
+CREATE OR REPLACE FUNCTION revoke_certificate(p_certificate_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_certificate RECORD;
+BEGIN
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A revocation reason is required';
+  END IF;
+
+  SELECT c.id, c.enrollment_id, c.revoked_at, mpc.user_id AS course_owner_id
+  INTO v_certificate
+  FROM public.student_certificates c
+  JOIN public.masterclass_page_content mpc ON mpc.id = c.course_id
+  WHERE c.id = p_certificate_id
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF auth.role() <> 'service_role'
+    AND v_certificate.course_owner_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_app_meta_data->>'role' = 'admin'
+    ) THEN
+    RAISE EXCEPTION 'Only the course instructor or an admin can revoke this certificate';
+  END IF;
+
+  IF v_certificate.revoked_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_certificates
+  SET revoked_at = NOW(),
+      revoked_reason = TRIM(p_reason),
+      revoked_by = auth.uid()
+  WHERE id = p_certificate_id;
+
+  -- The student cannot simply issue themselves a new one
+  PERFORM set_config('app.certificate_revocation', 'on', TRUE);
+
+  UPDATE public.student_enrollments
+  SET certificate_id = CASE WHEN certificate_id = p_certificate_id THEN NULL ELSE certificate_id END,
+      certificate_revoked_at = NOW()
+  WHERE id = v_certificate.enrollment_id;
+
+  PERFORM set_config('app.certificate_revocation', 'off', TRUE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_certificate(UUID, TEXT) TO authenticated;
@@ -0,0 +1,439 @@
+-- ===================================================================
+-- COURSE RATINGS AND REVIEWS
+-- Enrolled students leave one star rating (1-5) and an optional written
+-- review per course. The course owner can reply once per review (edited
+-- in place) and admins can hide reviews from the public listing.
+--
+-- rating_average / rating_count / rating_distribution on
+-- masterclass_page_content are kept in step with the published reviews
+-- so course cards and the Masterclass "Highest Rated" sort need no
+-- extra queries.
+-- ===================================================================
+
+ALTER TABLE public.masterclass_page_content
+  ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rating_distribution JSONB NOT NULL
+    DEFAULT '{"1": 0, "2": 0, "3": 0, "4": 0, "5": 0}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS course_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id UUID NOT NULL REFERENCES public.masterclass_page_content(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  enrollment_id UUID NOT NULL REFERENCES public.student_enrollments(id) ON DELETE CASCADE,
+  -- Copied from profiles when the review is written
+  reviewer_name TEXT NOT NULL DEFAULT '',
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title TEXT,
+  body TEXT,
+  status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'hidden')),
+  moderation_reason TEXT,
+  moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMP WITH TIME ZONE,
+  instructor_reply TEXT,
+  instructor_reply_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (course_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_course_reviews_course ON course_reviews(course_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_course_reviews_user ON course_reviews(user_id);
+
+DROP TRIGGER IF EXISTS trigger_course_reviews_updated_at ON course_reviews;
+CREATE TRIGGER trigger_course_reviews_updated_at
+BEFORE UPDATE ON course_reviews
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- A review must come from an enrollment in the course (same rule as
+-- isUserEnrolled: paid or free, not refunded). Replies and moderation
+-- can't be set by the reviewer.
+CREATE OR REPLACE FUNCTION prepare_course_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.enrollment_id
+  FROM public.student_enrollments
+  WHERE course_id = NEW.course_id
+    AND user_id = NEW.user_id
+    AND payment_status IN ('completed', 'partially_refunded')
+    AND status <> 'refunded'
+  LIMIT 1;
+
+  IF NEW.enrollment_id IS NULL THEN
+    RAISE EXCEPTION 'Only students enrolled in this course can review it';
+  END IF;
+
+  SELECT COALESCE(name, '') INTO NEW.reviewer_name
+  FROM public.profiles
+  WHERE id = NEW.user_id;
+
+  NEW.reviewer_name := COALESCE(NEW.reviewer_name, '');
+  NEW.status := 'published';
+  NEW.moderation_reason := NULL;
+  NEW.moderated_by := NULL;
+  NEW.moderated_at := NULL;
+  NEW.instructor_reply := NULL;
+  NEW.instructor_reply_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_course_review ON course_reviews;
+CREATE TRIGGER trigger_prepare_course_review
+BEFORE INSERT ON course_reviews
+FOR EACH ROW
+EXECUTE FUNCTION prepare_course_review();
+
+-- Reviewers edit their rating and text; the reply and moderation fields
+-- only change through reply_to_course_review / moderate_course_review
+CREATE OR REPLACE FUNCTION protect_course_review_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+    OR current_setting('app.course_review_admin', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.course_id IS DISTINCT FROM OLD.course_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.enrollment_id IS DISTINCT FROM OLD.enrollment_id
+    OR NEW.reviewer_name IS DISTINCT FROM OLD.reviewer_name
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.moderation_reason IS DISTINCT FROM OLD.moderation_reason
+    OR NEW.moderated_by IS DISTINCT FROM OLD.moderated_by
+    OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+    OR NEW.instructor_reply IS DISTINCT FROM OLD.instructor_reply
+    OR NEW.instructor_reply_at IS DISTINCT FROM OLD.instructor_reply_at THEN
+    RAISE EXCEPTION 'Only the rating and review text can be edited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_course_review_fields ON course_reviews;
+CREATE TRIGGER trigger_protect_course_review_fields
+BEFORE UPDATE ON course_reviews
+FOR EACH ROW
+EXECUTE FUNCTION protect_course_review_fields();
+
+-- ===================================================================
+-- AGGREGATES
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION refresh_course_rating(p_course_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.masterclass_page_content mpc
+  SET rating_average = stats.average,
+      rating_count = stats.total,
+      rating_distribution = stats.distribution
+  FROM (
+    SELECT
+      COALESCE(ROUND(AVG(rating)::NUMERIC, 2), 0) AS average,
+      COUNT(*)::INTEGER AS total,
+      jsonb_build_object(
+        '1', COUNT(*) FILTER (WHERE rating = 1),
+        '2', COUNT(*) FILTER (WHERE rating = 2),
+        '3', COUNT(*) FILTER (WHERE rating = 3),
+        '4', COUNT(*) FILTER (WHERE rating = 4),
+        '5', COUNT(*) FILTER (WHERE rating = 5)
+      ) AS distribution
+    FROM course_reviews
+    WHERE course_id = p_course_id
+      AND status = 'published'
+  ) stats
+  WHERE mpc.id = p_course_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_course_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM refresh_course_rating(COALESCE(NEW.course_id, OLD.course_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_course_rating ON course_reviews;
+CREATE TRIGGER trigger_sync_course_rating
+AFTER INSERT OR DELETE OR UPDATE OF rating, status ON course_reviews
+FOR EACH ROW
+EXECUTE FUNCTION sync_course_rating();
+
+CREATE INDEX IF NOT EXISTS idx_masterclass_page_content_rating
+ON public.masterclass_page_content(rating_average DESC, rating_count DESC);
+
+-- ===================================================================
+-- INSTRUCTOR REPLIES AND MODERATION
+-- ===================================================================
+
+-- Set (or clear, with an empty reply) the course owner's reply
+CREATE OR REPLACE FUNCTION reply_to_course_review(p_review_id UUID, p_reply TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reply TEXT := NULLIF(TRIM(COALESCE(p_reply, '')), '');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM course_reviews r
+    JOIN public.masterclass_page_content mpc ON mpc.id = r.course_id
+    WHERE r.id = p_review_id
+      AND mpc.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the course instructor can reply to this review';
+  END IF;
+
+  PERFORM set_config('app.course_review_admin', 'on', TRUE);
+
+  UPDATE course_reviews
+  SET instructor_reply = v_reply,
+      instructor_reply_at = CASE WHEN v_reply IS NULL THEN NULL ELSE NOW() END
+  WHERE id = p_review_id;
+
+  PERFORM set_config('app.course_review_admin', 'off', TRUE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reply_to_course_review(UUID, TEXT) TO authenticated;
+
+-- Hide a review from the public listing (and the averages), or restore it
+CREATE OR REPLACE FUNCTION moderate_course_review(p_review_id UUID, p_status TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can moderate reviews';
+  END IF;
+
+  IF p_status NOT IN ('published', 'hidden') THEN
+    RAISE EXCEPTION 'Invalid review status: %', p_status;
+  END IF;
+
+  PERFORM set_config('app.course_review_admin', 'on', TRUE);
+
+  UPDATE course_reviews
+  SET status = p_status,
+      moderation_reason = NULLIF(TRIM(COALESCE(p_reason, '')), ''),
+      moderated_by = auth.uid(),
+      moderated_at = NOW()
+  WHERE id = p_review_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  PERFORM set_config('app.course_review_admin', 'off', TRUE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION moderate_course_review(UUID, TEXT, TEXT) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE course_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view published course_reviews" ON course_reviews;
+CREATE POLICY "Anyone can view published course_reviews"
+ON course_reviews FOR SELECT
+USING (status = 'published');
+
+DROP POLICY IF EXISTS "Users can view own course_reviews" ON course_reviews;
+CREATE POLICY "Users can view own course_reviews"
+ON course_reviews FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Course owners can view course_reviews" ON course_reviews;
+CREATE POLICY "Course owners can view course_reviews"
+ON course_reviews FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.masterclass_page_content
+    WHERE id = course_reviews.course_id AND user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can view course_reviews" ON course_reviews;
+CREATE POLICY "Admins can view course_reviews"
+ON course_reviews FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Users can create own course_reviews" ON course_reviews;
+CREATE POLICY "Users can create own course_reviews"
+ON course_reviews FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own course_reviews" ON course_reviews;
+CREATE POLICY "Users can update own course_reviews"
+ON course_reviews FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own course_reviews" ON course_reviews;
+CREATE POLICY "Users can delete own course_reviews"
+ON course_reviews FOR DELETE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage course_reviews" ON course_reviews;
+CREATE POLICY "Service role can manage course_reviews"
+ON course_reviews FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- COURSE LISTING
+-- get_content_by_destination (database/code/database/013) also returns
+-- the rating so the Masterclass listing can sort by it
+-- ===================================================================
+
+DROP FUNCTION IF EXISTS public.get_content_by_destination(TEXT) CASCADE;
+
+CREATE OR REPLACE FUNCTION public.get_content_by_destination(destination TEXT)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  creator TEXT,
+  description TEXT,
+  type TEXT,
+  category TEXT,
+  thumbnail_url TEXT,
+  content_url TEXT,
+  duration TEXT,
+  read_time TEXT,
+  views_count INT,
+  like_count INT,
+  is_premium BOOLEAN,
+  status TEXT,
+  level TEXT,
+  features JSONB,
+  lessons_count INT,
+  rating_average NUMERIC,
+  rating_count INT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF destination = 'media' THEN
+    RETURN QUERY
+    SELECT
+      mpc.id,
+      mpc.user_id,
+      mpc.title,
+      mpc.creator,
+      mpc.description,
+      mpc.type,
+      mpc.category,
+      mpc.thumbnail_url,
+      mpc.content_url,
+      mpc.duration,
+      mpc.read_time,
+      mpc.views_count,
+      mpc.like_count,
+      mpc.is_premium,
+      mpc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      0::NUMERIC,
+      0::INT,
+      mpc.created_at,
+      mpc.updated_at
+    FROM public.media_page_content mpc
+    WHERE mpc.status = 'published'
+    ORDER BY mpc.created_at DESC;
+
+  ELSIF destination = 'masterclass' THEN
+    RETURN QUERY
+    SELECT
+      mcc.id,
+      mcc.user_id,
+      mcc.title,
+      mcc.creator,
+      mcc.description,
+      mcc.type,
+      mcc.category,
+      mcc.thumbnail_url,
+      mcc.content_url,
+      mcc.duration,
+      mcc.read_time,
+      mcc.views_count,
+      mcc.like_count,
+      mcc.is_premium,
+      mcc.status,
+      COALESCE(mcc.level, 'All Levels'),
+      COALESCE(mcc.features, '[]'::jsonb),
+      COALESCE(mcc.lessons_count, 0),
+      mcc.rating_average,
+      mcc.rating_count,
+      mcc.created_at,
+      mcc.updated_at
+    FROM public.masterclass_page_content mcc
+    WHERE mcc.status = 'published'
+    ORDER BY mcc.created_at DESC;
+
+  ELSIF destination = 'portfolio' THEN
+    RETURN QUERY
+    SELECT
+      ppc.id,
+      ppc.user_id,
+      ppc.title,
+      ppc.creator,
+      ppc.description,
+      ppc.type,
+      ppc.category,
+      ppc.thumbnail_url,
+      ppc.content_url,
+      ppc.duration,
+      ppc.read_time,
+      ppc.views_count,
+      ppc.like_count,
+      ppc.is_premium,
+      ppc.status,
+      'All Levels'::TEXT,
+      '[]'::JSONB,
+      0::INT,
+      0::NUMERIC,
+      0::INT,
+      ppc.created_at,
+      ppc.updated_at
+    FROM public.portfolio_page_content ppc
+    WHERE ppc.status = 'published'
+    ORDER BY ppc.created_at DESC;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_content_by_destination(TEXT) TO anon;
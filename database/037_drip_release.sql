@@ -0,0 +1,557 @@
+-- ===================================================================
+-- DRIP-SCHEDULED LESSONS
+-- A section or lesson can carry a release rule:
+--   immediate              available as soon as the student enrolls
+--   date                   from release_at
+--   days_after_enrollment  release_days after the student enrolled
+--   after_lesson           once release_after_lesson_id is completed
+-- A lesson is released for an enrollment when both its section's rule
+-- and its own rule are met. Free previews and the course owner are not
+-- affected.
+--
+-- Until then get_course_curriculum returns the lesson locked with the
+-- time it unlocks, RLS hides its content, record_lesson_progress
+-- refuses it and its quizzes can't be taken.
+-- queue_lesson_release_notifications (run on a schedule) records a
+-- notification per student when a dripped lesson unlocks.
+-- ===================================================================
+
+ALTER TABLE course_sections
+  ADD COLUMN IF NOT EXISTS release_rule TEXT NOT NULL DEFAULT 'immediate'
+    CHECK (release_rule IN ('immediate', 'date', 'days_after_enrollment', 'after_lesson')),
+  ADD COLUMN IF NOT EXISTS release_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS release_days INTEGER CHECK (release_days >= 0),
+  -- No foreign key: the curriculum editor saves sections before lessons,
+  -- and a rule pointing at a deleted lesson counts as met
+  ADD COLUMN IF NOT EXISTS release_after_lesson_id UUID;
+
+ALTER TABLE course_lessons
+  ADD COLUMN IF NOT EXISTS release_rule TEXT NOT NULL DEFAULT 'immediate'
+    CHECK (release_rule IN ('immediate', 'date', 'days_after_enrollment', 'after_lesson')),
+  ADD COLUMN IF NOT EXISTS release_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS release_days INTEGER CHECK (release_days >= 0),
+  ADD COLUMN IF NOT EXISTS release_after_lesson_id UUID;
+
+-- ===================================================================
+-- RELEASE TIMES
+-- ===================================================================
+
+-- When one release rule is met for an enrollment: '-infinity' when there
+-- is no rule, 'infinity' while the prerequisite lesson is not completed
+CREATE OR REPLACE FUNCTION drip_rule_release_time(
+  p_rule TEXT,
+  p_release_at TIMESTAMP WITH TIME ZONE,
+  p_release_days INTEGER,
+  p_after_lesson_id UUID,
+  p_enrollment_id UUID,
+  p_enrolled_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_rule
+    WHEN 'date' THEN COALESCE(p_release_at, '-infinity'::TIMESTAMPTZ)
+    WHEN 'days_after_enrollment' THEN p_enrolled_at + MAKE_INTERVAL(days => COALESCE(p_release_days, 0))
+    WHEN 'after_lesson' THEN
+      CASE
+        WHEN p_after_lesson_id IS NULL
+          OR NOT EXISTS (SELECT 1 FROM course_lessons WHERE id = p_after_lesson_id)
+          THEN '-infinity'::TIMESTAMPTZ
+        ELSE COALESCE((
+          SELECT lp.completed_at
+          FROM lesson_progress lp
+          WHERE lp.enrollment_id = p_enrollment_id
+            AND lp.lesson_id = p_after_lesson_id
+            AND lp.is_completed
+        ), 'infinity'::TIMESTAMPTZ)
+      END
+    ELSE '-infinity'::TIMESTAMPTZ
+  END;
+$$;
+
+-- When a lesson is released for an enrollment (section and lesson rules)
+CREATE OR REPLACE FUNCTION lesson_release_time(p_lesson_id UUID, p_enrollment_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT GREATEST(
+    drip_rule_release_time(s.release_rule, s.release_at, s.release_days, s.release_after_lesson_id, e.id, e.enrolled_at),
+    drip_rule_release_time(l.release_rule, l.release_at, l.release_days, l.release_after_lesson_id, e.id, e.enrolled_at)
+  )
+  FROM course_lessons l
+  JOIN course_sections s ON s.id = l.section_id
+  JOIN public.student_enrollments e ON e.id = p_enrollment_id AND e.course_id = l.course_id
+  WHERE l.id = p_lesson_id;
+$$;
+
+-- Whether the current user may open a lesson now, as far as drip goes
+-- (enrollment itself is checked by can_access_course_content)
+CREATE OR REPLACE FUNCTION is_lesson_released(p_lesson_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_lesson RECORD;
+  v_enrollment_id UUID;
+BEGIN
+  SELECT l.course_id, l.is_free_preview, mpc.user_id AS owner_id
+  INTO v_lesson
+  FROM course_lessons l
+  JOIN public.masterclass_page_content mpc ON mpc.id = l.course_id
+  WHERE l.id = p_lesson_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_lesson.is_free_preview OR v_lesson.owner_id = auth.uid() THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT id INTO v_enrollment_id
+  FROM public.student_enrollments
+  WHERE user_id = auth.uid()
+    AND course_id = v_lesson.course_id
+    AND payment_status IN ('completed', 'partially_refunded')
+  LIMIT 1;
+
+  IF v_enrollment_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN lesson_release_time(p_lesson_id, v_enrollment_id) <= NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_lesson_released(UUID) TO authenticated;
+
+-- ===================================================================
+-- ACCESS
+-- ===================================================================
+
+DROP POLICY IF EXISTS "Students can view accessible course_lessons" ON course_lessons;
+CREATE POLICY "Students can view accessible course_lessons"
+ON course_lessons FOR SELECT
+USING (is_free_preview OR (can_access_course_content(course_id) AND is_lesson_released(id)));
+
+-- Progress can't be recorded on a lesson that is still dripping
+CREATE OR REPLACE FUNCTION check_lesson_progress_released()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_lesson_released(NEW.lesson_id) THEN
+    RAISE EXCEPTION 'This lesson has not been released yet';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_check_lesson_progress_released ON lesson_progress;
+CREATE TRIGGER trigger_check_lesson_progress_released
+BEFORE INSERT ON lesson_progress
+FOR EACH ROW
+EXECUTE FUNCTION check_lesson_progress_released();
+
+-- Quiz attempts (see 034), now refused while the quiz's lesson is still
+-- dripping. Start (or resume) an attempt for the current user. Returns
+-- the drawn questions without their answers.
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz course_quizzes%ROWTYPE;
+  v_enrollment_id UUID;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempts_used INTEGER;
+  v_question_ids UUID[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  SELECT * INTO v_quiz FROM course_quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  IF v_quiz.lesson_id IS NOT NULL AND NOT is_lesson_released(v_quiz.lesson_id) THEN
+    RAISE EXCEPTION 'This lesson has not been released yet';
+  END IF;
+
+  SELECT id INTO v_enrollment_id
+  FROM public.student_enrollments
+  WHERE user_id = v_user_id
+    AND course_id = v_quiz.course_id
+    AND payment_status IN ('completed', 'partially_refunded')
+    AND status <> 'refunded';
+
+  IF v_enrollment_id IS NULL THEN
+    RAISE EXCEPTION 'Enroll in this course to take its quizzes';
+  END IF;
+
+  -- Serialize attempt numbering per user and quiz
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE quiz_id = p_quiz_id AND user_id = v_user_id AND status = 'in_progress'
+  ORDER BY attempt_number DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT COUNT(*) INTO v_attempts_used
+    FROM quiz_attempts
+    WHERE quiz_id = p_quiz_id AND user_id = v_user_id;
+
+    IF v_quiz.max_attempts IS NOT NULL AND v_attempts_used >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'No attempts left for this quiz';
+    END IF;
+
+    SELECT ARRAY(
+      SELECT id FROM quiz_questions
+      WHERE quiz_id = p_quiz_id
+      ORDER BY random()
+      LIMIT v_quiz.questions_per_attempt
+    ) INTO v_question_ids;
+
+    IF COALESCE(array_length(v_question_ids, 1), 0) = 0 THEN
+      RAISE EXCEPTION 'This quiz has no questions yet';
+    END IF;
+
+    INSERT INTO quiz_attempts (quiz_id, user_id, enrollment_id, attempt_number, question_ids)
+    VALUES (p_quiz_id, v_user_id, v_enrollment_id, v_attempts_used + 1, v_question_ids)
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'attempt_number', v_attempt.attempt_number,
+    'max_attempts', v_quiz.max_attempts,
+    'pass_mark_percent', v_quiz.pass_mark_percent,
+    'questions', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+          'id', q.id,
+          'question_type', q.question_type,
+          'prompt', q.prompt,
+          'options', q.options,
+          'points', q.points
+        )
+        ORDER BY ord.n
+      ), '[]'::jsonb)
+      FROM unnest(v_attempt.question_ids) WITH ORDINALITY AS ord(question_id, n)
+      JOIN quiz_questions q ON q.id = ord.question_id
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(UUID) TO authenticated;
+
+-- Grade an attempt. p_answers maps question id to an array of option ids
+-- (choice questions) or a string (short answer). Multi-select questions
+-- score only when exactly the correct options are chosen.
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(p_attempt_id UUID, p_answers JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz course_quizzes%ROWTYPE;
+  v_question quiz_questions%ROWTYPE;
+  v_answer JSONB;
+  v_selected TEXT[];
+  v_is_correct BOOLEAN;
+  v_score INTEGER := 0;
+  v_max INTEGER := 0;
+  v_percent NUMERIC;
+  v_results JSONB := '[]'::jsonb;
+  v_enrollment_progress JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_attempt.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Attempt not found';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted';
+  END IF;
+
+  SELECT * INTO v_quiz FROM course_quizzes WHERE id = v_attempt.quiz_id;
+
+  IF v_quiz.lesson_id IS NOT NULL AND NOT is_lesson_released(v_quiz.lesson_id) THEN
+    RAISE EXCEPTION 'This lesson has not been released yet';
+  END IF;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_ids) WITH ORDINALITY AS ord(question_id, n)
+    JOIN quiz_questions q ON q.id = ord.question_id
+    ORDER BY ord.n
+  LOOP
+    v_answer := p_answers -> v_question.id::TEXT;
+    v_max := v_max + v_question.points;
+
+    IF v_question.question_type = 'short_answer' THEN
+      v_is_correct := v_answer IS NOT NULL
+        AND jsonb_typeof(v_answer) = 'string'
+        AND LOWER(TRIM(v_answer #>> '{}')) IN (
+          SELECT LOWER(TRIM(a)) FROM unnest(v_question.accepted_answers) AS a
+        );
+    ELSE
+      v_selected := CASE
+        WHEN v_answer IS NOT NULL AND jsonb_typeof(v_answer) = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(v_answer))
+        ELSE '{}'
+      END;
+      v_is_correct := cardinality(v_selected) > 0
+        AND v_selected <@ v_question.correct_option_ids
+        AND v_question.correct_option_ids <@ v_selected
+        AND (v_question.question_type = 'multi_select' OR cardinality(v_selected) = 1);
+    END IF;
+
+    IF v_is_correct THEN
+      v_score := v_score + v_question.points;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'question_id', v_question.id,
+      'is_correct', v_is_correct,
+      'explanation', v_question.explanation
+    );
+  END LOOP;
+
+  v_percent := CASE WHEN v_max > 0 THEN ROUND(v_score * 100.0 / v_max, 2) ELSE 0 END;
+
+  UPDATE quiz_attempts
+  SET status = 'submitted',
+      answers = COALESCE(p_answers, '{}'::jsonb),
+      results = v_results,
+      score_points = v_score,
+      max_points = v_max,
+      score_percent = v_percent,
+      passed = v_percent >= v_quiz.pass_mark_percent,
+      submitted_at = NOW()
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  IF v_attempt.passed THEN
+    v_enrollment_progress := refresh_enrollment_progress(v_attempt.enrollment_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'attempt_number', v_attempt.attempt_number,
+    'score_points', v_score,
+    'max_points', v_max,
+    'score_percent', v_percent,
+    'passed', v_attempt.passed,
+    'pass_mark_percent', v_quiz.pass_mark_percent,
+    'results', v_results,
+    'enrollment_progress', v_enrollment_progress
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION submit_quiz_attempt(UUID, JSONB) TO authenticated;
+
+-- Full outline of a course (see 032), now with release rules. For an
+-- enrolled student a lesson that is still dripping is locked and carries
+-- available_at (NULL while it waits on a prerequisite lesson).
+CREATE OR REPLACE FUNCTION get_course_curriculum(p_course_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+AS $$
+DECLARE
+  v_has_access BOOLEAN := can_access_course_content(p_course_id);
+  v_is_owner BOOLEAN;
+  v_enrollment_id UUID;
+BEGIN
+  SELECT user_id = auth.uid() INTO v_is_owner
+  FROM public.masterclass_page_content
+  WHERE id = p_course_id;
+
+  IF NOT COALESCE(v_is_owner, FALSE) THEN
+    SELECT id INTO v_enrollment_id
+    FROM public.student_enrollments
+    WHERE user_id = auth.uid()
+      AND course_id = p_course_id
+      AND payment_status IN ('completed', 'partially_refunded')
+    LIMIT 1;
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', s.id,
+        'title', s.title,
+        'description', s.description,
+        'position', s.position,
+        'release_rule', s.release_rule,
+        'release_at', s.release_at,
+        'release_days', s.release_days,
+        'release_after_lesson_id', s.release_after_lesson_id,
+        'lessons', COALESCE((
+          SELECT jsonb_agg(
+            jsonb_build_object(
+              'id', l.id,
+              'section_id', l.section_id,
+              'title', l.title,
+              'description', l.description,
+              'lesson_type', l.lesson_type,
+              'position', l.position,
+              'duration_seconds', l.duration_seconds,
+              'is_free_preview', l.is_free_preview,
+              'thumbnail_url', l.thumbnail_url,
+              'resource_name', l.resource_name,
+              'release_rule', l.release_rule,
+              'release_at', l.release_at,
+              'release_days', l.release_days,
+              'release_after_lesson_id', l.release_after_lesson_id,
+              'is_locked', NOT (l.is_free_preview OR (v_has_access AND r.released)),
+              'is_drip_locked', v_has_access AND NOT l.is_free_preview AND NOT r.released,
+              'available_at', CASE
+                WHEN v_has_access AND NOT l.is_free_preview AND NOT r.released
+                  AND r.release_time <> 'infinity'::TIMESTAMPTZ THEN r.release_time
+              END,
+              'mux_playback_id', CASE WHEN l.is_free_preview OR (v_has_access AND r.released) THEN l.mux_playback_id END,
+              'article_body', CASE WHEN l.is_free_preview OR (v_has_access AND r.released) THEN l.article_body END,
+              'resource_url', CASE WHEN l.is_free_preview OR (v_has_access AND r.released) THEN l.resource_url END
+            )
+            ORDER BY l.position, l.created_at
+          )
+          FROM course_lessons l
+          CROSS JOIN LATERAL (
+            SELECT
+              t.release_time,
+              t.release_time <= NOW() AS released
+            FROM (
+              SELECT CASE
+                WHEN v_enrollment_id IS NULL THEN '-infinity'::TIMESTAMPTZ
+                ELSE lesson_release_time(l.id, v_enrollment_id)
+              END AS release_time
+            ) t
+          ) r
+          WHERE l.section_id = s.id
+        ), '[]'::jsonb)
+      )
+      ORDER BY s.position, s.created_at
+    )
+    FROM course_sections s
+    WHERE s.course_id = p_course_id
+  ), '[]'::jsonb);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_course_curriculum(UUID) TO anon, authenticated;
+
+-- ===================================================================
+-- RELEASE NOTIFICATIONS
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS lesson_release_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  enrollment_id UUID NOT NULL REFERENCES public.student_enrollments(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES public.masterclass_page_content(id) ON DELETE CASCADE,
+  lesson_id UUID NOT NULL REFERENCES course_lessons(id) ON DELETE CASCADE,
+  -- Copied at release so the notification reads well after edits
+  course_title TEXT NOT NULL,
+  lesson_title TEXT NOT NULL,
+  released_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (enrollment_id, lesson_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_release_notifications_unread
+ON lesson_release_notifications(user_id, created_at DESC)
+WHERE read_at IS NULL;
+
+-- Record a notification for every dripped lesson that has unlocked for an
+-- active enrollment since it enrolled. Safe to run repeatedly.
+CREATE OR REPLACE FUNCTION queue_lesson_release_notifications()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO lesson_release_notifications (
+    user_id, enrollment_id, course_id, lesson_id, course_title, lesson_title, released_at
+  )
+  SELECT e.user_id, e.id, e.course_id, l.id, mpc.title, l.title, r.release_time
+  FROM public.student_enrollments e
+  JOIN public.masterclass_page_content mpc ON mpc.id = e.course_id
+  JOIN course_lessons l ON l.course_id = e.course_id
+  JOIN course_sections s ON s.id = l.section_id
+  CROSS JOIN LATERAL (SELECT lesson_release_time(l.id, e.id) AS release_time) r
+  WHERE e.payment_status IN ('completed', 'partially_refunded')
+    AND e.status = 'active'
+    AND NOT l.is_free_preview
+    AND (l.release_rule <> 'immediate' OR s.release_rule <> 'immediate')
+    AND r.release_time <= NOW()
+    AND r.release_time > e.enrolled_at
+  ON CONFLICT (enrollment_id, lesson_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_lesson_release_notifications() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION queue_lesson_release_notifications() TO service_role;
+
+ALTER TABLE lesson_release_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own lesson_release_notifications" ON lesson_release_notifications;
+CREATE POLICY "Users can view own lesson_release_notifications"
+ON lesson_release_notifications FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Marking as read is the only change a user makes
+DROP POLICY IF EXISTS "Users can update own lesson_release_notifications" ON lesson_release_notifications;
+CREATE POLICY "Users can update own lesson_release_notifications"
+ON lesson_release_notifications FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage lesson_release_notifications" ON lesson_release_notifications;
+CREATE POLICY "Service role can manage lesson_release_notifications"
+ON lesson_release_notifications FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- Delivered to the open app through Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE lesson_release_notifications;
+
+-- ===================================================================
+-- SCHEDULE
+-- Queue release notifications every 15 minutes (requires pg_cron):
+--
+-- SELECT cron.schedule(
+--   'queue-lesson-release-notifications',
+--   '*/15 * * * *',
+--   $$ SELECT queue_lesson_release_notifications() $$
+-- );
+-- ===================================================================
@@ -0,0 +1,569 @@
+-- ===================================================================
+-- LIVE WORKSHOP SESSIONS
+-- Hosts schedule live sessions for the Masterclass "Workshops" tab:
+-- a start time (stored in UTC, shown in the host's timezone and the
+-- viewer's), a duration, a seat capacity, a price (0 = free) and a join
+-- link. Learners register - free sessions through
+-- register_for_workshop, paid ones as a 'workshop_registration' payment
+-- order that the payment webhook fulfils.
+--
+-- The join link and the recording live in workshop_session_access,
+-- which only the host can read. Registrants get the link through
+-- join_workshop_session, which also records their attendance, and the
+-- replay through get_workshop_recording once the host has attached the
+-- Mux recording.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS workshop_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  host_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Copied from profiles when the session is created
+  host_name TEXT NOT NULL DEFAULT '',
+  title TEXT NOT NULL,
+  description TEXT,
+  category TEXT,
+  -- Shown to registrants, e.g. 'Zoom' or 'Kampala Creative Hub'
+  location TEXT,
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes > 0),
+  -- IANA timezone the host scheduled in, e.g. 'Africa/Kampala'
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  price DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'UGX',
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled')),
+  -- Kept in step with workshop_registrations
+  registered_count INTEGER NOT NULL DEFAULT 0,
+  has_recording BOOLEAN NOT NULL DEFAULT FALSE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workshop_sessions_starts_at ON workshop_sessions(status, starts_at);
+CREATE INDEX IF NOT EXISTS idx_workshop_sessions_host ON workshop_sessions(host_id, starts_at DESC);
+
+DROP TRIGGER IF EXISTS trigger_workshop_sessions_updated_at ON workshop_sessions;
+CREATE TRIGGER trigger_workshop_sessions_updated_at
+BEFORE UPDATE ON workshop_sessions
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+CREATE TABLE IF NOT EXISTS workshop_session_access (
+  session_id UUID PRIMARY KEY REFERENCES workshop_sessions(id) ON DELETE CASCADE,
+  join_url TEXT,
+  recording_playback_id TEXT,
+  -- masterclass_video_uploads row the recording came from
+  recording_upload_id UUID,
+  recording_attached_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trigger_workshop_session_access_updated_at ON workshop_session_access;
+CREATE TRIGGER trigger_workshop_session_access_updated_at
+BEFORE UPDATE ON workshop_session_access
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+CREATE TABLE IF NOT EXISTS workshop_registrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES workshop_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Copied from profiles for the host's registrant list
+  registrant_name TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'registered' CHECK (status IN ('registered', 'cancelled')),
+  price_paid DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  currency TEXT,
+  payment_order_id UUID REFERENCES payment_orders(id) ON DELETE SET NULL,
+  -- NULL until attendance is known: set TRUE when the registrant joins,
+  -- or by the host either way
+  attended BOOLEAN,
+  joined_at TIMESTAMP WITH TIME ZONE,
+  attendance_marked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workshop_registrations_session ON workshop_registrations(session_id, status);
+CREATE INDEX IF NOT EXISTS idx_workshop_registrations_user ON workshop_registrations(user_id);
+
+DROP TRIGGER IF EXISTS trigger_workshop_registrations_updated_at ON workshop_registrations;
+CREATE TRIGGER trigger_workshop_registrations_updated_at
+BEFORE UPDATE ON workshop_registrations
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- Paid seats are sold as payment orders
+ALTER TABLE payment_orders DROP CONSTRAINT IF EXISTS payment_orders_item_type_check;
+ALTER TABLE payment_orders ADD CONSTRAINT payment_orders_item_type_check
+  CHECK (item_type IN ('course_enrollment', 'event_ticket', 'tip', 'workshop_registration'));
+
+-- ===================================================================
+-- SESSIONS
+-- ===================================================================
+
+-- The host is always the creator; aggregates and the recording flag are
+-- maintained by the triggers and RPCs below
+CREATE OR REPLACE FUNCTION prepare_workshop_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.host_id := auth.uid();
+    NEW.registered_count := 0;
+    NEW.has_recording := FALSE;
+
+    SELECT COALESCE(name, '') INTO NEW.host_name
+    FROM public.profiles
+    WHERE id = NEW.host_id;
+
+    NEW.host_name := COALESCE(NEW.host_name, '');
+  ELSIF current_setting('app.workshop_admin', TRUE) IS DISTINCT FROM 'on' THEN
+    IF NEW.host_id IS DISTINCT FROM OLD.host_id
+      OR NEW.host_name IS DISTINCT FROM OLD.host_name
+      OR NEW.registered_count IS DISTINCT FROM OLD.registered_count
+      OR NEW.has_recording IS DISTINCT FROM OLD.has_recording THEN
+      RAISE EXCEPTION 'These workshop details can only be changed by the system';
+    END IF;
+
+    -- Registrants already agreed to the price and the seat count
+    IF OLD.registered_count > 0 AND (
+      NEW.price IS DISTINCT FROM OLD.price
+      OR NEW.currency IS DISTINCT FROM OLD.currency
+    ) THEN
+      RAISE EXCEPTION 'The price cannot be changed once people have registered';
+    END IF;
+
+    IF NEW.capacity < OLD.registered_count THEN
+      RAISE EXCEPTION 'Capacity cannot be lower than the % people already registered', OLD.registered_count;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+      NEW.cancelled_at := NOW();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_workshop_session ON workshop_sessions;
+CREATE TRIGGER trigger_prepare_workshop_session
+BEFORE INSERT OR UPDATE ON workshop_sessions
+FOR EACH ROW
+EXECUTE FUNCTION prepare_workshop_session();
+
+-- ===================================================================
+-- REGISTRATIONS
+-- ===================================================================
+
+-- Seats are checked with the session row locked so two registrations
+-- can't take the last seat. Paid seats come from the payment webhook
+-- (service role): the money is already taken, so they are never refused
+-- here - priceOrderItem stops selling once the session is full.
+CREATE OR REPLACE FUNCTION prepare_workshop_registration()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session workshop_sessions%ROWTYPE;
+BEGIN
+  IF NEW.status <> 'registered' OR (TG_OP = 'UPDATE' AND OLD.status = 'registered') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_session
+  FROM workshop_sessions
+  WHERE id = NEW.session_id
+  FOR UPDATE;
+
+  IF NEW.registrant_name = '' THEN
+    SELECT COALESCE(name, '') INTO NEW.registrant_name
+    FROM public.profiles
+    WHERE id = NEW.user_id;
+
+    NEW.registrant_name := COALESCE(NEW.registrant_name, '');
+  END IF;
+
+  NEW.cancelled_at := NULL;
+
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_session.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This workshop has been cancelled';
+  END IF;
+
+  IF v_session.starts_at + make_interval(mins => v_session.duration_minutes) < NOW() THEN
+    RAISE EXCEPTION 'This workshop has already taken place';
+  END IF;
+
+  IF v_session.registered_count >= v_session.capacity THEN
+    RAISE EXCEPTION 'This workshop is full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_workshop_registration ON workshop_registrations;
+CREATE TRIGGER trigger_prepare_workshop_registration
+BEFORE INSERT OR UPDATE OF status ON workshop_registrations
+FOR EACH ROW
+EXECUTE FUNCTION prepare_workshop_registration();
+
+CREATE OR REPLACE FUNCTION refresh_workshop_registered_count(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM set_config('app.workshop_admin', 'on', TRUE);
+
+  UPDATE workshop_sessions
+  SET registered_count = (
+    SELECT COUNT(*)::INTEGER
+    FROM workshop_registrations
+    WHERE session_id = p_session_id
+      AND status = 'registered'
+  )
+  WHERE id = p_session_id;
+
+  PERFORM set_config('app.workshop_admin', 'off', TRUE);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_workshop_registered_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM refresh_workshop_registered_count(COALESCE(NEW.session_id, OLD.session_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_workshop_registered_count ON workshop_registrations;
+CREATE TRIGGER trigger_sync_workshop_registered_count
+AFTER INSERT OR DELETE OR UPDATE OF status ON workshop_registrations
+FOR EACH ROW
+EXECUTE FUNCTION sync_workshop_registered_count();
+
+-- Register for a free session, or come back after cancelling
+CREATE OR REPLACE FUNCTION register_for_workshop(p_session_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_price DECIMAL(12, 2);
+  v_registration_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to register for workshops';
+  END IF;
+
+  SELECT price INTO v_price
+  FROM workshop_sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workshop not found';
+  END IF;
+
+  IF v_price > 0 THEN
+    RAISE EXCEPTION 'This workshop needs a paid registration';
+  END IF;
+
+  INSERT INTO workshop_registrations (session_id, user_id, status)
+  VALUES (p_session_id, auth.uid(), 'registered')
+  ON CONFLICT (session_id, user_id)
+  DO UPDATE SET status = 'registered'
+  RETURNING id INTO v_registration_id;
+
+  RETURN v_registration_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION register_for_workshop(UUID) TO authenticated;
+
+-- Give up a free seat. Paid seats are cancelled through a refund.
+CREATE OR REPLACE FUNCTION cancel_workshop_registration(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE workshop_registrations
+  SET status = 'cancelled',
+      cancelled_at = NOW()
+  WHERE session_id = p_session_id
+    AND user_id = auth.uid()
+    AND status = 'registered'
+    AND price_paid = 0;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No free registration to cancel for this workshop';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_workshop_registration(UUID) TO authenticated;
+
+-- ===================================================================
+-- JOINING AND ATTENDANCE
+-- ===================================================================
+
+-- Join link for a registrant (or the host), from 15 minutes before the
+-- start until the session ends. The first join marks the registrant as
+-- attended.
+CREATE OR REPLACE FUNCTION join_workshop_session(p_session_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_session workshop_sessions%ROWTYPE;
+  v_join_url TEXT;
+BEGIN
+  SELECT * INTO v_session
+  FROM workshop_sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND OR v_session.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This workshop is not running';
+  END IF;
+
+  SELECT join_url INTO v_join_url
+  FROM workshop_session_access
+  WHERE session_id = p_session_id;
+
+  IF v_session.host_id = auth.uid() THEN
+    RETURN v_join_url;
+  END IF;
+
+  IF NOW() < v_session.starts_at - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'The join link opens 15 minutes before the workshop starts';
+  END IF;
+
+  IF NOW() > v_session.starts_at + make_interval(mins => v_session.duration_minutes) THEN
+    RAISE EXCEPTION 'This workshop has ended';
+  END IF;
+
+  UPDATE workshop_registrations
+  SET attended = TRUE,
+      joined_at = COALESCE(joined_at, NOW())
+  WHERE session_id = p_session_id
+    AND user_id = auth.uid()
+    AND status = 'registered';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Register for this workshop to join it';
+  END IF;
+
+  IF v_join_url IS NULL THEN
+    RAISE EXCEPTION 'The host has not added a join link yet';
+  END IF;
+
+  RETURN v_join_url;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_workshop_session(UUID) TO authenticated;
+
+-- Host's attendance record for a registrant (NULL clears it)
+CREATE OR REPLACE FUNCTION set_workshop_attendance(p_registration_id UUID, p_attended BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM workshop_registrations r
+    JOIN workshop_sessions s ON s.id = r.session_id
+    WHERE r.id = p_registration_id
+      AND s.host_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the workshop host can record attendance';
+  END IF;
+
+  UPDATE workshop_registrations
+  SET attended = p_attended,
+      attendance_marked_by = auth.uid()
+  WHERE id = p_registration_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_workshop_attendance(UUID, BOOLEAN) TO authenticated;
+
+-- ===================================================================
+-- RECORDINGS
+-- ===================================================================
+
+-- Attach (or with NULL, remove) the Mux recording of a session
+CREATE OR REPLACE FUNCTION attach_workshop_recording(
+  p_session_id UUID,
+  p_playback_id TEXT,
+  p_upload_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_playback_id TEXT := NULLIF(TRIM(COALESCE(p_playback_id, '')), '');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM workshop_sessions
+    WHERE id = p_session_id AND host_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the workshop host can attach the recording';
+  END IF;
+
+  INSERT INTO workshop_session_access (session_id, recording_playback_id, recording_upload_id, recording_attached_at)
+  VALUES (
+    p_session_id,
+    v_playback_id,
+    CASE WHEN v_playback_id IS NULL THEN NULL ELSE p_upload_id END,
+    CASE WHEN v_playback_id IS NULL THEN NULL ELSE NOW() END
+  )
+  ON CONFLICT (session_id)
+  DO UPDATE SET recording_playback_id = EXCLUDED.recording_playback_id,
+                recording_upload_id = EXCLUDED.recording_upload_id,
+                recording_attached_at = EXCLUDED.recording_attached_at;
+
+  PERFORM set_config('app.workshop_admin', 'on', TRUE);
+
+  UPDATE workshop_sessions
+  SET has_recording = v_playback_id IS NOT NULL
+  WHERE id = p_session_id;
+
+  PERFORM set_config('app.workshop_admin', 'off', TRUE);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION attach_workshop_recording(UUID, TEXT, UUID) TO authenticated;
+
+-- Replay for registrants and the host
+CREATE OR REPLACE FUNCTION get_workshop_recording(p_session_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_playback_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM workshop_sessions
+    WHERE id = p_session_id AND host_id = auth.uid()
+  ) AND NOT EXISTS (
+    SELECT 1 FROM workshop_registrations
+    WHERE session_id = p_session_id
+      AND user_id = auth.uid()
+      AND status = 'registered'
+  ) THEN
+    RAISE EXCEPTION 'The recording is only available to people registered for this workshop';
+  END IF;
+
+  SELECT recording_playback_id INTO v_playback_id
+  FROM workshop_session_access
+  WHERE session_id = p_session_id;
+
+  RETURN v_playback_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_workshop_recording(UUID) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Registrations are written by the RPCs above and the payment webhook.
+-- ===================================================================
+
+ALTER TABLE workshop_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workshop_session_access ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workshop_registrations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view workshop_sessions" ON workshop_sessions;
+CREATE POLICY "Anyone can view workshop_sessions"
+ON workshop_sessions FOR SELECT
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Users can create workshop_sessions" ON workshop_sessions;
+CREATE POLICY "Users can create workshop_sessions"
+ON workshop_sessions FOR INSERT
+WITH CHECK (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Hosts can update own workshop_sessions" ON workshop_sessions;
+CREATE POLICY "Hosts can update own workshop_sessions"
+ON workshop_sessions FOR UPDATE
+USING (auth.uid() = host_id)
+WITH CHECK (auth.uid() = host_id);
+
+DROP POLICY IF EXISTS "Hosts can delete own workshop_sessions" ON workshop_sessions;
+CREATE POLICY "Hosts can delete own workshop_sessions"
+ON workshop_sessions FOR DELETE
+USING (auth.uid() = host_id AND registered_count = 0);
+
+DROP POLICY IF EXISTS "Service role can manage workshop_sessions" ON workshop_sessions;
+CREATE POLICY "Service role can manage workshop_sessions"
+ON workshop_sessions FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Hosts can manage workshop_session_access" ON workshop_session_access;
+CREATE POLICY "Hosts can manage workshop_session_access"
+ON workshop_session_access FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM workshop_sessions
+    WHERE id = workshop_session_access.session_id AND host_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM workshop_sessions
+    WHERE id = workshop_session_access.session_id AND host_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage workshop_session_access" ON workshop_session_access;
+CREATE POLICY "Service role can manage workshop_session_access"
+ON workshop_session_access FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own workshop_registrations" ON workshop_registrations;
+CREATE POLICY "Users can view own workshop_registrations"
+ON workshop_registrations FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Hosts can view workshop_registrations" ON workshop_registrations;
+CREATE POLICY "Hosts can view workshop_registrations"
+ON workshop_registrations FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM workshop_sessions
+    WHERE id = workshop_registrations.session_id AND host_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage workshop_registrations" ON workshop_registrations;
+CREATE POLICY "Service role can manage workshop_registrations"
+ON workshop_registrations FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,570 @@
+-- ===================================================================
+-- MENTORSHIP BOOKING
+-- Mentors publish a weekly availability (wall-clock windows in their own
+-- timezone) and the session types they offer (duration, price,
+-- currency). Students book an open slot through
+-- book_mentorship_session; get_mentor_open_slots is the single source of
+-- the bookable times and the exclusion constraint on
+-- mentorship_bookings makes double-booking a mentor impossible.
+--
+-- Free sessions are confirmed straight away. Paid ones hold the slot as
+-- 'pending_payment' for MENTORSHIP_HOLD_MINUTES while the student pays a
+-- 'mentorship_session' payment order; the payment webhook confirms them.
+--
+-- Policies (per mentor): students cancel or reschedule up to
+-- cancellation_notice_hours / reschedule_notice_hours before the start,
+-- at most max_reschedules times. A student's late cancellation forfeits
+-- the fee; any other cancellation of a paid session is flagged
+-- refund_eligible for the admins to refund.
+-- ===================================================================
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS mentor_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Copied from profiles when the mentor signs up; editable
+  display_name TEXT NOT NULL DEFAULT '',
+  headline TEXT,
+  bio TEXT,
+  expertise TEXT[] NOT NULL DEFAULT '{}',
+  -- IANA timezone the availability windows are in
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Granularity of bookable start times
+  slot_interval_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_interval_minutes BETWEEN 5 AND 240),
+  min_booking_notice_hours INTEGER NOT NULL DEFAULT 12 CHECK (min_booking_notice_hours >= 0),
+  cancellation_notice_hours INTEGER NOT NULL DEFAULT 24 CHECK (cancellation_notice_hours >= 0),
+  reschedule_notice_hours INTEGER NOT NULL DEFAULT 24 CHECK (reschedule_notice_hours >= 0),
+  max_reschedules INTEGER NOT NULL DEFAULT 2 CHECK (max_reschedules >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trigger_mentor_profiles_updated_at ON mentor_profiles;
+CREATE TRIGGER trigger_mentor_profiles_updated_at
+BEFORE UPDATE ON mentor_profiles
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+CREATE TABLE IF NOT EXISTS mentor_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mentor_id UUID NOT NULL REFERENCES mentor_profiles(user_id) ON DELETE CASCADE,
+  -- 0 = Sunday ... 6 = Saturday, as EXTRACT(DOW)
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_availability_mentor ON mentor_availability(mentor_id, weekday);
+
+CREATE TABLE IF NOT EXISTS mentor_session_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mentor_id UUID NOT NULL REFERENCES mentor_profiles(user_id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes BETWEEN 15 AND 480),
+  price DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'UGX',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_session_types_mentor ON mentor_session_types(mentor_id, is_active);
+
+DROP TRIGGER IF EXISTS trigger_mentor_session_types_updated_at ON mentor_session_types;
+CREATE TRIGGER trigger_mentor_session_types_updated_at
+BEFORE UPDATE ON mentor_session_types
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+CREATE TABLE IF NOT EXISTS mentorship_bookings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mentor_id UUID NOT NULL REFERENCES mentor_profiles(user_id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_type_id UUID REFERENCES mentor_session_types(id) ON DELETE SET NULL,
+  -- Copied at booking time so the booking reads the same if the mentor
+  -- later edits or removes the session type
+  session_title TEXT NOT NULL,
+  mentor_name TEXT NOT NULL DEFAULT '',
+  student_name TEXT NOT NULL DEFAULT '',
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'confirmed'
+    CHECK (status IN ('pending_payment', 'confirmed', 'cancelled', 'expired')),
+  price DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'UGX',
+  -- Slot is released if the payment hasn't completed by then
+  hold_expires_at TIMESTAMP WITH TIME ZONE,
+  payment_order_id UUID REFERENCES payment_orders(id) ON DELETE SET NULL,
+  student_note TEXT,
+  -- Set by the mentor
+  meeting_url TEXT,
+  reschedule_count INTEGER NOT NULL DEFAULT 0,
+  cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  cancellation_reason TEXT,
+  refund_eligible BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (ends_at > starts_at),
+  -- A mentor can't be in two sessions (or holds) at once
+  CONSTRAINT mentorship_bookings_no_overlap EXCLUDE USING gist (
+    mentor_id WITH =,
+    tstzrange(starts_at, ends_at) WITH &&
+  ) WHERE (status IN ('pending_payment', 'confirmed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentorship_bookings_mentor ON mentorship_bookings(mentor_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_mentorship_bookings_student ON mentorship_bookings(student_id, starts_at);
+
+DROP TRIGGER IF EXISTS trigger_mentorship_bookings_updated_at ON mentorship_bookings;
+CREATE TRIGGER trigger_mentorship_bookings_updated_at
+BEFORE UPDATE ON mentorship_bookings
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- Mentors only edit the meeting link directly; everything else goes
+-- through the booking RPCs below
+CREATE OR REPLACE FUNCTION protect_mentorship_booking_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+    OR current_setting('app.mentorship_admin', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'meeting_url' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'meeting_url' - 'updated_at') THEN
+    RAISE EXCEPTION 'Only the meeting link can be edited; cancel or reschedule the booking instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_mentorship_booking_fields ON mentorship_bookings;
+CREATE TRIGGER trigger_protect_mentorship_booking_fields
+BEFORE UPDATE ON mentorship_bookings
+FOR EACH ROW
+EXECUTE FUNCTION protect_mentorship_booking_fields();
+
+-- Paid sessions are sold as payment orders
+ALTER TABLE payment_orders DROP CONSTRAINT IF EXISTS payment_orders_item_type_check;
+ALTER TABLE payment_orders ADD CONSTRAINT payment_orders_item_type_check
+  CHECK (item_type IN ('course_enrollment', 'event_ticket', 'tip', 'workshop_registration', 'mentorship_session'));
+
+-- ===================================================================
+-- OPEN SLOTS
+-- ===================================================================
+
+-- Release slots held by payments that never completed
+CREATE OR REPLACE FUNCTION expire_mentorship_holds(p_mentor_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM set_config('app.mentorship_admin', 'on', TRUE);
+
+  UPDATE mentorship_bookings
+  SET status = 'expired'
+  WHERE mentor_id = p_mentor_id
+    AND status = 'pending_payment'
+    AND hold_expires_at < NOW();
+
+  PERFORM set_config('app.mentorship_admin', 'off', TRUE);
+END;
+$$;
+
+-- Bookable start times for a session type over the next p_days days:
+-- the mentor's weekly windows stepped by slot_interval_minutes, from
+-- min_booking_notice_hours ahead, minus anything overlapping a booking
+-- or a live payment hold. p_exclude_booking_id leaves one booking out
+-- (the one being rescheduled).
+CREATE OR REPLACE FUNCTION get_mentor_open_slots(
+  p_session_type_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  p_days INTEGER DEFAULT 14,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS TABLE (slot_start TIMESTAMP WITH TIME ZONE, slot_end TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_type mentor_session_types%ROWTYPE;
+  v_mentor mentor_profiles%ROWTYPE;
+  v_duration INTERVAL;
+  v_first_day DATE;
+BEGIN
+  SELECT * INTO v_type
+  FROM mentor_session_types
+  WHERE id = p_session_type_id AND is_active;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_mentor
+  FROM mentor_profiles
+  WHERE user_id = v_type.mentor_id AND is_active;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_duration := make_interval(mins => v_type.duration_minutes);
+  v_first_day := (GREATEST(p_from, NOW()) AT TIME ZONE v_mentor.timezone)::DATE;
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT d::DATE AS day
+    FROM generate_series(v_first_day::TIMESTAMP, (v_first_day + LEAST(GREATEST(p_days, 1), 60))::TIMESTAMP, INTERVAL '1 day') AS d
+  ),
+  candidates AS (
+    SELECT (local_start AT TIME ZONE v_mentor.timezone) AS candidate_start
+    FROM days
+    JOIN mentor_availability a
+      ON a.mentor_id = v_type.mentor_id
+     AND a.weekday = EXTRACT(DOW FROM days.day)
+    CROSS JOIN LATERAL generate_series(
+      days.day + a.start_time,
+      days.day + a.end_time - v_duration,
+      make_interval(mins => v_mentor.slot_interval_minutes)
+    ) AS local_start
+  )
+  SELECT DISTINCT c.candidate_start, c.candidate_start + v_duration
+  FROM candidates c
+  WHERE c.candidate_start >= GREATEST(p_from, NOW() + make_interval(hours => v_mentor.min_booking_notice_hours))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM mentorship_bookings b
+      WHERE b.mentor_id = v_type.mentor_id
+        AND b.id IS DISTINCT FROM p_exclude_booking_id
+        AND (b.status = 'confirmed' OR (b.status = 'pending_payment' AND b.hold_expires_at > NOW()))
+        AND tstzrange(b.starts_at, b.ends_at) && tstzrange(c.candidate_start, c.candidate_start + v_duration)
+    )
+  ORDER BY 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_mentor_open_slots(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION is_mentor_slot_open(
+  p_session_type_id UUID,
+  p_starts_at TIMESTAMP WITH TIME ZONE,
+  p_exclude_booking_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM get_mentor_open_slots(p_session_type_id, p_starts_at - INTERVAL '1 day', 2, p_exclude_booking_id)
+    WHERE slot_start = p_starts_at
+  );
+$$;
+
+-- ===================================================================
+-- BOOKING, CANCELLING AND RESCHEDULING
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION book_mentorship_session(
+  p_session_type_id UUID,
+  p_starts_at TIMESTAMP WITH TIME ZONE,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS mentorship_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_type mentor_session_types%ROWTYPE;
+  v_booking mentorship_bookings%ROWTYPE;
+  v_mentor_name TEXT;
+  v_student_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to book a mentorship session';
+  END IF;
+
+  SELECT * INTO v_type
+  FROM mentor_session_types
+  WHERE id = p_session_type_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This session type is no longer offered';
+  END IF;
+
+  IF v_type.mentor_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot book a session with yourself';
+  END IF;
+
+  PERFORM expire_mentorship_holds(v_type.mentor_id);
+
+  -- A student holds at most one unpaid slot per mentor and three in
+  -- total, so nobody can block a mentor's calendar without paying
+  IF v_type.price > 0 THEN
+    IF EXISTS (
+      SELECT 1 FROM mentorship_bookings
+      WHERE student_id = auth.uid()
+        AND mentor_id = v_type.mentor_id
+        AND status = 'pending_payment'
+        AND hold_expires_at > NOW()
+    ) THEN
+      RAISE EXCEPTION 'You already have an unpaid booking with this mentor, complete or cancel it first';
+    END IF;
+
+    IF (
+      SELECT COUNT(*) FROM mentorship_bookings
+      WHERE student_id = auth.uid()
+        AND status = 'pending_payment'
+        AND hold_expires_at > NOW()
+    ) >= 3 THEN
+      RAISE EXCEPTION 'You have too many unpaid bookings, complete or cancel one first';
+    END IF;
+  END IF;
+
+  IF NOT is_mentor_slot_open(p_session_type_id, p_starts_at) THEN
+    RAISE EXCEPTION 'That time is no longer available, please pick another slot';
+  END IF;
+
+  SELECT display_name INTO v_mentor_name FROM mentor_profiles WHERE user_id = v_type.mentor_id;
+  SELECT COALESCE(name, '') INTO v_student_name FROM public.profiles WHERE id = auth.uid();
+
+  BEGIN
+    INSERT INTO mentorship_bookings (
+      mentor_id, student_id, session_type_id, session_title, mentor_name, student_name,
+      starts_at, ends_at, status, price, currency, hold_expires_at, student_note
+    )
+    VALUES (
+      v_type.mentor_id,
+      auth.uid(),
+      v_type.id,
+      v_type.title,
+      COALESCE(v_mentor_name, ''),
+      COALESCE(v_student_name, ''),
+      p_starts_at,
+      p_starts_at + make_interval(mins => v_type.duration_minutes),
+      CASE WHEN v_type.price > 0 THEN 'pending_payment' ELSE 'confirmed' END,
+      v_type.price,
+      v_type.currency,
+      -- MENTORSHIP_HOLD_MINUTES in src/lib/mentorshipService.ts
+      CASE WHEN v_type.price > 0 THEN NOW() + INTERVAL '30 minutes' ELSE NULL END,
+      NULLIF(TRIM(COALESCE(p_note, '')), '')
+    )
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'That time was just booked, please pick another slot';
+  END;
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_mentorship_session(UUID, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+
+-- Either side can cancel. A student cancelling inside the mentor's
+-- cancellation notice forfeits the fee of a paid session.
+CREATE OR REPLACE FUNCTION cancel_mentorship_booking(p_booking_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS mentorship_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking mentorship_bookings%ROWTYPE;
+  v_notice_hours INTEGER;
+  v_refund_eligible BOOLEAN;
+BEGIN
+  SELECT * INTO v_booking
+  FROM mentorship_bookings
+  WHERE id = p_booking_id
+    AND (student_id = auth.uid() OR mentor_id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending_payment', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking is already %', v_booking.status;
+  END IF;
+
+  IF v_booking.starts_at <= NOW() THEN
+    RAISE EXCEPTION 'Sessions that have started cannot be cancelled';
+  END IF;
+
+  SELECT cancellation_notice_hours INTO v_notice_hours
+  FROM mentor_profiles
+  WHERE user_id = v_booking.mentor_id;
+
+  v_refund_eligible := v_booking.status = 'confirmed'
+    AND v_booking.price > 0
+    AND (
+      auth.uid() = v_booking.mentor_id
+      OR v_booking.starts_at - NOW() >= make_interval(hours => COALESCE(v_notice_hours, 0))
+    );
+
+  PERFORM set_config('app.mentorship_admin', 'on', TRUE);
+
+  UPDATE mentorship_bookings
+  SET status = 'cancelled',
+      cancelled_by = auth.uid(),
+      cancelled_at = NOW(),
+      cancellation_reason = NULLIF(TRIM(COALESCE(p_reason, '')), ''),
+      refund_eligible = v_refund_eligible
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  PERFORM set_config('app.mentorship_admin', 'off', TRUE);
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_mentorship_booking(UUID, TEXT) TO authenticated;
+
+-- Move a confirmed booking to another open slot of the same length.
+-- Students are held to the mentor's reschedule notice and limit.
+CREATE OR REPLACE FUNCTION reschedule_mentorship_booking(p_booking_id UUID, p_starts_at TIMESTAMP WITH TIME ZONE)
+RETURNS mentorship_bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking mentorship_bookings%ROWTYPE;
+  v_mentor mentor_profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking
+  FROM mentorship_bookings
+  WHERE id = p_booking_id
+    AND (student_id = auth.uid() OR mentor_id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Only confirmed sessions can be rescheduled';
+  END IF;
+
+  IF v_booking.session_type_id IS NULL THEN
+    RAISE EXCEPTION 'This session type is no longer offered; cancel the booking instead';
+  END IF;
+
+  SELECT * INTO v_mentor
+  FROM mentor_profiles
+  WHERE user_id = v_booking.mentor_id;
+
+  IF auth.uid() = v_booking.student_id THEN
+    IF v_booking.starts_at - NOW() < make_interval(hours => v_mentor.reschedule_notice_hours) THEN
+      RAISE EXCEPTION 'Sessions can only be rescheduled up to % hours before they start', v_mentor.reschedule_notice_hours;
+    END IF;
+
+    IF v_booking.reschedule_count >= v_mentor.max_reschedules THEN
+      RAISE EXCEPTION 'This session has already been rescheduled % times', v_booking.reschedule_count;
+    END IF;
+  END IF;
+
+  PERFORM expire_mentorship_holds(v_booking.mentor_id);
+
+  IF NOT is_mentor_slot_open(v_booking.session_type_id, p_starts_at, p_booking_id) THEN
+    RAISE EXCEPTION 'That time is no longer available, please pick another slot';
+  END IF;
+
+  PERFORM set_config('app.mentorship_admin', 'on', TRUE);
+
+  BEGIN
+    UPDATE mentorship_bookings
+    SET starts_at = p_starts_at,
+        ends_at = p_starts_at + (v_booking.ends_at - v_booking.starts_at),
+        reschedule_count = reschedule_count + 1
+    WHERE id = p_booking_id
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN exclusion_violation THEN
+    RAISE EXCEPTION 'That time was just booked, please pick another slot';
+  END;
+
+  PERFORM set_config('app.mentorship_admin', 'off', TRUE);
+
+  RETURN v_booking;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reschedule_mentorship_booking(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE mentor_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mentor_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mentor_session_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE mentorship_bookings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active mentor_profiles" ON mentor_profiles;
+CREATE POLICY "Anyone can view active mentor_profiles"
+ON mentor_profiles FOR SELECT
+USING (is_active OR auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage own mentor_profiles" ON mentor_profiles;
+CREATE POLICY "Users can manage own mentor_profiles"
+ON mentor_profiles FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Anyone can view mentor_availability" ON mentor_availability;
+CREATE POLICY "Anyone can view mentor_availability"
+ON mentor_availability FOR SELECT
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Mentors can manage own mentor_availability" ON mentor_availability;
+CREATE POLICY "Mentors can manage own mentor_availability"
+ON mentor_availability FOR ALL
+USING (auth.uid() = mentor_id)
+WITH CHECK (auth.uid() = mentor_id);
+
+DROP POLICY IF EXISTS "Anyone can view active mentor_session_types" ON mentor_session_types;
+CREATE POLICY "Anyone can view active mentor_session_types"
+ON mentor_session_types FOR SELECT
+USING (is_active OR auth.uid() = mentor_id);
+
+DROP POLICY IF EXISTS "Mentors can manage own mentor_session_types" ON mentor_session_types;
+CREATE POLICY "Mentors can manage own mentor_session_types"
+ON mentor_session_types FOR ALL
+USING (auth.uid() = mentor_id)
+WITH CHECK (auth.uid() = mentor_id);
+
+DROP POLICY IF EXISTS "Users can view own mentorship_bookings" ON mentorship_bookings;
+CREATE POLICY "Users can view own mentorship_bookings"
+ON mentorship_bookings FOR SELECT
+USING (auth.uid() = student_id OR auth.uid() = mentor_id);
+
+DROP POLICY IF EXISTS "Mentors can update own mentorship_bookings" ON mentorship_bookings;
+CREATE POLICY "Mentors can update own mentorship_bookings"
+ON mentorship_bookings FOR UPDATE
+USING (auth.uid() = mentor_id)
+WITH CHECK (auth.uid() = mentor_id);
+
+DROP POLICY IF EXISTS "Admins can view mentorship_bookings" ON mentorship_bookings;
+CREATE POLICY "Admins can view mentorship_bookings"
+ON mentorship_bookings FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage mentorship_bookings" ON mentorship_bookings;
+CREATE POLICY "Service role can manage mentorship_bookings"
+ON mentorship_bookings FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
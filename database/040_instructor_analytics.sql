@@ -0,0 +1,340 @@
+-- ===================================================================
+-- INSTRUCTOR ANALYTICS
+-- Read-only reports for course owners: enrollments over time, revenue
+-- by currency (with promo code impact), a lesson-by-lesson completion
+-- funnel, watch time and certificate counts.
+--
+-- Every report takes an optional date range. Enrollment and cohort
+-- figures (completions, funnel, watch time) follow the students who
+-- enrolled in the range; revenue follows orders paid in the range and
+-- certificates those issued in it.
+--
+-- p_course_id NULL means all of the caller's courses. Admins may pass
+-- any course id.
+-- ===================================================================
+
+CREATE INDEX IF NOT EXISTS idx_payment_orders_item
+  ON payment_orders(item_type, item_ref);
+
+CREATE INDEX IF NOT EXISTS idx_lesson_progress_course_lesson
+  ON lesson_progress(course_id, lesson_id);
+
+-- Courses the caller may report on
+CREATE OR REPLACE FUNCTION get_analytics_course_ids(p_course_id UUID DEFAULT NULL)
+RETURNS TABLE (course_id UUID)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_is_admin BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to view course analytics';
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  ) INTO v_is_admin;
+
+  IF p_course_id IS NOT NULL THEN
+    IF NOT v_is_admin AND NOT EXISTS (
+      SELECT 1 FROM public.masterclass_page_content mpc
+      WHERE mpc.id = p_course_id AND mpc.user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'You can only view analytics for your own courses';
+    END IF;
+
+    RETURN QUERY SELECT p_course_id;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT mpc.id
+  FROM public.masterclass_page_content mpc
+  WHERE mpc.user_id = auth.uid();
+END;
+$$;
+
+-- ===================================================================
+-- OVERVIEW
+-- One row per course
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION get_course_analytics_overview(
+  p_course_id UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  course_id UUID,
+  course_title TEXT,
+  enrollments BIGINT,
+  paid_enrollments BIGINT,
+  completions BIGINT,
+  learners_started BIGINT,
+  avg_watch_seconds NUMERIC,
+  certificates_issued BIGINT,
+  certificates_revoked BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH courses AS (
+    SELECT c.course_id FROM get_analytics_course_ids(p_course_id) c
+  ),
+  cohort AS (
+    SELECT se.id, se.user_id, se.course_id, se.price_paid, se.completed_at
+    FROM public.student_enrollments se
+    JOIN courses c ON c.course_id = se.course_id
+    WHERE (p_from IS NULL OR se.enrolled_at >= p_from)
+      AND (p_to IS NULL OR se.enrolled_at < p_to)
+  ),
+  watch AS (
+    SELECT lp.course_id, lp.user_id, SUM(lp.watched_seconds) AS watched_seconds
+    FROM lesson_progress lp
+    JOIN cohort ON cohort.id = lp.enrollment_id
+    GROUP BY lp.course_id, lp.user_id
+  ),
+  certificates AS (
+    SELECT
+      sc.course_id,
+      COUNT(*) AS issued,
+      COUNT(*) FILTER (WHERE sc.revoked_at IS NOT NULL) AS revoked
+    FROM public.student_certificates sc
+    JOIN courses c ON c.course_id = sc.course_id
+    WHERE (p_from IS NULL OR sc.generated_at >= p_from)
+      AND (p_to IS NULL OR sc.generated_at < p_to)
+    GROUP BY sc.course_id
+  )
+  SELECT
+    mpc.id,
+    mpc.title,
+    (SELECT COUNT(*) FROM cohort WHERE cohort.course_id = mpc.id),
+    (SELECT COUNT(*) FROM cohort WHERE cohort.course_id = mpc.id AND cohort.price_paid > 0),
+    (SELECT COUNT(*) FROM cohort WHERE cohort.course_id = mpc.id AND cohort.completed_at IS NOT NULL),
+    (SELECT COUNT(*) FROM watch WHERE watch.course_id = mpc.id),
+    (SELECT ROUND(COALESCE(AVG(watch.watched_seconds), 0), 0) FROM watch WHERE watch.course_id = mpc.id),
+    COALESCE(cert.issued, 0),
+    COALESCE(cert.revoked, 0)
+  FROM public.masterclass_page_content mpc
+  JOIN courses c ON c.course_id = mpc.id
+  LEFT JOIN certificates cert ON cert.course_id = mpc.id
+  ORDER BY mpc.title;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_course_analytics_overview(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- ===================================================================
+-- ENROLLMENTS OVER TIME
+-- Empty periods are included so the series can be charted directly.
+-- p_interval is 'day', 'week' or 'month'.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION get_course_enrollment_trend(
+  p_course_id UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_interval TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+  period_start DATE,
+  enrollments BIGINT,
+  completions BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_from TIMESTAMP WITH TIME ZONE;
+  v_to TIMESTAMP WITH TIME ZONE := COALESCE(p_to, NOW());
+BEGIN
+  IF p_interval NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unsupported interval %', p_interval;
+  END IF;
+
+  -- Also raises unless the caller may see the course
+  SELECT COALESCE(p_from, MIN(se.enrolled_at), v_to) INTO v_from
+  FROM get_analytics_course_ids(p_course_id) c
+  LEFT JOIN public.student_enrollments se ON se.course_id = c.course_id;
+
+  RETURN QUERY
+  WITH courses AS (
+    SELECT c.course_id FROM get_analytics_course_ids(p_course_id) c
+  ),
+  periods AS (
+    SELECT generate_series(
+      date_trunc(p_interval, v_from),
+      date_trunc(p_interval, v_to),
+      ('1 ' || p_interval)::INTERVAL
+    ) AS period
+  ),
+  enrolled AS (
+    SELECT date_trunc(p_interval, se.enrolled_at) AS period, COUNT(*) AS total
+    FROM public.student_enrollments se
+    JOIN courses c ON c.course_id = se.course_id
+    WHERE se.enrolled_at >= v_from AND se.enrolled_at < v_to
+    GROUP BY 1
+  ),
+  completed AS (
+    SELECT date_trunc(p_interval, se.completed_at) AS period, COUNT(*) AS total
+    FROM public.student_enrollments se
+    JOIN courses c ON c.course_id = se.course_id
+    WHERE se.completed_at >= v_from AND se.completed_at < v_to
+    GROUP BY 1
+  )
+  SELECT
+    periods.period::DATE,
+    COALESCE(enrolled.total, 0),
+    COALESCE(completed.total, 0)
+  FROM periods
+  LEFT JOIN enrolled ON enrolled.period = periods.period
+  LEFT JOIN completed ON completed.period = periods.period
+  ORDER BY periods.period;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_course_enrollment_trend(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+
+-- ===================================================================
+-- REVENUE
+-- Paid course orders per course and currency. gross is the list price
+-- before promo codes, collected what students paid and net what is
+-- left after refunds.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION get_course_revenue_breakdown(
+  p_course_id UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  course_id UUID,
+  course_title TEXT,
+  currency TEXT,
+  paid_orders BIGINT,
+  promo_orders BIGINT,
+  gross_amount DECIMAL,
+  promo_discount DECIMAL,
+  collected_amount DECIMAL,
+  refunded_amount DECIMAL,
+  net_revenue DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    mpc.id,
+    mpc.title,
+    po.currency,
+    COUNT(po.id),
+    COUNT(po.id) FILTER (WHERE cardinality(po.promo_code_ids) > 0),
+    COALESCE(SUM(po.list_price), 0),
+    COALESCE(SUM(po.discount_amount), 0),
+    COALESCE(SUM(po.amount), 0),
+    COALESCE(SUM(po.refunded_amount), 0),
+    COALESCE(SUM(po.amount - po.refunded_amount), 0)
+  FROM get_analytics_course_ids(p_course_id) c
+  JOIN public.masterclass_page_content mpc ON mpc.id = c.course_id
+  JOIN payment_orders po
+    ON po.item_type = 'course_enrollment'
+   AND po.item_ref = mpc.id::TEXT
+  WHERE po.status IN ('completed', 'refunded', 'partially_refunded')
+    AND (p_from IS NULL OR po.completed_at >= p_from)
+    AND (p_to IS NULL OR po.completed_at < p_to)
+  GROUP BY mpc.id, mpc.title, po.currency
+  ORDER BY mpc.title, po.currency;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_course_revenue_breakdown(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- ===================================================================
+-- COMPLETION FUNNEL
+-- Every lesson in curriculum order with how many of the cohort started
+-- and completed it, and their average watch time (from
+-- record_lesson_progress).
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION get_course_completion_funnel(
+  p_course_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  lesson_id UUID,
+  lesson_number INTEGER,
+  section_title TEXT,
+  lesson_title TEXT,
+  lesson_type TEXT,
+  duration_seconds INTEGER,
+  cohort_size BIGINT,
+  started BIGINT,
+  completed BIGINT,
+  avg_watch_seconds NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_cohort_size BIGINT;
+BEGIN
+  -- Raises unless the caller may see this course
+  PERFORM 1 FROM get_analytics_course_ids(p_course_id);
+
+  SELECT COUNT(*) INTO v_cohort_size
+  FROM public.student_enrollments se
+  WHERE se.course_id = p_course_id
+    AND (p_from IS NULL OR se.enrolled_at >= p_from)
+    AND (p_to IS NULL OR se.enrolled_at < p_to);
+
+  RETURN QUERY
+  WITH cohort AS (
+    SELECT se.id
+    FROM public.student_enrollments se
+    WHERE se.course_id = p_course_id
+      AND (p_from IS NULL OR se.enrolled_at >= p_from)
+      AND (p_to IS NULL OR se.enrolled_at < p_to)
+  ),
+  progress AS (
+    SELECT
+      lp.lesson_id,
+      COUNT(*) AS started,
+      COUNT(*) FILTER (WHERE lp.is_completed) AS completed,
+      AVG(lp.watched_seconds) AS avg_watch
+    FROM lesson_progress lp
+    JOIN cohort ON cohort.id = lp.enrollment_id
+    WHERE lp.course_id = p_course_id
+    GROUP BY lp.lesson_id
+  )
+  SELECT
+    l.id,
+    (ROW_NUMBER() OVER (ORDER BY s.position, l.position))::INTEGER,
+    s.title,
+    l.title,
+    l.lesson_type,
+    l.duration_seconds,
+    v_cohort_size,
+    COALESCE(p.started, 0),
+    COALESCE(p.completed, 0),
+    ROUND(COALESCE(p.avg_watch, 0), 0)
+  FROM course_lessons l
+  JOIN course_sections s ON s.id = l.section_id
+  LEFT JOIN progress p ON p.lesson_id = l.id
+  WHERE l.course_id = p_course_id
+  ORDER BY s.position, l.position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_course_completion_funnel(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
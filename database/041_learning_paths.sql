@@ -0,0 +1,558 @@
+-- ===================================================================
+-- LEARNING PATHS AND COURSE BUNDLES
+-- A learning path is an ordered set of courses; completing all of them
+-- earns a path certificate (issue-certificate with a
+-- learningPathEnrollmentId). A bundle is the same set sold together
+-- below the sum of its parts, without the extra certificate.
+--
+-- Paths are free to follow when every course is free (join_learning_path
+-- enrolls the student in each of them); otherwise they are bought as one
+-- 'learning_path' payment order and the payment webhook enrolls the
+-- student in every course.
+--
+-- Progress rolls up from student_enrollments: each change to a course
+-- enrollment refreshes the path enrollments that include the course.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS learning_paths (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  thumbnail_url TEXT,
+  path_type TEXT NOT NULL DEFAULT 'path' CHECK (path_type IN ('path', 'bundle')),
+  -- 0 = free to follow; bundles always have a price
+  price DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'UGX',
+  is_published BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (path_type = 'path' OR price > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_paths_owner ON learning_paths(owner_id);
+CREATE INDEX IF NOT EXISTS idx_learning_paths_published ON learning_paths(is_published);
+
+DROP TRIGGER IF EXISTS trigger_learning_paths_updated_at ON learning_paths;
+CREATE TRIGGER trigger_learning_paths_updated_at
+BEFORE UPDATE ON learning_paths
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+CREATE TABLE IF NOT EXISTS learning_path_courses (
+  path_id UUID NOT NULL REFERENCES learning_paths(id) ON DELETE CASCADE,
+  course_id UUID NOT NULL REFERENCES masterclass_page_content(id) ON DELETE CASCADE,
+  -- 1-based order the courses are meant to be taken in
+  position INTEGER NOT NULL,
+  PRIMARY KEY (path_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_path_courses_course ON learning_path_courses(course_id);
+
+CREATE TABLE IF NOT EXISTS learning_path_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  path_id UUID NOT NULL REFERENCES learning_paths(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  price_paid DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  currency TEXT,
+  payment_order_id UUID REFERENCES payment_orders(id) ON DELETE SET NULL,
+  -- Rolled up by refresh_learning_path_enrollment
+  progress_percentage INTEGER NOT NULL DEFAULT 0,
+  courses_completed INTEGER NOT NULL DEFAULT 0,
+  total_courses INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  certificate_id UUID REFERENCES student_certificates(id) ON DELETE SET NULL,
+  enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (path_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_path_enrollments_user ON learning_path_enrollments(user_id);
+
+-- Bundles are sold as payment orders
+ALTER TABLE payment_orders DROP CONSTRAINT IF EXISTS payment_orders_item_type_check;
+ALTER TABLE payment_orders ADD CONSTRAINT payment_orders_item_type_check
+  CHECK (item_type IN (
+    'course_enrollment', 'event_ticket', 'tip', 'workshop_registration', 'mentorship_session', 'learning_path'
+  ));
+
+-- ===================================================================
+-- PRICING
+-- ===================================================================
+
+-- Each course's own price in a currency, as priceOrderItem would sell
+-- it (catalog first, then the course row); NULL when the course is not
+-- sold in that currency
+CREATE OR REPLACE FUNCTION get_learning_path_course_prices(p_path_id UUID, p_currency TEXT)
+RETURNS TABLE (course_id UUID, course_position INTEGER, list_price DECIMAL)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    lpc.course_id,
+    lpc.position,
+    COALESCE(
+      get_catalog_price('course', lpc.course_id::TEXT, p_currency),
+      CASE WHEN COALESCE(mpc.course_currency, 'UGX') = UPPER(p_currency) THEN COALESCE(mpc.course_price, 0) END
+    )
+  FROM learning_path_courses lpc
+  JOIN masterclass_page_content mpc ON mpc.id = lpc.course_id
+  WHERE lpc.path_id = p_path_id
+  ORDER BY lpc.position;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_learning_path_course_prices(UUID, TEXT) TO anon, authenticated;
+
+-- ===================================================================
+-- EDITING
+-- Paths are saved in one call so the bundle price is checked against
+-- the course list it is saved with.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION save_learning_path(
+  p_path_id UUID,
+  p_title TEXT,
+  p_description TEXT,
+  p_thumbnail_url TEXT,
+  p_path_type TEXT,
+  p_price DECIMAL,
+  p_currency TEXT,
+  p_is_published BOOLEAN,
+  p_course_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_is_admin BOOLEAN;
+  v_path_id UUID := p_path_id;
+  v_parts_total DECIMAL;
+  v_unpriced TEXT;
+  v_enrollment RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a learning path';
+  END IF;
+
+  v_is_admin := EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = v_user_id
+    AND raw_app_meta_data->>'role' = 'admin'
+  );
+
+  IF COALESCE(TRIM(p_title), '') = '' THEN
+    RAISE EXCEPTION 'A title is required';
+  END IF;
+
+  IF COALESCE(array_length(p_course_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A learning path needs at least two courses';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT c) FROM unnest(p_course_ids) AS c) <> array_length(p_course_ids, 1) THEN
+    RAISE EXCEPTION 'A course can only appear once in a learning path';
+  END IF;
+
+  IF p_path_type = 'bundle' AND COALESCE(p_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'Bundles need a price';
+  END IF;
+
+  -- Instructors curate their own courses; admins can combine anyone's
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_course_ids) AS c(id)
+    LEFT JOIN masterclass_page_content mpc ON mpc.id = c.id
+    WHERE mpc.id IS NULL
+    OR (mpc.user_id IS DISTINCT FROM v_user_id AND NOT v_is_admin)
+  ) THEN
+    RAISE EXCEPTION 'You can only add your own courses to a learning path';
+  END IF;
+
+  IF v_path_id IS NULL THEN
+    INSERT INTO learning_paths (owner_id, title)
+    VALUES (v_user_id, TRIM(p_title))
+    RETURNING id INTO v_path_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM learning_paths lp
+    WHERE lp.id = v_path_id
+    AND (lp.owner_id = v_user_id OR v_is_admin)
+  ) THEN
+    RAISE EXCEPTION 'Learning path not found';
+  END IF;
+
+  UPDATE learning_paths
+  SET title = TRIM(p_title),
+      description = NULLIF(TRIM(p_description), ''),
+      thumbnail_url = NULLIF(TRIM(p_thumbnail_url), ''),
+      path_type = p_path_type,
+      price = COALESCE(p_price, 0),
+      currency = UPPER(p_currency),
+      is_published = p_is_published
+  WHERE id = v_path_id;
+
+  DELETE FROM learning_path_courses
+  WHERE path_id = v_path_id
+  AND course_id <> ALL (p_course_ids);
+
+  INSERT INTO learning_path_courses (path_id, course_id, position)
+  SELECT v_path_id, c.id, c.ordinality::INTEGER
+  FROM unnest(p_course_ids) WITH ORDINALITY AS c(id, ordinality)
+  ON CONFLICT (path_id, course_id) DO UPDATE SET position = EXCLUDED.position;
+
+  IF COALESCE(p_price, 0) > 0 THEN
+    SELECT mpc.title INTO v_unpriced
+    FROM get_learning_path_course_prices(v_path_id, p_currency) prices
+    JOIN masterclass_page_content mpc ON mpc.id = prices.course_id
+    WHERE prices.list_price IS NULL
+    LIMIT 1;
+
+    IF v_unpriced IS NOT NULL THEN
+      RAISE EXCEPTION '% is not sold in %', v_unpriced, UPPER(p_currency);
+    END IF;
+
+    SELECT SUM(prices.list_price) INTO v_parts_total
+    FROM get_learning_path_course_prices(v_path_id, p_currency) prices;
+
+    IF p_price >= v_parts_total THEN
+      RAISE EXCEPTION 'The price must be below the % % the courses cost separately',
+        v_parts_total, UPPER(p_currency);
+    END IF;
+  END IF;
+
+  -- The course list may have changed under existing learners
+  FOR v_enrollment IN
+    SELECT lpe.id FROM learning_path_enrollments lpe WHERE lpe.path_id = v_path_id
+  LOOP
+    PERFORM refresh_learning_path_enrollment(v_enrollment.id);
+  END LOOP;
+
+  RETURN v_path_id;
+END;
+$$;
+
+-- ===================================================================
+-- PROGRESS
+-- ===================================================================
+
+-- Average progress across the path's courses (0 for one not started
+-- yet); the path is complete once every course is completed on an
+-- eligible enrollment
+CREATE OR REPLACE FUNCTION refresh_learning_path_enrollment(p_path_enrollment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_total INTEGER;
+  v_completed INTEGER;
+  v_average NUMERIC;
+BEGIN
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE se.status = 'completed' AND se.certificate_eligible),
+    COALESCE(AVG(COALESCE(se.progress_percentage, 0)), 0)
+  INTO v_total, v_completed, v_average
+  FROM learning_path_enrollments lpe
+  JOIN learning_path_courses lpc ON lpc.path_id = lpe.path_id
+  LEFT JOIN student_enrollments se ON se.course_id = lpc.course_id AND se.user_id = lpe.user_id
+  WHERE lpe.id = p_path_enrollment_id;
+
+  UPDATE learning_path_enrollments lpe
+  SET total_courses = v_total,
+      courses_completed = v_completed,
+      progress_percentage = CASE
+        WHEN v_total > 0 AND v_completed = v_total THEN 100
+        ELSE LEAST(ROUND(v_average)::INTEGER, 99)
+      END,
+      completed_at = CASE
+        WHEN v_total > 0 AND v_completed = v_total THEN COALESCE(lpe.completed_at, NOW())
+      END,
+      updated_at = NOW()
+  WHERE lpe.id = p_path_enrollment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_learning_path_enrollment(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION refresh_learning_path_enrollment(UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION sync_learning_path_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_enrollment RECORD;
+BEGIN
+  FOR v_enrollment IN
+    SELECT lpe.id
+    FROM learning_path_enrollments lpe
+    JOIN learning_path_courses lpc ON lpc.path_id = lpe.path_id
+    WHERE lpe.user_id = NEW.user_id
+    AND lpc.course_id = NEW.course_id
+  LOOP
+    PERFORM refresh_learning_path_enrollment(v_enrollment.id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_learning_path_progress ON public.student_enrollments;
+CREATE TRIGGER trigger_sync_learning_path_progress
+AFTER INSERT OR UPDATE OF progress_percentage, status, certificate_eligible ON public.student_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION sync_learning_path_progress();
+
+-- ===================================================================
+-- JOINING
+-- ===================================================================
+
+-- Follow a path without a payment: allowed when it is free, or when the
+-- student already owns every course in it. Free courses are enrolled in
+-- straight away.
+CREATE OR REPLACE FUNCTION join_learning_path(p_path_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_path RECORD;
+  v_enrollment_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join this learning path';
+  END IF;
+
+  SELECT lp.id, lp.price, lp.path_type
+  INTO v_path
+  FROM learning_paths lp
+  WHERE lp.id = p_path_id
+  AND lp.is_published;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Learning path not found';
+  END IF;
+
+  IF v_path.price > 0 AND EXISTS (
+    SELECT 1 FROM learning_path_courses lpc
+    WHERE lpc.path_id = p_path_id
+    AND NOT EXISTS (
+      SELECT 1 FROM student_enrollments se
+      WHERE se.user_id = v_user_id
+      AND se.course_id = lpc.course_id
+      AND se.certificate_eligible
+    )
+  ) THEN
+    RAISE EXCEPTION 'Buy this % to join it', CASE WHEN v_path.path_type = 'bundle' THEN 'bundle' ELSE 'learning path' END;
+  END IF;
+
+  INSERT INTO learning_path_enrollments (path_id, user_id)
+  VALUES (p_path_id, v_user_id)
+  ON CONFLICT (path_id, user_id) DO NOTHING;
+
+  SELECT lpe.id INTO v_enrollment_id
+  FROM learning_path_enrollments lpe
+  WHERE lpe.path_id = p_path_id
+  AND lpe.user_id = v_user_id;
+
+  INSERT INTO student_enrollments (user_id, course_id, price_paid, payment_status, status)
+  SELECT v_user_id, lpc.course_id, 0, 'completed', 'active'
+  FROM learning_path_courses lpc
+  JOIN masterclass_page_content mpc ON mpc.id = lpc.course_id
+  WHERE lpc.path_id = p_path_id
+  AND COALESCE(mpc.course_price, 0) = 0
+  ON CONFLICT (user_id, course_id) DO NOTHING;
+
+  PERFORM refresh_learning_path_enrollment(v_enrollment_id);
+
+  RETURN v_enrollment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_learning_path(UUID, TEXT, TEXT, TEXT, TEXT, DECIMAL, TEXT, BOOLEAN, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_learning_path(UUID) TO authenticated;
+
+-- ===================================================================
+-- PATH CERTIFICATES
+-- A certificate now belongs to either a course enrollment or a path
+-- enrollment. For path certificates course_title holds the path title.
+-- ===================================================================
+
+ALTER TABLE public.student_certificates
+  ALTER COLUMN enrollment_id DROP NOT NULL,
+  ALTER COLUMN course_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS learning_path_enrollment_id UUID REFERENCES learning_path_enrollments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS learning_path_id UUID REFERENCES learning_paths(id) ON DELETE SET NULL;
+
+ALTER TABLE public.student_certificates DROP CONSTRAINT IF EXISTS student_certificates_target_check;
+ALTER TABLE public.student_certificates ADD CONSTRAINT student_certificates_target_check
+  CHECK ((enrollment_id IS NULL) <> (learning_path_enrollment_id IS NULL));
+
+-- One live certificate per path enrollment; a revoked one can be re-issued
+CREATE UNIQUE INDEX IF NOT EXISTS idx_student_certificates_live_path_enrollment
+ON public.student_certificates(learning_path_enrollment_id)
+WHERE revoked_at IS NULL;
+
+-- Public lookup by certificate number; NULL when there is no such certificate
+CREATE OR REPLACE FUNCTION verify_certificate(p_certificate_number TEXT)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'certificate_number', c.certificate_number,
+    'holder_name', COALESCE(c.holder_name, p.name),
+    'course_id', c.course_id,
+    'course_title', c.course_title,
+    'learning_path_id', c.learning_path_id,
+    'instructor_name', COALESCE(c.instructor_name, mpc.creator),
+    'issued_at', c.generated_at,
+    'download_url', CASE WHEN c.revoked_at IS NULL AND c.download_url NOT LIKE 'data:%' THEN c.download_url END,
+    'status', CASE WHEN c.revoked_at IS NULL THEN 'valid' ELSE 'revoked' END,
+    'revoked_at', c.revoked_at,
+    'revoked_reason', c.revoked_reason,
+    'can_revoke', staff.can_revoke,
+    -- Lets the instructor re-issue a revoked certificate
+    'enrollment_id', CASE WHEN staff.can_revoke THEN c.enrollment_id END
+  )
+  FROM public.student_certificates c
+  LEFT JOIN public.profiles p ON p.id = c.user_id
+  LEFT JOIN public.masterclass_page_content mpc ON mpc.id = c.course_id
+  LEFT JOIN public.learning_paths lp ON lp.id = c.learning_path_id
+  CROSS JOIN LATERAL (
+    SELECT auth.uid() IS NOT NULL AND (
+      mpc.user_id = auth.uid()
+      OR lp.owner_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM auth.users
+        WHERE id = auth.uid()
+        AND raw_app_meta_data->>'role' = 'admin'
+      )
+    ) AS can_revoke
+  ) staff
+  WHERE c.certificate_number = UPPER(TRIM(p_certificate_number));
+$$;
+
+-- Revoke a certificate; allowed for the course or path owner and admins
+CREATE OR REPLACE FUNCTION revoke_certificate(p_certificate_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_certificate RECORD;
+BEGIN
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A revocation reason is required';
+  END IF;
+
+  SELECT
+    c.id,
+    c.enrollment_id,
+    c.learning_path_enrollment_id,
+    c.revoked_at,
+    COALESCE(mpc.user_id, lp.owner_id) AS owner_id
+  INTO v_certificate
+  FROM public.student_certificates c
+  LEFT JOIN public.masterclass_page_content mpc ON mpc.id = c.course_id
+  LEFT JOIN public.learning_paths lp ON lp.id = c.learning_path_id
+  WHERE c.id = p_certificate_id
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Certificate not found';
+  END IF;
+
+  IF auth.role() <> 'service_role'
+    AND v_certificate.owner_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE id = auth.uid()
+      AND raw_app_meta_data->>'role' = 'admin'
+    ) THEN
+    RAISE EXCEPTION 'Only the instructor or an admin can revoke this certificate';
+  END IF;
+
+  IF v_certificate.revoked_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_certificates
+  SET revoked_at = NOW(),
+      revoked_reason = TRIM(p_reason),
+      revoked_by = auth.uid()
+  WHERE id = p_certificate_id;
+
+  -- The student cannot simply issue themselves a new one
+  PERFORM set_config('app.certificate_revocation', 'on', TRUE);
+
+  UPDATE public.student_enrollments
+  SET certificate_id = CASE WHEN certificate_id = p_certificate_id THEN NULL ELSE certificate_id END,
+      certificate_revoked_at = NOW()
+  WHERE id = v_certificate.enrollment_id;
+
+  PERFORM set_config('app.certificate_revocation', 'off', TRUE);
+
+  UPDATE public.learning_path_enrollments
+  SET certificate_id = NULL
+  WHERE id = v_certificate.learning_path_enrollment_id
+    AND certificate_id = p_certificate_id;
+END;
+$$;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Paths are written through save_learning_path, enrollments through
+-- join_learning_path and the payment webhook.
+-- ===================================================================
+
+ALTER TABLE learning_paths ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_path_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE learning_path_enrollments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view published learning_paths" ON learning_paths;
+CREATE POLICY "Anyone can view published learning_paths"
+ON learning_paths FOR SELECT
+USING (is_published OR owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can delete own learning_paths" ON learning_paths;
+CREATE POLICY "Owners can delete own learning_paths"
+ON learning_paths FOR DELETE
+USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can manage learning_paths" ON learning_paths;
+CREATE POLICY "Service role can manage learning_paths"
+ON learning_paths FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Anyone can view learning_path_courses" ON learning_path_courses;
+CREATE POLICY "Anyone can view learning_path_courses"
+ON learning_path_courses FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM learning_paths lp
+    WHERE lp.id = path_id
+    AND (lp.is_published OR lp.owner_id = auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage learning_path_courses" ON learning_path_courses;
+CREATE POLICY "Service role can manage learning_path_courses"
+ON learning_path_courses FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own learning_path_enrollments" ON learning_path_enrollments;
+CREATE POLICY "Users can view own learning_path_enrollments"
+ON learning_path_enrollments FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can manage learning_path_enrollments" ON learning_path_enrollments;
+CREATE POLICY "Service role can manage learning_path_enrollments"
+ON learning_path_enrollments FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
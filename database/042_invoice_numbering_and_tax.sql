@@ -0,0 +1,425 @@
+-- ===================================================================
+-- INVOICE NUMBERING, TAX AND CREDIT NOTES
+-- Invoice and credit note numbers come from a per-year counter row that
+-- is incremented inside the inserting transaction, so numbers are
+-- sequential (INV-2026-000001, CN-2026-000001) and a rolled-back insert
+-- gives its number back instead of leaving a gap.
+--
+-- Course prices include VAT: the amount paid is split into the net
+-- subtotal and one line per active VAT rate for the invoice currency.
+-- Withholding tax is shown on the invoice as a deduction from the
+-- amount payable. Rates are configured by admins in tax_rates.
+--
+-- Issued invoices are never edited or deleted; a refund issues a credit
+-- note against the invoice, which keeps refunded_amount and status up
+-- to date.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS document_number_series (
+  -- 'INV' (invoices) or 'CN' (credit notes)
+  series TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (series, year)
+);
+
+-- Next number in a series for the (UTC) year of p_date. The counter row
+-- stays locked until the caller's transaction ends.
+CREATE OR REPLACE FUNCTION next_document_number(p_series TEXT, p_date TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_year INTEGER := EXTRACT(YEAR FROM COALESCE(p_date, NOW()) AT TIME ZONE 'UTC')::INTEGER;
+  v_number INTEGER;
+BEGIN
+  INSERT INTO document_number_series (series, year, last_number)
+  VALUES (p_series, v_year, 1)
+  ON CONFLICT (series, year) DO UPDATE
+  SET last_number = document_number_series.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN p_series || '-' || v_year || '-' || LPAD(v_number::TEXT, 6, '0');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_document_number(TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+
+-- ===================================================================
+-- TAX RATES
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  tax_type TEXT NOT NULL CHECK (tax_type IN ('vat', 'withholding')),
+  -- Percent, e.g. 18 for 18%
+  rate NUMERIC(6, 3) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  -- NULL applies to invoices in every currency
+  currency TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trigger_tax_rates_updated_at ON tax_rates;
+CREATE TRIGGER trigger_tax_rates_updated_at
+BEFORE UPDATE ON tax_rates
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- Off until an admin switches them on
+INSERT INTO tax_rates (code, name, tax_type, rate, currency)
+VALUES
+  ('UG-VAT', 'VAT', 'vat', 18, 'UGX'),
+  ('UG-WHT', 'Withholding tax', 'withholding', 6, 'UGX')
+ON CONFLICT (code) DO NOTHING;
+
+-- Rates that apply to a new invoice in a currency
+CREATE OR REPLACE FUNCTION get_invoice_tax_rates(p_currency TEXT)
+RETURNS SETOF tax_rates
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM tax_rates tr
+  WHERE tr.is_active
+  AND (tr.currency IS NULL OR tr.currency = UPPER(p_currency))
+  ORDER BY tr.tax_type, tr.code;
+$$;
+
+-- ===================================================================
+-- INVOICES
+-- ===================================================================
+
+ALTER TABLE public.enrollment_invoices
+  -- Amount before VAT; amount (what was paid) = subtotal + tax
+  ADD COLUMN IF NOT EXISTS subtotal_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS withholding_amount NUMERIC NOT NULL DEFAULT 0;
+
+UPDATE public.enrollment_invoices
+SET subtotal_amount = amount
+WHERE subtotal_amount IS NULL;
+
+CREATE TABLE IF NOT EXISTS enrollment_invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES enrollment_invoices(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  line_type TEXT NOT NULL CHECK (line_type IN ('item', 'vat', 'withholding')),
+  description TEXT NOT NULL,
+  quantity NUMERIC NOT NULL DEFAULT 1,
+  unit_amount NUMERIC NOT NULL,
+  -- Withholding lines are negative
+  amount NUMERIC NOT NULL,
+  tax_rate_id UUID REFERENCES tax_rates(id) ON DELETE SET NULL,
+  -- Copied so the line reads the same after the rate changes
+  tax_rate NUMERIC(6, 3),
+  UNIQUE (invoice_id, line_number)
+);
+
+-- Number the invoice and split the amount into subtotal and taxes
+CREATE OR REPLACE FUNCTION prepare_enrollment_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vat_rate NUMERIC;
+  v_withholding_rate NUMERIC;
+BEGIN
+  NEW.invoice_number := next_document_number('INV', NEW.invoice_date);
+  NEW.currency := UPPER(NEW.currency);
+
+  SELECT
+    COALESCE(SUM(tr.rate) FILTER (WHERE tr.tax_type = 'vat'), 0),
+    COALESCE(SUM(tr.rate) FILTER (WHERE tr.tax_type = 'withholding'), 0)
+  INTO v_vat_rate, v_withholding_rate
+  FROM get_invoice_tax_rates(NEW.currency) tr;
+
+  SELECT COALESCE(SUM(ROUND(NEW.amount * tr.rate / (100 + v_vat_rate), 2)), 0)
+  INTO NEW.tax_amount
+  FROM get_invoice_tax_rates(NEW.currency) tr
+  WHERE tr.tax_type = 'vat';
+
+  NEW.subtotal_amount := NEW.amount - NEW.tax_amount;
+  NEW.withholding_amount := ROUND(NEW.subtotal_amount * v_withholding_rate / 100, 2);
+  NEW.refunded_amount := 0;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_enrollment_invoice ON public.enrollment_invoices;
+CREATE TRIGGER trigger_prepare_enrollment_invoice
+BEFORE INSERT ON public.enrollment_invoices
+FOR EACH ROW
+EXECUTE FUNCTION prepare_enrollment_invoice();
+
+-- Write the item and tax lines with the same rounding as above
+CREATE OR REPLACE FUNCTION write_enrollment_invoice_lines()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vat_rate NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(tr.rate), 0) INTO v_vat_rate
+  FROM get_invoice_tax_rates(NEW.currency) tr
+  WHERE tr.tax_type = 'vat';
+
+  INSERT INTO enrollment_invoice_lines (invoice_id, line_number, line_type, description, unit_amount, amount)
+  SELECT NEW.id, 1, 'item', COALESCE(mpc.title, 'Course enrollment'), NEW.subtotal_amount, NEW.subtotal_amount
+  FROM (SELECT 1) AS one
+  LEFT JOIN masterclass_page_content mpc ON mpc.id = NEW.course_id;
+
+  INSERT INTO enrollment_invoice_lines (
+    invoice_id, line_number, line_type, description, unit_amount, amount, tax_rate_id, tax_rate
+  )
+  SELECT
+    NEW.id,
+    1 + ROW_NUMBER() OVER (ORDER BY tr.tax_type DESC, tr.code),
+    tr.tax_type,
+    tr.name || ' (' || TRIM(TRAILING '.' FROM TRIM(TRAILING '0' FROM tr.rate::TEXT)) || '%)',
+    lines.amount,
+    lines.amount,
+    tr.id,
+    tr.rate
+  FROM get_invoice_tax_rates(NEW.currency) tr
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN tr.tax_type = 'vat' THEN ROUND(NEW.amount * tr.rate / (100 + v_vat_rate), 2)
+      ELSE -ROUND(NEW.subtotal_amount * tr.rate / 100, 2)
+    END AS amount
+  ) lines;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_write_enrollment_invoice_lines ON public.enrollment_invoices;
+CREATE TRIGGER trigger_write_enrollment_invoice_lines
+AFTER INSERT ON public.enrollment_invoices
+FOR EACH ROW
+EXECUTE FUNCTION write_enrollment_invoice_lines();
+
+-- Only delivery details change after issue; refund totals are kept in
+-- step by credit notes
+CREATE OR REPLACE FUNCTION protect_issued_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Cascades (an enrollment or account being removed) are allowed
+    IF pg_trigger_depth() > 1 THEN
+      RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'Invoices cannot be deleted; issue a credit note instead';
+  END IF;
+
+  IF current_setting('app.invoice_credit_sync', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'email_sent' - 'email_sent_at' - 'pdf_url')
+    IS DISTINCT FROM (to_jsonb(OLD) - 'email_sent' - 'email_sent_at' - 'pdf_url') THEN
+    RAISE EXCEPTION 'Issued invoices cannot be changed; issue a credit note instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_issued_invoice ON public.enrollment_invoices;
+CREATE TRIGGER trigger_protect_issued_invoice
+BEFORE UPDATE OR DELETE ON public.enrollment_invoices
+FOR EACH ROW
+EXECUTE FUNCTION protect_issued_invoice();
+
+-- ===================================================================
+-- CREDIT NOTES
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number TEXT UNIQUE,
+  invoice_id UUID NOT NULL REFERENCES enrollment_invoices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- One credit note per refund
+  refund_id UUID UNIQUE REFERENCES payment_refunds(id) ON DELETE SET NULL,
+  -- Gross amount credited, in the invoice currency
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  subtotal_amount NUMERIC NOT NULL DEFAULT 0,
+  tax_amount NUMERIC NOT NULL DEFAULT 0,
+  reason TEXT,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_user ON credit_notes(user_id);
+
+-- Number the credit note and reverse the invoice's VAT in proportion
+CREATE OR REPLACE FUNCTION prepare_credit_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_invoice RECORD;
+BEGIN
+  SELECT ei.amount, ei.currency, ei.tax_amount, ei.user_id
+  INTO v_invoice
+  FROM enrollment_invoices ei
+  WHERE ei.id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NEW.amount > v_invoice.amount - COALESCE((
+    SELECT SUM(cn.amount) FROM credit_notes cn WHERE cn.invoice_id = NEW.invoice_id
+  ), 0) THEN
+    RAISE EXCEPTION 'A credit note cannot exceed what is left of the invoice';
+  END IF;
+
+  NEW.credit_note_number := next_document_number('CN', NEW.issued_at);
+  NEW.currency := v_invoice.currency;
+  NEW.user_id := v_invoice.user_id;
+  NEW.tax_amount := CASE
+    WHEN v_invoice.amount > 0 THEN ROUND(NEW.amount * v_invoice.tax_amount / v_invoice.amount, 2)
+    ELSE 0
+  END;
+  NEW.subtotal_amount := NEW.amount - NEW.tax_amount;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_credit_note ON credit_notes;
+CREATE TRIGGER trigger_prepare_credit_note
+BEFORE INSERT ON credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION prepare_credit_note();
+
+CREATE OR REPLACE FUNCTION apply_credit_note_to_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM set_config('app.invoice_credit_sync', 'on', TRUE);
+
+  UPDATE enrollment_invoices ei
+  SET refunded_amount = credited.total,
+      refunded_at = NEW.issued_at,
+      status = CASE WHEN credited.total >= ei.amount THEN 'refunded' ELSE 'partially_refunded' END
+  FROM (
+    SELECT SUM(cn.amount) AS total FROM credit_notes cn WHERE cn.invoice_id = NEW.invoice_id
+  ) credited
+  WHERE ei.id = NEW.invoice_id;
+
+  PERFORM set_config('app.invoice_credit_sync', 'off', TRUE);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_credit_note_to_invoice ON credit_notes;
+CREATE TRIGGER trigger_apply_credit_note_to_invoice
+AFTER INSERT ON credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION apply_credit_note_to_invoice();
+
+-- Credit notes are final too
+CREATE OR REPLACE FUNCTION protect_credit_note()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Credit notes cannot be changed or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_credit_note ON credit_notes;
+CREATE TRIGGER trigger_protect_credit_note
+BEFORE UPDATE OR DELETE ON credit_notes
+FOR EACH ROW
+EXECUTE FUNCTION protect_credit_note();
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE document_number_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE enrollment_invoice_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage document_number_series" ON document_number_series;
+CREATE POLICY "Service role can manage document_number_series"
+ON document_number_series FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Anyone can view tax_rates" ON tax_rates;
+CREATE POLICY "Anyone can view tax_rates"
+ON tax_rates FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage tax_rates" ON tax_rates;
+CREATE POLICY "Admins can manage tax_rates"
+ON tax_rates FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage tax_rates" ON tax_rates;
+CREATE POLICY "Service role can manage tax_rates"
+ON tax_rates FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own enrollment_invoice_lines" ON enrollment_invoice_lines;
+CREATE POLICY "Users can view own enrollment_invoice_lines"
+ON enrollment_invoice_lines FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM enrollment_invoices ei
+    WHERE ei.id = invoice_id
+    AND ei.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage enrollment_invoice_lines" ON enrollment_invoice_lines;
+CREATE POLICY "Service role can manage enrollment_invoice_lines"
+ON enrollment_invoice_lines FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own credit_notes" ON credit_notes;
+CREATE POLICY "Users can view own credit_notes"
+ON credit_notes FOR SELECT
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Service role can manage credit_notes" ON credit_notes;
+CREATE POLICY "Service role can manage credit_notes"
+ON credit_notes FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
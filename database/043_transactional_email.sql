@@ -0,0 +1,421 @@
+-- ===================================================================
+-- TRANSACTIONAL EMAIL OUTBOX
+-- Invoices, payment receipts, certificates and event reminders are
+-- queued here in the same transaction that creates them, and sent by
+-- the processEmailOutbox worker through the configured transport (see
+-- supabase/functions/_shared/emailOutbox.ts).
+--
+-- Lifecycle:
+--   pending -> sending -> sent
+--                      -> failed (retried at next_attempt_at with
+--                         exponential backoff)
+--                      -> dead_letter (after max_attempts)
+--                      -> bounced (permanent rejection by the server)
+--   pending -> suppressed (the address hard-bounced before)
+--           -> cancelled (nothing to send any more: the certificate was
+--              revoked, the event cancelled)
+--
+-- A hard bounce - reported by the SMTP server when sending, or later
+-- through the emailBounceWebhook function - suppresses the address so
+-- nothing more is sent to it.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template TEXT NOT NULL
+    CHECK (template IN ('invoice', 'payment_receipt', 'certificate', 'event_reminder')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  recipient_email TEXT NOT NULL,
+  -- The row the email is about (invoice, payment order or membership
+  -- transaction, certificate, event reminder); rendered when sent
+  related_id UUID NOT NULL,
+  -- Extra template input, e.g. the membership table of a receipt
+  template_data JSONB NOT NULL DEFAULT '{}'::JSONB,
+  -- The same email is never queued twice
+  dedupe_key TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'dead_letter', 'bounced', 'suppressed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  -- Set when sent
+  subject TEXT,
+  transport TEXT,
+  message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  bounced_at TIMESTAMP WITH TIME ZONE,
+  bounce_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+  ON email_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'failed');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_status ON email_outbox(status);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_user ON email_outbox(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_message_id ON email_outbox(message_id) WHERE message_id IS NOT NULL;
+
+-- Addresses that must not be mailed again
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  -- Lower-cased
+  email TEXT PRIMARY KEY,
+  reason TEXT NOT NULL DEFAULT 'hard_bounce' CHECK (reason IN ('hard_bounce', 'complaint', 'manual')),
+  details TEXT,
+  bounce_count INTEGER NOT NULL DEFAULT 1,
+  last_outbox_id UUID REFERENCES email_outbox(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ===================================================================
+-- QUEUE
+-- Queues one email for a user's sign-in address. Repeating a call with
+-- the same dedupe key is a no-op, so triggers and retried webhooks can
+-- call it freely.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION queue_email(
+  p_template TEXT,
+  p_user_id UUID,
+  p_related_id UUID,
+  p_dedupe_key TEXT,
+  p_template_data JSONB DEFAULT '{}'::JSONB,
+  p_send_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email TEXT;
+  v_id UUID;
+BEGIN
+  SELECT email INTO v_email FROM auth.users WHERE id = p_user_id;
+
+  IF v_email IS NULL OR v_email = '' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO email_outbox (template, user_id, recipient_email, related_id, template_data, dedupe_key, next_attempt_at)
+  VALUES (p_template, p_user_id, v_email, p_related_id, COALESCE(p_template_data, '{}'::JSONB), p_dedupe_key, COALESCE(p_send_at, NOW()))
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_email(TEXT, UUID, UUID, TEXT, JSONB, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_email(TEXT, UUID, UUID, TEXT, JSONB, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Invoices are emailed once issued
+CREATE OR REPLACE FUNCTION queue_invoice_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT NEW.email_sent THEN
+    PERFORM queue_email('invoice', NEW.user_id, NEW.id, 'invoice:' || NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_invoice_email ON enrollment_invoices;
+CREATE TRIGGER trigger_queue_invoice_email
+  AFTER INSERT ON enrollment_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_invoice_email();
+
+-- Completed payment orders get a receipt. Course purchases are covered
+-- by their invoice email.
+CREATE OR REPLACE FUNCTION queue_order_receipt_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'completed'
+     AND OLD.status IS DISTINCT FROM 'completed'
+     AND NEW.item_type <> 'course_enrollment'
+     AND NEW.amount > 0 THEN
+    PERFORM queue_email(
+      'payment_receipt',
+      NEW.user_id,
+      NEW.id,
+      'receipt:payment_orders:' || NEW.id,
+      jsonb_build_object('source', 'payment_orders')
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_order_receipt_email ON payment_orders;
+CREATE TRIGGER trigger_queue_order_receipt_email
+  AFTER UPDATE OF status ON payment_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_order_receipt_email();
+
+-- Membership payments (first payments and renewals) get a receipt
+CREATE OR REPLACE FUNCTION queue_membership_receipt_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM queue_email(
+      'payment_receipt',
+      NEW.user_id,
+      NEW.id,
+      'receipt:' || TG_TABLE_NAME || ':' || NEW.id,
+      jsonb_build_object('source', TG_TABLE_NAME)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_membership_receipt_email ON creators_membership;
+CREATE TRIGGER trigger_queue_membership_receipt_email
+  AFTER UPDATE OF status ON creators_membership
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_membership_receipt_email();
+
+DROP TRIGGER IF EXISTS trigger_queue_membership_receipt_email ON members_membership;
+CREATE TRIGGER trigger_queue_membership_receipt_email
+  AFTER UPDATE OF status ON members_membership
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_membership_receipt_email();
+
+-- Certificates are emailed once the PDF is stored
+CREATE OR REPLACE FUNCTION queue_certificate_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.download_url IS NOT NULL AND NEW.revoked_at IS NULL THEN
+    PERFORM queue_email('certificate', NEW.user_id, NEW.id, 'certificate:' || NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_certificate_email ON student_certificates;
+CREATE TRIGGER trigger_queue_certificate_email
+  AFTER INSERT OR UPDATE OF download_url ON student_certificates
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_certificate_email();
+
+-- Email reminders that are due (event_reminders with reminder_type
+-- 'email'; createEventReminders writes them). The worker calls this on
+-- every run and marks the reminder sent once its email went out.
+CREATE OR REPLACE FUNCTION queue_due_event_reminder_emails()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reminder RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_reminder IN
+    SELECT r.id, r.user_id
+    FROM event_reminders r
+    JOIN events e ON e.id = r.event_id
+    WHERE r.reminder_type = 'email'
+      AND r.status = 'pending'
+      AND r.reminder_scheduled_for <= NOW()
+      AND e.status <> 'cancelled'
+  LOOP
+    IF queue_email('event_reminder', v_reminder.user_id, v_reminder.id, 'event_reminder:' || v_reminder.id) IS NOT NULL THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_due_event_reminder_emails() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_due_event_reminder_emails() TO service_role;
+
+-- An immediate reminder email for an event in the caller's calendar
+CREATE OR REPLACE FUNCTION queue_event_reminder_email(p_event_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reminder_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_calendar_events
+    WHERE user_id = auth.uid() AND event_id = p_event_id
+  ) THEN
+    RAISE EXCEPTION 'Add the event to your calendar first';
+  END IF;
+
+  INSERT INTO event_reminders (user_id, event_id, reminder_scheduled_for, reminder_type, status)
+  VALUES (auth.uid(), p_event_id, NOW(), 'email', 'pending')
+  RETURNING id INTO v_reminder_id;
+
+  PERFORM queue_email('event_reminder', auth.uid(), v_reminder_id, 'event_reminder:' || v_reminder_id);
+
+  RETURN v_reminder_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION queue_event_reminder_email(UUID) TO authenticated;
+
+-- ===================================================================
+-- CLAIM EMAILS
+-- Locks due emails for one worker, like claim_webhook_inbox_events.
+-- Emails stuck in 'sending' for 10 minutes are claimed again.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION claim_email_outbox(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF email_outbox
+LANGUAGE sql
+AS $$
+  UPDATE email_outbox
+  SET status = 'sending',
+      locked_at = NOW(),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM email_outbox
+    WHERE (status IN ('pending', 'failed') AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - INTERVAL '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_email_outbox(INTEGER) TO service_role;
+
+-- ===================================================================
+-- BOUNCES
+-- Records a bounce for an address (and the email that bounced, when
+-- known). Hard bounces and complaints suppress the address; soft
+-- bounces are only counted.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION record_email_bounce(
+  p_email TEXT,
+  p_bounce_type TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_outbox_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_bounce_type NOT IN ('hard', 'soft', 'complaint') THEN
+    RAISE EXCEPTION 'Unknown bounce type %', p_bounce_type;
+  END IF;
+
+  IF p_outbox_id IS NOT NULL THEN
+    UPDATE email_outbox
+    SET status = CASE WHEN p_bounce_type = 'soft' THEN status ELSE 'bounced' END,
+        bounced_at = NOW(),
+        bounce_reason = p_reason
+    WHERE id = p_outbox_id;
+  END IF;
+
+  IF p_bounce_type = 'soft' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO email_suppressions (email, reason, details, last_outbox_id)
+  VALUES (
+    LOWER(TRIM(p_email)),
+    CASE WHEN p_bounce_type = 'complaint' THEN 'complaint' ELSE 'hard_bounce' END,
+    p_reason,
+    p_outbox_id
+  )
+  ON CONFLICT (email) DO UPDATE
+  SET bounce_count = email_suppressions.bounce_count + 1,
+      details = EXCLUDED.details,
+      last_outbox_id = COALESCE(EXCLUDED.last_outbox_id, email_suppressions.last_outbox_id),
+      updated_at = NOW();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_email_bounce(TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_email_bounce(TEXT, TEXT, TEXT, UUID) TO service_role;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own email_outbox" ON email_outbox;
+CREATE POLICY "Users can view own email_outbox"
+ON email_outbox FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view email_outbox" ON email_outbox;
+CREATE POLICY "Admins can view email_outbox"
+ON email_outbox FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage email_outbox" ON email_outbox;
+CREATE POLICY "Service role can manage email_outbox"
+ON email_outbox FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Admins can manage email_suppressions" ON email_suppressions;
+CREATE POLICY "Admins can manage email_suppressions"
+ON email_suppressions FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid()
+    AND raw_app_meta_data->>'role' = 'admin'
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage email_suppressions" ON email_suppressions;
+CREATE POLICY "Service role can manage email_suppressions"
+ON email_suppressions FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- SCHEDULE
+-- Run the outbox worker every minute (requires pg_cron + pg_net):
+--
+-- SELECT cron.schedule(
+--   'process-email-outbox',
+--   '* * * * *',
+--   $$ SELECT net.http_post(
+--        url := 'https://<project-ref>.supabase.co/functions/v1/processEmailOutbox',
+--        headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--      ) $$
+-- );
+-- ===================================================================
@@ -0,0 +1,414 @@
+-- ===================================================================
+-- ZOHO BOOKS SALES SYNC
+-- Opt-in: a creator who connected Zoho Books (src/lib/zohoBooksDatabase.sql)
+-- and turned on auto sync gets every completed sale of theirs - course
+-- enrollments, tips and event tickets - queued here when it completes.
+-- Admins can also sync platform membership payments into their books.
+--
+-- The syncZohoBooks worker creates or updates the buyer as a Zoho
+-- customer, creates or updates the invoice and records the payment
+-- with the gateway transaction reference, so the invoice shows as paid
+-- (see supabase/functions/_shared/zohoBooksSync.ts).
+--
+-- Lifecycle:
+--   pending -> syncing -> synced
+--                      -> failed (retried at next_attempt_at with
+--                         exponential backoff)
+--                      -> dead_letter (after max_attempts; the owner
+--                         retries it from the Books page)
+-- ===================================================================
+
+ALTER TABLE public.zoho_books_integrations
+  ADD COLUMN IF NOT EXISTS auto_sync_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS auto_sync_enabled_at TIMESTAMP WITH TIME ZONE,
+  -- Admins only: platform membership payments
+  ADD COLUMN IF NOT EXISTS sync_memberships BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Membership payments are other users' payments to the platform, so only
+-- admins may sync them into their books
+CREATE OR REPLACE FUNCTION protect_zoho_books_sync_settings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.sync_memberships
+     AND NOT COALESCE(OLD.sync_memberships, FALSE)
+     AND auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT EXISTS (
+       SELECT 1 FROM auth.users
+       WHERE id = auth.uid()
+       AND raw_app_meta_data->>'role' = 'admin'
+     ) THEN
+    RAISE EXCEPTION 'Only admins can sync membership payments';
+  END IF;
+
+  IF NEW.auto_sync_enabled AND NOT COALESCE(OLD.auto_sync_enabled, FALSE) THEN
+    NEW.auto_sync_enabled_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_zoho_books_sync_settings ON public.zoho_books_integrations;
+CREATE TRIGGER trigger_protect_zoho_books_sync_settings
+  BEFORE INSERT OR UPDATE ON public.zoho_books_integrations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_zoho_books_sync_settings();
+
+CREATE TABLE IF NOT EXISTS zoho_books_sync_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Owner of the Zoho Books connection the sale goes to
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL
+    CHECK (source_type IN ('course_enrollment', 'membership_payment', 'tip', 'event_ticket')),
+  -- student_enrollments, payment_orders, creators_membership or members_membership
+  source_table TEXT NOT NULL,
+  source_id UUID NOT NULL,
+  -- Copied from the sale when it is queued
+  customer_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  customer_name TEXT NOT NULL,
+  customer_email TEXT,
+  description TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  payment_method TEXT,
+  -- Gateway transaction reference, recorded on the Zoho payment
+  transaction_reference TEXT NOT NULL,
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'syncing', 'synced', 'failed', 'dead_letter')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  -- Saved as each step succeeds, so a retry continues where it stopped
+  zoho_contact_id TEXT,
+  zoho_invoice_id TEXT,
+  zoho_invoice_number TEXT,
+  zoho_payment_id TEXT,
+  synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT zoho_books_sync_records_source_unique UNIQUE (user_id, source_table, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_zoho_books_sync_records_due
+  ON zoho_books_sync_records(next_attempt_at)
+  WHERE status IN ('pending', 'failed');
+CREATE INDEX IF NOT EXISTS idx_zoho_books_sync_records_user
+  ON zoho_books_sync_records(user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS trigger_zoho_books_sync_records_updated_at ON zoho_books_sync_records;
+CREATE TRIGGER trigger_zoho_books_sync_records_updated_at
+  BEFORE UPDATE ON zoho_books_sync_records
+  FOR EACH ROW
+  EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- ===================================================================
+-- QUEUE
+-- Queues a sale for a connection that has auto sync on. A sale queued
+-- again before it synced is refreshed; a synced one is left alone.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION queue_zoho_books_sale(
+  p_books_user_id UUID,
+  p_source_type TEXT,
+  p_source_table TEXT,
+  p_source_id UUID,
+  p_customer_user_id UUID,
+  p_description TEXT,
+  p_amount NUMERIC,
+  p_currency TEXT,
+  p_payment_method TEXT,
+  p_transaction_reference TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_customer_name TEXT;
+  v_customer_email TEXT;
+  v_id UUID;
+BEGIN
+  IF p_books_user_id IS NULL OR COALESCE(p_amount, 0) <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM zoho_books_integrations
+    WHERE user_id = p_books_user_id
+      AND is_connected
+      AND auto_sync_enabled
+      AND organization_id IS NOT NULL
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT p.name, COALESCE(u.email, p.email)
+  INTO v_customer_name, v_customer_email
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = p_customer_user_id;
+
+  INSERT INTO zoho_books_sync_records (
+    user_id, source_type, source_table, source_id, customer_user_id, customer_name,
+    customer_email, description, amount, currency, payment_method, transaction_reference
+  )
+  VALUES (
+    p_books_user_id, p_source_type, p_source_table, p_source_id, p_customer_user_id,
+    COALESCE(NULLIF(v_customer_name, ''), v_customer_email, 'Customer'),
+    v_customer_email, p_description, p_amount, UPPER(p_currency), p_payment_method,
+    COALESCE(p_transaction_reference, p_source_id::TEXT)
+  )
+  ON CONFLICT (user_id, source_table, source_id) DO UPDATE
+  SET description = EXCLUDED.description,
+      amount = EXCLUDED.amount,
+      currency = EXCLUDED.currency,
+      payment_method = EXCLUDED.payment_method,
+      transaction_reference = EXCLUDED.transaction_reference,
+      next_attempt_at = NOW()
+  WHERE zoho_books_sync_records.status <> 'synced'
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_zoho_books_sale(UUID, TEXT, TEXT, UUID, UUID, TEXT, NUMERIC, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_zoho_books_sale(UUID, TEXT, TEXT, UUID, UUID, TEXT, NUMERIC, TEXT, TEXT, TEXT) TO service_role;
+
+-- Paid course enrollments (direct purchases and learning path shares)
+-- go to the course owner's books
+CREATE OR REPLACE FUNCTION queue_enrollment_zoho_books_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_course RECORD;
+BEGIN
+  IF NEW.payment_status = 'completed'
+     AND COALESCE(NEW.price_paid, 0) > 0
+     AND (TG_OP = 'INSERT' OR OLD.payment_status IS DISTINCT FROM 'completed') THEN
+    SELECT user_id, title INTO v_course
+    FROM masterclass_page_content
+    WHERE id = NEW.course_id;
+
+    PERFORM queue_zoho_books_sale(
+      v_course.user_id,
+      'course_enrollment',
+      'student_enrollments',
+      NEW.id,
+      NEW.user_id,
+      'Course enrollment: ' || COALESCE(v_course.title, 'Course'),
+      NEW.price_paid,
+      COALESCE(NEW.currency, 'UGX'),
+      NEW.payment_method,
+      NEW.transaction_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_enrollment_zoho_books_sale ON student_enrollments;
+CREATE TRIGGER trigger_queue_enrollment_zoho_books_sale
+  AFTER INSERT OR UPDATE OF payment_status ON student_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_enrollment_zoho_books_sale();
+
+-- Event tickets go to the organizer's books, tips to the creator's.
+-- Tips name the creator (profiles.name); an ambiguous name is not synced.
+CREATE OR REPLACE FUNCTION queue_order_zoho_books_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_seller_id UUID;
+  v_description TEXT;
+BEGIN
+  IF NEW.status <> 'completed'
+     OR OLD.status IS NOT DISTINCT FROM 'completed'
+     OR NEW.item_type NOT IN ('event_ticket', 'tip') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.item_type = 'event_ticket' THEN
+    SELECT organizer_id, 'Event ticket: ' || title
+    INTO v_seller_id, v_description
+    FROM events
+    WHERE id::TEXT = NEW.item_ref;
+  ELSE
+    SELECT (ARRAY_AGG(id))[1]
+    INTO v_seller_id
+    FROM profiles
+    WHERE name = NEW.item_ref
+    HAVING COUNT(*) = 1;
+
+    v_description := 'Tip';
+  END IF;
+
+  PERFORM queue_zoho_books_sale(
+    v_seller_id,
+    NEW.item_type,
+    'payment_orders',
+    NEW.id,
+    NEW.user_id,
+    COALESCE(v_description, NEW.item_title, 'Sale'),
+    NEW.amount,
+    NEW.currency,
+    NEW.payment_method,
+    COALESCE(NEW.transaction_id, NEW.reference_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_order_zoho_books_sale ON payment_orders;
+CREATE TRIGGER trigger_queue_order_zoho_books_sale
+  AFTER UPDATE OF status ON payment_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_order_zoho_books_sale();
+
+-- Membership payments go to every admin connection with sync_memberships
+CREATE OR REPLACE FUNCTION queue_membership_zoho_books_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment JSONB := to_jsonb(NEW);
+  v_books_user_id UUID;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status IS NOT DISTINCT FROM 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_books_user_id IN
+    SELECT user_id FROM zoho_books_integrations
+    WHERE sync_memberships AND auto_sync_enabled AND is_connected
+  LOOP
+    PERFORM queue_zoho_books_sale(
+      v_books_user_id,
+      'membership_payment',
+      TG_TABLE_NAME,
+      NEW.id,
+      NEW.user_id,
+      INITCAP(CASE WHEN TG_TABLE_NAME = 'members_membership' THEN 'member' ELSE 'creator' END)
+        || ' membership: ' || COALESCE(v_payment->>'new_tier', '') || ' (' || COALESCE(v_payment->>'billing_cycle', '') || ')',
+      (v_payment->>'amount')::NUMERIC,
+      COALESCE(v_payment->>'currency', 'USD'),
+      v_payment->>'payment_method',
+      COALESCE(v_payment->>'transaction_id', v_payment->>'reference_id')
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_queue_membership_zoho_books_sale ON creators_membership;
+CREATE TRIGGER trigger_queue_membership_zoho_books_sale
+  AFTER UPDATE OF status ON creators_membership
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_membership_zoho_books_sale();
+
+DROP TRIGGER IF EXISTS trigger_queue_membership_zoho_books_sale ON members_membership;
+CREATE TRIGGER trigger_queue_membership_zoho_books_sale
+  AFTER UPDATE OF status ON members_membership
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_membership_zoho_books_sale();
+
+-- ===================================================================
+-- CLAIM RECORDS
+-- Locks due records for one worker, like claim_webhook_inbox_events.
+-- Records stuck in 'syncing' for 10 minutes are claimed again.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION claim_zoho_books_sync_records(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF zoho_books_sync_records
+LANGUAGE sql
+AS $$
+  UPDATE zoho_books_sync_records
+  SET status = 'syncing',
+      locked_at = NOW(),
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT id FROM zoho_books_sync_records
+    WHERE (status IN ('pending', 'failed') AND next_attempt_at <= NOW())
+       OR (status = 'syncing' AND locked_at < NOW() - INTERVAL '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_zoho_books_sync_records(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_zoho_books_sync_records(INTEGER) TO service_role;
+
+-- ===================================================================
+-- RETRY (owner)
+-- Puts a failed or dead-lettered record back in the queue with fresh
+-- attempts, e.g. after fixing the customer's currency in Zoho Books.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION retry_zoho_books_sync_record(p_record_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE zoho_books_sync_records
+  SET status = 'pending',
+      attempts = 0,
+      next_attempt_at = NOW(),
+      locked_at = NULL
+  WHERE id = p_record_id
+    AND user_id = auth.uid()
+    AND status IN ('failed', 'dead_letter');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sync record not found or not failed';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION retry_zoho_books_sync_record(UUID) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- ===================================================================
+
+ALTER TABLE zoho_books_sync_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own zoho_books_sync_records" ON zoho_books_sync_records;
+CREATE POLICY "Users can view own zoho_books_sync_records"
+ON zoho_books_sync_records FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage zoho_books_sync_records" ON zoho_books_sync_records;
+CREATE POLICY "Service role can manage zoho_books_sync_records"
+ON zoho_books_sync_records FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- ===================================================================
+-- SCHEDULE
+-- Run the sync worker every 5 minutes (requires pg_cron + pg_net):
+--
+-- SELECT cron.schedule(
+--   'sync-zoho-books',
+--   '*/5 * * * *',
+--   $$ SELECT net.http_post(
+--        url := 'https://<project-ref>.supabase.co/functions/v1/syncZohoBooks',
+--        headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--      ) $$
+-- );
+-- ===================================================================
@@ -0,0 +1,586 @@
+-- ===================================================================
+-- EVENT TICKETING
+-- Organizers sell ticket types for an event (general, early bird, VIP,
+-- group), each with its own price, quantity and sale window. Free types
+-- are claimed through claim_free_event_tickets; paid ones are sold as
+-- 'event_ticket' payment orders (item_ref is still the event id, the
+-- type and quantity travel in the order metadata) and issued by the
+-- payment webhook. Events without ticket types keep selling a single
+-- general admission ticket at events.price.
+--
+-- Every ticket carries a QR payload signed with a key only the database
+-- holds. The organizer checks tickets in at the door with
+-- check_in_event_ticket, by scanning the QR code or typing the ticket
+-- code; a ticket is only ever admitted once.
+-- ===================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS event_ticket_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  kind TEXT NOT NULL DEFAULT 'general' CHECK (kind IN ('general', 'early_bird', 'vip', 'group')),
+  price DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'UGX',
+  -- Tickets of this type that can be sold
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  -- People one ticket lets in, e.g. 5 for a group ticket
+  admits INTEGER NOT NULL DEFAULT 1 CHECK (admits > 0),
+  max_per_order INTEGER NOT NULL DEFAULT 10 CHECK (max_per_order > 0),
+  -- NULL: on sale from creation / until the event
+  sales_start_at TIMESTAMP WITH TIME ZONE,
+  sales_end_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Kept in step with event_tickets
+  sold_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (sales_end_at IS NULL OR sales_start_at IS NULL OR sales_end_at > sales_start_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_ticket_types_event ON event_ticket_types(event_id, sort_order);
+
+DROP TRIGGER IF EXISTS trigger_event_ticket_types_updated_at ON event_ticket_types;
+CREATE TRIGGER trigger_event_ticket_types_updated_at
+BEFORE UPDATE ON event_ticket_types
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+CREATE TABLE IF NOT EXISTS event_tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  -- NULL for general admission to an event without ticket types. Types
+  -- with tickets can't be deleted, only deactivated.
+  ticket_type_id UUID REFERENCES event_ticket_types(id),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Copied from profiles for the door list
+  holder_name TEXT NOT NULL DEFAULT '',
+  -- TKT-XXXX-XXXX, printed under the QR code for manual entry
+  code TEXT NOT NULL UNIQUE,
+  -- FTT1:<code>:<signature>, what the QR code encodes
+  qr_payload TEXT NOT NULL,
+  admits INTEGER NOT NULL DEFAULT 1,
+  price_paid DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  currency TEXT,
+  payment_order_id UUID REFERENCES payment_orders(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'valid' CHECK (status IN ('valid', 'cancelled')),
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  checked_in_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_tickets_event ON event_tickets(event_id, status);
+CREATE INDEX IF NOT EXISTS idx_event_tickets_user ON event_tickets(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_event_tickets_type ON event_tickets(ticket_type_id) WHERE ticket_type_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_event_tickets_order ON event_tickets(payment_order_id) WHERE payment_order_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS trigger_event_tickets_updated_at ON event_tickets;
+CREATE TRIGGER trigger_event_tickets_updated_at
+BEFORE UPDATE ON event_tickets
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- ===================================================================
+-- SIGNING
+-- One random key, readable only by the functions below (RLS on, no
+-- policies). A QR payload whose signature doesn't match was not issued
+-- here and is rejected at the door.
+-- ===================================================================
+
+CREATE TABLE IF NOT EXISTS event_ticket_signing_keys (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  secret BYTEA NOT NULL DEFAULT gen_random_bytes(32),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO event_ticket_signing_keys (id) VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE event_ticket_signing_keys ENABLE ROW LEVEL SECURITY;
+
+-- Signature over the event and the code, so a ticket can't be used at
+-- another event
+CREATE OR REPLACE FUNCTION sign_event_ticket(p_event_id UUID, p_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT UPPER(SUBSTRING(ENCODE(HMAC(CONVERT_TO(p_event_id::TEXT || ':' || p_code, 'UTF8'), secret, 'sha256'), 'hex') FROM 1 FOR 24))
+  FROM event_ticket_signing_keys
+  WHERE id = 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION sign_event_ticket(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ===================================================================
+-- TICKET TYPES
+-- ===================================================================
+
+-- sold_count is maintained by the triggers below; what buyers already
+-- paid for can't be repriced or oversold by editing the type
+CREATE OR REPLACE FUNCTION prepare_event_ticket_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.sold_count := 0;
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('app.event_ticketing_admin', TRUE) IS DISTINCT FROM 'on' THEN
+    IF NEW.event_id IS DISTINCT FROM OLD.event_id
+      OR NEW.sold_count IS DISTINCT FROM OLD.sold_count THEN
+      RAISE EXCEPTION 'These ticket details can only be changed by the system';
+    END IF;
+
+    IF OLD.sold_count > 0 AND (
+      NEW.price IS DISTINCT FROM OLD.price
+      OR NEW.currency IS DISTINCT FROM OLD.currency
+      OR NEW.admits IS DISTINCT FROM OLD.admits
+    ) THEN
+      RAISE EXCEPTION 'The price and admission of a ticket cannot be changed once it has sold';
+    END IF;
+
+    IF NEW.quantity < OLD.sold_count THEN
+      RAISE EXCEPTION 'Quantity cannot be lower than the % tickets already sold', OLD.sold_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_event_ticket_type ON event_ticket_types;
+CREATE TRIGGER trigger_prepare_event_ticket_type
+BEFORE INSERT OR UPDATE ON event_ticket_types
+FOR EACH ROW
+EXECUTE FUNCTION prepare_event_ticket_type();
+
+CREATE OR REPLACE FUNCTION refresh_event_ticket_sold_count(p_ticket_type_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM set_config('app.event_ticketing_admin', 'on', TRUE);
+
+  UPDATE event_ticket_types
+  SET sold_count = (
+    SELECT COUNT(*)::INTEGER
+    FROM event_tickets
+    WHERE ticket_type_id = p_ticket_type_id
+      AND status = 'valid'
+  )
+  WHERE id = p_ticket_type_id;
+
+  PERFORM set_config('app.event_ticketing_admin', 'off', TRUE);
+END;
+$$;
+
+-- ===================================================================
+-- TICKETS
+-- ===================================================================
+
+-- Code, signature, holder name and admission are set here, whoever
+-- issues the ticket
+CREATE OR REPLACE FUNCTION prepare_event_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_raw TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.code IS DISTINCT FROM OLD.code
+      OR NEW.qr_payload IS DISTINCT FROM OLD.qr_payload
+      OR NEW.event_id IS DISTINCT FROM OLD.event_id THEN
+      RAISE EXCEPTION 'Ticket codes cannot be changed';
+    END IF;
+
+    IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+      NEW.cancelled_at := NOW();
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  LOOP
+    v_raw := UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 8));
+    NEW.code := 'TKT-' || SUBSTRING(v_raw FROM 1 FOR 4) || '-' || SUBSTRING(v_raw FROM 5 FOR 4);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM event_tickets WHERE code = NEW.code);
+  END LOOP;
+
+  NEW.qr_payload := 'FTT1:' || NEW.code || ':' || sign_event_ticket(NEW.event_id, NEW.code);
+  NEW.checked_in_at := NULL;
+  NEW.checked_in_by := NULL;
+
+  IF NEW.ticket_type_id IS NOT NULL THEN
+    SELECT admits INTO NEW.admits
+    FROM event_ticket_types
+    WHERE id = NEW.ticket_type_id
+      AND event_id = NEW.event_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ticket type does not belong to this event';
+    END IF;
+  END IF;
+
+  IF NEW.holder_name = '' THEN
+    SELECT COALESCE(name, '') INTO NEW.holder_name
+    FROM public.profiles
+    WHERE id = NEW.user_id;
+
+    NEW.holder_name := COALESCE(NEW.holder_name, '');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prepare_event_ticket ON event_tickets;
+CREATE TRIGGER trigger_prepare_event_ticket
+BEFORE INSERT OR UPDATE ON event_tickets
+FOR EACH ROW
+EXECUTE FUNCTION prepare_event_ticket();
+
+CREATE OR REPLACE FUNCTION sync_event_ticket_sold_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF COALESCE(NEW.ticket_type_id, OLD.ticket_type_id) IS NOT NULL THEN
+    PERFORM refresh_event_ticket_sold_count(COALESCE(NEW.ticket_type_id, OLD.ticket_type_id));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_event_ticket_sold_count ON event_tickets;
+CREATE TRIGGER trigger_sync_event_ticket_sold_count
+AFTER INSERT OR DELETE OR UPDATE OF status ON event_tickets
+FOR EACH ROW
+EXECUTE FUNCTION sync_event_ticket_sold_count();
+
+-- Refunded ticket orders no longer get in
+CREATE OR REPLACE FUNCTION cancel_refunded_event_tickets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.item_type = 'event_ticket'
+    AND NEW.status = 'refunded'
+    AND OLD.status IS DISTINCT FROM 'refunded' THEN
+    UPDATE event_tickets
+    SET status = 'cancelled'
+    WHERE payment_order_id = NEW.id
+      AND status = 'valid'
+      AND checked_in_at IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_cancel_refunded_event_tickets ON payment_orders;
+CREATE TRIGGER trigger_cancel_refunded_event_tickets
+AFTER UPDATE OF status ON payment_orders
+FOR EACH ROW
+EXECUTE FUNCTION cancel_refunded_event_tickets();
+
+-- Claim free tickets. The type row is locked so two buyers can't take
+-- the last ones; paid tickets are checked the same way by
+-- priceOrderItem before checkout.
+CREATE OR REPLACE FUNCTION claim_free_event_tickets(p_ticket_type_id UUID, p_quantity INTEGER DEFAULT 1)
+RETURNS SETOF event_tickets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_type event_ticket_types%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_held INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to get tickets';
+  END IF;
+
+  SELECT * INTO v_type
+  FROM event_ticket_types
+  WHERE id = p_ticket_type_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_type.is_active THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF v_type.price > 0 THEN
+    RAISE EXCEPTION 'This ticket needs to be paid for';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = v_type.event_id;
+
+  IF v_event.status IN ('cancelled', 'completed') THEN
+    RAISE EXCEPTION 'Tickets are no longer available for this event';
+  END IF;
+
+  IF v_type.sales_start_at IS NOT NULL AND NOW() < v_type.sales_start_at THEN
+    RAISE EXCEPTION 'Sales for this ticket have not started yet';
+  END IF;
+
+  IF v_type.sales_end_at IS NOT NULL AND NOW() > v_type.sales_end_at THEN
+    RAISE EXCEPTION 'Sales for this ticket have ended';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 OR p_quantity > v_type.max_per_order THEN
+    RAISE EXCEPTION 'You can get between 1 and % of this ticket', v_type.max_per_order;
+  END IF;
+
+  -- Free tickets count against the same per-order limit per person
+  SELECT COUNT(*)::INTEGER INTO v_held
+  FROM event_tickets
+  WHERE ticket_type_id = p_ticket_type_id
+    AND user_id = auth.uid()
+    AND status = 'valid';
+
+  IF v_held + p_quantity > v_type.max_per_order THEN
+    RAISE EXCEPTION 'You already have % of this ticket', v_held;
+  END IF;
+
+  IF v_type.sold_count + p_quantity > v_type.quantity THEN
+    RAISE EXCEPTION 'Only % of this ticket left', GREATEST(v_type.quantity - v_type.sold_count, 0);
+  END IF;
+
+  INSERT INTO event_registrations (user_id, event_id, status)
+  VALUES (auth.uid(), v_type.event_id, 'registered')
+  ON CONFLICT (user_id, event_id) DO UPDATE SET status = 'registered';
+
+  RETURN QUERY
+  INSERT INTO event_tickets (event_id, ticket_type_id, user_id, price_paid, currency)
+  SELECT v_type.event_id, v_type.id, auth.uid(), 0, v_type.currency
+  FROM generate_series(1, p_quantity)
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_free_event_tickets(UUID, INTEGER) TO authenticated;
+
+-- ===================================================================
+-- CHECK-IN
+-- Accepts a scanned QR payload or a typed ticket code. Returns the
+-- outcome rather than raising, so the door can show why a ticket was
+-- turned away: admitted, duplicate, invalid, wrong_event or cancelled.
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION check_in_event_ticket(p_event_id UUID, p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_input TEXT := UPPER(TRIM(COALESCE(p_code, '')));
+  v_parts TEXT[];
+  v_code TEXT;
+  v_ticket event_tickets%ROWTYPE;
+  v_type_name TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = p_event_id AND organizer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the event organizer can check tickets in';
+  END IF;
+
+  IF v_input LIKE 'FTT1:%' THEN
+    v_parts := STRING_TO_ARRAY(v_input, ':');
+
+    IF ARRAY_LENGTH(v_parts, 1) <> 3
+      OR v_parts[3] IS DISTINCT FROM sign_event_ticket(p_event_id, v_parts[2]) THEN
+      -- A genuine ticket for another event fails the signature too
+      IF EXISTS (
+        SELECT 1 FROM event_tickets
+        WHERE code = v_parts[2] AND qr_payload = v_input AND event_id <> p_event_id
+      ) THEN
+        RETURN jsonb_build_object('result', 'wrong_event');
+      END IF;
+
+      RETURN jsonb_build_object('result', 'invalid');
+    END IF;
+
+    v_code := v_parts[2];
+  ELSE
+    v_code := v_input;
+  END IF;
+
+  SELECT * INTO v_ticket
+  FROM event_tickets
+  WHERE code = v_code
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('result', 'invalid');
+  END IF;
+
+  IF v_ticket.event_id <> p_event_id THEN
+    RETURN jsonb_build_object('result', 'wrong_event');
+  END IF;
+
+  SELECT name INTO v_type_name
+  FROM event_ticket_types
+  WHERE id = v_ticket.ticket_type_id;
+
+  IF v_ticket.status = 'cancelled' THEN
+    RETURN jsonb_build_object(
+      'result', 'cancelled',
+      'ticket_id', v_ticket.id,
+      'code', v_ticket.code,
+      'holder_name', v_ticket.holder_name,
+      'ticket_type', COALESCE(v_type_name, 'General admission')
+    );
+  END IF;
+
+  IF v_ticket.checked_in_at IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'result', 'duplicate',
+      'ticket_id', v_ticket.id,
+      'code', v_ticket.code,
+      'holder_name', v_ticket.holder_name,
+      'ticket_type', COALESCE(v_type_name, 'General admission'),
+      'admits', v_ticket.admits,
+      'checked_in_at', v_ticket.checked_in_at
+    );
+  END IF;
+
+  UPDATE event_tickets
+  SET checked_in_at = NOW(),
+      checked_in_by = auth.uid()
+  WHERE id = v_ticket.id
+  RETURNING * INTO v_ticket;
+
+  UPDATE event_registrations
+  SET status = 'attended'
+  WHERE user_id = v_ticket.user_id
+    AND event_id = p_event_id
+    AND status = 'registered';
+
+  RETURN jsonb_build_object(
+    'result', 'admitted',
+    'ticket_id', v_ticket.id,
+    'code', v_ticket.code,
+    'holder_name', v_ticket.holder_name,
+    'ticket_type', COALESCE(v_type_name, 'General admission'),
+    'admits', v_ticket.admits,
+    'checked_in_at', v_ticket.checked_in_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_in_event_ticket(UUID, TEXT) TO authenticated;
+
+-- Tickets issued and people admitted so far, for the door view
+CREATE OR REPLACE FUNCTION get_event_attendance(p_event_id UUID)
+RETURNS TABLE (
+  tickets_issued BIGINT,
+  tickets_checked_in BIGINT,
+  people_expected BIGINT,
+  people_admitted BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM events
+    WHERE id = p_event_id AND organizer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the event organizer can see attendance';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE t.checked_in_at IS NOT NULL),
+    COALESCE(SUM(t.admits), 0)::BIGINT,
+    COALESCE(SUM(t.admits) FILTER (WHERE t.checked_in_at IS NOT NULL), 0)::BIGINT
+  FROM event_tickets t
+  WHERE t.event_id = p_event_id
+    AND t.status = 'valid';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_event_attendance(UUID) TO authenticated;
+
+-- ===================================================================
+-- ROW LEVEL SECURITY
+-- Tickets are written by claim_free_event_tickets, the payment webhook
+-- and check_in_event_ticket.
+-- ===================================================================
+
+ALTER TABLE event_ticket_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_tickets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view event_ticket_types" ON event_ticket_types;
+CREATE POLICY "Anyone can view event_ticket_types"
+ON event_ticket_types FOR SELECT
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Organizers can manage event_ticket_types" ON event_ticket_types;
+CREATE POLICY "Organizers can manage event_ticket_types"
+ON event_ticket_types FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE id = event_ticket_types.event_id AND organizer_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE id = event_ticket_types.event_id AND organizer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage event_ticket_types" ON event_ticket_types;
+CREATE POLICY "Service role can manage event_ticket_types"
+ON event_ticket_types FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Users can view own event_tickets" ON event_tickets;
+CREATE POLICY "Users can view own event_tickets"
+ON event_tickets FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Organizers can view event_tickets" ON event_tickets;
+CREATE POLICY "Organizers can view event_tickets"
+ON event_tickets FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE id = event_tickets.event_id AND organizer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage event_tickets" ON event_tickets;
+CREATE POLICY "Service role can manage event_tickets"
+ON event_tickets FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
+
+-- Live attendance at the door through Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE event_tickets;
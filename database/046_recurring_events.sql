@@ -0,0 +1,147 @@
+-- ===================================================================
+-- RECURRING EVENTS
+-- An event can repeat on an iCalendar recurrence rule (RFC 5545 RRULE,
+-- without the "RRULE:" prefix), e.g. FREQ=WEEKLY;BYDAY=TU or
+-- FREQ=MONTHLY;BYDAY=1SA;COUNT=6. event_date/event_time are the first
+-- occurrence. Skipped occurrences are listed in recurrence_exdates;
+-- a single occurrence can be moved or changed with a row in
+-- event_occurrence_overrides, keyed by the date it would have had.
+--
+-- Occurrences are expanded in the client (src/lib/eventRecurrence.ts)
+-- and exported to calendar apps as RRULE/EXDATE/RECURRENCE-ID.
+-- ===================================================================
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence_exdates DATE[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_recurrence_rule_check;
+ALTER TABLE events ADD CONSTRAINT events_recurrence_rule_check CHECK (
+  recurrence_rule IS NULL
+  OR recurrence_rule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Z0-9,+-]+)*$'
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_recurring ON events(status) WHERE recurrence_rule IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS event_occurrence_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  -- The date the occurrence has in the series (RECURRENCE-ID)
+  occurrence_date DATE NOT NULL,
+  -- Where the occurrence moved to
+  event_date DATE NOT NULL,
+  event_time TIME,
+  -- NULL: same as the series
+  title TEXT,
+  location TEXT,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (event_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_occurrence_overrides_event ON event_occurrence_overrides(event_id, occurrence_date);
+
+DROP TRIGGER IF EXISTS trigger_event_occurrence_overrides_updated_at ON event_occurrence_overrides;
+CREATE TRIGGER trigger_event_occurrence_overrides_updated_at
+BEFORE UPDATE ON event_occurrence_overrides
+FOR EACH ROW
+EXECUTE FUNCTION update_curriculum_updated_at();
+
+-- A reminder for a series is for one occurrence: the date it has in the
+-- series (see event_occurrence_overrides). Reminder emails show that
+-- occurrence, moved or changed by its override. Only the next occurrence
+-- is reminded when the reminder is set.
+ALTER TABLE public.event_reminders ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+-- ===================================================================
+-- Overrides and exceptions only make sense on a recurring event, and a
+-- skipped occurrence has nothing left to override
+-- ===================================================================
+
+CREATE OR REPLACE FUNCTION check_event_occurrence_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = NEW.event_id;
+
+  IF v_event.recurrence_rule IS NULL THEN
+    RAISE EXCEPTION 'Only occurrences of a recurring event can be changed';
+  END IF;
+
+  IF NEW.occurrence_date < v_event.event_date THEN
+    RAISE EXCEPTION 'The series starts on %', v_event.event_date;
+  END IF;
+
+  IF NEW.occurrence_date = ANY (v_event.recurrence_exdates) THEN
+    RAISE EXCEPTION 'This occurrence is skipped';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_check_event_occurrence_override ON event_occurrence_overrides;
+CREATE TRIGGER trigger_check_event_occurrence_override
+BEFORE INSERT OR UPDATE ON event_occurrence_overrides
+FOR EACH ROW
+EXECUTE FUNCTION check_event_occurrence_override();
+
+CREATE OR REPLACE FUNCTION clear_event_recurrence_exceptions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.recurrence_rule IS NULL THEN
+    NEW.recurrence_exdates := '{}';
+    DELETE FROM event_occurrence_overrides WHERE event_id = NEW.id;
+  ELSE
+    DELETE FROM event_occurrence_overrides
+    WHERE event_id = NEW.id
+      AND occurrence_date = ANY (NEW.recurrence_exdates);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_clear_event_recurrence_exceptions ON events;
+CREATE TRIGGER trigger_clear_event_recurrence_exceptions
+BEFORE UPDATE OF recurrence_rule, recurrence_exdates ON events
+FOR EACH ROW
+EXECUTE FUNCTION clear_event_recurrence_exceptions();
+
+-- ===================================================================
+-- RLS
+-- ===================================================================
+
+ALTER TABLE event_occurrence_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view event_occurrence_overrides" ON event_occurrence_overrides;
+CREATE POLICY "Anyone can view event_occurrence_overrides"
+ON event_occurrence_overrides FOR SELECT
+USING (TRUE);
+
+DROP POLICY IF EXISTS "Organizers can manage event_occurrence_overrides" ON event_occurrence_overrides;
+CREATE POLICY "Organizers can manage event_occurrence_overrides"
+ON event_occurrence_overrides FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE id = event_occurrence_overrides.event_id AND organizer_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM events
+    WHERE id = event_occurrence_overrides.event_id AND organizer_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Service role can manage event_occurrence_overrides" ON event_occurrence_overrides;
+CREATE POLICY "Service role can manage event_occurrence_overrides"
+ON event_occurrence_overrides FOR ALL
+USING (auth.role() = 'service_role')
+WITH CHECK (auth.role() = 'service_role');
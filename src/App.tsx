@@ -6,6 +6,7 @@ import LandingPage from './pages/LandingPage';
 import SignUp from './pages/SignUp';
 import SignIn from './pages/SignIn';
 import Dashboard from './pages/Dashboard';
+import Referrals from './pages/Referrals';
 import Account from './pages/Account';
 import FeedPage from './pages/FeedPage';
 import Media from './pages/Media';
@@ -26,6 +27,7 @@ import Connect from './pages/Connect';
 import Settings from './pages/Settings';
 import Books from './pages/Books';
 import BooksCallback from './pages/BooksCallback';
+import VerifyCertificate from './pages/VerifyCertificate';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -79,6 +81,14 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/referrals"
+          element={
+            <ProtectedRoute>
+              <Referrals />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/feed"
           element={
@@ -116,8 +126,10 @@ function App() {
         {/* Masterclass routes */}
         <Route path="/masterclass" element={<Masterclass />} />
         <Route path="/course/:courseId" element={<CourseDetailPage />} />
+        <Route path="/verify/:certificateNumber" element={<VerifyCertificate />} />
         <Route path="/career-guidance/:courseId" element={<CareerGuidancePage />} />
         <Route path="/enrollment-callback" element={<EnrollmentCallback />} />
+        <Route path="/order-callback" element={<EnrollmentCallback />} />
         <Route path="/membership-callback" element={<MembershipCallback />} />
         {/* Help Center route */}
         <Route path="/help-center" element={<HelpCenter />} />
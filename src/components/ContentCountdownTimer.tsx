@@ -1,17 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { AlertTriangle, Undo2 } from 'lucide-react';
+import { AlertTriangle, Clock, Undo2 } from 'lucide-react';
 
+// Counts down either to a content item's auto-deletion (autoDeleteAt, with
+// a save button) or to a drip-scheduled lesson's release (releaseAt)
 interface ContentCountdownTimerProps {
-  autoDeleteAt: string;
-  onSave: () => void;
+  autoDeleteAt?: string;
+  onSave?: () => void;
   isSaving?: boolean;
+  releaseAt?: string;
+  /** Called once when the release countdown reaches zero */
+  onReleased?: () => void;
 }
 
 export default function ContentCountdownTimer({
   autoDeleteAt,
   onSave,
   isSaving = false,
+  releaseAt,
+  onReleased,
 }: ContentCountdownTimerProps) {
+  const targetDate = releaseAt || autoDeleteAt;
+
   const [timeRemaining, setTimeRemaining] = useState<{
     days: number;
     hours: number;
@@ -20,9 +29,12 @@ export default function ContentCountdownTimer({
   } | null>(null);
 
   useEffect(() => {
+    if (!targetDate) return;
+
+    let hasFired = false;
     const updateCountdown = () => {
       const now = new Date();
-      const deleteDate = new Date(autoDeleteAt);
+      const deleteDate = new Date(targetDate);
       const diffTime = deleteDate.getTime() - now.getTime();
 
       if (diffTime <= 0) {
@@ -32,6 +44,10 @@ export default function ContentCountdownTimer({
           minutes: 0,
           seconds: 0,
         });
+        if (releaseAt && onReleased && !hasFired) {
+          hasFired = true;
+          onReleased();
+        }
         return;
       }
 
@@ -52,10 +68,28 @@ export default function ContentCountdownTimer({
     const interval = setInterval(updateCountdown, 1000);
 
     return () => clearInterval(interval);
-  }, [autoDeleteAt]);
+  }, [targetDate, releaseAt, onReleased]);
 
   if (!timeRemaining) return null;
 
+  if (releaseAt) {
+    return (
+      <div className="p-4 bg-purple-500/10 border border-purple-500/30 rounded-lg">
+        <div className="flex items-start gap-3">
+          <Clock className="w-5 h-5 text-purple-400 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 min-w-0">
+            <h4 className="text-sm font-semibold text-purple-300 mb-1">This lesson hasn't been released yet</h4>
+            <p className="text-xs text-purple-200 mb-2">It unlocks in:</p>
+            <div className="text-sm font-mono text-purple-300">
+              {timeRemaining.days}d {String(timeRemaining.hours).padStart(2, '0')}h{' '}
+              {String(timeRemaining.minutes).padStart(2, '0')}m {String(timeRemaining.seconds).padStart(2, '0')}s
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
       <div className="flex items-start gap-3 mb-3">
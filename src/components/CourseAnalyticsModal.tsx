@@ -0,0 +1,336 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, Loader, Download, Users, CheckCircle, Clock, Award } from 'lucide-react';
+import {
+  AnalyticsDateRange,
+  AnalyticsInterval,
+  CourseAnalyticsReport,
+  downloadAnalyticsCsv,
+  formatWatchTime,
+  getCourseAnalytics,
+} from '../lib/courseAnalyticsService';
+
+interface CourseAnalyticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  'px-3 py-2 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white text-sm focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '–';
+}
+
+/**
+ * Instructor analytics for one course or all of the instructor's
+ * courses, with date filters and CSV export
+ */
+export default function CourseAnalyticsModal({ isOpen, onClose }: CourseAnalyticsModalProps) {
+  const [courses, setCourses] = useState<{ id: string; title: string }[]>([]);
+  const [courseId, setCourseId] = useState<string>('');
+  const [range, setRange] = useState<AnalyticsDateRange>({ from: daysAgo(29), to: daysAgo(0) });
+  const [trendInterval, setTrendInterval] = useState<AnalyticsInterval>('day');
+  const [report, setReport] = useState<CourseAnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const result = await getCourseAnalytics(courseId || null, range, trendInterval);
+
+    setLoading(false);
+
+    if (!result.success || !result.report) {
+      setError(result.error || 'Failed to load analytics');
+      return;
+    }
+
+    setReport(result.report);
+    if (!courseId) {
+      setCourses(result.report.overview.map((row) => ({ id: row.course_id, title: row.course_title })));
+    }
+  }, [courseId, range, trendInterval]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadReport();
+    }
+  }, [isOpen, loadReport]);
+
+  if (!isOpen) return null;
+
+  const totals = (report?.overview || []).reduce(
+    (sum, row) => ({
+      enrollments: sum.enrollments + row.enrollments,
+      completions: sum.completions + row.completions,
+      learnersStarted: sum.learnersStarted + row.learners_started,
+      watchSeconds: sum.watchSeconds + row.avg_watch_seconds * row.learners_started,
+      certificates: sum.certificates + row.certificates_issued - row.certificates_revoked,
+    }),
+    { enrollments: 0, completions: 0, learnersStarted: 0, watchSeconds: 0, certificates: 0 }
+  );
+
+  const revenueByCurrency = Object.values(
+    (report?.revenue || []).reduce<
+      Record<string, { currency: string; gross: number; discount: number; refunded: number; net: number; promoOrders: number }>
+    >((acc, row) => {
+      const entry = acc[row.currency] || { currency: row.currency, gross: 0, discount: 0, refunded: 0, net: 0, promoOrders: 0 };
+      entry.gross += row.gross_amount;
+      entry.discount += row.promo_discount;
+      entry.refunded += row.refunded_amount;
+      entry.net += row.net_revenue;
+      entry.promoOrders += row.promo_orders;
+      acc[row.currency] = entry;
+      return acc;
+    }, {})
+  );
+
+  const maxTrend = Math.max(1, ...(report?.trend || []).map((point) => point.enrollments));
+  const selectedTitle = courses.find((course) => course.id === courseId)?.title || 'All courses';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">Course Analytics</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3 mb-6">
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1">Course</label>
+            <select value={courseId} onChange={(e) => setCourseId(e.target.value)} className={inputClass}>
+              <option value="" className="bg-gray-800">All courses</option>
+              {courses.map((course) => (
+                <option key={course.id} value={course.id} className="bg-gray-800">
+                  {course.title}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1">From</label>
+            <input
+              type="date"
+              value={range.from}
+              max={range.to || undefined}
+              onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1">To</label>
+            <input
+              type="date"
+              value={range.to}
+              min={range.from || undefined}
+              onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-400 mb-1">Group by</label>
+            <select
+              value={trendInterval}
+              onChange={(e) => setTrendInterval(e.target.value as AnalyticsInterval)}
+              className={inputClass}
+            >
+              <option value="day" className="bg-gray-800">Day</option>
+              <option value="week" className="bg-gray-800">Week</option>
+              <option value="month" className="bg-gray-800">Month</option>
+            </select>
+          </div>
+          <button
+            onClick={() => report && downloadAnalyticsCsv(report, range, selectedTitle)}
+            disabled={!report || loading}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+        )}
+
+        {loading && !report ? (
+          <div className="flex justify-center py-16">
+            <Loader className="w-6 h-6 text-rose-400 animate-spin" />
+          </div>
+        ) : report ? (
+          <div className={`space-y-8 ${loading ? 'opacity-60' : ''}`}>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-4 bg-white/5 rounded-xl">
+                <Users className="w-5 h-5 text-rose-400 mb-2" />
+                <div className="text-2xl font-bold text-white">{totals.enrollments}</div>
+                <div className="text-xs text-slate-400">Enrollments</div>
+              </div>
+              <div className="p-4 bg-white/5 rounded-xl">
+                <CheckCircle className="w-5 h-5 text-rose-400 mb-2" />
+                <div className="text-2xl font-bold text-white">{totals.completions}</div>
+                <div className="text-xs text-slate-400">
+                  Completions · {percent(totals.completions, totals.enrollments)}
+                </div>
+              </div>
+              <div className="p-4 bg-white/5 rounded-xl">
+                <Clock className="w-5 h-5 text-rose-400 mb-2" />
+                <div className="text-2xl font-bold text-white">
+                  {formatWatchTime(totals.learnersStarted > 0 ? totals.watchSeconds / totals.learnersStarted : 0)}
+                </div>
+                <div className="text-xs text-slate-400">Avg watch time per learner</div>
+              </div>
+              <div className="p-4 bg-white/5 rounded-xl">
+                <Award className="w-5 h-5 text-rose-400 mb-2" />
+                <div className="text-2xl font-bold text-white">{totals.certificates}</div>
+                <div className="text-xs text-slate-400">Certificates issued</div>
+              </div>
+            </div>
+
+            <section>
+              <h3 className="text-lg font-semibold text-white mb-3">Enrollments over time</h3>
+              {report.trend.length === 0 ? (
+                <p className="text-sm text-slate-400">No enrollments yet.</p>
+              ) : (
+                <div className="flex items-end gap-1 h-40 p-3 bg-white/5 rounded-xl overflow-x-auto">
+                  {report.trend.map((point) => (
+                    <div
+                      key={point.period_start}
+                      title={`${point.period_start}: ${point.enrollments} enrolled, ${point.completions} completed`}
+                      className="flex-1 min-w-[6px] bg-gradient-to-t from-rose-500 to-purple-600 rounded-t"
+                      style={{ height: `${(point.enrollments / maxTrend) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-lg font-semibold text-white mb-3">Revenue</h3>
+              {revenueByCurrency.length === 0 ? (
+                <p className="text-sm text-slate-400">No paid enrollments in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-400 uppercase">
+                      <tr>
+                        <th className="py-2 pr-4">Currency</th>
+                        <th className="py-2 pr-4 text-right">Gross</th>
+                        <th className="py-2 pr-4 text-right">Promo discounts</th>
+                        <th className="py-2 pr-4 text-right">Refunds</th>
+                        <th className="py-2 text-right">Net</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-200 divide-y divide-slate-700/50">
+                      {revenueByCurrency.map((row) => (
+                        <tr key={row.currency}>
+                          <td className="py-2 pr-4 font-semibold">{row.currency}</td>
+                          <td className="py-2 pr-4 text-right">{row.gross.toLocaleString()}</td>
+                          <td className="py-2 pr-4 text-right">
+                            −{row.discount.toLocaleString()}
+                            <span className="text-xs text-slate-400"> ({row.promoOrders} orders)</span>
+                          </td>
+                          <td className="py-2 pr-4 text-right">−{row.refunded.toLocaleString()}</td>
+                          <td className="py-2 text-right font-semibold text-white">{row.net.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+
+            {courseId ? (
+              <section>
+                <h3 className="text-lg font-semibold text-white mb-1">Completion funnel</h3>
+                <p className="text-xs text-slate-400 mb-3">
+                  Of the {report.funnel[0]?.cohort_size ?? 0} students who enrolled in this period
+                </p>
+                {report.funnel.length === 0 ? (
+                  <p className="text-sm text-slate-400">This course has no lessons yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {report.funnel.map((step) => {
+                      const completedShare = step.cohort_size > 0 ? (step.completed / step.cohort_size) * 100 : 0;
+                      const startedShare = step.cohort_size > 0 ? (step.started / step.cohort_size) * 100 : 0;
+
+                      return (
+                        <div key={step.lesson_id}>
+                          <div className="flex items-center justify-between text-xs mb-1">
+                            <span className="text-slate-200 truncate">
+                              {step.lesson_number}. {step.lesson_title}
+                              <span className="text-slate-500"> · {step.section_title}</span>
+                            </span>
+                            <span className="text-slate-400 flex-shrink-0 ml-3">
+                              {step.completed} completed · {step.started} started
+                              {step.lesson_type === 'video' && ` · ${formatWatchTime(step.avg_watch_seconds)} avg`}
+                            </span>
+                          </div>
+                          <div className="relative h-2 bg-white/5 rounded-full overflow-hidden">
+                            <div
+                              className="absolute inset-y-0 left-0 bg-purple-500/30"
+                              style={{ width: `${startedShare}%` }}
+                            />
+                            <div
+                              className="absolute inset-y-0 left-0 bg-gradient-to-r from-rose-500 to-purple-600"
+                              style={{ width: `${completedShare}%` }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </section>
+            ) : (
+              <section>
+                <h3 className="text-lg font-semibold text-white mb-3">By course</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-400 uppercase">
+                      <tr>
+                        <th className="py-2 pr-4">Course</th>
+                        <th className="py-2 pr-4 text-right">Enrolled</th>
+                        <th className="py-2 pr-4 text-right">Completed</th>
+                        <th className="py-2 pr-4 text-right">Avg watch</th>
+                        <th className="py-2 text-right">Certificates</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-200 divide-y divide-slate-700/50">
+                      {report.overview.map((row) => (
+                        <tr
+                          key={row.course_id}
+                          onClick={() => setCourseId(row.course_id)}
+                          className="cursor-pointer hover:bg-white/5"
+                        >
+                          <td className="py-2 pr-4">{row.course_title}</td>
+                          <td className="py-2 pr-4 text-right">{row.enrollments}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {row.completions} ({percent(row.completions, row.enrollments)})
+                          </td>
+                          <td className="py-2 pr-4 text-right">{formatWatchTime(row.avg_watch_seconds)}</td>
+                          <td className="py-2 text-right">{row.certificates_issued - row.certificates_revoked}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-slate-400 mt-2">Pick a course to see where students drop off.</p>
+              </section>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -1,104 +1,231 @@
-import React, { useState, useEffect } from 'react';
-import { BookOpen, CheckCircle, Lock, AlertCircle, Download, Play } from 'lucide-react';
-import VideoPlaybackModal from './VideoPlaybackModal';
-
-interface Lesson {
-  id: number;
-  title: string;
-  duration: string;
-  completed: boolean;
-  videoUrl?: string;
-  description?: string;
-  order: number;
-  video_id?: string;
-  thumbnail_url?: string;
-  content_url?: string;
-}
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  BookOpen,
+  CheckCircle,
+  ClipboardList,
+  Lock,
+  AlertCircle,
+  Download,
+  Eye,
+  FileText,
+  Film,
+  ShieldCheck,
+} from 'lucide-react';
+import MuxPlayer from './MuxPlayer';
+import ContentCountdownTimer from './ContentCountdownTimer';
+import QuizTaker from './QuizTaker';
+import { useAuth } from '../context/AuthContext';
+import {
+  CourseLesson,
+  CourseSection,
+  formatLessonDuration,
+  getCourseCurriculum,
+  LessonType,
+} from '../lib/curriculumService';
+import {
+  EnrollmentProgress,
+  getLessonProgress,
+  LessonProgress,
+  recordLessonProgress,
+} from '../lib/lessonProgressService';
+import { getCourseQuizzes, QuizResult, QuizStatus } from '../lib/quizService';
+import {
+  Certificate,
+  CertificateResult,
+  downloadCertificate,
+  getCertificateVerificationUrl,
+} from '../lib/certificateService';
 
 interface CourseLessonViewerProps {
   courseId: string;
-  courseLessonsCount: number;
-  enrollmentProgress: {
-    lessons_completed: number;
-    progress_percentage: number;
-  };
   isEnrolled: boolean;
-  onProgressUpdate?: (lessonsCompleted: number, progressPercentage: number) => void;
+  /** Called with the server-derived enrollment progress when a lesson or quiz is completed */
+  onProgressUpdate?: (progress: EnrollmentProgress) => void;
+  /** Issues the certificate once the course is completed */
+  onGetCertificate?: () => Promise<CertificateResult>;
 }
 
+const LESSON_ICONS: Record<LessonType, JSX.Element> = {
+  video: <Film className="w-4 h-4 text-purple-400 flex-shrink-0" />,
+  article: <FileText className="w-4 h-4 text-purple-400 flex-shrink-0" />,
+  resource: <Download className="w-4 h-4 text-purple-400 flex-shrink-0" />,
+};
+
 export default function CourseLessonViewer({
   courseId,
-  courseLessonsCount,
-  enrollmentProgress,
   isEnrolled,
   onProgressUpdate,
+  onGetCertificate,
 }: CourseLessonViewerProps) {
-  const [lessons, setLessons] = useState<Lesson[]>([]);
-  const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null);
-  const [showCertificateOption, setShowCertificateOption] = useState(false);
-  const [showVideoPlayer, setShowVideoPlayer] = useState(false);
+  const { user } = useAuth();
+  const [sections, setSections] = useState<CourseSection[]>([]);
+  const [quizzes, setQuizzes] = useState<QuizStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Tracked by id so a refreshed curriculum (drip lessons unlocking) shows through
+  const [selectedLessonId, setSelectedLessonId] = useState<string | null>(null);
+  const [selectedQuizId, setSelectedQuizId] = useState<string | null>(null);
+  const [progressByLesson, setProgressByLesson] = useState<Record<string, LessonProgress>>({});
+  const [isCompletingLesson, setIsCompletingLesson] = useState(false);
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [isIssuingCertificate, setIsIssuingCertificate] = useState(false);
+  const [certificateError, setCertificateError] = useState<string | null>(null);
+
+  // Lessons in course order, used for progress
+  const lessons = useMemo(() => sections.flatMap((section) => section.lessons), [sections]);
+  const selectedLesson = lessons.find((lesson) => lesson.id === selectedLessonId) || null;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
 
-  // Generate mock lessons based on course lessons count
+    Promise.all([
+      getCourseCurriculum(courseId),
+      isEnrolled ? getLessonProgress(courseId) : {},
+      getCourseQuizzes(courseId, isEnrolled ? user?.id : undefined),
+    ]).then(([curriculum, progress, courseQuizzes]) => {
+      if (cancelled) return;
+      setSections(curriculum);
+      setProgressByLesson(progress);
+      setQuizzes(courseQuizzes);
+      setSelectedLessonId(null);
+      setSelectedQuizId(null);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, isEnrolled, user?.id]);
+
+  const isLessonCompleted = (lesson: CourseLesson) => isEnrolled && !!progressByLesson[lesson.id]?.is_completed;
+
+  // Auto-select the first incomplete lesson if enrolled, the first free preview otherwise
   useEffect(() => {
-    if (courseLessonsCount > 0) {
-      const mockLessons: Lesson[] = Array.from({ length: courseLessonsCount }, (_, i) => ({
-        id: i + 1,
-        title: `Lesson ${i + 1}: ${['Introduction', 'Fundamentals', 'Intermediate Concepts', 'Advanced Topics', 'Capstone Project', 'Q&A Session'][i % 6]}`,
-        duration: `${30 + i * 5} min`,
-        completed: i < enrollmentProgress.lessons_completed,
-        description: `Learn the concepts and practices for lesson ${i + 1} of this course.`,
-        order: i + 1,
-      }));
-      setLessons(mockLessons);
-      
-      // Auto-select first lesson if not enrolled, first incomplete lesson if enrolled
-      if (isEnrolled && mockLessons.length > 0) {
-        const firstIncomplete = mockLessons.find((l) => !l.completed) || mockLessons[0];
-        setSelectedLesson(firstIncomplete);
-      }
+    if (selectedLesson || selectedQuizId || lessons.length === 0) return;
+
+    const initial = isEnrolled
+      ? lessons.find((lesson) => !progressByLesson[lesson.id]?.is_completed) || lessons[0]
+      : lessons.find((lesson) => !lesson.is_locked);
+    if (initial) setSelectedLessonId(initial.id);
+  }, [lessons, selectedLesson, selectedQuizId, isEnrolled, progressByLesson]);
+
+  const selectLesson = (lesson: CourseLesson) => {
+    setSelectedLessonId(lesson.id);
+    setSelectedQuizId(null);
+  };
+
+  const selectQuiz = (quizId: string) => {
+    setSelectedQuizId(quizId);
+    setSelectedLessonId(null);
+  };
+
+  // Re-read the outline once a drip-scheduled lesson may have unlocked
+  const refreshCurriculum = useCallback(async () => {
+    setSections(await getCourseCurriculum(courseId));
+  }, [courseId]);
+
+  const applyRecordedProgress = async (
+    lessonId: string,
+    positionSeconds: number,
+    durationSeconds: number | null,
+    watchedSeconds: number
+  ) => {
+    const wasCompleted = !!progressByLesson[lessonId]?.is_completed;
+    const recorded = await recordLessonProgress(lessonId, positionSeconds, durationSeconds, watchedSeconds);
+    if (!recorded) return null;
+
+    setProgressByLesson((prev) => ({ ...prev, [lessonId]: recorded }));
+
+    // Lessons released "after completing a lesson" may unlock now
+    if (recorded.is_completed && !wasCompleted && lessons.some((lesson) => lesson.is_drip_locked)) {
+      await refreshCurriculum();
     }
 
-    // Check if course is completed
-    if (isEnrolled && enrollmentProgress.progress_percentage === 100) {
-      setShowCertificateOption(true);
+    if (recorded.enrollment_progress && onProgressUpdate) {
+      onProgressUpdate(recorded.enrollment_progress);
     }
-  }, [courseLessonsCount, enrollmentProgress, isEnrolled]);
 
-  const handleLessonComplete = () => {
-    if (!selectedLesson) return;
+    return recorded;
+  };
 
-    const updatedLessons = lessons.map((lesson) =>
-      lesson.id === selectedLesson.id ? { ...lesson, completed: true } : lesson
-    );
+  const handleQuizSubmitted = async (result: QuizResult) => {
+    if (result.enrollment_progress && onProgressUpdate) {
+      onProgressUpdate(result.enrollment_progress);
+    }
+    setQuizzes(await getCourseQuizzes(courseId, user?.id));
+  };
 
-    setLessons(updatedLessons);
+  const handleVideoProgress = (positionSeconds: number, durationSeconds: number, watchedSeconds: number) => {
+    if (!isEnrolled || !selectedLesson) return;
+    applyRecordedProgress(selectedLesson.id, positionSeconds, durationSeconds, watchedSeconds);
+  };
 
-    const completedCount = updatedLessons.filter((l) => l.completed).length;
-    const progressPercentage = Math.round((completedCount / lessons.length) * 100);
+  // Articles and resources have nothing to watch; opening and confirming completes them
+  const handleLessonComplete = async () => {
+    if (!selectedLesson || lessons.length === 0) return;
 
-    if (onProgressUpdate) {
-      onProgressUpdate(completedCount, progressPercentage);
-    }
+    setIsCompletingLesson(true);
+    const recorded = await applyRecordedProgress(selectedLesson.id, 0, null, 0);
+    setIsCompletingLesson(false);
+    if (!recorded?.is_completed) return;
 
     // Move to next lesson
-    const nextLesson = updatedLessons.find((l) => l.order > (selectedLesson?.order || 0) && !l.completed);
+    const currentIndex = lessons.findIndex((l) => l.id === selectedLesson.id);
+    const nextLesson = lessons
+      .slice(currentIndex + 1)
+      .find((l) => l.id !== selectedLesson.id && !progressByLesson[l.id]?.is_completed);
     if (nextLesson) {
-      setSelectedLesson(nextLesson);
-    } else if (progressPercentage === 100) {
-      setShowCertificateOption(true);
+      selectLesson(nextLesson);
     }
   };
 
-  if (!isEnrolled) {
+  const renderQuizRow = (quiz: QuizStatus) => (
+    <button
+      key={quiz.id}
+      onClick={() => isEnrolled && selectQuiz(quiz.id)}
+      disabled={!isEnrolled}
+      className={`w-full p-4 rounded-lg text-left transition-all ${
+        selectedQuizId === quiz.id
+          ? 'bg-gradient-to-r from-rose-500/20 to-purple-600/20 border border-purple-400/50'
+          : 'bg-gray-800/50 hover:bg-gray-800 border border-gray-700'
+      } ${!isEnrolled ? 'opacity-60 cursor-not-allowed' : ''}`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <ClipboardList className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+            <p className="text-white font-medium">{quiz.title}</p>
+            {quiz.is_required && <span className="text-xs text-yellow-300">Required</span>}
+          </div>
+          <p className="text-sm text-gray-400 mt-1">
+            Pass mark {quiz.pass_mark_percent}%
+            {quiz.best_score_percent !== null && ` · best ${Math.round(quiz.best_score_percent)}%`}
+          </p>
+        </div>
+        <div className="flex-shrink-0 ml-4">
+          {!isEnrolled ? (
+            <Lock className="w-5 h-5 text-gray-500" />
+          ) : quiz.passed ? (
+            <CheckCircle className="w-5 h-5 text-green-400" />
+          ) : (
+            <div className="w-5 h-5 rounded-full border-2 border-gray-600"></div>
+          )}
+        </div>
+      </div>
+    </button>
+  );
+
+  if (loading) {
     return (
-      <div className="glass-effect p-6 rounded-2xl text-center">
-        <Lock className="w-12 h-12 text-gray-400 mx-auto mb-3" />
-        <p className="text-gray-300">Enroll in this course to access lessons</p>
+      <div className="glass-effect p-6 rounded-2xl animate-pulse">
+        <div className="h-6 bg-gray-800 rounded w-1/3 mb-4"></div>
+        <div className="h-16 bg-gray-800 rounded mb-2"></div>
+        <div className="h-16 bg-gray-800 rounded"></div>
       </div>
     );
   }
 
-  if (courseLessonsCount === 0) {
+  if (lessons.length === 0) {
     return (
       <div className="glass-effect p-6 rounded-2xl">
         <AlertCircle className="w-6 h-6 text-yellow-400 inline mr-2" />
@@ -107,93 +234,216 @@ export default function CourseLessonViewer({
     );
   }
 
+  const completedCount = lessons.filter((lesson) => progressByLesson[lesson.id]?.is_completed).length;
+  const progressPercentage = isEnrolled ? Math.round((completedCount / lessons.length) * 100) : 0;
+  const selectedProgress = selectedLesson ? progressByLesson[selectedLesson.id] : undefined;
+  const selectedQuiz = quizzes.find((quiz) => quiz.id === selectedQuizId);
+  const requiredQuizzes = quizzes.filter((quiz) => quiz.is_required);
+  const passedRequiredCount = requiredQuizzes.filter((quiz) => quiz.passed).length;
+  // Completion needs every lesson and every required quiz (mirrors refresh_enrollment_progress)
+  const isCourseCompleted =
+    isEnrolled && completedCount === lessons.length && passedRequiredCount === requiredQuizzes.length;
+  const finalQuizzes = quizzes.filter((quiz) => !quiz.section_id && !quiz.lesson_id);
+
+  // Why a drip-locked lesson is still locked
+  const describeRelease = (lesson: CourseLesson) => {
+    if (lesson.available_at) {
+      return `Unlocks ${new Date(lesson.available_at).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })}`;
+    }
+
+    const section = sections.find((s) => s.id === lesson.section_id);
+    const prerequisite = [
+      lesson.release_rule === 'after_lesson' ? lesson.release_after_lesson_id : null,
+      section?.release_rule === 'after_lesson' ? section.release_after_lesson_id : null,
+    ]
+      .map((id) => lessons.find((l) => l.id === id))
+      .find((l) => l && !isLessonCompleted(l));
+
+    return prerequisite
+      ? `Unlocks after you complete "${prerequisite.title}"`
+      : 'Unlocks after you complete an earlier lesson';
+  };
+
+  const handleGetCertificate = async () => {
+    if (certificate) {
+      downloadCertificate(certificate);
+      return;
+    }
+    if (!onGetCertificate) return;
+
+    setIsIssuingCertificate(true);
+    setCertificateError(null);
+    const result = await onGetCertificate();
+    setIsIssuingCertificate(false);
+
+    if (!result.success || !result.certificate) {
+      setCertificateError(result.error || 'Failed to issue certificate');
+      return;
+    }
+
+    setCertificate(result.certificate);
+    downloadCertificate(result.certificate);
+  };
+
   return (
     <div className="space-y-6">
       <div className="glass-effect p-6 rounded-2xl">
         <h3 className="text-2xl font-bold text-white mb-6">Course Lessons</h3>
 
         {/* Progress Overview */}
-        <div className="mb-6 p-4 bg-purple-400/10 rounded-lg">
-          <div className="flex justify-between items-center mb-2">
-            <span className="text-sm text-gray-400">Overall Progress</span>
-            <span className="text-sm font-semibold text-white">
-              {enrollmentProgress.progress_percentage}%
-            </span>
+        {isEnrolled ? (
+          <div className="mb-6 p-4 bg-purple-400/10 rounded-lg">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm text-gray-400">Overall Progress</span>
+              <span className="text-sm font-semibold text-white">{progressPercentage}%</span>
+            </div>
+            <div className="w-full bg-gray-700 rounded-full h-2">
+              <div
+                className="bg-gradient-to-r from-rose-500 to-purple-600 h-2 rounded-full transition-all"
+                style={{ width: `${progressPercentage}%` }}
+              ></div>
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+              {completedCount} of {lessons.length} lessons completed
+              {requiredQuizzes.length > 0 &&
+                ` · ${passedRequiredCount} of ${requiredQuizzes.length} required quizzes passed`}
+            </p>
           </div>
-          <div className="w-full bg-gray-700 rounded-full h-2">
-            <div
-              className="bg-gradient-to-r from-rose-500 to-purple-600 h-2 rounded-full transition-all"
-              style={{ width: `${enrollmentProgress.progress_percentage}%` }}
-            ></div>
+        ) : (
+          <div className="mb-6 p-4 bg-purple-400/10 rounded-lg flex items-center gap-2">
+            <Lock className="w-4 h-4 text-gray-400" />
+            <p className="text-sm text-gray-300">Enroll in this course to unlock every lesson. Preview lessons are free to watch.</p>
           </div>
-          <p className="text-xs text-gray-400 mt-2">
-            {enrollmentProgress.lessons_completed} of {courseLessonsCount} lessons completed
-          </p>
-        </div>
+        )}
 
         {/* Lessons List */}
-        <div className="space-y-2">
-          {lessons.map((lesson) => (
-            <button
-              key={lesson.id}
-              onClick={() => setSelectedLesson(lesson)}
-              className={`w-full p-4 rounded-lg text-left transition-all ${
-                selectedLesson?.id === lesson.id
-                  ? 'bg-gradient-to-r from-rose-500/20 to-purple-600/20 border border-purple-400/50'
-                  : 'bg-gray-800/50 hover:bg-gray-800 border border-gray-700'
-              }`}
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center gap-2">
-                    <BookOpen className="w-4 h-4 text-purple-400 flex-shrink-0" />
-                    <p className="text-white font-medium">{lesson.title}</p>
-                  </div>
-                  <p className="text-sm text-gray-400 mt-1">{lesson.duration}</p>
-                </div>
-                <div className="flex-shrink-0 ml-4">
-                  {lesson.completed ? (
-                    <CheckCircle className="w-5 h-5 text-green-400" />
-                  ) : (
-                    <div className="w-5 h-5 rounded-full border-2 border-gray-600"></div>
-                  )}
-                </div>
+        <div className="space-y-6">
+          {sections.map((section, sectionIndex) => (
+            <div key={section.id}>
+              <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">
+                {sectionIndex + 1}. {section.title}
+              </h4>
+              <div className="space-y-2">
+                {section.lessons.map((lesson) => (
+                  <React.Fragment key={lesson.id}>
+                    <button
+                      onClick={() => (!lesson.is_locked || lesson.is_drip_locked) && selectLesson(lesson)}
+                      disabled={lesson.is_locked && !lesson.is_drip_locked}
+                      className={`w-full p-4 rounded-lg text-left transition-all ${
+                        selectedLesson?.id === lesson.id
+                          ? 'bg-gradient-to-r from-rose-500/20 to-purple-600/20 border border-purple-400/50'
+                          : 'bg-gray-800/50 hover:bg-gray-800 border border-gray-700'
+                      } ${lesson.is_locked ? 'opacity-60' : ''} ${
+                        lesson.is_locked && !lesson.is_drip_locked ? 'cursor-not-allowed' : ''
+                      }`}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            {LESSON_ICONS[lesson.lesson_type]}
+                            <p className="text-white font-medium">{lesson.title}</p>
+                            {lesson.is_free_preview && !isEnrolled && (
+                              <span className="flex items-center gap-1 text-xs text-green-400">
+                                <Eye className="w-3 h-3" />
+                                Preview
+                              </span>
+                            )}
+                          </div>
+                          {lesson.duration_seconds > 0 && (
+                            <p className="text-sm text-gray-400 mt-1">
+                              {formatLessonDuration(lesson.duration_seconds)}
+                              {lesson.lesson_type === 'video' &&
+                                !isLessonCompleted(lesson) &&
+                                (progressByLesson[lesson.id]?.watched_percentage || 0) > 0 &&
+                                ` · ${Math.round(progressByLesson[lesson.id].watched_percentage)}% watched`}
+                            </p>
+                          )}
+                          {lesson.is_drip_locked && (
+                            <p className="text-xs text-purple-300 mt-1">{describeRelease(lesson)}</p>
+                          )}
+                        </div>
+                        <div className="flex-shrink-0 ml-4">
+                          {lesson.is_locked ? (
+                            <Lock className="w-5 h-5 text-gray-500" />
+                          ) : isLessonCompleted(lesson) ? (
+                            <CheckCircle className="w-5 h-5 text-green-400" />
+                          ) : (
+                            <div className="w-5 h-5 rounded-full border-2 border-gray-600"></div>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                    {quizzes.filter((quiz) => quiz.lesson_id === lesson.id).map(renderQuizRow)}
+                  </React.Fragment>
+                ))}
+                {quizzes.filter((quiz) => quiz.section_id === section.id && !quiz.lesson_id).map(renderQuizRow)}
               </div>
-            </button>
+            </div>
           ))}
+
+          {finalQuizzes.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-2">Final Assessment</h4>
+              <div className="space-y-2">{finalQuizzes.map(renderQuizRow)}</div>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Quiz Panel */}
+      {selectedQuiz && <QuizTaker key={selectedQuiz.id} quiz={selectedQuiz} onSubmitted={handleQuizSubmitted} />}
+
       {/* Lesson Detail Panel */}
       {selectedLesson && (
         <div className="glass-effect p-6 rounded-2xl">
           <h4 className="text-xl font-bold text-white mb-4">{selectedLesson.title}</h4>
 
-          {/* Lesson Video Player */}
-          {selectedLesson.content_url ? (
+          {/* Not released yet (drip schedule) */}
+          {selectedLesson.is_drip_locked && (
             <div className="mb-6">
-              <div className="relative group aspect-video bg-gray-800 rounded-lg overflow-hidden">
-                <img
-                  src={selectedLesson.thumbnail_url || ''}
-                  alt={selectedLesson.title}
-                  className="w-full h-full object-cover"
+              {selectedLesson.available_at ? (
+                <ContentCountdownTimer releaseAt={selectedLesson.available_at} onReleased={refreshCurriculum} />
+              ) : (
+                <div className="p-4 bg-purple-500/10 border border-purple-500/30 rounded-lg flex items-center gap-3">
+                  <Lock className="w-5 h-5 text-purple-400 flex-shrink-0" />
+                  <p className="text-sm text-purple-200">{describeRelease(selectedLesson)}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Lesson Content */}
+          {selectedLesson.lesson_type === 'video' &&
+            (selectedLesson.mux_playback_id ? (
+              <div className="mb-6 rounded-lg overflow-hidden">
+                <MuxPlayer
+                  key={selectedLesson.id}
+                  playbackId={selectedLesson.mux_playback_id}
+                  thumbnailUrl={selectedLesson.thumbnail_url || undefined}
+                  title={selectedLesson.title}
+                  startTime={selectedProgress?.last_position_seconds || undefined}
+                  onProgress={handleVideoProgress}
                 />
-                <button
-                  onClick={() => setShowVideoPlayer(true)}
-                  className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center cursor-pointer hover:bg-black/50"
-                >
-                  <Play className="w-16 h-16 text-white" />
-                </button>
+                {selectedProgress && !selectedProgress.is_completed && selectedProgress.last_position_seconds > 0 && (
+                  <p className="text-xs text-gray-400 mt-2">
+                    Resuming from {formatLessonDuration(selectedProgress.last_position_seconds)} ·{' '}
+                    {Math.round(selectedProgress.watched_percentage)}% watched
+                  </p>
+                )}
               </div>
-            </div>
-          ) : (
-            <div className="mb-6 aspect-video bg-gray-800 rounded-lg flex items-center justify-center">
-              <div className="text-center">
-                <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-2" />
-                <p className="text-gray-400">Video content loading...</p>
+            ) : (
+              <div className="mb-6 aspect-video bg-gray-800 rounded-lg flex items-center justify-center">
+                <div className="text-center">
+                  <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-2" />
+                  <p className="text-gray-400">Video is still processing</p>
+                </div>
               </div>
-            </div>
-          )}
+            ))}
 
           {/* Lesson Description */}
           {selectedLesson.description && (
@@ -203,28 +453,49 @@ export default function CourseLessonViewer({
             </div>
           )}
 
+          {selectedLesson.lesson_type === 'article' && selectedLesson.article_body && (
+            <div className="mb-6 p-4 bg-gray-800/50 rounded-lg">
+              <p className="text-gray-200 text-sm leading-relaxed whitespace-pre-wrap">{selectedLesson.article_body}</p>
+            </div>
+          )}
+
           {/* Lesson Duration & Resources */}
           <div className="mb-6 space-y-2">
-            <p className="text-sm text-gray-400">
-              <span className="font-semibold text-gray-300">Duration:</span> {selectedLesson.duration}
-            </p>
-            <button className="flex items-center gap-2 text-rose-400 hover:text-rose-300 transition-colors text-sm">
-              <Download className="w-4 h-4" />
-              Download Resources
-            </button>
+            {selectedLesson.duration_seconds > 0 && (
+              <p className="text-sm text-gray-400">
+                <span className="font-semibold text-gray-300">Duration:</span>{' '}
+                {formatLessonDuration(selectedLesson.duration_seconds)}
+              </p>
+            )}
+            {selectedLesson.lesson_type === 'resource' && selectedLesson.resource_url && (
+              <a
+                href={selectedLesson.resource_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                download={selectedLesson.resource_name || undefined}
+                className="flex items-center gap-2 text-rose-400 hover:text-rose-300 transition-colors text-sm"
+              >
+                <Download className="w-4 h-4" />
+                {selectedLesson.resource_name || 'Download Resource'}
+              </a>
+            )}
           </div>
 
-          {/* Mark as Complete Button */}
-          {!selectedLesson.completed && (
-            <button
-              onClick={handleLessonComplete}
-              className="w-full px-4 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium"
-            >
-              Mark as Complete
-            </button>
-          )}
+          {/* Mark as Complete Button - video lessons complete by watching */}
+          {isEnrolled &&
+            !isLessonCompleted(selectedLesson) &&
+            !selectedLesson.is_drip_locked &&
+            selectedLesson.lesson_type !== 'video' && (
+              <button
+                onClick={handleLessonComplete}
+                disabled={isCompletingLesson}
+                className="w-full px-4 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium disabled:opacity-50"
+              >
+                {isCompletingLesson ? 'Saving...' : 'Mark as Complete'}
+              </button>
+            )}
 
-          {selectedLesson.completed && (
+          {isLessonCompleted(selectedLesson) && (
             <div className="p-3 bg-green-400/10 border border-green-400/30 rounded-lg flex items-center gap-2">
               <CheckCircle className="w-5 h-5 text-green-400" />
               <span className="text-sm text-green-300">You've completed this lesson</span>
@@ -234,42 +505,46 @@ export default function CourseLessonViewer({
       )}
 
       {/* Certificate of Completion */}
-      {showCertificateOption && (
+      {isCourseCompleted && onGetCertificate && (
         <div className="glass-effect p-6 rounded-2xl bg-yellow-400/5 border border-yellow-400/30">
           <div className="flex items-start justify-between">
             <div>
               <h4 className="text-xl font-bold text-yellow-300 mb-2">🎉 Congratulations!</h4>
               <p className="text-gray-300">You've completed this course. Download your certificate of completion.</p>
             </div>
-            <button className="px-6 py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-black rounded-lg hover:shadow-lg transition-all font-semibold whitespace-nowrap ml-4">
-              Get Certificate
+            <button
+              onClick={handleGetCertificate}
+              disabled={isIssuingCertificate}
+              className="px-6 py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-black rounded-lg hover:shadow-lg transition-all font-semibold whitespace-nowrap ml-4 disabled:opacity-50"
+            >
+              {isIssuingCertificate ? 'Issuing...' : certificate ? 'Download PDF' : 'Get Certificate'}
             </button>
           </div>
-        </div>
-      )}
 
-      {/* Video Player Modal */}
-      {showVideoPlayer && selectedLesson && selectedLesson.content_url && (
-        <VideoPlaybackModal
-          content={{
-            id: courseId,
-            title: selectedLesson.title,
-            content_url: selectedLesson.content_url,
-            thumbnail_url: selectedLesson.thumbnail_url || '',
-            creator: '',
-            category: '',
-            duration: selectedLesson.duration,
-            description: selectedLesson.description || '',
-            views_count: 0,
-            like_count: 0,
-            is_premium: false,
-            user_id: '',
-            created_at: '',
-            type: 'lesson',
-          }}
-          isOpen={showVideoPlayer}
-          onClose={() => setShowVideoPlayer(false)}
-        />
+          {certificate && (
+            <div className="mt-4 pt-4 border-t border-yellow-400/20 flex items-center gap-2 text-sm text-gray-300">
+              <ShieldCheck className="w-4 h-4 text-green-400 flex-shrink-0" />
+              <span>
+                Certificate {certificate.certificate_number} · anyone can verify it at{' '}
+                <a
+                  href={getCertificateVerificationUrl(certificate.certificate_number)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-yellow-300 hover:underline break-all"
+                >
+                  {getCertificateVerificationUrl(certificate.certificate_number)}
+                </a>
+              </span>
+            </div>
+          )}
+
+          {certificateError && (
+            <p className="mt-4 text-red-400 text-sm flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {certificateError}
+            </p>
+          )}
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, EyeOff, MessageSquare, Star } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { isUserAdmin } from '../lib/adminUtils';
+import {
+  CourseRatingSummary,
+  CourseReview,
+  deleteReview,
+  EMPTY_RATING_SUMMARY,
+  getCourseRatingSummary,
+  getCourseReviews,
+  moderateReview,
+  replyToReview,
+  saveReview,
+} from '../lib/reviewService';
+
+interface CourseReviewsProps {
+  courseId: string;
+  /** Owner of the course; can reply to reviews */
+  courseOwnerId: string;
+  isEnrolled: boolean;
+  /** Called whenever the rating summary is (re)loaded */
+  onSummaryChange?: (summary: CourseRatingSummary) => void;
+}
+
+function StarRow({ rating, size = 'w-4 h-4' }: { rating: number; size?: string }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={`${size} ${star <= Math.round(rating) ? 'text-yellow-400' : 'text-gray-600'}`}
+          fill={star <= Math.round(rating) ? 'currentColor' : 'none'}
+        />
+      ))}
+    </div>
+  );
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function CourseReviews({ courseId, courseOwnerId, isEnrolled, onSummaryChange }: CourseReviewsProps) {
+  const { user } = useAuth();
+  const isOwner = !!user && user.id === courseOwnerId;
+  const isAdmin = user?.email ? isUserAdmin(user.email) : false;
+
+  const [reviews, setReviews] = useState<CourseReview[]>([]);
+  const [summary, setSummary] = useState<CourseRatingSummary>(EMPTY_RATING_SUMMARY);
+  const [loading, setLoading] = useState(true);
+
+  // Own review form
+  const [isEditing, setIsEditing] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Instructor reply
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+
+  const myReview = reviews.find((review) => review.user_id === user?.id) || null;
+
+  const loadReviews = useCallback(async () => {
+    const [courseReviews, ratingSummary] = await Promise.all([
+      getCourseReviews(courseId),
+      getCourseRatingSummary(courseId),
+    ]);
+    setReviews(courseReviews);
+    setSummary(ratingSummary);
+    setLoading(false);
+    if (onSummaryChange) {
+      onSummaryChange(ratingSummary);
+    }
+  }, [courseId, onSummaryChange]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const startEditing = () => {
+    setRating(myReview?.rating || 0);
+    setTitle(myReview?.title || '');
+    setBody(myReview?.body || '');
+    setFormError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setIsSaving(true);
+    setFormError(null);
+    const result = await saveReview(user.id, courseId, { rating, title, body });
+    setIsSaving(false);
+
+    if (!result.success) {
+      setFormError(result.error || 'Failed to save review');
+      return;
+    }
+
+    setIsEditing(false);
+    await loadReviews();
+  };
+
+  const handleDelete = async () => {
+    if (!myReview || !window.confirm('Delete your review?')) return;
+
+    const result = await deleteReview(myReview.id);
+    if (!result.success) {
+      setFormError(result.error || 'Failed to delete review');
+      return;
+    }
+    await loadReviews();
+  };
+
+  const handleReply = async (reviewId: string) => {
+    const result = await replyToReview(reviewId, replyText);
+    if (!result.success) {
+      alert(result.error || 'Failed to save reply');
+      return;
+    }
+    setReplyingTo(null);
+    setReplyText('');
+    await loadReviews();
+  };
+
+  const handleModerate = async (review: CourseReview) => {
+    if (review.status === 'published') {
+      const reason = window.prompt('Why is this review being hidden?');
+      if (reason === null) return;
+      const result = await moderateReview(review.id, 'hidden', reason);
+      if (!result.success) {
+        alert(result.error || 'Failed to hide review');
+        return;
+      }
+    } else {
+      const result = await moderateReview(review.id, 'published');
+      if (!result.success) {
+        alert(result.error || 'Failed to restore review');
+        return;
+      }
+    }
+    await loadReviews();
+  };
+
+  // Reviewers always see their own review, even when it is hidden
+  const visibleReviews = reviews.filter(
+    (review) => review.status === 'published' || isOwner || isAdmin || review.user_id === user?.id
+  );
+
+  return (
+    <div className="glass-effect p-6 rounded-2xl">
+      <h2 className="text-2xl font-bold text-white mb-6">Student Reviews</h2>
+
+      {/* Summary */}
+      <div className="flex flex-col sm:flex-row gap-6 mb-8">
+        <div className="text-center sm:w-40 flex-shrink-0">
+          <p className="text-5xl font-bold text-white">{summary.rating_average.toFixed(1)}</p>
+          <div className="flex justify-center my-2">
+            <StarRow rating={summary.rating_average} />
+          </div>
+          <p className="text-gray-400 text-sm">
+            {summary.rating_count} rating{summary.rating_count !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <div className="flex-1 space-y-2">
+          {(['5', '4', '3', '2', '1'] as const).map((star) => {
+            const count = summary.rating_distribution[star];
+            const percent = summary.rating_count > 0 ? (count / summary.rating_count) * 100 : 0;
+            return (
+              <div key={star} className="flex items-center gap-3 text-sm">
+                <span className="text-gray-300 w-12">{star} star</span>
+                <div className="flex-1 h-2 bg-gray-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-yellow-400 rounded-full" style={{ width: `${percent}%` }} />
+                </div>
+                <span className="text-gray-400 w-8 text-right">{count}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Own review */}
+      {isEnrolled && user && !isEditing && (
+        <div className="mb-8">
+          {myReview ? (
+            <div className="flex gap-4 text-sm">
+              <button onClick={startEditing} className="text-purple-300 hover:text-purple-200">
+                Edit your review
+              </button>
+              <button onClick={handleDelete} className="text-red-400 hover:text-red-300">
+                Delete
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={startEditing}
+              className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all text-sm font-medium"
+            >
+              Write a Review
+            </button>
+          )}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="mb-8 p-4 bg-gray-800/50 rounded-lg border border-gray-700 space-y-3">
+          <div className="flex items-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+            {[1, 2, 3, 4, 5].map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setRating(star)}
+                onMouseEnter={() => setHoverRating(star)}
+                aria-label={`${star} star${star !== 1 ? 's' : ''}`}
+              >
+                <Star
+                  className={`w-7 h-7 ${star <= (hoverRating || rating) ? 'text-yellow-400' : 'text-gray-600'}`}
+                  fill={star <= (hoverRating || rating) ? 'currentColor' : 'none'}
+                />
+              </button>
+            ))}
+          </div>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+            placeholder="Headline (optional)"
+            maxLength={120}
+          />
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={4}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+            placeholder="What did you think of the course? (optional)"
+          />
+          {formError && (
+            <p className="text-red-400 text-sm flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {formError}
+            </p>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || rating === 0}
+              className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all text-sm font-medium disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Submit Review'}
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={isSaving}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Reviews */}
+      {loading ? (
+        <div className="space-y-4 animate-pulse">
+          <div className="h-20 bg-gray-800 rounded"></div>
+          <div className="h-20 bg-gray-800 rounded"></div>
+        </div>
+      ) : visibleReviews.length === 0 ? (
+        <p className="text-gray-400 text-sm">No reviews yet.</p>
+      ) : (
+        <div className="space-y-6">
+          {visibleReviews.map((review) => (
+            <div
+              key={review.id}
+              className={`pb-6 border-b border-gray-700 last:border-b-0 last:pb-0 ${
+                review.status === 'hidden' ? 'opacity-60' : ''
+              }`}
+            >
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-gradient-to-br from-rose-400 to-purple-600 flex items-center justify-center flex-shrink-0">
+                    <span className="text-white font-bold">{(review.reviewer_name || 'S')[0]}</span>
+                  </div>
+                  <div>
+                    <p className="text-white font-semibold">{review.reviewer_name || 'Student'}</p>
+                    <div className="flex items-center gap-2">
+                      <StarRow rating={review.rating} size="w-3.5 h-3.5" />
+                      <span className="text-xs text-gray-500">{formatDate(review.created_at)}</span>
+                    </div>
+                  </div>
+                </div>
+                {review.status === 'hidden' && (
+                  <span className="flex items-center gap-1 text-xs text-red-300 flex-shrink-0">
+                    <EyeOff className="w-3.5 h-3.5" />
+                    Hidden{review.moderation_reason ? `: ${review.moderation_reason}` : ''}
+                  </span>
+                )}
+              </div>
+
+              {review.title && <p className="text-white font-medium mb-1">{review.title}</p>}
+              {review.body && <p className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap">{review.body}</p>}
+
+              {review.instructor_reply && replyingTo !== review.id && (
+                <div className="mt-3 ml-6 p-3 bg-purple-400/10 border-l-2 border-purple-400 rounded-r-lg">
+                  <p className="text-xs text-purple-300 font-medium mb-1">Instructor reply</p>
+                  <p className="text-gray-300 text-sm whitespace-pre-wrap">{review.instructor_reply}</p>
+                </div>
+              )}
+
+              {replyingTo === review.id && (
+                <div className="mt-3 ml-6 space-y-2">
+                  <textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+                    placeholder="Reply publicly to this review"
+                  />
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => handleReply(review.id)}
+                      className="px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm"
+                    >
+                      {replyText.trim() ? 'Post Reply' : 'Remove Reply'}
+                    </button>
+                    <button
+                      onClick={() => setReplyingTo(null)}
+                      className="px-3 py-1.5 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {(isOwner || isAdmin) && replyingTo !== review.id && (
+                <div className="mt-3 flex gap-4 text-xs">
+                  {isOwner && (
+                    <button
+                      onClick={() => {
+                        setReplyingTo(review.id);
+                        setReplyText(review.instructor_reply || '');
+                      }}
+                      className="flex items-center gap-1 text-purple-300 hover:text-purple-200"
+                    >
+                      <MessageSquare className="w-3.5 h-3.5" />
+                      {review.instructor_reply ? 'Edit reply' : 'Reply'}
+                    </button>
+                  )}
+                  {isAdmin && (
+                    <button onClick={() => handleModerate(review)} className="text-red-400 hover:text-red-300">
+                      {review.status === 'published' ? 'Hide review' : 'Publish review'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,452 @@
+import { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  Download,
+  Eye,
+  FileText,
+  Film,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+import VideoUploadWithMuxForMasterclass from './VideoUploadWithMuxForMasterclass';
+import {
+  CourseLesson,
+  CourseSection,
+  formatLessonDuration,
+  getMuxThumbnailUrl,
+  LessonType,
+  newCourseLesson,
+  newCourseSection,
+  parseLessonDuration,
+  ReleaseRule,
+  ReleaseSchedule,
+} from '../lib/curriculumService';
+
+interface CurriculumEditorProps {
+  sections: CourseSection[];
+  onChange: (sections: CourseSection[]) => void;
+  userId?: string;
+  disabled?: boolean;
+}
+
+const LESSON_TYPES: { type: LessonType; label: string; icon: JSX.Element }[] = [
+  { type: 'video', label: 'Video', icon: <Film className="w-4 h-4" /> },
+  { type: 'article', label: 'Article', icon: <FileText className="w-4 h-4" /> },
+  { type: 'resource', label: 'Resource', icon: <Download className="w-4 h-4" /> },
+];
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all';
+
+const RELEASE_RULES: { rule: ReleaseRule; label: string }[] = [
+  { rule: 'immediate', label: 'Available on enrollment' },
+  { rule: 'date', label: 'On a date' },
+  { rule: 'days_after_enrollment', label: 'Days after enrollment' },
+  { rule: 'after_lesson', label: 'After completing a lesson' },
+];
+
+// datetime-local works in local time without a zone
+function toLocalInputValue(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+interface ReleaseRuleFieldsProps {
+  schedule: ReleaseSchedule;
+  /** Lessons that can be the prerequisite, in course order */
+  lessonOptions: { id: string; title: string }[];
+  onChange: (changes: Partial<ReleaseSchedule>) => void;
+  disabled?: boolean;
+}
+
+function ReleaseRuleFields({ schedule, lessonOptions, onChange, disabled }: ReleaseRuleFieldsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+      <Clock className="w-4 h-4 text-gray-400" />
+      <select
+        value={schedule.release_rule}
+        onChange={(e) => onChange({ release_rule: e.target.value as ReleaseRule })}
+        className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+        disabled={disabled}
+      >
+        {RELEASE_RULES.map((option) => (
+          <option key={option.rule} value={option.rule}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {schedule.release_rule === 'date' && (
+        <input
+          type="datetime-local"
+          value={toLocalInputValue(schedule.release_at)}
+          onChange={(e) =>
+            onChange({ release_at: e.target.value ? new Date(e.target.value).toISOString() : null })
+          }
+          className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+          disabled={disabled}
+        />
+      )}
+
+      {schedule.release_rule === 'days_after_enrollment' && (
+        <input
+          type="number"
+          min={0}
+          value={schedule.release_days ?? 0}
+          onChange={(e) => onChange({ release_days: parseInt(e.target.value) || 0 })}
+          className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+          disabled={disabled}
+        />
+      )}
+
+      {schedule.release_rule === 'after_lesson' && (
+        <select
+          value={schedule.release_after_lesson_id || ''}
+          onChange={(e) => onChange({ release_after_lesson_id: e.target.value || null })}
+          className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm max-w-[14rem]"
+          disabled={disabled}
+        >
+          <option value="">Choose a lesson</option>
+          {lessonOptions.map((option, index) => (
+            <option key={option.id} value={option.id}>
+              {option.title || `Lesson ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export default function CurriculumEditor({ sections, onChange, userId, disabled = false }: CurriculumEditorProps) {
+  const [expandedLessonId, setExpandedLessonId] = useState<string | null>(null);
+
+  const updateSection = (sectionId: string, changes: Partial<CourseSection>) => {
+    onChange(sections.map((section) => (section.id === sectionId ? { ...section, ...changes } : section)));
+  };
+
+  const updateLesson = (sectionId: string, lessonId: string, changes: Partial<CourseLesson>) => {
+    onChange(
+      sections.map((section) =>
+        section.id === sectionId
+          ? {
+              ...section,
+              lessons: section.lessons.map((lesson) => (lesson.id === lessonId ? { ...lesson, ...changes } : lesson)),
+            }
+          : section
+      )
+    );
+  };
+
+  const addLesson = (section: CourseSection, lessonType: LessonType) => {
+    const lesson = newCourseLesson(section.id, section.lessons.length, lessonType);
+    updateSection(section.id, { lessons: [...section.lessons, lesson] });
+    setExpandedLessonId(lesson.id);
+  };
+
+  const totalSeconds = sections.reduce(
+    (sum, section) => sum + section.lessons.reduce((lessonSum, lesson) => lessonSum + lesson.duration_seconds, 0),
+    0
+  );
+  const totalLessons = sections.reduce((sum, section) => sum + section.lessons.length, 0);
+  const allLessons = sections.flatMap((section) => section.lessons);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-400">
+          {sections.length} section{sections.length !== 1 ? 's' : ''} · {totalLessons} lesson
+          {totalLessons !== 1 ? 's' : ''} · {formatLessonDuration(totalSeconds)}
+        </p>
+        <button
+          type="button"
+          onClick={() => onChange([...sections, newCourseSection(sections.length)])}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 bg-rose-500/20 text-rose-300 rounded-lg text-sm hover:bg-rose-500/30 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Section
+        </button>
+      </div>
+
+      {sections.length === 0 && (
+        <p className="text-sm text-gray-400 text-center py-4 border border-dashed border-gray-700 rounded-lg">
+          No sections yet. Add a section, then add video, article or resource lessons to it.
+        </p>
+      )}
+
+      {sections.map((section, sectionIndex) => (
+        <div key={section.id} className="border border-gray-700 rounded-lg p-4 space-y-3 bg-gray-900/50">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 w-6">{sectionIndex + 1}.</span>
+            <input
+              type="text"
+              value={section.title}
+              onChange={(e) => updateSection(section.id, { title: e.target.value })}
+              className={inputClass}
+              placeholder="Section title"
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(move(sections, sectionIndex, -1))}
+              disabled={disabled || sectionIndex === 0}
+              className="p-1.5 text-gray-400 hover:text-white disabled:opacity-30"
+              aria-label="Move section up"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(move(sections, sectionIndex, 1))}
+              disabled={disabled || sectionIndex === sections.length - 1}
+              className="p-1.5 text-gray-400 hover:text-white disabled:opacity-30"
+              aria-label="Move section down"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(sections.filter((s) => s.id !== section.id))}
+              disabled={disabled}
+              className="p-1.5 text-red-400 hover:text-red-300 disabled:opacity-30"
+              aria-label="Delete section"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="pl-8">
+            <ReleaseRuleFields
+              schedule={section}
+              lessonOptions={allLessons.filter((lesson) => lesson.section_id !== section.id)}
+              onChange={(changes) => updateSection(section.id, changes)}
+              disabled={disabled}
+            />
+          </div>
+
+          <div className="space-y-2 pl-8">
+            {section.lessons.map((lesson, lessonIndex) => {
+              const isExpanded = expandedLessonId === lesson.id;
+              const typeInfo = LESSON_TYPES.find((t) => t.type === lesson.lesson_type)!;
+
+              return (
+                <div key={lesson.id} className="border border-gray-700/70 rounded-lg bg-gray-800/40">
+                  <div className="flex items-center gap-2 p-2">
+                    <span className="text-gray-400">{typeInfo.icon}</span>
+                    <button
+                      type="button"
+                      onClick={() => setExpandedLessonId(isExpanded ? null : lesson.id)}
+                      className="flex-1 text-left text-sm text-white truncate"
+                    >
+                      {lesson.title || <span className="text-gray-500">Untitled {typeInfo.label.toLowerCase()}</span>}
+                    </button>
+                    {lesson.is_free_preview && (
+                      <span className="flex items-center gap-1 text-xs text-green-400">
+                        <Eye className="w-3 h-3" />
+                        Preview
+                      </span>
+                    )}
+                    {lesson.release_rule !== 'immediate' && !lesson.is_free_preview && (
+                      <span className="flex items-center gap-1 text-xs text-purple-300">
+                        <Clock className="w-3 h-3" />
+                        Drip
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500">{formatLessonDuration(lesson.duration_seconds)}</span>
+                    <button
+                      type="button"
+                      onClick={() => updateSection(section.id, { lessons: move(section.lessons, lessonIndex, -1) })}
+                      disabled={disabled || lessonIndex === 0}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label="Move lesson up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateSection(section.id, { lessons: move(section.lessons, lessonIndex, 1) })}
+                      disabled={disabled || lessonIndex === section.lessons.length - 1}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label="Move lesson down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateSection(section.id, { lessons: section.lessons.filter((l) => l.id !== lesson.id) })
+                      }
+                      disabled={disabled}
+                      className="p-1 text-red-400 hover:text-red-300 disabled:opacity-30"
+                      aria-label="Delete lesson"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="p-3 pt-0 space-y-3">
+                      <input
+                        type="text"
+                        value={lesson.title}
+                        onChange={(e) => updateLesson(section.id, lesson.id, { title: e.target.value })}
+                        className={inputClass}
+                        placeholder="Lesson title"
+                        disabled={disabled}
+                      />
+                      <textarea
+                        value={lesson.description || ''}
+                        onChange={(e) => updateLesson(section.id, lesson.id, { description: e.target.value })}
+                        className={`${inputClass} resize-none`}
+                        placeholder="What this lesson covers"
+                        rows={2}
+                        disabled={disabled}
+                      />
+
+                      <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                          Duration (min)
+                          <input
+                            type="number"
+                            min={0}
+                            value={Math.round(lesson.duration_seconds / 60)}
+                            onChange={(e) =>
+                              updateLesson(section.id, lesson.id, {
+                                duration_seconds: (parseInt(e.target.value) || 0) * 60,
+                              })
+                            }
+                            className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+                            disabled={disabled}
+                          />
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={lesson.is_free_preview}
+                            onChange={(e) =>
+                              updateLesson(section.id, lesson.id, { is_free_preview: e.target.checked })
+                            }
+                            disabled={disabled}
+                          />
+                          Free preview
+                        </label>
+                      </div>
+
+                      {!lesson.is_free_preview && (
+                        <ReleaseRuleFields
+                          schedule={lesson}
+                          lessonOptions={allLessons.filter((option) => option.id !== lesson.id)}
+                          onChange={(changes) => updateLesson(section.id, lesson.id, changes)}
+                          disabled={disabled}
+                        />
+                      )}
+
+                      {lesson.lesson_type === 'video' &&
+                        (lesson.mux_playback_id ? (
+                          <div className="flex items-center gap-3">
+                            <img
+                              src={lesson.thumbnail_url || getMuxThumbnailUrl(lesson.mux_playback_id)}
+                              alt={lesson.title}
+                              className="w-24 h-14 object-cover rounded"
+                            />
+                            <p className="flex-1 text-xs text-gray-400 truncate">
+                              Mux playback ID: {lesson.mux_playback_id}
+                            </p>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                updateLesson(section.id, lesson.id, {
+                                  mux_playback_id: null,
+                                  video_upload_id: null,
+                                  thumbnail_url: null,
+                                })
+                              }
+                              disabled={disabled}
+                              className="text-xs text-red-400 hover:text-red-300"
+                            >
+                              Replace
+                            </button>
+                          </div>
+                        ) : userId ? (
+                          <VideoUploadWithMuxForMasterclass
+                            userId={userId}
+                            onVideoSelected={(playbackId, videoUploadId, duration) =>
+                              updateLesson(section.id, lesson.id, {
+                                mux_playback_id: playbackId,
+                                video_upload_id: videoUploadId,
+                                thumbnail_url: getMuxThumbnailUrl(playbackId),
+                                ...(duration ? { duration_seconds: parseLessonDuration(duration) } : {}),
+                              })
+                            }
+                          />
+                        ) : null)}
+
+                      {lesson.lesson_type === 'article' && (
+                        <textarea
+                          value={lesson.article_body || ''}
+                          onChange={(e) => updateLesson(section.id, lesson.id, { article_body: e.target.value })}
+                          className={`${inputClass} font-mono`}
+                          placeholder="Article content"
+                          rows={8}
+                          disabled={disabled}
+                        />
+                      )}
+
+                      {lesson.lesson_type === 'resource' && (
+                        <div className="space-y-2">
+                          <input
+                            type="text"
+                            value={lesson.resource_name || ''}
+                            onChange={(e) => updateLesson(section.id, lesson.id, { resource_name: e.target.value })}
+                            className={inputClass}
+                            placeholder="File name shown to students, e.g. Workbook.pdf"
+                            disabled={disabled}
+                          />
+                          <input
+                            type="url"
+                            value={lesson.resource_url || ''}
+                            onChange={(e) => updateLesson(section.id, lesson.id, { resource_url: e.target.value })}
+                            className={inputClass}
+                            placeholder="https://..."
+                            disabled={disabled}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex gap-2">
+              {LESSON_TYPES.map((lessonType) => (
+                <button
+                  key={lessonType.type}
+                  type="button"
+                  onClick={() => addLesson(section, lessonType.type)}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-2.5 py-1 text-xs text-gray-300 border border-gray-700 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  <Plus className="w-3 h-3" />
+                  {lessonType.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
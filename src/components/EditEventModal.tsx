@@ -1,6 +1,8 @@
 import React, { useState, useMemo } from 'react';
 import { X, Loader } from 'lucide-react';
 import ImageUploadField from './ImageUploadField';
+import RecurrenceFields from './RecurrenceFields';
+import { RecurrenceFormValue, buildRecurrenceRule, getRecurrenceFormValue } from '../lib/eventRecurrence';
 import { updateEvent, uploadEventImage, updateEventImage } from '../lib/eventServices';
 import type { Event } from '../types/events';
 
@@ -37,6 +39,9 @@ export default function EditEventModal({
     livestreamLink: event.livestream_url || '',
   });
 
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>(() =>
+    getRecurrenceFormValue(event.recurrence_rule, event.event_date)
+  );
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -54,6 +59,12 @@ export default function EditEventModal({
       return;
     }
 
+    const { rule: recurrenceRule, error: recurrenceError } = buildRecurrenceRule(recurrence, formData.eventDate);
+    if (recurrenceError) {
+      alert(recurrenceError);
+      return;
+    }
+
     setIsLoading(true);
     try {
       let imageUrl = event.image_url;
@@ -91,6 +102,7 @@ export default function EditEventModal({
         features: formData.features,
         isLivestream: formData.isLivestream,
         livestreamLink: formData.livestreamLink,
+        recurrenceRule,
       });
 
       if (error) {
@@ -177,6 +189,10 @@ export default function EditEventModal({
               />
             </div>
 
+            <div className="md:col-span-2">
+              <RecurrenceFields value={recurrence} onChange={setRecurrence} startDate={formData.eventDate} />
+            </div>
+
             <div>
               <label className="block text-white font-semibold mb-2">Location *</label>
               <input
@@ -4,9 +4,14 @@ import { uploadToB2 } from '../lib/b2Upload';
 import { useVideoDuration } from '../hooks/useVideoDuration';
 import { extractDuration } from '../lib/getDuration';
 import { supabase } from '../lib/supabase';
+import { CourseSection, getCourseCurriculum, saveCourseCurriculum } from '../lib/curriculumService';
+import CurriculumEditor from './CurriculumEditor';
+import QuizEditor from './QuizEditor';
 
 interface EditMasterclassContentModalProps {
   isOpen: boolean;
+  /** Set when editing an existing course; enables curriculum authoring */
+  courseId?: string;
   title: string;
   description?: string;
   category?: string;
@@ -20,6 +25,8 @@ interface EditMasterclassContentModalProps {
   contentUrl?: string;
   coursePrice?: number;
   courseCurrency?: string;
+  /** Watched percentage at which a video lesson counts as complete */
+  completionThresholdPercent?: number;
   userId?: string;
   onSave: (payload: {
     title: string;
@@ -35,6 +42,7 @@ interface EditMasterclassContentModalProps {
     course_price?: number;
     course_currency?: string;
     duration?: string;
+    completion_threshold_percent?: number;
   }) => void;
   onDelete?: () => void;
   onClose: () => void;
@@ -45,6 +53,7 @@ interface EditMasterclassContentModalProps {
 
 export default function EditMasterclassContentModal({
   isOpen,
+  courseId,
   title: initialTitle,
   description: initialDescription,
   category: initialCategory,
@@ -58,6 +67,7 @@ export default function EditMasterclassContentModal({
   contentUrl: initialContentUrl,
   coursePrice: initialCoursePrice = 0,
   courseCurrency: initialCourseCurrency = 'UGX',
+  completionThresholdPercent: initialCompletionThresholdPercent = 90,
   userId,
   onSave,
   onDelete,
@@ -108,9 +118,33 @@ export default function EditMasterclassContentModal({
   // Price state (add course price and currency)
   const [coursePrice, setCoursePrice] = useState<number>(initialCoursePrice);
   const [courseCurrency, setCourseCurrency] = useState(initialCourseCurrency);
+  const [completionThresholdPercent, setCompletionThresholdPercent] = useState(initialCompletionThresholdPercent);
+
+  // Curriculum state
+  const [curriculum, setCurriculum] = useState<CourseSection[]>([]);
+  const [curriculumLoaded, setCurriculumLoaded] = useState(false);
+  const [curriculumDirty, setCurriculumDirty] = useState(false);
+  const [curriculumError, setCurriculumError] = useState<string | null>(null);
+  const [isSavingCurriculum, setIsSavingCurriculum] = useState(false);
 
   const isPendingDeletion = status === 'pending_deletion';
 
+  useEffect(() => {
+    if (!isOpen || !courseId) return;
+
+    let cancelled = false;
+    getCourseCurriculum(courseId).then((sections) => {
+      if (cancelled) return;
+      setCurriculum(sections);
+      setCurriculumDirty(false);
+      setCurriculumLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, courseId]);
+
   // Update detected duration when URL changes
   useEffect(() => {
     if (contentUrl && !isDurationLoading && urlDuration) {
@@ -366,7 +400,35 @@ export default function EditMasterclassContentModal({
     setFeatures(features.filter((_, i) => i !== index));
   };
 
-  const handleSave = () => {
+  const handleCurriculumChange = (sections: CourseSection[]) => {
+    setCurriculum(sections);
+    setCurriculumDirty(true);
+    setCurriculumError(null);
+  };
+
+  const curriculumLessonCount = curriculum.reduce((sum, section) => sum + section.lessons.length, 0);
+
+  const handleSave = async () => {
+    if (courseId && curriculumDirty) {
+      const missingVideo = curriculum.some((section) =>
+        section.lessons.some((lesson) => lesson.lesson_type === 'video' && !lesson.mux_playback_id)
+      );
+      if (missingVideo) {
+        setCurriculumError('Upload a video for every video lesson before saving');
+        return;
+      }
+
+      setIsSavingCurriculum(true);
+      const result = await saveCourseCurriculum(courseId, curriculum);
+      setIsSavingCurriculum(false);
+
+      if (!result.success) {
+        setCurriculumError(result.error || 'Failed to save curriculum');
+        return;
+      }
+      setCurriculumDirty(false);
+    }
+
     const payload: any = {
       title,
       description: description || undefined,
@@ -374,10 +436,12 @@ export default function EditMasterclassContentModal({
       level: level || undefined,
       learning_outcomes: learningOutcomes.length > 0 ? learningOutcomes : undefined,
       features: features.length > 0 ? features : undefined,
-      lessons_count: lessonsCount || undefined,
+      // The curriculum keeps lessons_count in step once it has lessons
+      lessons_count: curriculumLessonCount || lessonsCount || undefined,
       is_premium: isPremium,
       course_price: coursePrice,
       course_currency: courseCurrency,
+      completion_threshold_percent: courseId ? completionThresholdPercent : undefined,
     };
 
     if (thumbnailUrl !== initialThumbnailUrl) {
@@ -522,21 +586,74 @@ export default function EditMasterclassContentModal({
             </select>
           </div>
 
-          {/* Lessons Count */}
-          <div>
-            <label className="block text-sm font-medium text-white mb-2">
-              Number of Lessons
-            </label>
-            <input
-              type="number"
-              min="0"
-              value={lessonsCount}
-              onChange={(e) => setLessonsCount(parseInt(e.target.value) || 0)}
-              className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
-              placeholder="Number of lessons"
-              disabled={isSaving || isDeleting}
-            />
-          </div>
+          {/* Curriculum */}
+          {courseId ? (
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Curriculum
+              </label>
+              {curriculumLoaded ? (
+                <CurriculumEditor
+                  sections={curriculum}
+                  onChange={handleCurriculumChange}
+                  userId={userId}
+                  disabled={isSaving || isDeleting || isSavingCurriculum}
+                />
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <Loader className="w-4 h-4 animate-spin" />
+                  Loading curriculum...
+                </div>
+              )}
+              {curriculumError && (
+                <p className="text-red-400 text-sm mt-2 flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4" />
+                  {curriculumError}
+                </p>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-300 mt-4">
+                A video lesson is complete once students have watched
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={completionThresholdPercent}
+                  onChange={(e) =>
+                    setCompletionThresholdPercent(Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))
+                  }
+                  className="w-20 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+                  disabled={isSaving || isDeleting}
+                />
+                % of it
+              </label>
+
+              <label className="block text-sm font-medium text-white mt-6 mb-2">
+                Quizzes
+              </label>
+              {curriculumLoaded && (
+                <QuizEditor
+                  courseId={courseId}
+                  sections={curriculum}
+                  disabled={isSaving || isDeleting || isSavingCurriculum}
+                />
+              )}
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-white mb-2">
+                Number of Lessons
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={lessonsCount}
+                onChange={(e) => setLessonsCount(parseInt(e.target.value) || 0)}
+                className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all"
+                placeholder="Number of lessons"
+                disabled={isSaving || isDeleting}
+              />
+            </div>
+          )}
 
           {/* Learning Outcomes */}
           <div>
@@ -1031,10 +1148,10 @@ export default function EditMasterclassContentModal({
             </button>
             <button
               type="submit"
-              disabled={isSaving || isDeleting || !title}
+              disabled={isSaving || isDeleting || isSavingCurriculum || !title}
               className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isSaving ? 'Saving...' : 'Save'}
+              {isSaving || isSavingCurriculum ? 'Saving...' : 'Save'}
             </button>
           </div>
 
@@ -3,8 +3,9 @@ import { X, Loader, CheckCircle, AlertCircle } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useEnrollment } from '../hooks/useEnrollment';
 import { supabase } from '../lib/supabase';
-import { validatePromoCode } from '../lib/promoCodeService';
-import { PaymentMethodType, selectGateway } from '../lib/paymentMethodConfig';
+import { AppliedPromoCode, evaluatePromoCodes, MAX_STACKED_PROMO_CODES } from '../lib/promoCodeService';
+import { getCatalogPrice } from '../lib/pricingCatalogService';
+import { PaymentMethodType } from '../lib/paymentMethodConfig';
 import { Country, getCountryByCode, COUNTRIES } from '../lib/countries';
 import PaymentMethodSelector from './PaymentMethodSelector';
 import CountryPhoneSelector from './CountryPhoneSelector';
@@ -53,11 +54,10 @@ export default function EnrollmentModal({
   const [courseCurrency, setCourseCurrency] = useState<string>('UGX');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethodType>('card');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [enrollmentId, setEnrollmentId] = useState<string | null>(null);
   const [promoCode, setPromoCode] = useState<string>('');
   const [promoValidating, setPromoValidating] = useState(false);
   const [promoError, setPromoError] = useState<string | null>(null);
-  const [promoDiscount, setPromoDiscount] = useState<{ percentage?: number; amount?: number } | null>(null);
+  const [appliedPromos, setAppliedPromos] = useState<AppliedPromoCode[]>([]);
   const [finalPrice, setFinalPrice] = useState<number>(0);
 
   // Fetch course price and currency from database
@@ -73,9 +73,13 @@ export default function EnrollmentModal({
           .single();
 
         if (!fetchError && data) {
-          setCoursePrice(data.course_price || 0);
-          setFinalPrice(data.course_price || 0);
-          setCourseCurrency(data.course_currency || 'UGX');
+          const currency = data.course_currency || 'UGX';
+          // The pricing catalog holds the effective price; the course row is the fallback
+          const catalogPrice = await getCatalogPrice('course', course.id, currency);
+          const price = catalogPrice ?? (data.course_price || 0);
+          setCoursePrice(price);
+          setFinalPrice(price);
+          setCourseCurrency(currency);
         }
       } catch (err) {
         console.error('Error fetching course price and currency:', err);
@@ -88,32 +92,58 @@ export default function EnrollmentModal({
     fetchCoursePriceAndCurrency();
   }, [isOpen, course.id]);
 
-  // Validate promo code
-  const handleValidatePromo = async () => {
-    if (!promoCode.trim()) {
-      setPromoError('Enter a promo code');
-      return;
+  // Price the course with the applied codes plus the new one
+  const applyPromoCodes = async (codes: string[]) => {
+    if (codes.length === 0) {
+      setAppliedPromos([]);
+      setFinalPrice(coursePrice);
+      return true;
     }
 
     setPromoValidating(true);
     setPromoError(null);
 
-    const result = await validatePromoCode(promoCode, course.id, coursePrice);
+    const result = await evaluatePromoCodes(codes, {
+      itemType: 'course_enrollment',
+      itemRef: course.id,
+      amount: coursePrice,
+      currency: courseCurrency,
+    });
 
-    if (result.valid && result.final_price !== undefined) {
-      setPromoDiscount({
-        percentage: result.discount_percentage,
-        amount: result.discount_amount,
-      });
-      setFinalPrice(result.final_price);
-      setPromoError(null);
-    } else {
+    setPromoValidating(false);
+
+    if (!result.valid || result.final_amount === undefined) {
       setPromoError(result.error || 'Invalid promo code');
-      setPromoDiscount(null);
-      setFinalPrice(coursePrice);
+      return false;
     }
 
-    setPromoValidating(false);
+    if (result.final_amount <= 0) {
+      setPromoError('Promo codes cannot cover the full price');
+      return false;
+    }
+
+    setAppliedPromos(result.codes || []);
+    setFinalPrice(result.final_amount);
+    return true;
+  };
+
+  const handleValidatePromo = async () => {
+    const code = promoCode.trim().toUpperCase();
+    if (!code) {
+      setPromoError('Enter a promo code');
+      return;
+    }
+    if (appliedPromos.some((promo) => promo.code === code)) {
+      setPromoError('This code is already applied');
+      return;
+    }
+
+    const applied = await applyPromoCodes([...appliedPromos.map((promo) => promo.code), code]);
+    if (applied) setPromoCode('');
+  };
+
+  const handleRemovePromo = async (code: string) => {
+    await applyPromoCodes(appliedPromos.filter((promo) => promo.code !== code).map((promo) => promo.code));
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -209,16 +239,17 @@ export default function EnrollmentModal({
 
     try {
       const userName = `${formData.firstName} ${formData.lastName}`.trim();
-      const useEversend = selectGateway(paymentMethod) === 'eversend';
 
       const result = await initiateEnrollment(
         user.id,
         course.id,
         finalPrice,
+        courseCurrency,
         formData.email,
         userName,
         formData.phoneNumber,
-        useEversend
+        paymentMethod,
+        appliedPromos.length > 0 ? appliedPromos.map((promo) => promo.code) : undefined
       );
 
       if (!result.success) {
@@ -227,32 +258,17 @@ export default function EnrollmentModal({
         return;
       }
 
-      setEnrollmentId(result.enrollmentId || null);
-
-      // If payment link not generated, complete enrollment
-      if (!result.paymentUrl) {
-        setStep('success');
-        setTimeout(() => {
-          onEnrollmentComplete();
-          onClose();
-        }, 2000);
-        return;
-      }
+      // The enrollment is created once the payment webhook confirms the order
+      sessionStorage.setItem(
+        'pendingEnrollment',
+        JSON.stringify({
+          orderId: result.orderId,
+          courseId: course.id,
+          userId: user.id,
+        })
+      );
 
-      // For paid courses, redirect to payment provider
-      if (result.paymentUrl) {
-        sessionStorage.setItem(
-          'pendingEnrollment',
-          JSON.stringify({
-            enrollmentId: result.enrollmentId,
-            courseId: course.id,
-            userId: user.id,
-            paymentMethod: selectGateway(paymentMethod),
-          })
-        );
-
-        window.location.href = result.paymentUrl;
-      }
+      window.location.href = result.paymentUrl!;
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Payment failed';
       setErrorMessage(message);
@@ -275,10 +291,11 @@ export default function EnrollmentModal({
         user.id,
         course.id,
         0,
+        courseCurrency,
         formData.email,
         userName,
         formData.phoneNumber,
-        false
+        paymentMethod
       );
 
       if (!result.success) {
@@ -313,7 +330,6 @@ export default function EnrollmentModal({
       });
       setSelectedCountry(null);
       setErrorMessage(null);
-      setEnrollmentId(null);
       setPaymentMethod('card');
       onClose();
     }
@@ -357,7 +373,7 @@ export default function EnrollmentModal({
                 <p className="text-gray-400 text-xs mt-1">by {course.creator}</p>
                 {coursePrice > 0 && (
                   <div className="mt-2 space-y-1">
-                    {promoDiscount ? (
+                    {appliedPromos.length > 0 ? (
                       <>
                         <p className="text-gray-400 text-xs line-through">{courseCurrency} {coursePrice.toLocaleString()}</p>
                         <p className="text-green-400 font-bold text-sm">{courseCurrency} {finalPrice.toLocaleString()}</p>
@@ -489,7 +505,7 @@ export default function EnrollmentModal({
               ) : (
                 <div className="flex flex-col gap-1.5 sm:flex-row sm:gap-2 sm:justify-center">
                   <span>Proceed to Payment -</span>
-                  <span className="whitespace-nowrap">{courseCurrency} {promoDiscount ? finalPrice.toLocaleString() : coursePrice.toLocaleString()}</span>
+                  <span className="whitespace-nowrap">{courseCurrency} {appliedPromos.length > 0 ? finalPrice.toLocaleString() : coursePrice.toLocaleString()}</span>
                 </div>
               )}
             </button>
@@ -537,9 +553,8 @@ export default function EnrollmentModal({
                     onChange={(e) => {
                       setPromoCode(e.target.value.toUpperCase());
                       setPromoError(null);
-                      setPromoDiscount(null);
-                      setFinalPrice(coursePrice);
                     }}
+                    disabled={appliedPromos.length >= MAX_STACKED_PROMO_CODES}
                     className="w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all"
                     placeholder="Enter promo code"
                   />
@@ -556,8 +571,26 @@ export default function EnrollmentModal({
               {promoError && (
                 <p className="text-red-400 text-xs mt-2">{promoError}</p>
               )}
-              {promoDiscount && (
-                <p className="text-green-400 text-xs mt-2">✓ Promo code applied!</p>
+              {appliedPromos.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {appliedPromos.map((promo) => (
+                    <span
+                      key={promo.id}
+                      className="inline-flex items-center gap-1.5 px-3 py-1 bg-green-500/20 border border-green-500/30 text-green-300 rounded-full text-xs font-semibold"
+                    >
+                      {promo.code} −{courseCurrency} {Number(promo.discount_amount).toLocaleString()}
+                      <button
+                        type="button"
+                        onClick={() => handleRemovePromo(promo.code)}
+                        disabled={promoValidating}
+                        className="hover:text-white"
+                        aria-label={`Remove ${promo.code}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
               )}
             </div>
 
@@ -1,9 +1,10 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Calendar, MapPin, Clock, Ticket, Share2 } from 'lucide-react';
+import { Calendar, MapPin, Clock, Ticket, Share2, Repeat } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import EventCreatorMenu from './EventCreatorMenu';
 import type { Event } from '../types/events';
+import { describeRecurrence, getNextOccurrence } from '../lib/eventRecurrence';
 
 interface EventCardProps {
   event: Event;
@@ -62,7 +63,13 @@ export default function EventCard({
   const navigate = useNavigate();
   const [refreshKey, setRefreshKey] = useState(0);
 
-  const progressPercentage = calculateProgressPercentage(event.event_date, event.created_at, nowTime);
+  // Recurring events show their next date
+  const nextOccurrence = event.recurrence_rule ? getNextOccurrence(event) : null;
+  const eventDate = nextOccurrence?.event_date || event.event_date;
+  const eventTime = nextOccurrence?.event_time || event.event_time;
+  const location = nextOccurrence?.location || event.location;
+
+  const progressPercentage = calculateProgressPercentage(eventDate, event.created_at, nowTime);
 
   const handleStreamNow = () => {
     if (!user) {
@@ -110,7 +117,7 @@ export default function EventCard({
           <div className="flex items-center space-x-3 text-gray-200 text-sm">
             <Calendar className="w-4 h-4 text-rose-400" />
             <span>
-              {new Date(event.event_date).toLocaleDateString('en-US', {
+              {new Date(eventDate).toLocaleDateString('en-US', {
                 weekday: 'long',
                 year: 'numeric',
                 month: 'long',
@@ -120,11 +127,17 @@ export default function EventCard({
           </div>
           <div className="flex items-center space-x-3 text-gray-200 text-sm">
             <Clock className="w-4 h-4 text-rose-400" />
-            <span>{event.event_time ? `${event.event_time} EAT` : 'TBA'}</span>
+            <span>{eventTime ? `${eventTime} EAT` : 'TBA'}</span>
           </div>
+          {event.recurrence_rule && (
+            <div className="flex items-center space-x-3 text-gray-200 text-sm">
+              <Repeat className="w-4 h-4 text-rose-400" />
+              <span>{describeRecurrence(event.recurrence_rule)}</span>
+            </div>
+          )}
           <div className="flex items-center space-x-3 text-gray-200 text-sm">
             <MapPin className="w-4 h-4 text-rose-400" />
-            <span>{event.location}</span>
+            <span>{location}</span>
           </div>
         </div>
 
@@ -151,7 +164,7 @@ export default function EventCard({
               {event.status === 'happening' && event.is_livestream ? 'Happening' : 'Happening in'}
             </div>
             <div className="text-sm font-semibold text-white">
-              <CountdownDisplay date={event.event_date} nowTime={nowTime} />
+              <CountdownDisplay date={eventDate} nowTime={nowTime} />
             </div>
           </div>
 
@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, CameraOff, CheckCircle, AlertCircle, XCircle, Loader, Users } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { getUserEvents } from '../lib/eventServices';
+import { CheckInResult, EventAttendance, checkInEventTicket, getEventAttendance } from '../lib/eventTicketService';
+import type { Event } from '../types/events';
+
+interface EventCheckInPanelProps {
+  userId: string;
+}
+
+// Not in the TypeScript DOM lib yet; Chromium-based browsers ship it
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 500;
+// A code held in front of the camera is only submitted once in this window
+const RESCAN_COOLDOWN_MS = 3000;
+
+const RESULT_MESSAGES: Record<CheckInResult['result'], string> = {
+  admitted: 'Admitted',
+  duplicate: 'Already checked in',
+  invalid: 'Not a valid ticket',
+  wrong_event: 'Ticket is for another event',
+  cancelled: 'Ticket was cancelled',
+};
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+/**
+ * Door check-in for the organizer's events: scan a ticket's QR code or
+ * type its code, with attendance updating live as tickets are admitted
+ */
+export default function EventCheckInPanel({ userId }: EventCheckInPanelProps) {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [eventId, setEventId] = useState('');
+  const [code, setCode] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [lastCheckIn, setLastCheckIn] = useState<CheckInResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attendance, setAttendance] = useState<EventAttendance | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+
+  useEffect(() => {
+    getUserEvents(userId).then((userEvents) => {
+      const open = userEvents.filter((event) => event.status !== 'cancelled');
+      setEvents(open);
+      setEventId((current) => current || open[0]?.id || '');
+    });
+  }, [userId]);
+
+  const loadAttendance = useCallback(async () => {
+    if (!eventId) return;
+    setAttendance(await getEventAttendance(eventId));
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    setLastCheckIn(null);
+    setError(null);
+    loadAttendance();
+
+    const subscription = supabase
+      .channel(`public:event_tickets:event_id=eq.${eventId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'event_tickets',
+          filter: `event_id=eq.${eventId}`,
+        },
+        () => {
+          loadAttendance();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [eventId, loadAttendance]);
+
+  const submitCode = useCallback(
+    async (value: string) => {
+      if (!eventId || !value.trim()) return;
+
+      setChecking(true);
+      setError(null);
+
+      const result = await checkInEventTicket(eventId, value.trim());
+
+      setChecking(false);
+
+      if (!result.success || !result.checkIn) {
+        setError(result.error || 'Failed to check ticket in');
+        return;
+      }
+
+      setLastCheckIn(result.checkIn);
+      setCode('');
+    },
+    [eventId]
+  );
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!scanning || !BarcodeDetector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+
+          const [barcode] = await detector.detect(videoRef.current).catch(() => []);
+          if (!barcode) return;
+
+          const now = Date.now();
+          const last = lastScanRef.current;
+          if (last && last.value === barcode.rawValue && now - last.at < RESCAN_COOLDOWN_MS) return;
+
+          lastScanRef.current = { value: barcode.rawValue, at: now };
+          submitCode(barcode.rawValue);
+        }, SCAN_INTERVAL_MS);
+      } catch (err) {
+        console.error('Error starting camera:', err);
+        setError('Could not open the camera');
+        setScanning(false);
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [scanning, submitCode]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitCode(code);
+  };
+
+  if (events.length === 0) return null;
+
+  const canScan = !!getBarcodeDetector() && !!navigator.mediaDevices;
+
+  return (
+    <div className="glass-effect rounded-2xl p-6 space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <h3 className="text-xl font-semibold text-white">Door Check-in</h3>
+        <select
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+          className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-rose-400"
+        >
+          {events.map((event) => (
+            <option key={event.id} value={event.id} className="bg-gray-800">
+              {event.title} · {new Date(event.event_date).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {attendance && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <p className="text-gray-400 text-sm flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              People in
+            </p>
+            <p className="text-2xl font-bold text-white mt-1">
+              {attendance.people_admitted}
+              <span className="text-base text-gray-400 font-normal"> / {attendance.people_expected}</span>
+            </p>
+          </div>
+          <div className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <p className="text-gray-400 text-sm">Tickets checked in</p>
+            <p className="text-2xl font-bold text-white mt-1">
+              {attendance.tickets_checked_in}
+              <span className="text-base text-gray-400 font-normal"> / {attendance.tickets_issued}</span>
+            </p>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="TKT-XXXX-XXXX"
+          className="flex-1 bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white font-mono placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-rose-400"
+        />
+        <button
+          type="submit"
+          disabled={checking || !code.trim()}
+          className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium disabled:opacity-50"
+        >
+          {checking ? <Loader className="w-4 h-4 animate-spin" /> : 'Check in'}
+        </button>
+        {canScan && (
+          <button
+            type="button"
+            onClick={() => setScanning(!scanning)}
+            className="px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors"
+            title={scanning ? 'Stop scanning' : 'Scan QR code'}
+          >
+            {scanning ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+          </button>
+        )}
+      </form>
+
+      {scanning && <video ref={videoRef} muted playsInline className="w-full max-w-sm mx-auto rounded-xl bg-black" />}
+
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">{error}</div>
+      )}
+
+      {lastCheckIn && (
+        <div
+          className={`flex items-start gap-3 p-4 rounded-xl border ${
+            lastCheckIn.result === 'admitted'
+              ? 'bg-green-500/20 border-green-500/30 text-green-300'
+              : lastCheckIn.result === 'duplicate'
+                ? 'bg-yellow-500/20 border-yellow-500/30 text-yellow-300'
+                : 'bg-red-500/20 border-red-500/30 text-red-300'
+          }`}
+        >
+          {lastCheckIn.result === 'admitted' ? (
+            <CheckCircle className="w-6 h-6 flex-shrink-0" />
+          ) : lastCheckIn.result === 'duplicate' ? (
+            <AlertCircle className="w-6 h-6 flex-shrink-0" />
+          ) : (
+            <XCircle className="w-6 h-6 flex-shrink-0" />
+          )}
+          <div>
+            <p className="font-semibold">
+              {RESULT_MESSAGES[lastCheckIn.result]}
+              {lastCheckIn.result === 'admitted' && lastCheckIn.admits && lastCheckIn.admits > 1
+                ? ` · ${lastCheckIn.admits} people`
+                : ''}
+            </p>
+            {lastCheckIn.holder_name && (
+              <p className="text-sm text-gray-300 mt-1">
+                {lastCheckIn.holder_name}
+                {lastCheckIn.ticket_type && ` · ${lastCheckIn.ticket_type}`}
+                {lastCheckIn.code && ` · ${lastCheckIn.code}`}
+              </p>
+            )}
+            {lastCheckIn.result === 'duplicate' && lastCheckIn.checked_in_at && (
+              <p className="text-sm text-gray-300 mt-1">
+                First checked in at {new Date(lastCheckIn.checked_in_at).toLocaleTimeString()}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
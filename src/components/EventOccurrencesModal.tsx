@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { X, Loader, Edit, RotateCcw, Ban } from 'lucide-react';
+import type { Event } from '../types/events';
+import { EventOccurrence, describeRecurrence, getEventOccurrences } from '../lib/eventRecurrence';
+import {
+  removeEventOccurrenceOverride,
+  saveEventOccurrenceOverride,
+  setEventOccurrenceSkipped,
+} from '../lib/eventServices';
+
+interface EventOccurrencesModalProps {
+  event: Event;
+  userId: string;
+  onClose: () => void;
+  onEventUpdated: () => Promise<void> | void;
+}
+
+const inputClass =
+  'w-full px-4 py-2 glass-effect rounded-lg border border-white/20 text-white focus:ring-2 focus:ring-rose-400 transition-all';
+
+const UPCOMING_COUNT = 12;
+
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Upcoming dates of a recurring event, where the organizer skips a
+ * single date or moves/changes it without touching the rest of the series
+ */
+export default function EventOccurrencesModal({ event, userId, onClose, onEventUpdated }: EventOccurrencesModalProps) {
+  const [editing, setEditing] = useState<EventOccurrence | null>(null);
+  const [form, setForm] = useState({ eventDate: '', eventTime: '', title: '', location: '' });
+  const [busyDate, setBusyDate] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+  const occurrences = getEventOccurrences(event, { from: today, limit: UPCOMING_COUNT });
+  const skippedDates = (event.recurrence_exdates || []).filter((date) => date >= today);
+
+  const run = async (occurrenceDate: string, action: () => Promise<{ success: boolean; error: string | null }>) => {
+    setBusyDate(occurrenceDate);
+    setError(null);
+
+    const { success, error: actionError } = await action();
+
+    if (!success) {
+      setError(actionError || 'Failed to update the date');
+    } else {
+      setEditing(null);
+      await onEventUpdated();
+    }
+
+    setBusyDate(null);
+  };
+
+  const startEditing = (occurrence: EventOccurrence) => {
+    setError(null);
+    setEditing(occurrence);
+    setForm({
+      eventDate: occurrence.event_date,
+      eventTime: occurrence.event_time.slice(0, 5),
+      title: occurrence.is_override && occurrence.title !== event.title ? occurrence.title : '',
+      location: occurrence.is_override && occurrence.location !== event.location ? occurrence.location : '',
+    });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !form.eventDate) return;
+
+    run(editing.occurrence_date, () =>
+      saveEventOccurrenceOverride(event.id, editing.occurrence_date, {
+        event_date: form.eventDate,
+        event_time: form.eventTime || null,
+        title: form.title,
+        location: form.location,
+        description: null,
+      })
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-white/20 shadow-2xl rounded-2xl max-w-2xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-8 py-6 border-b border-white/10 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Dates</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {event.title} · {event.recurrence_rule ? describeRecurrence(event.recurrence_rule) : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white hover:bg-white/10 p-2 rounded-lg transition-all"
+            title="Close"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 px-8 py-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">{error}</div>
+          )}
+
+          {occurrences.length === 0 ? (
+            <p className="text-gray-400 text-sm">This series has no upcoming dates.</p>
+          ) : (
+            <div className="divide-y divide-white/10 border border-white/10 rounded-lg">
+              {occurrences.map((occurrence) => (
+                <div key={occurrence.occurrence_date} className="px-4 py-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-white font-medium">
+                        {formatDate(occurrence.event_date)}
+                        {occurrence.event_time && ` · ${occurrence.event_time.slice(0, 5)}`}
+                      </p>
+                      {occurrence.is_override && (
+                        <p className="text-xs text-purple-300 mt-1">
+                          {occurrence.event_date !== occurrence.occurrence_date
+                            ? `Moved from ${formatDate(occurrence.occurrence_date)}`
+                            : 'Changed'}
+                          {occurrence.title !== event.title && ` · ${occurrence.title}`}
+                          {occurrence.location !== event.location && ` · ${occurrence.location}`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {busyDate === occurrence.occurrence_date ? (
+                        <Loader className="w-4 h-4 text-rose-400 animate-spin" />
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => startEditing(occurrence)}
+                            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                            title="Change this date"
+                          >
+                            <Edit className="w-4 h-4 text-gray-400" />
+                          </button>
+                          {occurrence.is_override && (
+                            <button
+                              onClick={() =>
+                                run(occurrence.occurrence_date, () =>
+                                  removeEventOccurrenceOverride(event.id, occurrence.occurrence_date)
+                                )
+                              }
+                              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                              title="Undo changes"
+                            >
+                              <RotateCcw className="w-4 h-4 text-gray-400" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() =>
+                              run(occurrence.occurrence_date, () =>
+                                setEventOccurrenceSkipped(event.id, userId, occurrence.occurrence_date, true)
+                              )
+                            }
+                            className="p-2 hover:bg-rose-500/10 rounded-lg transition-colors"
+                            title="Skip this date"
+                          >
+                            <Ban className="w-4 h-4 text-rose-400" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {editing?.occurrence_date === occurrence.occurrence_date && (
+                    <form onSubmit={handleSave} className="mt-4 space-y-3">
+                      <div className="grid grid-cols-2 gap-3">
+                        <input
+                          type="date"
+                          value={form.eventDate}
+                          onChange={(e) => setForm({ ...form, eventDate: e.target.value })}
+                          className={inputClass}
+                          required
+                        />
+                        <input
+                          type="time"
+                          value={form.eventTime}
+                          onChange={(e) => setForm({ ...form, eventTime: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      <input
+                        type="text"
+                        value={form.title}
+                        onChange={(e) => setForm({ ...form, title: e.target.value })}
+                        placeholder={`Title (${event.title})`}
+                        className={inputClass}
+                      />
+                      <input
+                        type="text"
+                        value={form.location}
+                        onChange={(e) => setForm({ ...form, location: e.target.value })}
+                        placeholder={`Location (${event.location})`}
+                        className={inputClass}
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          type="submit"
+                          className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium"
+                        >
+                          Save Date
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setEditing(null)}
+                          className="flex-1 px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors font-medium"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {skippedDates.length > 0 && (
+            <div>
+              <h3 className="text-white font-semibold mb-3">Skipped</h3>
+              <div className="flex flex-wrap gap-2">
+                {skippedDates.map((date) => (
+                  <button
+                    key={date}
+                    onClick={() => run(date, () => setEventOccurrenceSkipped(event.id, userId, date, false))}
+                    disabled={busyDate === date}
+                    className="px-3 py-1 glass-effect text-gray-300 hover:text-white rounded-lg text-sm flex items-center gap-2 disabled:opacity-50"
+                    title="Bring this date back"
+                  >
+                    <span className="line-through">{formatDate(date)}</span>
+                    <RotateCcw className="w-3 h-3" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Loader, AlertCircle, Minus, Plus, Ticket } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { PaymentOrchestration } from '../lib/paymentOrchestration';
+import { PaymentMethodType } from '../lib/paymentMethodConfig';
+import {
+  EventTicket,
+  EventTicketType,
+  TICKET_KIND_LABELS,
+  claimFreeEventTickets,
+  getEventTicketTypes,
+  getTicketQrCode,
+  getTicketTypeUnavailableReason,
+  getUserEventTickets,
+} from '../lib/eventTicketService';
+import type { Event } from '../types/events';
+import PaymentMethodSelector from './PaymentMethodSelector';
+
+interface EventTicketsModalProps {
+  event: Event | null;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+/**
+ * Ticket purchase for an event plus the buyer's tickets with their QR
+ * codes. Free tickets are issued straight away; paid ones once the
+ * payment webhook fulfils the order.
+ */
+export default function EventTicketsModal({ event, onClose }: EventTicketsModalProps) {
+  const { user, profile } = useAuth();
+  const [ticketTypes, setTicketTypes] = useState<EventTicketType[]>([]);
+  const [tickets, setTickets] = useState<EventTicket[]>([]);
+  const [qrCodes, setQrCodes] = useState<Record<string, string>>({});
+  const [selectedTypeId, setSelectedTypeId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState(1);
+  const [email, setEmail] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodType>('card');
+  const [loading, setLoading] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTickets = useCallback(async () => {
+    if (!event || !user) return;
+
+    const userTickets = await getUserEventTickets(user.id, event.id);
+    setTickets(userTickets);
+
+    const images = await Promise.all(userTickets.map((ticket) => getTicketQrCode(ticket)));
+    setQrCodes(Object.fromEntries(userTickets.map((ticket, i) => [ticket.id, images[i]])));
+  }, [event, user]);
+
+  useEffect(() => {
+    if (!event) return;
+
+    const load = async () => {
+      setLoading(true);
+      const types = await getEventTicketTypes(event.id);
+      setTicketTypes(types);
+      setSelectedTypeId(types.find((ticketType) => !getTicketTypeUnavailableReason(ticketType))?.id ?? null);
+      await loadTickets();
+      setLoading(false);
+    };
+
+    setQuantity(1);
+    setEmail(profile?.email || '');
+    setPhoneNumber('');
+    setError(null);
+    load();
+  }, [event, profile, loadTickets]);
+
+  if (!event) return null;
+
+  const selectedType = ticketTypes.find((ticketType) => ticketType.id === selectedTypeId) ?? null;
+  const hasTicketTypes = ticketTypes.length > 0;
+  const unitPrice = selectedType ? Number(selectedType.price) : Number(event.price) || 0;
+  const currency = selectedType ? selectedType.currency : 'UGX';
+  const maxQuantity = selectedType
+    ? Math.min(selectedType.max_per_order, selectedType.quantity - selectedType.sold_count)
+    : 1;
+  const total = unitPrice * quantity;
+  const canBuy = hasTicketTypes ? !!selectedType : unitPrice > 0;
+
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) {
+      setError('Please sign in to get tickets');
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    if (selectedType && unitPrice === 0) {
+      const result = await claimFreeEventTickets(selectedType.id, quantity);
+      setProcessing(false);
+
+      if (!result.success) {
+        setError(result.error || 'Failed to get tickets');
+        return;
+      }
+
+      setTicketTypes(await getEventTicketTypes(event.id));
+      setQuantity(1);
+      await loadTickets();
+      return;
+    }
+
+    if (!email.trim()) {
+      setProcessing(false);
+      setError('Email is required');
+      return;
+    }
+
+    const result = await PaymentOrchestration.initializePurchase({
+      itemType: 'event_ticket',
+      itemRef: event.id,
+      userId: user.id,
+      amount: total,
+      currency,
+      paymentMethod,
+      email: email.trim(),
+      phoneNumber,
+      userName: profile?.name || '',
+      ticketTypeId: selectedType?.id,
+      quantity,
+    });
+
+    if (!result.success || !result.checkoutUrl) {
+      setProcessing(false);
+      setError(result.error || 'Payment initialization failed');
+      return;
+    }
+
+    // Picked up by the order callback page while the webhook issues the tickets
+    sessionStorage.setItem('pendingEnrollment', JSON.stringify({ orderId: result.orderId, userId: user.id }));
+    window.location.href = result.checkoutUrl;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Tickets</h2>
+            <p className="text-sm text-slate-400 mt-1">
+              {event.title} · {new Date(event.event_date).toLocaleDateString()} {event.event_time}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={processing}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-rose-400 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {tickets.length > 0 && (
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-white mb-3">Your tickets</h3>
+                <p className="text-xs text-slate-400 mb-4">Show the QR code at the door, or give the code below it.</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {tickets.map((ticket) => {
+                    const ticketType = ticketTypes.find((t) => t.id === ticket.ticket_type_id);
+
+                    return (
+                      <div key={ticket.id} className="p-4 bg-slate-700/30 border border-slate-600/50 rounded-xl text-center">
+                        {qrCodes[ticket.id] && (
+                          <img
+                            src={qrCodes[ticket.id]}
+                            alt={`Ticket ${ticket.code}`}
+                            className="w-40 h-40 mx-auto rounded-lg bg-white p-1"
+                          />
+                        )}
+                        <p className="font-mono text-white font-semibold mt-3">{ticket.code}</p>
+                        <p className="text-xs text-slate-400 mt-1">
+                          {ticketType?.name || 'General admission'}
+                          {ticket.admits > 1 && ` · admits ${ticket.admits}`}
+                        </p>
+                        {ticket.checked_in_at && (
+                          <p className="text-xs text-green-300 mt-1">
+                            Checked in {new Date(ticket.checked_in_at).toLocaleTimeString()}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {hasTicketTypes ? (
+              <div className="space-y-2 mb-6">
+                {ticketTypes.map((ticketType) => {
+                  const unavailable = getTicketTypeUnavailableReason(ticketType);
+
+                  return (
+                    <button
+                      key={ticketType.id}
+                      type="button"
+                      disabled={!!unavailable}
+                      onClick={() => {
+                        setSelectedTypeId(ticketType.id);
+                        setQuantity(1);
+                      }}
+                      className={`w-full flex items-center justify-between gap-4 p-4 rounded-xl border text-left transition-all disabled:opacity-50 ${
+                        selectedTypeId === ticketType.id
+                          ? 'border-rose-400 bg-rose-500/10'
+                          : 'border-slate-600/50 bg-slate-700/30 hover:border-slate-500'
+                      }`}
+                    >
+                      <div>
+                        <p className="text-white font-semibold">
+                          {ticketType.name}
+                          <span className="ml-2 text-xs text-purple-300">{TICKET_KIND_LABELS[ticketType.kind]}</span>
+                        </p>
+                        {ticketType.description && <p className="text-xs text-slate-400 mt-1">{ticketType.description}</p>}
+                        <p className="text-xs text-slate-400 mt-1">
+                          {ticketType.admits > 1 && `Admits ${ticketType.admits} · `}
+                          {unavailable || `${ticketType.quantity - ticketType.sold_count} left`}
+                        </p>
+                      </div>
+                      <p className="text-rose-400 font-bold text-sm whitespace-nowrap">
+                        {Number(ticketType.price) > 0
+                          ? `${ticketType.currency} ${Number(ticketType.price).toLocaleString()}`
+                          : 'Free'}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="mb-6 p-5 bg-slate-700/30 border border-slate-600/50 rounded-xl">
+                <h3 className="text-white font-semibold">General admission</h3>
+                <p className="text-rose-400 font-bold text-sm mt-2">
+                  {unitPrice > 0 ? `UGX ${unitPrice.toLocaleString()}` : 'Free entry, no ticket needed'}
+                </p>
+              </div>
+            )}
+
+            {canBuy && (
+              <form onSubmit={handleCheckout} className="space-y-4">
+                {maxQuantity > 1 && (
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-semibold text-slate-200">Quantity</label>
+                    <div className="flex items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => setQuantity(Math.max(1, quantity - 1))}
+                        disabled={quantity <= 1}
+                        className="p-2 glass-effect rounded-lg text-gray-300 hover:text-white disabled:opacity-50"
+                      >
+                        <Minus className="w-4 h-4" />
+                      </button>
+                      <span className="w-8 text-center text-white font-semibold">{quantity}</span>
+                      <button
+                        type="button"
+                        onClick={() => setQuantity(Math.min(maxQuantity, quantity + 1))}
+                        disabled={quantity >= maxQuantity}
+                        className="p-2 glass-effect rounded-lg text-gray-300 hover:text-white disabled:opacity-50"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {unitPrice > 0 && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-200 mb-2">Email *</label>
+                      <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className={inputClass}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-semibold text-slate-200 mb-2">Phone Number</label>
+                      <input
+                        type="tel"
+                        value={phoneNumber}
+                        onChange={(e) => setPhoneNumber(e.target.value)}
+                        placeholder="Needed for mobile money"
+                        className={inputClass}
+                      />
+                    </div>
+
+                    <PaymentMethodSelector
+                      selectedMethod={paymentMethod}
+                      onMethodChange={setPaymentMethod}
+                      currency={currency}
+                    />
+                  </>
+                )}
+
+                {error && (
+                  <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                    <span>{error}</span>
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={processing}
+                  className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+                >
+                  {processing ? <Loader className="w-4 h-4 animate-spin" /> : <Ticket className="w-4 h-4" />}
+                  {unitPrice > 0
+                    ? `Pay ${currency} ${total.toLocaleString()}`
+                    : `Get ${quantity > 1 ? `${quantity} Tickets` : 'Ticket'}`}
+                </button>
+              </form>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Search, Filter, Calendar, Loader } from 'lucide-react';
 import EventCard from './EventCard';
 import EditEventModal from './EditEventModal';
 import ReminderModal from './ReminderModal';
+import EventTicketsModal from './EventTicketsModal';
 import { ToastContainer } from './Toast';
 import { getPublishedEvents, addEventToCalendar, removeEventFromCalendar, getUserCalendarEvents, createEventReminders } from '../lib/eventServices';
 import { filterJoinTabEvents } from '../lib/eventUtils';
@@ -37,6 +38,7 @@ export default function JoinTab({
   const [editingEvent, setEditingEvent] = useState<DBEvent | null>(null);
   const [isAddingToCalendar, setIsAddingToCalendar] = useState<Record<string, boolean>>({});
   const [reminderModalEvent, setReminderModalEvent] = useState<DBEvent | null>(null);
+  const [ticketsEvent, setTicketsEvent] = useState<DBEvent | null>(null);
   const [isSettingReminder, setIsSettingReminder] = useState(false);
 
   const categories = ['all', 'social', 'networking', 'business', 'workshop', 'conference', 'calendar'];
@@ -234,12 +236,12 @@ export default function JoinTab({
     }
   };
 
-  const handleRegister = (eventId: string) => {
+  const handleRegister = (event: DBEvent) => {
     if (!user) {
       alert('Please sign in to book this event.');
       return;
     }
-    alert('Booking functionality will be implemented soon. You can contact the organizer to register.');
+    setTicketsEvent(event);
   };
 
   return (
@@ -288,7 +290,7 @@ export default function JoinTab({
               calendarAdded={calendarAdded}
               onToggleCalendar={toggleCalendar}
               onShare={() => handleShare(event)}
-              onRegister={() => handleRegister(event.id)}
+              onRegister={() => handleRegister(event)}
               onEventUpdated={loadPublishedEvents}
               onEdit={() => setEditingEvent(event)}
             />
@@ -334,6 +336,8 @@ export default function JoinTab({
         />
       )}
 
+      {ticketsEvent && <EventTicketsModal event={ticketsEvent} onClose={() => setTicketsEvent(null)} />}
+
       <ToastContainer toasts={toasts} onClose={removeToast} />
     </>
   );
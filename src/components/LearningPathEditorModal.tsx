@@ -0,0 +1,358 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Loader, AlertCircle, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import {
+  LearningPath,
+  LearningPathType,
+  PathCourseOption,
+  deleteLearningPath,
+  getPathCourseOptions,
+  saveLearningPath,
+} from '../lib/learningPathService';
+
+interface LearningPathEditorModalProps {
+  isOpen: boolean;
+  userId: string;
+  isAdmin: boolean;
+  /** Path to edit; null creates a new one */
+  path: LearningPath | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const CURRENCIES = ['UGX', 'KES', 'USD', 'EUR', 'GBP'];
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+const labelClass = 'block text-sm font-semibold text-slate-200 mb-2';
+
+/**
+ * Create or edit a learning path or bundle: details, price and the
+ * ordered course list
+ */
+export default function LearningPathEditorModal({
+  isOpen,
+  userId,
+  isAdmin,
+  path,
+  onClose,
+  onSaved,
+}: LearningPathEditorModalProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [thumbnailUrl, setThumbnailUrl] = useState('');
+  const [pathType, setPathType] = useState<LearningPathType>('path');
+  const [price, setPrice] = useState(0);
+  const [currency, setCurrency] = useState('UGX');
+  const [isPublished, setIsPublished] = useState(false);
+  const [courseIds, setCourseIds] = useState<string[]>([]);
+  const [courseOptions, setCourseOptions] = useState<PathCourseOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setTitle(path?.title || '');
+    setDescription(path?.description || '');
+    setThumbnailUrl(path?.thumbnail_url || '');
+    setPathType(path?.path_type || 'path');
+    setPrice(path?.price || 0);
+    setCurrency(path?.currency || 'UGX');
+    setIsPublished(path?.is_published || false);
+    setCourseIds(path?.courses.map((course) => course.course_id) || []);
+    setError(null);
+
+    setLoading(true);
+    getPathCourseOptions(userId, isAdmin).then((options) => {
+      setCourseOptions(options);
+      setLoading(false);
+    });
+  }, [isOpen, path, userId, isAdmin]);
+
+  const coursesById = useMemo(
+    () => Object.fromEntries(courseOptions.map((course) => [course.id, course])),
+    [courseOptions]
+  );
+
+  // Only an estimate from the course rows; the catalog price wins on save
+  const partsEstimate = useMemo(
+    () =>
+      courseIds.reduce((sum, id) => {
+        const course = coursesById[id];
+        return course && (course.course_currency || 'UGX') === currency ? sum + Number(course.course_price || 0) : sum;
+      }, 0),
+    [courseIds, coursesById, currency]
+  );
+
+  if (!isOpen) return null;
+
+  const availableCourses = courseOptions.filter((course) => !courseIds.includes(course.id));
+
+  const moveCourse = (index: number, offset: number) => {
+    setCourseIds((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) {
+      setError('Title is required');
+      return;
+    }
+    if (courseIds.length < 2) {
+      setError('Add at least two courses');
+      return;
+    }
+    if (pathType === 'bundle' && price <= 0) {
+      setError('Bundles need a price');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const result = await saveLearningPath(path?.id || null, {
+      title,
+      description,
+      thumbnail_url: thumbnailUrl,
+      path_type: pathType,
+      price,
+      currency,
+      is_published: isPublished,
+      course_ids: courseIds,
+    });
+
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to save learning path');
+      return;
+    }
+
+    onSaved(path ? 'Learning path updated' : 'Learning path created');
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!path || !window.confirm(`Delete "${path.title}"? Students keep their course enrollments.`)) return;
+
+    setSaving(true);
+    const result = await deleteLearningPath(path.id);
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to delete learning path');
+      return;
+    }
+
+    onSaved('Learning path deleted');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">{path ? 'Edit Learning Path' : 'Create Learning Path'}</h2>
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            {(['path', 'bundle'] as LearningPathType[]).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setPathType(type)}
+                className={`p-4 text-left rounded-xl border transition-all ${
+                  pathType === type
+                    ? 'border-rose-400 bg-rose-500/10'
+                    : 'border-slate-600/50 bg-slate-700/30 hover:border-slate-500'
+                }`}
+              >
+                <p className="text-white font-semibold">{type === 'path' ? 'Learning Path' : 'Bundle'}</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  {type === 'path'
+                    ? 'Courses in order, with a certificate for the whole path'
+                    : 'Courses sold together at a discount'}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className={labelClass}>Title *</label>
+            <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} required />
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Thumbnail URL</label>
+            <input
+              type="url"
+              value={thumbnailUrl}
+              onChange={(e) => setThumbnailUrl(e.target.value)}
+              placeholder="https://..."
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Courses *</label>
+            {loading ? (
+              <div className="flex items-center gap-2 text-slate-400 text-sm">
+                <Loader className="w-4 h-4 animate-spin" />
+                Loading your courses...
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {courseIds.map((id, index) => (
+                  <div
+                    key={id}
+                    className="flex items-center gap-3 p-3 bg-slate-700/30 border border-slate-600/50 rounded-lg"
+                  >
+                    <span className="w-6 text-center text-sm font-semibold text-rose-400">{index + 1}</span>
+                    <span className="flex-1 text-white text-sm truncate">{coursesById[id]?.title || 'Course'}</span>
+                    <button
+                      type="button"
+                      onClick={() => moveCourse(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveCourse(index, 1)}
+                      disabled={index === courseIds.length - 1}
+                      className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setCourseIds((prev) => prev.filter((courseId) => courseId !== id))}
+                      className="p-1 text-red-400 hover:text-red-300"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+
+                {availableCourses.length > 0 ? (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setCourseIds((prev) => [...prev, e.target.value])}
+                    className={inputClass}
+                  >
+                    <option value="">Add a course...</option>
+                    {availableCourses.map((course) => (
+                      <option key={course.id} value={course.id}>
+                        {course.title}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  courseOptions.length === 0 && (
+                    <p className="text-sm text-slate-400">Upload courses first to build a path from them.</p>
+                  )
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Price{pathType === 'path' ? ' (0 for free)' : ' *'}</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Currency</label>
+              <select value={currency} onChange={(e) => setCurrency(e.target.value)} className={inputClass}>
+                {CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {price > 0 && partsEstimate > 0 && (
+            <p className="text-xs text-slate-400">
+              The courses cost about {currency} {partsEstimate.toLocaleString()} separately; the price has to stay below
+              that.
+            </p>
+          )}
+
+          <label className="flex items-center gap-3 text-sm text-slate-200">
+            <input
+              type="checkbox"
+              checked={isPublished}
+              onChange={(e) => setIsPublished(e.target.checked)}
+              className="w-4 h-4 accent-rose-500"
+            />
+            Published (visible to students)
+          </label>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            {path && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={saving}
+                className="px-6 py-3 border border-red-500/40 text-red-400 font-semibold rounded-lg hover:bg-red-500/10 disabled:opacity-60"
+              >
+                Delete
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving || loading}
+              className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+            >
+              {saving && <Loader className="w-4 h-4 animate-spin" />}
+              {path ? 'Save Changes' : 'Create Path'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
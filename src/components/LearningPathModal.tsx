@@ -0,0 +1,332 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { X, Loader, AlertCircle, Award, CheckCircle, ArrowLeft } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { PaymentOrchestration } from '../lib/paymentOrchestration';
+import { PaymentMethodType } from '../lib/paymentMethodConfig';
+import { createLearningPathCertificate, downloadCertificate } from '../lib/certificateService';
+import {
+  LearningPath,
+  LearningPathEnrollment,
+  PathCourseProgress,
+  PathPricing,
+  getLearningPathPricing,
+  getPathCourseProgress,
+  joinLearningPath,
+} from '../lib/learningPathService';
+import PaymentMethodSelector from './PaymentMethodSelector';
+
+interface LearningPathModalProps {
+  path: LearningPath | null;
+  /** The viewer's enrollment in the path, if any */
+  enrollment: LearningPathEnrollment | null;
+  onClose: () => void;
+  onChanged: (message: string) => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+/**
+ * A learning path or bundle: its courses in order with the viewer's
+ * progress, what it saves over buying the courses one by one, and the
+ * way in (start, buy or claim the path certificate)
+ */
+export default function LearningPathModal({ path, enrollment, onClose, onChanged }: LearningPathModalProps) {
+  const { user, profile } = useAuth();
+  const [pricing, setPricing] = useState<PathPricing | null>(null);
+  const [progress, setProgress] = useState<Record<string, PathCourseProgress>>({});
+  const [checkout, setCheckout] = useState(false);
+  const [email, setEmail] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodType>('card');
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDetails = useCallback(async (current: LearningPath, userId: string | undefined) => {
+    const [pathPricing, courseProgress] = await Promise.all([
+      current.price > 0 ? getLearningPathPricing(current) : Promise.resolve(null),
+      userId
+        ? getPathCourseProgress(
+            userId,
+            current.courses.map((course) => course.course_id)
+          )
+        : Promise.resolve({}),
+    ]);
+
+    setPricing(pathPricing);
+    setProgress(courseProgress);
+  }, []);
+
+  useEffect(() => {
+    if (!path) return;
+
+    setCheckout(false);
+    setError(null);
+    setEmail(profile?.email || '');
+    setPhoneNumber('');
+    setPricing(null);
+    setProgress({});
+    loadDetails(path, user?.id);
+  }, [path, user?.id, profile?.email, loadDetails]);
+
+  if (!path) return null;
+
+  const isBundle = path.path_type === 'bundle';
+  const ownsEveryCourse = path.courses.every((course) => progress[course.course_id]?.certificate_eligible);
+  const canJoin = path.price === 0 || ownsEveryCourse;
+
+  const handleJoin = async () => {
+    setProcessing(true);
+    setError(null);
+
+    const result = await joinLearningPath(path.id);
+
+    setProcessing(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to join learning path');
+      return;
+    }
+
+    onChanged(`You're on the path! Start with ${path.courses[0]?.course?.title || 'the first course'}.`);
+  };
+
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) return;
+    if (!email.trim()) {
+      setError('Email is required');
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    const result = await PaymentOrchestration.initializePurchase({
+      itemType: 'learning_path',
+      itemRef: path.id,
+      userId: user.id,
+      amount: path.price,
+      currency: path.currency,
+      paymentMethod,
+      email: email.trim(),
+      phoneNumber,
+      userName: profile?.name || '',
+    });
+
+    if (!result.success || !result.checkoutUrl) {
+      setProcessing(false);
+      setError(result.error || 'Payment initialization failed');
+      return;
+    }
+
+    // Picked up by the order callback page while the webhook fulfils the order
+    sessionStorage.setItem('pendingEnrollment', JSON.stringify({ orderId: result.orderId, userId: user.id }));
+    window.location.href = result.checkoutUrl;
+  };
+
+  const handleCertificate = async () => {
+    if (!enrollment) return;
+
+    setProcessing(true);
+    setError(null);
+
+    const result = await createLearningPathCertificate(enrollment.id);
+
+    setProcessing(false);
+
+    if (!result.success || !result.certificate) {
+      setError(result.error || 'Failed to issue certificate');
+      return;
+    }
+
+    downloadCertificate(result.certificate);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <span className="text-xs uppercase tracking-wide text-rose-400 font-semibold">
+              {isBundle ? 'Course Bundle' : 'Learning Path'} · {path.courses.length} courses
+            </span>
+            <h2 className="text-2xl font-bold text-white mt-1">{checkout ? 'Complete Your Purchase' : path.title}</h2>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={processing}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {!checkout && (
+          <div className="space-y-5">
+            {path.description && <p className="text-gray-300 text-sm">{path.description}</p>}
+
+            {enrollment && (
+              <div>
+                <div className="flex justify-between text-sm text-gray-300 mb-1">
+                  <span>
+                    {enrollment.courses_completed} of {enrollment.total_courses} courses completed
+                  </span>
+                  <span>{enrollment.progress_percentage}%</span>
+                </div>
+                <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-rose-500 to-purple-600"
+                    style={{ width: `${enrollment.progress_percentage}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {path.courses.map((item, index) => {
+                const courseProgress = progress[item.course_id];
+                const completed = courseProgress?.status === 'completed';
+
+                return (
+                  <Link
+                    key={item.course_id}
+                    to={`/course/${item.course_id}`}
+                    className="flex items-center gap-3 p-3 bg-slate-700/30 border border-slate-600/50 rounded-lg hover:border-rose-400/50 transition-colors"
+                  >
+                    <span className="w-6 text-center text-sm font-semibold text-rose-400">
+                      {completed ? <CheckCircle className="w-5 h-5 text-green-400" /> : isBundle ? '•' : index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white text-sm font-medium truncate">{item.course?.title || 'Course'}</p>
+                      {item.course?.creator && <p className="text-xs text-slate-400">{item.course.creator}</p>}
+                    </div>
+                    {courseProgress && !completed && (
+                      <span className="text-xs text-slate-300">{courseProgress.progress_percentage}%</span>
+                    )}
+                  </Link>
+                );
+              })}
+            </div>
+
+            {path.price > 0 && (
+              <div className="p-4 bg-slate-700/30 border border-slate-600/50 rounded-xl">
+                <p className="text-rose-400 font-bold text-lg">
+                  {path.currency} {path.price.toLocaleString()}
+                </p>
+                {pricing && pricing.complete && pricing.savings > 0 && (
+                  <p className="text-sm text-gray-300 mt-1">
+                    <span className="line-through text-slate-500">
+                      {path.currency} {pricing.partsTotal.toLocaleString()}
+                    </span>{' '}
+                    when bought separately · you save {path.currency} {pricing.savings.toLocaleString()}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {!user ? (
+              <Link
+                to="/signin"
+                className="block w-full text-center px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg"
+              >
+                Sign in to start
+              </Link>
+            ) : enrollment ? (
+              !isBundle &&
+              enrollment.completed_at && (
+                <button
+                  onClick={handleCertificate}
+                  disabled={processing}
+                  className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+                >
+                  {processing ? <Loader className="w-4 h-4 animate-spin" /> : <Award className="w-4 h-4" />}
+                  Get Path Certificate
+                </button>
+              )
+            ) : canJoin ? (
+              <button
+                onClick={handleJoin}
+                disabled={processing}
+                className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+              >
+                {processing && <Loader className="w-4 h-4 animate-spin" />}
+                {isBundle ? 'Add to My Learning' : 'Start Learning Path'}
+              </button>
+            ) : (
+              <button
+                onClick={() => setCheckout(true)}
+                className="w-full px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all"
+              >
+                Buy {isBundle ? 'Bundle' : 'Learning Path'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {checkout && (
+          <form onSubmit={handleCheckout} className="space-y-4">
+            <button
+              type="button"
+              onClick={() => setCheckout(false)}
+              className="flex items-center gap-1 text-sm text-slate-400 hover:text-white"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </button>
+
+            <div className="p-5 bg-slate-700/30 border border-slate-600/50 rounded-xl">
+              <h3 className="text-white font-semibold">{path.title}</h3>
+              <p className="text-gray-400 text-xs mt-1">Enrolls you in all {path.courses.length} courses</p>
+              <p className="text-rose-400 font-bold text-sm mt-2">
+                {path.currency} {path.price.toLocaleString()}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-200 mb-2">Email *</label>
+              <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-200 mb-2">Phone Number</label>
+              <input
+                type="tel"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                placeholder="Needed for mobile money"
+                className={inputClass}
+              />
+            </div>
+
+            <PaymentMethodSelector selectedMethod={paymentMethod} onMethodChange={setPaymentMethod} currency={path.currency} />
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={processing}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+            >
+              {processing && <Loader className="w-4 h-4 animate-spin" />}
+              Continue to Payment
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
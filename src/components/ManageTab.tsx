@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
 import { Star, MessageSquare, CheckCircle, Clock, AlertCircle, Wrench, Briefcase } from 'lucide-react';
+import EventCheckInPanel from './EventCheckInPanel';
 
 interface HiredService {
   id: string;
@@ -144,150 +145,148 @@ export default function ManageTab() {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-rose-400"></div>
-      </div>
-    );
-  }
-
-  if (hiredServices.length === 0) {
-    return (
-      <div className="text-center py-12">
-        <Wrench className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-        <h3 className="text-xl font-semibold text-white mb-2">No hired services yet</h3>
-        <p className="text-gray-400">When you hire talents, teams, or agencies, manage them here.</p>
-      </div>
-    );
-  }
-
   return (
-    <div className="space-y-4">
-      {hiredServices.map((service) => (
-        <div key={service.id} className="glass-effect rounded-2xl overflow-hidden p-6">
-          <div className="flex items-start justify-between mb-4">
-            <div className="flex-1">
-              <div className="flex items-center space-x-3 mb-2">
-                <h3 className="text-xl font-semibold text-white">{service.provider_name}</h3>
-                <span className={`px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-1 ${getStatusColor(service.status)}`}>
-                  {getStatusIcon(service.status)}
-                  <span className="capitalize">{service.status.replace('_', ' ')}</span>
-                </span>
+    <div className="space-y-8">
+      {user?.id && <EventCheckInPanel userId={user.id} />}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-rose-400"></div>
+        </div>
+      ) : hiredServices.length === 0 ? (
+        <div className="text-center py-12">
+          <Wrench className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+          <h3 className="text-xl font-semibold text-white mb-2">No hired services yet</h3>
+          <p className="text-gray-400">When you hire talents, teams, or agencies, manage them here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {hiredServices.map((service) => (
+            <div key={service.id} className="glass-effect rounded-2xl overflow-hidden p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <h3 className="text-xl font-semibold text-white">{service.provider_name}</h3>
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium flex items-center space-x-1 ${getStatusColor(service.status)}`}>
+                      {getStatusIcon(service.status)}
+                      <span className="capitalize">{service.status.replace('_', ' ')}</span>
+                    </span>
+                  </div>
+                  <p className="text-gray-400 text-sm">
+                    Service: <span className="text-gray-300">{service.service_name}</span>
+                  </p>
+                  <p className="text-gray-400 text-sm">
+                    Hired on: <span className="text-gray-300">{new Date(service.hired_date).toLocaleDateString()}</span>
+                  </p>
+                </div>
               </div>
-              <p className="text-gray-400 text-sm">
-                Service: <span className="text-gray-300">{service.service_name}</span>
-              </p>
-              <p className="text-gray-400 text-sm">
-                Hired on: <span className="text-gray-300">{new Date(service.hired_date).toLocaleDateString()}</span>
-              </p>
-            </div>
-          </div>
 
-          {service.can_rate && !service.rating && ratingingId !== service.id && (
-            <button
-              onClick={() => setRatingingId(service.id)}
-              className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all text-sm font-medium"
-            >
-              <Star className="w-4 h-4 inline mr-2" />
-              Rate this service
-            </button>
-          )}
+              {service.can_rate && !service.rating && ratingingId !== service.id && (
+                <button
+                  onClick={() => setRatingingId(service.id)}
+                  className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all text-sm font-medium"
+                >
+                  <Star className="w-4 h-4 inline mr-2" />
+                  Rate this service
+                </button>
+              )}
+
+              {ratingingId === service.id && (
+                <div className="bg-white/5 border border-white/10 rounded-xl p-4 mt-4">
+                  <h4 className="text-white font-semibold mb-4">Rate your experience</h4>
 
-          {ratingingId === service.id && (
-            <div className="bg-white/5 border border-white/10 rounded-xl p-4 mt-4">
-              <h4 className="text-white font-semibold mb-4">Rate your experience</h4>
+                  <div className="mb-4">
+                    <label className="block text-gray-300 text-sm font-medium mb-2">Rating</label>
+                    <div className="flex space-x-2">
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <button
+                          key={star}
+                          onClick={() => setRatingSubmission({ ...ratingSubmission, rating: star })}
+                          className="transition-transform hover:scale-110"
+                        >
+                          <Star
+                            className={`w-8 h-8 ${
+                              star <= ratingSubmission.rating
+                                ? 'text-yellow-400 fill-current'
+                                : 'text-gray-400'
+                            }`}
+                          />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="mb-4">
+                    <label className="block text-gray-300 text-sm font-medium mb-2">Comment (optional)</label>
+                    <textarea
+                      value={ratingSubmission.comment}
+                      onChange={(e) =>
+                        setRatingSubmission({ ...ratingSubmission, comment: e.target.value })
+                      }
+                      placeholder="Share your experience with this service..."
+                      className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-rose-400"
+                      rows={3}
+                    />
+                  </div>
 
-              <div className="mb-4">
-                <label className="block text-gray-300 text-sm font-medium mb-2">Rating</label>
-                <div className="flex space-x-2">
-                  {[1, 2, 3, 4, 5].map((star) => (
+                  {submitError && (
+                    <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">
+                      {submitError}
+                    </div>
+                  )}
+
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleRatingSubmit(service.id)}
+                      className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium"
+                    >
+                      Submit Rating
+                    </button>
                     <button
-                      key={star}
-                      onClick={() => setRatingSubmission({ ...ratingSubmission, rating: star })}
-                      className="transition-transform hover:scale-110"
+                      onClick={() => {
+                        setRatingingId(null);
+                        setRatingSubmission({ rating: 5, comment: '' });
+                      }}
+                      className="flex-1 px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors font-medium"
                     >
-                      <Star
-                        className={`w-8 h-8 ${
-                          star <= ratingSubmission.rating
-                            ? 'text-yellow-400 fill-current'
-                            : 'text-gray-400'
-                        }`}
-                      />
+                      Cancel
                     </button>
-                  ))}
+                  </div>
                 </div>
-              </div>
-
-              <div className="mb-4">
-                <label className="block text-gray-300 text-sm font-medium mb-2">Comment (optional)</label>
-                <textarea
-                  value={ratingSubmission.comment}
-                  onChange={(e) =>
-                    setRatingSubmission({ ...ratingSubmission, comment: e.target.value })
-                  }
-                  placeholder="Share your experience with this service..."
-                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-rose-400"
-                  rows={3}
-                />
-              </div>
+              )}
 
-              {submitError && (
-                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded text-red-300 text-sm">
-                  {submitError}
+              {service.rating && (
+                <div className="mt-4 p-4 bg-white/5 border border-white/10 rounded-lg">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <div className="flex">
+                      {[...Array(5)].map((_, i) => (
+                        <Star
+                          key={i}
+                          className={`w-4 h-4 ${
+                            i < service.rating!
+                              ? 'text-yellow-400 fill-current'
+                              : 'text-gray-400'
+                          }`}
+                        />
+                      ))}
+                    </div>
+                    <span className="text-white font-medium">{service.rating}/5</span>
+                  </div>
+                  {service.review && (
+                    <p className="text-gray-300 text-sm">{service.review}</p>
+                  )}
                 </div>
               )}
 
-              <div className="flex space-x-2">
-                <button
-                  onClick={() => handleRatingSubmit(service.id)}
-                  className="flex-1 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium"
-                >
-                  Submit Rating
-                </button>
-                <button
-                  onClick={() => {
-                    setRatingingId(null);
-                    setRatingSubmission({ rating: 5, comment: '' });
-                  }}
-                  className="flex-1 px-4 py-2 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors font-medium"
-                >
-                  Cancel
-                </button>
-              </div>
-            </div>
-          )}
-
-          {service.rating && (
-            <div className="mt-4 p-4 bg-white/5 border border-white/10 rounded-lg">
-              <div className="flex items-center space-x-2 mb-2">
-                <div className="flex">
-                  {[...Array(5)].map((_, i) => (
-                    <Star
-                      key={i}
-                      className={`w-4 h-4 ${
-                        i < service.rating!
-                          ? 'text-yellow-400 fill-current'
-                          : 'text-gray-400'
-                      }`}
-                    />
-                  ))}
+              {submitSuccess && (
+                <div className="mt-4 p-3 bg-green-500/20 border border-green-500/30 rounded text-green-300 text-sm">
+                  {submitSuccess}
                 </div>
-                <span className="text-white font-medium">{service.rating}/5</span>
-              </div>
-              {service.review && (
-                <p className="text-gray-300 text-sm">{service.review}</p>
               )}
             </div>
-          )}
-
-          {submitSuccess && (
-            <div className="mt-4 p-3 bg-green-500/20 border border-green-500/30 rounded text-green-300 text-sm">
-              {submitSuccess}
-            </div>
-          )}
+          ))}
         </div>
-      ))}
+      )}
     </div>
   );
 }
@@ -8,6 +8,8 @@ import {
   Clock,
   ChevronRight,
   ArrowLeft,
+  Calendar,
+  Tag,
 } from 'lucide-react';
 import { PaymentMethodType } from '../lib/paymentMethodConfig';
 import {
@@ -20,7 +22,14 @@ import {
   getTierPrice as getMemberTierPrice,
   getTierConfig,
 } from '../lib/memberTierPricingConfig';
-import { PaymentOrchestration, PaymentInitRequest } from '../lib/paymentOrchestration';
+import {
+  PaymentOrchestration,
+  PaymentInitRequest,
+  MembershipSubscription,
+} from '../lib/paymentOrchestration';
+import { toProrationMetadata } from '../lib/membershipProrationConfig';
+import { getMembershipPrices } from '../lib/pricingCatalogService';
+import { evaluatePromoCodes, PromoEvaluation } from '../lib/promoCodeService';
 import PaymentMethodSelector from './PaymentMethodSelector';
 
 interface MembershipPaymentModalV2Props {
@@ -44,6 +53,7 @@ type ModalStep =
   | 'processing'
   | 'pending'
   | 'success'
+  | 'scheduled'
   | 'error';
 
 type StepConfig = {
@@ -90,6 +100,12 @@ const STEP_CONFIG: Record<ModalStep, StepConfig> = {
     description: 'Your upgrade is complete',
     order: 0,
   },
+  scheduled: {
+    step: 'scheduled',
+    title: 'Change Scheduled',
+    description: 'Your plan changes at the end of the billing period',
+    order: 0,
+  },
   error: {
     step: 'error',
     title: 'Payment Failed',
@@ -122,19 +138,117 @@ export default function MembershipPaymentModalV2({
   const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null);
   const [pendingStartTime, setPendingStartTime] = useState<number | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [subscription, setSubscription] = useState<MembershipSubscription | null>(null);
+
+  const [catalogPrices, setCatalogPrices] = useState<Record<BillingCycle, number> | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promo, setPromo] = useState<PromoEvaluation | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [promoValidating, setPromoValidating] = useState(false);
 
-  // Get pricing based on membership type
+  // Get pricing based on membership type; the pricing catalog wins once loaded
   const getTierPrice = useMemo(() => {
     return membershipType === 'member' ? getMemberTierPrice : getCreatorTierPrice;
   }, [membershipType]);
 
-  const monthlyPrice = getTierPrice(targetTier as any, 'monthly');
-  const annualPrice = getTierPrice(targetTier as any, 'annual');
+  const monthlyPrice = catalogPrices?.monthly ?? getTierPrice(targetTier as any, 'monthly');
+  const annualPrice = catalogPrices?.annual ?? getTierPrice(targetTier as any, 'annual');
   const monthlyEquivalent = annualPrice / 12;
   const moneySaved = monthlyPrice * 12 - annualPrice;
   const savingsPercentage = Math.round((moneySaved / (monthlyPrice * 12)) * 100);
 
-  const amount = billingCycle === 'monthly' ? monthlyPrice : annualPrice;
+  // Credit for the unused part of the current period, or a change scheduled for period end
+  const preview = useMemo(
+    () =>
+      PaymentOrchestration.previewPlanChange(
+        subscription,
+        membershipType,
+        currentTier,
+        targetTier,
+        billingCycle,
+        catalogPrices ?? undefined
+      ),
+    [subscription, membershipType, currentTier, targetTier, billingCycle, catalogPrices]
+  );
+  const isScheduledChange = preview?.timing === 'period_end';
+  const fullPrice = billingCycle === 'monthly' ? monthlyPrice : annualPrice;
+  // Promo codes apply to new subscriptions only, not to prorated plan changes
+  const canUsePromo = !preview || preview.kind === 'new';
+  const appliedPromo = canUsePromo && promo?.valid ? promo : null;
+  const amount = appliedPromo?.final_amount ?? (preview ? preview.amountDue : fullPrice);
+  const chargedCycle = preview?.billingCycle ?? billingCycle;
+
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  // Load the current subscription so plan changes can be prorated
+  useEffect(() => {
+    if (!isOpen || !userId) return;
+
+    let cancelled = false;
+    PaymentOrchestration.getSubscription(userId, membershipType).then((data) => {
+      if (cancelled) return;
+      setSubscription(data);
+      if (data && ['active', 'past_due'].includes(data.status)) {
+        // Same tier means the member is here to switch billing cycle
+        setBillingCycle(
+          targetTier === currentTier
+            ? data.billing_cycle === 'monthly'
+              ? 'annual'
+              : 'monthly'
+            : data.billing_cycle
+        );
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, userId, membershipType, currentTier, targetTier]);
+
+  // A promo is priced for one billing cycle
+  useEffect(() => {
+    setPromo(null);
+    setPromoError(null);
+  }, [billingCycle, targetTier]);
+
+  const handleApplyPromo = async () => {
+    const codes = [...(appliedPromo?.codes?.map((code) => code.code) ?? []), promoInput];
+    setPromoValidating(true);
+    setPromoError(null);
+
+    const result = await evaluatePromoCodes(codes, {
+      itemType: `${membershipType}_membership`,
+      itemRef: targetTier,
+      amount: fullPrice,
+      currency: 'USD',
+    });
+
+    setPromoValidating(false);
+
+    if (!result.valid) {
+      setPromoError(result.error || 'Invalid promo code');
+    } else if ((result.final_amount ?? 0) <= 0) {
+      setPromoError('Promo codes cannot cover the full price');
+    } else {
+      setPromo(result);
+      setPromoInput('');
+    }
+  };
+
+  // Load the target tier's prices from the pricing catalog
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    getMembershipPrices(membershipType, targetTier).then((prices) => {
+      if (!cancelled) setCatalogPrices(prices);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, membershipType, targetTier]);
 
   // Get tier display name
   const getTargetTierDisplayName = () => {
@@ -187,7 +301,7 @@ export default function MembershipPaymentModalV2({
           if (onPaymentSuccess) {
             onPaymentSuccess();
           }
-        } else if (status?.status === 'failed') {
+        } else if (status?.status === 'failed' || status?.status === 'expired') {
           setErrorMessage(status.error || 'Payment failed. Please try again.');
           setStep('error');
           clearInterval(pollInterval);
@@ -218,13 +332,53 @@ export default function MembershipPaymentModalV2({
     if (step === 'payment-method') {
       setStep('billing');
     } else if (step === 'review') {
-      setStep('payment-method');
+      setStep(isScheduledChange ? 'billing' : 'payment-method');
     }
   };
 
   const handleBillingContinue = () => {
     setErrorMessage(null);
-    setStep('payment-method');
+    // Scheduled changes charge nothing today, so there is no payment method to pick
+    setStep(isScheduledChange ? 'review' : 'payment-method');
+  };
+
+  const handleScheduleChange = async () => {
+    if (!subscription || !preview) return;
+    setErrorMessage(null);
+    setIsProcessing(true);
+
+    try {
+      const result = await PaymentOrchestration.schedulePlanChange(subscription.id, targetTier, preview.billingCycle);
+
+      if (!result.success) {
+        setErrorMessage(result.error || 'Could not schedule the plan change. Please try again.');
+        setStep('error');
+        return;
+      }
+
+      if (result.subscription) {
+        setSubscription(result.subscription);
+      }
+      setStep('scheduled');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancelScheduledChange = async () => {
+    if (!subscription) return;
+    setIsProcessing(true);
+
+    try {
+      const result = await PaymentOrchestration.cancelScheduledPlanChange(subscription.id);
+      if (result.success && result.subscription) {
+        setSubscription(result.subscription);
+      } else if (!result.success) {
+        setErrorMessage(result.error || 'Could not cancel the scheduled change.');
+      }
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const handleMethodContinue = () => {
@@ -242,12 +396,14 @@ export default function MembershipPaymentModalV2({
         currentTier: currentTier as any,
         targetTier: targetTier as any,
         amount,
-        billingCycle,
+        billingCycle: chargedCycle,
         paymentMethod,
         email: userEmail,
         phoneNumber,
         userName,
         membershipType,
+        proration: preview && preview.kind !== 'new' ? toProrationMetadata(preview) : undefined,
+        promoCodes: appliedPromo?.codes?.map((code) => code.code),
       };
 
       const result = await PaymentOrchestration.initializePayment(paymentRequest);
@@ -292,7 +448,7 @@ export default function MembershipPaymentModalV2({
   };
 
   const handleClose = () => {
-    if (step === 'success' || (!isProcessing && step !== 'processing' && step !== 'pending')) {
+    if (step === 'success' || step === 'scheduled' || (!isProcessing && step !== 'processing' && step !== 'pending')) {
       onClose();
       setStep('billing');
       setBillingCycle('monthly');
@@ -324,9 +480,11 @@ export default function MembershipPaymentModalV2({
             <div>
               <h2 id="modal-title" className="text-xl sm:text-2xl font-bold text-white">
                 {membershipType === 'member' ? 'Community Membership' : 'Creator Membership'} -{' '}
-                {currentStepConfig.title}
+                {step === 'review' && preview && preview.kind !== 'upgrade' && preview.kind !== 'new'
+                  ? 'Confirm Plan Change'
+                  : currentStepConfig.title}
               </h2>
-              {step !== 'success' && step !== 'error' && (
+              {step !== 'success' && step !== 'scheduled' && step !== 'error' && (
                 <p className="text-sm text-gray-400 mt-1">{currentStepConfig.description}</p>
               )}
             </div>
@@ -467,27 +625,94 @@ export default function MembershipPaymentModalV2({
                 </div>
               )}
 
+              {/* Scheduled change already pending */}
+              {subscription?.scheduled_tier && (
+                <div className="flex items-start gap-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                  <Calendar className="w-4 h-4 text-yellow-400 flex-shrink-0 mt-0.5" />
+                  <div className="text-xs text-yellow-200 flex-1">
+                    <p>
+                      A change to <span className="capitalize">{subscription.scheduled_tier}</span> (
+                      {subscription.scheduled_billing_cycle}) is scheduled for{' '}
+                      {formatDate(subscription.current_period_end)}.
+                    </p>
+                    <button
+                      onClick={handleCancelScheduledChange}
+                      disabled={isProcessing}
+                      className="mt-1 font-semibold text-yellow-300 hover:text-yellow-200 disabled:opacity-50"
+                    >
+                      Keep my current plan
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* Price Summary */}
-              <div className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-3">
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">
-                    {billingCycle === 'monthly' ? 'Monthly charge' : 'Annual charge'}
-                  </span>
-                  <span className="text-white font-semibold">${amount.toFixed(2)}</span>
+              {!preview ? (
+                <div className="bg-white/5 rounded-lg p-4 border border-white/10">
+                  <p className="text-sm text-gray-300">
+                    You're already on this plan. Choose the other billing cycle to switch.
+                  </p>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-400">
-                    Upgrade to{' '}
-                    {membershipType === 'member'
-                      ? getTierConfig(targetTier as MemberTier).displayName
-                      : (targetTier as string).charAt(0).toUpperCase() + (targetTier as string).slice(1)}
-                  </span>
+              ) : isScheduledChange ? (
+                <div className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-3">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Takes effect</span>
+                    <span className="text-white font-semibold">{formatDate(preview.effectiveAt)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">
+                      Then {preview.billingCycle === 'monthly' ? 'monthly' : 'annually'}
+                    </span>
+                    <span className="text-white font-semibold">${preview.fullPrice.toFixed(2)}</span>
+                  </div>
+                  <p className="text-xs text-gray-400">
+                    You keep your current plan until the end of the period you've paid for.
+                  </p>
+                  <div className="border-t border-white/10 pt-3 flex justify-between">
+                    <span className="text-white font-semibold">Total Due Today</span>
+                    <span className="text-rose-400 font-bold text-lg">$0.00</span>
+                  </div>
                 </div>
-                <div className="border-t border-white/10 pt-3 flex justify-between">
-                  <span className="text-white font-semibold">Total Due Today</span>
-                  <span className="text-rose-400 font-bold text-lg">${amount.toFixed(2)}</span>
+              ) : (
+                <div className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-3">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">
+                      {preview.keepsCurrentPeriod
+                        ? `${getTargetTierDisplayName()} until ${formatDate(preview.periodEnd)}`
+                        : chargedCycle === 'monthly'
+                          ? 'Monthly charge'
+                          : 'Annual charge'}
+                    </span>
+                    <span className="text-white font-semibold">
+                      ${(preview.amountDue + preview.credit).toFixed(2)}
+                    </span>
+                  </div>
+                  {preview.credit > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-400">Credit for unused time</span>
+                      <span className="text-green-400 font-semibold">-${preview.credit.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">
+                      {preview.kind === 'billing_cycle_change' ? 'Switch to' : 'Upgrade to'}{' '}
+                      {getTargetTierDisplayName()}
+                    </span>
+                  </div>
+                  {preview.keepsCurrentPeriod && (
+                    <p className="text-xs text-gray-400">
+                      Renews at ${preview.fullPrice.toFixed(2)}/
+                      {chargedCycle === 'monthly' ? 'month' : 'year'} on {formatDate(preview.periodEnd)}.
+                      {chargedCycle !== billingCycle &&
+                        ' Annual billing continues until then; switch to monthly after upgrading.'}
+                    </p>
+                  )}
+                  <div className="border-t border-white/10 pt-3 flex justify-between">
+                    <span className="text-white font-semibold">Total Due Today</span>
+                    <span className="text-rose-400 font-bold text-lg">${amount.toFixed(2)}</span>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
 
@@ -498,7 +723,8 @@ export default function MembershipPaymentModalV2({
                 <p className="text-xs sm:text-sm text-gray-400 mb-1">Amount to Pay</p>
                 <p className="text-3xl font-bold text-white">${amount.toFixed(2)}</p>
                 <p className="text-xs text-gray-400 mt-2">
-                  {billingCycle === 'monthly' ? 'Monthly' : 'Annual'} billing
+                  {chargedCycle === 'monthly' ? 'Monthly' : 'Annual'} billing
+                  {preview && preview.credit > 0 && ` (includes $${preview.credit.toFixed(2)} credit)`}
                 </p>
               </div>
 
@@ -563,27 +789,96 @@ export default function MembershipPaymentModalV2({
 
               {/* Payment Details */}
               <div className="bg-white/5 rounded-lg p-4 border border-white/10 space-y-3">
-                <p className="text-xs text-gray-400 mb-3">Payment Details</p>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-300">Amount</span>
-                  <span className="font-semibold text-white">${amount.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-300">Billing Cycle</span>
-                  <span className="font-semibold text-white capitalize">{billingCycle}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-300">Payment Method</span>
-                  <span className="font-semibold text-white capitalize">
-                    {paymentMethod.replace('_', ' ')}
-                  </span>
-                </div>
+                <p className="text-xs text-gray-400 mb-3">
+                  {isScheduledChange ? 'Change Details' : 'Payment Details'}
+                </p>
+                {isScheduledChange && preview ? (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">Takes Effect</span>
+                      <span className="font-semibold text-white">{formatDate(preview.effectiveAt)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">New Price</span>
+                      <span className="font-semibold text-white">
+                        ${preview.fullPrice.toFixed(2)}/{preview.billingCycle === 'monthly' ? 'month' : 'year'}
+                      </span>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    {preview && preview.credit > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-300">Unused Time Credit</span>
+                        <span className="font-semibold text-green-400">-${preview.credit.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {appliedPromo?.codes?.map((code) => (
+                      <div key={code.id} className="flex justify-between text-sm">
+                        <span className="text-gray-300">Promo {code.code}</span>
+                        <span className="font-semibold text-green-400">-${Number(code.discount_amount).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">Amount</span>
+                      <span className="font-semibold text-white">${amount.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">Billing Cycle</span>
+                      <span className="font-semibold text-white capitalize">{chargedCycle}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-300">Payment Method</span>
+                      <span className="font-semibold text-white capitalize">
+                        {paymentMethod.replace('_', ' ')}
+                      </span>
+                    </div>
+                  </>
+                )}
                 <div className="border-t border-white/10 pt-3 flex justify-between">
                   <span className="text-white font-semibold">Total Due Today</span>
                   <span className="text-rose-400 font-bold text-lg">${amount.toFixed(2)}</span>
                 </div>
               </div>
 
+              {/* Promo Code */}
+              {canUsePromo && !isScheduledChange && (
+                <div className="bg-white/5 rounded-lg p-4 border border-white/10">
+                  <p className="text-xs text-gray-400 mb-3">Promo Code</p>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={promoInput}
+                      onChange={(e) => {
+                        setPromoInput(e.target.value.toUpperCase());
+                        setPromoError(null);
+                      }}
+                      placeholder="Enter promo code"
+                      className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-gray-500 text-sm focus:outline-none focus:border-rose-400/50"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyPromo}
+                      disabled={promoValidating || !promoInput.trim()}
+                      className="px-4 py-2 bg-white/10 text-white text-sm font-semibold rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+                    >
+                      <Tag className="w-4 h-4" />
+                      {promoValidating ? 'Checking...' : 'Apply'}
+                    </button>
+                  </div>
+                  {promoError && <p className="text-red-400 text-xs mt-2">{promoError}</p>}
+                  {appliedPromo && (
+                    <button
+                      type="button"
+                      onClick={() => setPromo(null)}
+                      className="text-xs text-gray-400 hover:text-white mt-2"
+                    >
+                      Remove promo codes
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Terms */}
               <p className="text-xs text-gray-400 text-center">
                 By confirming, you agree to our{' '}
@@ -693,7 +988,7 @@ export default function MembershipPaymentModalV2({
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-400">Billing Cycle</span>
-                    <span className="text-white font-semibold capitalize">{billingCycle}</span>
+                    <span className="text-white font-semibold capitalize">{chargedCycle}</span>
                   </div>
                 </div>
 
@@ -709,6 +1004,40 @@ export default function MembershipPaymentModalV2({
             </div>
           )}
 
+          {/* Scheduled Change State */}
+          {step === 'scheduled' && preview && (
+            <div className="flex items-center justify-center py-8">
+              <div className="text-center space-y-6 max-w-sm">
+                <div className="flex justify-center">
+                  <div className="p-4 bg-blue-500/20 rounded-full">
+                    <Calendar className="w-12 h-12 text-blue-400" />
+                  </div>
+                </div>
+
+                <div>
+                  <p className="font-bold text-white text-xl">Plan Change Scheduled</p>
+                  <p className="text-sm text-gray-300 mt-2">
+                    You'll move to {getTargetTierDisplayName()} ({preview.billingCycle}) on{' '}
+                    {formatDate(preview.effectiveAt)}. Until then, nothing changes.
+                  </p>
+                </div>
+
+                <div className="bg-white/5 rounded-lg p-4 border border-white/10 text-left space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">Charged Today</span>
+                    <span className="text-white font-semibold">$0.00</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-400">From {formatDate(preview.effectiveAt)}</span>
+                    <span className="text-white font-semibold">
+                      ${preview.fullPrice.toFixed(2)}/{preview.billingCycle === 'monthly' ? 'month' : 'year'}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Error State */}
           {step === 'error' && (
             <div className="flex items-center justify-center py-8">
@@ -741,10 +1070,11 @@ export default function MembershipPaymentModalV2({
           {step === 'billing' && (
             <button
               onClick={handleBillingContinue}
-              className="w-full py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg hover:shadow-rose-500/50 transition-all"
-              aria-label="Continue to payment method selection"
+              disabled={!preview}
+              className="w-full py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg hover:shadow-rose-500/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={isScheduledChange ? 'Continue to review plan change' : 'Continue to payment method selection'}
             >
-              Continue to Payment Method
+              {isScheduledChange ? 'Review Plan Change' : 'Continue to Payment Method'}
             </button>
           )}
 
@@ -779,17 +1109,17 @@ export default function MembershipPaymentModalV2({
                 Back
               </button>
               <button
-                onClick={handleReviewContinue}
+                onClick={isScheduledChange ? handleScheduleChange : handleReviewContinue}
                 disabled={isProcessing}
                 className="flex-1 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg hover:shadow-rose-500/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                aria-label="Complete payment"
+                aria-label={isScheduledChange ? 'Schedule plan change' : 'Complete payment'}
               >
-                {isProcessing ? 'Processing...' : 'Confirm & Pay'}
+                {isProcessing ? 'Processing...' : isScheduledChange ? 'Confirm Change' : 'Confirm & Pay'}
               </button>
             </div>
           )}
 
-          {step === 'success' && (
+          {(step === 'success' || step === 'scheduled') && (
             <button
               onClick={handleClose}
               className="w-full py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg hover:shadow-rose-500/50 transition-all"
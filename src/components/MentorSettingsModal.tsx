@@ -0,0 +1,417 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader, AlertCircle, Plus, Trash2 } from 'lucide-react';
+import {
+  MentorAvailabilityWindow,
+  MentorProfile,
+  MentorSessionType,
+  WEEKDAY_LABELS,
+  getMentorSetup,
+  saveMentorSetup,
+} from '../lib/mentorshipService';
+import { WORKSHOP_TIMEZONES, getBrowserTimezone } from '../lib/workshopService';
+
+interface MentorSettingsModalProps {
+  isOpen: boolean;
+  userId: string;
+  /** Prefills the display name for first-time mentors */
+  defaultName: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+type EditableSessionType = Omit<MentorSessionType, 'id' | 'mentor_id'> & { id?: string };
+
+const CURRENCIES = ['UGX', 'KES', 'USD', 'EUR', 'GBP'];
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+const compactInputClass =
+  'px-3 py-2 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white text-sm focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+const labelClass = 'block text-sm font-semibold text-slate-200 mb-2';
+
+function defaultProfile(name: string): Omit<MentorProfile, 'user_id'> {
+  return {
+    display_name: name,
+    headline: '',
+    bio: '',
+    expertise: [],
+    timezone: getBrowserTimezone(),
+    is_active: true,
+    slot_interval_minutes: 30,
+    min_booking_notice_hours: 12,
+    cancellation_notice_hours: 24,
+    reschedule_notice_hours: 24,
+    max_reschedules: 2,
+  };
+}
+
+/**
+ * Mentor profile, booking policies, weekly availability and the session
+ * types students can book
+ */
+export default function MentorSettingsModal({ isOpen, userId, defaultName, onClose, onSaved }: MentorSettingsModalProps) {
+  const [profile, setProfile] = useState<Omit<MentorProfile, 'user_id'>>(defaultProfile(defaultName));
+  const [expertiseText, setExpertiseText] = useState('');
+  const [availability, setAvailability] = useState<MentorAvailabilityWindow[]>([]);
+  const [sessionTypes, setSessionTypes] = useState<EditableSessionType[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setLoading(true);
+    setError(null);
+
+    getMentorSetup(userId).then((setup) => {
+      const editable = setup.profile || defaultProfile(defaultName);
+
+      setProfile(editable);
+      setExpertiseText(editable.expertise.join(', '));
+      setAvailability(setup.availability);
+      setSessionTypes(setup.sessionTypes.filter((type) => type.is_active));
+      setLoading(false);
+    });
+  }, [isOpen, userId, defaultName]);
+
+  if (!isOpen) return null;
+
+  const updateProfile = <K extends keyof Omit<MentorProfile, 'user_id'>>(key: K, value: MentorProfile[K]) => {
+    setProfile((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateWindow = (index: number, changes: Partial<MentorAvailabilityWindow>) => {
+    setAvailability((prev) => prev.map((window, i) => (i === index ? { ...window, ...changes } : window)));
+  };
+
+  const updateSessionType = (index: number, changes: Partial<EditableSessionType>) => {
+    setSessionTypes((prev) => prev.map((type, i) => (i === index ? { ...type, ...changes } : type)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    setError(null);
+
+    const result = await saveMentorSetup(
+      userId,
+      {
+        ...profile,
+        expertise: expertiseText
+          .split(',')
+          .map((item) => item.trim())
+          .filter(Boolean),
+      },
+      availability,
+      sessionTypes
+    );
+
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to save mentor settings');
+      return;
+    }
+
+    onSaved();
+    onClose();
+  };
+
+  const timezoneOptions = WORKSHOP_TIMEZONES.includes(profile.timezone)
+    ? WORKSHOP_TIMEZONES
+    : [profile.timezone, ...WORKSHOP_TIMEZONES];
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">Mentor Settings</h2>
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-6 h-6 text-rose-400 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-8">
+            <section className="space-y-4">
+              <div>
+                <label className={labelClass}>Name *</label>
+                <input
+                  value={profile.display_name}
+                  onChange={(e) => updateProfile('display_name', e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Headline</label>
+                <input
+                  value={profile.headline || ''}
+                  onChange={(e) => updateProfile('headline', e.target.value)}
+                  placeholder="e.g. Music producer, 10 years in the industry"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>About</label>
+                <textarea
+                  value={profile.bio || ''}
+                  onChange={(e) => updateProfile('bio', e.target.value)}
+                  rows={3}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Expertise</label>
+                <input
+                  value={expertiseText}
+                  onChange={(e) => setExpertiseText(e.target.value)}
+                  placeholder="Comma separated, e.g. Songwriting, Branding"
+                  className={inputClass}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={profile.is_active}
+                  onChange={(e) => updateProfile('is_active', e.target.checked)}
+                  className="rounded"
+                />
+                Accepting new bookings
+              </label>
+            </section>
+
+            <section>
+              <h3 className="text-lg font-semibold text-white mb-3">Weekly Availability</h3>
+              <div className="mb-3">
+                <label className={labelClass}>Timezone</label>
+                <select
+                  value={profile.timezone}
+                  onChange={(e) => updateProfile('timezone', e.target.value)}
+                  className={inputClass}
+                >
+                  {timezoneOptions.map((zone) => (
+                    <option key={zone} value={zone} className="bg-gray-800">
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                {availability.map((window, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      value={window.weekday}
+                      onChange={(e) => updateWindow(index, { weekday: Number(e.target.value) })}
+                      className={`${compactInputClass} flex-1`}
+                    >
+                      {WEEKDAY_LABELS.map((label, weekday) => (
+                        <option key={label} value={weekday} className="bg-gray-800">
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="time"
+                      value={window.start_time}
+                      onChange={(e) => updateWindow(index, { start_time: e.target.value })}
+                      className={compactInputClass}
+                    />
+                    <span className="text-slate-400 text-sm">to</span>
+                    <input
+                      type="time"
+                      value={window.end_time}
+                      onChange={(e) => updateWindow(index, { end_time: e.target.value })}
+                      className={compactInputClass}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setAvailability((prev) => prev.filter((_, i) => i !== index))}
+                      className="p-2 text-slate-400 hover:text-red-400"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => setAvailability((prev) => [...prev, { weekday: 1, start_time: '09:00', end_time: '12:00' }])}
+                className="flex items-center gap-1 mt-3 text-sm text-rose-400 hover:text-rose-300"
+              >
+                <Plus className="w-4 h-4" />
+                Add time window
+              </button>
+            </section>
+
+            <section>
+              <h3 className="text-lg font-semibold text-white mb-3">Session Types</h3>
+              <div className="space-y-3">
+                {sessionTypes.map((type, index) => (
+                  <div key={type.id || index} className="p-4 bg-slate-700/30 border border-slate-600/50 rounded-xl space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={type.title}
+                        onChange={(e) => updateSessionType(index, { title: e.target.value })}
+                        placeholder="e.g. Portfolio review"
+                        className={`${compactInputClass} flex-1`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setSessionTypes((prev) => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-slate-400 hover:text-red-400"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <textarea
+                      value={type.description || ''}
+                      onChange={(e) => updateSessionType(index, { description: e.target.value })}
+                      placeholder="What the session covers"
+                      rows={2}
+                      className={`${compactInputClass} w-full`}
+                    />
+                    <div className="grid grid-cols-3 gap-2">
+                      <input
+                        type="number"
+                        min={15}
+                        step={15}
+                        value={type.duration_minutes}
+                        onChange={(e) => updateSessionType(index, { duration_minutes: Number(e.target.value) })}
+                        title="Duration (minutes)"
+                        className={compactInputClass}
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={type.price}
+                        onChange={(e) => updateSessionType(index, { price: Number(e.target.value) })}
+                        title="Price (0 for free)"
+                        className={compactInputClass}
+                      />
+                      <select
+                        value={type.currency}
+                        onChange={(e) => updateSessionType(index, { currency: e.target.value })}
+                        className={compactInputClass}
+                      >
+                        {CURRENCIES.map((code) => (
+                          <option key={code} value={code} className="bg-gray-800">
+                            {code}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <p className="text-xs text-slate-400">Minutes · price (0 for free) · currency</p>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  setSessionTypes((prev) => [
+                    ...prev,
+                    { title: '', description: '', duration_minutes: 60, price: 0, currency: 'UGX', is_active: true },
+                  ])
+                }
+                className="flex items-center gap-1 mt-3 text-sm text-rose-400 hover:text-rose-300"
+              >
+                <Plus className="w-4 h-4" />
+                Add session type
+              </button>
+            </section>
+
+            <section>
+              <h3 className="text-lg font-semibold text-white mb-3">Booking Policies</h3>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Start times every (minutes)</label>
+                  <input
+                    type="number"
+                    min={5}
+                    max={240}
+                    value={profile.slot_interval_minutes}
+                    onChange={(e) => updateProfile('slot_interval_minutes', Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Minimum booking notice (hours)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={profile.min_booking_notice_hours}
+                    onChange={(e) => updateProfile('min_booking_notice_hours', Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Free cancellation until (hours before)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={profile.cancellation_notice_hours}
+                    onChange={(e) => updateProfile('cancellation_notice_hours', Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Rescheduling until (hours before)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={profile.reschedule_notice_hours}
+                    onChange={(e) => updateProfile('reschedule_notice_hours', Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Reschedules allowed per booking</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={profile.max_reschedules}
+                    onChange={(e) => updateProfile('max_reschedules', Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-400 mt-2">
+                Students who cancel a paid session later than this are not refunded. You can always cancel or move a
+                session yourself.
+              </p>
+            </section>
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+            >
+              {saving && <Loader className="w-4 h-4 animate-spin" />}
+              Save Settings
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
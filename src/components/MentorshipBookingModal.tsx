@@ -0,0 +1,398 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { X, Loader, AlertCircle, Clock, ArrowLeft } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { PaymentOrchestration } from '../lib/paymentOrchestration';
+import { PaymentMethodType } from '../lib/paymentMethodConfig';
+import {
+  MENTORSHIP_HOLD_MINUTES,
+  MentorSessionType,
+  MentorSlot,
+  MentorWithSessionTypes,
+  MentorshipBooking,
+  bookMentorshipSession,
+  getOpenSlots,
+  rescheduleMentorshipBooking,
+} from '../lib/mentorshipService';
+import PaymentMethodSelector from './PaymentMethodSelector';
+
+interface MentorshipBookingModalProps {
+  /** Mentor to book a new session with */
+  mentor: MentorWithSessionTypes | null;
+  /**
+   * Existing booking: a confirmed one is rescheduled, a pending_payment
+   * one goes straight to checkout
+   */
+  booking?: MentorshipBooking | null;
+  onClose: () => void;
+  onChanged: (message: string) => void;
+}
+
+type Step = 'type' | 'slot' | 'checkout';
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+function formatSlotDay(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+function formatSlotTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Book, reschedule or pay for a mentorship session. Times are shown in
+ * the viewer's own timezone; the slots themselves come from the
+ * mentor's availability on the server.
+ */
+export default function MentorshipBookingModal({ mentor, booking, onClose, onChanged }: MentorshipBookingModalProps) {
+  const { user, profile } = useAuth();
+  const [step, setStep] = useState<Step>('type');
+  const [sessionType, setSessionType] = useState<MentorSessionType | null>(null);
+  const [slots, setSlots] = useState<MentorSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [pendingBooking, setPendingBooking] = useState<MentorshipBooking | null>(null);
+  const [email, setEmail] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodType>('card');
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = Boolean(mentor || booking);
+  const isReschedule = booking?.status === 'confirmed';
+
+  const loadSlots = useCallback(async (sessionTypeId: string, excludeBookingId?: string) => {
+    setLoadingSlots(true);
+    const openSlots = await getOpenSlots(sessionTypeId, { excludeBookingId });
+    setSlots(openSlots);
+    setLoadingSlots(false);
+  }, []);
+
+  const handleSelectType = useCallback(
+    (type: MentorSessionType) => {
+      setSessionType(type);
+      setSelectedSlot(null);
+      setStep('slot');
+      loadSlots(type.id);
+    },
+    [loadSlots]
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setSelectedSlot(null);
+    setNote('');
+    setError(null);
+    setEmail(profile?.email || '');
+    setPhoneNumber('');
+
+    if (booking?.status === 'pending_payment') {
+      setPendingBooking(booking);
+      setStep('checkout');
+      return;
+    }
+
+    setPendingBooking(null);
+
+    if (booking?.session_type_id) {
+      setSessionType(null);
+      loadSlots(booking.session_type_id, booking.id);
+      setStep('slot');
+      return;
+    }
+
+    const types = mentor?.session_types || [];
+    if (types.length === 1) {
+      handleSelectType(types[0]);
+    } else {
+      setSessionType(null);
+      setStep('type');
+    }
+  }, [mentor, booking, isOpen, profile?.email, loadSlots, handleSelectType]);
+
+  const slotsByDay = useMemo(() => {
+    const groups: { day: string; slots: MentorSlot[] }[] = [];
+    slots.forEach((slot) => {
+      const day = formatSlotDay(slot.slot_start);
+      const group = groups[groups.length - 1];
+      if (group && group.day === day) {
+        group.slots.push(slot);
+      } else {
+        groups.push({ day, slots: [slot] });
+      }
+    });
+    return groups;
+  }, [slots]);
+
+  if (!isOpen) return null;
+
+  const handleConfirmSlot = async () => {
+    if (!selectedSlot) return;
+    if (!user) {
+      setError('Please sign in to book a session');
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    if (isReschedule && booking) {
+      const result = await rescheduleMentorshipBooking(booking.id, selectedSlot);
+      setProcessing(false);
+
+      if (!result.success) {
+        setError(result.error || 'Failed to reschedule');
+        loadSlots(booking.session_type_id as string, booking.id);
+        return;
+      }
+
+      onChanged('Session rescheduled. Download the updated calendar invite from My Sessions.');
+      onClose();
+      return;
+    }
+
+    if (!sessionType) return;
+
+    const result = await bookMentorshipSession(sessionType.id, selectedSlot, note.trim());
+    setProcessing(false);
+
+    if (!result.success || !result.booking) {
+      setError(result.error || 'Failed to book session');
+      loadSlots(sessionType.id);
+      return;
+    }
+
+    if (result.booking.status === 'pending_payment') {
+      setPendingBooking(result.booking);
+      setStep('checkout');
+      return;
+    }
+
+    onChanged('Session booked! Add it to your calendar from My Sessions.');
+    onClose();
+  };
+
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user || !pendingBooking) return;
+    if (!email.trim()) {
+      setError('Email is required');
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    const result = await PaymentOrchestration.initializePurchase({
+      itemType: 'mentorship_session',
+      itemRef: pendingBooking.id,
+      userId: user.id,
+      amount: Number(pendingBooking.price),
+      currency: pendingBooking.currency,
+      paymentMethod,
+      email: email.trim(),
+      phoneNumber,
+      userName: profile?.name || '',
+    });
+
+    if (!result.success || !result.checkoutUrl) {
+      setProcessing(false);
+      setError(result.error || 'Payment initialization failed');
+      return;
+    }
+
+    // Picked up by the order callback page while the webhook fulfils the order
+    sessionStorage.setItem('pendingEnrollment', JSON.stringify({ orderId: result.orderId, userId: user.id }));
+    window.location.href = result.checkoutUrl;
+  };
+
+  const title = isReschedule ? 'Reschedule Session' : step === 'checkout' ? 'Complete Your Booking' : 'Book a Session';
+  const otherParty =
+    booking && booking.mentor_id === user?.id
+      ? booking.student_name || 'your student'
+      : mentor?.display_name || booking?.mentor_name || 'Mentor';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{title}</h2>
+            <p className="text-sm text-slate-400 mt-1">with {otherParty}</p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={processing}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {step === 'type' && mentor && (
+          <div className="space-y-3">
+            {mentor.session_types.map((type) => (
+              <button
+                key={type.id}
+                onClick={() => handleSelectType(type)}
+                className="w-full text-left p-4 bg-slate-700/30 border border-slate-600/50 rounded-xl hover:border-rose-400/50 transition-colors"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-semibold">{type.title}</span>
+                  <span className="text-rose-400 font-bold text-sm">
+                    {Number(type.price) > 0 ? `${type.currency} ${Number(type.price).toLocaleString()}` : 'Free'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 text-xs text-slate-400 mt-1">
+                  <Clock className="w-3 h-3" />
+                  {type.duration_minutes} min
+                </div>
+                {type.description && <p className="text-sm text-slate-300 mt-2">{type.description}</p>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {step === 'slot' && (
+          <div>
+            {!isReschedule && mentor && mentor.session_types.length > 1 && (
+              <button
+                onClick={() => setStep('type')}
+                className="flex items-center gap-1 text-sm text-slate-400 hover:text-white mb-4"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                {sessionType?.title}
+              </button>
+            )}
+            {isReschedule && booking && (
+              <p className="text-sm text-slate-300 mb-4">
+                Currently {formatSlotDay(booking.starts_at)} at {formatSlotTime(booking.starts_at)}. Pick a new time.
+              </p>
+            )}
+
+            {loadingSlots ? (
+              <div className="flex justify-center py-8">
+                <Loader className="w-6 h-6 text-rose-400 animate-spin" />
+              </div>
+            ) : slotsByDay.length === 0 ? (
+              <p className="text-sm text-slate-400 py-4">No open times in the next two weeks. Check back later.</p>
+            ) : (
+              <div className="space-y-4 max-h-72 overflow-y-auto pr-1">
+                {slotsByDay.map((group) => (
+                  <div key={group.day}>
+                    <div className="text-xs font-semibold text-slate-400 uppercase mb-2">{group.day}</div>
+                    <div className="flex flex-wrap gap-2">
+                      {group.slots.map((slot) => (
+                        <button
+                          key={slot.slot_start}
+                          onClick={() => setSelectedSlot(slot.slot_start)}
+                          className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                            selectedSlot === slot.slot_start
+                              ? 'bg-rose-500/20 border-rose-400 text-white'
+                              : 'border-slate-600/50 text-slate-300 hover:border-rose-400/50'
+                          }`}
+                        >
+                          {formatSlotTime(slot.slot_start)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!isReschedule && (
+              <div className="mt-5">
+                <label className="block text-sm font-semibold text-slate-200 mb-2">What would you like to cover?</label>
+                <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} className={inputClass} />
+              </div>
+            )}
+
+            {sessionType && Number(sessionType.price) > 0 && (
+              <p className="text-xs text-slate-400 mt-3">
+                The time is held for {MENTORSHIP_HOLD_MINUTES} minutes while you pay {sessionType.currency}{' '}
+                {Number(sessionType.price).toLocaleString()}.
+              </p>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              onClick={handleConfirmSlot}
+              disabled={!selectedSlot || processing}
+              className="w-full flex items-center justify-center gap-2 mt-5 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+            >
+              {processing && <Loader className="w-4 h-4 animate-spin" />}
+              {isReschedule ? 'Move Session' : sessionType && Number(sessionType.price) > 0 ? 'Continue' : 'Book Session'}
+            </button>
+          </div>
+        )}
+
+        {step === 'checkout' && pendingBooking && (
+          <form onSubmit={handleCheckout} className="space-y-4">
+            <div className="p-5 bg-slate-700/30 border border-slate-600/50 rounded-xl">
+              <h3 className="text-white font-semibold">{pendingBooking.session_title}</h3>
+              <p className="text-gray-400 text-xs mt-1">
+                {formatSlotDay(pendingBooking.starts_at)} at {formatSlotTime(pendingBooking.starts_at)}
+              </p>
+              <p className="text-rose-400 font-bold text-sm mt-2">
+                {pendingBooking.currency} {Number(pendingBooking.price).toLocaleString()}
+              </p>
+              {pendingBooking.hold_expires_at && (
+                <p className="text-xs text-slate-400 mt-2">
+                  Held for you until {formatSlotTime(pendingBooking.hold_expires_at)}.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-200 mb-2">Email *</label>
+              <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-200 mb-2">Phone Number</label>
+              <input
+                type="tel"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                placeholder="Needed for mobile money"
+                className={inputClass}
+              />
+            </div>
+
+            <PaymentMethodSelector
+              selectedMethod={paymentMethod}
+              onMethodChange={setPaymentMethod}
+              currency={pendingBooking.currency}
+            />
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={processing}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+            >
+              {processing && <Loader className="w-4 h-4 animate-spin" />}
+              Continue to Payment
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
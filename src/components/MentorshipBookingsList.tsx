@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { Calendar, Download, ExternalLink, Link2, Loader, RefreshCw, XCircle } from 'lucide-react';
+import { downloadCalendarInvite, generateGoogleCalendarInviteUrl } from '../lib/calendarSyncService';
+import {
+  MentorshipBooking,
+  cancelMentorshipBooking,
+  getBookingCalendarInvite,
+  setBookingMeetingUrl,
+} from '../lib/mentorshipService';
+
+interface MentorshipBookingsListProps {
+  userId: string;
+  bookings: MentorshipBooking[];
+  /** Open the booking modal to reschedule or finish paying for a booking */
+  onOpenBooking: (booking: MentorshipBooking) => void;
+  onChanged: (message: string) => void;
+}
+
+function formatBookingTime(booking: MentorshipBooking): string {
+  const start = new Date(booking.starts_at);
+  const end = new Date(booking.ends_at);
+  return `${start.toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })} · ${start.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })} – ${end.toLocaleTimeString(
+    undefined,
+    { hour: 'numeric', minute: '2-digit' }
+  )}`;
+}
+
+/**
+ * A user's mentorship sessions from both sides: the ones they booked
+ * and, for mentors, the ones booked with them
+ */
+export default function MentorshipBookingsList({ userId, bookings, onOpenBooking, onChanged }: MentorshipBookingsListProps) {
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [editingLinkId, setEditingLinkId] = useState<string | null>(null);
+  const [meetingUrl, setMeetingUrl] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const now = Date.now();
+  const upcoming = bookings.filter(
+    (booking) => booking.status !== 'cancelled' && new Date(booking.ends_at).getTime() > now
+  );
+  const past = bookings
+    .filter((booking) => booking.status === 'cancelled' || new Date(booking.ends_at).getTime() <= now)
+    .reverse()
+    .slice(0, 10);
+
+  const handleCancel = async (booking: MentorshipBooking) => {
+    setBusyId(booking.id);
+    setError(null);
+
+    const result = await cancelMentorshipBooking(booking.id, cancelReason);
+
+    setBusyId(null);
+
+    if (!result.success || !result.booking) {
+      setError(result.error || 'Failed to cancel booking');
+      return;
+    }
+
+    setCancellingId(null);
+    setCancelReason('');
+
+    // A CANCEL invite with the same uid removes the session from the calendar
+    if (booking.status === 'confirmed') {
+      downloadCalendarInvite(getBookingCalendarInvite(result.booking, userId));
+    }
+
+    if (result.booking.refund_eligible) {
+      onChanged('Session cancelled. The payment will be refunded.');
+    } else if (booking.status === 'confirmed' && Number(booking.price) > 0 && booking.student_id === userId) {
+      onChanged('Session cancelled. It was inside the cancellation notice, so it is not refundable.');
+    } else {
+      onChanged('Session cancelled.');
+    }
+  };
+
+  const handleSaveLink = async (booking: MentorshipBooking) => {
+    setBusyId(booking.id);
+    setError(null);
+
+    const result = await setBookingMeetingUrl(booking.id, meetingUrl);
+
+    setBusyId(null);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to save meeting link');
+      return;
+    }
+
+    setEditingLinkId(null);
+    onChanged('Meeting link saved. Download the updated invite to share it.');
+  };
+
+  const renderBooking = (booking: MentorshipBooking, isUpcoming: boolean) => {
+    const isMentor = booking.mentor_id === userId;
+    const invite = getBookingCalendarInvite(booking, userId);
+    const busy = busyId === booking.id;
+
+    return (
+      <div key={booking.id} className="glass-effect p-5 rounded-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h4 className="text-white font-semibold">{booking.session_title}</h4>
+            <p className="text-sm text-gray-300">
+              {isMentor ? `With ${booking.student_name || 'a student'}` : `With ${booking.mentor_name || 'your mentor'}`}
+            </p>
+            <p className="text-xs text-gray-400 mt-1">{formatBookingTime(booking)}</p>
+            {isMentor && booking.student_note && (
+              <p className="text-xs text-gray-300 mt-2 italic">“{booking.student_note}”</p>
+            )}
+          </div>
+          <span
+            className={`text-xs px-2 py-1 rounded-full flex-shrink-0 ${
+              booking.status === 'confirmed'
+                ? 'bg-green-500/20 text-green-300'
+                : booking.status === 'pending_payment'
+                ? 'bg-yellow-500/20 text-yellow-300'
+                : 'bg-gray-500/20 text-gray-300'
+            }`}
+          >
+            {booking.status === 'pending_payment'
+              ? 'Awaiting payment'
+              : booking.status === 'cancelled'
+              ? booking.refund_eligible
+                ? 'Cancelled · refund due'
+                : 'Cancelled'
+              : isUpcoming
+              ? 'Confirmed'
+              : 'Completed'}
+          </span>
+        </div>
+
+        {isUpcoming && booking.status === 'confirmed' && (
+          <>
+            {booking.meeting_url && editingLinkId !== booking.id && (
+              <a
+                href={booking.meeting_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 mt-3 text-sm text-rose-400 hover:text-rose-300"
+              >
+                <ExternalLink className="w-4 h-4" />
+                Join meeting
+              </a>
+            )}
+
+            {editingLinkId === booking.id && (
+              <div className="flex gap-2 mt-3">
+                <input
+                  type="url"
+                  value={meetingUrl}
+                  onChange={(e) => setMeetingUrl(e.target.value)}
+                  placeholder="https://..."
+                  className="flex-1 px-3 py-2 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white text-sm"
+                />
+                <button
+                  onClick={() => handleSaveLink(booking)}
+                  disabled={busy}
+                  className="px-3 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg disabled:opacity-60"
+                >
+                  Save
+                </button>
+                <button onClick={() => setEditingLinkId(null)} className="px-3 py-2 text-sm text-gray-300">
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {cancellingId === booking.id ? (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Let them know why (optional)"
+                  rows={2}
+                  className="w-full px-3 py-2 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white text-sm"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleCancel(booking)}
+                    disabled={busy}
+                    className="flex items-center gap-1 px-3 py-2 border border-red-500/40 text-red-400 text-sm rounded-lg hover:bg-red-500/10 disabled:opacity-60"
+                  >
+                    {busy && <Loader className="w-4 h-4 animate-spin" />}
+                    Cancel session
+                  </button>
+                  <button onClick={() => setCancellingId(null)} className="px-3 py-2 text-sm text-gray-300">
+                    Keep it
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-3 mt-4 text-sm">
+                <button
+                  onClick={() => downloadCalendarInvite(invite)}
+                  className="flex items-center gap-1 text-gray-300 hover:text-white"
+                >
+                  <Download className="w-4 h-4" />
+                  Calendar invite
+                </button>
+                <a
+                  href={generateGoogleCalendarInviteUrl(invite)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-gray-300 hover:text-white"
+                >
+                  <Calendar className="w-4 h-4" />
+                  Google Calendar
+                </a>
+                {isMentor && (
+                  <button
+                    onClick={() => {
+                      setEditingLinkId(booking.id);
+                      setMeetingUrl(booking.meeting_url || '');
+                    }}
+                    className="flex items-center gap-1 text-gray-300 hover:text-white"
+                  >
+                    <Link2 className="w-4 h-4" />
+                    {booking.meeting_url ? 'Edit link' : 'Add meeting link'}
+                  </button>
+                )}
+                {booking.session_type_id && (
+                  <button
+                    onClick={() => onOpenBooking(booking)}
+                    className="flex items-center gap-1 text-gray-300 hover:text-white"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    Reschedule
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setCancellingId(booking.id);
+                    setCancelReason('');
+                  }}
+                  className="flex items-center gap-1 text-red-400 hover:text-red-300"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Cancel
+                </button>
+              </div>
+            )}
+          </>
+        )}
+
+        {isUpcoming && booking.status === 'pending_payment' && !isMentor && (
+          <div className="flex gap-3 mt-4 text-sm">
+            <button
+              onClick={() => onOpenBooking(booking)}
+              className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg"
+            >
+              Complete payment
+            </button>
+            <button
+              onClick={() => handleCancel(booking)}
+              disabled={busy}
+              className="text-red-400 hover:text-red-300 disabled:opacity-60"
+            >
+              Release slot
+            </button>
+          </div>
+        )}
+
+        {booking.status === 'cancelled' && booking.cancellation_reason && (
+          <p className="text-xs text-gray-400 mt-2">Reason: {booking.cancellation_reason}</p>
+        )}
+      </div>
+    );
+  };
+
+  if (bookings.length === 0) {
+    return <p className="text-gray-400 text-sm">No mentorship sessions yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+      )}
+
+      {upcoming.length > 0 && <div className="space-y-3">{upcoming.map((booking) => renderBooking(booking, true))}</div>}
+
+      {past.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-400 uppercase mb-3">Past &amp; cancelled</h4>
+          <div className="space-y-3">{past.map((booking) => renderBooking(booking, false))}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,8 +6,18 @@ interface MuxPlayerProps {
   title?: string;
   onDurationChange?: (duration: number) => void;
   onViewTracked?: () => void;
+  /** Position (seconds) to resume playback from */
+  startTime?: number;
+  /**
+   * Called every few seconds while playing and on pause/end with the
+   * current position, the video duration and the seconds actually played
+   * since the previous call (seeking does not count as watching)
+   */
+  onProgress?: (positionSeconds: number, durationSeconds: number, watchedSeconds: number) => void;
 }
 
+const PROGRESS_REPORT_INTERVAL_MS = 10000;
+
 declare global {
   namespace JSX {
     interface IntrinsicElements {
@@ -21,6 +31,7 @@ interface MuxPlayerElement extends React.DetailedHTMLProps<React.HTMLAttributes<
   'poster'?: string;
   'metadata-video-title'?: string;
   'stream-type'?: string;
+  'start-time'?: number;
   'controls'?: boolean;
   ref?: React.Ref<HTMLElement>;
 }
@@ -31,8 +42,12 @@ export default function MuxPlayer({
   title,
   onDurationChange,
   onViewTracked,
+  startTime,
+  onProgress,
 }: MuxPlayerProps) {
   const playerRef = useRef<HTMLElement>(null);
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
   const [isPlaying, setIsPlaying] = useState(false);
   const [hasTrackedView, setHasTrackedView] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -94,6 +109,57 @@ export default function MuxPlayer({
     };
   }, [onDurationChange, onViewTracked, hasTrackedView]);
 
+  // Accumulate real playback time and report it periodically
+  useEffect(() => {
+    if (!playerRef.current) return;
+
+    // <mux-player> exposes the HTMLMediaElement playback API
+    const player = playerRef.current as unknown as HTMLMediaElement;
+    let lastTime = player.currentTime || 0;
+    let watchedSinceReport = 0;
+    let lastReportAt = Date.now();
+
+    const report = () => {
+      if (!onProgressRef.current || !player.duration) return;
+      onProgressRef.current(player.currentTime || 0, player.duration, watchedSinceReport);
+      watchedSinceReport = 0;
+      lastReportAt = Date.now();
+    };
+
+    const handleTimeUpdate = () => {
+      const currentTime = player.currentTime || 0;
+      const delta = currentTime - lastTime;
+      // Normal playback advances in small steps; larger jumps are seeks
+      if (!player.seeking && !player.paused && delta > 0 && delta < 2) {
+        watchedSinceReport += delta;
+      }
+      lastTime = currentTime;
+
+      if (Date.now() - lastReportAt >= PROGRESS_REPORT_INTERVAL_MS) {
+        report();
+      }
+    };
+
+    const handleSeeked = () => {
+      lastTime = player.currentTime || 0;
+    };
+
+    player.addEventListener('timeupdate', handleTimeUpdate);
+    player.addEventListener('seeked', handleSeeked);
+    player.addEventListener('pause', report);
+    player.addEventListener('ended', report);
+
+    return () => {
+      player.removeEventListener('timeupdate', handleTimeUpdate);
+      player.removeEventListener('seeked', handleSeeked);
+      player.removeEventListener('pause', report);
+      player.removeEventListener('ended', report);
+      if (watchedSinceReport > 0) {
+        report();
+      }
+    };
+  }, [playbackId]);
+
   if (error) {
     return (
       <div className="w-full bg-black rounded-lg flex items-center justify-center" style={{ aspectRatio: '16/9' }}>
@@ -113,6 +179,7 @@ export default function MuxPlayer({
         poster={thumbnailUrl}
         metadata-video-title={title || 'Video'}
         stream-type="on-demand"
+        start-time={startTime}
         controls="true"
         style={{ width: '100%', height: '100%' }}
       />
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Calendar, Clock, MapPin, Share2, Edit, Trash2, Image as ImageIcon } from 'lucide-react';
+import { Calendar, CalendarDays, Clock, MapPin, Repeat, Share2, Edit, Trash2, Ticket, Image as ImageIcon } from 'lucide-react';
+import { describeRecurrence, getNextOccurrence } from '../lib/eventRecurrence';
 import type { Event } from '../types/events';
 
 interface MyEventCardProps {
@@ -8,6 +9,8 @@ interface MyEventCardProps {
   onPublish: (eventId: string) => void;
   onEdit: (event: Event) => void;
   onAddServices: (eventId: string) => void;
+  onManageTickets: (event: Event) => void;
+  onManageDates: (event: Event) => void;
   onDelete: (eventId: string) => void;
 }
 
@@ -17,6 +20,8 @@ export default function MyEventCard({
   onPublish,
   onEdit,
   onAddServices,
+  onManageTickets,
+  onManageDates,
   onDelete,
 }: MyEventCardProps) {
   const handleDelete = () => {
@@ -25,6 +30,8 @@ export default function MyEventCard({
     }
   };
 
+  const nextOccurrence = event.recurrence_rule ? getNextOccurrence(event) : null;
+
   return (
     <div className="glass-effect rounded-2xl overflow-hidden hover:bg-white/5 transition-all flex flex-col h-full">
       <div className="relative h-48 bg-gray-800 flex items-center justify-center overflow-hidden">
@@ -48,8 +55,17 @@ export default function MyEventCard({
         <div className="space-y-2 text-sm text-gray-400">
           <div className="flex items-center space-x-2">
             <Calendar className="w-4 h-4 text-rose-400" />
-            <span>{new Date(event.event_date).toLocaleDateString()}</span>
+            <span>
+              {new Date(nextOccurrence?.event_date || event.event_date).toLocaleDateString()}
+              {event.recurrence_rule && (nextOccurrence ? ' (next)' : ' (series ended)')}
+            </span>
           </div>
+          {event.recurrence_rule && (
+            <div className="flex items-center space-x-2">
+              <Repeat className="w-4 h-4 text-rose-400" />
+              <span>{describeRecurrence(event.recurrence_rule)}</span>
+            </div>
+          )}
           {event.event_time && (
             <div className="flex items-center space-x-2">
               <Clock className="w-4 h-4 text-rose-400" />
@@ -135,6 +151,22 @@ export default function MyEventCard({
           >
             Add Services
           </button>
+          <button
+            onClick={() => onManageTickets(event)}
+            className="flex-1 px-4 py-2 glass-effect text-gray-300 rounded-lg hover:text-white transition-all text-sm flex items-center justify-center space-x-2 min-w-max"
+          >
+            <Ticket className="w-4 h-4" />
+            <span>Tickets</span>
+          </button>
+          {event.recurrence_rule && (
+            <button
+              onClick={() => onManageDates(event)}
+              className="flex-1 px-4 py-2 glass-effect text-gray-300 rounded-lg hover:text-white transition-all text-sm flex items-center justify-center space-x-2 min-w-max"
+            >
+              <CalendarDays className="w-4 h-4" />
+              <span>Dates</span>
+            </button>
+          )}
           <button
             onClick={handleDelete}
             disabled={isLoading}
@@ -2,11 +2,14 @@ import { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Menu, X, Crown, User, LogOut, Settings, Bell, Star, UserPlus } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { useLessonReleaseNotifications } from '../hooks/useLessonReleaseNotifications';
 
 export default function Navbar() {
   const [isOpen, setIsOpen] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
   const { user, signOut } = useAuth();
+  const { notifications, markAsRead } = useLessonReleaseNotifications();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -16,6 +19,12 @@ export default function Navbar() {
     setShowUserMenu(false);
   };
 
+  const handleOpenNotification = (notificationId: string, courseId: string) => {
+    markAsRead([notificationId]);
+    setShowNotifications(false);
+    navigate(`/course/${courseId}`);
+  };
+
   const getNavLinks = () => {
     if (user) {
       if (user.role === 'creator') {
@@ -103,9 +112,53 @@ export default function Navbar() {
               )}
               {user && (
                 <>
-                  <button className="p-2 rounded-full text-white hover:bg-white/10 transition-colors">
-                    <Bell className="w-5 h-5" />
-                  </button>
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowNotifications(!showNotifications)}
+                      className="relative p-2 rounded-full text-white hover:bg-white/10 transition-colors"
+                    >
+                      <Bell className="w-5 h-5" />
+                      {notifications.length > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-rose-500 text-[10px] font-bold text-white flex items-center justify-center">
+                          {notifications.length > 9 ? '9+' : notifications.length}
+                        </span>
+                      )}
+                    </button>
+
+                    {showNotifications && (
+                      <div className="absolute right-0 mt-2 w-80 bg-gray-800 rounded-lg shadow-xl border border-gray-700">
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+                          <span className="text-sm font-medium text-white">Notifications</span>
+                          {notifications.length > 0 && (
+                            <button
+                              onClick={() => markAsRead(notifications.map((notification) => notification.id))}
+                              className="text-xs text-rose-400 hover:text-rose-300 transition-colors"
+                            >
+                              Mark all as read
+                            </button>
+                          )}
+                        </div>
+                        {notifications.length === 0 ? (
+                          <div className="px-4 py-6 text-sm text-gray-400 text-center">You're all caught up</div>
+                        ) : (
+                          <div className="max-h-80 overflow-y-auto py-2">
+                            {notifications.map((notification) => (
+                              <button
+                                key={notification.id}
+                                onClick={() => handleOpenNotification(notification.id, notification.course_id)}
+                                className="block w-full text-left px-4 py-2 hover:bg-white/10 transition-colors"
+                              >
+                                <div className="text-sm text-white">New lesson unlocked: {notification.lesson_title}</div>
+                                <div className="text-xs text-gray-400">
+                                  {notification.course_title} · {new Date(notification.released_at).toLocaleDateString()}
+                                </div>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
                   <div className="relative">
                     <button
                       onClick={() => setShowUserMenu(!showUserMenu)}
@@ -29,6 +29,9 @@ import {
 import ImageUploadField from './ImageUploadField';
 import EditEventModal from './EditEventModal';
 import MyEventCard from './MyEventCard';
+import TicketTypesModal from './TicketTypesModal';
+import EventOccurrencesModal from './EventOccurrencesModal';
+import RecurrenceFields from './RecurrenceFields';
 import { useAuth } from '../context/AuthContext';
 import { usePreloadedData } from '../context/DataPreloadContext';
 import {
@@ -46,6 +49,7 @@ import {
   updateEventImage,
 } from '../lib/eventServices';
 import type { ServiceProvider, CreateEventFormData, Event, EventServiceBooking } from '../types/events';
+import { RecurrenceFormValue, buildRecurrenceRule, getRecurrenceFormValue } from '../lib/eventRecurrence';
 
 const mockServiceProviders: ServiceProvider[] = [
   {
@@ -222,6 +226,8 @@ export default function OrganizeTab() {
   const [selectedEventForBooking, setSelectedEventForBooking] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [ticketsEvent, setTicketsEvent] = useState<Event | null>(null);
+  const [datesEvent, setDatesEvent] = useState<Event | null>(null);
 
   const [createForm, setCreateForm] = useState<CreateEventFormData & { customFeature?: string }>({
     eventName: '',
@@ -238,6 +244,7 @@ export default function OrganizeTab() {
     isLivestream: false,
     livestreamLink: '',
   });
+  const [createRecurrence, setCreateRecurrence] = useState<RecurrenceFormValue>(() => getRecurrenceFormValue(null, ''));
 
   const categories = ['all', 'venue', 'catering', 'decor', 'audio', 'photography', 'entertainment', 'security', 'transport', 'ushering'];
 
@@ -340,11 +347,20 @@ export default function OrganizeTab() {
       return;
     }
 
+    const { rule: recurrenceRule, error: recurrenceError } = buildRecurrenceRule(createRecurrence, createForm.eventDate);
+    if (recurrenceError) {
+      alert(recurrenceError);
+      return;
+    }
+
     setIsLoading(true);
     setLoadingMessage('Creating your event...');
 
     try {
-      const { event, error } = await createEvent(user.id, user.email?.split('@')[0] || 'User', createForm);
+      const { event, error } = await createEvent(user.id, user.email?.split('@')[0] || 'User', {
+        ...createForm,
+        recurrenceRule,
+      });
 
       if (error) {
         alert(`Error creating event: ${error}`);
@@ -384,6 +400,7 @@ export default function OrganizeTab() {
         isLivestream: false,
         livestreamLink: '',
       });
+      setCreateRecurrence(getRecurrenceFormValue(null, ''));
       setImageFile(null);
       setActiveView('browse-services');
     } catch (err) {
@@ -612,6 +629,14 @@ export default function OrganizeTab() {
                 />
               </div>
 
+              <div className="md:col-span-2">
+                <RecurrenceFields
+                  value={createRecurrence}
+                  onChange={setCreateRecurrence}
+                  startDate={createForm.eventDate}
+                />
+              </div>
+
               <div>
                 <label className="block text-white font-semibold mb-2">Location *</label>
                 <input
@@ -1123,6 +1148,8 @@ export default function OrganizeTab() {
                     setSelectedEventForBooking(eventId);
                     setActiveView('browse-services');
                   }}
+                  onManageTickets={setTicketsEvent}
+                  onManageDates={setDatesEvent}
                   onDelete={handleHideEventFromMyEvents}
                 />
               ))}
@@ -1140,6 +1167,17 @@ export default function OrganizeTab() {
           userId={user?.id || ''}
         />
       )}
+
+      {ticketsEvent && <TicketTypesModal event={ticketsEvent} onClose={() => setTicketsEvent(null)} />}
+
+      {datesEvent && user && (
+        <EventOccurrencesModal
+          event={userEvents.find((event) => event.id === datesEvent.id) || datesEvent}
+          userId={user.id}
+          onClose={() => setDatesEvent(null)}
+          onEventUpdated={loadUserEvents}
+        />
+      )}
     </div>
   );
 }
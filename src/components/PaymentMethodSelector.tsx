@@ -1,5 +1,6 @@
-import React from 'react';
-import { PaymentMethodType, PAYMENT_METHODS } from '../lib/paymentMethodConfig';
+import React, { useEffect } from 'react';
+import { PaymentMethodType, PAYMENT_METHODS, isMethodSupportedForCurrency } from '../lib/paymentMethodConfig';
+import { usePriceBooks } from '../hooks/usePriceBooks';
 
 interface PaymentMethodSelectorProps {
   selectedMethod: PaymentMethodType;
@@ -25,6 +26,23 @@ export default function PaymentMethodSelector({
   onMethodChange,
   currency = 'UGX',
 }: PaymentMethodSelectorProps) {
+  const { priceBooks, loading } = usePriceBooks();
+
+  // Until the price books load (or if they can't be loaded) every method stays available
+  const isSupported = (method: PaymentMethodType) =>
+    loading || priceBooks.length === 0 || isMethodSupportedForCurrency(method, currency, priceBooks);
+
+  // Move the selection off a method the currency's price book doesn't support
+  useEffect(() => {
+    if (loading || priceBooks.length === 0) return;
+    if (isMethodSupportedForCurrency(selectedMethod, currency, priceBooks)) return;
+
+    const fallback = (Object.keys(PAYMENT_METHODS) as PaymentMethodType[]).find((method) =>
+      isMethodSupportedForCurrency(method, currency, priceBooks)
+    );
+    if (fallback) onMethodChange(fallback);
+  }, [loading, priceBooks, currency, selectedMethod, onMethodChange]);
+
   return (
     <div className="space-y-4">
       <p className="text-slate-300 text-sm font-semibold">Select how you'd like to pay:</p>
@@ -32,6 +50,7 @@ export default function PaymentMethodSelector({
       <div className="space-y-3">
         {Object.entries(PAYMENT_METHODS).map(([methodId, method]) => {
           const isSelected = selectedMethod === methodId;
+          const isAvailable = isSupported(methodId as PaymentMethodType);
           const isCardMethod = methodId === 'card';
           const isMobileMoneyMethod = methodId === 'mobile_money';
           const isExpressPayMethod = methodId === 'express_pay';
@@ -39,10 +58,12 @@ export default function PaymentMethodSelector({
           return (
             <label
               key={methodId}
-              className={`relative flex items-start sm:items-center gap-4 p-5 sm:p-6 rounded-xl border-2 transition-all cursor-pointer w-full ${
-                isSelected
-                  ? 'border-rose-400 bg-rose-400/15 shadow-lg shadow-rose-400/20'
-                  : 'border-slate-700 hover:border-slate-600 bg-slate-800/50 hover:bg-slate-800'
+              className={`relative flex items-start sm:items-center gap-4 p-5 sm:p-6 rounded-xl border-2 transition-all w-full ${
+                !isAvailable
+                  ? 'border-slate-800 bg-slate-900/50 opacity-50 cursor-not-allowed'
+                  : isSelected
+                  ? 'border-rose-400 bg-rose-400/15 shadow-lg shadow-rose-400/20 cursor-pointer'
+                  : 'border-slate-700 hover:border-slate-600 bg-slate-800/50 hover:bg-slate-800 cursor-pointer'
               }`}
             >
               {/* Selection Indicator (replaces radio button) */}
@@ -60,7 +81,12 @@ export default function PaymentMethodSelector({
 
               {/* Content Container */}
               <div className="flex-1 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 w-full">
-                <h3 className="text-white font-semibold text-center sm:text-left">{method.name}</h3>
+                <div className="text-center sm:text-left">
+                  <h3 className="text-white font-semibold">{method.name}</h3>
+                  {!isAvailable && (
+                    <p className="text-slate-400 text-xs mt-1">Not available for {currency}</p>
+                  )}
+                </div>
 
                 {/* Images Container - Single grey box for all images */}
                 <div className="bg-slate-300 p-4 rounded-lg flex items-center justify-center gap-3 h-16 sm:h-20 flex-1 -ml-10 sm:ml-0 sm:w-auto sm:px-4">
@@ -115,6 +141,7 @@ export default function PaymentMethodSelector({
                 name="paymentMethod"
                 value={methodId}
                 checked={isSelected}
+                disabled={!isAvailable}
                 onChange={() => onMethodChange(methodId as PaymentMethodType)}
                 className="hidden"
               />
@@ -0,0 +1,446 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Check, ChevronDown, ChevronUp, Loader, Plus, Trash2 } from 'lucide-react';
+import { CourseSection } from '../lib/curriculumService';
+import {
+  deleteQuiz,
+  EditableQuiz,
+  getQuizzesForEditing,
+  newQuiz,
+  newQuizQuestion,
+  QuizQuestion,
+  QuizQuestionType,
+  saveQuiz,
+} from '../lib/quizService';
+
+interface QuizEditorProps {
+  courseId: string;
+  /** Curriculum the quizzes can be attached to */
+  sections: CourseSection[];
+  disabled?: boolean;
+}
+
+const QUESTION_TYPES: { type: QuizQuestionType; label: string }[] = [
+  { type: 'multiple_choice', label: 'Multiple choice' },
+  { type: 'multi_select', label: 'Multi-select' },
+  { type: 'short_answer', label: 'Short answer' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all';
+
+function placementValue(quiz: EditableQuiz): string {
+  if (quiz.lesson_id) return `lesson:${quiz.lesson_id}`;
+  if (quiz.section_id) return `section:${quiz.section_id}`;
+  return 'course';
+}
+
+export default function QuizEditor({ courseId, sections, disabled = false }: QuizEditorProps) {
+  const [quizzes, setQuizzes] = useState<EditableQuiz[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedQuizId, setExpandedQuizId] = useState<string | null>(null);
+  const [dirtyQuizIds, setDirtyQuizIds] = useState<Set<string>>(new Set());
+  const [savingQuizId, setSavingQuizId] = useState<string | null>(null);
+  const [quizErrors, setQuizErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    getQuizzesForEditing(courseId).then((data) => {
+      if (cancelled) return;
+      setQuizzes(data);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId]);
+
+  const updateQuiz = (quizId: string, changes: Partial<EditableQuiz>) => {
+    setQuizzes((prev) => prev.map((quiz) => (quiz.id === quizId ? { ...quiz, ...changes } : quiz)));
+    setDirtyQuizIds((prev) => new Set(prev).add(quizId));
+    setQuizErrors((prev) => ({ ...prev, [quizId]: '' }));
+  };
+
+  const updateQuestion = (quiz: EditableQuiz, questionId: string, changes: Partial<QuizQuestion>) => {
+    updateQuiz(quiz.id, {
+      questions: quiz.questions.map((question) => (question.id === questionId ? { ...question, ...changes } : question)),
+    });
+  };
+
+  const handleAddQuiz = () => {
+    const quiz = newQuiz(courseId, quizzes.length);
+    setQuizzes((prev) => [...prev, quiz]);
+    setDirtyQuizIds((prev) => new Set(prev).add(quiz.id));
+    setExpandedQuizId(quiz.id);
+  };
+
+  const handleSaveQuiz = async (quiz: EditableQuiz) => {
+    setSavingQuizId(quiz.id);
+    const result = await saveQuiz(quiz);
+    setSavingQuizId(null);
+
+    if (!result.success) {
+      setQuizErrors((prev) => ({ ...prev, [quiz.id]: result.error || 'Failed to save quiz' }));
+      return;
+    }
+
+    setDirtyQuizIds((prev) => {
+      const next = new Set(prev);
+      next.delete(quiz.id);
+      return next;
+    });
+  };
+
+  const handleDeleteQuiz = async (quiz: EditableQuiz) => {
+    if (!window.confirm(`Delete "${quiz.title || 'this quiz'}" and all student attempts?`)) return;
+
+    const result = await deleteQuiz(quiz.id);
+    if (!result.success) {
+      setQuizErrors((prev) => ({ ...prev, [quiz.id]: result.error || 'Failed to delete quiz' }));
+      return;
+    }
+    setQuizzes((prev) => prev.filter((q) => q.id !== quiz.id));
+  };
+
+  const handlePlacementChange = (quiz: EditableQuiz, value: string) => {
+    const [kind, id] = value.split(':');
+    updateQuiz(quiz.id, {
+      section_id: kind === 'section' ? id : null,
+      lesson_id: kind === 'lesson' ? id : null,
+    });
+  };
+
+  const toggleCorrectOption = (quiz: EditableQuiz, question: QuizQuestion, optionId: string) => {
+    if (question.question_type === 'multiple_choice') {
+      updateQuestion(quiz, question.id, { correct_option_ids: [optionId] });
+      return;
+    }
+    const selected = question.correct_option_ids.includes(optionId)
+      ? question.correct_option_ids.filter((id) => id !== optionId)
+      : [...question.correct_option_ids, optionId];
+    updateQuestion(quiz, question.id, { correct_option_ids: selected });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-400">
+        <Loader className="w-4 h-4 animate-spin" />
+        Loading quizzes...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-400">
+          Required quizzes must be passed before the course is complete. Save the curriculum before attaching a quiz
+          to a new lesson.
+        </p>
+        <button
+          type="button"
+          onClick={handleAddQuiz}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 bg-rose-500/20 text-rose-300 rounded-lg text-sm hover:bg-rose-500/30 transition-colors disabled:opacity-50 flex-shrink-0 ml-4"
+        >
+          <Plus className="w-4 h-4" />
+          Add Quiz
+        </button>
+      </div>
+
+      {quizzes.map((quiz) => {
+        const isExpanded = expandedQuizId === quiz.id;
+        const isDirty = dirtyQuizIds.has(quiz.id);
+        const isSavingQuiz = savingQuizId === quiz.id;
+
+        return (
+          <div key={quiz.id} className="border border-gray-700 rounded-lg bg-gray-900/50">
+            <div className="flex items-center gap-2 p-3">
+              <button
+                type="button"
+                onClick={() => setExpandedQuizId(isExpanded ? null : quiz.id)}
+                className="flex-1 flex items-center gap-2 text-left text-sm text-white"
+              >
+                {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                {quiz.title || <span className="text-gray-500">Untitled quiz</span>}
+                <span className="text-xs text-gray-500">
+                  {quiz.questions.length} question{quiz.questions.length !== 1 ? 's' : ''}
+                </span>
+              </button>
+              {!isDirty && <Check className="w-4 h-4 text-green-400" />}
+              <button
+                type="button"
+                onClick={() => handleDeleteQuiz(quiz)}
+                disabled={disabled}
+                className="p-1.5 text-red-400 hover:text-red-300 disabled:opacity-30"
+                aria-label="Delete quiz"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="p-3 pt-0 space-y-3">
+                <input
+                  type="text"
+                  value={quiz.title}
+                  onChange={(e) => updateQuiz(quiz.id, { title: e.target.value })}
+                  className={inputClass}
+                  placeholder="Quiz title"
+                  disabled={disabled}
+                />
+
+                <select
+                  value={placementValue(quiz)}
+                  onChange={(e) => handlePlacementChange(quiz, e.target.value)}
+                  className={inputClass}
+                  disabled={disabled}
+                >
+                  <option value="course">Final course assessment</option>
+                  {sections.map((section) => (
+                    <optgroup key={section.id} label={section.title}>
+                      <option value={`section:${section.id}`}>End of section: {section.title}</option>
+                      {section.lessons.map((lesson) => (
+                        <option key={lesson.id} value={`lesson:${lesson.id}`}>
+                          After lesson: {lesson.title || 'Untitled lesson'}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="text-xs text-gray-400">
+                    Pass mark (%)
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={quiz.pass_mark_percent}
+                      onChange={(e) =>
+                        updateQuiz(quiz.id, {
+                          pass_mark_percent: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)),
+                        })
+                      }
+                      className={`${inputClass} mt-1`}
+                      disabled={disabled}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Attempt limit
+                    <input
+                      type="number"
+                      min={1}
+                      value={quiz.max_attempts ?? ''}
+                      onChange={(e) => updateQuiz(quiz.id, { max_attempts: parseInt(e.target.value) || null })}
+                      className={`${inputClass} mt-1`}
+                      placeholder="Unlimited"
+                      disabled={disabled}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Questions per attempt
+                    <input
+                      type="number"
+                      min={1}
+                      value={quiz.questions_per_attempt ?? ''}
+                      onChange={(e) =>
+                        updateQuiz(quiz.id, { questions_per_attempt: parseInt(e.target.value) || null })
+                      }
+                      className={`${inputClass} mt-1`}
+                      placeholder="All"
+                      disabled={disabled}
+                    />
+                  </label>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={quiz.is_required}
+                    onChange={(e) => updateQuiz(quiz.id, { is_required: e.target.checked })}
+                    disabled={disabled}
+                  />
+                  Required to complete the course
+                </label>
+
+                {/* Question bank */}
+                <div className="space-y-3">
+                  {quiz.questions.map((question, questionIndex) => (
+                    <div key={question.id} className="p-3 border border-gray-700/70 rounded-lg bg-gray-800/40 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-500">Q{questionIndex + 1}</span>
+                        <select
+                          value={question.question_type}
+                          onChange={(e) => {
+                            const questionType = e.target.value as QuizQuestionType;
+                            updateQuestion(quiz, question.id, {
+                              ...newQuizQuestion(questionType),
+                              id: question.id,
+                              prompt: question.prompt,
+                              points: question.points,
+                              explanation: question.explanation,
+                            });
+                          }}
+                          className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-xs"
+                          disabled={disabled}
+                        >
+                          {QUESTION_TYPES.map((questionType) => (
+                            <option key={questionType.type} value={questionType.type}>
+                              {questionType.label}
+                            </option>
+                          ))}
+                        </select>
+                        <label className="flex items-center gap-1 text-xs text-gray-400 ml-auto">
+                          Points
+                          <input
+                            type="number"
+                            min={1}
+                            value={question.points}
+                            onChange={(e) =>
+                              updateQuestion(quiz, question.id, { points: Math.max(1, parseInt(e.target.value) || 1) })
+                            }
+                            className="w-14 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-xs"
+                            disabled={disabled}
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            updateQuiz(quiz.id, { questions: quiz.questions.filter((q) => q.id !== question.id) })
+                          }
+                          disabled={disabled}
+                          className="p-1 text-red-400 hover:text-red-300 disabled:opacity-30"
+                          aria-label="Delete question"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      <textarea
+                        value={question.prompt}
+                        onChange={(e) => updateQuestion(quiz, question.id, { prompt: e.target.value })}
+                        className={`${inputClass} resize-none`}
+                        placeholder="Question"
+                        rows={2}
+                        disabled={disabled}
+                      />
+
+                      {question.question_type === 'short_answer' ? (
+                        <textarea
+                          value={question.accepted_answers.join('\n')}
+                          onChange={(e) =>
+                            updateQuestion(quiz, question.id, { accepted_answers: e.target.value.split('\n') })
+                          }
+                          className={`${inputClass} resize-none`}
+                          placeholder="Accepted answers, one per line (not case sensitive)"
+                          rows={2}
+                          disabled={disabled}
+                        />
+                      ) : (
+                        <div className="space-y-1">
+                          {question.options.map((option) => (
+                            <div key={option.id} className="flex items-center gap-2">
+                              <input
+                                type={question.question_type === 'multiple_choice' ? 'radio' : 'checkbox'}
+                                checked={question.correct_option_ids.includes(option.id)}
+                                onChange={() => toggleCorrectOption(quiz, question, option.id)}
+                                disabled={disabled}
+                                aria-label="Correct answer"
+                              />
+                              <input
+                                type="text"
+                                value={option.text}
+                                onChange={(e) =>
+                                  updateQuestion(quiz, question.id, {
+                                    options: question.options.map((o) =>
+                                      o.id === option.id ? { ...o, text: e.target.value } : o
+                                    ),
+                                  })
+                                }
+                                className={inputClass}
+                                placeholder="Option"
+                                disabled={disabled}
+                              />
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  updateQuestion(quiz, question.id, {
+                                    options: question.options.filter((o) => o.id !== option.id),
+                                    correct_option_ids: question.correct_option_ids.filter((id) => id !== option.id),
+                                  })
+                                }
+                                disabled={disabled || question.options.length <= 2}
+                                className="p-1 text-gray-400 hover:text-red-300 disabled:opacity-30"
+                                aria-label="Remove option"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateQuestion(quiz, question.id, {
+                                options: [...question.options, { id: crypto.randomUUID(), text: '' }],
+                              })
+                            }
+                            disabled={disabled}
+                            className="text-xs text-rose-300 hover:text-rose-200"
+                          >
+                            + Add option
+                          </button>
+                        </div>
+                      )}
+
+                      <input
+                        type="text"
+                        value={question.explanation || ''}
+                        onChange={(e) => updateQuestion(quiz, question.id, { explanation: e.target.value || null })}
+                        className={inputClass}
+                        placeholder="Explanation shown after submitting (optional)"
+                        disabled={disabled}
+                      />
+                    </div>
+                  ))}
+
+                  <div className="flex gap-2">
+                    {QUESTION_TYPES.map((questionType) => (
+                      <button
+                        key={questionType.type}
+                        type="button"
+                        onClick={() =>
+                          updateQuiz(quiz.id, { questions: [...quiz.questions, newQuizQuestion(questionType.type)] })
+                        }
+                        disabled={disabled}
+                        className="flex items-center gap-1 px-2.5 py-1 text-xs text-gray-300 border border-gray-700 rounded-lg hover:bg-gray-800 transition-colors disabled:opacity-50"
+                      >
+                        <Plus className="w-3 h-3" />
+                        {questionType.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {quizErrors[quiz.id] && (
+                  <p className="text-red-400 text-sm flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {quizErrors[quiz.id]}
+                  </p>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => handleSaveQuiz(quiz)}
+                  disabled={disabled || isSavingQuiz || !isDirty}
+                  className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSavingQuiz ? 'Saving...' : isDirty ? 'Save Quiz' : 'Saved'}
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { AlertCircle, Award, CheckCircle, ClipboardList, RotateCcw, XCircle } from 'lucide-react';
+import {
+  QuizAnswers,
+  QuizAttempt,
+  QuizResult,
+  QuizStatus,
+  startQuizAttempt,
+  submitQuizAttempt,
+} from '../lib/quizService';
+
+interface QuizTakerProps {
+  quiz: QuizStatus;
+  onSubmitted?: (result: QuizResult) => void;
+}
+
+export default function QuizTaker({ quiz, onSubmitted }: QuizTakerProps) {
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const attemptsLeft = quiz.max_attempts === null ? null : Math.max(0, quiz.max_attempts - quiz.attempts_used);
+  const canStart = quiz.has_attempt_in_progress || attemptsLeft === null || attemptsLeft > 0;
+
+  const handleStart = async () => {
+    setIsWorking(true);
+    setError(null);
+    const response = await startQuizAttempt(quiz.id);
+    setIsWorking(false);
+
+    if (!response.success || !response.attempt) {
+      setError(response.error || 'Failed to start quiz');
+      return;
+    }
+
+    setAttempt(response.attempt);
+    setAnswers({});
+    setResult(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!attempt) return;
+
+    const unanswered = attempt.questions.filter((question) => {
+      const answer = answers[question.id];
+      return Array.isArray(answer) ? answer.length === 0 : !answer?.trim();
+    });
+    if (
+      unanswered.length > 0 &&
+      !window.confirm(`${unanswered.length} question${unanswered.length !== 1 ? 's are' : ' is'} unanswered. Submit anyway?`)
+    ) {
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    const response = await submitQuizAttempt(attempt.attempt_id, answers);
+    setIsWorking(false);
+
+    if (!response.success || !response.result) {
+      setError(response.error || 'Failed to submit quiz');
+      return;
+    }
+
+    setResult(response.result);
+    if (onSubmitted) {
+      onSubmitted(response.result);
+    }
+  };
+
+  const toggleOption = (questionId: string, optionId: string, multiple: boolean) => {
+    setAnswers((prev) => {
+      const current = Array.isArray(prev[questionId]) ? (prev[questionId] as string[]) : [];
+      const next = multiple
+        ? current.includes(optionId)
+          ? current.filter((id) => id !== optionId)
+          : [...current, optionId]
+        : [optionId];
+      return { ...prev, [questionId]: next };
+    });
+  };
+
+  const resultFor = (questionId: string) => result?.results.find((r) => r.question_id === questionId);
+
+  return (
+    <div className="glass-effect p-6 rounded-2xl">
+      <div className="flex items-center gap-2 mb-2">
+        <ClipboardList className="w-5 h-5 text-purple-400" />
+        <h4 className="text-xl font-bold text-white">{quiz.title}</h4>
+      </div>
+      {quiz.description && <p className="text-gray-300 text-sm mb-4">{quiz.description}</p>}
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-400 mb-6">
+        <span>Pass mark: {quiz.pass_mark_percent}%</span>
+        <span>
+          Attempts: {quiz.attempts_used}
+          {quiz.max_attempts !== null ? ` of ${quiz.max_attempts}` : ''}
+        </span>
+        {quiz.best_score_percent !== null && <span>Best score: {Math.round(quiz.best_score_percent)}%</span>}
+        {quiz.is_required && <span className="text-yellow-300">Required</span>}
+      </div>
+
+      {/* Result */}
+      {result && (
+        <div
+          className={`mb-6 p-4 rounded-lg border flex items-center gap-3 ${
+            result.passed ? 'bg-green-400/10 border-green-400/30' : 'bg-red-400/10 border-red-400/30'
+          }`}
+        >
+          {result.passed ? (
+            <Award className="w-6 h-6 text-green-400" />
+          ) : (
+            <XCircle className="w-6 h-6 text-red-400" />
+          )}
+          <div>
+            <p className={`font-semibold ${result.passed ? 'text-green-300' : 'text-red-300'}`}>
+              {result.passed ? 'Passed' : 'Not passed'} · {Math.round(result.score_percent)}%
+            </p>
+            <p className="text-xs text-gray-400">
+              {result.score_points} of {result.max_points} points · pass mark {result.pass_mark_percent}%
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Questions */}
+      {attempt && (
+        <div className="space-y-6 mb-6">
+          {attempt.questions.map((question, index) => {
+            const questionResult = resultFor(question.id);
+            const answer = answers[question.id];
+
+            return (
+              <div key={question.id} className="p-4 bg-gray-800/50 rounded-lg border border-gray-700">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <p className="text-white font-medium whitespace-pre-wrap">
+                    {index + 1}. {question.prompt}
+                  </p>
+                  {questionResult ? (
+                    questionResult.is_correct ? (
+                      <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                    )
+                  ) : (
+                    <span className="text-xs text-gray-500 flex-shrink-0">
+                      {question.points} pt{question.points !== 1 ? 's' : ''}
+                    </span>
+                  )}
+                </div>
+
+                {question.question_type === 'short_answer' ? (
+                  <input
+                    type="text"
+                    value={typeof answer === 'string' ? answer : ''}
+                    onChange={(e) => setAnswers((prev) => ({ ...prev, [question.id]: e.target.value }))}
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+                    placeholder="Your answer"
+                    disabled={!!result || isWorking}
+                  />
+                ) : (
+                  <div className="space-y-2">
+                    {question.question_type === 'multi_select' && (
+                      <p className="text-xs text-gray-400">Select all that apply</p>
+                    )}
+                    {question.options.map((option) => (
+                      <label key={option.id} className="flex items-center gap-2 text-sm text-gray-200 cursor-pointer">
+                        <input
+                          type={question.question_type === 'multi_select' ? 'checkbox' : 'radio'}
+                          name={question.id}
+                          checked={Array.isArray(answer) && answer.includes(option.id)}
+                          onChange={() =>
+                            toggleOption(question.id, option.id, question.question_type === 'multi_select')
+                          }
+                          disabled={!!result || isWorking}
+                        />
+                        {option.text}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {questionResult?.explanation && (
+                  <p className="text-xs text-gray-400 mt-3">{questionResult.explanation}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm mb-4 flex items-center gap-1">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+
+      {/* Actions */}
+      {attempt && !result ? (
+        <button
+          onClick={handleSubmit}
+          disabled={isWorking}
+          className="w-full px-4 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium disabled:opacity-50"
+        >
+          {isWorking ? 'Submitting...' : 'Submit Answers'}
+        </button>
+      ) : quiz.passed || result?.passed ? (
+        <div className="p-3 bg-green-400/10 border border-green-400/30 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-5 h-5 text-green-400" />
+          <span className="text-sm text-green-300">You've passed this quiz</span>
+        </div>
+      ) : canStart ? (
+        <button
+          onClick={handleStart}
+          disabled={isWorking}
+          className="w-full px-4 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {result && <RotateCcw className="w-4 h-4" />}
+          {isWorking
+            ? 'Loading...'
+            : quiz.has_attempt_in_progress && !result
+              ? 'Resume Quiz'
+              : quiz.attempts_used > 0
+                ? 'Retake Quiz'
+                : 'Start Quiz'}
+        </button>
+      ) : (
+        <p className="text-sm text-gray-400 text-center">No attempts left for this quiz.</p>
+      )}
+    </div>
+  );
+}
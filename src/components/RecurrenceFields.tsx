@@ -0,0 +1,111 @@
+import { Repeat } from 'lucide-react';
+import {
+  RecurrenceFormValue,
+  RecurrencePreset,
+  buildRecurrenceRule,
+  describeRecurrence,
+  describeRecurrencePreset,
+  getEventOccurrences,
+} from '../lib/eventRecurrence';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+  /** First date of the series (the event date) */
+  startDate: string;
+}
+
+const inputClass =
+  'w-full px-4 py-3 glass-effect rounded-lg border border-white/20 text-white placeholder-gray-400 focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all';
+
+const PRESETS: RecurrencePreset[] = ['none', 'daily', 'weekly', 'biweekly', 'monthly_day', 'monthly_weekday', 'custom'];
+
+const PREVIEW_COUNT = 4;
+
+/**
+ * Repeat schedule for an event, with a preview of the first dates
+ */
+export default function RecurrenceFields({ value, onChange, startDate }: RecurrenceFieldsProps) {
+  const { rule, error } = buildRecurrenceRule(value, startDate);
+  const preview =
+    rule && startDate
+      ? getEventOccurrences(
+          { event_date: startDate, event_time: '', title: '', location: '', description: '', recurrence_rule: rule },
+          { from: startDate, limit: PREVIEW_COUNT }
+        )
+      : [];
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-white font-semibold">Repeats</label>
+      <select
+        value={value.preset}
+        onChange={(e) => onChange({ ...value, preset: e.target.value as RecurrencePreset })}
+        className={inputClass}
+      >
+        {PRESETS.map((preset) => (
+          <option key={preset} value={preset} className="bg-gray-800">
+            {describeRecurrencePreset(preset, startDate)}
+          </option>
+        ))}
+      </select>
+
+      {value.preset === 'custom' && (
+        <input
+          type="text"
+          value={value.customRule}
+          onChange={(e) => onChange({ ...value, customRule: e.target.value })}
+          placeholder="FREQ=WEEKLY;BYDAY=TU,TH;COUNT=8"
+          className={`${inputClass} font-mono`}
+        />
+      )}
+
+      {value.preset !== 'none' && value.preset !== 'custom' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <select
+            value={value.endType}
+            onChange={(e) => onChange({ ...value, endType: e.target.value as RecurrenceFormValue['endType'] })}
+            className={inputClass}
+          >
+            <option value="never" className="bg-gray-800">Never ends</option>
+            <option value="until" className="bg-gray-800">Ends on a date</option>
+            <option value="count" className="bg-gray-800">Ends after a number of dates</option>
+          </select>
+          {value.endType === 'until' && (
+            <input
+              type="date"
+              value={value.until}
+              min={startDate}
+              onChange={(e) => onChange({ ...value, until: e.target.value })}
+              className={inputClass}
+            />
+          )}
+          {value.endType === 'count' && (
+            <input
+              type="number"
+              min={2}
+              value={value.count}
+              onChange={(e) => onChange({ ...value, count: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          )}
+        </div>
+      )}
+
+      {value.preset !== 'none' && (error && (value.preset !== 'custom' || value.customRule) ? (
+        <p className="text-sm text-red-300">{error}</p>
+      ) : rule && (
+        <p className="text-sm text-gray-400 flex items-start gap-2">
+          <Repeat className="w-4 h-4 text-rose-400 mt-0.5 flex-shrink-0" />
+          <span>
+            {describeRecurrence(rule)}
+            {preview.length > 0 &&
+              ` · ${preview.map((o) => new Date(`${o.event_date}T00:00:00`).toLocaleDateString()).join(', ')}${
+                preview.length === PREVIEW_COUNT ? ', …' : ''
+              }`}
+          </span>
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Zap, CheckCircle2, AlertCircle, Clock, RefreshCw } from 'lucide-react';
+import {
+  getSalesSyncSettings,
+  updateSalesSyncSettings,
+  getSalesSyncRecords,
+  retrySalesSyncRecord,
+  SalesSyncSettings,
+  ZohoSyncRecord,
+} from '../lib/zohoBooksService';
+import { useToast } from '../hooks/useToast';
+import { ToastContainer } from './Toast';
+
+interface SalesSyncTabProps {
+  userId: string;
+  isAdmin: boolean;
+}
+
+const SOURCE_LABELS: Record<ZohoSyncRecord['source_type'], string> = {
+  course_enrollment: 'Course',
+  membership_payment: 'Membership',
+  tip: 'Tip',
+  event_ticket: 'Ticket',
+};
+
+const STATUS_LABELS: Record<ZohoSyncRecord['status'], string> = {
+  pending: 'Pending',
+  syncing: 'Syncing',
+  synced: 'Synced',
+  failed: 'Retrying',
+  dead_letter: 'Failed',
+};
+
+export default function SalesSyncTab({ userId, isAdmin }: SalesSyncTabProps) {
+  const { toasts, addToast, removeToast } = useToast();
+  const [settings, setSettings] = useState<SalesSyncSettings | null>(null);
+  const [records, setRecords] = useState<ZohoSyncRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const loadSync = useCallback(async () => {
+    try {
+      const [syncSettings, syncRecords] = await Promise.all([
+        getSalesSyncSettings(userId),
+        getSalesSyncRecords(userId),
+      ]);
+      setSettings(syncSettings);
+      setRecords(syncRecords);
+    } catch (err) {
+      console.error('Error loading sales sync:', err);
+      addToast('Failed to load sales sync', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, addToast]);
+
+  useEffect(() => {
+    loadSync();
+  }, [loadSync]);
+
+  const handleToggle = async (key: 'auto_sync_enabled' | 'sync_memberships') => {
+    if (!settings) return;
+
+    setIsSaving(true);
+    try {
+      await updateSalesSyncSettings(userId, { [key]: !settings[key] });
+      addToast('Sync settings updated', 'success');
+      await loadSync();
+    } catch (err) {
+      console.error('Error updating sales sync settings:', err);
+      addToast('Failed to update sync settings', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRetry = async (recordId: string) => {
+    setRetryingId(recordId);
+    try {
+      await retrySalesSyncRecord(recordId);
+      addToast('Sale queued for another sync', 'success');
+      await loadSync();
+    } catch (err) {
+      console.error('Error retrying sales sync:', err);
+      addToast('Failed to retry sync', 'error');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <Zap className="w-8 h-8 text-rose-400 mx-auto mb-4 animate-spin" />
+        <p className="text-gray-400">Loading sales sync...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ToastContainer toasts={toasts} onClose={removeToast} />
+
+      <div className="bg-white/5 rounded-xl border border-white/10 p-6 space-y-4">
+        <h3 className="text-xl font-bold text-white">Automatic Sales Sync</h3>
+        <label className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-white font-medium">Sync my sales to Zoho Books</p>
+            <p className="text-gray-400 text-sm">
+              Course enrollments, tips and event tickets paid to you are added as paid invoices.
+              {settings?.auto_sync_enabled_at &&
+                ` Syncing sales since ${new Date(settings.auto_sync_enabled_at).toLocaleDateString()}.`}
+            </p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings?.auto_sync_enabled || false}
+            disabled={isSaving}
+            onChange={() => handleToggle('auto_sync_enabled')}
+            className="mt-1 w-5 h-5 accent-rose-500"
+          />
+        </label>
+        {isAdmin && (
+          <label className="flex items-start justify-between gap-4">
+            <div>
+              <p className="text-white font-medium">Include membership payments</p>
+              <p className="text-gray-400 text-sm">Creator and member subscription payments to the platform.</p>
+            </div>
+            <input
+              type="checkbox"
+              checked={settings?.sync_memberships || false}
+              disabled={isSaving || !settings?.auto_sync_enabled}
+              onChange={() => handleToggle('sync_memberships')}
+              className="mt-1 w-5 h-5 accent-rose-500"
+            />
+          </label>
+        )}
+      </div>
+
+      {records.length === 0 ? (
+        <div className="bg-white/5 rounded-xl border border-white/10 p-12 text-center text-gray-400">
+          <p>No sales synced yet</p>
+        </div>
+      ) : (
+        <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-white/10 border-b border-white/10">
+              <tr>
+                <th className="px-6 py-3 text-left text-white font-semibold">Sale</th>
+                <th className="px-6 py-3 text-left text-white font-semibold">Customer</th>
+                <th className="px-6 py-3 text-left text-white font-semibold">Amount</th>
+                <th className="px-6 py-3 text-left text-white font-semibold">Status</th>
+                <th className="px-6 py-3 text-left text-white font-semibold">Invoice #</th>
+                <th className="px-6 py-3 text-left text-white font-semibold">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {records.map((record) => (
+                <tr key={record.id} className="hover:bg-white/5 transition-colors">
+                  <td className="px-6 py-3">
+                    <p className="text-white">{record.description}</p>
+                    <p className="text-gray-400 text-xs">
+                      {SOURCE_LABELS[record.source_type]} · {new Date(record.paid_at).toLocaleDateString()}
+                    </p>
+                  </td>
+                  <td className="px-6 py-3 text-gray-300">{record.customer_name}</td>
+                  <td className="px-6 py-3 text-white font-semibold">
+                    {record.currency} {Number(record.amount).toFixed(2)}
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${
+                      record.status === 'synced' ? 'bg-emerald-500/20 text-emerald-300' :
+                      record.status === 'dead_letter' ? 'bg-red-500/20 text-red-300' :
+                      'bg-yellow-500/20 text-yellow-300'
+                    }`}>
+                      {record.status === 'synced' && <CheckCircle2 className="w-3 h-3" />}
+                      {(record.status === 'failed' || record.status === 'dead_letter') && <AlertCircle className="w-3 h-3" />}
+                      {(record.status === 'pending' || record.status === 'syncing') && <Clock className="w-3 h-3" />}
+                      {STATUS_LABELS[record.status]}
+                    </span>
+                    {record.last_error && record.status !== 'synced' && (
+                      <p className="text-red-300 text-xs mt-1 max-w-xs">
+                        {record.last_error} (attempt {record.attempts} of {record.max_attempts})
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-gray-300">{record.zoho_invoice_number || '—'}</td>
+                  <td className="px-6 py-3">
+                    {(record.status === 'failed' || record.status === 'dead_letter') && (
+                      <button
+                        onClick={() => handleRetry(record.id)}
+                        disabled={retryingId === record.id}
+                        className="p-2 hover:bg-white/10 rounded transition-colors disabled:opacity-50"
+                        title="Retry now"
+                      >
+                        <RefreshCw className={`w-4 h-4 text-gray-400 ${retryingId === record.id ? 'animate-spin' : ''}`} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
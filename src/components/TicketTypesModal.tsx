@@ -0,0 +1,408 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Loader, Plus, Edit, Trash2 } from 'lucide-react';
+import type { Event } from '../types/events';
+import {
+  EventTicketType,
+  EventTicketTypeInput,
+  TICKET_KIND_LABELS,
+  TicketKind,
+  deleteEventTicketType,
+  getEventTicketTypes,
+  getTicketTypeUnavailableReason,
+  saveEventTicketType,
+} from '../lib/eventTicketService';
+import { getBrowserTimezone, utcToZonedInput } from '../lib/workshopService';
+
+interface TicketTypesModalProps {
+  event: Event | null;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+const EMPTY_FORM: EventTicketTypeInput = {
+  name: '',
+  description: '',
+  kind: 'general',
+  price: 0,
+  currency: 'UGX',
+  quantity: 100,
+  admits: 1,
+  max_per_order: 10,
+  sales_start_at: null,
+  sales_end_at: null,
+  is_active: true,
+};
+
+function toInputValue(isoString: string | null | undefined): string {
+  return isoString ? utcToZonedInput(isoString, getBrowserTimezone()) : '';
+}
+
+function fromInputValue(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+/**
+ * Organizer's ticket types for an event: price, quantity, admission and
+ * sale window per type. Price and admission lock once a type has sold.
+ */
+export default function TicketTypesModal({ event, onClose }: TicketTypesModalProps) {
+  const [ticketTypes, setTicketTypes] = useState<EventTicketType[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<EventTicketTypeInput | null>(null);
+
+  const loadTicketTypes = useCallback(async () => {
+    if (!event) return;
+
+    setLoading(true);
+    setTicketTypes(await getEventTicketTypes(event.id, true));
+    setLoading(false);
+  }, [event]);
+
+  useEffect(() => {
+    setForm(null);
+    setEditingId(null);
+    setError(null);
+    loadTicketTypes();
+  }, [loadTicketTypes]);
+
+  if (!event) return null;
+
+  const editingType = ticketTypes.find((ticketType) => ticketType.id === editingId);
+  const priceLocked = !!editingType && editingType.sold_count > 0;
+
+  const startEditing = (ticketType?: EventTicketType) => {
+    setError(null);
+    setEditingId(ticketType?.id ?? null);
+    setForm(
+      ticketType
+        ? {
+            name: ticketType.name,
+            description: ticketType.description || '',
+            kind: ticketType.kind,
+            price: Number(ticketType.price),
+            currency: ticketType.currency,
+            quantity: ticketType.quantity,
+            admits: ticketType.admits,
+            max_per_order: ticketType.max_per_order,
+            sales_start_at: ticketType.sales_start_at,
+            sales_end_at: ticketType.sales_end_at,
+            is_active: ticketType.is_active,
+          }
+        : { ...EMPTY_FORM, price: Number(event.price) || 0 }
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setSaving(true);
+    setError(null);
+
+    const result = await saveEventTicketType(event.id, form, editingId ?? undefined);
+
+    setSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to save ticket type');
+      return;
+    }
+
+    setForm(null);
+    setEditingId(null);
+    loadTicketTypes();
+  };
+
+  const handleToggleActive = async (ticketType: EventTicketType) => {
+    setError(null);
+
+    const result = await saveEventTicketType(
+      event.id,
+      {
+        name: ticketType.name,
+        description: ticketType.description || '',
+        kind: ticketType.kind,
+        price: Number(ticketType.price),
+        currency: ticketType.currency,
+        quantity: ticketType.quantity,
+        admits: ticketType.admits,
+        max_per_order: ticketType.max_per_order,
+        sales_start_at: ticketType.sales_start_at,
+        sales_end_at: ticketType.sales_end_at,
+        is_active: !ticketType.is_active,
+      },
+      ticketType.id
+    );
+
+    if (!result.success) {
+      setError(result.error || 'Failed to update ticket type');
+      return;
+    }
+
+    loadTicketTypes();
+  };
+
+  const handleDelete = async (ticketType: EventTicketType) => {
+    if (!confirm(`Delete the ${ticketType.name} ticket?`)) return;
+
+    setError(null);
+    const result = await deleteEventTicketType(ticketType.id);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to delete ticket type');
+      return;
+    }
+
+    loadTicketTypes();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Tickets</h2>
+            <p className="text-sm text-slate-400 mt-1">{event.title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader className="w-6 h-6 text-rose-400 animate-spin" />
+          </div>
+        ) : ticketTypes.length === 0 ? (
+          <p className="text-sm text-slate-400 mb-6">
+            No ticket types yet. Until you add one, this event sells general admission at UGX{' '}
+            {Number(event.price).toLocaleString()}.
+          </p>
+        ) : (
+          <div className="divide-y divide-slate-700/50 border border-slate-700/50 rounded-lg mb-6">
+            {ticketTypes.map((ticketType) => {
+              const unavailable = getTicketTypeUnavailableReason(ticketType);
+
+              return (
+                <div key={ticketType.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-white font-medium">
+                      {ticketType.name}
+                      <span className="ml-2 text-xs text-purple-300">{TICKET_KIND_LABELS[ticketType.kind]}</span>
+                    </p>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {Number(ticketType.price) > 0
+                        ? `${ticketType.currency} ${Number(ticketType.price).toLocaleString()}`
+                        : 'Free'}
+                      {ticketType.admits > 1 && ` · admits ${ticketType.admits}`}
+                      {` · ${ticketType.sold_count} / ${ticketType.quantity} sold`}
+                      {unavailable && ` · ${unavailable}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggleActive(ticketType)}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                        ticketType.is_active
+                          ? 'bg-green-500/20 text-green-300 hover:bg-green-500/30'
+                          : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      {ticketType.is_active ? 'On sale' : 'Off sale'}
+                    </button>
+                    <button
+                      onClick={() => startEditing(ticketType)}
+                      className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
+                      title="Edit ticket"
+                    >
+                      <Edit className="w-4 h-4 text-slate-400" />
+                    </button>
+                    {ticketType.sold_count === 0 && (
+                      <button
+                        onClick={() => handleDelete(ticketType)}
+                        className="p-2 hover:bg-rose-500/10 rounded-lg transition-colors"
+                        title="Delete ticket"
+                      >
+                        <Trash2 className="w-4 h-4 text-rose-400" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {form ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <h3 className="text-lg font-semibold text-white">{editingId ? 'Edit ticket' : 'New ticket'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Name *</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Early Bird"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Type</label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => {
+                    const kind = e.target.value as TicketKind;
+                    setForm({ ...form, kind, admits: kind === 'group' && form.admits === 1 && !priceLocked ? 5 : form.admits });
+                  }}
+                  className={inputClass}
+                >
+                  {(Object.keys(TICKET_KIND_LABELS) as TicketKind[]).map((kind) => (
+                    <option key={kind} value={kind} className="bg-gray-800">
+                      {TICKET_KIND_LABELS[kind]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-slate-200 mb-2">Description</label>
+              <input
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="What this ticket includes"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="col-span-2">
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Price (0 = free)</label>
+                <div className="flex gap-2">
+                  <select
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                    disabled={priceLocked}
+                    className={`${inputClass} w-28`}
+                  >
+                    {['UGX', 'USD', 'EUR', 'GBP'].map((currency) => (
+                      <option key={currency} value={currency} className="bg-gray-800">
+                        {currency}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={form.price}
+                    onChange={(e) => setForm({ ...form, price: Number(e.target.value) })}
+                    disabled={priceLocked}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Quantity</label>
+                <input
+                  type="number"
+                  min={Math.max(1, editingType?.sold_count ?? 0)}
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Admits</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.admits}
+                  onChange={(e) => setForm({ ...form, admits: Number(e.target.value) })}
+                  disabled={priceLocked}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Sales start</label>
+                <input
+                  type="datetime-local"
+                  value={toInputValue(form.sales_start_at)}
+                  onChange={(e) => setForm({ ...form, sales_start_at: fromInputValue(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Sales end</label>
+                <input
+                  type="datetime-local"
+                  value={toInputValue(form.sales_end_at)}
+                  onChange={(e) => setForm({ ...form, sales_end_at: fromInputValue(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-200 mb-2">Max per order</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.max_per_order}
+                  onChange={(e) => setForm({ ...form, max_per_order: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {priceLocked && (
+              <p className="text-xs text-slate-400">
+                Price and admission can't change now that {editingType?.sold_count} tickets have sold.
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+              >
+                {saving && <Loader className="w-4 h-4 animate-spin" />}
+                Save Ticket
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setForm(null);
+                  setEditingId(null);
+                }}
+                className="px-6 py-3 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => startEditing()}
+            className="w-full flex items-center justify-center gap-2 px-6 py-3 glass-effect text-gray-300 hover:text-white rounded-lg transition-colors font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add Ticket Type
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { X, Loader, CheckCircle, XCircle, Film, Trash2 } from 'lucide-react';
+import VideoUploadWithMuxForMasterclass from './VideoUploadWithMuxForMasterclass';
+import { getMuxThumbnailUrl } from '../lib/curriculumService';
+import {
+  WorkshopRegistration,
+  WorkshopSession,
+  attachWorkshopRecording,
+  cancelWorkshopSession,
+  formatWorkshopTime,
+  getWorkshopRecording,
+  getWorkshopRegistrants,
+  isWorkshopOver,
+  setWorkshopAttendance,
+} from '../lib/workshopService';
+
+interface WorkshopManageModalProps {
+  session: WorkshopSession | null;
+  userId: string;
+  onClose: () => void;
+  /** Called after the session was cancelled or its recording changed */
+  onChanged: () => void;
+}
+
+/**
+ * Host view of a workshop: registrants with their attendance, the
+ * recording, and cancelling the session
+ */
+export default function WorkshopManageModal({ session, userId, onClose, onChanged }: WorkshopManageModalProps) {
+  const [registrants, setRegistrants] = useState<WorkshopRegistration[]>([]);
+  const [recordingPlaybackId, setRecordingPlaybackId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+
+    setLoading(true);
+    setError(null);
+
+    Promise.all([getWorkshopRegistrants(session.id), getWorkshopRecording(session.id)]).then(
+      ([registrations, recording]) => {
+        setRegistrants(registrations);
+        setRecordingPlaybackId(recording.playbackId || null);
+        setLoading(false);
+      }
+    );
+  }, [session]);
+
+  if (!session) return null;
+
+  const activeRegistrants = registrants.filter((registration) => registration.status === 'registered');
+  const attendedCount = activeRegistrants.filter((registration) => registration.attended).length;
+
+  const handleAttendance = async (registration: WorkshopRegistration, attended: boolean) => {
+    const next = registration.attended === attended ? null : attended;
+    const result = await setWorkshopAttendance(registration.id, next);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to record attendance');
+      return;
+    }
+
+    setRegistrants((prev) => prev.map((r) => (r.id === registration.id ? { ...r, attended: next } : r)));
+  };
+
+  const handleRecording = async (playbackId: string | null, videoUploadId?: string) => {
+    setBusy(true);
+    setError(null);
+
+    const result = await attachWorkshopRecording(session.id, playbackId, videoUploadId);
+
+    setBusy(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to update the recording');
+      return;
+    }
+
+    setRecordingPlaybackId(playbackId);
+    onChanged();
+  };
+
+  const handleCancelSession = async () => {
+    const message =
+      activeRegistrants.length > 0
+        ? `Cancel this workshop? ${activeRegistrants.length} registered people will no longer be able to join.`
+        : 'Cancel this workshop?';
+    if (!confirm(message)) return;
+
+    setBusy(true);
+    const result = await cancelWorkshopSession(session.id);
+    setBusy(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to cancel workshop');
+      return;
+    }
+
+    onChanged();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{session.title}</h2>
+            <p className="text-sm text-slate-400 mt-1">{formatWorkshopTime(session.starts_at, session.timezone)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">{error}</div>
+        )}
+
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-white">Registrants</h3>
+            <span className="text-sm text-slate-400">
+              {activeRegistrants.length} / {session.capacity} seats
+              {isWorkshopOver(session) && ` · ${attendedCount} attended`}
+            </span>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader className="w-6 h-6 text-rose-400 animate-spin" />
+            </div>
+          ) : activeRegistrants.length === 0 ? (
+            <p className="text-sm text-slate-400">No one has registered yet.</p>
+          ) : (
+            <div className="divide-y divide-slate-700/50 border border-slate-700/50 rounded-lg">
+              {activeRegistrants.map((registration) => (
+                <div key={registration.id} className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <div className="text-sm text-white">{registration.registrant_name || 'Learner'}</div>
+                    <div className="text-xs text-slate-400">
+                      {registration.price_paid > 0
+                        ? `Paid ${registration.currency} ${Number(registration.price_paid).toLocaleString()}`
+                        : 'Free'}
+                      {registration.joined_at && ` · joined ${new Date(registration.joined_at).toLocaleTimeString()}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleAttendance(registration, true)}
+                      title="Attended"
+                      className={`p-1.5 rounded-lg transition-colors ${
+                        registration.attended === true ? 'bg-green-500/20 text-green-400' : 'text-slate-500 hover:text-green-400'
+                      }`}
+                    >
+                      <CheckCircle className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => handleAttendance(registration, false)}
+                      title="Did not attend"
+                      className={`p-1.5 rounded-lg transition-colors ${
+                        registration.attended === false ? 'bg-red-500/20 text-red-400' : 'text-slate-500 hover:text-red-400'
+                      }`}
+                    >
+                      <XCircle className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-white mb-3">Recording</h3>
+          {recordingPlaybackId ? (
+            <div className="flex items-center gap-4">
+              <img
+                src={getMuxThumbnailUrl(recordingPlaybackId)}
+                alt="Recording thumbnail"
+                className="w-32 aspect-video rounded-lg object-cover"
+              />
+              <div className="flex-1 text-sm text-slate-300">
+                <div className="flex items-center gap-2">
+                  <Film className="w-4 h-4 text-rose-400" />
+                  Registrants can replay this recording.
+                </div>
+              </div>
+              <button
+                onClick={() => handleRecording(null)}
+                disabled={busy}
+                className="flex items-center gap-1 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove
+              </button>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-slate-400 mb-3">
+                Upload the session recording and everyone who registered can replay it.
+              </p>
+              <VideoUploadWithMuxForMasterclass
+                userId={userId}
+                onVideoSelected={(playbackId, videoUploadId) => handleRecording(playbackId, videoUploadId)}
+              />
+            </>
+          )}
+        </div>
+
+        {!isWorkshopOver(session) && (
+          <button
+            onClick={handleCancelSession}
+            disabled={busy}
+            className="w-full px-6 py-3 border border-red-500/40 text-red-400 rounded-lg hover:bg-red-500/10 transition-colors disabled:opacity-50"
+          >
+            Cancel Workshop
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
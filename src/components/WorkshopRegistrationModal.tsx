@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader, AlertCircle } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { PaymentOrchestration } from '../lib/paymentOrchestration';
+import { PaymentMethodType } from '../lib/paymentMethodConfig';
+import { WorkshopSession, formatWorkshopTime } from '../lib/workshopService';
+import PaymentMethodSelector from './PaymentMethodSelector';
+
+interface WorkshopRegistrationModalProps {
+  session: WorkshopSession | null;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+/**
+ * Checkout for a paid workshop seat. The seat is only taken once the
+ * payment webhook fulfils the order; free sessions don't come here.
+ */
+export default function WorkshopRegistrationModal({ session, onClose }: WorkshopRegistrationModalProps) {
+  const { user, profile } = useAuth();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodType>('card');
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+
+    setName(profile?.name || '');
+    setEmail(profile?.email || '');
+    setPhoneNumber('');
+    setError(null);
+  }, [session, profile]);
+
+  if (!session) return null;
+
+  const handleCheckout = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user) {
+      setError('Please sign in to register');
+      return;
+    }
+    if (!email.trim()) {
+      setError('Email is required');
+      return;
+    }
+
+    setProcessing(true);
+    setError(null);
+
+    const result = await PaymentOrchestration.initializePurchase({
+      itemType: 'workshop_registration',
+      itemRef: session.id,
+      userId: user.id,
+      amount: Number(session.price),
+      currency: session.currency,
+      paymentMethod,
+      email: email.trim(),
+      phoneNumber,
+      userName: name.trim(),
+    });
+
+    if (!result.success || !result.checkoutUrl) {
+      setProcessing(false);
+      setError(result.error || 'Payment initialization failed');
+      return;
+    }
+
+    // Picked up by the order callback page while the webhook fulfils the order
+    sessionStorage.setItem('pendingEnrollment', JSON.stringify({ orderId: result.orderId, userId: user.id }));
+    window.location.href = result.checkoutUrl;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">Register for Workshop</h2>
+          <button
+            onClick={onClose}
+            disabled={processing}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <div className="mb-6 p-5 bg-slate-700/30 border border-slate-600/50 rounded-xl">
+          <h3 className="text-white font-semibold">{session.title}</h3>
+          <p className="text-gray-400 text-xs mt-1">
+            {formatWorkshopTime(session.starts_at)} · {session.duration_minutes} min · by {session.host_name || 'Host'}
+          </p>
+          <p className="text-rose-400 font-bold text-sm mt-2">
+            {session.currency} {Number(session.price).toLocaleString()}
+          </p>
+        </div>
+
+        <form onSubmit={handleCheckout} className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-200 mb-2">Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-200 mb-2">Email *</label>
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-200 mb-2">Phone Number</label>
+            <input
+              type="tel"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              placeholder="Needed for mobile money"
+              className={inputClass}
+            />
+          </div>
+
+          <PaymentMethodSelector
+            selectedMethod={paymentMethod}
+            onMethodChange={setPaymentMethod}
+            currency={session.currency}
+          />
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={processing}
+            className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+          >
+            {processing && <Loader className="w-4 h-4 animate-spin" />}
+            Continue to Payment
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader, AlertCircle } from 'lucide-react';
+import {
+  WorkshopSession,
+  WORKSHOP_TIMEZONES,
+  getBrowserTimezone,
+  getWorkshopJoinUrl,
+  saveWorkshopSession,
+  utcToZonedInput,
+  zonedInputToUtc,
+} from '../lib/workshopService';
+
+interface WorkshopSessionModalProps {
+  isOpen: boolean;
+  /** Session to edit; omit to schedule a new one */
+  session?: WorkshopSession | null;
+  categories: { value: string; label: string }[];
+  onClose: () => void;
+  onSaved: (session: WorkshopSession) => void;
+}
+
+const CURRENCIES = ['UGX', 'KES', 'USD', 'EUR', 'GBP'];
+
+const inputClass =
+  'w-full px-4 py-3 bg-slate-700/40 border border-slate-600/50 rounded-lg text-white placeholder-slate-400 focus:ring-2 focus:ring-rose-400 focus:border-rose-400/50 transition-all';
+
+const labelClass = 'block text-sm font-semibold text-slate-200 mb-2';
+
+export default function WorkshopSessionModal({
+  isOpen,
+  session,
+  categories,
+  onClose,
+  onSaved,
+}: WorkshopSessionModalProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState('');
+  const [location, setLocation] = useState('');
+  const [timezone, setTimezone] = useState(getBrowserTimezone());
+  const [startsAtLocal, setStartsAtLocal] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [capacity, setCapacity] = useState(20);
+  const [price, setPrice] = useState(0);
+  const [currency, setCurrency] = useState('UGX');
+  const [joinUrl, setJoinUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setError(null);
+
+    if (!session) {
+      setTitle('');
+      setDescription('');
+      setCategory('');
+      setLocation('');
+      setTimezone(getBrowserTimezone());
+      setStartsAtLocal('');
+      setDurationMinutes(60);
+      setCapacity(20);
+      setPrice(0);
+      setCurrency('UGX');
+      setJoinUrl('');
+      return;
+    }
+
+    setTitle(session.title);
+    setDescription(session.description || '');
+    setCategory(session.category || '');
+    setLocation(session.location || '');
+    setTimezone(session.timezone);
+    setStartsAtLocal(utcToZonedInput(session.starts_at, session.timezone));
+    setDurationMinutes(session.duration_minutes);
+    setCapacity(session.capacity);
+    setPrice(Number(session.price));
+    setCurrency(session.currency);
+    setJoinUrl('');
+
+    getWorkshopJoinUrl(session.id).then((url) => setJoinUrl(url || ''));
+  }, [isOpen, session]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startsAtLocal) {
+      setError('Choose when the workshop starts');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    const result = await saveWorkshopSession(
+      {
+        title,
+        description,
+        category,
+        location,
+        starts_at: zonedInputToUtc(startsAtLocal, timezone),
+        duration_minutes: durationMinutes,
+        timezone,
+        capacity,
+        price,
+        currency,
+        join_url: joinUrl,
+      },
+      session?.id
+    );
+
+    setSaving(false);
+
+    if (!result.success || !result.session) {
+      setError(result.error || 'Failed to save workshop');
+      return;
+    }
+
+    onSaved(result.session);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const timezoneOptions = WORKSHOP_TIMEZONES.includes(timezone) ? WORKSHOP_TIMEZONES : [timezone, ...WORKSHOP_TIMEZONES];
+  const hasRegistrants = (session?.registered_count || 0) > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 border border-slate-700/50 shadow-2xl p-8 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">{session ? 'Edit Workshop' : 'Schedule a Workshop'}</h2>
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className={labelClass}>Title *</label>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} required />
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Category</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+                <option value="" className="bg-gray-800">No category</option>
+                {categories.map((option) => (
+                  <option key={option.value} value={option.value} className="bg-gray-800">
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Location</label>
+              <input
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. Zoom or Kampala Creative Hub"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Starts *</label>
+              <input
+                type="datetime-local"
+                value={startsAtLocal}
+                onChange={(e) => setStartsAtLocal(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Timezone</label>
+              <select value={timezone} onChange={(e) => setTimezone(e.target.value)} className={inputClass}>
+                {timezoneOptions.map((zone) => (
+                  <option key={zone} value={zone} className="bg-gray-800">
+                    {zone.replace(/_/g, ' ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Duration (minutes)</label>
+              <input
+                type="number"
+                min={15}
+                step={15}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Seats</label>
+              <input
+                type="number"
+                min={Math.max(1, session?.registered_count || 0)}
+                value={capacity}
+                onChange={(e) => setCapacity(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Price (0 for free)</label>
+              <input
+                type="number"
+                min={0}
+                value={price}
+                onChange={(e) => setPrice(Number(e.target.value))}
+                disabled={hasRegistrants}
+                className={`${inputClass} disabled:opacity-60`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Currency</label>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                disabled={hasRegistrants}
+                className={`${inputClass} disabled:opacity-60`}
+              >
+                {CURRENCIES.map((code) => (
+                  <option key={code} value={code} className="bg-gray-800">
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {hasRegistrants && (
+            <p className="text-xs text-slate-400">The price is fixed once people have registered.</p>
+          )}
+
+          <div>
+            <label className={labelClass}>Join link</label>
+            <input
+              type="url"
+              value={joinUrl}
+              onChange={(e) => setJoinUrl(e.target.value)}
+              placeholder="https://..."
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-400 mt-1">
+              Only registrants see it, from 15 minutes before the start. You can add it later.
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+          >
+            {saving && <Loader className="w-4 h-4 animate-spin" />}
+            {session ? 'Save Changes' : 'Schedule Workshop'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -24,7 +24,7 @@ interface AuthContextType {
   profile: Profile | null;
   session: any | null;
   loading: boolean;
-  signUp: (formData: { name: string; email: string; password: string; accountType: 'creator' | 'member' }) => Promise<void>;
+  signUp: (formData: { name: string; email: string; password: string; accountType: 'creator' | 'member'; referralCode?: string }) => Promise<void>;
   signIn: (email: string, password: string) => Promise<AuthUser | null>;
   signOut: () => Promise<void>;
 }
@@ -91,7 +91,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return null;
   };
 
-  const signUp = async (formData: { name: string; email: string; password: string; accountType: 'creator' | 'member' }) => {
+  const signUp = async (formData: { name: string; email: string; password: string; accountType: 'creator' | 'member'; referralCode?: string }) => {
     try {
       const { data, error: signUpError } = await supabase.auth.signUp({
         email: formData.email,
@@ -100,6 +100,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           data: {
             name: formData.name,
             account_type: formData.accountType,
+            // Attached to the referrer by a database trigger (031_referral_program.sql)
+            referral_code: formData.referralCode || undefined,
           },
         },
       });
@@ -42,7 +42,7 @@ export function DataPreloadProvider({ children }: { children: React.ReactNode })
           // Published events (matches getPublishedEvents filter)
           supabase
             .from('events')
-            .select('*')
+            .select('*, occurrence_overrides:event_occurrence_overrides(*)')
             .eq('is_visible_in_join_tab', true)
             .eq('is_published', true)
             .order('event_date', { ascending: true }),
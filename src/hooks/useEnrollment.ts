@@ -5,16 +5,11 @@ import {
   isUserEnrolled,
   updateEnrollmentProgress,
   getEnrollmentDetails,
-  initializeEversendPayment,
-  initializeFlutterwavePayment,
-  verifyEversendPayment,
-  verifyFlutterwavePayment,
   CourseEnrollment,
-  EversendPaymentResponse,
-  FlutterwavePaymentResponse,
 } from '../lib/enrollmentService';
+import { PaymentOrchestration } from '../lib/paymentOrchestration';
+import { PaymentMethodType } from '../lib/paymentMethodConfig';
 import { createCertificate } from '../lib/certificateService';
-import { createInvoice } from '../lib/invoiceService';
 
 export function useEnrollment() {
   const [isLoading, setIsLoading] = useState(false);
@@ -48,97 +43,57 @@ export function useEnrollment() {
     }
   }, []);
 
-  // Initialize payment and create enrollment
+  // Enroll in a free course, or open checkout for a paid one. Paid
+  // enrollments are created by the payment webhook, not here.
   const initiateEnrollment = useCallback(
     async (
       userId: string,
       courseId: string,
       amount: number,
+      currency: string,
       userEmail: string,
       userName: string,
       phoneNumber: string,
-      useEversend: boolean = true
-    ): Promise<{ success: boolean; paymentUrl?: string; error?: string; enrollmentId?: string }> => {
+      paymentMethod: PaymentMethodType,
+      promoCodes?: string[]
+    ): Promise<{
+      success: boolean;
+      paymentUrl?: string;
+      error?: string;
+      enrollmentId?: string;
+      orderId?: string;
+    }> => {
       try {
         setIsLoading(true);
         setError(null);
 
         // For free courses
         if (amount === 0) {
-          const result = await createEnrollment(userId, courseId, 0, null, null, 'completed');
+          const result = await createEnrollment(userId, courseId);
           if (result.success) {
             return { success: true, enrollmentId: result.enrollment?.id };
           }
           throw new Error(result.error || 'Failed to create enrollment');
         }
 
-        // For paid courses - try Eversend first
-        if (useEversend) {
-          const eversendResult = await initializeEversendPayment(
-            courseId,
-            amount,
-            userEmail,
-            userName,
-            phoneNumber
-          );
-
-          if (eversendResult.success && eversendResult.checkoutLink) {
-            // Create pending enrollment
-            const enrollmentResult = await createEnrollment(
-              userId,
-              courseId,
-              amount,
-              'eversend',
-              eversendResult.reference || '',
-              'pending'
-            );
-
-            if (enrollmentResult.success) {
-              return {
-                success: true,
-                paymentUrl: eversendResult.checkoutLink,
-                enrollmentId: enrollmentResult.enrollment?.id,
-              };
-            }
-          }
-
-          // Fallback to Flutterwave if Eversend fails
-          console.log('Eversend payment failed, falling back to Flutterwave');
-        }
-
-        // Use Flutterwave
-        const flutterwaveResult = await initializeFlutterwavePayment(
-          courseId,
+        const result = await PaymentOrchestration.initializePurchase({
+          itemType: 'course_enrollment',
+          itemRef: courseId,
+          userId,
           amount,
-          userEmail,
-          userName
-        );
-
-        if (flutterwaveResult.status === 'success' && flutterwaveResult.data?.link) {
-          // Create pending enrollment
-          const enrollmentResult = await createEnrollment(
-            userId,
-            courseId,
-            amount,
-            'flutterwave',
-            courseId,
-            'pending'
-          );
+          currency,
+          paymentMethod,
+          email: userEmail,
+          phoneNumber,
+          userName,
+          promoCodes,
+        });
 
-          if (enrollmentResult.success) {
-            return {
-              success: true,
-              paymentUrl: flutterwaveResult.data.link,
-              enrollmentId: enrollmentResult.enrollment?.id,
-            };
-          }
+        if (!result.success || !result.checkoutUrl) {
+          return { success: false, error: result.error || 'Failed to initialize payment' };
         }
 
-        return {
-          success: false,
-          error:
-            flutterwaveResult.message || 'Failed to initialize payment',
-        };
+        return { success: true, paymentUrl: result.checkoutUrl, orderId: result.orderId };
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Enrollment failed';
         setError(message);
@@ -150,75 +105,21 @@ export function useEnrollment() {
     []
   );
 
-  // Verify payment and complete enrollment
-  const verifyEnrollmentPayment = useCallback(
-    async (
-      enrollmentId: string,
-      transactionId: string,
-      paymentMethod: 'eversend' | 'flutterwave'
-    ): Promise<{ success: boolean; error?: string }> => {
-      try {
-        setIsLoading(true);
-        setError(null);
-
-        let paymentVerified = false;
-
-        if (paymentMethod === 'eversend') {
-          paymentVerified = await verifyEversendPayment(transactionId);
-        } else if (paymentMethod === 'flutterwave') {
-          paymentVerified = await verifyFlutterwavePayment(transactionId);
-        }
-
-        if (!paymentVerified) {
-          return { success: false, error: 'Payment verification failed' };
-        }
-
-        // Update enrollment status
-        const { error: updateError } = await updateEnrollmentProgress(enrollmentId, 0, 0, false);
-
-        if (updateError) {
-          return { success: false, error: updateError };
-        }
-
-        return { success: true };
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Verification failed';
-        setError(message);
-        return { success: false, error: message };
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    []
-  );
-
-  // Update progress
-  const updateProgress = useCallback(
-    async (
-      enrollmentId: string,
-      progressPercentage: number,
-      lessonsCompleted: number,
-      isCompleted: boolean = false
-    ) => {
-      try {
-        const result = await updateEnrollmentProgress(
-          enrollmentId,
-          progressPercentage,
-          lessonsCompleted,
-          isCompleted
-        );
-        if (!result.success) {
-          setError(result.error || 'Failed to update progress');
-        }
-        return result.success;
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Progress update failed';
-        setError(message);
-        return false;
+  // Refresh progress (derived from lesson progress on the server)
+  const updateProgress = useCallback(async (enrollmentId: string) => {
+    try {
+      const result = await updateEnrollmentProgress(enrollmentId);
+      if (!result.success) {
+        setError(result.error || 'Failed to update progress');
+        return null;
       }
-    },
-    []
-  );
+      return result.progress || null;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Progress update failed';
+      setError(message);
+      return null;
+    }
+  }, []);
 
   // Get enrollment details
   const getDetails = useCallback(async (userId: string, courseId: string) => {
@@ -230,69 +131,20 @@ export function useEnrollment() {
     }
   }, []);
 
-  // Generate certificate for completed course
-  const generateCertificate = useCallback(
-    async (
-      enrollmentId: string,
-      userId: string,
-      courseId: string,
-      courseName: string,
-      userName: string,
-      instructorName: string
-    ) => {
-      try {
-        const result = await createCertificate(
-          enrollmentId,
-          userId,
-          courseId,
-          courseName,
-          userName,
-          instructorName
-        );
-        if (!result.success) {
-          setError(result.error || 'Failed to generate certificate');
-        }
-        return result.success;
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Certificate generation failed';
-        setError(message);
-        return false;
-      }
-    },
-    []
-  );
-
-  // Generate invoice for enrollment
-  const generateInvoice = useCallback(
-    async (
-      enrollmentId: string,
-      userId: string,
-      courseId: string,
-      amount: number,
-      paymentMethod?: string,
-      transactionId?: string
-    ) => {
-      try {
-        const result = await createInvoice(
-          enrollmentId,
-          userId,
-          courseId,
-          amount,
-          paymentMethod,
-          transactionId
-        );
-        if (!result.success) {
-          setError(result.error || 'Failed to create invoice');
-        }
-        return result.success;
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Invoice creation failed';
-        setError(message);
-        return false;
+  // Issue (or fetch the already issued) certificate for a completed course
+  const generateCertificate = useCallback(async (enrollmentId: string) => {
+    try {
+      const result = await createCertificate(enrollmentId);
+      if (!result.success) {
+        setError(result.error || 'Failed to generate certificate');
       }
-    },
-    []
-  );
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Certificate generation failed';
+      setError(message);
+      return { success: false, error: message };
+    }
+  }, []);
 
   return {
     enrollments,
@@ -301,10 +153,8 @@ export function useEnrollment() {
     fetchEnrollments,
     checkEnrollment,
     initiateEnrollment,
-    verifyEnrollmentPayment,
     updateProgress,
     getDetails,
     generateCertificate,
-    generateInvoice,
   };
 }
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../context/AuthContext';
+import { showInAppNotification } from '../lib/remindersService';
+
+export interface LessonReleaseNotification {
+  id: string;
+  course_id: string;
+  lesson_id: string;
+  course_title: string;
+  lesson_title: string;
+  released_at: string;
+  created_at: string;
+}
+
+/**
+ * Unread "new lesson unlocked" notifications for drip-scheduled courses.
+ * Rows are queued by queue_lesson_release_notifications; new ones arrive
+ * over realtime and also raise a browser notification when allowed.
+ */
+export function useLessonReleaseNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<LessonReleaseNotification[]>([]);
+
+  useEffect(() => {
+    if (!user?.id) {
+      setNotifications([]);
+      return;
+    }
+
+    const fetchNotifications = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('lesson_release_notifications')
+          .select('id, course_id, lesson_id, course_title, lesson_title, released_at, created_at')
+          .eq('user_id', user.id)
+          .is('read_at', null)
+          .order('created_at', { ascending: false })
+          .limit(20);
+
+        if (error) throw error;
+
+        setNotifications(data || []);
+      } catch (err) {
+        console.error('Error fetching lesson release notifications:', err);
+      }
+    };
+
+    fetchNotifications();
+
+    const subscription = supabase
+      .channel(`public:lesson_release_notifications:user_id=eq.${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'lesson_release_notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const notification = payload.new as LessonReleaseNotification;
+          setNotifications((prev) => [notification, ...prev.filter((n) => n.id !== notification.id)]);
+          showInAppNotification('New lesson unlocked', {
+            body: `${notification.lesson_title} · ${notification.course_title}`,
+            tag: `lesson-release-${notification.id}`,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id]);
+
+  const markAsRead = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    setNotifications((prev) => prev.filter((notification) => !ids.includes(notification.id)));
+
+    const { error } = await supabase
+      .from('lesson_release_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error marking lesson release notifications read:', error);
+    }
+  }, []);
+
+  return { notifications, markAsRead };
+}
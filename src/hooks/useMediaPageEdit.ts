@@ -15,6 +15,7 @@ export interface EditContentPayload {
   course_price?: number;
   course_currency?: string;
   duration?: string;
+  completion_threshold_percent?: number;
 }
 
 export interface EditResult {
@@ -82,6 +83,9 @@ export function useMediaPageEdit() {
           if (payload.duration !== undefined) {
             updatePayload.duration = payload.duration;
           }
+          if (payload.completion_threshold_percent !== undefined) {
+            updatePayload.completion_threshold_percent = payload.completion_threshold_percent;
+          }
         }
 
         const { error } = await supabase
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { getPriceBooks, PriceBook } from '../lib/pricingCatalogService';
+
+export function usePriceBooks() {
+  const [priceBooks, setPriceBooks] = useState<PriceBook[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPriceBooks()
+      .then((books) => {
+        if (!cancelled) setPriceBooks(books);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { priceBooks, loading };
+}
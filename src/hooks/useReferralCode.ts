@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { buildReferralLink, getMyReferralCode } from '../lib/referralService';
 
 export function useReferralCode() {
   const { user } = useAuth();
@@ -12,19 +13,25 @@ export function useReferralCode() {
       return;
     }
 
-    try {
-      // Generate referral code from user ID and a timestamp
-      // Format: REF-PREFIX-USERID
-      const userIdShort = user.id.substring(0, 8).toUpperCase();
-      const code = `REF-TT${new Date().getFullYear()}-${userIdShort}`;
-      setReferralCode(code);
-    } catch (err) {
-      console.error('Error generating referral code:', err);
-    } finally {
-      setLoading(false);
-    }
+    let cancelled = false;
+    setLoading(true);
+
+    // The code is stored per user, so shared links keep working
+    getMyReferralCode()
+      .then((code) => {
+        if (!cancelled) setReferralCode(code);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [user]);
 
+  const referralLink = referralCode ? buildReferralLink(referralCode) : null;
+
   const copyToClipboard = async (code: string) => {
     try {
       await navigator.clipboard.writeText(code);
@@ -35,5 +42,5 @@ export function useReferralCode() {
     }
   };
 
-  return { referralCode, loading, copyToClipboard };
+  return { referralCode, referralLink, loading, copyToClipboard };
 }
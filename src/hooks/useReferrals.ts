@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import {
+  getMyReferrals,
+  getReferralRewardRules,
+  Referral,
+  ReferralRewardRule,
+} from '../lib/referralService';
+
+export function useReferrals() {
+  const { user } = useAuth();
+  const [referrals, setReferrals] = useState<Referral[]>([]);
+  const [rewardRules, setRewardRules] = useState<ReferralRewardRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const [referralData, rules] = await Promise.all([getMyReferrals(), getReferralRewardRules()]);
+    setReferrals(referralData);
+    setRewardRules(rules);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const totals = {
+    signedUp: referrals.length,
+    converted: referrals.filter((r) => r.status === 'converted').length,
+    pointsEarned: referrals.reduce((sum, r) => sum + (r.reward_type === 'loyalty_points' ? r.reward_points || 0 : 0), 0),
+    creditPending: referrals.filter((r) => r.reward_type === 'account_credit' && r.payout_status === 'pending'),
+  };
+
+  return { referrals, rewardRules, totals, loading, refresh };
+}
@@ -1,17 +1,24 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../context/AuthContext';
+import { getEventOccurrences } from '../lib/eventRecurrence';
 
 interface UpcomingEvent {
   id: string;
   title: string;
+  /** For recurring events, the date of this occurrence */
   event_date: string;
   event_time: string;
   attendees_count: number;
   location: string;
   organizer_name: string;
+  /** Set for occurrences of a recurring event */
+  occurrence_date?: string;
 }
 
+const UPCOMING_EVENT_COLUMNS =
+  'id, title, description, event_date, event_time, attendees_count, location, organizer_name, recurrence_rule, recurrence_exdates, occurrence_overrides:event_occurrence_overrides(*)';
+
 function getCacheKey(): string {
   return 'upcomingEvents';
 }
@@ -47,17 +54,51 @@ export function useUpcomingEvents(limit: number = 3) {
       try {
         const today = new Date().toISOString().split('T')[0];
 
-        const { data, error: err } = await supabase
-          .from('events')
-          .select('id, title, event_date, event_time, attendees_count, location, organizer_name')
-          .eq('status', 'upcoming')
-          .gte('event_date', today)
-          .order('event_date', { ascending: true })
-          .limit(limit);
+        // One-off events are limited in the query; recurring ones can start
+        // in the past, so they are fetched whole and expanded here
+        const [oneOffRes, recurringRes] = await Promise.all([
+          supabase
+            .from('events')
+            .select(UPCOMING_EVENT_COLUMNS)
+            .eq('status', 'upcoming')
+            .is('recurrence_rule', null)
+            .gte('event_date', today)
+            .order('event_date', { ascending: true })
+            .limit(limit),
+          supabase
+            .from('events')
+            .select(UPCOMING_EVENT_COLUMNS)
+            .eq('status', 'upcoming')
+            .not('recurrence_rule', 'is', null),
+        ]);
+
+        if (oneOffRes.error) throw oneOffRes.error;
+        if (recurringRes.error) throw recurringRes.error;
+
+        const toUpcomingEvent = (event: (typeof recurringRes.data)[number]): UpcomingEvent => ({
+          id: event.id,
+          title: event.title,
+          event_date: event.event_date,
+          event_time: event.event_time,
+          attendees_count: event.attendees_count,
+          location: event.location,
+          organizer_name: event.organizer_name,
+        });
 
-        if (err) throw err;
+        const occurrences = (recurringRes.data || []).flatMap((event) =>
+          getEventOccurrences(event, { from: today, limit }).map((occurrence) => ({
+            ...toUpcomingEvent(event),
+            title: occurrence.title,
+            event_date: occurrence.event_date,
+            event_time: occurrence.event_time,
+            location: occurrence.location,
+            occurrence_date: occurrence.occurrence_date,
+          }))
+        );
 
-        const eventData = data || [];
+        const eventData = [...(oneOffRes.data || []).map(toUpcomingEvent), ...occurrences]
+          .sort((a, b) => `${a.event_date}T${a.event_time}`.localeCompare(`${b.event_date}T${b.event_time}`))
+          .slice(0, limit);
         setEvents(eventData);
         // Cache the fresh data
         try {
@@ -12,6 +12,12 @@
  * Frontend only communicates with your backend API, never with payment gateways directly
  */
 
+import {
+  createGatewayAdapter,
+  GatewayName,
+  PaymentGatewayAdapter,
+} from '../../supabase/functions/_shared/paymentGateways';
+
 /**
  * Endpoint: POST /api/payments/membership/initiate
  * 
@@ -66,6 +72,35 @@ export interface InitiatePaymentRequest {
  *    - Implement retry logic with exponential backoff
  */
 
+/**
+ * Gateway adapters (Backend)
+ * The edge functions and this example share one adapter per gateway, so a
+ * Node backend only supplies credentials from its own environment.
+ * Set PAYMENT_GATEWAY=sandbox to use the offline sandboxGateway function.
+ */
+function getBackendGateway(name: GatewayName): PaymentGatewayAdapter {
+  const override = process.env.PAYMENT_GATEWAY === 'sandbox' ? 'sandbox' : name;
+
+  switch (override) {
+    case 'sandbox':
+      return createGatewayAdapter('sandbox', {
+        apiKey: process.env.SANDBOX_API_KEY,
+        webhookSecret: process.env.SANDBOX_WEBHOOK_SECRET,
+        baseUrl: `${process.env.SUPABASE_URL}/functions/v1/sandboxGateway`,
+      });
+    case 'flutterwave':
+      return createGatewayAdapter('flutterwave', {
+        apiKey: process.env.FLUTTERWAVE_SECRET_KEY,
+        webhookSecret: process.env.FLUTTERWAVE_WEBHOOK_SECRET,
+      });
+    default:
+      return createGatewayAdapter('eversend', {
+        apiKey: process.env.EVERSEND_API_KEY,
+        webhookSecret: process.env.EVERSEND_WEBHOOK_SECRET,
+      });
+  }
+}
+
 /**
  * Initialize Eversend Payment (Backend)
  */
@@ -82,59 +117,33 @@ export async function initializeEversendPayment(
   sessionId?: string;
   error?: string;
 }> {
-  try {
-    // API key retrieved from server-side environment variable
-    const apiKey = process.env.EVERSEND_API_KEY;
-    if (!apiKey) {
-      console.error('EVERSEND_API_KEY not configured');
-      return {
-        success: false,
-        error: 'Payment service not configured',
-      };
-    }
-
-    const response = await fetch('https://api.eversend.co/send/initiate', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        amount,
-        currency: 'USD',
-        phoneNumber,
-        email,
-        description: `Membership Upgrade - TX${transactionId.substring(0, 8)}`,
-        externalId: transactionId,
-        metadata: {
-          transactionId,
-          type: 'membership-upgrade',
-        },
-      }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        success: false,
-        error: data.message || 'Payment initialization failed',
-      };
-    }
-
-    return {
-      success: true,
-      reference: data.reference,
-      checkoutUrl: data.checkoutLink || data.paymentLink,
-      sessionId: data.reference,
-    };
-  } catch (error) {
-    console.error('Eversend API error:', error);
-    return {
-      success: false,
-      error: 'Payment service error',
-    };
+  const result = await getBackendGateway('eversend').initializePayment({
+    reference: transactionId,
+    amount,
+    currency: 'USD',
+    email,
+    phoneNumber,
+    customerName: userName,
+    title: 'Membership Upgrade',
+    description: `Membership Upgrade - TX${transactionId.substring(0, 8)}`,
+    redirectUrl: `${process.env.APP_URL || 'http://localhost:3000'}/membership-callback`,
+    metadata: {
+      transactionId,
+      type: 'membership-upgrade',
+    },
+  });
+
+  if (!result.success) {
+    console.error('Eversend API error:', result.error);
+    return { success: false, error: result.error || 'Payment service error' };
   }
+
+  return {
+    success: true,
+    reference: result.referenceId,
+    checkoutUrl: result.checkoutUrl,
+    sessionId: result.transactionId,
+  };
 }
 
 /**
@@ -152,65 +161,32 @@ export async function initializeFlutterwavePayment(
   sessionId?: string;
   error?: string;
 }> {
-  try {
-    const apiKey = process.env.FLUTTERWAVE_SECRET_KEY;
-    if (!apiKey) {
-      console.error('FLUTTERWAVE_SECRET_KEY not configured');
-      return {
-        success: false,
-        error: 'Payment service not configured',
-      };
-    }
-
-    const response = await fetch('https://api.flutterwave.com/v3/payments', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        tx_ref: transactionId,
-        amount,
-        currency: 'USD',
-        payment_options: 'card,mobilemoney,ussd,banktransfer',
-        customer: {
-          email,
-          name: userName,
-        },
-        customizations: {
-          title: 'Creator Membership Upgrade',
-          description: 'Unlock premium membership features',
-        },
-        redirect_url: `${process.env.APP_URL || 'http://localhost:3000'}/membership-callback`,
-        meta: {
-          transactionId,
-          type: 'membership-upgrade',
-        },
-      }),
-    });
-
-    const data = await response.json();
-
-    if (data.status !== 'success') {
-      return {
-        success: false,
-        error: data.message || 'Payment initialization failed',
-      };
-    }
-
-    return {
-      success: true,
-      reference: data.data.link,
-      checkoutUrl: data.data.link,
-      sessionId: data.data.id?.toString(),
-    };
-  } catch (error) {
-    console.error('Flutterwave API error:', error);
-    return {
-      success: false,
-      error: 'Payment service error',
-    };
+  const result = await getBackendGateway('flutterwave').initializePayment({
+    reference: transactionId,
+    amount,
+    currency: 'USD',
+    email,
+    customerName: userName,
+    title: 'Creator Membership Upgrade',
+    description: 'Unlock premium membership features',
+    redirectUrl: `${process.env.APP_URL || 'http://localhost:3000'}/membership-callback`,
+    metadata: {
+      transactionId,
+      type: 'membership-upgrade',
+    },
+  });
+
+  if (!result.success) {
+    console.error('Flutterwave API error:', result.error);
+    return { success: false, error: result.error || 'Payment service error' };
   }
+
+  return {
+    success: true,
+    reference: result.referenceId,
+    checkoutUrl: result.checkoutUrl,
+    sessionId: result.transactionId,
+  };
 }
 
 /**
@@ -220,40 +196,22 @@ export function verifyEversendSignature(
   payload: string,
   signature: string,
   secret: string
-): boolean {
-  const crypto = require('crypto');
-  const expectedSignature = crypto
-    .createHmac('sha256', secret)
-    .update(payload)
-    .digest('hex');
-
-  return constantTimeCompare(signature, expectedSignature);
+): Promise<boolean> {
+  return createGatewayAdapter('eversend', { webhookSecret: secret }).verifySignature(
+    payload,
+    signature
+  );
 }
 
 export function verifyFlutterwaveSignature(
   payload: string,
   signature: string,
   secret: string
-): boolean {
-  const crypto = require('crypto');
-  const expectedSignature = crypto
-    .createHmac('sha256', secret)
-    .update(payload)
-    .digest('hex');
-
-  return constantTimeCompare(signature, expectedSignature);
-}
-
-/**
- * Constant-time string comparison to prevent timing attacks
- */
-function constantTimeCompare(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  let result = 0;
-  for (let i = 0; i < a.length; i++) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
-  }
-  return result === 0;
+): Promise<boolean> {
+  return createGatewayAdapter('flutterwave', { webhookSecret: secret }).verifySignature(
+    payload,
+    signature
+  );
 }
 
 /**
@@ -1,49 +1,76 @@
 import type { Event } from '../types/events';
+import { addDays, formatRecurrenceRule, parseRecurrenceRule } from './eventRecurrence';
 
 /**
- * Generate iCal (ICS) format for an event
+ * iCal DATE, or floating DATE-TIME in the event's wall-clock time
  */
-export function generateICalEvent(event: Event, userEmail: string = ''): string {
-  const eventDate = event.event_date.replace(/-/g, '');
-  const eventTime = event.event_time ? event.event_time.replace(/:/g, '') : '000000';
-
-  // Combine date and time
-  const startDateTime = eventTime && eventTime !== '000000' ? `${eventDate}T${eventTime}` : `${eventDate}`;
-
-  // Calculate end time (assume 2 hours for all-day events, or use event_time + 1 hour)
-  let endDateTime: string;
-  if (eventTime && eventTime !== '000000') {
-    const startDate = new Date(event.event_date + 'T' + event.event_time);
-    const endDate = new Date(startDate.getTime() + 2 * 60 * 60 * 1000); // 2 hours after start
-    endDateTime =
-      endDate.toISOString().split('.')[0].replace(/[-:]/g, '').replace('T', 'T') || `${eventDate}T020000`;
-  } else {
-    // For all-day events, end date is next day
-    const nextDay = new Date(event.event_date);
-    nextDay.setDate(nextDay.getDate() + 1);
-    endDateTime = nextDay.toISOString().split('T')[0].replace(/-/g, '');
-  }
+function toICalEventDate(date: string, time?: string | null): string {
+  const day = date.replace(/-/g, '');
+  if (!time) return day;
 
+  const [hours = '0', minutes = '0', seconds = '0'] = time.split(':');
+  return `${day}T${[hours, minutes, seconds].map((part) => part.slice(0, 2).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Timed events are assumed to last 2 hours; all-day events end the next day
+ */
+function getICalEventEnd(date: string, time?: string | null): string {
+  if (!time) return toICalEventDate(addDays(date, 1));
+
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const end = new Date(Date.UTC(year, month - 1, day, hours + 2, minutes)).toISOString();
+
+  return toICalEventDate(end.slice(0, 10), end.slice(11, 19));
+}
+
+/**
+ * Generate iCal (ICS) format for an event. Recurring events carry their
+ * RRULE and skipped dates (EXDATE), plus a VEVENT with RECURRENCE-ID for
+ * each occurrence that was moved or changed.
+ */
+export function generateICalEvent(event: Event, userEmail: string = ''): string {
+  const isTimed = !!event.event_time;
+  const valueType = isTimed ? '' : ';VALUE=DATE';
   const uid = `${event.id}@eventapp.example.com`;
-  const dtstamp = new Date().toISOString().replace(/[-:.]/g, '').split('Z')[0] + 'Z';
-
-  // Escape special characters in text fields
-  const escapeText = (text: string) => {
-    return text.replace(/[\n,;\\]/g, (char) => {
-      switch (char) {
-        case '\n':
-          return '\\n';
-        case ',':
-          return '\\,';
-        case ';':
-          return '\\;';
-        case '\\':
-          return '\\\\';
-        default:
-          return char;
-      }
-    });
-  };
+  const dtstamp = toICalUtc(new Date());
+  const organizer = `ORGANIZER;CN=${escapeICalText(event.organizer_name || event.organizer_specification || 'Organizer')}${userEmail ? `:mailto:${userEmail}` : ''}`;
+
+  const rule = event.recurrence_rule ? parseRecurrenceRule(event.recurrence_rule) : null;
+  const recurrenceLines: string[] = [];
+  const overrideEvents: string[] = [];
+
+  if (rule) {
+    // UNTIL must have the same value type as DTSTART
+    recurrenceLines.push(
+      `RRULE:${formatRecurrenceRule(rule).replace(/UNTIL=(\d{8})/, isTimed ? 'UNTIL=$1T235959' : 'UNTIL=$1')}`
+    );
+
+    if (event.recurrence_exdates?.length) {
+      recurrenceLines.push(
+        `EXDATE${valueType}:${event.recurrence_exdates.map((date) => toICalEventDate(date, event.event_time)).join(',')}`
+      );
+    }
+
+    for (const override of event.occurrence_overrides || []) {
+      const overrideTime = isTimed ? override.event_time || event.event_time : null;
+
+      overrideEvents.push(`BEGIN:VEVENT
+UID:${uid}
+DTSTAMP:${dtstamp}
+RECURRENCE-ID${valueType}:${toICalEventDate(override.occurrence_date, event.event_time)}
+DTSTART${valueType}:${toICalEventDate(override.event_date, overrideTime)}
+DTEND${valueType}:${getICalEventEnd(override.event_date, overrideTime)}
+SUMMARY:${escapeICalText(override.title || event.title)}
+DESCRIPTION:${escapeICalText(override.description || event.description || '')}
+LOCATION:${escapeICalText(override.location || event.location || '')}
+${organizer}
+STATUS:CONFIRMED
+SEQUENCE:0
+END:VEVENT`);
+    }
+  }
 
   const icalContent = `BEGIN:VCALENDAR
 VERSION:2.0
@@ -55,16 +82,16 @@ X-WR-TIMEZONE:UTC
 BEGIN:VEVENT
 UID:${uid}
 DTSTAMP:${dtstamp}
-DTSTART${eventTime && eventTime !== '000000' ? '' : ';VALUE=DATE'}:${startDateTime}
-DTEND${eventTime && eventTime !== '000000' ? '' : ';VALUE=DATE'}:${endDateTime}
-SUMMARY:${escapeText(event.title)}
-DESCRIPTION:${escapeText(event.description || '')}
-LOCATION:${escapeText(event.location || '')}
-ORGANIZER;CN=${escapeText(event.organizer_name || event.organizer_specification || 'Organizer')}${userEmail ? `:mailto:${userEmail}` : ''}
+DTSTART${valueType}:${toICalEventDate(event.event_date, event.event_time)}
+DTEND${valueType}:${getICalEventEnd(event.event_date, event.event_time)}
+${recurrenceLines.map((line) => `${line}\n`).join('')}SUMMARY:${escapeICalText(event.title)}
+DESCRIPTION:${escapeICalText(event.description || '')}
+LOCATION:${escapeICalText(event.location || '')}
+${organizer}
 STATUS:CONFIRMED
 SEQUENCE:0
 END:VEVENT
-END:VCALENDAR`;
+${overrideEvents.map((vevent) => `${vevent}\n`).join('')}END:VCALENDAR`;
 
   return icalContent;
 }
@@ -115,6 +142,12 @@ export function generateGoogleCalendarUrl(event: Event): string {
     location: event.location || '',
   });
 
+  // Google takes the series rule, but not skipped or changed dates
+  const rule = event.recurrence_rule ? parseRecurrenceRule(event.recurrence_rule) : null;
+  if (rule) {
+    params.set('recur', `RRULE:${formatRecurrenceRule(rule)}`);
+  }
+
   return `https://calendar.google.com/calendar/render?${params.toString()}`;
 }
 
@@ -206,3 +239,89 @@ export function getCalendarSyncOptions(event: Event): Array<{
     },
   ];
 }
+
+/**
+ * A timed calendar invite for a booked session (mentorship bookings),
+ * as opposed to a catalogue Event
+ */
+export interface CalendarInvite {
+  /** Stable across updates so calendars replace the earlier invite */
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  organizerName: string;
+  organizerEmail?: string;
+  /** Bumped on every reschedule */
+  sequence?: number;
+  cancelled?: boolean;
+}
+
+function escapeICalText(text: string): string {
+  return text.replace(/[\n,;\\]/g, (char) => (char === '\n' ? '\\n' : `\\${char}`));
+}
+
+function toICalUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+/**
+ * Generate an iCal (ICS) invite. Cancelled invites use METHOD:CANCEL so
+ * importing them removes the session from the calendar.
+ */
+export function generateICalInvite(invite: CalendarInvite): string {
+  return `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Event App//EventApp//EN
+CALSCALE:GREGORIAN
+METHOD:${invite.cancelled ? 'CANCEL' : 'REQUEST'}
+BEGIN:VEVENT
+UID:${invite.uid}
+DTSTAMP:${toICalUtc(new Date())}
+DTSTART:${toICalUtc(invite.start)}
+DTEND:${toICalUtc(invite.end)}
+SUMMARY:${escapeICalText(invite.title)}
+DESCRIPTION:${escapeICalText(invite.description || '')}
+LOCATION:${escapeICalText(invite.location || '')}
+ORGANIZER;CN=${escapeICalText(invite.organizerName)}${invite.organizerEmail ? `:mailto:${invite.organizerEmail}` : ''}
+STATUS:${invite.cancelled ? 'CANCELLED' : 'CONFIRMED'}
+SEQUENCE:${invite.sequence ?? 0}
+END:VEVENT
+END:VCALENDAR`;
+}
+
+/**
+ * Download an invite as an ICS file
+ */
+export function downloadCalendarInvite(invite: CalendarInvite): void {
+  const blob = new Blob([generateICalInvite(invite)], { type: 'text/calendar;charset=utf-8' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${invite.title.replace(/[^\w\s-]/g, '_')}.ics`);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Google Calendar add URL for an invite
+ */
+export function generateGoogleCalendarInviteUrl(invite: CalendarInvite): string {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: invite.title,
+    dates: `${toICalUtc(invite.start)}/${toICalUtc(invite.end)}`,
+    details: invite.description || '',
+    location: invite.location || '',
+  });
+
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
@@ -2,284 +2,81 @@ import { supabase } from './supabase';
 
 export interface Certificate {
   id: string;
-  enrollment_id: string;
+  /** Set for course certificates */
+  enrollment_id: string | null;
+  /** Set for learning path certificates */
+  learning_path_enrollment_id?: string | null;
+  learning_path_id?: string | null;
   user_id: string;
-  course_id: string;
+  course_id: string | null;
+  /** The course title, or the path title for learning path certificates */
   course_title: string;
   generated_at: string;
   download_url?: string;
   certificate_number: string;
+  holder_name?: string | null;
+  instructor_name?: string | null;
+  revoked_at?: string | null;
+  revoked_reason?: string | null;
 }
 
-/**
- * Generate a certificate number in format: CERT-YYYY-XXXXXX
- */
-function generateCertificateNumber(): string {
-  const year = new Date().getFullYear();
-  const randomNum = Math.random().toString(36).substring(2, 8).toUpperCase();
-  return `CERT-${year}-${randomNum}`;
+export interface CertificateResult {
+  success: boolean;
+  certificate?: Certificate;
+  error?: string;
+}
+
+/** What /verify/:certificateNumber shows to anyone holding the number */
+export interface CertificateVerification {
+  id: string;
+  certificate_number: string;
+  holder_name: string;
+  course_id: string | null;
+  course_title: string;
+  /** Set instead of course_id for learning path certificates */
+  learning_path_id: string | null;
+  instructor_name: string | null;
+  issued_at: string;
+  download_url: string | null;
+  status: 'valid' | 'revoked';
+  revoked_at: string | null;
+  revoked_reason: string | null;
+  /** True for the course (or path) instructor and admins */
+  can_revoke: boolean;
+  /** Course certificates, for the instructor and admins: re-issue with createCertificate */
+  enrollment_id: string | null;
 }
 
 /**
- * Generate certificate HTML/PDF content
+ * Issue the certificate for a completed enrollment. The issue-certificate
+ * edge function checks completion, renders the PDF and stores it in B2;
+ * calling it again returns the existing certificate. After a revocation
+ * only the course instructor or an admin can issue a new one.
  */
-function generateCertificateHTML(
-  userName: string,
-  courseName: string,
-  completionDate: string,
-  certificateNumber: string,
-  instructorName: string
-): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <style>
-        * {
-          margin: 0;
-          padding: 0;
-          box-sizing: border-box;
-        }
-        
-        body {
-          font-family: 'Georgia', serif;
-          background: white;
-          padding: 0;
-        }
-        
-        .certificate {
-          width: 1100px;
-          height: 850px;
-          background: linear-gradient(135deg, #f5f7fa 0%, #c3cfe2 100%);
-          border: 3px solid #d4af37;
-          padding: 60px;
-          display: flex;
-          flex-direction: column;
-          justify-content: space-between;
-          align-items: center;
-          text-align: center;
-          position: relative;
-          overflow: hidden;
-        }
-        
-        .certificate::before {
-          content: '';
-          position: absolute;
-          top: -50%;
-          right: -50%;
-          width: 400px;
-          height: 400px;
-          border-radius: 50%;
-          background: rgba(212, 175, 55, 0.1);
-        }
-        
-        .certificate::after {
-          content: '';
-          position: absolute;
-          bottom: -50%;
-          left: -50%;
-          width: 400px;
-          height: 400px;
-          border-radius: 50%;
-          background: rgba(212, 175, 55, 0.1);
-        }
-        
-        .content {
-          position: relative;
-          z-index: 1;
-        }
-        
-        .header {
-          margin-bottom: 40px;
-        }
-        
-        .title {
-          font-size: 48px;
-          font-weight: bold;
-          color: #d4af37;
-          margin-bottom: 10px;
-          text-transform: uppercase;
-          letter-spacing: 2px;
-        }
-        
-        .subtitle {
-          font-size: 24px;
-          color: #333;
-          font-style: italic;
-          margin-bottom: 30px;
-        }
-        
-        .body {
-          margin-bottom: 40px;
-        }
-        
-        .body p {
-          font-size: 16px;
-          color: #555;
-          margin-bottom: 20px;
-          line-height: 1.6;
-        }
-        
-        .recipient-name {
-          font-size: 36px;
-          font-weight: bold;
-          color: #2c3e50;
-          margin-bottom: 10px;
-          text-decoration: underline;
-          text-decoration-color: #d4af37;
-          text-underline-offset: 8px;
-        }
-        
-        .course-name {
-          font-size: 24px;
-          color: #34495e;
-          margin-bottom: 15px;
-          font-weight: 600;
-        }
-        
-        .footer {
-          display: flex;
-          justify-content: space-between;
-          align-items: flex-end;
-          width: 100%;
-          margin-top: 40px;
-          position: relative;
-          z-index: 1;
-        }
-        
-        .signature {
-          width: 200px;
-          text-align: center;
-        }
-        
-        .signature-line {
-          border-top: 2px solid #333;
-          padding-top: 10px;
-          margin-bottom: 5px;
-        }
-        
-        .signature-name {
-          font-size: 14px;
-          color: #333;
-          font-weight: bold;
-        }
-        
-        .signature-title {
-          font-size: 12px;
-          color: #666;
-        }
-        
-        .certificate-number {
-          font-size: 12px;
-          color: #999;
-          margin-top: 20px;
-        }
-        
-        .date {
-          font-size: 14px;
-          color: #333;
-        }
-      </style>
-    </head>
-    <body>
-      <div class="certificate">
-        <div class="content">
-          <div class="header">
-            <div class="title">Certificate of Completion</div>
-            <div class="subtitle">This is proudly presented to</div>
-          </div>
-          
-          <div class="body">
-            <div class="recipient-name">${userName}</div>
-            <p>for successfully completing</p>
-            <div class="course-name">${courseName}</div>
-            <p>Awarded on ${completionDate}</p>
-          </div>
-          
-          <div class="footer">
-            <div class="signature">
-              <div class="signature-line"></div>
-              <div class="signature-name">${instructorName}</div>
-              <div class="signature-title">Course Instructor</div>
-            </div>
-            
-            <div>
-              <div class="date">${completionDate}</div>
-              <div class="certificate-number">Certificate #${certificateNumber}</div>
-            </div>
-          </div>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
+export async function createCertificate(enrollmentId: string): Promise<CertificateResult> {
+  return await invokeIssueCertificate({ enrollmentId });
 }
 
 /**
- * Create a certificate for completed course
+ * Issue the certificate for a completed learning path
  */
-export async function createCertificate(
-  enrollmentId: string,
-  userId: string,
-  courseId: string,
-  courseName: string,
-  userName: string,
-  instructorName: string
-): Promise<{ success: boolean; certificate?: Certificate; error?: string }> {
-  try {
-    const certificateNumber = generateCertificateNumber();
-    const completionDate = new Date().toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
-
-    // Generate certificate HTML
-    const certificateHTML = generateCertificateHTML(
-      userName,
-      courseName,
-      completionDate,
-      certificateNumber,
-      instructorName
-    );
+export async function createLearningPathCertificate(pathEnrollmentId: string): Promise<CertificateResult> {
+  return await invokeIssueCertificate({ learningPathEnrollmentId: pathEnrollmentId });
+}
 
-    // In production, you would:
-    // 1. Convert HTML to PDF using a service like puppeteer or html2pdf
-    // 2. Upload PDF to B2 storage
-    // 3. Get public URL
-    // For now, we'll create a data URL (not suitable for production)
-    
-    const { data, error } = await supabase
-      .from('student_certificates')
-      .insert([
-        {
-          enrollment_id: enrollmentId,
-          user_id: userId,
-          course_id: courseId,
-          course_title: courseName,
-          certificate_number: certificateNumber,
-          download_url: `data:text/html;base64,${btoa(certificateHTML)}`,
-          generated_at: new Date().toISOString(),
-        },
-      ])
-      .select()
-      .single();
+async function invokeIssueCertificate(
+  body: { enrollmentId: string } | { learningPathEnrollmentId: string }
+): Promise<CertificateResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('issue-certificate', { body });
 
     if (error) {
-      throw error;
+      // The function's JSON error explains why (e.g. course not completed)
+      const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
     }
 
-    // Update enrollment with certificate reference
-    await supabase
-      .from('student_enrollments')
-      .update({
-        certificate_id: data.id,
-        certificate_generated_at: new Date().toISOString(),
-      })
-      .eq('id', enrollmentId);
-
-    return { success: true, certificate: data };
+    return { success: true, certificate: data.certificate };
   } catch (err) {
     console.error('Certificate creation error:', err);
     return {
@@ -290,7 +87,7 @@ export async function createCertificate(
 }
 
 /**
- * Get certificate for a user enrollment
+ * Get the live (not revoked) certificate for a user enrollment
  */
 export async function getCertificate(
   enrollmentId: string
@@ -300,6 +97,7 @@ export async function getCertificate(
       .from('student_certificates')
       .select('*')
       .eq('enrollment_id', enrollmentId)
+      .is('revoked_at', null)
       .single();
 
     if (error && error.code !== 'PGRST116') {
@@ -314,15 +112,15 @@ export async function getCertificate(
 }
 
 /**
- * Download certificate as HTML (for browser printing)
+ * Open the certificate PDF (older certificates are HTML, printed instead)
  */
-export function downloadCertificateAsHTML(certificate: Certificate, userName: string): void {
+export function downloadCertificate(certificate: Certificate): void {
   if (!certificate.download_url) {
     console.error('No download URL available');
     return;
   }
 
-  // If it's a data URL, convert to HTML and print
+  // Certificates issued before PDF rendering are HTML data URLs
   if (certificate.download_url.startsWith('data:')) {
     const htmlContent = atob(certificate.download_url.split(',')[1]);
     const printWindow = window.open('', '', 'width=1100,height=850');
@@ -358,3 +156,54 @@ export async function getUserCertificates(userId: string): Promise<Certificate[]
     return [];
   }
 }
+
+export function getCertificateVerificationUrl(certificateNumber: string): string {
+  return `${window.location.origin}/verify/${certificateNumber}`;
+}
+
+/**
+ * Public lookup used by the verification page; null if no such certificate
+ */
+export async function verifyCertificate(certificateNumber: string): Promise<CertificateVerification | null> {
+  try {
+    const { data, error } = await supabase.rpc('verify_certificate', {
+      p_certificate_number: certificateNumber,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as CertificateVerification) || null;
+  } catch (err) {
+    console.error('Certificate verification error:', err);
+    return null;
+  }
+}
+
+/**
+ * Revoke a certificate (course instructor or admin)
+ */
+export async function revokeCertificate(
+  certificateId: string,
+  reason: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('revoke_certificate', {
+      p_certificate_id: certificateId,
+      p_reason: reason,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Certificate revocation error:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to revoke certificate',
+    };
+  }
+}
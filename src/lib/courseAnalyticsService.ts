@@ -0,0 +1,217 @@
+import { supabase } from './supabase';
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+/**
+ * Inclusive date range as YYYY-MM-DD strings (either end may be empty
+ * for "no limit")
+ */
+export interface AnalyticsDateRange {
+  from: string;
+  to: string;
+}
+
+export interface CourseAnalyticsOverview {
+  course_id: string;
+  course_title: string;
+  enrollments: number;
+  paid_enrollments: number;
+  completions: number;
+  learners_started: number;
+  avg_watch_seconds: number;
+  certificates_issued: number;
+  certificates_revoked: number;
+}
+
+export interface EnrollmentTrendPoint {
+  period_start: string;
+  enrollments: number;
+  completions: number;
+}
+
+export interface CourseRevenueRow {
+  course_id: string;
+  course_title: string;
+  currency: string;
+  paid_orders: number;
+  promo_orders: number;
+  gross_amount: number;
+  promo_discount: number;
+  collected_amount: number;
+  refunded_amount: number;
+  net_revenue: number;
+}
+
+export interface FunnelStep {
+  lesson_id: string;
+  lesson_number: number;
+  section_title: string;
+  lesson_title: string;
+  lesson_type: string;
+  duration_seconds: number;
+  cohort_size: number;
+  started: number;
+  completed: number;
+  avg_watch_seconds: number;
+}
+
+export interface CourseAnalyticsReport {
+  overview: CourseAnalyticsOverview[];
+  trend: EnrollmentTrendPoint[];
+  revenue: CourseRevenueRow[];
+  /** Only loaded for a single course */
+  funnel: FunnelStep[];
+}
+
+/**
+ * RPC date arguments for a range. "to" is inclusive, so it is sent as
+ * the start of the following day.
+ */
+function rangeParams(range: AnalyticsDateRange) {
+  let to: string | null = null;
+  if (range.to) {
+    const end = new Date(`${range.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    to = end.toISOString();
+  }
+
+  return {
+    p_from: range.from ? new Date(`${range.from}T00:00:00`).toISOString() : null,
+    p_to: to,
+  };
+}
+
+// Postgres numerics come back as strings
+function toNumbers<T>(rows: Record<string, unknown>[], numericKeys: (keyof T)[]): T[] {
+  return rows.map((row) => {
+    const converted: Record<string, unknown> = { ...row };
+    numericKeys.forEach((key) => {
+      converted[key as string] = Number(row[key as string] || 0);
+    });
+    return converted as T;
+  });
+}
+
+/**
+ * Load every report for one course, or for all of the instructor's
+ * courses when courseId is null
+ */
+export async function getCourseAnalytics(
+  courseId: string | null,
+  range: AnalyticsDateRange,
+  interval: AnalyticsInterval = 'day'
+): Promise<{ success: boolean; report?: CourseAnalyticsReport; error?: string }> {
+  try {
+    const params = { p_course_id: courseId, ...rangeParams(range) };
+
+    const [overviewResult, trendResult, revenueResult, funnelResult] = await Promise.all([
+      supabase.rpc('get_course_analytics_overview', params),
+      supabase.rpc('get_course_enrollment_trend', { ...params, p_interval: interval }),
+      supabase.rpc('get_course_revenue_breakdown', params),
+      courseId
+        ? supabase.rpc('get_course_completion_funnel', params)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    if (overviewResult.error) throw overviewResult.error;
+    if (trendResult.error) throw trendResult.error;
+    if (revenueResult.error) throw revenueResult.error;
+    if (funnelResult.error) throw funnelResult.error;
+
+    return {
+      success: true,
+      report: {
+        overview: toNumbers<CourseAnalyticsOverview>(overviewResult.data || [], [
+          'enrollments',
+          'paid_enrollments',
+          'completions',
+          'learners_started',
+          'avg_watch_seconds',
+          'certificates_issued',
+          'certificates_revoked',
+        ]),
+        trend: toNumbers<EnrollmentTrendPoint>(trendResult.data || [], ['enrollments', 'completions']),
+        revenue: toNumbers<CourseRevenueRow>(revenueResult.data || [], [
+          'paid_orders',
+          'promo_orders',
+          'gross_amount',
+          'promo_discount',
+          'collected_amount',
+          'refunded_amount',
+          'net_revenue',
+        ]),
+        funnel: toNumbers<FunnelStep>(funnelResult.data || [], [
+          'cohort_size',
+          'started',
+          'completed',
+          'avg_watch_seconds',
+        ]),
+      },
+    };
+  } catch (err) {
+    console.error('Error loading course analytics:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to load analytics',
+    };
+  }
+}
+
+/** Seconds as "1h 05m" / "12m 30s" */
+export function formatWatchTime(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  return `${minutes}m ${String(total % 60).padStart(2, '0')}s`;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvSection(title: string, rows: object[]): string[] {
+  if (rows.length === 0) return [title, '(no data)', ''];
+
+  const columns = Object.keys(rows[0]);
+  return [
+    title,
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => csvCell((row as Record<string, unknown>)[column])).join(',')),
+    '',
+  ];
+}
+
+/**
+ * Download the report as a CSV file with one section per table
+ */
+export function downloadAnalyticsCsv(report: CourseAnalyticsReport, range: AnalyticsDateRange, label: string): void {
+  const lines = [
+    `Course analytics,${csvCell(label)}`,
+    `From,${range.from || 'all time'}`,
+    `To,${range.to || 'today'}`,
+    '',
+    ...csvSection('Overview', report.overview),
+    ...csvSection('Enrollments over time', report.trend),
+    ...csvSection('Revenue', report.revenue),
+    ...(report.funnel.length > 0 ? csvSection('Completion funnel', report.funnel) : []),
+  ];
+
+  const blob = new Blob([lines.join('\n')], { type: 'text/csv;charset=utf-8' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', `analytics-${slug || 'courses'}-${new Date().toISOString().slice(0, 10)}.csv`);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
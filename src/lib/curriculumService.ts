@@ -0,0 +1,221 @@
+import { supabase } from './supabase';
+
+export type LessonType = 'video' | 'article' | 'resource';
+
+/** When a drip-scheduled section or lesson becomes available to a student */
+export type ReleaseRule = 'immediate' | 'date' | 'days_after_enrollment' | 'after_lesson';
+
+export interface ReleaseSchedule {
+  release_rule: ReleaseRule;
+  /** For 'date' */
+  release_at: string | null;
+  /** For 'days_after_enrollment' */
+  release_days: number | null;
+  /** For 'after_lesson' */
+  release_after_lesson_id: string | null;
+}
+
+export interface CourseLesson extends ReleaseSchedule {
+  id: string;
+  section_id: string;
+  title: string;
+  description: string | null;
+  lesson_type: LessonType;
+  position: number;
+  duration_seconds: number;
+  is_free_preview: boolean;
+  thumbnail_url: string | null;
+  resource_name: string | null;
+  /** True when the viewer can see the outline but not the content */
+  is_locked: boolean;
+  /** Locked only because it hasn't been released to this student yet */
+  is_drip_locked?: boolean;
+  /** When a drip-locked lesson unlocks; null while it waits on another lesson */
+  available_at?: string | null;
+  mux_playback_id: string | null;
+  article_body: string | null;
+  resource_url: string | null;
+  video_upload_id?: string | null;
+}
+
+export interface CourseSection extends ReleaseSchedule {
+  id: string;
+  title: string;
+  description: string | null;
+  position: number;
+  lessons: CourseLesson[];
+}
+
+/**
+ * Sections and lessons of a course in order. Content of lessons the
+ * caller cannot access (not enrolled, not a free preview) is null.
+ */
+export async function getCourseCurriculum(courseId: string): Promise<CourseSection[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_course_curriculum', {
+      p_course_id: courseId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as CourseSection[]) || [];
+  } catch (err) {
+    console.error('Error fetching course curriculum:', err);
+    return [];
+  }
+}
+
+/**
+ * Save the curriculum as authored: sections and lessons are written in
+ * the given order, and ones no longer present are deleted.
+ */
+export async function saveCourseCurriculum(
+  courseId: string,
+  sections: CourseSection[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const sectionRows = sections.map((section, sectionIndex) => ({
+      id: section.id,
+      course_id: courseId,
+      title: section.title.trim() || `Section ${sectionIndex + 1}`,
+      description: section.description || null,
+      position: sectionIndex,
+      ...releaseScheduleRow(section),
+    }));
+
+    const lessonRows = sections.flatMap((section) =>
+      section.lessons.map((lesson, lessonIndex) => ({
+        id: lesson.id,
+        course_id: courseId,
+        section_id: section.id,
+        title: lesson.title.trim() || `Lesson ${lessonIndex + 1}`,
+        description: lesson.description || null,
+        lesson_type: lesson.lesson_type,
+        position: lessonIndex,
+        duration_seconds: Math.max(0, Math.round(lesson.duration_seconds || 0)),
+        is_free_preview: lesson.is_free_preview,
+        thumbnail_url: lesson.thumbnail_url || null,
+        mux_playback_id: lesson.lesson_type === 'video' ? lesson.mux_playback_id || null : null,
+        video_upload_id: lesson.lesson_type === 'video' ? lesson.video_upload_id || null : null,
+        article_body: lesson.lesson_type === 'article' ? lesson.article_body || null : null,
+        resource_url: lesson.lesson_type === 'resource' ? lesson.resource_url || null : null,
+        resource_name: lesson.lesson_type === 'resource' ? lesson.resource_name || null : null,
+        ...releaseScheduleRow(lesson),
+      }))
+    );
+
+    const sectionIds = sectionRows.map((row) => row.id);
+    const lessonIds = lessonRows.map((row) => row.id);
+
+    // Remove deleted lessons first so a lesson never outlives its section
+    let deleteLessons = supabase.from('course_lessons').delete().eq('course_id', courseId);
+    if (lessonIds.length > 0) {
+      deleteLessons = deleteLessons.not('id', 'in', `(${lessonIds.join(',')})`);
+    }
+    const { error: deleteLessonsError } = await deleteLessons;
+    if (deleteLessonsError) throw deleteLessonsError;
+
+    if (sectionRows.length > 0) {
+      const { error: sectionsError } = await supabase.from('course_sections').upsert(sectionRows);
+      if (sectionsError) throw sectionsError;
+    }
+
+    if (lessonRows.length > 0) {
+      const { error: lessonsError } = await supabase.from('course_lessons').upsert(lessonRows);
+      if (lessonsError) throw lessonsError;
+    }
+
+    let deleteSections = supabase.from('course_sections').delete().eq('course_id', courseId);
+    if (sectionIds.length > 0) {
+      deleteSections = deleteSections.not('id', 'in', `(${sectionIds.join(',')})`);
+    }
+    const { error: deleteSectionsError } = await deleteSections;
+    if (deleteSectionsError) throw deleteSectionsError;
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error saving course curriculum:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save curriculum',
+    };
+  }
+}
+
+// Only the field the rule uses is kept
+function releaseScheduleRow(schedule: ReleaseSchedule): ReleaseSchedule {
+  return {
+    release_rule: schedule.release_rule,
+    release_at: schedule.release_rule === 'date' ? schedule.release_at : null,
+    release_days: schedule.release_rule === 'days_after_enrollment' ? Math.max(0, schedule.release_days || 0) : null,
+    release_after_lesson_id: schedule.release_rule === 'after_lesson' ? schedule.release_after_lesson_id : null,
+  };
+}
+
+const IMMEDIATE_RELEASE: ReleaseSchedule = {
+  release_rule: 'immediate',
+  release_at: null,
+  release_days: null,
+  release_after_lesson_id: null,
+};
+
+export function newCourseSection(position: number): CourseSection {
+  return {
+    id: crypto.randomUUID(),
+    title: `Section ${position + 1}`,
+    description: null,
+    position,
+    lessons: [],
+    ...IMMEDIATE_RELEASE,
+  };
+}
+
+export function newCourseLesson(sectionId: string, position: number, lessonType: LessonType): CourseLesson {
+  return {
+    id: crypto.randomUUID(),
+    section_id: sectionId,
+    title: '',
+    description: null,
+    lesson_type: lessonType,
+    position,
+    duration_seconds: 0,
+    is_free_preview: false,
+    thumbnail_url: null,
+    resource_name: null,
+    is_locked: false,
+    mux_playback_id: null,
+    article_body: null,
+    resource_url: null,
+    video_upload_id: null,
+    ...IMMEDIATE_RELEASE,
+  };
+}
+
+/**
+ * 125 -> "2:05", 3725 -> "1:02:05"
+ */
+export function formatLessonDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  }
+  return `${minutes}:${String(secs).padStart(2, '0')}`;
+}
+
+/**
+ * "2:05" or "1:02:05" (as produced by extractDuration) -> seconds
+ */
+export function parseLessonDuration(duration: string): number {
+  const parts = duration.split(':').map((part) => Number(part));
+  if (parts.some((part) => Number.isNaN(part))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+export function getMuxThumbnailUrl(playbackId: string): string {
+  return `https://image.mux.com/${playbackId}/thumbnail.jpg`;
+}
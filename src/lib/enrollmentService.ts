@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
-import { PaymentMethodType, selectGateway } from './paymentMethodConfig';
+import { PaymentGateway } from './paymentMethodConfig';
+import { EnrollmentProgress } from './lessonProgressService';
 
 export interface CourseEnrollment {
   id: string;
@@ -7,192 +8,28 @@ export interface CourseEnrollment {
   course_id: string;
   enrolled_at: string;
   price_paid: number;
-  payment_status: 'pending' | 'completed' | 'failed';
-  payment_method: 'eversend' | 'flutterwave' | null;
+  currency: string;
+  refunded_amount: number;
+  refunded_at: string | null;
+  payment_status: 'pending' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+  payment_method: PaymentGateway | null;
   transaction_id: string | null;
+  /** Payment order that paid for the enrollment (null for free courses) */
+  payment_order_id: string | null;
+  certificate_eligible: boolean;
   progress_percentage: number;
   lessons_completed: number;
   completed_at: string | null;
-  status: 'active' | 'completed' | 'dropped';
+  status: 'active' | 'completed' | 'dropped' | 'refunded';
   created_at: string;
   updated_at: string;
 }
 
-export interface EversendPaymentResponse {
-  success: boolean;
-  reference?: string;
-  checkoutLink?: string;
-  message?: string;
-}
-
-export interface FlutterwavePaymentResponse {
-  status: string;
-  data?: {
-    link: string;
-  };
-  message?: string;
-}
-
-// Initialize Eversend payment
-export async function initializeEversendPayment(
-  courseId: string,
-  amount: number,
-  userEmail: string,
-  userName: string,
-  phoneNumber: string
-): Promise<EversendPaymentResponse> {
-  try {
-    const response = await fetch('https://api.eversend.co/send/initiate', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${import.meta.env.VITE_EVERSEND_API_KEY || ''}`,
-      },
-      body: JSON.stringify({
-        amount,
-        currency: 'UGX',
-        phoneNumber,
-        email: userEmail,
-        description: `Course Enrollment - ${courseId}`,
-        externalId: courseId,
-        metadata: {
-          courseId,
-          userName,
-          type: 'course-enrollment',
-        },
-      }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        success: false,
-        message: data.message || 'Failed to initialize Eversend payment',
-      };
-    }
-
-    return {
-      success: true,
-      reference: data.reference,
-      checkoutLink: data.checkoutLink || data.paymentLink,
-    };
-  } catch (error) {
-    console.error('Eversend payment error:', error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : 'Payment initialization failed',
-    };
-  }
-}
-
-// Initialize Flutterwave payment for course enrollment
-export async function initializeFlutterwavePayment(
-  courseId: string,
-  amount: number,
-  userEmail: string,
-  userName: string
-): Promise<FlutterwavePaymentResponse> {
-  try {
-    const response = await fetch('https://api.flutterwave.com/v3/payments', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${import.meta.env.VITE_FLUTTERWAVE_SECRET_KEY || ''}`,
-      },
-      body: JSON.stringify({
-        tx_ref: `course-${courseId}-${Date.now()}`,
-        amount,
-        currency: 'UGX',
-        payment_options: 'card,mobilemoney,ussd',
-        customer: {
-          email: userEmail,
-          name: userName,
-        },
-        customizations: {
-          title: 'Course Enrollment',
-          description: `Enrollment for course ${courseId}`,
-          logo: 'https://yourapp.com/logo.png',
-        },
-        redirect_url: `${window.location.origin}/enrollment-callback?provider=flutterwave`,
-        meta: {
-          courseId,
-          type: 'course-enrollment',
-        },
-      }),
-    });
-
-    const data = await response.json();
-
-    if (data.status !== 'success') {
-      return {
-        status: 'error',
-        message: data.message || 'Failed to initialize Flutterwave payment',
-      };
-    }
-
-    return {
-      status: 'success',
-      data: {
-        link: data.data.link,
-      },
-    };
-  } catch (error) {
-    console.error('Flutterwave payment error:', error);
-    return {
-      status: 'error',
-      message: error instanceof Error ? error.message : 'Payment initialization failed',
-    };
-  }
-}
-
-// Verify Eversend payment
-export async function verifyEversendPayment(reference: string): Promise<boolean> {
-  try {
-    const response = await fetch(`https://api.eversend.co/send/verify/${reference}`, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${import.meta.env.VITE_EVERSEND_API_KEY || ''}`,
-      },
-    });
-
-    const data = await response.json();
-    return data.status === 'completed' || data.status === 'success';
-  } catch (error) {
-    console.error('Eversend verification error:', error);
-    return false;
-  }
-}
-
-// Verify Flutterwave payment
-export async function verifyFlutterwavePayment(transactionId: string): Promise<boolean> {
-  try {
-    const response = await fetch(
-      `https://api.flutterwave.com/v3/transactions/${transactionId}/verify`,
-      {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${import.meta.env.VITE_FLUTTERWAVE_SECRET_KEY || ''}`,
-        },
-      }
-    );
-
-    const data = await response.json();
-    return data.status === 'success' && data.data.status === 'successful';
-  } catch (error) {
-    console.error('Flutterwave verification error:', error);
-    return false;
-  }
-}
-
-// Create or update enrollment in database
+// Enroll in a free course. Paid enrollments are created by the payment
+// webhook once the payment order is paid (PaymentOrchestration.initializePurchase).
 export async function createEnrollment(
   userId: string,
-  courseId: string,
-  pricePaid: number,
-  paymentMethod: 'eversend' | 'flutterwave' | null,
-  transactionId: string | null,
-  paymentStatus: 'pending' | 'completed' | 'failed' = 'completed'
+  courseId: string
 ): Promise<{ success: boolean; enrollment?: CourseEnrollment; error?: string }> {
   try {
     const { data, error } = await supabase
@@ -201,10 +38,10 @@ export async function createEnrollment(
         {
           user_id: userId,
           course_id: courseId,
-          price_paid: pricePaid,
-          payment_method: paymentMethod,
-          transaction_id: transactionId,
-          payment_status: paymentStatus,
+          price_paid: 0,
+          payment_method: null,
+          transaction_id: null,
+          payment_status: 'completed',
           status: 'active',
         },
         { onConflict: 'user_id,course_id' }
@@ -248,7 +85,7 @@ export async function getUserEnrollments(userId: string): Promise<CourseEnrollme
   }
 }
 
-// Check if user is enrolled in course
+// Check if user is enrolled in course (unpaid and fully refunded enrollments don't count)
 export async function isUserEnrolled(userId: string, courseId: string): Promise<boolean> {
   try {
     const { data, error } = await supabase
@@ -256,6 +93,8 @@ export async function isUserEnrolled(userId: string, courseId: string): Promise<
       .select('id')
       .eq('user_id', userId)
       .eq('course_id', courseId)
+      .in('payment_status', ['completed', 'partially_refunded'])
+      .neq('status', 'refunded')
       .single();
 
     if (error && error.code !== 'PGRST116') {
@@ -270,30 +109,21 @@ export async function isUserEnrolled(userId: string, courseId: string): Promise<
   }
 }
 
-// Update enrollment progress
+// Recompute enrollment progress from the student's lesson_progress records
 export async function updateEnrollmentProgress(
-  enrollmentId: string,
-  progressPercentage: number,
-  lessonsCompleted: number,
-  isCompleted: boolean = false
-): Promise<{ success: boolean; error?: string }> {
+  enrollmentId: string
+): Promise<{ success: boolean; progress?: EnrollmentProgress; error?: string }> {
   try {
-    const { error } = await supabase
-      .from('student_enrollments')
-      .update({
-        progress_percentage: progressPercentage,
-        lessons_completed: lessonsCompleted,
-        status: isCompleted ? 'completed' : 'active',
-        completed_at: isCompleted ? new Date().toISOString() : null,
-      })
-      .eq('id', enrollmentId);
+    const { data, error } = await supabase.rpc('refresh_enrollment_progress', {
+      p_enrollment_id: enrollmentId,
+    });
 
     if (error) {
       console.error('Progress update error:', error);
       return { success: false, error: error.message };
     }
 
-    return { success: true };
+    return { success: true, progress: data as EnrollmentProgress };
   } catch (error) {
     console.error('Progress update exception:', error);
     return {
@@ -0,0 +1,475 @@
+import type { Event } from '../types/events';
+
+/**
+ * Recurring events: parsing, expanding and describing the RFC 5545
+ * RRULE subset organizers can set. Dates are calendar dates
+ * (YYYY-MM-DD) in the event's own wall-clock time, like event_date.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  /** 0 = Sunday … 6 = Saturday */
+  day: number;
+  /** 1 = first, -1 = last weekday of the month; only with FREQ=MONTHLY */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  /** Last date the series can fall on */
+  until?: string;
+  byDay?: RecurrenceWeekday[];
+  /** Negative days count from the end of the month */
+  byMonthDay?: number[];
+  /** First day of the week, for WEEKLY with an interval */
+  weekStart: number;
+}
+
+export interface EventOccurrence {
+  /** Date in the series; skips and overrides are keyed by it */
+  occurrence_date: string;
+  event_date: string;
+  event_time: string;
+  title: string;
+  location: string;
+  description: string;
+  is_override: boolean;
+}
+
+export type RecurrencePreset = 'none' | 'daily' | 'weekly' | 'biweekly' | 'monthly_day' | 'monthly_weekday' | 'custom';
+
+export interface RecurrenceFormValue {
+  preset: RecurrencePreset;
+  /** Raw RRULE when preset is custom */
+  customRule: string;
+  endType: 'never' | 'until' | 'count';
+  until: string;
+  count: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Guards against rules that never produce a date, e.g. the 31st of every February
+const MAX_PERIODS = 10000;
+// Overrides moving an occurrence further than this can be missed at the edge of a range
+const OVERRIDE_LOOKAHEAD_DAYS = 31;
+
+function parseDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function ordinalSuffix(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`;
+}
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix). Returns
+ * null for rules outside the supported subset, so they are never
+ * expanded differently from how calendar apps would.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = value.trim().toUpperCase().replace(/^RRULE:/, '').split(';').filter(Boolean);
+  const fields: Record<string, string> = {};
+
+  for (const part of parts) {
+    const [key, fieldValue, ...rest] = part.split('=');
+    if (!fieldValue || rest.length > 0 || key in fields) return null;
+    fields[key] = fieldValue;
+  }
+
+  const freq = fields.FREQ as RecurrenceFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq, interval: 1, weekStart: 1 };
+
+  for (const [key, fieldValue] of Object.entries(fields)) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        if (!/^\d+$/.test(fieldValue) || Number(fieldValue) < 1) return null;
+        if (key === 'INTERVAL') rule.interval = Number(fieldValue);
+        else rule.count = Number(fieldValue);
+        break;
+      }
+      case 'UNTIL': {
+        const match = fieldValue.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+        if (!match) return null;
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case 'BYDAY': {
+        const days: RecurrenceWeekday[] = [];
+        for (const token of fieldValue.split(',')) {
+          const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) return null;
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (freq !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) return null;
+          days.push({ day: WEEKDAY_CODES.indexOf(match[2]), ordinal });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = fieldValue.split(',').map(Number);
+        if (days.some((day) => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'WKST': {
+        const day = WEEKDAY_CODES.indexOf(fieldValue);
+        if (day < 0) return null;
+        rule.weekStart = day;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (rule.count && rule.until) return null;
+  if (freq === 'YEARLY' && (rule.byDay || rule.byMonthDay)) return null;
+  if (freq === 'WEEKLY' && rule.byMonthDay) return null;
+
+  return rule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.day]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+
+  return parts.join(';');
+}
+
+function monthCandidates(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const lastDay = daysInMonth(year, month);
+  const resolveMonthDay = (day: number) => (day > 0 ? day : lastDay + day + 1);
+  let days: number[];
+
+  if (rule.byDay) {
+    const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    days = [];
+
+    for (const { day, ordinal } of rule.byDay) {
+      const first = ((day - firstWeekday + 7) % 7) + 1;
+      const matches: number[] = [];
+      for (let d = first; d <= lastDay; d += 7) matches.push(d);
+
+      if (ordinal === undefined) days.push(...matches);
+      else {
+        const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (match) days.push(match);
+      }
+    }
+
+    if (rule.byMonthDay) {
+      const monthDays = rule.byMonthDay.map(resolveMonthDay);
+      days = days.filter((day) => monthDays.includes(day));
+    }
+  } else if (rule.byMonthDay) {
+    days = rule.byMonthDay.map(resolveMonthDay);
+  } else {
+    days = [startDay];
+  }
+
+  return [...new Set(days)]
+    .filter((day) => day >= 1 && day <= lastDay)
+    .sort((a, b) => a - b)
+    .map((day) => Date.UTC(year, month, day));
+}
+
+/**
+ * Every date of a series in order, from its first occurrence. COUNT
+ * includes dates that are later skipped, as RFC 5545 specifies.
+ */
+export function* getSeriesDates(startDate: string, rule: RecurrenceRule): Generator<string> {
+  const start = parseDate(startDate);
+  const startUtc = new Date(start);
+  const until = rule.until ? parseDate(rule.until) : null;
+  const weekdays = rule.byDay?.map((d) => d.day);
+  let produced = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let candidates: number[];
+
+    switch (rule.freq) {
+      case 'DAILY': {
+        const day = start + period * rule.interval * DAY_MS;
+        const date = new Date(day);
+        candidates =
+          (!weekdays || weekdays.includes(date.getUTCDay())) &&
+          (!rule.byMonthDay ||
+            rule.byMonthDay.some(
+              (d) =>
+                d === date.getUTCDate() ||
+                daysInMonth(date.getUTCFullYear(), date.getUTCMonth()) + d + 1 === date.getUTCDate()
+            ))
+            ? [day]
+            : [];
+        break;
+      }
+      case 'WEEKLY': {
+        const weekStart =
+          start - ((startUtc.getUTCDay() - rule.weekStart + 7) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+        const days = weekdays ?? [startUtc.getUTCDay()];
+        candidates = [];
+        for (let offset = 0; offset < 7; offset++) {
+          const day = weekStart + offset * DAY_MS;
+          if (days.includes(new Date(day).getUTCDay())) candidates.push(day);
+        }
+        break;
+      }
+      case 'MONTHLY': {
+        const monthIndex = startUtc.getUTCMonth() + period * rule.interval;
+        const year = startUtc.getUTCFullYear() + Math.floor(monthIndex / 12);
+        candidates = monthCandidates(year, monthIndex % 12, rule, startUtc.getUTCDate());
+        break;
+      }
+      case 'YEARLY': {
+        const year = startUtc.getUTCFullYear() + period * rule.interval;
+        const month = startUtc.getUTCMonth();
+        candidates = startUtc.getUTCDate() <= daysInMonth(year, month) ? [Date.UTC(year, month, startUtc.getUTCDate())] : [];
+        break;
+      }
+    }
+
+    for (const day of candidates) {
+      if (day < start) continue;
+      if (until !== null && day > until) return;
+
+      yield formatDate(day);
+
+      produced++;
+      if (rule.count && produced >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * An event's occurrences on or after `from` (and on or before `until`),
+ * with skipped dates left out and overrides applied. One-off events
+ * have a single occurrence.
+ */
+export function getEventOccurrences(
+  event: Pick<
+    Event,
+    'event_date' | 'event_time' | 'title' | 'location' | 'description' | 'recurrence_rule' | 'recurrence_exdates' | 'occurrence_overrides'
+  >,
+  options: { from: string; until?: string; limit?: number }
+): EventOccurrence[] {
+  const { from, until, limit } = options;
+  const base = (date: string): EventOccurrence => ({
+    occurrence_date: date,
+    event_date: date,
+    event_time: event.event_time || '',
+    title: event.title,
+    location: event.location,
+    description: event.description,
+    is_override: false,
+  });
+  const inRange = (occurrence: EventOccurrence) =>
+    occurrence.event_date >= from && (!until || occurrence.event_date <= until);
+
+  const rule = event.recurrence_rule ? parseRecurrenceRule(event.recurrence_rule) : null;
+  if (!rule) {
+    const occurrence = base(event.event_date);
+    return inRange(occurrence) ? [occurrence] : [];
+  }
+
+  const skipped = new Set(event.recurrence_exdates || []);
+  const overrides = new Map((event.occurrence_overrides || []).map((o) => [o.occurrence_date, o]));
+  const occurrences: EventOccurrence[] = [];
+  const byStart = (a: EventOccurrence, b: EventOccurrence) =>
+    `${a.event_date}T${a.event_time}`.localeCompare(`${b.event_date}T${b.event_time}`);
+
+  for (const date of getSeriesDates(event.event_date, rule)) {
+    if (until && date > addDays(until, OVERRIDE_LOOKAHEAD_DAYS)) break;
+    if (limit && occurrences.length >= limit) {
+      occurrences.sort(byStart);
+      if (date > addDays(occurrences[limit - 1].event_date, OVERRIDE_LOOKAHEAD_DAYS)) break;
+    }
+    if (skipped.has(date)) continue;
+
+    const override = overrides.get(date);
+    const occurrence = override
+      ? {
+          occurrence_date: date,
+          event_date: override.event_date,
+          event_time: override.event_time || event.event_time || '',
+          title: override.title || event.title,
+          location: override.location || event.location,
+          description: override.description || event.description,
+          is_override: true,
+        }
+      : base(date);
+
+    if (inRange(occurrence)) occurrences.push(occurrence);
+  }
+
+  occurrences.sort(byStart);
+  return limit ? occurrences.slice(0, limit) : occurrences;
+}
+
+/**
+ * The next occurrence on or after `from`, or null once the series is over
+ */
+export function getNextOccurrence(
+  event: Parameters<typeof getEventOccurrences>[0],
+  from: string = new Date().toISOString().split('T')[0]
+): EventOccurrence | null {
+  return getEventOccurrences(event, { from, limit: 1 })[0] ?? null;
+}
+
+/**
+ * Human-readable schedule, e.g. "Every 2 weeks on Tue, Thu, 6 times"
+ */
+export function describeRecurrence(value: string): string {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return 'Custom schedule';
+
+  const units: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${units[rule.freq]}s` : `Every ${units[rule.freq]}`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((d) =>
+      d.ordinal ? `${ORDINAL_NAMES[d.ordinal] || ordinalSuffix(d.ordinal)} ${WEEKDAY_NAMES[d.day]}` : WEEKDAY_NAMES[d.day]
+    );
+    text += rule.freq === 'MONTHLY' && rule.byDay.some((d) => d.ordinal) ? ` on the ${days.join(', ')}` : ` on ${days.join(', ')}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on the ${rule.byMonthDay.map((d) => (d > 0 ? ordinalSuffix(d) : d === -1 ? 'last day' : `${ordinalSuffix(-d)} to last day`)).join(', ')}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${new Date(`${rule.until}T00:00:00`).toLocaleDateString()}`;
+
+  return text;
+}
+
+function getPresetRule(preset: RecurrencePreset, startDate: string): RecurrenceRule | null {
+  const start = new Date(parseDate(startDate));
+  const weekday = start.getUTCDay();
+  const monthDay = start.getUTCDate();
+  const weekly: RecurrenceRule = { freq: 'WEEKLY', interval: 1, weekStart: 1, byDay: [{ day: weekday }] };
+
+  switch (preset) {
+    case 'daily':
+      return { freq: 'DAILY', interval: 1, weekStart: 1 };
+    case 'weekly':
+      return weekly;
+    case 'biweekly':
+      return { ...weekly, interval: 2 };
+    case 'monthly_day':
+      return { freq: 'MONTHLY', interval: 1, weekStart: 1, byMonthDay: [monthDay] };
+    case 'monthly_weekday': {
+      // "Last Friday" rather than "fifth Friday", which most months don't have
+      const isLast = monthDay + 7 > daysInMonth(start.getUTCFullYear(), start.getUTCMonth());
+      return { freq: 'MONTHLY', interval: 1, weekStart: 1, byDay: [{ day: weekday, ordinal: isLast ? -1 : Math.ceil(monthDay / 7) }] };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Label for a repeat option, given the series' first date
+ */
+export function describeRecurrencePreset(preset: RecurrencePreset, startDate: string): string {
+  if (preset === 'none') return 'Does not repeat';
+  if (preset === 'custom') return 'Custom rule';
+  if (!startDate) return { daily: 'Daily', weekly: 'Weekly', biweekly: 'Every 2 weeks', monthly_day: 'Monthly', monthly_weekday: 'Monthly' }[preset];
+
+  const rule = getPresetRule(preset, startDate);
+  return rule ? describeRecurrence(formatRecurrenceRule(rule)) : '';
+}
+
+/**
+ * Form state for an existing rule: a preset when the rule is one,
+ * otherwise the raw rule as a custom one
+ */
+export function getRecurrenceFormValue(value: string | null | undefined, startDate: string): RecurrenceFormValue {
+  const form: RecurrenceFormValue = { preset: 'none', customRule: '', endType: 'never', until: '', count: 10 };
+  if (!value) return form;
+
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return { ...form, preset: 'custom', customRule: value };
+
+  const withoutEnd = formatRecurrenceRule({ ...rule, count: undefined, until: undefined });
+  const presets: RecurrencePreset[] = ['daily', 'weekly', 'biweekly', 'monthly_day', 'monthly_weekday'];
+  const preset = presets.find((p) => {
+    const presetRule = getPresetRule(p, startDate);
+    return presetRule && formatRecurrenceRule(presetRule) === withoutEnd;
+  });
+
+  if (!preset) return { ...form, preset: 'custom', customRule: formatRecurrenceRule(rule) };
+
+  return {
+    ...form,
+    preset,
+    endType: rule.count ? 'count' : rule.until ? 'until' : 'never',
+    until: rule.until || '',
+    count: rule.count || form.count,
+  };
+}
+
+/**
+ * The RRULE to save for a form state, or null for a one-off event
+ */
+export function buildRecurrenceRule(
+  form: RecurrenceFormValue,
+  startDate: string
+): { rule: string | null; error?: string } {
+  if (form.preset === 'none') return { rule: null };
+
+  if (form.preset === 'custom') {
+    const rule = parseRecurrenceRule(form.customRule);
+    if (!rule) {
+      return {
+        rule: null,
+        error: 'Enter a rule like FREQ=WEEKLY;BYDAY=TU,TH (FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY are supported)',
+      };
+    }
+    return { rule: formatRecurrenceRule(rule) };
+  }
+
+  const rule = getPresetRule(form.preset, startDate);
+  if (!rule) return { rule: null, error: 'Pick the first date of the series' };
+
+  if (form.endType === 'until') {
+    if (!form.until || form.until < startDate) return { rule: null, error: 'The series must end after it starts' };
+    rule.until = form.until;
+  } else if (form.endType === 'count') {
+    if (!Number.isInteger(form.count) || form.count < 2) return { rule: null, error: 'A series needs at least 2 occurrences' };
+    rule.count = form.count;
+  }
+
+  return { rule: formatRecurrenceRule(rule) };
+}
@@ -1,5 +1,9 @@
 import { supabase } from './supabase';
-import type { CreateEventFormData, Event, EventServiceBooking } from '../types/events';
+import { getNextOccurrence } from './eventRecurrence';
+import type { CreateEventFormData, Event, EventOccurrenceOverride, EventServiceBooking } from '../types/events';
+
+// Events with the per-occurrence changes of recurring series
+const EVENT_COLUMNS = '*, occurrence_overrides:event_occurrence_overrides(*)';
 
 /**
  * Create a new event in Supabase database
@@ -27,6 +31,7 @@ export async function createEvent(
         features: formData.features || [],
         is_livestream: formData.isLivestream,
         livestream_url: formData.livestreamLink || null,
+        recurrence_rule: formData.recurrenceRule || null,
         category: 'business',
         status: 'upcoming',
         is_published: false,
@@ -53,7 +58,7 @@ export async function getUserEvents(userId: string): Promise<Event[]> {
   try {
     const { data, error } = await supabase
       .from('events')
-      .select('*')
+      .select(EVENT_COLUMNS)
       .eq('organizer_id', userId)
       .eq('is_visible_in_my_events', true)
       .order('created_at', { ascending: false });
@@ -77,7 +82,7 @@ export async function getPublishedEvents(): Promise<Event[]> {
   try {
     const { data, error } = await supabase
       .from('events')
-      .select('*')
+      .select(EVENT_COLUMNS)
       .eq('is_visible_in_join_tab', true)
       .eq('is_published', true)
       .order('event_date', { ascending: true });
@@ -147,6 +152,7 @@ export async function updateEvent(
     if (updates.features) updateData.features = updates.features;
     if (updates.isLivestream !== undefined) updateData.is_livestream = updates.isLivestream;
     if (updates.livestreamLink) updateData.livestream_url = updates.livestreamLink;
+    if (updates.recurrenceRule !== undefined) updateData.recurrence_rule = updates.recurrenceRule || null;
 
     updateData.updated_at = new Date().toISOString();
 
@@ -252,6 +258,106 @@ export async function restoreEventToMyEvents(
   }
 }
 
+/**
+ * Skip one occurrence of a recurring event, or bring a skipped one back.
+ * Skipping also drops any changes made to that occurrence.
+ */
+export async function setEventOccurrenceSkipped(
+  eventId: string,
+  userId: string,
+  occurrenceDate: string,
+  skipped: boolean
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { data: event, error: fetchError } = await supabase
+      .from('events')
+      .select('recurrence_exdates')
+      .eq('id', eventId)
+      .eq('organizer_id', userId)
+      .single();
+
+    if (fetchError) {
+      return { success: false, error: fetchError.message };
+    }
+
+    const exdates: string[] = (event.recurrence_exdates || []).filter((date: string) => date !== occurrenceDate);
+    if (skipped) exdates.push(occurrenceDate);
+
+    const { error } = await supabase
+      .from('events')
+      .update({ recurrence_exdates: exdates.sort() })
+      .eq('id', eventId)
+      .eq('organizer_id', userId);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Move or change a single occurrence of a recurring event
+ */
+export async function saveEventOccurrenceOverride(
+  eventId: string,
+  occurrenceDate: string,
+  changes: Pick<EventOccurrenceOverride, 'event_date' | 'event_time' | 'title' | 'location' | 'description'>
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase.from('event_occurrence_overrides').upsert(
+      {
+        event_id: eventId,
+        occurrence_date: occurrenceDate,
+        event_date: changes.event_date,
+        event_time: changes.event_time || null,
+        title: changes.title?.trim() || null,
+        location: changes.location?.trim() || null,
+        description: changes.description?.trim() || null,
+      },
+      { onConflict: 'event_id,occurrence_date' }
+    );
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Put a changed occurrence back on the series schedule
+ */
+export async function removeEventOccurrenceOverride(
+  eventId: string,
+  occurrenceDate: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from('event_occurrence_overrides')
+      .delete()
+      .eq('event_id', eventId)
+      .eq('occurrence_date', occurrenceDate);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+    return { success: false, error: errorMessage };
+  }
+}
+
 /**
  * Book service providers for an event
  */
@@ -512,7 +618,7 @@ export async function getUserCalendarEvents(userId: string): Promise<Event[]> {
       .from('user_calendar_events')
       .select(`
         event_id,
-        events (*)
+        events (*, occurrence_overrides:event_occurrence_overrides(*))
       `)
       .eq('user_id', userId)
       .order('added_at', { ascending: false });
@@ -700,25 +806,13 @@ function calculateReminderScheduledFor(
 }
 
 /**
- * Send email reminder to user (via edge function)
+ * Send the signed-in user an email reminder now for an event in their
+ * calendar. The email is queued in the outbox and sent by the
+ * processEmailOutbox worker.
  */
-export async function sendEmailReminder(
-  userId: string,
-  eventId: string,
-  event: Event
-): Promise<{ success: boolean; error: string | null }> {
+export async function sendEmailReminder(eventId: string): Promise<{ success: boolean; error: string | null }> {
   try {
-    const { data, error } = await supabase.functions.invoke('send-event-reminder-email', {
-      body: {
-        userId,
-        eventId,
-        eventTitle: event.title,
-        eventDate: event.event_date,
-        eventTime: event.event_time,
-        eventLocation: event.location,
-        organizerName: event.organizer_name || event.organizer_specification,
-      },
-    });
+    const { error } = await supabase.rpc('queue_event_reminder_email', { p_event_id: eventId });
 
     if (error) {
       return { success: false, error: error.message };
@@ -758,10 +852,13 @@ export async function createEventReminders(
       return { success: false, error: updateResult.error.message };
     }
 
-    // Create reminders for each type if applicable
+    // Create reminders for each type if applicable; a series is reminded
+    // of its next date only (setting the reminder again after that date
+    // schedules the one after)
+    const nextOccurrence = event.recurrence_rule ? getNextOccurrence(event) : null;
     const reminderScheduledFor = calculateReminderScheduledFor(
-      event.event_date,
-      event.event_time,
+      nextOccurrence?.event_date || event.event_date,
+      nextOccurrence?.event_time || event.event_time,
       reminderBefore
     );
 
@@ -770,6 +867,7 @@ export async function createEventReminders(
       user_id: string;
       event_id: string;
       reminder_scheduled_for: string;
+      occurrence_date: string | null;
       reminder_type: string;
       status: string;
     }> = [];
@@ -779,6 +877,7 @@ export async function createEventReminders(
         user_id: userId,
         event_id: eventId,
         reminder_scheduled_for: reminderScheduledFor.toISOString(),
+        occurrence_date: nextOccurrence?.occurrence_date ?? null,
         reminder_type: 'in_app',
         status: 'pending',
       });
@@ -789,6 +888,7 @@ export async function createEventReminders(
         user_id: userId,
         event_id: eventId,
         reminder_scheduled_for: reminderScheduledFor.toISOString(),
+        occurrence_date: nextOccurrence?.occurrence_date ?? null,
         reminder_type: 'email',
         status: 'pending',
       });
@@ -799,6 +899,7 @@ export async function createEventReminders(
         user_id: userId,
         event_id: eventId,
         reminder_scheduled_for: reminderScheduledFor.toISOString(),
+        occurrence_date: nextOccurrence?.occurrence_date ?? null,
         reminder_type: 'push',
         status: 'pending',
       });
@@ -0,0 +1,345 @@
+import QRCode from 'qrcode';
+import { supabase } from './supabase';
+
+export type TicketKind = 'general' | 'early_bird' | 'vip' | 'group';
+
+export interface EventTicketType {
+  id: string;
+  event_id: string;
+  name: string;
+  description: string | null;
+  kind: TicketKind;
+  price: number;
+  currency: string;
+  quantity: number;
+  /** People one ticket lets in */
+  admits: number;
+  max_per_order: number;
+  sales_start_at: string | null;
+  sales_end_at: string | null;
+  is_active: boolean;
+  sort_order: number;
+  sold_count: number;
+}
+
+export interface EventTicket {
+  id: string;
+  event_id: string;
+  ticket_type_id: string | null;
+  user_id: string;
+  holder_name: string;
+  /** Typed in at the door when the QR code can't be scanned */
+  code: string;
+  /** Signed payload the QR code encodes */
+  qr_payload: string;
+  admits: number;
+  price_paid: number;
+  currency: string | null;
+  status: 'valid' | 'cancelled';
+  checked_in_at: string | null;
+  created_at: string;
+}
+
+export interface EventTicketTypeInput {
+  name: string;
+  description?: string;
+  kind: TicketKind;
+  price: number;
+  currency: string;
+  quantity: number;
+  admits: number;
+  max_per_order: number;
+  sales_start_at?: string | null;
+  sales_end_at?: string | null;
+  is_active: boolean;
+}
+
+export type CheckInOutcome = 'admitted' | 'duplicate' | 'invalid' | 'wrong_event' | 'cancelled';
+
+export interface CheckInResult {
+  result: CheckInOutcome;
+  ticket_id?: string;
+  code?: string;
+  holder_name?: string;
+  ticket_type?: string;
+  admits?: number;
+  checked_in_at?: string;
+}
+
+export interface EventAttendance {
+  tickets_issued: number;
+  tickets_checked_in: number;
+  people_expected: number;
+  people_admitted: number;
+}
+
+export const TICKET_KIND_LABELS: Record<TicketKind, string> = {
+  general: 'General',
+  early_bird: 'Early bird',
+  vip: 'VIP',
+  group: 'Group',
+};
+
+const TICKET_TYPE_COLUMNS =
+  'id, event_id, name, description, kind, price, currency, quantity, admits, max_per_order, sales_start_at, sales_end_at, is_active, sort_order, sold_count';
+
+const TICKET_COLUMNS =
+  'id, event_id, ticket_type_id, user_id, holder_name, code, qr_payload, admits, price_paid, currency, status, checked_in_at, created_at';
+
+/**
+ * Why a ticket type can't be bought right now, or null when it can
+ */
+export function getTicketTypeUnavailableReason(ticketType: EventTicketType): string | null {
+  const now = Date.now();
+
+  if (!ticketType.is_active) return 'Not on sale';
+  if (ticketType.sales_start_at && new Date(ticketType.sales_start_at).getTime() > now) {
+    return `On sale ${new Date(ticketType.sales_start_at).toLocaleDateString()}`;
+  }
+  if (ticketType.sales_end_at && new Date(ticketType.sales_end_at).getTime() < now) return 'Sales ended';
+  if (ticketType.sold_count >= ticketType.quantity) return 'Sold out';
+  return null;
+}
+
+/**
+ * QR code image (data URL) for a ticket's signed payload
+ */
+export async function getTicketQrCode(ticket: Pick<EventTicket, 'qr_payload'>): Promise<string> {
+  return QRCode.toDataURL(ticket.qr_payload, { width: 240, margin: 1, errorCorrectionLevel: 'M' });
+}
+
+/**
+ * An event's ticket types in display order. Buyers only see the active
+ * ones; the organizer sees them all.
+ */
+export async function getEventTicketTypes(eventId: string, includeInactive = false): Promise<EventTicketType[]> {
+  try {
+    let query = supabase
+      .from('event_ticket_types')
+      .select(TICKET_TYPE_COLUMNS)
+      .eq('event_id', eventId)
+      .order('sort_order', { ascending: true })
+      .order('price', { ascending: true });
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching ticket types:', err);
+    return [];
+  }
+}
+
+/**
+ * Create a ticket type for one of the organizer's events, or update one
+ */
+export async function saveEventTicketType(
+  eventId: string,
+  input: EventTicketTypeInput,
+  ticketTypeId?: string
+): Promise<{ success: boolean; ticketType?: EventTicketType; error?: string }> {
+  try {
+    if (!input.name.trim()) {
+      return { success: false, error: 'Give the ticket a name' };
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+      return { success: false, error: 'Quantity must be at least 1 ticket' };
+    }
+    if (!Number.isInteger(input.admits) || input.admits < 1) {
+      return { success: false, error: 'A ticket must admit at least 1 person' };
+    }
+    if (!Number.isInteger(input.max_per_order) || input.max_per_order < 1) {
+      return { success: false, error: 'Allow at least 1 ticket per order' };
+    }
+    if (input.price < 0) {
+      return { success: false, error: 'Price cannot be negative' };
+    }
+    if (
+      input.sales_start_at &&
+      input.sales_end_at &&
+      new Date(input.sales_end_at).getTime() <= new Date(input.sales_start_at).getTime()
+    ) {
+      return { success: false, error: 'Sales must end after they start' };
+    }
+
+    const row = {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      kind: input.kind,
+      price: input.price,
+      currency: input.currency,
+      quantity: input.quantity,
+      admits: input.admits,
+      max_per_order: input.max_per_order,
+      sales_start_at: input.sales_start_at || null,
+      sales_end_at: input.sales_end_at || null,
+      is_active: input.is_active,
+    };
+
+    const { data, error } = ticketTypeId
+      ? await supabase.from('event_ticket_types').update(row).eq('id', ticketTypeId).select(TICKET_TYPE_COLUMNS).single()
+      : await supabase
+          .from('event_ticket_types')
+          .insert({ ...row, event_id: eventId })
+          .select(TICKET_TYPE_COLUMNS)
+          .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, ticketType: data };
+  } catch (err) {
+    console.error('Error saving ticket type:', err);
+    return { success: false, error: err instanceof Error ? err.message : 'Failed to save ticket type' };
+  }
+}
+
+/**
+ * Delete a ticket type nobody has bought yet; sold types can only be
+ * taken off sale
+ */
+export async function deleteEventTicketType(ticketTypeId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.from('event_ticket_types').delete().eq('id', ticketTypeId);
+
+    if (error) {
+      // 23503: foreign_key_violation (tickets were issued)
+      if (error.code === '23503') {
+        return { success: false, error: 'Tickets of this type were sold; take it off sale instead' };
+      }
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error deleting ticket type:', err);
+    return { success: false, error: err instanceof Error ? err.message : 'Failed to delete ticket type' };
+  }
+}
+
+/**
+ * The user's tickets for an event, oldest first
+ */
+export async function getUserEventTickets(userId: string, eventId: string): Promise<EventTicket[]> {
+  try {
+    const { data, error } = await supabase
+      .from('event_tickets')
+      .select(TICKET_COLUMNS)
+      .eq('user_id', userId)
+      .eq('event_id', eventId)
+      .eq('status', 'valid')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching tickets:', err);
+    return [];
+  }
+}
+
+/**
+ * Every ticket issued for the organizer's event, most recently checked in first
+ */
+export async function getEventTickets(eventId: string): Promise<EventTicket[]> {
+  try {
+    const { data, error } = await supabase
+      .from('event_tickets')
+      .select(TICKET_COLUMNS)
+      .eq('event_id', eventId)
+      .order('checked_in_at', { ascending: false, nullsFirst: false })
+      .order('holder_name', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching event tickets:', err);
+    return [];
+  }
+}
+
+/**
+ * Get free tickets; paid ones go through checkout
+ */
+export async function claimFreeEventTickets(
+  ticketTypeId: string,
+  quantity: number
+): Promise<{ success: boolean; tickets?: EventTicket[]; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('claim_free_event_tickets', {
+      p_ticket_type_id: ticketTypeId,
+      p_quantity: quantity,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, tickets: data || [] };
+  } catch (err) {
+    console.error('Error claiming tickets:', err);
+    return { success: false, error: err instanceof Error ? err.message : 'Failed to get tickets' };
+  }
+}
+
+/**
+ * Check a scanned QR payload or a typed ticket code in at the door
+ */
+export async function checkInEventTicket(
+  eventId: string,
+  code: string
+): Promise<{ success: boolean; checkIn?: CheckInResult; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('check_in_event_ticket', {
+      p_event_id: eventId,
+      p_code: code,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, checkIn: data as CheckInResult };
+  } catch (err) {
+    console.error('Error checking ticket in:', err);
+    return { success: false, error: err instanceof Error ? err.message : 'Failed to check ticket in' };
+  }
+}
+
+export async function getEventAttendance(eventId: string): Promise<EventAttendance | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_event_attendance', { p_event_id: eventId });
+
+    if (error) {
+      throw error;
+    }
+
+    const row = (data || [])[0];
+    return row
+      ? {
+          tickets_issued: Number(row.tickets_issued),
+          tickets_checked_in: Number(row.tickets_checked_in),
+          people_expected: Number(row.people_expected),
+          people_admitted: Number(row.people_admitted),
+        }
+      : null;
+  } catch (err) {
+    console.error('Error fetching attendance:', err);
+    return null;
+  }
+}
@@ -1,4 +1,5 @@
 import type { Event } from '../types/events';
+import { addDays, getEventOccurrences } from './eventRecurrence';
 
 /**
  * Check if an event should be visible in the Join tab
@@ -11,31 +12,40 @@ export function isEventVisibleInJoinTab(event: Event): boolean {
     return false;
   }
 
-  // Parse event date
-  const eventDateTime = new Date(event.event_date);
-  
-  // If no event time is specified, use end of day (23:59)
-  if (event.event_time) {
-    const [hours, minutes] = event.event_time.split(':');
-    eventDateTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-  } else {
-    eventDateTime.setHours(23, 59, 59, 999);
+  // A series stays listed until its last occurrence is over
+  if (event.recurrence_rule) {
+    const yesterday = addDays(new Date().toISOString().split('T')[0], -1);
+    return getEventOccurrences(event, { from: yesterday, limit: 2 }).some(
+      (occurrence) => new Date() <= getJoinTabCutoff(occurrence.event_date, occurrence.event_time)
+    );
   }
 
-  // Calculate cutoff time (1 hour after event time)
-  const cutoffTime = new Date(eventDateTime.getTime() + 60 * 60 * 1000); // Add 1 hour
-
-  // Get current time
-  const now = new Date();
-
   // If current time is past the cutoff, hide from UI
-  if (now > cutoffTime) {
+  if (new Date() > getJoinTabCutoff(event.event_date, event.event_time)) {
     return false;
   }
 
   return true;
 }
 
+/**
+ * 1 hour after the event time, or the end of the day without one
+ */
+function getJoinTabCutoff(eventDate: string, eventTime: string): Date {
+  // Parse event date
+  const eventDateTime = new Date(eventDate);
+
+  // If no event time is specified, use end of day (23:59)
+  if (eventTime) {
+    const [hours, minutes] = eventTime.split(':');
+    eventDateTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+  } else {
+    eventDateTime.setHours(23, 59, 59, 999);
+  }
+
+  return new Date(eventDateTime.getTime() + 60 * 60 * 1000); // Add 1 hour
+}
+
 /**
  * Filter events to only show those visible in Join tab
  */
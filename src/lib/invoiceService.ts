@@ -9,76 +9,61 @@ export interface Invoice {
   currency: string;
   payment_method?: string;
   transaction_id?: string;
+  /** INV-YYYY-NNNNNN, allocated in sequence by the database */
   invoice_number: string;
   invoice_date: string;
   due_date?: string;
-  status: 'pending' | 'paid' | 'cancelled';
+  status: 'pending' | 'paid' | 'cancelled' | 'refunded' | 'partially_refunded';
+  /** Sum of the credit notes issued against the invoice */
+  refunded_amount: number;
+  refunded_at?: string;
+  /** Amount before VAT; amount = subtotal_amount + tax_amount */
+  subtotal_amount: number | null;
+  tax_amount: number;
+  /** Deducted from the amount payable */
+  withholding_amount: number;
   pdf_url?: string;
   email_sent: boolean;
   email_sent_at?: string;
+  lines?: InvoiceLine[];
+  credit_notes?: CreditNote[];
 }
 
-/**
- * Generate unique invoice number
- */
-function generateInvoiceNumber(): string {
-  const year = new Date().getFullYear();
-  const month = String(new Date().getMonth() + 1).padStart(2, '0');
-  const random = Math.floor(Math.random() * 10000)
-    .toString()
-    .padStart(5, '0');
-  return `INV-${year}${month}-${random}`;
+export interface InvoiceLine {
+  id: string;
+  line_number: number;
+  line_type: 'item' | 'vat' | 'withholding';
+  description: string;
+  quantity: number;
+  unit_amount: number;
+  amount: number;
+  tax_rate: number | null;
 }
 
-/**
- * Create invoice for enrollment
- */
-export async function createInvoice(
-  enrollmentId: string,
-  userId: string,
-  courseId: string,
-  amount: number,
-  paymentMethod?: string,
-  transactionId?: string
-): Promise<{ success: boolean; invoice?: Invoice; error?: string }> {
-  try {
-    const invoiceNumber = generateInvoiceNumber();
-    const invoiceDate = new Date();
-    const dueDate = new Date(invoiceDate.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
+/** Issued against an invoice for a refund; invoices are never edited */
+export interface CreditNote {
+  id: string;
+  /** CN-YYYY-NNNNNN */
+  credit_note_number: string;
+  invoice_id: string;
+  refund_id: string | null;
+  amount: number;
+  currency: string;
+  subtotal_amount: number;
+  tax_amount: number;
+  reason: string | null;
+  issued_at: string;
+}
 
-    const { data, error } = await supabase
-      .from('enrollment_invoices')
-      .insert([
-        {
-          enrollment_id: enrollmentId,
-          user_id: userId,
-          course_id: courseId,
-          amount,
-          currency: 'UGX',
-          payment_method: paymentMethod || null,
-          transaction_id: transactionId || null,
-          invoice_number: invoiceNumber,
-          invoice_date: invoiceDate.toISOString(),
-          due_date: dueDate.toISOString(),
-          status: 'paid', // Auto-mark as paid if payment successful
-          email_sent: false,
-        },
-      ])
-      .select()
-      .single();
+// Enrollment invoices are issued by the payment webhook when a course
+// payment order is paid (supabase/functions/_shared/purchaseOrders.ts);
+// the database numbers them and adds the tax lines
+// (database/042_invoice_numbering_and_tax.sql).
 
-    if (error) {
-      throw error;
-    }
+const INVOICE_SELECT = '*, lines:enrollment_invoice_lines(*), credit_notes(*)';
 
-    return { success: true, invoice: data };
-  } catch (err) {
-    console.error('Invoice creation error:', err);
-    return {
-      success: false,
-      error: err instanceof Error ? err.message : 'Failed to create invoice',
-    };
-  }
+function formatMoney(currency: string, amount: number): string {
+  return `${currency} ${Number(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
 }
 
 /**
@@ -105,6 +90,18 @@ function generateInvoiceHTML(
       })
     : '-';
 
+  const currency = invoice.currency;
+  const amount = Number(invoice.amount);
+  const subtotal = Number(invoice.subtotal_amount ?? amount);
+  const withholding = Number(invoice.withholding_amount || 0);
+  const refunded = Number(invoice.refunded_amount || 0);
+  const lines = [...(invoice.lines || [])].sort((a, b) => a.line_number - b.line_number);
+  const taxLines = lines.filter((line) => line.line_type === 'vat');
+  const withholdingLines = lines.filter((line) => line.line_type === 'withholding');
+  const creditNotes = [...(invoice.credit_notes || [])].sort(
+    (a, b) => new Date(a.issued_at).getTime() - new Date(b.issued_at).getTime()
+  );
+
   return `
     <!DOCTYPE html>
     <html>
@@ -274,6 +271,12 @@ function generateInvoiceHTML(
           background: #fff3cd;
           color: #856404;
         }
+
+        .status-refunded,
+        .status-partially_refunded {
+          background: #f8d7da;
+          color: #721c24;
+        }
         
         @media print {
           body {
@@ -312,7 +315,7 @@ function generateInvoiceHTML(
             <h3>Invoice Details:</h3>
             <p><strong>Date:</strong> ${invoiceDate}</p>
             <p><strong>Due Date:</strong> ${dueDate}</p>
-            <p><strong>Status:</strong> <span class="status-badge status-${invoice.status}">${invoice.status.toUpperCase()}</span></p>
+            <p><strong>Status:</strong> <span class="status-badge status-${invoice.status}">${invoice.status.replace('_', ' ').toUpperCase()}</span></p>
           </div>
         </div>
         
@@ -333,8 +336,8 @@ function generateInvoiceHTML(
                   <small>by ${courseCreator}</small>
                 </td>
                 <td class="text-right">1</td>
-                <td class="text-right">UGX ${invoice.amount.toLocaleString()}</td>
-                <td class="text-right">UGX ${invoice.amount.toLocaleString()}</td>
+                <td class="text-right">${formatMoney(currency, subtotal)}</td>
+                <td class="text-right">${formatMoney(currency, subtotal)}</td>
               </tr>
             </tbody>
           </table>
@@ -344,16 +347,60 @@ function generateInvoiceHTML(
           <div class="summary-box">
             <div class="summary-row">
               <span>Subtotal:</span>
-              <span>UGX ${invoice.amount.toLocaleString()}</span>
-            </div>
+              <span>${formatMoney(currency, subtotal)}</span>
+            </div>${
+              taxLines.length > 0
+                ? taxLines
+                    .map(
+                      (line) => `
             <div class="summary-row">
-              <span>Tax (0%):</span>
-              <span>UGX 0</span>
-            </div>
+              <span>${line.description}:</span>
+              <span>${formatMoney(currency, line.amount)}</span>
+            </div>`
+                    )
+                    .join('')
+                : `
+            <div class="summary-row">
+              <span>Tax:</span>
+              <span>${formatMoney(currency, Number(invoice.tax_amount || 0))}</span>
+            </div>`
+            }
             <div class="summary-row total">
               <span>Total:</span>
-              <span>UGX ${invoice.amount.toLocaleString()}</span>
-            </div>
+              <span>${formatMoney(currency, amount)}</span>
+            </div>${withholdingLines
+              .map(
+                (line) => `
+            <div class="summary-row">
+              <span>${line.description}:</span>
+              <span>- ${formatMoney(currency, Math.abs(line.amount))}</span>
+            </div>`
+              )
+              .join('')}${
+              withholding > 0
+                ? `
+            <div class="summary-row">
+              <span>Net Payable:</span>
+              <span>${formatMoney(currency, amount - withholding)}</span>
+            </div>`
+                : ''
+            }${creditNotes
+              .map(
+                (note) => `
+            <div class="summary-row">
+              <span>Credit note ${note.credit_note_number} (${new Date(note.issued_at).toLocaleDateString()}):</span>
+              <span>- ${formatMoney(currency, note.amount)}</span>
+            </div>`
+              )
+              .join('')}${
+              refunded > 0
+                ? `
+            <div class="summary-row">
+              <span>Net Paid:</span>
+              <span>${formatMoney(currency, amount - refunded)}</span>
+            </div>`
+                : ''
+            }
           </div>
         </div>
         
@@ -369,17 +416,19 @@ function generateInvoiceHTML(
 }
 
 /**
- * Get invoice
+ * Get the latest invoice for an enrollment, with its lines and credit notes
  */
 export async function getInvoice(enrollmentId: string): Promise<Invoice | null> {
   try {
     const { data, error } = await supabase
       .from('enrollment_invoices')
-      .select('*')
+      .select(INVOICE_SELECT)
       .eq('enrollment_id', enrollmentId)
-      .single();
+      .order('invoice_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    if (error && error.code !== 'PGRST116') {
+    if (error) {
       throw error;
     }
 
@@ -444,7 +493,7 @@ export async function getUserInvoices(userId: string): Promise<Invoice[]> {
   try {
     const { data, error } = await supabase
       .from('enrollment_invoices')
-      .select('*')
+      .select(INVOICE_SELECT)
       .eq('user_id', userId)
       .order('invoice_date', { ascending: false });
 
@@ -0,0 +1,315 @@
+import { supabase } from './supabase';
+
+/**
+ * 'path': an ordered set of courses with a certificate for the whole path.
+ * 'bundle': courses sold together below the sum of their prices.
+ */
+export type LearningPathType = 'path' | 'bundle';
+
+export interface LearningPathCourse {
+  course_id: string;
+  position: number;
+  course: {
+    id: string;
+    title: string;
+    creator: string | null;
+    thumbnail_url: string | null;
+    course_price: number | null;
+    course_currency: string | null;
+  } | null;
+}
+
+export interface LearningPath {
+  id: string;
+  owner_id: string;
+  title: string;
+  description: string | null;
+  thumbnail_url: string | null;
+  path_type: LearningPathType;
+  /** 0 = free to follow */
+  price: number;
+  currency: string;
+  is_published: boolean;
+  created_at: string;
+  /** In path order */
+  courses: LearningPathCourse[];
+}
+
+export interface LearningPathInput {
+  title: string;
+  description: string;
+  thumbnail_url: string;
+  path_type: LearningPathType;
+  price: number;
+  currency: string;
+  is_published: boolean;
+  /** In path order */
+  course_ids: string[];
+}
+
+/** A course that can be added to a path */
+export interface PathCourseOption {
+  id: string;
+  title: string;
+  creator: string | null;
+  course_price: number | null;
+  course_currency: string | null;
+}
+
+export interface LearningPathEnrollment {
+  id: string;
+  path_id: string;
+  user_id: string;
+  price_paid: number;
+  currency: string | null;
+  progress_percentage: number;
+  courses_completed: number;
+  total_courses: number;
+  completed_at: string | null;
+  certificate_id: string | null;
+  enrolled_at: string;
+}
+
+export interface PathCourseProgress {
+  enrollment_id: string;
+  progress_percentage: number;
+  status: string;
+  certificate_eligible: boolean;
+}
+
+/** What the courses cost separately, against the path's own price */
+export interface PathPricing {
+  partsTotal: number;
+  savings: number;
+  /** False when a course is not sold in the path's currency */
+  complete: boolean;
+}
+
+const PATH_COLUMNS =
+  'id, owner_id, title, description, thumbnail_url, path_type, price, currency, is_published, created_at';
+
+const PATH_COURSE_COLUMNS =
+  'course_id, position, course:masterclass_page_content(id, title, creator, thumbnail_url, course_price, course_currency)';
+
+const PATH_ENROLLMENT_COLUMNS =
+  'id, path_id, user_id, price_paid, currency, progress_percentage, courses_completed, total_courses, completed_at, certificate_id, enrolled_at';
+
+/**
+ * Published paths and bundles plus the user's own drafts, newest first
+ */
+export async function getLearningPaths(): Promise<LearningPath[]> {
+  try {
+    const { data, error } = await supabase
+      .from('learning_paths')
+      .select(`${PATH_COLUMNS}, courses:learning_path_courses(${PATH_COURSE_COLUMNS})`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map((path) => ({
+      ...path,
+      price: Number(path.price || 0),
+      courses: ((path.courses || []) as unknown as LearningPathCourse[])
+        .slice()
+        .sort((a, b) => a.position - b.position),
+    }));
+  } catch (err) {
+    console.error('Error fetching learning paths:', err);
+    return [];
+  }
+}
+
+/**
+ * Courses the user can put in a path: their own, or every course for admins
+ */
+export async function getPathCourseOptions(userId: string, isAdmin: boolean): Promise<PathCourseOption[]> {
+  try {
+    let query = supabase
+      .from('masterclass_page_content')
+      .select('id, title, creator, course_price, course_currency')
+      .neq('status', 'permanently_deleted')
+      .order('title', { ascending: true });
+
+    if (!isAdmin) {
+      query = query.eq('user_id', userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching courses for learning path:', err);
+    return [];
+  }
+}
+
+/**
+ * Create (pathId null) or update a path together with its course list.
+ * The database checks the courses are the owner's and that a priced
+ * path costs less than its courses.
+ */
+export async function saveLearningPath(
+  pathId: string | null,
+  input: LearningPathInput
+): Promise<{ success: boolean; pathId?: string; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('save_learning_path', {
+      p_path_id: pathId,
+      p_title: input.title,
+      p_description: input.description,
+      p_thumbnail_url: input.thumbnail_url,
+      p_path_type: input.path_type,
+      p_price: input.price,
+      p_currency: input.currency,
+      p_is_published: input.is_published,
+      p_course_ids: input.course_ids,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, pathId: data };
+  } catch (err) {
+    console.error('Error saving learning path:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save learning path',
+    };
+  }
+}
+
+export async function deleteLearningPath(pathId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.from('learning_paths').delete().eq('id', pathId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error deleting learning path:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to delete learning path',
+    };
+  }
+}
+
+/**
+ * The sum of the courses' own prices in the path currency
+ */
+export async function getLearningPathPricing(path: Pick<LearningPath, 'id' | 'price' | 'currency'>): Promise<PathPricing> {
+  try {
+    const { data, error } = await supabase.rpc('get_learning_path_course_prices', {
+      p_path_id: path.id,
+      p_currency: path.currency,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const prices = (data || []) as { list_price: number | null }[];
+    const partsTotal = prices.reduce((sum, course) => sum + Number(course.list_price || 0), 0);
+
+    return {
+      partsTotal,
+      savings: Math.max(partsTotal - path.price, 0),
+      complete: prices.every((course) => course.list_price !== null),
+    };
+  } catch (err) {
+    console.error('Error pricing learning path:', err);
+    return { partsTotal: 0, savings: 0, complete: false };
+  }
+}
+
+/**
+ * The user's path enrollments keyed by path id
+ */
+export async function getUserPathEnrollments(userId: string): Promise<Record<string, LearningPathEnrollment>> {
+  try {
+    const { data, error } = await supabase
+      .from('learning_path_enrollments')
+      .select(PATH_ENROLLMENT_COLUMNS)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    return Object.fromEntries((data || []).map((enrollment) => [enrollment.path_id, enrollment]));
+  } catch (err) {
+    console.error('Error fetching learning path enrollments:', err);
+    return {};
+  }
+}
+
+/**
+ * The user's progress in each of the given courses, keyed by course id
+ */
+export async function getPathCourseProgress(
+  userId: string,
+  courseIds: string[]
+): Promise<Record<string, PathCourseProgress>> {
+  if (courseIds.length === 0) return {};
+
+  try {
+    const { data, error } = await supabase
+      .from('student_enrollments')
+      .select('id, course_id, progress_percentage, status, certificate_eligible')
+      .eq('user_id', userId)
+      .in('course_id', courseIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return Object.fromEntries(
+      (data || []).map((row) => [
+        row.course_id,
+        {
+          enrollment_id: row.id,
+          progress_percentage: row.progress_percentage || 0,
+          status: row.status,
+          certificate_eligible: row.certificate_eligible,
+        },
+      ])
+    );
+  } catch (err) {
+    console.error('Error fetching learning path progress:', err);
+    return {};
+  }
+}
+
+/**
+ * Start following a free path (or one whose courses the user already
+ * owns); free courses in it are enrolled in straight away. Paid paths
+ * are bought as a 'learning_path' payment order instead.
+ */
+export async function joinLearningPath(
+  pathId: string
+): Promise<{ success: boolean; enrollmentId?: string; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('join_learning_path', { p_path_id: pathId });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, enrollmentId: data };
+  } catch (err) {
+    console.error('Error joining learning path:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to join learning path',
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { supabase } from './supabase';
+
+export interface LessonProgress {
+  id: string;
+  enrollment_id: string;
+  lesson_id: string;
+  watched_seconds: number;
+  duration_seconds: number;
+  watched_percentage: number;
+  last_position_seconds: number;
+  is_completed: boolean;
+  completed_at: string | null;
+  last_watched_at: string;
+}
+
+export interface EnrollmentProgress {
+  lessons_completed: number;
+  total_lessons: number;
+  progress_percentage: number;
+  is_completed: boolean;
+}
+
+export interface RecordedLessonProgress extends LessonProgress {
+  completion_threshold_percent: number;
+  /** Set when this report completed the lesson and enrollment progress was refreshed */
+  enrollment_progress: EnrollmentProgress | null;
+}
+
+/**
+ * The current user's progress on every lesson of a course, keyed by lesson id
+ */
+export async function getLessonProgress(courseId: string): Promise<Record<string, LessonProgress>> {
+  try {
+    const { data, error } = await supabase
+      .from('lesson_progress')
+      .select(
+        'id, enrollment_id, lesson_id, watched_seconds, duration_seconds, watched_percentage, last_position_seconds, is_completed, completed_at, last_watched_at'
+      )
+      .eq('course_id', courseId);
+
+    if (error) {
+      throw error;
+    }
+
+    return Object.fromEntries(
+      (data || []).map((row) => [
+        row.lesson_id,
+        {
+          ...row,
+          watched_seconds: Number(row.watched_seconds),
+          duration_seconds: Number(row.duration_seconds),
+          watched_percentage: Number(row.watched_percentage),
+          last_position_seconds: Number(row.last_position_seconds),
+        } as LessonProgress,
+      ])
+    );
+  } catch (err) {
+    console.error('Error fetching lesson progress:', err);
+    return {};
+  }
+}
+
+/**
+ * Report playback of a lesson. watchedSeconds is the time actually played
+ * since the previous report; the server decides whether the lesson is
+ * complete. Articles and resources are completed by a single report.
+ * Returns null when the user is not enrolled (e.g. a free preview).
+ */
+export async function recordLessonProgress(
+  lessonId: string,
+  positionSeconds: number,
+  durationSeconds: number | null,
+  watchedSeconds: number
+): Promise<RecordedLessonProgress | null> {
+  try {
+    const { data, error } = await supabase.rpc('record_lesson_progress', {
+      p_lesson_id: lessonId,
+      p_position_seconds: positionSeconds,
+      p_duration_seconds: durationSeconds,
+      p_watched_seconds: watchedSeconds,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as RecordedLessonProgress) || null;
+  } catch (err) {
+    console.error('Error recording lesson progress:', err);
+    return null;
+  }
+}
@@ -150,17 +150,21 @@ export function getTierBenefits(tier: MemberTier): string[] {
   return TIER_CONFIGS[tier].benefits;
 }
 
-export function isValidTierUpgrade(
-  currentTier: MemberTier,
-  targetTier: MemberTier
-): boolean {
+export function getTierRank(tier: MemberTier): number {
   const tierOrder: Record<MemberTier, number> = {
     welcome: 1,
     premium: 2,
     elite: 3,
     enterprise: 4,
   };
-  return tierOrder[targetTier] > tierOrder[currentTier];
+  return tierOrder[tier] ?? -1;
+}
+
+export function isValidTierUpgrade(
+  currentTier: MemberTier,
+  targetTier: MemberTier
+): boolean {
+  return getTierRank(targetTier) > getTierRank(currentTier);
 }
 
 export function getNextTier(tier: MemberTier): MemberTier | null {
@@ -0,0 +1,181 @@
+/**
+ * Membership Proration Configuration
+ * Prices a mid-cycle plan change against the member's current subscription.
+ *
+ * - Upgrades on the same billing cycle take effect now and keep the current
+ *   period end; the charge is the price difference for the days remaining.
+ * - Monthly -> annual switches take effect now and start a new annual period;
+ *   the unused part of the current month is credited.
+ * - Downgrades and annual -> monthly switches are scheduled for the end of
+ *   the current period and nothing is charged today.
+ */
+
+import { BillingCycle } from './tierPricingConfig';
+import { addBillingPeriod } from './membershipRenewalConfig';
+
+export type PlanChangeKind = 'new' | 'upgrade' | 'downgrade' | 'billing_cycle_change';
+export type PlanChangeTiming = 'immediate' | 'period_end';
+
+export interface CurrentPlan {
+  tier: string;
+  billingCycle: BillingCycle;
+  /** Full price of the current plan per billing cycle */
+  amount: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export interface TargetPlan {
+  tier: string;
+  billingCycle: BillingCycle;
+  prices: Record<BillingCycle, number>;
+}
+
+export interface ProrationPreview {
+  kind: PlanChangeKind;
+  timing: PlanChangeTiming;
+  /** Billing cycle today's charge pays for */
+  billingCycle: BillingCycle;
+  /** Price charged at each renewal after the change */
+  fullPrice: number;
+  /** Value of the unused part of the current period */
+  credit: number;
+  amountDue: number;
+  effectiveAt: Date;
+  /** End of the period today's charge covers (or the first period after a scheduled change) */
+  periodEnd: Date;
+  /** Upgrade keeps the current period end instead of starting a new period */
+  keepsCurrentPeriod: boolean;
+}
+
+/**
+ * Proration details stored in the transaction metadata so activation
+ * knows the renewal price and whether the current period is kept
+ */
+export interface ProrationMetadata {
+  kind: PlanChangeKind;
+  fullPrice: number;
+  credit: number;
+  keepsCurrentPeriod: boolean;
+  periodEnd: string;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Share of the current period that is still unused (0 - 1)
+ */
+export function getRemainingFraction(plan: CurrentPlan, now: Date = new Date()): number {
+  const total = plan.periodEnd.getTime() - plan.periodStart.getTime();
+  if (total <= 0) return 0;
+  const remaining = plan.periodEnd.getTime() - now.getTime();
+  return Math.min(1, Math.max(0, remaining / total));
+}
+
+/**
+ * Credit for the unused part of the current period
+ */
+export function getUnusedCredit(plan: CurrentPlan, now: Date = new Date()): number {
+  return roundMoney(plan.amount * getRemainingFraction(plan, now));
+}
+
+/**
+ * Price a change from the current plan to the target plan.
+ * @param tierDirection > 0 for a higher tier, < 0 for a lower tier, 0 for the same tier
+ * @returns null when the target is the current plan
+ */
+export function previewPlanChange(
+  current: CurrentPlan | null,
+  target: TargetPlan,
+  tierDirection: number,
+  now: Date = new Date()
+): ProrationPreview | null {
+  const targetPrice = target.prices[target.billingCycle];
+
+  // No paid period left to credit: a plain purchase
+  if (!current || current.periodEnd <= now) {
+    return {
+      kind: 'new',
+      timing: 'immediate',
+      billingCycle: target.billingCycle,
+      fullPrice: targetPrice,
+      credit: 0,
+      amountDue: targetPrice,
+      effectiveAt: now,
+      periodEnd: addBillingPeriod(now, target.billingCycle),
+      keepsCurrentPeriod: false,
+    };
+  }
+
+  if (tierDirection === 0 && current.billingCycle === target.billingCycle) {
+    return null;
+  }
+
+  const switchesToMonthly = current.billingCycle === 'annual' && target.billingCycle === 'monthly';
+
+  // Downgrades and annual -> monthly wait for the paid-up period to run out
+  if (tierDirection < 0 || (tierDirection === 0 && switchesToMonthly)) {
+    return {
+      kind: tierDirection < 0 ? 'downgrade' : 'billing_cycle_change',
+      timing: 'period_end',
+      billingCycle: target.billingCycle,
+      fullPrice: targetPrice,
+      credit: 0,
+      amountDue: 0,
+      effectiveAt: current.periodEnd,
+      periodEnd: addBillingPeriod(current.periodEnd, target.billingCycle),
+      keepsCurrentPeriod: false,
+    };
+  }
+
+  const credit = getUnusedCredit(current, now);
+  const kind: PlanChangeKind = tierDirection > 0 ? 'upgrade' : 'billing_cycle_change';
+
+  // Upgrade within the current period (an annual plan stays annual until renewal)
+  if (current.billingCycle === target.billingCycle || switchesToMonthly) {
+    const fullPrice = target.prices[current.billingCycle];
+    const amountDue = roundMoney(fullPrice * getRemainingFraction(current, now) - credit);
+
+    if (amountDue > 0) {
+      return {
+        kind,
+        timing: 'immediate',
+        billingCycle: current.billingCycle,
+        fullPrice,
+        credit,
+        amountDue,
+        effectiveAt: now,
+        periodEnd: current.periodEnd,
+        keepsCurrentPeriod: true,
+      };
+    }
+  }
+
+  // Monthly -> annual (or a period too close to its end to split): start a new period now
+  return {
+    kind,
+    timing: 'immediate',
+    billingCycle: target.billingCycle,
+    fullPrice: targetPrice,
+    credit,
+    amountDue: roundMoney(Math.max(0, targetPrice - credit)),
+    effectiveAt: now,
+    periodEnd: addBillingPeriod(now, target.billingCycle),
+    keepsCurrentPeriod: false,
+  };
+}
+
+/**
+ * Metadata persisted on the transaction for an immediate plan change
+ */
+export function toProrationMetadata(preview: ProrationPreview): ProrationMetadata {
+  return {
+    kind: preview.kind,
+    fullPrice: preview.fullPrice,
+    credit: preview.credit,
+    keepsCurrentPeriod: preview.keepsCurrentPeriod,
+    periodEnd: preview.periodEnd.toISOString(),
+  };
+}
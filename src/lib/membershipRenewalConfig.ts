@@ -0,0 +1,60 @@
+/**
+ * Membership Renewal Configuration
+ * Timing rules for recurring charges, dunning retries and grace periods.
+ * The payment edge functions (handlePaymentWebhookUnified and
+ * processMembershipRenewals) read the same values from their environment
+ * (RENEWAL_LEAD_DAYS, DUNNING_RETRY_DAYS, MEMBERSHIP_GRACE_PERIOD_DAYS) -
+ * keep the defaults in sync.
+ */
+
+import { BillingCycle, getBillingPeriodMonths } from './tierPricingConfig';
+
+export type SubscriptionStatus = 'active' | 'past_due' | 'canceled' | 'expired';
+
+export interface RenewalPolicy {
+  /** Days before the period ends that the renewal charge is attempted */
+  leadDays: number;
+  /** Days to wait after each failed attempt before retrying */
+  retryScheduleDays: number[];
+  /** Days of continued access after the period ends while dunning runs */
+  gracePeriodDays: number;
+}
+
+export const DEFAULT_RENEWAL_POLICY: RenewalPolicy = {
+  leadDays: 3,
+  retryScheduleDays: [1, 3, 5],
+  gracePeriodDays: 7,
+};
+
+/**
+ * Add one billing period to a date
+ */
+export function addBillingPeriod(from: Date, cycle: BillingCycle): Date {
+  const next = new Date(from);
+  next.setMonth(next.getMonth() + getBillingPeriodMonths(cycle));
+  return next;
+}
+
+/**
+ * When the first renewal attempt for a period should run
+ */
+export function getRenewalAttemptDate(
+  periodEnd: Date,
+  policy: RenewalPolicy = DEFAULT_RENEWAL_POLICY
+): Date {
+  return new Date(periodEnd.getTime() - policy.leadDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether the member still has paid access in the given subscription state
+ */
+export function hasActiveAccess(
+  status: SubscriptionStatus,
+  periodEnd: Date,
+  gracePeriodEndsAt: Date | null,
+  now: Date = new Date()
+): boolean {
+  if (status === 'expired') return false;
+  if (now <= periodEnd) return true;
+  return status === 'past_due' && !!gracePeriodEndsAt && now <= gracePeriodEndsAt;
+}
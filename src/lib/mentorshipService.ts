@@ -0,0 +1,413 @@
+import { supabase } from './supabase';
+import { CalendarInvite } from './calendarSyncService';
+
+export interface MentorProfile {
+  user_id: string;
+  display_name: string;
+  headline: string | null;
+  bio: string | null;
+  expertise: string[];
+  /** IANA timezone the availability windows are in */
+  timezone: string;
+  is_active: boolean;
+  slot_interval_minutes: number;
+  min_booking_notice_hours: number;
+  cancellation_notice_hours: number;
+  reschedule_notice_hours: number;
+  max_reschedules: number;
+}
+
+export interface MentorAvailabilityWindow {
+  id?: string;
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number;
+  /** "HH:MM" in the mentor's timezone */
+  start_time: string;
+  end_time: string;
+}
+
+export interface MentorSessionType {
+  id: string;
+  mentor_id: string;
+  title: string;
+  description: string | null;
+  duration_minutes: number;
+  price: number;
+  currency: string;
+  is_active: boolean;
+}
+
+export interface MentorWithSessionTypes extends MentorProfile {
+  session_types: MentorSessionType[];
+}
+
+export type MentorshipBookingStatus = 'pending_payment' | 'confirmed' | 'cancelled' | 'expired';
+
+export interface MentorshipBooking {
+  id: string;
+  mentor_id: string;
+  student_id: string;
+  session_type_id: string | null;
+  session_title: string;
+  mentor_name: string;
+  student_name: string;
+  starts_at: string;
+  ends_at: string;
+  status: MentorshipBookingStatus;
+  price: number;
+  currency: string;
+  hold_expires_at: string | null;
+  student_note: string | null;
+  meeting_url: string | null;
+  reschedule_count: number;
+  cancelled_by: string | null;
+  cancelled_at: string | null;
+  cancellation_reason: string | null;
+  refund_eligible: boolean;
+  created_at: string;
+}
+
+export interface MentorSlot {
+  slot_start: string;
+  slot_end: string;
+}
+
+/** How long a paid booking holds its slot while the student pays (book_mentorship_session) */
+export const MENTORSHIP_HOLD_MINUTES = 30;
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const PROFILE_COLUMNS =
+  'user_id, display_name, headline, bio, expertise, timezone, is_active, slot_interval_minutes, min_booking_notice_hours, cancellation_notice_hours, reschedule_notice_hours, max_reschedules';
+
+const SESSION_TYPE_COLUMNS = 'id, mentor_id, title, description, duration_minutes, price, currency, is_active';
+
+const BOOKING_COLUMNS =
+  'id, mentor_id, student_id, session_type_id, session_title, mentor_name, student_name, starts_at, ends_at, status, price, currency, hold_expires_at, student_note, meeting_url, reschedule_count, cancelled_by, cancelled_at, cancellation_reason, refund_eligible, created_at';
+
+/**
+ * Active mentors with the session types they offer
+ */
+export async function getMentors(): Promise<MentorWithSessionTypes[]> {
+  try {
+    const { data, error } = await supabase
+      .from('mentor_profiles')
+      .select(`${PROFILE_COLUMNS}, session_types:mentor_session_types(${SESSION_TYPE_COLUMNS})`)
+      .eq('is_active', true)
+      .order('display_name', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || [])
+      .map((mentor) => ({
+        ...mentor,
+        session_types: (mentor.session_types || []).filter((type: MentorSessionType) => type.is_active),
+      }))
+      .filter((mentor) => mentor.session_types.length > 0);
+  } catch (err) {
+    console.error('Error fetching mentors:', err);
+    return [];
+  }
+}
+
+/**
+ * A mentor's own profile, availability and session types (for editing)
+ */
+export async function getMentorSetup(userId: string): Promise<{
+  profile: MentorProfile | null;
+  availability: MentorAvailabilityWindow[];
+  sessionTypes: MentorSessionType[];
+}> {
+  try {
+    const [profileResult, availabilityResult, typesResult] = await Promise.all([
+      supabase.from('mentor_profiles').select(PROFILE_COLUMNS).eq('user_id', userId).maybeSingle(),
+      supabase
+        .from('mentor_availability')
+        .select('id, weekday, start_time, end_time')
+        .eq('mentor_id', userId)
+        .order('weekday', { ascending: true })
+        .order('start_time', { ascending: true }),
+      supabase
+        .from('mentor_session_types')
+        .select(SESSION_TYPE_COLUMNS)
+        .eq('mentor_id', userId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    if (profileResult.error) throw profileResult.error;
+    if (availabilityResult.error) throw availabilityResult.error;
+    if (typesResult.error) throw typesResult.error;
+
+    return {
+      profile: profileResult.data,
+      availability: (availabilityResult.data || []).map((window) => ({
+        ...window,
+        start_time: window.start_time.slice(0, 5),
+        end_time: window.end_time.slice(0, 5),
+      })),
+      sessionTypes: typesResult.data || [],
+    };
+  } catch (err) {
+    console.error('Error fetching mentor setup:', err);
+    return { profile: null, availability: [], sessionTypes: [] };
+  }
+}
+
+/**
+ * Save the mentor's profile, weekly availability and session types in
+ * one go. Availability is replaced wholesale; session types missing
+ * from the list are deactivated (bookings keep pointing at them).
+ */
+export async function saveMentorSetup(
+  userId: string,
+  profile: Omit<MentorProfile, 'user_id'>,
+  availability: MentorAvailabilityWindow[],
+  sessionTypes: (Omit<MentorSessionType, 'id' | 'mentor_id'> & { id?: string })[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!profile.display_name.trim()) {
+      return { success: false, error: 'Add the name students will see' };
+    }
+    if (availability.some((window) => window.end_time <= window.start_time)) {
+      return { success: false, error: 'Each availability window must end after it starts' };
+    }
+    if (sessionTypes.some((type) => !type.title.trim() || type.duration_minutes < 15 || type.price < 0)) {
+      return { success: false, error: 'Each session type needs a title, at least 15 minutes and a price of 0 or more' };
+    }
+
+    const { error: profileError } = await supabase
+      .from('mentor_profiles')
+      .upsert({ user_id: userId, ...profile, display_name: profile.display_name.trim() }, { onConflict: 'user_id' });
+
+    if (profileError) throw profileError;
+
+    const { error: deleteError } = await supabase.from('mentor_availability').delete().eq('mentor_id', userId);
+    if (deleteError) throw deleteError;
+
+    if (availability.length > 0) {
+      const { error: availabilityError } = await supabase.from('mentor_availability').insert(
+        availability.map((window) => ({
+          mentor_id: userId,
+          weekday: window.weekday,
+          start_time: window.start_time,
+          end_time: window.end_time,
+        }))
+      );
+
+      if (availabilityError) throw availabilityError;
+    }
+
+    const keptIds = sessionTypes.filter((type) => type.id).map((type) => type.id as string);
+    let deactivate = supabase.from('mentor_session_types').update({ is_active: false }).eq('mentor_id', userId);
+    if (keptIds.length > 0) {
+      deactivate = deactivate.not('id', 'in', `(${keptIds.join(',')})`);
+    }
+    const { error: deactivateError } = await deactivate;
+    if (deactivateError) throw deactivateError;
+
+    if (sessionTypes.length > 0) {
+      const { error: typesError } = await supabase.from('mentor_session_types').upsert(
+        sessionTypes.map((type) => ({
+          ...(type.id ? { id: type.id } : {}),
+          mentor_id: userId,
+          title: type.title.trim(),
+          description: type.description?.trim() || null,
+          duration_minutes: type.duration_minutes,
+          price: type.price,
+          currency: type.currency,
+          is_active: type.is_active,
+        }))
+      );
+
+      if (typesError) throw typesError;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error saving mentor setup:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save mentor settings',
+    };
+  }
+}
+
+/**
+ * Bookable start times for a session type, soonest first. Pass the
+ * booking being rescheduled so its own time counts as free.
+ */
+export async function getOpenSlots(
+  sessionTypeId: string,
+  options: { days?: number; excludeBookingId?: string } = {}
+): Promise<MentorSlot[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_mentor_open_slots', {
+      p_session_type_id: sessionTypeId,
+      p_days: options.days ?? 14,
+      p_exclude_booking_id: options.excludeBookingId || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching open slots:', err);
+    return [];
+  }
+}
+
+/**
+ * Book a slot. Free sessions come back confirmed; paid ones come back
+ * 'pending_payment' and hold the slot while the student checks out a
+ * 'mentorship_session' payment order for the booking.
+ */
+export async function bookMentorshipSession(
+  sessionTypeId: string,
+  startsAt: string,
+  note?: string
+): Promise<{ success: boolean; booking?: MentorshipBooking; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('book_mentorship_session', {
+      p_session_type_id: sessionTypeId,
+      p_starts_at: startsAt,
+      p_note: note || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, booking: data };
+  } catch (err) {
+    console.error('Error booking mentorship session:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to book session',
+    };
+  }
+}
+
+/**
+ * Bookings where the user is the student or the mentor, soonest first
+ */
+export async function getUserMentorshipBookings(userId: string): Promise<MentorshipBooking[]> {
+  try {
+    const { data, error } = await supabase
+      .from('mentorship_bookings')
+      .select(BOOKING_COLUMNS)
+      .or(`student_id.eq.${userId},mentor_id.eq.${userId}`)
+      .in('status', ['confirmed', 'cancelled', 'pending_payment'])
+      .order('starts_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching mentorship bookings:', err);
+    return [];
+  }
+}
+
+export async function cancelMentorshipBooking(
+  bookingId: string,
+  reason?: string
+): Promise<{ success: boolean; booking?: MentorshipBooking; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('cancel_mentorship_booking', {
+      p_booking_id: bookingId,
+      p_reason: reason || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, booking: data };
+  } catch (err) {
+    console.error('Error cancelling mentorship booking:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to cancel booking',
+    };
+  }
+}
+
+export async function rescheduleMentorshipBooking(
+  bookingId: string,
+  startsAt: string
+): Promise<{ success: boolean; booking?: MentorshipBooking; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('reschedule_mentorship_booking', {
+      p_booking_id: bookingId,
+      p_starts_at: startsAt,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, booking: data };
+  } catch (err) {
+    console.error('Error rescheduling mentorship booking:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to reschedule booking',
+    };
+  }
+}
+
+/**
+ * Mentor's meeting link for a booking
+ */
+export async function setBookingMeetingUrl(
+  bookingId: string,
+  meetingUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('mentorship_bookings')
+      .update({ meeting_url: meetingUrl.trim() || null })
+      .eq('id', bookingId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error saving meeting link:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save meeting link',
+    };
+  }
+}
+
+/**
+ * Calendar invite for either side of a booking. The uid stays the same
+ * across reschedules so calendars update the existing entry.
+ */
+export function getBookingCalendarInvite(booking: MentorshipBooking, viewerId: string): CalendarInvite {
+  const isMentor = booking.mentor_id === viewerId;
+  const otherParty = isMentor ? booking.student_name || 'your student' : booking.mentor_name || 'your mentor';
+
+  return {
+    uid: `mentorship-${booking.id}@eventapp`,
+    title: `${booking.session_title} with ${otherParty}`,
+    description: [booking.student_note, booking.meeting_url ? `Join: ${booking.meeting_url}` : null]
+      .filter(Boolean)
+      .join('\n\n'),
+    location: booking.meeting_url || 'Online',
+    start: new Date(booking.starts_at),
+    end: new Date(booking.ends_at),
+    organizerName: booking.mentor_name || 'Mentor',
+    sequence: booking.reschedule_count,
+    cancelled: booking.status === 'cancelled',
+  };
+}
@@ -1,10 +1,14 @@
 /**
  * Payment Methods Configuration
- * Maps user-facing payment methods to their underlying payment gateways
+ * Maps user-facing payment methods to their underlying payment gateways.
+ * Which methods can collect which currency comes from the pricing catalog
+ * price books (see pricingCatalogService).
  */
 
+import type { PriceBook } from './pricingCatalogService';
+
 export type PaymentMethodType = 'card' | 'mobile_money' | 'express_pay';
-export type PaymentGateway = 'eversend' | 'flutterwave';
+export type PaymentGateway = 'eversend' | 'flutterwave' | 'sandbox';
 
 export interface PaymentMethod {
   id: PaymentMethodType;
@@ -13,7 +17,6 @@ export interface PaymentMethod {
   icon: string;
   primaryGateway: PaymentGateway;
   secondaryGateway?: PaymentGateway;
-  supportedCurrencies: string[];
   trustSignals: string[];
   tips: string;
 }
@@ -26,7 +29,6 @@ export const PAYMENT_METHODS: Record<PaymentMethodType, PaymentMethod> = {
     icon: '💳',
     primaryGateway: 'eversend',
     secondaryGateway: 'flutterwave',
-    supportedCurrencies: ['UGX', 'USD', 'GHS', 'KES', 'TZS'],
     trustSignals: ['Visa', 'Mastercard', 'Secure'],
     tips: 'Use your credit or debit card for instant payment.',
   },
@@ -37,7 +39,6 @@ export const PAYMENT_METHODS: Record<PaymentMethodType, PaymentMethod> = {
     icon: '📲',
     primaryGateway: 'eversend',
     secondaryGateway: 'flutterwave',
-    supportedCurrencies: ['UGX', 'KES', 'TZS', 'GHS'],
     trustSignals: ['M-Pesa', 'Airtel Money', 'Secure'],
     tips: 'Quick and secure payment using your mobile money account.',
   },
@@ -48,7 +49,6 @@ export const PAYMENT_METHODS: Record<PaymentMethodType, PaymentMethod> = {
     icon: '💳',
     primaryGateway: 'flutterwave',
     secondaryGateway: 'eversend',
-    supportedCurrencies: ['UGX', 'USD', 'EUR', 'GBP', 'KES', 'GHS'],
     trustSignals: ['PayPal', 'Google Pay', 'Apple Pay'],
     tips: 'Fast and secure digital wallet payments.',
   },
@@ -58,10 +58,13 @@ export const PAYMENT_METHOD_OPTIONS = Object.values(PAYMENT_METHODS);
 
 /**
  * Get the appropriate gateway for a payment method
+ * Set VITE_PAYMENT_GATEWAY=sandbox to route every method through the
+ * offline sandbox gateway during local development.
  * @param method The selected payment method
  * @returns The gateway to use (primary or secondary)
  */
 export function selectGateway(method: PaymentMethodType): PaymentGateway {
+  if (import.meta.env.VITE_PAYMENT_GATEWAY === 'sandbox') return 'sandbox';
   const paymentMethod = PAYMENT_METHODS[method];
   if (!paymentMethod) return 'eversend';
   return paymentMethod.primaryGateway;
@@ -69,13 +72,14 @@ export function selectGateway(method: PaymentMethodType): PaymentGateway {
 
 
 /**
- * Validate payment method for currency
+ * Validate payment method for currency against the price books
  */
 export function isMethodSupportedForCurrency(
   method: PaymentMethodType,
-  currency: string
+  currency: string,
+  priceBooks: PriceBook[]
 ): boolean {
-  const paymentMethod = PAYMENT_METHODS[method];
-  if (!paymentMethod) return false;
-  return paymentMethod.supportedCurrencies.includes(currency);
+  const priceBook = priceBooks.find((book) => book.currency === currency.toUpperCase());
+  if (!priceBook) return false;
+  return priceBook.supported_payment_methods.includes(method);
 }
@@ -1,12 +1,37 @@
 /**
  * Payment Orchestration Service
  * Handles all payment processing with proper error handling, retries, and audit trails
- * Works with Flutterwave and Eversend payment gateways
+ * Works with Flutterwave and Eversend payment gateways (and the offline sandbox gateway)
+ *
+ * Every purchasable item goes through here: memberships are membership
+ * transactions, one-off purchases (course enrollments, event tickets,
+ * workshop seats, mentorship sessions, tips) are payment orders that the payment webhook fulfils.
  */
 
 import { supabase } from './supabase';
-import { PaymentMethodType } from './paymentMethodConfig';
-import { MembershipTier, BillingCycle } from './tierPricingConfig';
+import { PaymentMethodType, PaymentGateway, selectGateway } from './paymentMethodConfig';
+import {
+  MembershipTier,
+  BillingCycle,
+  getTierPrice as getCreatorTierPrice,
+  getTierRank as getCreatorTierRank,
+} from './tierPricingConfig';
+import {
+  MemberTier,
+  getTierPrice as getMemberTierPrice,
+  getTierRank as getMemberTierRank,
+} from './memberTierPricingConfig';
+import {
+  SubscriptionStatus,
+  DEFAULT_RENEWAL_POLICY,
+  addBillingPeriod,
+  getRenewalAttemptDate,
+} from './membershipRenewalConfig';
+import {
+  ProrationMetadata,
+  ProrationPreview,
+  previewPlanChange,
+} from './membershipProrationConfig';
 
 export interface PaymentInitRequest {
   userId: string;
@@ -21,11 +46,17 @@ export interface PaymentInitRequest {
   userAgent?: string;
   ipAddress?: string;
   membershipType?: 'creator' | 'member';
+  /** Set when changing plan mid-cycle; amount is then the prorated charge */
+  proration?: ProrationMetadata;
+  /** Promo codes (not combinable with proration); amount is then the discounted price */
+  promoCodes?: string[];
 }
 
 export interface PaymentInitResponse {
   success: boolean;
   transactionId?: string;
+  /** Set for payment orders (one-off purchases) */
+  orderId?: string;
   sessionId?: string;
   checkoutUrl?: string;
   error?: string;
@@ -33,7 +64,7 @@ export interface PaymentInitResponse {
 }
 
 export interface WebhookPayload {
-  source: 'eversend' | 'flutterwave';
+  source: PaymentGateway;
   eventId: string;
   eventType: string;
   transactionId: string;
@@ -42,6 +73,166 @@ export interface WebhookPayload {
   payload: any;
 }
 
+export interface MembershipSubscription {
+  id: string;
+  user_id: string;
+  membership_type: 'creator' | 'member';
+  tier: string;
+  billing_cycle: BillingCycle;
+  amount: number;
+  currency: string;
+  payment_method: PaymentMethodType;
+  gateway: PaymentGateway;
+  status: SubscriptionStatus;
+  current_period_start: string;
+  current_period_end: string;
+  cancel_at_period_end: boolean;
+  grace_period_days: number;
+  grace_period_ends_at: string | null;
+  dunning_attempts: number;
+  next_renewal_attempt_at: string | null;
+  last_renewal_transaction_id: string | null;
+  last_renewal_error: string | null;
+  canceled_at: string | null;
+  downgraded_at: string | null;
+  scheduled_tier: string | null;
+  scheduled_billing_cycle: BillingCycle | null;
+  scheduled_amount: number | null;
+  scheduled_change_requested_at: string | null;
+}
+
+export type RefundablePaymentType =
+  | 'creator_membership'
+  | 'member_membership'
+  | 'course_enrollment';
+
+export interface RefundRequest {
+  paymentType: RefundablePaymentType;
+  paymentId: string;
+  /** Omit to refund the full remaining balance */
+  amount?: number;
+  reason: string;
+}
+
+export interface RefundResponse {
+  success: boolean;
+  refundId?: string;
+  status?: 'processing';
+  amount?: number;
+  currency?: string;
+  isFullRefund?: boolean;
+  error?: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  payment_type: RefundablePaymentType;
+  payment_id: string;
+  user_id: string;
+  amount: number;
+  currency: string;
+  is_full_refund: boolean;
+  reason: string;
+  gateway: string;
+  gateway_refund_id: string | null;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  error_message: string | null;
+  requested_by: string | null;
+  requested_at: string;
+  completed_at: string | null;
+  failed_at: string | null;
+}
+
+export type PurchasableItemType =
+  | 'creator_membership'
+  | 'member_membership'
+  | 'course_enrollment'
+  | 'event_ticket'
+  | 'workshop_registration'
+  | 'mentorship_session'
+  | 'learning_path'
+  | 'tip';
+
+export type OrderItemType = Exclude<PurchasableItemType, 'creator_membership' | 'member_membership'>;
+
+/**
+ * A one-off purchase. The price is checked server-side against the pricing
+ * catalog; amount is what the buyer was shown (or the tip they chose).
+ */
+export interface OrderPurchaseRequest {
+  itemType: OrderItemType;
+  /**
+   * Course id, event id, workshop session id, mentorship booking id,
+   * learning path id, or the creator name for tips
+   */
+  itemRef: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethodType;
+  email: string;
+  phoneNumber: string;
+  userName: string;
+  promoCodes?: string[];
+  /** Tip message */
+  message?: string;
+  /** Event ticket type, for events that sell ticket types */
+  ticketTypeId?: string;
+  /** Number of tickets; amount is the total for all of them */
+  quantity?: number;
+}
+
+export type PurchasableItem =
+  | { itemType: 'creator_membership' | 'member_membership'; membership: PaymentInitRequest }
+  | OrderPurchaseRequest;
+
+export type PaymentOrderStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'expired'
+  | 'refunded'
+  | 'partially_refunded';
+
+export interface PaymentOrder {
+  id: string;
+  user_id: string;
+  item_type: OrderItemType;
+  item_ref: string;
+  item_title: string | null;
+  list_price: number;
+  discount_amount: number;
+  amount: number;
+  currency: string;
+  promo_code_ids: string[];
+  payment_method: PaymentMethodType;
+  gateway: PaymentGateway;
+  status: PaymentOrderStatus;
+  fulfillment_id: string | null;
+  fulfilled_at: string | null;
+  refunded_amount: number;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface MembershipTransactionRecord {
+  id: string;
+  user_id: string;
+  new_tier: string;
+  amount: number;
+  currency: string;
+  billing_cycle: BillingCycle;
+  payment_method: PaymentMethodType;
+  gateway: PaymentGateway;
+  is_renewal?: boolean;
+  metadata?: { email?: string; phoneNumber?: string; proration?: ProrationMetadata } | null;
+}
+
+const PAYMENT_API_URL =
+  'https://nwzbtrueqjwsriymvwqa.supabase.co/functions/v1/initializePaymentUnified';
+
 export class PaymentOrchestration {
   /**
    * Get the appropriate table name based on membership type
@@ -148,6 +339,7 @@ export class PaymentOrchestration {
       await this.updateTransactionWithGatewayDetails(
         transactionId,
         paymentResponse,
+        request,
         membershipType
       );
 
@@ -213,8 +405,11 @@ export class PaymentOrchestration {
       return { valid: false, error: 'Invalid amount' };
     }
 
+    // Same tier is only allowed when switching monthly -> annual
+    const isCycleChange = request.proration?.kind === 'billing_cycle_change';
+
     // Validate tier upgrade
-    if (request.currentTier === request.targetTier) {
+    if (request.currentTier === request.targetTier && !isCycleChange) {
       return { valid: false, error: 'Already on this tier' };
     }
 
@@ -234,8 +429,8 @@ export class PaymentOrchestration {
       return { valid: false, error: 'Invalid tier specified' };
     }
 
-    if (targetTierOrder <= currentTierOrder) {
-      return { valid: false, error: 'Can only upgrade to higher tiers' };
+    if (targetTierOrder < currentTierOrder || (targetTierOrder === currentTierOrder && !isCycleChange)) {
+      return { valid: false, error: 'Downgrades take effect at the end of the billing period' };
     }
 
     // Validate email
@@ -264,7 +459,7 @@ export class PaymentOrchestration {
         currency: 'USD',
         billing_cycle: request.billingCycle,
         payment_method: request.paymentMethod,
-        gateway: this.selectGateway(request.paymentMethod),
+        gateway: selectGateway(request.paymentMethod),
         status: 'pending',
         payment_status: 'pending',
         idempotency_key: idempotencyKey,
@@ -272,8 +467,10 @@ export class PaymentOrchestration {
         user_agent: request.userAgent,
         initiated_at: new Date().toISOString(),
         metadata: {
+          email: request.email,
           phoneNumber: request.phoneNumber,
           userName: request.userName,
+          proration: request.proration,
         },
       };
 
@@ -316,30 +513,29 @@ export class PaymentOrchestration {
       }
 
       // Call the unified backend API (Supabase Edge Function)
-      const response = await fetch(
-        'https://nwzbtrueqjwsriymvwqa.supabase.co/functions/v1/initializePaymentUnified',
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${session.access_token}`,
-            'Idempotency-Key': idempotencyKey,
-          },
-          body: JSON.stringify({
-            membershipType,
-            userId: request.userId,
-            targetTier: request.targetTier,
-            previousTier: request.currentTier,
-            amount: request.amount,
-            billingCycle: request.billingCycle,
-            paymentMethod: request.paymentMethod,
-            email: request.email,
-            phoneNumber: request.phoneNumber,
-            userName: request.userName,
-            idempotencyKey,
-          }),
-        }
-      );
+      const response = await fetch(PAYMENT_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+          'Idempotency-Key': idempotencyKey,
+        },
+        body: JSON.stringify({
+          membershipType,
+          userId: request.userId,
+          targetTier: request.targetTier,
+          previousTier: request.currentTier,
+          amount: request.amount,
+          billingCycle: request.billingCycle,
+          paymentMethod: request.paymentMethod,
+          email: request.email,
+          phoneNumber: request.phoneNumber,
+          userName: request.userName,
+          proration: request.proration,
+          promoCodes: request.promoCodes,
+          idempotencyKey,
+        }),
+      });
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -374,6 +570,7 @@ export class PaymentOrchestration {
   private static async updateTransactionWithGatewayDetails(
     transactionId: string,
     paymentResponse: any,
+    request: PaymentInitRequest,
     membershipType: 'creator' | 'member' = 'creator'
   ): Promise<void> {
     try {
@@ -386,6 +583,9 @@ export class PaymentOrchestration {
           transaction_id: paymentResponse.transactionReference,
           reference_id: paymentResponse.transactionReference,
           metadata: {
+            email: request.email,
+            phoneNumber: request.phoneNumber,
+            userName: request.userName,
             checkoutUrl: paymentResponse.checkoutUrl,
             sessionId: paymentResponse.sessionId,
           },
@@ -550,9 +750,14 @@ export class PaymentOrchestration {
         })
         .eq('id', transaction.user_id);
 
+      // Start or extend the recurring subscription for this tier
+      const subscriptionId = await this.activateSubscription(transaction, membershipType);
+
       // Log audit event
       await this.logAuditEvent(transactionId, 'complete', 'processing', 'completed', membershipType, {
         gatewayTransactionId,
+        subscriptionId,
+        isRenewal: !!transaction.is_renewal,
       });
 
       // Send confirmation email (implement this)
@@ -562,6 +767,89 @@ export class PaymentOrchestration {
     }
   }
 
+  /**
+   * Start a subscription on first payment, or roll it into the next period on renewal.
+   * Clears any dunning state so the renewal job treats it as healthy again.
+   */
+  private static async activateSubscription(
+    transaction: MembershipTransactionRecord,
+    membershipType: 'creator' | 'member' = 'creator'
+  ): Promise<string | null> {
+    try {
+      const { data: existing } = await supabase
+        .from('membership_subscriptions')
+        .select('id, current_period_start, current_period_end, grace_period_days')
+        .eq('user_id', transaction.user_id)
+        .eq('membership_type', membershipType)
+        .maybeSingle();
+
+      // Renewals continue from the old period end so paying early never loses days
+      const now = new Date();
+      const proration = transaction.metadata?.proration;
+      const previousEnd = existing ? new Date(existing.current_period_end) : null;
+      let periodStart =
+        transaction.is_renewal && previousEnd && previousEnd > now ? previousEnd : now;
+      let periodEnd = addBillingPeriod(periodStart, transaction.billing_cycle);
+
+      // Prorated upgrades only paid the difference for the rest of the current period
+      if (proration?.keepsCurrentPeriod && existing) {
+        periodStart = new Date(existing.current_period_start);
+        periodEnd = new Date(existing.current_period_end);
+      }
+
+      const { data, error } = await supabase
+        .from('membership_subscriptions')
+        .upsert(
+          {
+            user_id: transaction.user_id,
+            membership_type: membershipType,
+            tier: transaction.new_tier,
+            billing_cycle: transaction.billing_cycle,
+            amount: proration?.fullPrice ?? transaction.amount,
+            currency: transaction.currency,
+            payment_method: transaction.payment_method,
+            gateway: transaction.gateway,
+            email: transaction.metadata?.email ?? null,
+            phone_number: transaction.metadata?.phoneNumber ?? null,
+            status: 'active',
+            current_period_start: periodStart.toISOString(),
+            current_period_end: periodEnd.toISOString(),
+            cancel_at_period_end: false,
+            grace_period_days: existing?.grace_period_days ?? DEFAULT_RENEWAL_POLICY.gracePeriodDays,
+            grace_period_ends_at: null,
+            dunning_attempts: 0,
+            next_renewal_attempt_at: getRenewalAttemptDate(periodEnd).toISOString(),
+            last_renewal_transaction_id: transaction.is_renewal ? transaction.id : null,
+            last_renewal_error: null,
+            canceled_at: null,
+            downgraded_at: null,
+            scheduled_tier: null,
+            scheduled_billing_cycle: null,
+            scheduled_amount: null,
+            scheduled_change_requested_at: null,
+          },
+          { onConflict: 'user_id,membership_type' }
+        )
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('Failed to activate subscription:', error);
+        return null;
+      }
+
+      await supabase
+        .from(this.getTableName(membershipType))
+        .update({ subscription_id: data.id })
+        .eq('id', transaction.id);
+
+      return data.id;
+    } catch (error) {
+      console.error('Error activating subscription:', error);
+      return null;
+    }
+  }
+
   /**
    * Fail payment
    */
@@ -585,16 +873,22 @@ export class PaymentOrchestration {
 
   /**
    * Get transaction status (for polling)
+   * Refunded payments report 'refunded' or 'partially_refunded'
    */
   static async getTransactionStatus(
     transactionId: string
-  ): Promise<{ status: string; paymentStatus: string; error?: string } | null> {
+  ): Promise<{
+    status: string;
+    paymentStatus: string;
+    refundedAmount: number;
+    error?: string;
+  } | null> {
     try {
       // Try creators_membership first
       try {
         const { data: creatorData } = await supabase
           .from('creators_membership')
-          .select('status, payment_status, error_message')
+          .select('status, payment_status, refunded_amount, error_message')
           .eq('id', transactionId)
           .single();
 
@@ -602,6 +896,7 @@ export class PaymentOrchestration {
           return {
             status: creatorData.status,
             paymentStatus: creatorData.payment_status,
+            refundedAmount: Number(creatorData.refunded_amount ?? 0),
             error: creatorData.error_message,
           };
         }
@@ -613,7 +908,7 @@ export class PaymentOrchestration {
       try {
         const { data: memberData } = await supabase
           .from('members_membership')
-          .select('status, payment_status, error_message')
+          .select('status, payment_status, refunded_amount, error_message')
           .eq('id', transactionId)
           .single();
 
@@ -621,6 +916,7 @@ export class PaymentOrchestration {
           return {
             status: memberData.status,
             paymentStatus: memberData.payment_status,
+            refundedAmount: Number(memberData.refunded_amount ?? 0),
             error: memberData.error_message,
           };
         }
@@ -636,14 +932,367 @@ export class PaymentOrchestration {
   }
 
   /**
-   * Select gateway based on payment method
+   * Start checkout for any purchasable item. Memberships use
+   * initializePayment; one-off purchases become payment orders that are
+   * fulfilled once the gateway's webhook confirms the payment.
+   */
+  static async initializePurchase(item: PurchasableItem): Promise<PaymentInitResponse> {
+    if ('membership' in item) {
+      return this.initializePayment({
+        ...item.membership,
+        membershipType: item.itemType === 'member_membership' ? 'member' : 'creator',
+      });
+    }
+
+    try {
+      if (!item.amount || item.amount <= 0) {
+        return { success: false, error: 'Invalid amount', errorCode: 'VALIDATION_FAILED' };
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session) {
+        return { success: false, error: 'User session not found', errorCode: 'AUTH_ERROR' };
+      }
+
+      const idempotencyKey = this.generateIdempotencyKey(
+        item.userId,
+        `${item.itemType}-${item.itemRef}`,
+        Date.now()
+      );
+
+      const response = await fetch(PAYMENT_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+          'Idempotency-Key': idempotencyKey,
+        },
+        body: JSON.stringify({
+          itemType: item.itemType,
+          itemRef: item.itemRef,
+          currency: item.currency,
+          expectedAmount: item.amount,
+          promoCodes: item.promoCodes,
+          message: item.message,
+          ticketTypeId: item.ticketTypeId,
+          quantity: item.quantity,
+          paymentMethod: item.paymentMethod,
+          email: item.email,
+          phoneNumber: item.phoneNumber,
+          userName: item.userName,
+          idempotencyKey,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        return {
+          success: false,
+          error: data.error || 'Payment initialization failed',
+          errorCode: data.errorCode || 'GATEWAY_ERROR',
+        };
+      }
+
+      return {
+        success: true,
+        orderId: data.orderId,
+        checkoutUrl: data.checkoutUrl,
+      };
+    } catch (error) {
+      console.error('Purchase initialization error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        errorCode: 'INTERNAL_ERROR',
+      };
+    }
+  }
+
+  /**
+   * Get a payment order (for polling after checkout)
+   */
+  static async getOrder(orderId: string): Promise<PaymentOrder | null> {
+    try {
+      const { data, error } = await supabase
+        .from('payment_orders')
+        .select('*')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching payment order:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching payment order:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Issue a full or partial refund (admin only, enforced by the edge function).
+   * The refund stays 'processing' until the gateway's refund webhook settles
+   * it; the tier or enrollment is revoked once the settled refunds cover
+   * the whole payment.
    */
-  private static selectGateway(paymentMethod: PaymentMethodType): 'eversend' | 'flutterwave' {
-    const gatewayMap: Record<PaymentMethodType, 'eversend' | 'flutterwave'> = {
-      card: 'eversend',
-      mobile_money: 'eversend',
-      express_pay: 'flutterwave',
-    };
-    return gatewayMap[paymentMethod] || 'eversend';
+  static async refundPayment(request: RefundRequest): Promise<RefundResponse> {
+    try {
+      if (!request.reason?.trim()) {
+        return { success: false, error: 'A refund reason is required' };
+      }
+
+      if (request.amount !== undefined && request.amount <= 0) {
+        return { success: false, error: 'Invalid refund amount' };
+      }
+
+      const { data, error } = await supabase.functions.invoke('refundPayment', {
+        body: request,
+      });
+
+      if (error) {
+        return { success: false, error: error.message || 'Refund request failed' };
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Refund request error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Refund request failed',
+      };
+    }
+  }
+
+  /**
+   * List refunds issued against a payment, newest first
+   */
+  static async getRefunds(
+    paymentType: RefundablePaymentType,
+    paymentId: string
+  ): Promise<PaymentRefund[]> {
+    try {
+      const { data, error } = await supabase
+        .from('payment_refunds')
+        .select('*')
+        .eq('payment_type', paymentType)
+        .eq('payment_id', paymentId)
+        .order('requested_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Download a day's payment reconciliation report as CSV (admin only,
+   * enforced by the reconcilePayments edge function)
+   * @param date YYYY-MM-DD, defaults to today (UTC)
+   */
+  static async downloadReconciliationReport(
+    date: string = new Date().toISOString().slice(0, 10)
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke(
+        `reconcilePayments?date=${encodeURIComponent(date)}`,
+        { method: 'GET' }
+      );
+
+      if (error) {
+        return { success: false, error: error.message || 'Failed to load reconciliation report' };
+      }
+
+      const blob = new Blob([data], { type: 'text/csv;charset=utf-8' });
+      const link = document.createElement('a');
+      const url = URL.createObjectURL(blob);
+
+      link.setAttribute('href', url);
+      link.setAttribute('download', `reconciliation-${date}.csv`);
+      link.style.visibility = 'hidden';
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      URL.revokeObjectURL(url);
+      return { success: true };
+    } catch (error) {
+      console.error('Reconciliation report error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load reconciliation report',
+      };
+    }
+  }
+
+  /**
+   * Get the user's recurring subscription for a membership type
+   */
+  static async getSubscription(
+    userId: string,
+    membershipType: 'creator' | 'member' = 'creator'
+  ): Promise<MembershipSubscription | null> {
+    try {
+      const { data, error } = await supabase
+        .from('membership_subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('membership_type', membershipType)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching subscription:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error fetching subscription:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Turn auto-renew on or off. Turning it off keeps access until the
+   * current period ends, after which the renewal job downgrades the tier.
+   */
+  static async setAutoRenew(
+    subscriptionId: string,
+    autoRenew: boolean
+  ): Promise<{ success: boolean; subscription?: MembershipSubscription; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('set_membership_auto_renew', {
+        p_subscription_id: subscriptionId,
+        p_auto_renew: autoRenew,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, subscription: data };
+    } catch (error) {
+      console.error('Error updating auto-renew:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update auto-renew',
+      };
+    }
+  }
+
+  /**
+   * Price a plan change against the user's current subscription
+   * (see getSubscription). Returns null when the target is the plan they
+   * already have.
+   * @param catalogPrices Target tier prices from the pricing catalog;
+   * defaults to the tier pricing config
+   */
+  static previewPlanChange(
+    subscription: MembershipSubscription | null,
+    membershipType: 'creator' | 'member',
+    currentTier: string,
+    targetTier: string,
+    targetCycle: BillingCycle,
+    catalogPrices?: Record<BillingCycle, number>
+  ): ProrationPreview | null {
+    const prices: Record<BillingCycle, number> =
+      catalogPrices ??
+      (membershipType === 'member'
+        ? {
+            monthly: getMemberTierPrice(targetTier as MemberTier, 'monthly'),
+            annual: getMemberTierPrice(targetTier as MemberTier, 'annual'),
+          }
+        : {
+            monthly: getCreatorTierPrice(targetTier as MembershipTier, 'monthly'),
+            annual: getCreatorTierPrice(targetTier as MembershipTier, 'annual'),
+          });
+    const tierDirection =
+      membershipType === 'member'
+        ? getMemberTierRank(targetTier as MemberTier) - getMemberTierRank(currentTier as MemberTier)
+        : getCreatorTierRank(targetTier as MembershipTier) -
+          getCreatorTierRank(currentTier as MembershipTier);
+
+    // Only a paid-up subscription on the current tier earns credit
+    const current =
+      subscription &&
+      ['active', 'past_due'].includes(subscription.status) &&
+      subscription.tier === currentTier
+        ? {
+            tier: subscription.tier,
+            billingCycle: subscription.billing_cycle,
+            amount: Number(subscription.amount),
+            periodStart: new Date(subscription.current_period_start),
+            periodEnd: new Date(subscription.current_period_end),
+          }
+        : null;
+
+    return previewPlanChange(
+      current,
+      { tier: targetTier, billingCycle: targetCycle, prices },
+      tierDirection
+    );
+  }
+
+  /**
+   * Schedule a downgrade or annual -> monthly switch for the next renewal,
+   * renewing at the catalog price of the new plan
+   */
+  static async schedulePlanChange(
+    subscriptionId: string,
+    tier: string,
+    billingCycle: BillingCycle
+  ): Promise<{ success: boolean; subscription?: MembershipSubscription; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('schedule_membership_change', {
+        p_subscription_id: subscriptionId,
+        p_tier: tier,
+        p_billing_cycle: billingCycle,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, subscription: data };
+    } catch (error) {
+      console.error('Error scheduling plan change:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to schedule plan change',
+      };
+    }
+  }
+
+  /**
+   * Drop a scheduled plan change; the subscription renews on its current plan
+   */
+  static async cancelScheduledPlanChange(
+    subscriptionId: string
+  ): Promise<{ success: boolean; subscription?: MembershipSubscription; error?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('cancel_scheduled_membership_change', {
+        p_subscription_id: subscriptionId,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, subscription: data };
+    } catch (error) {
+      console.error('Error canceling scheduled plan change:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel scheduled plan change',
+      };
+    }
   }
 }
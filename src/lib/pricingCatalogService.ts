@@ -0,0 +1,154 @@
+import { supabase } from './supabase';
+import { PaymentMethodType } from './paymentMethodConfig';
+import { BillingCycle, getTierPrice as getCreatorTierPrice, MembershipTier } from './tierPricingConfig';
+import { getTierPrice as getMemberTierPrice, MemberTier } from './memberTierPricingConfig';
+
+/**
+ * Pricing Catalog Service
+ * Reads price books and effective-dated prices from the pricing catalog
+ * (database/026_pricing_catalog.sql) for memberships, courses and event tickets.
+ */
+
+export type CatalogProductType = 'creator_membership' | 'member_membership' | 'course' | 'event_ticket';
+export type CatalogBillingCycle = 'one_time' | BillingCycle;
+
+export interface PriceBook {
+  currency: string;
+  name: string;
+  symbol: string | null;
+  decimal_places: number;
+  supported_payment_methods: PaymentMethodType[];
+  is_default: boolean;
+  is_active: boolean;
+}
+
+export interface CatalogPrice {
+  product_id: string;
+  product_type: CatalogProductType;
+  product_ref: string;
+  name: string;
+  price_id: string;
+  currency: string;
+  billing_cycle: CatalogBillingCycle;
+  amount: number;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+// Memberships are sold from the USD price book
+export const MEMBERSHIP_CURRENCY = 'USD';
+
+const PRICE_BOOKS_CACHE_MS = 5 * 60 * 1000;
+let priceBooksCache: { books: PriceBook[]; loadedAt: number } | null = null;
+
+/**
+ * Get all active price books (cached for a few minutes)
+ */
+export async function getPriceBooks(forceRefresh = false): Promise<PriceBook[]> {
+  if (!forceRefresh && priceBooksCache && Date.now() - priceBooksCache.loadedAt < PRICE_BOOKS_CACHE_MS) {
+    return priceBooksCache.books;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('price_books')
+      .select('currency, name, symbol, decimal_places, supported_payment_methods, is_default, is_active')
+      .eq('is_active', true)
+      .order('currency');
+
+    if (error) throw error;
+
+    const books = (data || []) as PriceBook[];
+    priceBooksCache = { books, loadedAt: Date.now() };
+    return books;
+  } catch (error) {
+    console.error('Error fetching price books:', error);
+    return priceBooksCache?.books || [];
+  }
+}
+
+/**
+ * Get the price book for a currency
+ */
+export async function getPriceBook(currency: string): Promise<PriceBook | null> {
+  const books = await getPriceBooks();
+  return books.find((book) => book.currency === currency.toUpperCase()) || null;
+}
+
+/**
+ * Get the price of a product in a price book at a point in time (now by default)
+ * @returns null when the product has no price in that currency
+ */
+export async function getCatalogPrice(
+  productType: CatalogProductType,
+  productRef: string,
+  currency: string,
+  billingCycle: CatalogBillingCycle = 'one_time',
+  at?: Date
+): Promise<number | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_catalog_price', {
+      p_product_type: productType,
+      p_product_ref: productRef,
+      p_currency: currency.toUpperCase(),
+      p_billing_cycle: billingCycle,
+      ...(at ? { p_at: at.toISOString() } : {}),
+    });
+
+    if (error) throw error;
+    return data === null || data === undefined ? null : Number(data);
+  } catch (error) {
+    console.error('Error fetching catalog price:', error);
+    return null;
+  }
+}
+
+/**
+ * Get every current price of a product across price books and billing cycles
+ */
+export async function getProductPrices(
+  productType: CatalogProductType,
+  productRef: string
+): Promise<CatalogPrice[]> {
+  try {
+    const { data, error } = await supabase
+      .from('current_catalog_prices')
+      .select('*')
+      .eq('product_type', productType)
+      .eq('product_ref', productRef);
+
+    if (error) throw error;
+
+    return ((data || []) as CatalogPrice[]).map((price) => ({
+      ...price,
+      amount: Number(price.amount),
+    }));
+  } catch (error) {
+    console.error('Error fetching product prices:', error);
+    return [];
+  }
+}
+
+/**
+ * Get monthly and annual prices for a membership tier.
+ * Falls back to the tier pricing config when the catalog has no price.
+ */
+export async function getMembershipPrices(
+  membershipType: 'creator' | 'member',
+  tier: string
+): Promise<Record<BillingCycle, number>> {
+  const fallback = (cycle: BillingCycle) =>
+    membershipType === 'creator'
+      ? getCreatorTierPrice(tier as MembershipTier, cycle)
+      : getMemberTierPrice(tier as MemberTier, cycle);
+
+  const prices = await getProductPrices(`${membershipType}_membership`, tier);
+  const priceFor = (cycle: BillingCycle) =>
+    prices.find((price) => price.currency === MEMBERSHIP_CURRENCY && price.billing_cycle === cycle)?.amount
+    ?? fallback(cycle);
+
+  return {
+    monthly: priceFor('monthly'),
+    annual: priceFor('annual'),
+  };
+}
@@ -1,79 +1,134 @@
 import { supabase } from './supabase';
 
+export type PromoItemType =
+  | 'course_enrollment'
+  | 'event_ticket'
+  | 'creator_membership'
+  | 'member_membership';
+
 export interface PromoCode {
   id: string;
   code: string;
-  discount_percentage?: number;
-  discount_amount?: number;
-  max_uses?: number;
+  description?: string | null;
+  discount_percentage?: number | null;
+  discount_amount?: number | null;
+  max_uses?: number | null;
   current_uses: number;
   valid_from: string;
   valid_until: string;
-  course_id?: string;
+  course_id?: string | null;
+  applies_to: PromoItemType[];
+  item_refs?: string[] | null;
+  currency?: string | null;
+  min_order_amount?: number | null;
+  max_uses_per_user?: number | null;
+  first_purchase_only: boolean;
+  is_stackable: boolean;
+  batch_id?: string | null;
   is_active: boolean;
   created_by: string;
   created_at: string;
 }
 
-export interface DiscountResult {
+export interface AppliedPromoCode {
+  id: string;
+  code: string;
+  discount_amount: number;
+}
+
+export interface PromoEvaluation {
   valid: boolean;
-  discount_percentage?: number;
-  discount_amount?: number;
-  final_price?: number;
   error?: string;
+  /** Code the error is about */
+  code?: string;
+  list_amount?: number;
+  discount_amount?: number;
+  final_amount?: number;
+  codes?: AppliedPromoCode[];
+}
+
+export interface CreatePromoCodeInput {
+  code: string;
+  description?: string;
+  discountPercentage?: number | null;
+  discountAmount?: number | null;
+  validFrom: Date;
+  validUntil: Date;
+  appliesTo?: PromoItemType[];
+  /** Course ids, event ids or membership tiers; empty = any */
+  itemRefs?: string[];
+  currency?: string;
+  minOrderAmount?: number;
+  maxUses?: number;
+  maxUsesPerUser?: number;
+  firstPurchaseOnly?: boolean;
+  isStackable?: boolean;
+}
+
+export interface PromoCodeBatch {
+  id: string;
+  template_id: string | null;
+  name: string;
+  partner_name: string | null;
+  quantity: number;
+  created_by: string;
+  created_at: string;
+}
+
+export interface PromoCodeAnalytics {
+  promo_code_id: string;
+  code: string;
+  batch_id: string | null;
+  is_active: boolean;
+  currency: string | null;
+  uses: number;
+  unique_users: number;
+  gross_amount: number;
+  discount_amount: number;
+  net_revenue: number;
+  first_redeemed_at: string | null;
+  last_redeemed_at: string | null;
 }
 
+/** Codes that can be combined in one purchase (when all are stackable) */
+export const MAX_STACKED_PROMO_CODES = 3;
+
 /**
- * Validate and apply promo code to an enrollment
+ * Price a purchase with one or more promo codes. The same database
+ * function re-checks the codes before checkout, so this is the price the
+ * buyer will be charged.
  */
-export async function validatePromoCode(
-  code: string,
-  courseId: string,
-  originalPrice: number
-): Promise<DiscountResult> {
+export async function evaluatePromoCodes(
+  codes: string[],
+  purchase: {
+    itemType: PromoItemType;
+    itemRef: string;
+    amount: number;
+    currency: string;
+  }
+): Promise<PromoEvaluation> {
   try {
-    if (!code || !code.trim()) {
+    const cleaned = codes.map((code) => code.trim().toUpperCase()).filter(Boolean);
+    if (cleaned.length === 0) {
       return { valid: false, error: 'Promo code is required' };
     }
 
-    // Call the database function to validate
-    const { data, error } = await supabase.rpc('validate_promo_code', {
-      p_code: code.trim().toUpperCase(),
-      p_course_id: courseId,
+    const { data, error } = await supabase.rpc('evaluate_promo_codes', {
+      p_codes: cleaned,
+      p_item_type: purchase.itemType,
+      p_item_ref: purchase.itemRef,
+      p_amount: purchase.amount,
+      p_currency: purchase.currency,
     });
 
     if (error) {
-      console.error('Promo code validation error:', error);
+      console.error('Promo code evaluation error:', error);
       return { valid: false, error: 'Failed to validate promo code' };
     }
 
-    if (!data || data.length === 0 || !data[0].valid) {
-      return {
-        valid: false,
-        error: 'Invalid or expired promo code',
-      };
-    }
-
-    const promoData = data[0];
-    let discountAmount = 0;
-
-    // Calculate discount
-    if (promoData.discount_percentage) {
-      discountAmount = (originalPrice * promoData.discount_percentage) / 100;
-    } else if (promoData.discount_amount) {
-      discountAmount = promoData.discount_amount;
-    }
-
-    const finalPrice = Math.max(0, originalPrice - discountAmount);
-
-    return {
-      valid: true,
-      discount_percentage: promoData.discount_percentage,
-      discount_amount: promoData.discount_amount,
-      final_price: finalPrice,
-    };
+    return data as PromoEvaluation;
   } catch (err) {
-    console.error('Promo code validation exception:', err);
+    console.error('Promo code evaluation exception:', err);
     return {
       valid: false,
       error: err instanceof Error ? err.message : 'Validation failed',
@@ -81,50 +136,6 @@ export async function validatePromoCode(
   }
 }
 
-/**
- * Record promo code usage
- */
-export async function applyPromoCodeToEnrollment(
-  enrollmentId: string,
-  promoCodeId: string,
-  discountAmount: number
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Add enrollment-promo code relationship
-    const { error: insertError } = await supabase
-      .from('enrollment_promo_codes')
-      .insert([
-        {
-          enrollment_id: enrollmentId,
-          promo_code_id: promoCodeId,
-          discount_amount: discountAmount,
-        },
-      ]);
-
-    if (insertError) {
-      throw insertError;
-    }
-
-    // Increment promo code usage count
-    const { error: updateError } = await supabase.rpc('increment_promo_usage', {
-      p_promo_id: promoCodeId,
-    });
-
-    if (updateError && updateError.code !== 'PGRST116') {
-      // Non-critical error if function doesn't exist
-      console.warn('Could not increment promo usage:', updateError);
-    }
-
-    return { success: true };
-  } catch (err) {
-    console.error('Promo code application error:', err);
-    return {
-      success: false,
-      error: err instanceof Error ? err.message : 'Failed to apply promo code',
-    };
-  }
-}
-
 /**
  * Get all active promo codes (for display)
  */
@@ -141,7 +152,10 @@ export async function getActivePromoCodes(
 
     if (courseId) {
       // Get promo codes for this course or all courses
-      query = query.or(`course_id.is.null,course_id.eq.${courseId}`);
+      query = query
+        .contains('applies_to', ['course_enrollment'])
+        .or(`course_id.is.null,course_id.eq.${courseId}`)
+        .or(`item_refs.is.null,item_refs.cs.{${courseId}}`);
     }
 
     const { data, error } = await query.order('created_at', {
@@ -160,45 +174,58 @@ export async function getActivePromoCodes(
 }
 
 /**
- * Create promo code (admin function)
+ * Create a promo code. Creators can issue codes for their own courses;
+ * admins can issue codes for any purchase type.
  */
 export async function createPromoCode(
-  code: string,
-  discountPercentage: number | null,
-  discountAmount: number | null,
-  validFrom: Date,
-  validUntil: Date,
-  maxUses?: number,
-  courseId?: string,
-  userId?: string
+  input: CreatePromoCodeInput,
+  userId: string
 ): Promise<{ success: boolean; promoCode?: PromoCode; error?: string }> {
   try {
-    if (!code || !code.trim()) {
+    if (!input.code || !input.code.trim()) {
       return { success: false, error: 'Code is required' };
     }
 
-    if (!discountPercentage && !discountAmount) {
+    if (!input.discountPercentage === !input.discountAmount) {
       return {
         success: false,
-        error: 'Either discount percentage or amount is required',
+        error: 'Set either a discount percentage or a discount amount',
       };
     }
 
-    if (validFrom >= validUntil) {
+    if (input.discountAmount && !input.currency) {
+      return { success: false, error: 'A fixed discount needs a currency' };
+    }
+
+    if (input.validFrom >= input.validUntil) {
       return { success: false, error: 'Valid from date must be before valid until date' };
     }
 
+    const appliesTo = input.appliesTo?.length ? input.appliesTo : ['course_enrollment'];
+    // A code for one course is stored on course_id (what creators may issue)
+    const singleCourse =
+      appliesTo.length === 1 && appliesTo[0] === 'course_enrollment' && input.itemRefs?.length === 1;
+    const itemRefs = input.itemRefs?.length && !singleCourse ? input.itemRefs : null;
+
     const { data, error } = await supabase
       .from('promo_codes')
       .insert([
         {
-          code: code.trim().toUpperCase(),
-          discount_percentage: discountPercentage,
-          discount_amount: discountAmount,
-          max_uses: maxUses || null,
-          valid_from: validFrom.toISOString(),
-          valid_until: validUntil.toISOString(),
-          course_id: courseId || null,
+          code: input.code.trim().toUpperCase(),
+          description: input.description || null,
+          discount_percentage: input.discountPercentage || null,
+          discount_amount: input.discountAmount || null,
+          max_uses: input.maxUses || null,
+          max_uses_per_user: input.maxUsesPerUser || null,
+          min_order_amount: input.minOrderAmount || null,
+          currency: input.currency || null,
+          first_purchase_only: !!input.firstPurchaseOnly,
+          is_stackable: !!input.isStackable,
+          applies_to: appliesTo,
+          item_refs: itemRefs,
+          course_id: singleCourse ? input.itemRefs![0] : null,
+          valid_from: input.validFrom.toISOString(),
+          valid_until: input.validUntil.toISOString(),
           is_active: true,
           created_by: userId,
         },
@@ -220,6 +247,92 @@ export async function createPromoCode(
   }
 }
 
+/**
+ * Promo codes the user created (their own and partner batch codes)
+ */
+export async function getMyPromoCodes(userId: string): Promise<PromoCode[]> {
+  try {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .eq('created_by', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching promo codes:', err);
+    return [];
+  }
+}
+
+/**
+ * Generate single-use partner codes from a template code. Each code copies
+ * the template's discount and rules and can be redeemed once.
+ */
+export async function generatePromoCodeBatch(
+  templateId: string,
+  quantity: number,
+  partnerName?: string
+): Promise<{ success: boolean; batch?: PromoCodeBatch; codes?: string[]; error?: string }> {
+  try {
+    const { data: batch, error } = await supabase.rpc('generate_promo_code_batch', {
+      p_template_id: templateId,
+      p_quantity: quantity,
+      p_partner_name: partnerName || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const { data: codes, error: codesError } = await supabase
+      .from('promo_codes')
+      .select('code')
+      .eq('batch_id', batch.id)
+      .order('code');
+
+    if (codesError) {
+      throw codesError;
+    }
+
+    return { success: true, batch, codes: (codes || []).map((row) => row.code) };
+  } catch (err) {
+    console.error('Promo code batch error:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to generate promo codes',
+    };
+  }
+}
+
+/**
+ * Redemptions and revenue impact of the caller's codes, per code and
+ * currency. Filter by one code or one partner batch.
+ */
+export async function getPromoCodeAnalytics(
+  filter: { promoCodeId?: string; batchId?: string } = {}
+): Promise<PromoCodeAnalytics[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_promo_code_analytics', {
+      p_promo_code_id: filter.promoCodeId || null,
+      p_batch_id: filter.batchId || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching promo code analytics:', err);
+    return [];
+  }
+}
+
 /**
  * Update promo code status
  */
@@ -283,23 +396,17 @@ export async function getCourseDiscount(courseId: string): Promise<number> {
 export function calculateFinalPrice(
   originalPrice: number,
   courseDiscount: number = 0,
-  promoDiscount?: DiscountResult
+  promo?: PromoEvaluation
 ): number {
-  let finalPrice = originalPrice;
+  // Promo codes are priced from the list price and replace the course discount
+  if (promo && promo.valid && promo.final_amount !== undefined) {
+    return Math.max(0, promo.final_amount);
+  }
 
-  // Apply course discount first
+  let finalPrice = originalPrice;
   if (courseDiscount > 0) {
     finalPrice -= (originalPrice * courseDiscount) / 100;
   }
 
-  // Apply promo discount (overrides course discount if both exist)
-  if (promoDiscount && promoDiscount.valid) {
-    if (promoDiscount.discount_percentage) {
-      finalPrice = originalPrice - (originalPrice * promoDiscount.discount_percentage) / 100;
-    } else if (promoDiscount.discount_amount) {
-      finalPrice = originalPrice - promoDiscount.discount_amount;
-    }
-  }
-
   return Math.max(0, finalPrice);
 }
@@ -0,0 +1,338 @@
+import { supabase } from './supabase';
+import { EnrollmentProgress } from './lessonProgressService';
+
+export type QuizQuestionType = 'multiple_choice' | 'multi_select' | 'short_answer';
+
+export interface QuizOption {
+  id: string;
+  text: string;
+}
+
+export interface CourseQuiz {
+  id: string;
+  course_id: string;
+  /** Both null for a final course assessment */
+  section_id: string | null;
+  lesson_id: string | null;
+  title: string;
+  description: string | null;
+  pass_mark_percent: number;
+  /** null means unlimited */
+  max_attempts: number | null;
+  /** null means every question in the bank */
+  questions_per_attempt: number | null;
+  is_required: boolean;
+  position: number;
+}
+
+/** A question as authored, including its answers (course owners only) */
+export interface QuizQuestion {
+  id: string;
+  question_type: QuizQuestionType;
+  prompt: string;
+  options: QuizOption[];
+  correct_option_ids: string[];
+  accepted_answers: string[];
+  points: number;
+  explanation: string | null;
+}
+
+export interface EditableQuiz extends CourseQuiz {
+  questions: QuizQuestion[];
+}
+
+/** The current user's standing on a quiz */
+export interface QuizStatus extends CourseQuiz {
+  attempts_used: number;
+  best_score_percent: number | null;
+  passed: boolean;
+  has_attempt_in_progress: boolean;
+}
+
+/** A question as shown to a student during an attempt */
+export interface AttemptQuestion {
+  id: string;
+  question_type: QuizQuestionType;
+  prompt: string;
+  options: QuizOption[];
+  points: number;
+}
+
+export interface QuizAttempt {
+  attempt_id: string;
+  attempt_number: number;
+  max_attempts: number | null;
+  pass_mark_percent: number;
+  questions: AttemptQuestion[];
+}
+
+/** Option ids for choice questions, text for short answers */
+export type QuizAnswers = Record<string, string[] | string>;
+
+export interface QuizResult {
+  attempt_id: string;
+  attempt_number: number;
+  score_points: number;
+  max_points: number;
+  score_percent: number;
+  passed: boolean;
+  pass_mark_percent: number;
+  results: { question_id: string; is_correct: boolean; explanation: string | null }[];
+  /** Set when the attempt passed and enrollment progress was refreshed */
+  enrollment_progress: EnrollmentProgress | null;
+}
+
+const QUIZ_COLUMNS =
+  'id, course_id, section_id, lesson_id, title, description, pass_mark_percent, max_attempts, questions_per_attempt, is_required, position';
+
+/**
+ * Quizzes of a course with the current user's attempts summarised
+ */
+export async function getCourseQuizzes(courseId: string, userId?: string): Promise<QuizStatus[]> {
+  try {
+    const { data: quizzes, error } = await supabase
+      .from('course_quizzes')
+      .select(QUIZ_COLUMNS)
+      .eq('course_id', courseId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    if (!quizzes || quizzes.length === 0) {
+      return [];
+    }
+
+    let attempts: { quiz_id: string; status: string; score_percent: number | null; passed: boolean | null }[] = [];
+    if (userId) {
+      const { data: attemptRows, error: attemptsError } = await supabase
+        .from('quiz_attempts')
+        .select('quiz_id, status, score_percent, passed')
+        .eq('user_id', userId)
+        .in(
+          'quiz_id',
+          quizzes.map((quiz) => quiz.id)
+        );
+
+      if (attemptsError) {
+        throw attemptsError;
+      }
+      attempts = attemptRows || [];
+    }
+
+    return quizzes.map((quiz) => {
+      const quizAttempts = attempts.filter((attempt) => attempt.quiz_id === quiz.id);
+      const scores = quizAttempts
+        .filter((attempt) => attempt.score_percent !== null)
+        .map((attempt) => Number(attempt.score_percent));
+
+      return {
+        ...quiz,
+        attempts_used: quizAttempts.length,
+        best_score_percent: scores.length > 0 ? Math.max(...scores) : null,
+        passed: quizAttempts.some((attempt) => attempt.passed),
+        has_attempt_in_progress: quizAttempts.some((attempt) => attempt.status === 'in_progress'),
+      };
+    });
+  } catch (err) {
+    console.error('Error fetching course quizzes:', err);
+    return [];
+  }
+}
+
+/**
+ * Quizzes of a course with their full question banks, for authoring
+ */
+export async function getQuizzesForEditing(courseId: string): Promise<EditableQuiz[]> {
+  try {
+    const { data, error } = await supabase
+      .from('course_quizzes')
+      .select(
+        `${QUIZ_COLUMNS}, quiz_questions(id, question_type, prompt, options, correct_option_ids, accepted_answers, points, explanation, position)`
+      )
+      .eq('course_id', courseId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(({ quiz_questions, ...quiz }) => ({
+      ...quiz,
+      questions: [...(quiz_questions || [])]
+        .sort((a, b) => a.position - b.position)
+        .map((question) => question as QuizQuestion),
+    }));
+  } catch (err) {
+    console.error('Error fetching quizzes for editing:', err);
+    return [];
+  }
+}
+
+/**
+ * Save a quiz and its question bank as authored; questions no longer
+ * present are deleted
+ */
+export async function saveQuiz(quiz: EditableQuiz): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (quiz.questions.some((question) => !question.prompt.trim())) {
+      return { success: false, error: 'Every question needs a prompt' };
+    }
+
+    const invalidQuestion = quiz.questions.find((question) =>
+      question.question_type === 'short_answer'
+        ? question.accepted_answers.filter((answer) => answer.trim()).length === 0
+        : question.correct_option_ids.length === 0 ||
+          (question.question_type === 'multiple_choice' && question.correct_option_ids.length !== 1)
+    );
+    if (invalidQuestion) {
+      return { success: false, error: `"${invalidQuestion.prompt}" needs a correct answer` };
+    }
+
+    const { questions, ...quizFields } = quiz;
+
+    const { error: quizError } = await supabase.from('course_quizzes').upsert({
+      ...quizFields,
+      title: quiz.title.trim() || 'Quiz',
+    });
+    if (quizError) throw quizError;
+
+    const questionIds = questions.map((question) => question.id);
+    let deleteQuestions = supabase.from('quiz_questions').delete().eq('quiz_id', quiz.id);
+    if (questionIds.length > 0) {
+      deleteQuestions = deleteQuestions.not('id', 'in', `(${questionIds.join(',')})`);
+    }
+    const { error: deleteError } = await deleteQuestions;
+    if (deleteError) throw deleteError;
+
+    if (questions.length > 0) {
+      const { error: questionsError } = await supabase.from('quiz_questions').upsert(
+        questions.map((question, index) => ({
+          ...question,
+          quiz_id: quiz.id,
+          prompt: question.prompt.trim(),
+          options: question.question_type === 'short_answer' ? [] : question.options,
+          correct_option_ids: question.question_type === 'short_answer' ? [] : question.correct_option_ids,
+          accepted_answers:
+            question.question_type === 'short_answer'
+              ? question.accepted_answers.map((answer) => answer.trim()).filter(Boolean)
+              : [],
+          position: index,
+        }))
+      );
+      if (questionsError) throw questionsError;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error saving quiz:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save quiz',
+    };
+  }
+}
+
+export async function deleteQuiz(quizId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.from('course_quizzes').delete().eq('id', quizId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error deleting quiz:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to delete quiz',
+    };
+  }
+}
+
+/**
+ * Start a new attempt, or resume the one in progress
+ */
+export async function startQuizAttempt(
+  quizId: string
+): Promise<{ success: boolean; attempt?: QuizAttempt; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('start_quiz_attempt', {
+      p_quiz_id: quizId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, attempt: data as QuizAttempt };
+  } catch (err) {
+    console.error('Error starting quiz attempt:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to start quiz',
+    };
+  }
+}
+
+export async function submitQuizAttempt(
+  attemptId: string,
+  answers: QuizAnswers
+): Promise<{ success: boolean; result?: QuizResult; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('submit_quiz_attempt', {
+      p_attempt_id: attemptId,
+      p_answers: answers,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, result: data as QuizResult };
+  } catch (err) {
+    console.error('Error submitting quiz attempt:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to submit quiz',
+    };
+  }
+}
+
+export function newQuiz(courseId: string, position: number): EditableQuiz {
+  return {
+    id: crypto.randomUUID(),
+    course_id: courseId,
+    section_id: null,
+    lesson_id: null,
+    title: '',
+    description: null,
+    pass_mark_percent: 70,
+    max_attempts: null,
+    questions_per_attempt: null,
+    is_required: true,
+    position,
+    questions: [],
+  };
+}
+
+export function newQuizQuestion(questionType: QuizQuestionType): QuizQuestion {
+  return {
+    id: crypto.randomUUID(),
+    question_type: questionType,
+    prompt: '',
+    options:
+      questionType === 'short_answer'
+        ? []
+        : [
+            { id: crypto.randomUUID(), text: '' },
+            { id: crypto.randomUUID(), text: '' },
+          ],
+    correct_option_ids: [],
+    accepted_answers: [],
+    points: 1,
+    explanation: null,
+  };
+}
@@ -0,0 +1,117 @@
+import { supabase } from './supabase';
+
+export type ReferralStatus = 'signed_up' | 'converted';
+export type ReferralRewardType = 'loyalty_points' | 'account_credit';
+export type ReferralPayoutStatus = 'pending' | 'paid' | 'cancelled';
+
+export interface Referral {
+  referral_id: string;
+  referred_name: string;
+  status: ReferralStatus;
+  signed_up_at: string;
+  converted_item_type: 'creator_membership' | 'member_membership' | 'course_enrollment' | null;
+  converted_at: string | null;
+  reward_type: ReferralRewardType | null;
+  reward_points: number | null;
+  reward_credit_amount: number | null;
+  reward_credit_currency: string | null;
+  payout_status: ReferralPayoutStatus | null;
+  paid_at: string | null;
+}
+
+export interface ReferralRewardRule {
+  item_type: 'creator_membership' | 'member_membership' | 'course_enrollment';
+  reward_type: ReferralRewardType;
+  points: number;
+  credit_amount: number;
+  credit_currency: string;
+  is_active: boolean;
+}
+
+// Where a ?ref= code waits until the visitor signs up
+const PENDING_REFERRAL_KEY = 'pending_referral_code';
+
+/**
+ * The user's persistent referral code (created on first request)
+ */
+export async function getMyReferralCode(): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_my_referral_code');
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  } catch (err) {
+    console.error('Error fetching referral code:', err);
+    return null;
+  }
+}
+
+export function buildReferralLink(code: string): string {
+  return `${window.location.origin}/signup?ref=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Referrals made by the current user, with their reward and payout status
+ */
+export async function getMyReferrals(): Promise<Referral[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_my_referrals');
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching referrals:', err);
+    return [];
+  }
+}
+
+export async function getReferralRewardRules(): Promise<ReferralRewardRule[]> {
+  try {
+    const { data, error } = await supabase
+      .from('referral_reward_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching referral reward rules:', err);
+    return [];
+  }
+}
+
+/**
+ * Remember a ?ref= code so it survives navigating away before signing up
+ */
+export function storePendingReferralCode(code: string): void {
+  try {
+    localStorage.setItem(PENDING_REFERRAL_KEY, code.trim().toUpperCase());
+  } catch {
+    // localStorage might be unavailable, ignore
+  }
+}
+
+export function getPendingReferralCode(): string | null {
+  try {
+    return localStorage.getItem(PENDING_REFERRAL_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function clearPendingReferralCode(): void {
+  try {
+    localStorage.removeItem(PENDING_REFERRAL_KEY);
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,242 @@
+import { supabase } from './supabase';
+import { isUserEnrolled } from './enrollmentService';
+
+export type ReviewStatus = 'published' | 'hidden';
+
+export interface CourseReview {
+  id: string;
+  course_id: string;
+  user_id: string;
+  reviewer_name: string;
+  rating: number;
+  title: string | null;
+  body: string | null;
+  status: ReviewStatus;
+  moderation_reason: string | null;
+  instructor_reply: string | null;
+  instructor_reply_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Star counts keyed '1' to '5' */
+export type RatingDistribution = Record<'1' | '2' | '3' | '4' | '5', number>;
+
+export interface CourseRatingSummary {
+  rating_average: number;
+  rating_count: number;
+  rating_distribution: RatingDistribution;
+}
+
+export interface ReviewInput {
+  rating: number;
+  title?: string;
+  body?: string;
+}
+
+const REVIEW_COLUMNS =
+  'id, course_id, user_id, reviewer_name, rating, title, body, status, moderation_reason, instructor_reply, instructor_reply_at, created_at, updated_at';
+
+export const EMPTY_RATING_SUMMARY: CourseRatingSummary = {
+  rating_average: 0,
+  rating_count: 0,
+  rating_distribution: { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 },
+};
+
+/**
+ * Reviews of a course, newest first. Everyone sees published reviews;
+ * the course owner and admins also get hidden ones (RLS).
+ */
+export async function getCourseReviews(courseId: string, limit?: number): Promise<CourseReview[]> {
+  try {
+    let query = supabase
+      .from('course_reviews')
+      .select(REVIEW_COLUMNS)
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching course reviews:', err);
+    return [];
+  }
+}
+
+/**
+ * Best published written reviews of a course, for testimonials
+ */
+export async function getFeaturedReviews(courseId: string, limit = 3): Promise<CourseReview[]> {
+  try {
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .select(REVIEW_COLUMNS)
+      .eq('course_id', courseId)
+      .eq('status', 'published')
+      .not('body', 'is', null)
+      .neq('body', '')
+      .order('rating', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching featured reviews:', err);
+    return [];
+  }
+}
+
+export async function getCourseRatingSummary(courseId: string): Promise<CourseRatingSummary> {
+  try {
+    const { data, error } = await supabase
+      .from('masterclass_page_content')
+      .select('rating_average, rating_count, rating_distribution')
+      .eq('id', courseId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      rating_average: Number(data.rating_average) || 0,
+      rating_count: data.rating_count || 0,
+      rating_distribution: { ...EMPTY_RATING_SUMMARY.rating_distribution, ...data.rating_distribution },
+    };
+  } catch (err) {
+    console.error('Error fetching course rating:', err);
+    return EMPTY_RATING_SUMMARY;
+  }
+}
+
+/**
+ * Write or update the user's review of a course. Only enrolled students
+ * can review; the database enforces the same rule.
+ */
+export async function saveReview(
+  userId: string,
+  courseId: string,
+  review: ReviewInput
+): Promise<{ success: boolean; review?: CourseReview; error?: string }> {
+  try {
+    if (!Number.isInteger(review.rating) || review.rating < 1 || review.rating > 5) {
+      return { success: false, error: 'Choose a rating from 1 to 5 stars' };
+    }
+
+    const enrolled = await isUserEnrolled(userId, courseId);
+    if (!enrolled) {
+      return { success: false, error: 'Only students enrolled in this course can review it' };
+    }
+
+    const { data, error } = await supabase
+      .from('course_reviews')
+      .upsert(
+        {
+          course_id: courseId,
+          user_id: userId,
+          rating: review.rating,
+          title: review.title?.trim() || null,
+          body: review.body?.trim() || null,
+        },
+        { onConflict: 'course_id,user_id' }
+      )
+      .select(REVIEW_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true, review: data };
+  } catch (err) {
+    console.error('Error saving review:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save review',
+    };
+  }
+}
+
+export async function deleteReview(reviewId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.from('course_reviews').delete().eq('id', reviewId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error deleting review:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to delete review',
+    };
+  }
+}
+
+/**
+ * Course owner's reply to a review; an empty reply removes it
+ */
+export async function replyToReview(reviewId: string, reply: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('reply_to_course_review', {
+      p_review_id: reviewId,
+      p_reply: reply,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error replying to review:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save reply',
+    };
+  }
+}
+
+/**
+ * Hide a review from the course page and its rating, or publish it again (admins)
+ */
+export async function moderateReview(
+  reviewId: string,
+  status: ReviewStatus,
+  reason?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('moderate_course_review', {
+      p_review_id: reviewId,
+      p_status: status,
+      p_reason: reason || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error moderating review:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to update review',
+    };
+  }
+}
@@ -76,6 +76,14 @@ export function getEffectiveMonthlyRate(
   return months > 0 ? price / months : 0;
 }
 
+/**
+ * Position of a tier in the upgrade order (higher = more expensive)
+ */
+export function getTierRank(tier: MembershipTier): number {
+  const tierOrder: Record<MembershipTier, number> = { free: 0, premium: 1, professional: 2, elite: 3 };
+  return tierOrder[tier] ?? -1;
+}
+
 /**
  * Check if upgrade is valid (can only upgrade to higher tiers)
  */
@@ -83,8 +91,7 @@ export function isValidUpgrade(
   currentTier: MembershipTier,
   targetTier: MembershipTier
 ): boolean {
-  const tierOrder = { free: 0, premium: 1, professional: 2, elite: 3 };
-  return tierOrder[targetTier] > tierOrder[currentTier];
+  return getTierRank(targetTier) > getTierRank(currentTier);
 }
 
 /**
@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+
+/**
+ * Webhook Inbox Service
+ * Admin view of the durable webhook inbox (database/028_webhook_inbox.sql):
+ * inspect stored events, find dead-lettered ones and replay them.
+ * Row level security limits reads to admins.
+ */
+
+export type WebhookInboxSource = 'eversend' | 'flutterwave' | 'sandbox' | 'mux';
+export type WebhookInboxStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead_letter';
+
+export interface WebhookInboxEvent {
+  id: string;
+  source: WebhookInboxSource;
+  event_key: string;
+  event_type: string | null;
+  payload: Record<string, unknown>;
+  status: WebhookInboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  received_at: string;
+  processed_at: string | null;
+  dead_lettered_at: string | null;
+  replay_count: number;
+  replayed_at: string | null;
+  replayed_by: string | null;
+}
+
+export interface WebhookInboxFilter {
+  status?: WebhookInboxStatus;
+  source?: WebhookInboxSource;
+  limit?: number;
+}
+
+/**
+ * List inbox events, newest first
+ */
+export async function listWebhookEvents(filter: WebhookInboxFilter = {}): Promise<WebhookInboxEvent[]> {
+  try {
+    let query = supabase
+      .from('webhook_inbox')
+      .select('*')
+      .order('received_at', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.source) query = query.eq('source', filter.source);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as WebhookInboxEvent[];
+  } catch (error) {
+    console.error('Error fetching webhook events:', error);
+    return [];
+  }
+}
+
+/**
+ * Events that ran out of attempts and wait for an admin
+ */
+export async function getDeadLetterEvents(limit = 50): Promise<WebhookInboxEvent[]> {
+  return listWebhookEvents({ status: 'dead_letter', limit });
+}
+
+/**
+ * Queue an event for processing again with fresh attempts
+ */
+export async function replayWebhookEvent(
+  eventId: string
+): Promise<{ success: boolean; event?: WebhookInboxEvent; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('replay_webhook_event', {
+      p_event_id: eventId,
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, event: data as WebhookInboxEvent };
+  } catch (error) {
+    console.error('Error replaying webhook event:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to replay webhook event',
+    };
+  }
+}
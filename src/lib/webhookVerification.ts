@@ -5,6 +5,7 @@
  */
 
 import crypto from 'crypto';
+import { supabase } from './supabase';
 
 export class WebhookVerification {
   /**
@@ -177,14 +178,34 @@ export class WebhookVerification {
 
   /**
    * Check for webhook replay attacks
-   * Ensures same webhook isn't processed twice
+   * Ensures same webhook isn't processed twice: every verified webhook is
+   * stored in webhook_inbox under (source, event key) before processing,
+   * so a key that is already there is a redelivery.
+   * Requires admin or service-role access to webhook_inbox.
    */
   static async checkWebhookReplay(
     eventId: string,
     source: string
   ): Promise<{ isReplay: boolean; message?: string }> {
-    // Webhook replay detection is handled by unified webhook handlers
-    // (handlePaymentWebhookUnified for creators/members membership)
+    const { data, error } = await supabase
+      .from('webhook_inbox')
+      .select('id, status, received_at')
+      .eq('source', source)
+      .eq('event_key', eventId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Webhook replay check failed:', error);
+      return { isReplay: false, message: error.message };
+    }
+
+    if (data) {
+      return {
+        isReplay: true,
+        message: `Event already received at ${data.received_at} (${data.status})`,
+      };
+    }
+
     return { isReplay: false };
   }
 
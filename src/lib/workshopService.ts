@@ -0,0 +1,480 @@
+import { supabase } from './supabase';
+
+export type WorkshopStatus = 'scheduled' | 'cancelled';
+
+export interface WorkshopSession {
+  id: string;
+  host_id: string;
+  host_name: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  location: string | null;
+  /** UTC; shown in the viewer's timezone and the host's */
+  starts_at: string;
+  duration_minutes: number;
+  /** IANA timezone the host scheduled in */
+  timezone: string;
+  capacity: number;
+  price: number;
+  currency: string;
+  status: WorkshopStatus;
+  registered_count: number;
+  has_recording: boolean;
+  created_at: string;
+}
+
+export interface WorkshopRegistration {
+  id: string;
+  session_id: string;
+  user_id: string;
+  registrant_name: string;
+  status: 'registered' | 'cancelled';
+  price_paid: number;
+  currency: string | null;
+  /** null until known: set when the registrant joins, or by the host */
+  attended: boolean | null;
+  joined_at: string | null;
+  created_at: string;
+}
+
+export interface WorkshopSessionInput {
+  title: string;
+  description?: string;
+  category?: string;
+  location?: string;
+  starts_at: string;
+  duration_minutes: number;
+  timezone: string;
+  capacity: number;
+  price: number;
+  currency: string;
+  join_url?: string;
+}
+
+const SESSION_COLUMNS =
+  'id, host_id, host_name, title, description, category, location, starts_at, duration_minutes, timezone, capacity, price, currency, status, registered_count, has_recording, created_at';
+
+const REGISTRATION_COLUMNS =
+  'id, session_id, user_id, registrant_name, status, price_paid, currency, attended, joined_at, created_at';
+
+/** Past sessions stay listed this long so registrants can find the replay */
+const RECENT_SESSION_DAYS = 30;
+
+/** The join link opens this long before the start (join_workshop_session) */
+export const WORKSHOP_JOIN_WINDOW_MINUTES = 15;
+
+export const WORKSHOP_TIMEZONES = [
+  'Africa/Kampala',
+  'Africa/Nairobi',
+  'Africa/Kigali',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Los_Angeles',
+  'Asia/Dubai',
+  'UTC',
+];
+
+export function getBrowserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function getWorkshopEndTime(session: Pick<WorkshopSession, 'starts_at' | 'duration_minutes'>): Date {
+  return new Date(new Date(session.starts_at).getTime() + session.duration_minutes * 60 * 1000);
+}
+
+export function isWorkshopOver(session: Pick<WorkshopSession, 'starts_at' | 'duration_minutes'>): boolean {
+  return getWorkshopEndTime(session).getTime() < Date.now();
+}
+
+/**
+ * Whether registrants can join now: from the join window before the start
+ * until the session ends
+ */
+export function isWorkshopJoinable(session: Pick<WorkshopSession, 'starts_at' | 'duration_minutes'>): boolean {
+  const opensAt = new Date(session.starts_at).getTime() - WORKSHOP_JOIN_WINDOW_MINUTES * 60 * 1000;
+  return Date.now() >= opensAt && !isWorkshopOver(session);
+}
+
+/**
+ * Start time in the given timezone (the viewer's by default),
+ * e.g. "Sat, Mar 15, 2:00 PM GMT+3"
+ */
+export function formatWorkshopTime(startsAt: string, timeZone?: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  }).format(new Date(startsAt));
+}
+
+function zonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  return Object.fromEntries(
+    parts.filter((part) => part.type !== 'literal').map((part) => [part.type, Number(part.value)])
+  );
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function timezoneOffset(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Convert a datetime-local value ("2026-03-15T14:00") entered in the
+ * given timezone to a UTC ISO string
+ */
+export function zonedInputToUtc(localValue: string, timeZone: string): string {
+  const [datePart, timePart = '00:00'] = localValue.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hour, minute] = timePart.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Second pass settles wall clock times next to a DST change
+  let utc = wallClock - timezoneOffset(new Date(wallClock), timeZone);
+  utc = wallClock - timezoneOffset(new Date(utc), timeZone);
+  return new Date(utc).toISOString();
+}
+
+/**
+ * A UTC time as a datetime-local value in the given timezone
+ */
+export function utcToZonedInput(isoString: string, timeZone: string): string {
+  const parts = zonedParts(new Date(isoString), timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Scheduled sessions that haven't ended, plus recent ones (for replays),
+ * soonest first
+ */
+export async function getWorkshopSessions(): Promise<WorkshopSession[]> {
+  try {
+    const since = new Date(Date.now() - RECENT_SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('workshop_sessions')
+      .select(SESSION_COLUMNS)
+      .eq('status', 'scheduled')
+      .gte('starts_at', since)
+      .order('starts_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching workshop sessions:', err);
+    return [];
+  }
+}
+
+/**
+ * The user's active registrations, keyed by session id
+ */
+export async function getUserWorkshopRegistrations(userId: string): Promise<Record<string, WorkshopRegistration>> {
+  try {
+    const { data, error } = await supabase
+      .from('workshop_registrations')
+      .select(REGISTRATION_COLUMNS)
+      .eq('user_id', userId)
+      .eq('status', 'registered');
+
+    if (error) {
+      throw error;
+    }
+
+    return Object.fromEntries((data || []).map((registration) => [registration.session_id, registration]));
+  } catch (err) {
+    console.error('Error fetching workshop registrations:', err);
+    return {};
+  }
+}
+
+/**
+ * Create a session (the signed-in user hosts it) or update one of theirs.
+ * The join link is stored apart from the public session details.
+ */
+export async function saveWorkshopSession(
+  input: WorkshopSessionInput,
+  sessionId?: string
+): Promise<{ success: boolean; session?: WorkshopSession; error?: string }> {
+  try {
+    if (!input.title.trim()) {
+      return { success: false, error: 'Give the workshop a title' };
+    }
+    if (!sessionId && new Date(input.starts_at).getTime() < Date.now()) {
+      return { success: false, error: 'Choose a start time in the future' };
+    }
+    if (!Number.isInteger(input.capacity) || input.capacity < 1) {
+      return { success: false, error: 'Capacity must be at least 1 seat' };
+    }
+    if (input.price < 0) {
+      return { success: false, error: 'Price cannot be negative' };
+    }
+
+    const row = {
+      title: input.title.trim(),
+      description: input.description?.trim() || null,
+      category: input.category || null,
+      location: input.location?.trim() || null,
+      starts_at: input.starts_at,
+      duration_minutes: input.duration_minutes,
+      timezone: input.timezone,
+      capacity: input.capacity,
+      price: input.price,
+      currency: input.currency,
+    };
+
+    const { data, error } = sessionId
+      ? await supabase.from('workshop_sessions').update(row).eq('id', sessionId).select(SESSION_COLUMNS).single()
+      : await supabase.from('workshop_sessions').insert(row).select(SESSION_COLUMNS).single();
+
+    if (error) {
+      throw error;
+    }
+
+    const { error: accessError } = await supabase
+      .from('workshop_session_access')
+      .upsert({ session_id: data.id, join_url: input.join_url?.trim() || null }, { onConflict: 'session_id' });
+
+    if (accessError) {
+      throw accessError;
+    }
+
+    return { success: true, session: data };
+  } catch (err) {
+    console.error('Error saving workshop session:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to save workshop',
+    };
+  }
+}
+
+export async function cancelWorkshopSession(sessionId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('workshop_sessions')
+      .update({ status: 'cancelled' })
+      .eq('id', sessionId);
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error cancelling workshop session:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to cancel workshop',
+    };
+  }
+}
+
+/**
+ * The host's join link (registrants use joinWorkshop)
+ */
+export async function getWorkshopJoinUrl(sessionId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from('workshop_session_access')
+      .select('join_url')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.join_url || null;
+  } catch (err) {
+    console.error('Error fetching workshop join link:', err);
+    return null;
+  }
+}
+
+/**
+ * Take a seat in a free session. Paid seats are bought as a
+ * 'workshop_registration' payment order.
+ */
+export async function registerForWorkshop(sessionId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('register_for_workshop', { p_session_id: sessionId });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error registering for workshop:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to register',
+    };
+  }
+}
+
+export async function cancelWorkshopRegistration(sessionId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('cancel_workshop_registration', { p_session_id: sessionId });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error cancelling workshop registration:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to cancel registration',
+    };
+  }
+}
+
+/**
+ * Join link for a registrant; joining records their attendance
+ */
+export async function joinWorkshop(sessionId: string): Promise<{ success: boolean; joinUrl?: string; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('join_workshop_session', { p_session_id: sessionId });
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return { success: false, error: 'The host has not added a join link yet' };
+    }
+
+    return { success: true, joinUrl: data };
+  } catch (err) {
+    console.error('Error joining workshop:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to join workshop',
+    };
+  }
+}
+
+/**
+ * Everyone who registered for a session, for the host
+ */
+export async function getWorkshopRegistrants(sessionId: string): Promise<WorkshopRegistration[]> {
+  try {
+    const { data, error } = await supabase
+      .from('workshop_registrations')
+      .select(REGISTRATION_COLUMNS)
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching workshop registrants:', err);
+    return [];
+  }
+}
+
+/**
+ * Host's attendance record for a registrant; null clears it
+ */
+export async function setWorkshopAttendance(
+  registrationId: string,
+  attended: boolean | null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('set_workshop_attendance', {
+      p_registration_id: registrationId,
+      p_attended: attended,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error recording workshop attendance:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to record attendance',
+    };
+  }
+}
+
+/**
+ * Attach the session's Mux recording for registrants to replay; a null
+ * playback id removes it
+ */
+export async function attachWorkshopRecording(
+  sessionId: string,
+  playbackId: string | null,
+  videoUploadId?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('attach_workshop_recording', {
+      p_session_id: sessionId,
+      p_playback_id: playbackId,
+      p_upload_id: videoUploadId || null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error('Error attaching workshop recording:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Failed to attach recording',
+    };
+  }
+}
+
+/**
+ * Mux playback id of the recording, for registrants and the host
+ */
+export async function getWorkshopRecording(sessionId: string): Promise<{ playbackId?: string; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('get_workshop_recording', { p_session_id: sessionId });
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? { playbackId: data } : { error: 'The recording is not available yet' };
+  } catch (err) {
+    console.error('Error fetching workshop recording:', err);
+    return { error: err instanceof Error ? err.message : 'Failed to load recording' };
+  }
+}
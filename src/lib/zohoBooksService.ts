@@ -1086,3 +1086,99 @@ export const getZohoBooksStatus = async (userId: string) => {
     disconnected_at: data?.disconnected_at,
   };
 };
+
+// ============================================================================
+// SALES SYNC
+// ============================================================================
+
+export type ZohoSyncStatus = 'pending' | 'syncing' | 'synced' | 'failed' | 'dead_letter';
+
+export interface ZohoSyncRecord {
+  id: string;
+  source_type: 'course_enrollment' | 'membership_payment' | 'tip' | 'event_ticket';
+  source_id: string;
+  customer_name: string;
+  customer_email: string | null;
+  description: string;
+  amount: number;
+  currency: string;
+  transaction_reference: string;
+  paid_at: string;
+  status: ZohoSyncStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  zoho_invoice_id: string | null;
+  zoho_invoice_number: string | null;
+  zoho_payment_id: string | null;
+  synced_at: string | null;
+  created_at: string;
+}
+
+export interface SalesSyncSettings {
+  auto_sync_enabled: boolean;
+  auto_sync_enabled_at: string | null;
+  sync_memberships: boolean;
+}
+
+/**
+ * Whether completed sales are pushed to Zoho Books automatically
+ */
+export const getSalesSyncSettings = async (userId: string): Promise<SalesSyncSettings> => {
+  const { data, error } = await supabase
+    .from('zoho_books_integrations')
+    .select('auto_sync_enabled, auto_sync_enabled_at, sync_memberships')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return {
+    auto_sync_enabled: data?.auto_sync_enabled || false,
+    auto_sync_enabled_at: data?.auto_sync_enabled_at || null,
+    sync_memberships: data?.sync_memberships || false,
+  };
+};
+
+/**
+ * Turn the sales sync on or off. Only sales completed while it is on are
+ * synced; membership payments can only be synced by admins.
+ */
+export const updateSalesSyncSettings = async (
+  userId: string,
+  settings: Partial<Pick<SalesSyncSettings, 'auto_sync_enabled' | 'sync_memberships'>>
+) => {
+  const { error } = await supabase
+    .from('zoho_books_integrations')
+    .update(settings)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return { success: true };
+};
+
+/**
+ * Sales queued for this Zoho Books connection, newest first
+ */
+export const getSalesSyncRecords = async (userId: string, limit = 100): Promise<ZohoSyncRecord[]> => {
+  const { data, error } = await supabase
+    .from('zoho_books_sync_records')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as ZohoSyncRecord[];
+};
+
+/**
+ * Queue a failed or dead-lettered sale for another attempt
+ */
+export const retrySalesSyncRecord = async (recordId: string) => {
+  const { error } = await supabase.rpc('retry_zoho_books_sync_record', { p_record_id: recordId });
+
+  if (error) throw error;
+  return { success: true };
+};
@@ -23,9 +23,10 @@ import CustomersTab from '../components/CustomersTab';
 import VendorsTab from '../components/VendorsTab';
 import ExpensesTab from '../components/ExpensesTab';
 import ReportsTab from '../components/ReportsTab';
+import SalesSyncTab from '../components/SalesSyncTab';
 
 export default function Books() {
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const navigate = useNavigate();
   const { addToast } = useToast();
 
@@ -86,7 +87,7 @@ export default function Books() {
   } = useBooksDataManagement(organizationId, isConnected);
 
   // Tabs and modals state
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'invoices' | 'customers' | 'expenses' | 'vendors' | 'reports'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'invoices' | 'customers' | 'expenses' | 'vendors' | 'reports' | 'sync'>('dashboard');
   const [showNewInvoiceModal, setShowNewInvoiceModal] = useState(false);
   const [showNewCustomerModal, setShowNewCustomerModal] = useState(false);
   const [showNewVendorModal, setShowNewVendorModal] = useState(false);
@@ -308,7 +309,7 @@ export default function Books() {
 
         {/* Tabs */}
         <div className="flex gap-2 mb-8 flex-wrap">
-          {(['dashboard', 'invoices', 'customers', 'vendors', 'expenses', 'reports'] as const).map((tab) => (
+          {(['dashboard', 'invoices', 'customers', 'vendors', 'expenses', 'reports', 'sync'] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -391,6 +392,11 @@ export default function Books() {
           <ReportsTab reports={reports} isLoading={loadingReports} />
         )}
 
+        {/* Sales Sync Tab */}
+        {activeTab === 'sync' && user && (
+          <SalesSyncTab userId={user.id} isAdmin={session?.user?.app_metadata?.role === 'admin'} />
+        )}
+
         {/* Modals */}
         <NewInvoiceModal
           isOpen={showNewInvoiceModal}
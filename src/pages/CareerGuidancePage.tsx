@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Star, Users, Briefcase, TrendingUp, Award } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { CourseReview, getFeaturedReviews } from '../lib/reviewService';
 
 interface CourseDetails {
   id: string;
@@ -12,21 +13,14 @@ interface CourseDetails {
   description: string;
 }
 
-interface Testimonial {
-  id: string;
-  name: string;
-  role: string;
-  image?: string;
-  content: string;
-  rating: number;
-}
-
 export default function CareerGuidancePage() {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
   const [course, setCourse] = useState<CourseDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Success stories are the course's best written reviews
+  const [testimonials, setTestimonials] = useState<CourseReview[]>([]);
 
   const fetchCourseDetails = useCallback(async () => {
     if (!courseId) return;
@@ -57,29 +51,10 @@ export default function CareerGuidancePage() {
     fetchCourseDetails();
   }, [fetchCourseDetails]);
 
-  const testimonials: Testimonial[] = [
-    {
-      id: '1',
-      name: 'Sarah Johnson',
-      role: 'Marketing Manager',
-      content: 'This course transformed my career trajectory. The practical insights and real-world applications directly contributed to my promotion.',
-      rating: 5,
-    },
-    {
-      id: '2',
-      name: 'Michael Chen',
-      role: 'Creative Director',
-      content: 'The depth of knowledge and mentorship from industry experts was invaluable. Highly recommended for anyone serious about career growth.',
-      rating: 5,
-    },
-    {
-      id: '3',
-      name: 'Priya Patel',
-      role: 'Entrepreneur',
-      content: 'I launched my own business based on concepts learned in this course. The support and guidance were exceptional throughout.',
-      rating: 5,
-    },
-  ];
+  useEffect(() => {
+    if (!courseId) return;
+    getFeaturedReviews(courseId).then(setTestimonials);
+  }, [courseId]);
 
   const guidancePoints = [
     {
@@ -205,36 +180,38 @@ export default function CareerGuidancePage() {
         </div>
 
         {/* Success Stories */}
-        <div className="mb-12">
-          <h2 className="text-3xl font-bold text-white mb-8">Success Stories</h2>
-          <div className="grid md:grid-cols-3 gap-6">
-            {testimonials.map((testimonial) => (
-              <div
-                key={testimonial.id}
-                className="glass-effect p-6 rounded-xl hover:border-purple-500/50 transition-all"
-              >
-                <div className="flex items-start gap-4 mb-4">
-                  <div className="w-12 h-12 rounded-full bg-gradient-to-br from-rose-400 to-purple-600 flex items-center justify-center flex-shrink-0">
-                    <span className="text-white font-bold">{testimonial.name[0]}</span>
+        {testimonials.length > 0 && (
+          <div className="mb-12">
+            <h2 className="text-3xl font-bold text-white mb-8">Success Stories</h2>
+            <div className="grid md:grid-cols-3 gap-6">
+              {testimonials.map((testimonial) => (
+                <div
+                  key={testimonial.id}
+                  className="glass-effect p-6 rounded-xl hover:border-purple-500/50 transition-all"
+                >
+                  <div className="flex items-start gap-4 mb-4">
+                    <div className="w-12 h-12 rounded-full bg-gradient-to-br from-rose-400 to-purple-600 flex items-center justify-center flex-shrink-0">
+                      <span className="text-white font-bold">{(testimonial.reviewer_name || 'S')[0]}</span>
+                    </div>
+                    <div className="flex-1">
+                      <h3 className="text-white font-semibold">{testimonial.reviewer_name || 'Student'}</h3>
+                      <p className="text-gray-400 text-sm">{testimonial.title || 'Verified student'}</p>
+                    </div>
                   </div>
-                  <div className="flex-1">
-                    <h3 className="text-white font-semibold">{testimonial.name}</h3>
-                    <p className="text-gray-400 text-sm">{testimonial.role}</p>
+                  <div className="flex gap-1 mb-3">
+                    {[...Array(testimonial.rating)].map((_, i) => (
+                      <Star
+                        key={i}
+                        className="w-4 h-4 text-yellow-400 fill-current"
+                      />
+                    ))}
                   </div>
+                  <p className="text-gray-300 text-sm leading-relaxed">{testimonial.body}</p>
                 </div>
-                <div className="flex gap-1 mb-3">
-                  {[...Array(testimonial.rating)].map((_, i) => (
-                    <Star
-                      key={i}
-                      className="w-4 h-4 text-yellow-400 fill-current"
-                    />
-                  ))}
-                </div>
-                <p className="text-gray-300 text-sm leading-relaxed">{testimonial.content}</p>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Career Pathways */}
         <div className="glass-effect p-8 rounded-2xl mb-12">
@@ -18,10 +18,13 @@ import { supabase } from '../lib/supabase';
 import InlineVideoPlayer from '../components/InlineVideoPlayer';
 import EnrollmentModal from '../components/EnrollmentModal';
 import CourseLessonViewer from '../components/CourseLessonViewer';
+import CourseReviews from '../components/CourseReviews';
 import { useEnrollment } from '../hooks/useEnrollment';
 import { trackMasterclassView } from '../hooks/useVideoViewTracking';
-import { createCertificate, downloadCertificateAsHTML } from '../lib/certificateService';
-import { createInvoice, downloadInvoiceAsHTML } from '../lib/invoiceService';
+import { CertificateResult } from '../lib/certificateService';
+import { CourseEnrollment } from '../lib/enrollmentService';
+import { EnrollmentProgress } from '../lib/lessonProgressService';
+import { CourseRatingSummary } from '../lib/reviewService';
 
 interface CourseDetails {
   id: string;
@@ -38,6 +41,8 @@ interface CourseDetails {
   lessons_count: number;
   views_count: number;
   like_count: number;
+  rating_average: number;
+  rating_count: number;
   is_premium: boolean;
   user_id: string;
   created_at: string;
@@ -53,7 +58,7 @@ export default function CourseDetailPage() {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
   const { user, profile } = useAuth();
-  const { checkEnrollment, getDetails } = useEnrollment();
+  const { checkEnrollment, getDetails, updateProgress, generateCertificate } = useEnrollment();
   const searchParams = new URLSearchParams(window.location.search);
   const autoplay = searchParams.get('autoplay') === 'true';
 
@@ -64,8 +69,8 @@ export default function CourseDetailPage() {
   const [showVideoPlayer, setShowVideoPlayer] = useState(autoplay);
   const [showEnrollmentModal, setShowEnrollmentModal] = useState(false);
   const [isBookmarked, setIsBookmarked] = useState(false);
-  const [enrollmentDetails, setEnrollmentDetails] = useState(null);
-  const { updateProgress } = useEnrollment();
+  const [enrollmentDetails, setEnrollmentDetails] = useState<CourseEnrollment | null>(null);
+  const [ratingSummary, setRatingSummary] = useState<CourseRatingSummary | null>(null);
 
   // Fetch course details
   const fetchCourseDetails = useCallback(async () => {
@@ -94,7 +99,17 @@ export default function CourseDetailPage() {
 
           if (enrolled) {
             const details = await getDetails(user.id, courseId);
-            setEnrollmentDetails(details);
+            // Progress is derived from lesson progress; bring it up to date
+            const progress = details ? await updateProgress(details.id) : null;
+            setEnrollmentDetails(
+              details && progress
+                ? {
+                    ...details,
+                    lessons_completed: progress.lessons_completed,
+                    progress_percentage: progress.progress_percentage,
+                  }
+                : details
+            );
           }
         } catch (err) {
           console.error('Failed to check enrollment:', err);
@@ -113,7 +128,7 @@ export default function CourseDetailPage() {
     } finally {
       setLoading(false);
     }
-  }, [courseId, user, checkEnrollment, getDetails]);
+  }, [courseId, user, checkEnrollment, getDetails, updateProgress]);
 
   useEffect(() => {
     fetchCourseDetails();
@@ -156,23 +171,21 @@ export default function CourseDetailPage() {
     setShowVideoPlayer(true);
   };
 
-  const handleProgressUpdate = async (lessonsCompleted: number, progressPercentage: number) => {
+  const handleProgressUpdate = (progress: EnrollmentProgress) => {
     if (!enrollmentDetails) return;
 
-    const success = await updateProgress(
-      enrollmentDetails.id,
-      progressPercentage,
-      lessonsCompleted,
-      progressPercentage === 100
-    );
+    setEnrollmentDetails({
+      ...enrollmentDetails,
+      progress_percentage: progress.progress_percentage,
+      lessons_completed: progress.lessons_completed,
+    });
+  };
 
-    if (success) {
-      setEnrollmentDetails({
-        ...enrollmentDetails,
-        progress_percentage: progressPercentage,
-        lessons_completed: lessonsCompleted,
-      });
+  const handleGetCertificate = async (): Promise<CertificateResult> => {
+    if (!enrollmentDetails) {
+      return { success: false, error: 'Enrollment not found' };
     }
+    return generateCertificate(enrollmentDetails.id);
   };
 
   if (loading) {
@@ -210,6 +223,10 @@ export default function CourseDetailPage() {
     );
   }
 
+  // Live summary once the reviews section has loaded, otherwise the stored aggregate
+  const averageRating = ratingSummary ? ratingSummary.rating_average : Number(course.rating_average) || 0;
+  const ratingCount = ratingSummary ? ratingSummary.rating_count : course.rating_count || 0;
+
   return (
     <div className="min-h-screen pt-20 pb-12 px-4 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950">
       <div className="max-w-5xl mx-auto">
@@ -288,7 +305,7 @@ export default function CourseDetailPage() {
                 <div className="flex items-center space-x-2">
                   <div className="flex items-center">
                     {[...Array(5)].map((_, i) => {
-                      const rating = course.like_count > 0 ? Math.min(5, (course.like_count / 100) * 5) : 0;
+                      const rating = averageRating;
                       const isFilled = i < Math.floor(rating);
                       const isPartial = i === Math.floor(rating) && rating % 1 !== 0;
                       return (
@@ -303,7 +320,7 @@ export default function CourseDetailPage() {
                     })}
                   </div>
                   <span className="text-gray-300 text-sm sm:text-base">
-                    {course.like_count > 0 ? `${Math.min(5, (course.like_count / 100) * 5).toFixed(1)}` : '0.0'} ({course.like_count} likes)
+                    {averageRating.toFixed(1)} ({ratingCount} rating{ratingCount !== 1 ? 's' : ''})
                   </span>
                 </div>
                 <div className="flex items-center gap-2 text-gray-300 text-sm sm:text-base">
@@ -435,17 +452,23 @@ export default function CourseDetailPage() {
               </div>
             )}
 
-            {/* Lessons Viewer */}
-            {isEnrolled && course && (
+            {/* Lessons Viewer - free preview lessons are playable before enrolling */}
+            {course && (
               <CourseLessonViewer
                 courseId={course.id}
-                courseLessonsCount={course.lessons_count || 0}
-                enrollmentProgress={{
-                  lessons_completed: enrollmentDetails?.lessons_completed || 0,
-                  progress_percentage: enrollmentDetails?.progress_percentage || 0,
-                }}
                 isEnrolled={isEnrolled}
                 onProgressUpdate={handleProgressUpdate}
+                onGetCertificate={isEnrolled ? handleGetCertificate : undefined}
+              />
+            )}
+
+            {/* Ratings and Reviews */}
+            {course && (
+              <CourseReviews
+                courseId={course.id}
+                courseOwnerId={course.user_id}
+                isEnrolled={isEnrolled}
+                onSummaryChange={setRatingSummary}
               />
             )}
           </div>
@@ -350,7 +350,14 @@ export default function CreatorsMembership() {
                     </ul>
 
                     {/* Button */}
-                    {isCurrentTier ? (
+                    {isCurrentTier && tierKey !== 'free' ? (
+                      <button
+                        onClick={() => handleUpgradeClick(tierKey)}
+                        className="w-full py-3 bg-white/5 text-gray-300 font-semibold rounded-lg border border-white/10 hover:bg-white/10 transition-colors"
+                      >
+                        Current Tier · Change Billing
+                      </button>
+                    ) : isCurrentTier ? (
                       <button
                         disabled
                         className="w-full py-3 bg-white/5 text-gray-400 font-semibold rounded-lg cursor-default border border-white/10"
@@ -365,6 +372,13 @@ export default function CreatorsMembership() {
                       >
                         {upgrading === tierKey ? 'Upgrading...' : `Upgrade to ${tierInfo.name}`}
                       </button>
+                    ) : tierKey !== 'free' ? (
+                      <button
+                        onClick={() => handleUpgradeClick(tierKey)}
+                        className="w-full py-3 bg-white/5 text-gray-300 font-semibold rounded-lg border border-white/10 hover:bg-white/10 transition-colors"
+                      >
+                        Switch to {tierInfo.name} at renewal
+                      </button>
                     ) : (
                       <button
                         disabled
@@ -14,7 +14,7 @@ export default function Dashboard() {
   const { activities } = useUserActivity(4);
   const { challenges, loading: challengesLoading } = useChallenges();
   const { events: upcomingEvents } = useUpcomingEvents(3);
-  const { referralCode, copyToClipboard } = useReferralCode();
+  const { referralLink, copyToClipboard } = useReferralCode();
   const [copySuccess, setCopySuccess] = React.useState(false);
 
   const getNextTier = () => {
@@ -191,7 +191,7 @@ export default function Dashboard() {
                     const eventDate = new Date(event.event_date);
                     const dateString = eventDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
                     return (
-                      <div key={event.id} className="flex items-center space-x-4 p-3 hover:bg-white/5 rounded-lg transition-colors">
+                      <div key={`${event.id}-${event.occurrence_date || event.event_date}`} className="flex items-center space-x-4 p-3 hover:bg-white/5 rounded-lg transition-colors">
                         <Calendar className="w-5 h-5 text-rose-400 flex-shrink-0" />
                         <div className="flex-1">
                           <div className="text-white font-medium">{event.title}</div>
@@ -277,19 +277,19 @@ export default function Dashboard() {
             <div className="glass-effect p-6 rounded-xl">
               <h3 className="text-lg font-semibold text-white mb-4">Invite Friends</h3>
               <p className="text-gray-400 text-sm mb-4">
-                Earn 100 loyalty points for each friend who joins!
+                Earn loyalty points when a friend you invite makes their first purchase!
               </p>
               <div className="flex space-x-2">
                 <input
                   type="text"
-                  value={referralCode || 'Loading...'}
+                  value={referralLink || 'Loading...'}
                   readOnly
                   className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
                 />
                 <button
                   onClick={async () => {
-                    if (referralCode) {
-                      const success = await copyToClipboard(referralCode);
+                    if (referralLink) {
+                      const success = await copyToClipboard(referralLink);
                       if (success) {
                         setCopySuccess(true);
                         setTimeout(() => setCopySuccess(false), 2000);
@@ -312,6 +312,13 @@ export default function Dashboard() {
                   )}
                 </button>
               </div>
+              <Link
+                to="/referrals"
+                className="mt-4 inline-flex items-center text-sm text-rose-400 hover:text-rose-300"
+              >
+                View your referrals
+                <ArrowRight className="w-4 h-4 ml-1" />
+              </Link>
             </div>
           </div>
         </div>
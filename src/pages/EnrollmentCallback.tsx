@@ -1,67 +1,89 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { CheckCircle, AlertCircle, Loader } from 'lucide-react';
-import { useEnrollment } from '../hooks/useEnrollment';
+import { PaymentOrchestration, PaymentOrder } from '../lib/paymentOrchestration';
+
+// The payment webhook fulfils the order; we only wait for it here
+const POLL_INTERVAL_MS = 3000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+function fulfilledPath(order: PaymentOrder): string {
+  switch (order.item_type) {
+    case 'course_enrollment':
+      return `/course/${order.item_ref}`;
+    case 'event_ticket':
+      return '/events';
+    case 'workshop_registration':
+    case 'mentorship_session':
+    case 'learning_path':
+      return '/masterclass';
+    default:
+      return '/';
+  }
+}
 
 export default function EnrollmentCallback() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { verifyEnrollmentPayment } = useEnrollment();
 
   const [status, setStatus] = useState<'verifying' | 'success' | 'error'>('verifying');
   const [message, setMessage] = useState('Verifying your payment...');
 
   useEffect(() => {
-    const verifyPayment = async () => {
-      try {
-        // Get pending enrollment info from sessionStorage
-        const pendingStr = sessionStorage.getItem('pendingEnrollment');
-        if (!pendingStr) {
-          setStatus('error');
-          setMessage('Enrollment session not found. Please try again.');
-          return;
-        }
+    const pendingStr = sessionStorage.getItem('pendingEnrollment');
+    const pending = pendingStr ? JSON.parse(pendingStr) : null;
+    const orderId = searchParams.get('order') || pending?.orderId;
 
-        const pending = JSON.parse(pendingStr);
-        const transactionId = searchParams.get('transaction_id') || searchParams.get('tx_ref');
-
-        if (!transactionId) {
-          setStatus('error');
-          setMessage('No transaction ID found. Please contact support.');
-          return;
-        }
+    if (!orderId) {
+      setStatus('error');
+      setMessage('Order not found. Please contact support.');
+      return;
+    }
 
-        // Verify payment
-        const result = await verifyEnrollmentPayment(
-          pending.enrollmentId,
-          transactionId,
-          pending.paymentMethod
-        );
+    const startedAt = Date.now();
+    let redirectTimer: ReturnType<typeof setTimeout> | undefined;
 
-        if (result.success) {
-          setStatus('success');
-          setMessage('Payment verified! Your enrollment is complete.');
+    const pollInterval = setInterval(async () => {
+      try {
+        const order = await PaymentOrchestration.getOrder(orderId);
 
-          // Clear pending enrollment
+        if (order?.status === 'completed') {
+          clearInterval(pollInterval);
           sessionStorage.removeItem('pendingEnrollment');
+          setStatus('success');
+          setMessage(
+            order.item_type === 'course_enrollment'
+              ? 'Payment verified! Your enrollment is complete.'
+              : 'Payment verified! Thank you for your purchase.'
+          );
 
-          // Redirect to course in 3 seconds
-          setTimeout(() => {
-            navigate(`/course/${pending.courseId}`);
+          // Redirect in 3 seconds
+          redirectTimer = setTimeout(() => {
+            navigate(fulfilledPath(order));
           }, 3000);
-        } else {
+        } else if (order?.status === 'failed' || order?.status === 'expired') {
+          clearInterval(pollInterval);
+          sessionStorage.removeItem('pendingEnrollment');
+          setStatus('error');
+          setMessage(order.error_message || 'Payment failed. Please try again.');
+        } else if (Date.now() - startedAt > POLL_TIMEOUT_MS) {
+          clearInterval(pollInterval);
           setStatus('error');
-          setMessage(result.error || 'Payment verification failed. Please try again.');
+          setMessage(
+            'We have not received confirmation from the payment provider yet. ' +
+              'If you were charged, your purchase will appear shortly.'
+          );
         }
       } catch (err) {
-        console.error('Verification error:', err);
-        setStatus('error');
-        setMessage(err instanceof Error ? err.message : 'An error occurred during verification.');
+        console.error('Error polling order status:', err);
       }
-    };
+    }, POLL_INTERVAL_MS);
 
-    verifyPayment();
-  }, [searchParams, verifyEnrollmentPayment, navigate]);
+    return () => {
+      clearInterval(pollInterval);
+      if (redirectTimer) clearTimeout(redirectTimer);
+    };
+  }, [searchParams, navigate]);
 
   return (
     <div className="min-h-screen pt-20 pb-12 px-4 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950">
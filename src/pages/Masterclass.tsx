@@ -24,7 +24,12 @@ import {
   Music,
   Edit3,
   Trash2,
-  ArrowRight
+  ArrowRight,
+  Plus,
+  Video,
+  Settings,
+  BarChart3,
+  Route
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { usePreloadedData } from '../context/DataPreloadContext';
@@ -41,8 +46,43 @@ import EditMasterclassContentModal from '../components/EditMasterclassContentMod
 import ContentCountdownTimer from '../components/ContentCountdownTimer';
 import VideoUploadWithMuxForMasterclass from '../components/VideoUploadWithMuxForMasterclass';
 import EnrollmentModal from '../components/EnrollmentModal';
+import MuxPlayer from '../components/MuxPlayer';
+import WorkshopSessionModal from '../components/WorkshopSessionModal';
+import WorkshopManageModal from '../components/WorkshopManageModal';
+import WorkshopRegistrationModal from '../components/WorkshopRegistrationModal';
+import MentorshipBookingModal from '../components/MentorshipBookingModal';
+import MentorSettingsModal from '../components/MentorSettingsModal';
+import MentorshipBookingsList from '../components/MentorshipBookingsList';
+import CourseAnalyticsModal from '../components/CourseAnalyticsModal';
+import LearningPathModal from '../components/LearningPathModal';
+import LearningPathEditorModal from '../components/LearningPathEditorModal';
+import {
+  WorkshopRegistration,
+  WorkshopSession,
+  cancelWorkshopRegistration,
+  formatWorkshopTime,
+  getUserWorkshopRegistrations,
+  getWorkshopRecording,
+  getWorkshopSessions,
+  isWorkshopJoinable,
+  isWorkshopOver,
+  joinWorkshop,
+  registerForWorkshop,
+} from '../lib/workshopService';
+import {
+  MentorWithSessionTypes,
+  MentorshipBooking,
+  getMentors,
+  getUserMentorshipBookings,
+} from '../lib/mentorshipService';
+import {
+  LearningPath,
+  LearningPathEnrollment,
+  getLearningPaths,
+  getUserPathEnrollments,
+} from '../lib/learningPathService';
 
-type ViewMode = 'courses' | 'workshops' | 'learning' | 'teaching' | 'mentorship';
+type ViewMode = 'courses' | 'paths' | 'workshops' | 'learning' | 'teaching' | 'mentorship';
 type LayoutMode = 'grid' | 'list';
 
 type ContentItem = {
@@ -54,6 +94,9 @@ type ContentItem = {
   duration: string | null;
   views_count: number;
   like_count: number;
+  /** Maintained from published course_reviews */
+  rating_average?: number;
+  rating_count?: number;
   is_premium: boolean;
   description: string;
   type: string;
@@ -61,19 +104,7 @@ type ContentItem = {
   learning_outcomes?: string[];
   features?: string[];
   lessons_count?: number;
-};
-
-type Workshop = {
-  id: number;
-  title: string;
-  date: string;
-  time: string;
-  duration: string;
-  instructor: string;
-  spots: number;
-  price: number;
-  category: string;
-  location: string;
+  completion_threshold_percent?: number;
 };
 
 export default function Masterclass() {
@@ -89,8 +120,6 @@ export default function Masterclass() {
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'all' | 'popular' | 'newest' | 'highest-rated'>('all');
   const [bookmarkedCourseIds, setBookmarkedCourseIds] = useState<string[]>([]);
-  const [showMentorshipModal, setShowMentorshipModal] = useState(false);
-  const [mentorshipRequestSent, setMentorshipRequestSent] = useState(false);
   const [toastMessage, setToastMessage] = useState<string>('');
 
   // Initialize with preloaded data for instant display (zero delay)
@@ -142,6 +171,28 @@ export default function Masterclass() {
   const [loadingEnrolledCourses, setLoadingEnrolledCourses] = useState(false);
   const [showEnrollmentModal, setShowEnrollmentModal] = useState(false);
   const [enrollmentCourse, setEnrollmentCourse] = useState<ContentItem | null>(null);
+  const [workshops, setWorkshops] = useState<WorkshopSession[]>([]);
+  const [workshopRegistrations, setWorkshopRegistrations] = useState<Record<string, WorkshopRegistration>>({});
+  const [loadingWorkshops, setLoadingWorkshops] = useState(false);
+  const [workshopBusyId, setWorkshopBusyId] = useState<string | null>(null);
+  const [showWorkshopModal, setShowWorkshopModal] = useState(false);
+  const [editingWorkshop, setEditingWorkshop] = useState<WorkshopSession | null>(null);
+  const [managingWorkshop, setManagingWorkshop] = useState<WorkshopSession | null>(null);
+  const [checkoutWorkshop, setCheckoutWorkshop] = useState<WorkshopSession | null>(null);
+  const [replayWorkshop, setReplayWorkshop] = useState<{ session: WorkshopSession; playbackId: string } | null>(null);
+  const [mentors, setMentors] = useState<MentorWithSessionTypes[]>([]);
+  const [mentorshipBookings, setMentorshipBookings] = useState<MentorshipBooking[]>([]);
+  const [loadingMentors, setLoadingMentors] = useState(false);
+  const [bookingMentor, setBookingMentor] = useState<MentorWithSessionTypes | null>(null);
+  const [openBooking, setOpenBooking] = useState<MentorshipBooking | null>(null);
+  const [showMentorSettings, setShowMentorSettings] = useState(false);
+  const [showCourseAnalytics, setShowCourseAnalytics] = useState(false);
+  const [learningPaths, setLearningPaths] = useState<LearningPath[]>([]);
+  const [pathEnrollments, setPathEnrollments] = useState<Record<string, LearningPathEnrollment>>({});
+  const [loadingPaths, setLoadingPaths] = useState(false);
+  const [openPath, setOpenPath] = useState<LearningPath | null>(null);
+  const [editingPath, setEditingPath] = useState<LearningPath | null>(null);
+  const [showPathEditor, setShowPathEditor] = useState(false);
 
   const { editContent } = useMediaPageEdit();
   const { deleteFromDestination, saveContent, getDeletionInfo } = useContentDeletion();
@@ -679,47 +730,56 @@ export default function Masterclass() {
     }
   };
 
-  const workshops = useMemo<Workshop[]>(
-    () => [
-      {
-        id: 1,
-        title: 'Creative Bootcamp',
-        date: 'March 15, 2026',
-        time: '2:00 PM EAT',
-        duration: '3 hours',
-        instructor: 'Alex Chen',
-        spots: 25,
-        price: 185000,
-        category: 'digital-marketing',
-        location: 'Kampala Creative Hub'
-      },
-      {
-        id: 2,
-        title: 'Personal Branding Workshop',
-        date: 'June 20, 2026',
-        time: '10:00 AM EAT',
-        duration: '4 hours',
-        instructor: 'Maya Patel',
-        spots: 15,
-        price: 300000,
-        category: 'professional-development',
-        location: 'Virtual (Live)'
-      },
-      {
-        id: 3,
-        title: 'Litflex - Multimedia Analytica',
-        date: 'June 5, 2026',
-        time: '4:00 PM EAT',
-        duration: '3 hours',
-        instructor: 'Rouje Gerard',
-        spots: 30,
-        price: 220000,
-        category: 'critical-media-literacy',
-        location: 'Kampala Cine Arena'
-      }
-    ],
-    []
-  );
+  const loadWorkshops = useCallback(async () => {
+    setLoadingWorkshops(true);
+    const [sessions, registrations] = await Promise.all([
+      getWorkshopSessions(),
+      user?.id ? getUserWorkshopRegistrations(user.id) : Promise.resolve({}),
+    ]);
+    setWorkshops(sessions);
+    setWorkshopRegistrations(registrations);
+    setLoadingWorkshops(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (viewMode === 'workshops') {
+      loadWorkshops();
+    }
+  }, [viewMode, loadWorkshops]);
+
+  const loadMentorship = useCallback(async () => {
+    setLoadingMentors(true);
+    const [mentorList, bookings] = await Promise.all([
+      getMentors(),
+      user?.id ? getUserMentorshipBookings(user.id) : Promise.resolve([]),
+    ]);
+    setMentors(mentorList);
+    setMentorshipBookings(bookings);
+    setLoadingMentors(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (viewMode === 'mentorship') {
+      loadMentorship();
+    }
+  }, [viewMode, loadMentorship]);
+
+  const loadLearningPaths = useCallback(async () => {
+    setLoadingPaths(true);
+    const [paths, enrollments] = await Promise.all([
+      getLearningPaths(),
+      user?.id ? getUserPathEnrollments(user.id) : Promise.resolve({}),
+    ]);
+    setLearningPaths(paths);
+    setPathEnrollments(enrollments);
+    setLoadingPaths(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (viewMode === 'paths') {
+      loadLearningPaths();
+    }
+  }, [viewMode, loadLearningPaths]);
 
   const filteredCourses = useMemo(() => {
     const categoryValue = activeCategory;
@@ -746,7 +806,11 @@ export default function Masterclass() {
       case 'popular':
         return items.sort((a, b) => (b.views_count || 0) - (a.views_count || 0));
       case 'highest-rated':
-        return items.sort((a, b) => (b.like_count || 0) - (a.like_count || 0));
+        return items.sort(
+          (a, b) =>
+            Number(b.rating_average || 0) - Number(a.rating_average || 0) ||
+            (b.rating_count || 0) - (a.rating_count || 0)
+        );
       default:
         return items.sort((a, b) => (a.display_order || 0) - (b.display_order || 0));
     }
@@ -760,12 +824,34 @@ export default function Masterclass() {
       const matchesSearch =
         loweredQuery.length === 0 ||
         workshop.title.toLowerCase().includes(loweredQuery) ||
-        workshop.instructor.toLowerCase().includes(loweredQuery) ||
-        workshop.location.toLowerCase().includes(loweredQuery);
+        workshop.host_name.toLowerCase().includes(loweredQuery) ||
+        (workshop.location || '').toLowerCase().includes(loweredQuery);
       return matchesCategory && matchesSearch;
     });
   }, [workshops, activeCategory, searchQuery]);
 
+  const filteredMentors = useMemo(() => {
+    const loweredQuery = searchQuery.toLowerCase();
+    if (!loweredQuery) return mentors;
+    return mentors.filter(
+      (mentor) =>
+        mentor.display_name.toLowerCase().includes(loweredQuery) ||
+        (mentor.headline || '').toLowerCase().includes(loweredQuery) ||
+        mentor.expertise.some((skill) => skill.toLowerCase().includes(loweredQuery))
+    );
+  }, [mentors, searchQuery]);
+
+  const filteredPaths = useMemo(() => {
+    const loweredQuery = searchQuery.toLowerCase();
+    if (!loweredQuery) return learningPaths;
+    return learningPaths.filter(
+      (path) =>
+        path.title.toLowerCase().includes(loweredQuery) ||
+        (path.description || '').toLowerCase().includes(loweredQuery) ||
+        path.courses.some((item) => (item.course?.title || '').toLowerCase().includes(loweredQuery))
+    );
+  }, [learningPaths, searchQuery]);
+
   const handleEnroll = (courseId: string) => {
     if (!user) {
       alert('Please sign up or sign in to enroll.');
@@ -779,20 +865,86 @@ export default function Masterclass() {
     alert(`Enrollment successful! Welcome to the masterclass.`);
   };
 
-  const handleMentorshipRequest = async (e: React.FormEvent) => {
-    e.preventDefault();
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    setMentorshipRequestSent(true);
+  const showWorkshopToast = (message: string) => {
+    setToastMessage(message);
+    setTimeout(() => setToastMessage(''), 2400);
+  };
+
+  const handleWorkshopRegister = async (session: WorkshopSession) => {
+    if (!user) {
+      alert('Please sign up or sign in to register for workshops.');
+      navigate('/signin');
+      return;
+    }
+
+    // Paid seats go through checkout and are confirmed by the payment webhook
+    if (Number(session.price) > 0) {
+      setCheckoutWorkshop(session);
+      return;
+    }
+
+    setWorkshopBusyId(session.id);
+    const result = await registerForWorkshop(session.id);
+    setWorkshopBusyId(null);
+
+    showWorkshopToast(result.success ? "You're registered!" : result.error || 'Registration failed');
+    if (result.success) loadWorkshops();
+  };
+
+  const handleWorkshopCancelRegistration = async (session: WorkshopSession) => {
+    if (!confirm(`Give up your seat in ${session.title}?`)) return;
+
+    setWorkshopBusyId(session.id);
+    const result = await cancelWorkshopRegistration(session.id);
+    setWorkshopBusyId(null);
+
+    showWorkshopToast(result.success ? 'Registration cancelled' : result.error || 'Failed to cancel registration');
+    if (result.success) loadWorkshops();
+  };
+
+  const handleWorkshopJoin = async (session: WorkshopSession) => {
+    setWorkshopBusyId(session.id);
+    const result = await joinWorkshop(session.id);
+    setWorkshopBusyId(null);
+
+    if (!result.success || !result.joinUrl) {
+      showWorkshopToast(result.error || 'Failed to join workshop');
+      return;
+    }
+
+    window.open(result.joinUrl, '_blank', 'noopener,noreferrer');
+  };
+
+  const handleWorkshopReplay = async (session: WorkshopSession) => {
+    setWorkshopBusyId(session.id);
+    const result = await getWorkshopRecording(session.id);
+    setWorkshopBusyId(null);
+
+    if (!result.playbackId) {
+      showWorkshopToast(result.error || 'The recording is not available yet');
+      return;
+    }
+
+    setReplayWorkshop({ session, playbackId: result.playbackId });
   };
 
-  const handleMentorshipClick = () => {
+  const handleBookMentor = (mentor: MentorWithSessionTypes) => {
     if (!user) {
-      alert('Please sign up or sign in to submit a mentorship request.');
+      alert('Please sign up or sign in to book a mentorship session.');
       navigate('/signin');
       return;
     }
-    setShowMentorshipModal(true);
-    setMentorshipRequestSent(false);
+    setBookingMentor(mentor);
+  };
+
+  const handleLearningPathChanged = (message: string) => {
+    showWorkshopToast(message);
+    loadLearningPaths();
+  };
+
+  const handleMentorshipChanged = (message: string) => {
+    showWorkshopToast(message);
+    loadMentorship();
   };
 
   const handleBookmarkToggle = (courseId: string) => {
@@ -911,14 +1063,16 @@ export default function Masterclass() {
 
   const searchPlaceholderMap: Record<ViewMode, string> = {
     courses: 'Search courses and instructors...',
+    paths: 'Search learning paths and bundles...',
     workshops: 'Search workshops and facilitators...',
     learning: 'Search your enrolled courses...',
     teaching: 'Search teaching resources...',
-    mentorship: 'Search mentorship resources...'
+    mentorship: 'Search mentors...'
   };
 
   const viewOptions: { key: ViewMode; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
     { key: 'courses', label: 'Courses', icon: BookOpen },
+    { key: 'paths', label: 'Paths', icon: Route },
     { key: 'workshops', label: 'Workshops', icon: Clock },
     { key: 'learning', label: 'Learning', icon: Award },
     { key: 'teaching', label: 'Teaching', icon: Briefcase },
@@ -976,6 +1130,7 @@ export default function Masterclass() {
     course_price?: number;
     course_currency?: string;
     duration?: string;
+    completion_threshold_percent?: number;
   }) => {
     if (!editingCourse) return;
 
@@ -1003,6 +1158,8 @@ export default function Masterclass() {
                 duration: payload.duration !== undefined ? payload.duration : item.duration,
                 course_price: payload.course_price !== undefined ? payload.course_price : (item as any).course_price,
                 course_currency: payload.course_currency !== undefined ? payload.course_currency : (item as any).course_currency,
+                completion_threshold_percent:
+                  payload.completion_threshold_percent ?? item.completion_threshold_percent,
               }
             : item
         )
@@ -1092,7 +1249,7 @@ export default function Masterclass() {
               onClick={() => {
                 setViewMode(key);
                 setSearchQuery('');
-                if (key === 'teaching' || key === 'mentorship') {
+                if (key === 'paths' || key === 'teaching' || key === 'mentorship') {
                   setActiveCategory('all');
                 }
               }}
@@ -1126,7 +1283,7 @@ export default function Masterclass() {
               <select
                 value={activeCategory}
                 onChange={(e) => setActiveCategory(e.target.value)}
-                disabled={viewMode === 'teaching' || viewMode === 'mentorship'}
+                disabled={viewMode === 'paths' || viewMode === 'teaching' || viewMode === 'mentorship'}
                 className="px-4 py-3 glass-effect rounded-xl border border-white/20 text-white bg-transparent focus:ring-2 focus:ring-rose-400 focus:border-transparent transition-all disabled:opacity-60 disabled:cursor-not-allowed ml-10 w-[calc(100%-2.5rem)] md:ml-0 md:w-auto md:min-w-[12rem]"
               >
                 {courseCategories.map((category) => (
@@ -1251,7 +1408,10 @@ export default function Masterclass() {
                         )}
                         <div className="flex items-center space-x-1 text-sm text-gray-200">
                           <Star className="w-4 h-4 text-yellow-400 fill-current" />
-                          <span>0.0</span>
+                          <span>{Number(course.rating_average || 0).toFixed(1)}</span>
+                          {(course.rating_count || 0) > 0 && (
+                            <span className="text-gray-400">({course.rating_count})</span>
+                          )}
                         </div>
                       </div>
                       <h3 className="text-xl font-semibold text-white mb-2">{course.title}</h3>
@@ -1311,41 +1471,150 @@ export default function Masterclass() {
         )}
 
         {viewMode === 'workshops' && (
-          <div className={workshopContainerClass}>
-            {filteredWorkshops.map((workshop) => (
-              <div
-                key={workshop.id}
-                className={`glass-effect rounded-2xl overflow-hidden hover-lift transition-all p-6 ${
-                  layoutMode === 'list' ? 'md:flex md:items-center md:justify-between' : ''
-                }`}
-              >
-                <div>
-                  <h3 className="text-xl font-semibold text-white mb-2">{workshop.title}</h3>
-                  <div className="text-gray-300 text-sm space-y-1">
-                    <div>{workshop.date} at {workshop.time}</div>
-                    <div>{workshop.duration} • {workshop.spots} spots left</div>
-                    <div>by {workshop.instructor}</div>
-                  </div>
-                </div>
-                <div className="mt-4 md:mt-0 md:text-right">
-                  <div className="flex items-center justify-start md:justify-end gap-2 text-sm text-gray-300 mb-2">
-                    <MapPin className="w-4 h-4" />
-                    <span>{workshop.location}</span>
-                  </div>
-                  <div className="flex items-center justify-between md:justify-end md:gap-4">
-                    <span className="text-rose-400 font-bold">UGX --</span>
-                    <button className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg hover:shadow-lg transition-all">
-                      Register
-                    </button>
-                  </div>
-                </div>
-              </div>
-            ))}
-            {filteredWorkshops.length === 0 && (
-              <div className="glass-effect rounded-2xl p-8 text-center text-gray-300">
-                No workshops match your filters right now.
+          <div className="space-y-6">
+            {user && (
+              <div className="flex justify-end">
+                <button
+                  onClick={() => {
+                    setEditingWorkshop(null);
+                    setShowWorkshopModal(true);
+                  }}
+                  className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg hover:shadow-lg transition-all"
+                >
+                  <Plus className="w-4 h-4" />
+                  Schedule Workshop
+                </button>
               </div>
             )}
+
+            <div className={workshopContainerClass}>
+              {filteredWorkshops.map((workshop) => {
+                const isHost = user?.id === workshop.host_id;
+                const registration = workshopRegistrations[workshop.id];
+                const isOver = isWorkshopOver(workshop);
+                const spotsLeft = Math.max(0, workshop.capacity - workshop.registered_count);
+                const viewerTime = formatWorkshopTime(workshop.starts_at);
+                const hostTime = formatWorkshopTime(workshop.starts_at, workshop.timezone);
+                const isBusy = workshopBusyId === workshop.id;
+
+                return (
+                  <div
+                    key={workshop.id}
+                    className={`glass-effect rounded-2xl overflow-hidden hover-lift transition-all p-6 ${
+                      layoutMode === 'list' ? 'md:flex md:items-center md:justify-between' : ''
+                    }`}
+                  >
+                    <div>
+                      <h3 className="text-xl font-semibold text-white mb-2">{workshop.title}</h3>
+                      <div className="text-gray-300 text-sm space-y-1">
+                        <div>{viewerTime}</div>
+                        {hostTime !== viewerTime && <div className="text-xs text-gray-400">Host time: {hostTime}</div>}
+                        <div>
+                          {workshop.duration_minutes} min •{' '}
+                          {isOver ? `${workshop.registered_count} registered` : `${spotsLeft} spots left`}
+                        </div>
+                        <div>by {workshop.host_name || 'Host'}</div>
+                      </div>
+                    </div>
+                    <div className="mt-4 md:mt-0 md:text-right">
+                      {workshop.location && (
+                        <div className="flex items-center justify-start md:justify-end gap-2 text-sm text-gray-300 mb-2">
+                          <MapPin className="w-4 h-4" />
+                          <span>{workshop.location}</span>
+                        </div>
+                      )}
+                      <div className="flex flex-wrap items-center justify-between md:justify-end gap-2 md:gap-4">
+                        <span className="text-rose-400 font-bold">
+                          {Number(workshop.price) > 0
+                            ? `${workshop.currency} ${Number(workshop.price).toLocaleString()}`
+                            : 'Free'}
+                        </span>
+                        {isHost ? (
+                          <div className="flex items-center gap-2">
+                            {!isOver && (
+                              <button
+                                onClick={() => {
+                                  setEditingWorkshop(workshop);
+                                  setShowWorkshopModal(true);
+                                }}
+                                className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+                                title="Edit workshop"
+                              >
+                                <Edit3 className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setManagingWorkshop(workshop)}
+                              className="flex items-center gap-2 px-4 py-2 bg-white/10 text-white text-sm rounded-lg hover:bg-white/20 transition-all"
+                            >
+                              <Settings className="w-4 h-4" />
+                              Manage
+                            </button>
+                          </div>
+                        ) : registration ? (
+                          isOver ? (
+                            workshop.has_recording ? (
+                              <button
+                                onClick={() => handleWorkshopReplay(workshop)}
+                                disabled={isBusy}
+                                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+                              >
+                                <Play className="w-4 h-4" />
+                                Watch Replay
+                              </button>
+                            ) : (
+                              <span className="text-sm text-gray-400">Recording coming soon</span>
+                            )
+                          ) : isWorkshopJoinable(workshop) ? (
+                            <button
+                              onClick={() => handleWorkshopJoin(workshop)}
+                              disabled={isBusy}
+                              className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white text-sm rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+                            >
+                              <Video className="w-4 h-4" />
+                              Join Now
+                            </button>
+                          ) : (
+                            <div className="flex items-center gap-3">
+                              <span className="flex items-center gap-1 text-sm text-green-400">
+                                <CheckCircle className="w-4 h-4" />
+                                Registered
+                              </span>
+                              {Number(registration.price_paid) === 0 && (
+                                <button
+                                  onClick={() => handleWorkshopCancelRegistration(workshop)}
+                                  disabled={isBusy}
+                                  className="text-xs text-gray-400 hover:text-white disabled:opacity-60"
+                                >
+                                  Cancel
+                                </button>
+                              )}
+                            </div>
+                          )
+                        ) : isOver ? (
+                          <span className="text-sm text-gray-400">Ended</span>
+                        ) : spotsLeft === 0 ? (
+                          <span className="text-sm text-gray-400">Full</span>
+                        ) : (
+                          <button
+                            onClick={() => handleWorkshopRegister(workshop)}
+                            disabled={isBusy}
+                            className="px-4 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white text-sm rounded-lg hover:shadow-lg transition-all disabled:opacity-60"
+                          >
+                            Register
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              {!loadingWorkshops && filteredWorkshops.length === 0 && (
+                <div className="glass-effect rounded-2xl p-8 text-center text-gray-300">
+                  No workshops match your filters right now.
+                </div>
+              )}
+            </div>
           </div>
         )}
 
@@ -1521,10 +1790,13 @@ export default function Masterclass() {
                     <h3 className="text-white font-semibold mb-1">Manage Courses</h3>
                     <p className="text-gray-400 text-sm">Create and edit your courses</p>
                   </button>
-                  <button className="p-6 bg-white/5 rounded-xl hover:bg-white/10 transition-colors text-left">
-                    <Users className="w-8 h-8 text-rose-400 mb-2" />
-                    <h3 className="text-white font-semibold mb-1">View Students</h3>
-                    <p className="text-gray-400 text-sm">Track student progress</p>
+                  <button
+                    onClick={() => setShowCourseAnalytics(true)}
+                    className="p-6 bg-white/5 rounded-xl hover:bg-white/10 transition-colors text-left"
+                  >
+                    <BarChart3 className="w-8 h-8 text-rose-400 mb-2" />
+                    <h3 className="text-white font-semibold mb-1">Course Analytics</h3>
+                    <p className="text-gray-400 text-sm">Enrollments, revenue and where students drop off</p>
                   </button>
                   <button className="p-6 bg-white/5 rounded-xl hover:bg-white/10 transition-colors text-left">
                     <Award className="w-8 h-8 text-rose-400 mb-2" />
@@ -1545,20 +1817,183 @@ export default function Masterclass() {
           </div>
         )}
 
+        {viewMode === 'paths' && (
+          <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <p className="text-gray-300">
+                Follow a curated sequence of courses, or get several courses together for less.
+              </p>
+              {user && (
+                <button
+                  onClick={() => {
+                    setEditingPath(null);
+                    setShowPathEditor(true);
+                  }}
+                  className="inline-flex items-center gap-2 px-5 py-2 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-xl hover:shadow-lg transition-all"
+                >
+                  <Plus className="w-4 h-4" />
+                  Create Path
+                </button>
+              )}
+            </div>
+
+            {loadingPaths && learningPaths.length === 0 ? (
+              <div className="glass-effect rounded-2xl p-8 text-center text-gray-300">Loading learning paths...</div>
+            ) : filteredPaths.length === 0 ? (
+              <div className="glass-effect rounded-2xl p-8 text-center text-gray-300">No learning paths yet.</div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+                {filteredPaths.map((path) => {
+                  const enrollment = pathEnrollments[path.id];
+                  const canEdit = user?.id === path.owner_id || isAdmin;
+
+                  return (
+                    <div key={path.id} className="glass-effect rounded-xl overflow-hidden flex flex-col">
+                      {path.thumbnail_url && (
+                        <img src={path.thumbnail_url} alt={path.title} className="w-full h-40 object-cover" />
+                      )}
+                      <div className="p-6 flex flex-col flex-1">
+                        <div className="flex items-center gap-2 mb-2">
+                          <span className="text-xs px-2 py-1 rounded-full bg-rose-500/20 text-rose-300">
+                            {path.path_type === 'bundle' ? 'Bundle' : 'Learning Path'}
+                          </span>
+                          {!path.is_published && (
+                            <span className="text-xs px-2 py-1 rounded-full bg-gray-500/20 text-gray-300">Draft</span>
+                          )}
+                        </div>
+                        <h3 className="text-lg font-semibold text-white">{path.title}</h3>
+                        <p className="text-sm text-gray-400 mt-1">
+                          {path.courses.length} courses
+                          {path.courses[0]?.course ? ` · starts with ${path.courses[0].course.title}` : ''}
+                        </p>
+
+                        {enrollment && (
+                          <div className="mt-4">
+                            <div className="flex justify-between text-xs text-gray-300 mb-1">
+                              <span>{enrollment.completed_at ? 'Completed' : 'In progress'}</span>
+                              <span>{enrollment.progress_percentage}%</span>
+                            </div>
+                            <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-rose-500 to-purple-600"
+                                style={{ width: `${enrollment.progress_percentage}%` }}
+                              />
+                            </div>
+                          </div>
+                        )}
+
+                        <div className="flex items-center justify-between mt-auto pt-4">
+                          <span className="text-sm text-rose-400 font-semibold">
+                            {path.price > 0 ? `${path.currency} ${path.price.toLocaleString()}` : 'Free'}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            {canEdit && (
+                              <button
+                                onClick={() => {
+                                  setEditingPath(path);
+                                  setShowPathEditor(true);
+                                }}
+                                className="p-2 text-gray-300 hover:text-white"
+                                title="Edit"
+                              >
+                                <Edit3 className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setOpenPath(path)}
+                              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm font-semibold rounded-lg hover:shadow-xl transition-all"
+                            >
+                              {enrollment ? 'Continue' : 'View'}
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {viewMode === 'mentorship' && (
-          <div className="max-w-4xl mx-auto">
-            <div className="glass-effect p-8 rounded-2xl text-center mb-8">
+          <div className="max-w-4xl mx-auto space-y-8">
+            <div className="glass-effect p-8 rounded-2xl text-center">
               <Users className="w-16 h-16 text-purple-400 mx-auto mb-4" />
               <h2 className="text-3xl font-playfair font-bold text-white mb-4">Find Mentorship</h2>
               <p className="text-gray-300 mb-6">
-                Get personalized guidance from industry professionals to accelerate your career growth and achieve your goals.
+                Book one-on-one sessions with industry professionals to accelerate your career growth and achieve your goals.
               </p>
-              <button
-                onClick={handleMentorshipClick}
-                className="px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-600 text-white font-semibold rounded-xl hover:shadow-xl transition-all"
-              >
-                Apply
-              </button>
+              {user && (
+                <button
+                  onClick={() => setShowMentorSettings(true)}
+                  className="inline-flex items-center gap-2 px-6 py-2 border border-white/20 text-gray-200 rounded-xl hover:bg-white/10 transition-all"
+                >
+                  <Settings className="w-4 h-4" />
+                  {mentors.some((mentor) => mentor.user_id === user.id) ? 'Mentor Settings' : 'Become a Mentor'}
+                </button>
+              )}
+            </div>
+
+            {user && mentorshipBookings.length > 0 && (
+              <div>
+                <h3 className="text-xl font-semibold text-white mb-4">My Sessions</h3>
+                <MentorshipBookingsList
+                  userId={user.id}
+                  bookings={mentorshipBookings}
+                  onOpenBooking={setOpenBooking}
+                  onChanged={handleMentorshipChanged}
+                />
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-xl font-semibold text-white mb-4">Mentors</h3>
+              {loadingMentors && mentors.length === 0 ? (
+                <div className="glass-effect rounded-2xl p-8 text-center text-gray-300">Loading mentors...</div>
+              ) : filteredMentors.length === 0 ? (
+                <div className="glass-effect rounded-2xl p-8 text-center text-gray-300">
+                  No mentors are taking bookings right now.
+                </div>
+              ) : (
+                <div className="grid md:grid-cols-2 gap-6">
+                  {filteredMentors.map((mentor) => {
+                    const prices = mentor.session_types.map((type) => Number(type.price));
+                    const lowest = Math.min(...prices);
+                    const lowestType = mentor.session_types[prices.indexOf(lowest)];
+
+                    return (
+                      <div key={mentor.user_id} className="glass-effect p-6 rounded-xl flex flex-col">
+                        <h4 className="text-lg font-semibold text-white">{mentor.display_name}</h4>
+                        {mentor.headline && <p className="text-sm text-gray-300 mt-1">{mentor.headline}</p>}
+                        {mentor.expertise.length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-3">
+                            {mentor.expertise.map((skill) => (
+                              <span key={skill} className="text-xs px-2 py-1 rounded-full bg-white/10 text-gray-200">
+                                {skill}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {mentor.bio && <p className="text-sm text-gray-400 mt-3 line-clamp-3">{mentor.bio}</p>}
+                        <div className="flex items-center justify-between mt-auto pt-4">
+                          <span className="text-sm text-rose-400 font-semibold">
+                            {lowest > 0 ? `From ${lowestType.currency} ${lowest.toLocaleString()}` : 'Free sessions available'}
+                          </span>
+                          {user?.id !== mentor.user_id && (
+                            <button
+                              onClick={() => handleBookMentor(mentor)}
+                              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-600 text-white text-sm font-semibold rounded-lg hover:shadow-xl transition-all"
+                            >
+                              Book
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
 
             <div className="grid md:grid-cols-2 gap-6">
@@ -1587,6 +2022,84 @@ export default function Masterclass() {
         )}
       </div>
 
+      <WorkshopSessionModal
+        isOpen={showWorkshopModal}
+        session={editingWorkshop}
+        categories={courseCategories
+          .filter((category) => category !== 'all')
+          .map((category) => ({ value: category, label: getCategoryLabel(category) }))}
+        onClose={() => setShowWorkshopModal(false)}
+        onSaved={() => loadWorkshops()}
+      />
+
+      {user && (
+        <WorkshopManageModal
+          session={managingWorkshop}
+          userId={user.id}
+          onClose={() => setManagingWorkshop(null)}
+          onChanged={loadWorkshops}
+        />
+      )}
+
+      <WorkshopRegistrationModal session={checkoutWorkshop} onClose={() => setCheckoutWorkshop(null)} />
+
+      <MentorshipBookingModal
+        mentor={bookingMentor}
+        booking={openBooking}
+        onClose={() => {
+          setBookingMentor(null);
+          setOpenBooking(null);
+        }}
+        onChanged={handleMentorshipChanged}
+      />
+
+      <CourseAnalyticsModal isOpen={showCourseAnalytics} onClose={() => setShowCourseAnalytics(false)} />
+
+      <LearningPathModal
+        path={openPath}
+        enrollment={openPath ? pathEnrollments[openPath.id] || null : null}
+        onClose={() => setOpenPath(null)}
+        onChanged={handleLearningPathChanged}
+      />
+
+      {user && (
+        <LearningPathEditorModal
+          isOpen={showPathEditor}
+          userId={user.id}
+          isAdmin={isAdmin}
+          path={editingPath}
+          onClose={() => setShowPathEditor(false)}
+          onSaved={handleLearningPathChanged}
+        />
+      )}
+
+      {user && (
+        <MentorSettingsModal
+          isOpen={showMentorSettings}
+          userId={user.id}
+          defaultName={profile?.name || ''}
+          onClose={() => setShowMentorSettings(false)}
+          onSaved={() => handleMentorshipChanged('Mentor settings saved')}
+        />
+      )}
+
+      {replayWorkshop && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="w-full max-w-4xl">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-white">{replayWorkshop.session.title}</h3>
+              <button
+                onClick={() => setReplayWorkshop(null)}
+                className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <MuxPlayer playbackId={replayWorkshop.playbackId} title={replayWorkshop.session.title} />
+          </div>
+        </div>
+      )}
+
       {/* Toast for wishlist actions */}
       {toastMessage && (
         <div className="fixed bottom-6 right-6 z-50">
@@ -1596,59 +2109,6 @@ export default function Masterclass() {
         </div>
       )}
 
-      {showMentorshipModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="glass-effect p-6 rounded-2xl max-w-md w-full">
-            {!mentorshipRequestSent ? (
-              <>
-                <h3 className="text-xl font-semibold text-white mb-4">Request Mentorship</h3>
-                <p className="text-gray-300 mb-4">
-                  Submit a request for mentorship below
-                </p>
-                <form onSubmit={handleMentorshipRequest}>
-                  <div className="space-y-4">
-                    <textarea
-                      className="w-full h-24 bg-transparent border border-gray-600 rounded-lg p-3 text-white resize-none focus:border-rose-400 outline-none"
-                      placeholder="What do you need help with?"
-                      required
-                    ></textarea>
-                    <button
-                      type="submit"
-                      className="w-full py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white font-semibold rounded-xl hover:shadow-xl transition-all"
-                    >
-                      Submit
-                    </button>
-                  </div>
-                </form>
-              </>
-            ) : (
-              <div>
-                <h3 className="text-xl font-semibold text-white mb-4">Request Sent!</h3>
-                <p className="text-gray-300 mb-4">
-                  Your mentorship request has been received for review. We will notify you once it's approved.
-                </p>
-                <p className="text-yellow-400 text-sm mb-4">
-                  Please note: Mentorship is a premium feature.
-                </p>
-                <div className="flex space-x-3">
-                  <button
-                    onClick={() => setShowMentorshipModal(false)}
-                    className="flex-1 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
-                  >
-                    Close
-                  </button>
-                  <button
-                    className="flex-1 py-2 bg-gradient-to-r from-yellow-400 to-orange-500 text-black font-semibold rounded-xl hover:shadow-xl transition-all"
-                  >
-                    Upgrade to Premium
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
-      )}
-
       {/* Upload Content Modal */}
       {showUploadModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -2239,6 +2699,7 @@ export default function Masterclass() {
       {editingCourse && (
         <EditMasterclassContentModal
           isOpen={!!editingCourse}
+          courseId={editingCourse.id}
           title={editingCourse.title}
           description={editingCourse.description}
           category={editingCourse.category}
@@ -2252,6 +2713,7 @@ export default function Masterclass() {
           contentUrl={editingCourse.content_url}
           coursePrice={editingCourse.course_price}
           courseCurrency={editingCourse.course_currency || 'UGX'}
+          completionThresholdPercent={editingCourse.completion_threshold_percent}
           userId={user?.id}
           onSave={handleEditCourseSave}
           onDelete={() => handleDeleteCourse(editingCourse.id)}
@@ -126,10 +126,7 @@ export default function MembersMembership() {
   };
 
   const handleSelectTier = (tier: MemberTier) => {
-    if (tier === currentMemberTier && hasActiveSubscription) {
-      addToast('You are already on this tier', 'error');
-      return;
-    }
+    // Selecting the current tier opens the modal to switch billing cycle
     setSelectedTier(tier);
     setShowPaymentModal(true);
   };
@@ -264,23 +261,27 @@ export default function MembersMembership() {
                   {/* Action Button */}
                   <button
                     onClick={() => handleSelectTier(tier)}
-                    disabled={isCurrentTier}
                     className={`w-full py-3 px-4 rounded-lg font-semibold transition-all flex items-center justify-center gap-2 ${
                       isCurrentTier
-                        ? 'bg-white/10 text-gray-300 cursor-not-allowed border border-white/10'
+                        ? 'bg-white/10 text-gray-300 hover:bg-white/15 border border-white/10'
                         : `bg-gradient-to-r ${tierColors.accentColor} text-white hover:shadow-xl hover:shadow-${tierColors.color}/50 transform hover:scale-105`
                     }`}
                   >
                     {isCurrentTier ? (
                       <>
                         <CheckCircle className="w-5 h-5" />
-                        Your Current Tier
+                        Your Current Tier · Change Billing
                       </>
                     ) : hasActiveSubscription && isValidTierUpgrade(currentMemberTier, tier) ? (
                       <>
                         <TrendingUp className="w-5 h-5" />
                         Upgrade Now
                       </>
+                    ) : hasActiveSubscription ? (
+                      <>
+                        <Users className="w-5 h-5" />
+                        Switch at Renewal
+                      </>
                     ) : (
                       <>
                         <Users className="w-5 h-5" />
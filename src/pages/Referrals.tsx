@@ -0,0 +1,190 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Check, Crown, Gift, Users, Wallet } from 'lucide-react';
+import { useReferralCode } from '../hooks/useReferralCode';
+import { useReferrals } from '../hooks/useReferrals';
+import { Referral, ReferralRewardRule } from '../lib/referralService';
+
+const ITEM_LABELS: Record<ReferralRewardRule['item_type'], string> = {
+  creator_membership: 'Creator membership',
+  member_membership: 'Member membership',
+  course_enrollment: 'Course enrollment',
+};
+
+function describeReward(reward: {
+  reward_type: ReferralRewardRule['reward_type'] | null;
+  points: number | null;
+  credit_amount: number | null;
+  credit_currency: string | null;
+}): string {
+  if (reward.reward_type === 'loyalty_points') return `${reward.points || 0} points`;
+  if (reward.reward_type === 'account_credit') {
+    return `${reward.credit_currency} ${Number(reward.credit_amount || 0).toLocaleString()} credit`;
+  }
+  return '—';
+}
+
+function payoutBadge(referral: Referral) {
+  if (referral.status !== 'converted') {
+    return <span className="px-2 py-1 rounded-full text-xs bg-white/10 text-gray-300">Awaiting first purchase</span>;
+  }
+  if (!referral.payout_status) {
+    return <span className="px-2 py-1 rounded-full text-xs bg-white/10 text-gray-300">No reward</span>;
+  }
+
+  const styles: Record<string, string> = {
+    paid: 'bg-green-500/20 text-green-300',
+    pending: 'bg-yellow-500/20 text-yellow-300',
+    cancelled: 'bg-red-500/20 text-red-300',
+  };
+  const labels: Record<string, string> = {
+    paid: 'Paid',
+    pending: 'Payout pending',
+    cancelled: 'Cancelled',
+  };
+
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs ${styles[referral.payout_status]}`}>
+      {labels[referral.payout_status]}
+    </span>
+  );
+}
+
+export default function Referrals() {
+  const { referralCode, referralLink, copyToClipboard } = useReferralCode();
+  const { referrals, rewardRules, totals, loading } = useReferrals();
+  const [copied, setCopied] = React.useState(false);
+
+  const handleCopy = async () => {
+    if (!referralLink) return;
+    if (await copyToClipboard(referralLink)) {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  const stats = [
+    { label: 'Friends Joined', value: totals.signedUp, icon: <Users className="w-5 h-5" /> },
+    { label: 'Converted', value: totals.converted, icon: <Check className="w-5 h-5" /> },
+    { label: 'Points Earned', value: totals.pointsEarned.toLocaleString(), icon: <Crown className="w-5 h-5" /> },
+    { label: 'Pending Payouts', value: totals.creditPending.length, icon: <Wallet className="w-5 h-5" /> },
+  ];
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950">
+      <div className="max-w-5xl mx-auto">
+        <Link to="/dashboard" className="inline-flex items-center gap-2 text-gray-400 hover:text-white text-sm mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to dashboard
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-4xl font-playfair font-bold text-white mb-2">
+            Your <span className="gradient-text">Referrals</span>
+          </h1>
+          <p className="text-gray-300">
+            Share your link. When a friend you invite makes their first paid membership or course enrollment, you
+            are rewarded.
+          </p>
+        </div>
+
+        {/* Share link */}
+        <div className="glass-effect p-6 rounded-xl mb-8">
+          <div className="flex items-center gap-2 mb-4">
+            <Gift className="w-5 h-5 text-rose-400" />
+            <h3 className="text-lg font-semibold text-white">Your invite link</h3>
+            {referralCode && <span className="text-gray-400 text-sm">({referralCode})</span>}
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={referralLink || 'Loading...'}
+              readOnly
+              className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+            />
+            <button
+              onClick={handleCopy}
+              className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium ${
+                copied ? 'bg-green-500 text-white' : 'bg-rose-500 text-white hover:bg-rose-600'
+              }`}
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+          {rewardRules.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm text-gray-400">
+              {rewardRules.map((rule) => (
+                <li key={rule.item_type}>
+                  {ITEM_LABELS[rule.item_type]}:{' '}
+                  <span className="text-white">
+                    {describeReward({
+                      reward_type: rule.reward_type,
+                      points: rule.points,
+                      credit_amount: rule.credit_amount,
+                      credit_currency: rule.credit_currency,
+                    })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          {stats.map((stat) => (
+            <div key={stat.label} className="glass-effect p-6 rounded-xl">
+              <div className="text-rose-400 mb-2">{stat.icon}</div>
+              <div className="text-2xl font-bold text-white mb-1">{stat.value}</div>
+              <div className="text-gray-400 text-sm">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Referral list */}
+        <div className="glass-effect p-6 rounded-xl">
+          <h3 className="text-lg font-semibold text-white mb-4">People you invited</h3>
+          {loading ? (
+            <p className="text-gray-400 text-sm">Loading referrals...</p>
+          ) : referrals.length === 0 ? (
+            <p className="text-gray-400 text-sm">No referrals yet. Share your link to get started!</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">Friend</th>
+                    <th className="py-2 pr-4 font-medium">Joined</th>
+                    <th className="py-2 pr-4 font-medium">First purchase</th>
+                    <th className="py-2 pr-4 font-medium">Reward</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {referrals.map((referral) => (
+                    <tr key={referral.referral_id} className="border-b border-white/5 text-gray-200">
+                      <td className="py-3 pr-4">{referral.referred_name}</td>
+                      <td className="py-3 pr-4">{new Date(referral.signed_up_at).toLocaleDateString()}</td>
+                      <td className="py-3 pr-4">
+                        {referral.converted_item_type ? ITEM_LABELS[referral.converted_item_type] : '—'}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {describeReward({
+                          reward_type: referral.reward_type,
+                          points: referral.reward_points,
+                          credit_amount: referral.reward_credit_amount,
+                          credit_currency: referral.reward_credit_currency,
+                        })}
+                      </td>
+                      <td className="py-3">{payoutBadge(referral)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
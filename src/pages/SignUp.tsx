@@ -1,7 +1,12 @@
-import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
-import { Crown, User, Eye, EyeOff } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Crown, User, Eye, EyeOff, Gift } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import {
+  clearPendingReferralCode,
+  getPendingReferralCode,
+  storePendingReferralCode,
+} from '../lib/referralService';
 
 export default function SignUp() {
   const [formData, setFormData] = useState({
@@ -18,6 +23,14 @@ export default function SignUp() {
   const [loading, setLoading] = useState(false);
   const { signUp } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const refParam = searchParams.get('ref');
+  const referralCode = refParam?.trim().toUpperCase() || getPendingReferralCode();
+
+  // Keep the ?ref= code if the visitor browses around before signing up
+  useEffect(() => {
+    if (refParam) storePendingReferralCode(refParam);
+  }, [refParam]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,7 +48,8 @@ export default function SignUp() {
 
     setLoading(true);
     try {
-      await signUp(formData);
+      await signUp({ ...formData, referralCode: referralCode || undefined });
+      clearPendingReferralCode();
       if (formData.accountType === 'creator') {
         navigate('/dashboard');
       } else {
@@ -73,6 +87,15 @@ export default function SignUp() {
             <p className="text-gray-300">Create your account and start your journey</p>
           </div>
 
+          {referralCode && (
+            <div className="mb-6 flex items-center justify-center gap-2 px-4 py-3 bg-rose-500/10 border border-rose-400/30 rounded-xl text-sm text-rose-200">
+              <Gift className="w-4 h-4" />
+              <span>
+                You were invited with code <span className="font-semibold">{referralCode}</span>
+              </span>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Account Type Selection */}
             <div>
@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, Download, Loader, RotateCcw, ShieldAlert, ShieldCheck } from 'lucide-react';
+import {
+  CertificateVerification,
+  createCertificate,
+  revokeCertificate,
+  verifyCertificate,
+} from '../lib/certificateService';
+import { useAuth } from '../context/AuthContext';
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+// Public page linked from the PDF; anyone with the number can check it
+export default function VerifyCertificate() {
+  const { certificateNumber } = useParams<{ certificateNumber: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const [verification, setVerification] = useState<CertificateVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showRevokeForm, setShowRevokeForm] = useState(false);
+  const [revokeReason, setRevokeReason] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+  const [isReissuing, setIsReissuing] = useState(false);
+
+  // Re-run when the user signs in so can_revoke reflects who is looking
+  useEffect(() => {
+    if (!certificateNumber) return;
+
+    let cancelled = false;
+    setLoading(true);
+    verifyCertificate(certificateNumber).then((result) => {
+      if (cancelled) return;
+      setVerification(result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [certificateNumber, user?.id]);
+
+  const handleRevoke = async () => {
+    if (!verification || !revokeReason.trim()) return;
+
+    setIsRevoking(true);
+    setRevokeError(null);
+    const result = await revokeCertificate(verification.id, revokeReason.trim());
+    setIsRevoking(false);
+
+    if (!result.success) {
+      setRevokeError(result.error || 'Failed to revoke certificate');
+      return;
+    }
+
+    setShowRevokeForm(false);
+    setRevokeReason('');
+    setVerification(await verifyCertificate(verification.certificate_number));
+  };
+
+  const handleReissue = async () => {
+    if (!verification?.enrollment_id) return;
+
+    setIsReissuing(true);
+    setRevokeError(null);
+    const result = await createCertificate(verification.enrollment_id);
+    setIsReissuing(false);
+
+    if (!result.success || !result.certificate) {
+      setRevokeError(result.error || 'Failed to re-issue certificate');
+      return;
+    }
+
+    navigate(`/verify/${result.certificate.certificate_number}`);
+  };
+
+  return (
+    <div className="min-h-screen pt-20 pb-12 px-4 bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-3xl font-bold text-white mb-2">Certificate Verification</h1>
+        <p className="text-gray-400 mb-8 font-mono text-sm">{certificateNumber}</p>
+
+        {loading ? (
+          <div className="glass-effect p-12 rounded-2xl flex justify-center">
+            <Loader className="w-8 h-8 text-purple-400 animate-spin" />
+          </div>
+        ) : !verification ? (
+          <div className="glass-effect p-8 rounded-2xl text-center">
+            <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">Certificate not found</h2>
+            <p className="text-gray-400">
+              No certificate was issued with this number. Check it against the one printed on the certificate.
+            </p>
+          </div>
+        ) : (
+          <div className="glass-effect p-8 rounded-2xl">
+            {/* Status */}
+            {verification.status === 'valid' ? (
+              <div className="mb-8 p-4 rounded-lg border bg-green-400/10 border-green-400/30 flex items-center gap-3">
+                <ShieldCheck className="w-8 h-8 text-green-400 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-green-300">Valid certificate</p>
+                  <p className="text-sm text-gray-400">This certificate was issued by Talent Connections.</p>
+                </div>
+              </div>
+            ) : (
+              <div className="mb-8 p-4 rounded-lg border bg-red-400/10 border-red-400/30 flex items-center gap-3">
+                <ShieldAlert className="w-8 h-8 text-red-400 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-red-300">
+                    Revoked
+                    {verification.revoked_at ? ` on ${formatDate(verification.revoked_at)}` : ''}
+                  </p>
+                  {verification.revoked_reason && (
+                    <p className="text-sm text-gray-400">{verification.revoked_reason}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Details */}
+            <div className="space-y-4">
+              <div className="pb-4 border-b border-gray-700">
+                <p className="text-gray-400 text-sm mb-1">Awarded to</p>
+                <p className="text-white text-xl font-semibold">{verification.holder_name}</p>
+              </div>
+              <div className="pb-4 border-b border-gray-700">
+                <p className="text-gray-400 text-sm mb-1">{verification.learning_path_id ? 'Learning path' : 'Course'}</p>
+                {verification.course_id ? (
+                  <Link to={`/course/${verification.course_id}`} className="text-white font-medium hover:text-purple-300">
+                    {verification.course_title}
+                  </Link>
+                ) : (
+                  <p className="text-white font-medium">{verification.course_title}</p>
+                )}
+              </div>
+              {verification.instructor_name && (
+                <div className="pb-4 border-b border-gray-700">
+                  <p className="text-gray-400 text-sm mb-1">Instructor</p>
+                  <p className="text-white font-medium">{verification.instructor_name}</p>
+                </div>
+              )}
+              <div>
+                <p className="text-gray-400 text-sm mb-1">Issued</p>
+                <p className="text-white font-medium">{formatDate(verification.issued_at)}</p>
+              </div>
+            </div>
+
+            {verification.download_url && (
+              <a
+                href={verification.download_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-8 w-full px-4 py-3 bg-gradient-to-r from-rose-500 to-purple-600 text-white rounded-lg hover:shadow-lg transition-all font-medium flex items-center justify-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                View Certificate PDF
+              </a>
+            )}
+
+            {/* Revocation (course instructor or admin) */}
+            {verification.can_revoke && verification.status === 'valid' && (
+              <div className="mt-8 pt-6 border-t border-gray-700">
+                {showRevokeForm ? (
+                  <div className="space-y-3">
+                    <label className="block text-sm text-gray-300">Reason for revoking</label>
+                    <textarea
+                      value={revokeReason}
+                      onChange={(e) => setRevokeReason(e.target.value)}
+                      rows={3}
+                      className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm"
+                      placeholder="Shown to anyone who verifies this certificate"
+                      disabled={isRevoking}
+                    />
+                    {revokeError && (
+                      <p className="text-red-400 text-sm flex items-center gap-1">
+                        <AlertCircle className="w-4 h-4" />
+                        {revokeError}
+                      </p>
+                    )}
+                    <div className="flex gap-3">
+                      <button
+                        onClick={handleRevoke}
+                        disabled={isRevoking || !revokeReason.trim()}
+                        className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium disabled:opacity-50"
+                      >
+                        {isRevoking ? 'Revoking...' : 'Revoke Certificate'}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setShowRevokeForm(false);
+                          setRevokeError(null);
+                        }}
+                        disabled={isRevoking}
+                        className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowRevokeForm(true)}
+                    className="text-sm text-red-400 hover:text-red-300 flex items-center gap-1"
+                  >
+                    <ShieldAlert className="w-4 h-4" />
+                    Revoke this certificate
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Re-issue (course instructor or admin); the student can't after a revocation */}
+            {verification.can_revoke && verification.status === 'revoked' && verification.enrollment_id && (
+              <div className="mt-8 pt-6 border-t border-gray-700 space-y-3">
+                {revokeError && (
+                  <p className="text-red-400 text-sm flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {revokeError}
+                  </p>
+                )}
+                <button
+                  onClick={handleReissue}
+                  disabled={isReissuing}
+                  className="text-sm text-purple-300 hover:text-purple-200 flex items-center gap-1 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {isReissuing ? 'Re-issuing...' : 'Issue a new certificate for this enrollment'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
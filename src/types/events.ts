@@ -28,10 +28,31 @@ export interface Event {
   published_at?: string;
   deleted_from_join_tab_at?: string;
   deleted_from_my_events_at?: string;
+  /** RFC 5545 RRULE value without the "RRULE:" prefix; NULL for one-off events */
+  recurrence_rule?: string | null;
+  /** Skipped occurrences (YYYY-MM-DD) */
+  recurrence_exdates?: string[];
+  /** Embedded when the query selects them */
+  occurrence_overrides?: EventOccurrenceOverride[];
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * A single occurrence of a recurring event moved to another date/time or
+ * changed; occurrence_date is the date it has in the series
+ */
+export interface EventOccurrenceOverride {
+  id: string;
+  event_id: string;
+  occurrence_date: string;
+  event_date: string;
+  event_time: string | null;
+  title: string | null;
+  location: string | null;
+  description: string | null;
+}
+
 export interface EventMemory {
   id: string;
   event_id: string;
@@ -103,6 +124,8 @@ export interface CreateEventFormData {
   features: string[];
   isLivestream: boolean;
   livestreamLink?: string;
+  /** RRULE value, or null for a one-off event */
+  recurrenceRule?: string | null;
 }
 
 export interface EventBooking {
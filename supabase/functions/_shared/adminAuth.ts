@@ -0,0 +1,18 @@
+import { User } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+/**
+ * Admins are users with role=admin in their app metadata, or whose email is
+ * listed in the comma-separated ADMIN_EMAILS secret. User metadata is not
+ * trusted: users can edit their own with auth.updateUser.
+ */
+export function isAdminUser(user: User): boolean {
+  const adminEmails = (Deno.env.get("ADMIN_EMAILS") ?? "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+
+  return (
+    user.app_metadata?.role === "admin" ||
+    (!!user.email && adminEmails.includes(user.email.toLowerCase()))
+  );
+}
@@ -0,0 +1,438 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { EmailDeliveryError, EmailTransport, emailSender } from "./emailTransport.ts";
+import {
+  EmailTemplate,
+  RenderedEmail,
+  renderCertificateEmail,
+  renderEventReminderEmail,
+  renderInvoiceEmail,
+  renderReceiptEmail,
+} from "./emailTemplates.ts";
+
+/**
+ * Transactional email outbox (database/043_transactional_email.sql)
+ *
+ * Database triggers queue an email when an invoice, completed payment or
+ * certificate is written; due event reminders are queued at the start of
+ * every run. The worker renders each claimed email from the row it is
+ * about, so the email always shows the stored document, and sends it
+ * through the configured transport.
+ *
+ * A failed send is retried with exponential backoff and dead-lettered
+ * after max_attempts. A permanent SMTP rejection is recorded as a hard
+ * bounce, which suppresses the address for every later email.
+ */
+
+export type EmailStatus =
+  | "pending"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "dead_letter"
+  | "bounced"
+  | "suppressed"
+  | "cancelled";
+
+export interface OutboxEmail {
+  id: string;
+  template: EmailTemplate;
+  user_id: string | null;
+  recipient_email: string;
+  related_id: string;
+  template_data: { source?: string } | null;
+  status: EmailStatus;
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface OutboxRunSummary {
+  remindersQueued: number;
+  claimed: number;
+  sent: number;
+  failed: number;
+  deadLettered: number;
+  bounced: number;
+  skipped: number;
+}
+
+const RETRY_BASE_SECONDS = Number(Deno.env.get("EMAIL_RETRY_BASE_SECONDS") ?? "60");
+const RETRY_MAX_SECONDS = Number(Deno.env.get("EMAIL_RETRY_MAX_SECONDS") ?? String(6 * 60 * 60));
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped
+ */
+export function emailRetryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Queue due event reminders, then claim due emails and send them
+ */
+export async function processEmailOutbox(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  options: { limit?: number } = {}
+): Promise<OutboxRunSummary> {
+  const summary: OutboxRunSummary = {
+    remindersQueued: 0,
+    claimed: 0,
+    sent: 0,
+    failed: 0,
+    deadLettered: 0,
+    bounced: 0,
+    skipped: 0,
+  };
+
+  const { data: queued, error: reminderError } = await supabase.rpc("queue_due_event_reminder_emails");
+  if (reminderError) {
+    console.error("Failed to queue event reminder emails:", reminderError);
+  } else {
+    summary.remindersQueued = queued ?? 0;
+  }
+
+  const { data: claimed, error } = await supabase.rpc("claim_email_outbox", {
+    p_limit: options.limit ?? 20,
+  });
+
+  if (error) {
+    console.error("Failed to claim outbox emails:", error);
+    return summary;
+  }
+
+  for (const email of (claimed ?? []) as OutboxEmail[]) {
+    summary.claimed++;
+    const outcome = await deliverEmail(supabase, transport, email);
+    summary[outcome]++;
+  }
+
+  return summary;
+}
+
+async function deliverEmail(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  email: OutboxEmail
+): Promise<"sent" | "failed" | "deadLettered" | "bounced" | "skipped"> {
+  const { data: suppression } = await supabase
+    .from("email_suppressions")
+    .select("reason")
+    .eq("email", email.recipient_email.trim().toLowerCase())
+    .maybeSingle();
+
+  if (suppression) {
+    await finishEmail(supabase, email.id, "suppressed", `Address suppressed (${suppression.reason})`);
+    return "skipped";
+  }
+
+  const messageId = outboxMessageId(email.id);
+
+  try {
+    const rendered = await renderOutboxEmail(supabase, email);
+
+    if (!rendered) {
+      await finishEmail(supabase, email.id, "cancelled", "Nothing to send any more");
+      return "skipped";
+    }
+
+    await transport.send({ to: email.recipient_email, messageId, ...rendered });
+
+    await supabase
+      .from("email_outbox")
+      .update({
+        status: "sent",
+        sent_at: new Date().toISOString(),
+        subject: rendered.subject,
+        transport: transport.name,
+        message_id: messageId,
+        last_error: null,
+      })
+      .eq("id", email.id);
+
+    await afterEmailSent(supabase, email);
+    return "sent";
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    console.error(`Email ${email.id} attempt ${email.attempts} failed:`, message);
+
+    if (err instanceof EmailDeliveryError && err.permanent) {
+      await supabase.from("email_outbox").update({ message_id: messageId, last_error: message }).eq("id", email.id);
+      const { error: bounceError } = await supabase.rpc("record_email_bounce", {
+        p_email: email.recipient_email,
+        p_bounce_type: "hard",
+        p_reason: message,
+        p_outbox_id: email.id,
+      });
+      if (bounceError) console.error("Failed to record bounce:", bounceError);
+      return "bounced";
+    }
+
+    const exhausted = email.attempts >= email.max_attempts;
+
+    await supabase
+      .from("email_outbox")
+      .update(
+        exhausted
+          ? { status: "dead_letter", last_error: message }
+          : {
+              status: "failed",
+              next_attempt_at: new Date(Date.now() + emailRetryDelaySeconds(email.attempts) * 1000).toISOString(),
+              last_error: message,
+            }
+      )
+      .eq("id", email.id);
+
+    return exhausted ? "deadLettered" : "failed";
+  }
+}
+
+async function finishEmail(
+  supabase: SupabaseClient,
+  emailId: string,
+  status: "suppressed" | "cancelled",
+  reason: string
+): Promise<void> {
+  await supabase.from("email_outbox").update({ status, last_error: reason }).eq("id", emailId);
+}
+
+/**
+ * <outbox id@sender domain>, stored so bounce reports can find the email
+ */
+export function outboxMessageId(emailId: string): string {
+  const domain = emailSender().match(/@([^>\s]+)/)?.[1] ?? "localhost";
+  return `<${emailId}@${domain}>`;
+}
+
+/**
+ * Render an email from the row it is about. Returns null when there is
+ * nothing to send any more; throws when the row cannot be read (retried).
+ */
+async function renderOutboxEmail(supabase: SupabaseClient, email: OutboxEmail): Promise<RenderedEmail | null> {
+  const recipientName = await loadRecipientName(supabase, email.user_id);
+
+  switch (email.template) {
+    case "invoice":
+      return await renderInvoice(supabase, email.related_id, recipientName);
+    case "payment_receipt":
+      return await renderReceipt(supabase, email.related_id, email.template_data?.source ?? "payment_orders", recipientName);
+    case "certificate":
+      return await renderCertificate(supabase, email.related_id, recipientName);
+    case "event_reminder":
+      return await renderEventReminder(supabase, email.related_id, recipientName);
+    default:
+      throw new Error(`No template '${email.template}'`);
+  }
+}
+
+async function loadRecipientName(supabase: SupabaseClient, userId: string | null): Promise<string> {
+  if (!userId) return "";
+
+  const { data } = await supabase.from("profiles").select("name").eq("id", userId).maybeSingle();
+  return data?.name ?? "";
+}
+
+async function renderInvoice(
+  supabase: SupabaseClient,
+  invoiceId: string,
+  recipientName: string
+): Promise<RenderedEmail | null> {
+  const { data: invoice, error } = await supabase
+    .from("enrollment_invoices")
+    .select("*, lines:enrollment_invoice_lines(line_number, line_type, description, amount)")
+    .eq("id", invoiceId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Invoice lookup failed: ${error.message}`);
+  if (!invoice) return null;
+
+  const { data: course } = await supabase
+    .from("masterclass_page_content")
+    .select("title")
+    .eq("id", invoice.course_id)
+    .maybeSingle();
+
+  const lines = ((invoice.lines ?? []) as { line_number: number; line_type: string; description: string; amount: number }[])
+    .slice()
+    .sort((a, b) => a.line_number - b.line_number);
+
+  return renderInvoiceEmail({
+    recipientName,
+    invoiceNumber: invoice.invoice_number,
+    invoiceDate: invoice.invoice_date,
+    courseTitle: course?.title ?? "Course enrollment",
+    currency: invoice.currency,
+    subtotal: Number(invoice.subtotal_amount ?? invoice.amount),
+    taxLines: lines
+      .filter((line) => line.line_type !== "item")
+      .map((line) => ({ description: line.description, amount: Number(line.amount) })),
+    total: Number(invoice.amount),
+    withholding: Number(invoice.withholding_amount ?? 0),
+  });
+}
+
+const ORDER_DESCRIPTIONS: Record<string, string> = {
+  event_ticket: "Event ticket",
+  tip: "Tip",
+  workshop_registration: "Workshop seat",
+  mentorship_session: "Mentorship session",
+  learning_path: "Learning path",
+};
+
+async function renderReceipt(
+  supabase: SupabaseClient,
+  paymentId: string,
+  source: string,
+  recipientName: string
+): Promise<RenderedEmail | null> {
+  if (source === "payment_orders") {
+    const { data: order, error } = await supabase
+      .from("payment_orders")
+      .select("id, item_type, item_title, amount, currency, payment_method, completed_at")
+      .eq("id", paymentId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Order lookup failed: ${error.message}`);
+    if (!order) return null;
+
+    const label = ORDER_DESCRIPTIONS[order.item_type] ?? "Purchase";
+
+    return renderReceiptEmail({
+      recipientName,
+      description: order.item_title ? `${label}: ${order.item_title}` : label,
+      reference: order.id,
+      amount: Number(order.amount),
+      currency: order.currency,
+      paidAt: order.completed_at ?? new Date().toISOString(),
+      paymentMethod: order.payment_method,
+    });
+  }
+
+  const { data: payment, error } = await supabase
+    .from(source)
+    .select("id, new_tier, billing_cycle, amount, currency, payment_method, completed_at, is_renewal")
+    .eq("id", paymentId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Membership payment lookup failed: ${error.message}`);
+  if (!payment) return null;
+
+  const membership = source === "members_membership" ? "Member" : "Creator";
+
+  return renderReceiptEmail({
+    recipientName,
+    description: `${membership} membership ${payment.is_renewal ? "renewal " : ""}(${payment.new_tier}, ${payment.billing_cycle})`,
+    reference: payment.id,
+    amount: Number(payment.amount),
+    currency: payment.currency,
+    paidAt: payment.completed_at ?? new Date().toISOString(),
+    paymentMethod: payment.payment_method,
+  });
+}
+
+async function renderCertificate(
+  supabase: SupabaseClient,
+  certificateId: string,
+  recipientName: string
+): Promise<RenderedEmail | null> {
+  const { data: certificate, error } = await supabase
+    .from("student_certificates")
+    .select("id, course_title, certificate_number, holder_name, download_url, learning_path_id, revoked_at")
+    .eq("id", certificateId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Certificate lookup failed: ${error.message}`);
+  if (!certificate || certificate.revoked_at) return null;
+
+  return renderCertificateEmail({
+    recipientName: certificate.holder_name || recipientName,
+    title: certificate.course_title,
+    kind: certificate.learning_path_id ? "learning path" : "course",
+    certificateNumber: certificate.certificate_number,
+    verifyUrl: `${Deno.env.get("APP_URL")}/verify/${certificate.certificate_number}`,
+    // Older certificates were stored as data: URLs, which mail clients block
+    downloadUrl: certificate.download_url?.startsWith("http") ? certificate.download_url : null,
+  });
+}
+
+async function renderEventReminder(
+  supabase: SupabaseClient,
+  reminderId: string,
+  recipientName: string
+): Promise<RenderedEmail | null> {
+  const { data: reminder, error } = await supabase
+    .from("event_reminders")
+    .select(
+      "id, event_id, occurrence_date, status, event:events(title, event_date, event_time, location, organizer_name, is_livestream, livestream_url, status, recurrence_exdates)"
+    )
+    .eq("id", reminderId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Reminder lookup failed: ${error.message}`);
+
+  const event = reminder?.event as {
+    title: string;
+    event_date: string;
+    event_time: string;
+    location: string;
+    organizer_name: string | null;
+    is_livestream: boolean;
+    livestream_url: string | null;
+    status: string;
+    recurrence_exdates: string[] | null;
+  } | null;
+
+  if (!reminder || reminder.status === "cancelled" || !event || event.status === "cancelled") return null;
+
+  // A reminder for a series is about one occurrence, which may have been
+  // skipped, moved or changed since the reminder was set
+  let occurrence = { date: event.event_date, time: event.event_time, title: event.title, location: event.location };
+
+  if (reminder.occurrence_date) {
+    if ((event.recurrence_exdates || []).includes(reminder.occurrence_date)) return null;
+
+    const { data: override, error: overrideError } = await supabase
+      .from("event_occurrence_overrides")
+      .select("event_date, event_time, title, location")
+      .eq("event_id", reminder.event_id)
+      .eq("occurrence_date", reminder.occurrence_date)
+      .maybeSingle();
+
+    if (overrideError) throw new Error(`Occurrence lookup failed: ${overrideError.message}`);
+
+    occurrence = {
+      date: override?.event_date ?? reminder.occurrence_date,
+      time: override?.event_time ?? event.event_time,
+      title: override?.title ?? event.title,
+      location: override?.location ?? event.location,
+    };
+  }
+
+  return renderEventReminderEmail({
+    recipientName,
+    eventTitle: occurrence.title,
+    eventDate: occurrence.date,
+    eventTime: occurrence.time,
+    location: occurrence.location,
+    organizerName: event.organizer_name,
+    isLivestream: event.is_livestream,
+    livestreamUrl: event.livestream_url,
+  });
+}
+
+/**
+ * Record the delivery on the row the email was about
+ */
+async function afterEmailSent(supabase: SupabaseClient, email: OutboxEmail): Promise<void> {
+  const now = new Date().toISOString();
+
+  if (email.template === "invoice") {
+    await supabase
+      .from("enrollment_invoices")
+      .update({ email_sent: true, email_sent_at: now })
+      .eq("id", email.related_id);
+  } else if (email.template === "event_reminder") {
+    await supabase
+      .from("event_reminders")
+      .update({ status: "sent", reminder_sent_at: now })
+      .eq("id", email.related_id);
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * HTML and plain-text bodies for transactional emails. Each template
+ * takes the data the outbox loads for its row (./emailOutbox.ts) and
+ * returns the subject and both bodies; everything interpolated into the
+ * HTML is escaped.
+ */
+
+export type EmailTemplate = "invoice" | "payment_receipt" | "certificate" | "event_reminder";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface InvoiceEmailData {
+  recipientName: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  courseTitle: string;
+  currency: string;
+  subtotal: number;
+  /** VAT and withholding lines, withholding negative */
+  taxLines: { description: string; amount: number }[];
+  total: number;
+  withholding: number;
+}
+
+export interface ReceiptEmailData {
+  recipientName: string;
+  /** What was paid for, e.g. "Creator membership (pro, monthly)" */
+  description: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  paidAt: string;
+  paymentMethod: string | null;
+}
+
+export interface CertificateEmailData {
+  recipientName: string;
+  title: string;
+  kind: "course" | "learning path";
+  certificateNumber: string;
+  verifyUrl: string;
+  downloadUrl: string | null;
+}
+
+export interface EventReminderEmailData {
+  recipientName: string;
+  eventTitle: string;
+  eventDate: string;
+  eventTime: string;
+  location: string;
+  organizerName: string | null;
+  isLivestream: boolean;
+  livestreamUrl: string | null;
+}
+
+const BRAND = "Flourish Talents";
+const SUPPORT_EMAIL = "support@flourishtalents.com";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function money(currency: string, amount: number): string {
+  return `${currency} ${Number(amount).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+function greeting(name: string): string {
+  return name ? `Hi ${name},` : "Hi,";
+}
+
+/** Label/value rows shared by the HTML and text bodies */
+type Row = [label: string, value: string];
+
+function layout(title: string, intro: string, rows: Row[], action?: { label: string; url: string }, note?: string): string {
+  const rowHtml = rows
+    .map(
+      ([label, value]) => `
+          <tr>
+            <td style="padding:6px 0;color:#64748b;">${escapeHtml(label)}</td>
+            <td style="padding:6px 0;text-align:right;color:#0f172a;font-weight:600;">${escapeHtml(value)}</td>
+          </tr>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+      <tr><td>
+        <p style="margin:0 0 24px;font-size:14px;font-weight:700;color:#f43f5e;">${BRAND}</p>
+        <h1 style="margin:0 0 16px;font-size:22px;color:#0f172a;">${escapeHtml(title)}</h1>
+        <p style="margin:0 0 24px;font-size:15px;line-height:1.5;color:#334155;">${escapeHtml(intro)}</p>
+        <table role="presentation" width="100%" style="font-size:14px;border-top:1px solid #e2e8f0;border-bottom:1px solid #e2e8f0;">${rowHtml}
+        </table>${
+          action
+            ? `
+        <p style="margin:24px 0 0;"><a href="${escapeHtml(action.url)}" style="display:inline-block;padding:12px 20px;background:#f43f5e;color:#ffffff;text-decoration:none;border-radius:8px;font-weight:600;">${escapeHtml(action.label)}</a></p>`
+            : ""
+        }${
+          note
+            ? `
+        <p style="margin:24px 0 0;font-size:13px;color:#64748b;">${escapeHtml(note)}</p>`
+            : ""
+        }
+        <p style="margin:32px 0 0;font-size:12px;color:#94a3b8;">Questions? Contact ${SUPPORT_EMAIL}.</p>
+      </td></tr>
+    </table>
+  </body>
+</html>`;
+}
+
+function plainText(title: string, intro: string, rows: Row[], action?: { label: string; url: string }, note?: string): string {
+  return [
+    title,
+    "",
+    intro,
+    "",
+    ...rows.map(([label, value]) => `${label}: ${value}`),
+    ...(action ? ["", `${action.label}: ${action.url}`] : []),
+    ...(note ? ["", note] : []),
+    "",
+    `Questions? Contact ${SUPPORT_EMAIL}.`,
+    `- ${BRAND}`,
+  ].join("\n");
+}
+
+function render(
+  subject: string,
+  title: string,
+  intro: string,
+  rows: Row[],
+  action?: { label: string; url: string },
+  note?: string
+): RenderedEmail {
+  return {
+    subject,
+    html: layout(title, intro, rows, action, note),
+    text: plainText(title, intro, rows, action, note),
+  };
+}
+
+export function renderInvoiceEmail(data: InvoiceEmailData): RenderedEmail {
+  const rows: Row[] = [
+    ["Invoice number", data.invoiceNumber],
+    ["Date", formatDate(data.invoiceDate)],
+    ["Course", data.courseTitle],
+    ["Subtotal", money(data.currency, data.subtotal)],
+    ...data.taxLines.map((line): Row => [line.description, money(data.currency, line.amount)]),
+    ["Total", money(data.currency, data.total)],
+  ];
+
+  if (data.withholding > 0) {
+    rows.push(["Net payable", money(data.currency, data.total - data.withholding)]);
+  }
+
+  return render(
+    `Invoice ${data.invoiceNumber} - ${data.courseTitle}`,
+    `Invoice ${data.invoiceNumber}`,
+    `${greeting(data.recipientName)} thank you for enrolling in ${data.courseTitle}. Your invoice is below.`,
+    rows,
+    undefined,
+    "This invoice has been paid. Keep it for your records."
+  );
+}
+
+export function renderReceiptEmail(data: ReceiptEmailData): RenderedEmail {
+  return render(
+    `Payment receipt - ${data.description}`,
+    "Payment received",
+    `${greeting(data.recipientName)} we received your payment for ${data.description}.`,
+    [
+      ["Amount", money(data.currency, data.amount)],
+      ["Date", formatDate(data.paidAt)],
+      ...(data.paymentMethod ? [["Payment method", data.paymentMethod] as Row] : []),
+      ["Reference", data.reference],
+    ]
+  );
+}
+
+export function renderCertificateEmail(data: CertificateEmailData): RenderedEmail {
+  return render(
+    `Your certificate for ${data.title}`,
+    "Congratulations!",
+    `${greeting(data.recipientName)} you completed the ${data.kind} ${data.title}. Your certificate is ready.`,
+    [
+      ["Certificate number", data.certificateNumber],
+      ["Verify at", data.verifyUrl],
+    ],
+    data.downloadUrl ? { label: "Download certificate", url: data.downloadUrl } : { label: "View certificate", url: data.verifyUrl },
+    "Anyone can confirm the certificate is genuine with the verification link."
+  );
+}
+
+export function renderEventReminderEmail(data: EventReminderEmailData): RenderedEmail {
+  const when = `${formatDate(data.eventDate)} at ${data.eventTime.slice(0, 5)}`;
+
+  return render(
+    `Reminder: ${data.eventTitle} on ${formatDate(data.eventDate)}`,
+    data.eventTitle,
+    `${greeting(data.recipientName)} this is a reminder for an event in your calendar.`,
+    [
+      ["When", when],
+      ["Where", data.isLivestream ? "Online" : data.location],
+      ...(data.organizerName ? [["Organizer", data.organizerName] as Row] : []),
+    ],
+    data.isLivestream && data.livestreamUrl ? { label: "Join the livestream", url: data.livestreamUrl } : undefined
+  );
+}
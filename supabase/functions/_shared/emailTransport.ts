@@ -0,0 +1,116 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+/**
+ * Delivery backends for the email outbox (./emailOutbox.ts)
+ *
+ * EMAIL_TRANSPORT picks the backend:
+ *   smtp (default) - SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD,
+ *                    SMTP_SECURE=true for implicit TLS (port 465)
+ *   log            - prints the message instead of sending it
+ *
+ * In local development point SMTP_HOST/SMTP_PORT at an SMTP catcher
+ * (e.g. the Inbucket container of `supabase start`, or MailHog on 1025);
+ * catchers without TLS or authentication work with the credentials left
+ * unset. EMAIL_FROM sets the sender, e.g. "Flourish Talents <no-reply@flourishtalents.com>".
+ */
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Stable Message-ID, so bounces can be matched to the outbox row */
+  messageId: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * A failed delivery. Permanent failures (5xx replies: unknown mailbox,
+ * rejected domain) are treated as hard bounces and not retried.
+ */
+export class EmailDeliveryError extends Error {
+  constructor(message: string, readonly permanent: boolean) {
+    super(message);
+    this.name = "EmailDeliveryError";
+  }
+}
+
+const DEFAULT_FROM = "no-reply@localhost";
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: "smtp",
+    async send(email) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.host,
+          port: config.port,
+          tls: config.secure,
+          auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+        },
+        // Local catchers speak plain SMTP without STARTTLS
+        debug: config.username ? undefined : { allowUnsecure: true, noStartTLS: !config.secure },
+      });
+
+      try {
+        await client.send({
+          from: config.from,
+          to: email.to,
+          subject: email.subject,
+          content: email.text,
+          html: email.html,
+          headers: { "Message-ID": email.messageId },
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new EmailDeliveryError(message, /\b5[0-5]\d\b/.test(message));
+      } finally {
+        await client.close().catch(() => undefined);
+      }
+    },
+  };
+}
+
+export function createLogTransport(): EmailTransport {
+  return {
+    name: "log",
+    async send(email) {
+      console.log(`[email] to=${email.to} subject="${email.subject}" id=${email.messageId}\n${email.text}`);
+    },
+  };
+}
+
+export function emailSender(): string {
+  return Deno.env.get("EMAIL_FROM") ?? DEFAULT_FROM;
+}
+
+/**
+ * The transport selected by EMAIL_TRANSPORT
+ */
+export function getEmailTransport(): EmailTransport {
+  if (Deno.env.get("EMAIL_TRANSPORT") === "log") {
+    return createLogTransport();
+  }
+
+  return createSmtpTransport({
+    host: Deno.env.get("SMTP_HOST") ?? "localhost",
+    port: Number(Deno.env.get("SMTP_PORT") ?? "587"),
+    secure: Deno.env.get("SMTP_SECURE") === "true",
+    username: Deno.env.get("SMTP_USERNAME") || undefined,
+    password: Deno.env.get("SMTP_PASSWORD") || undefined,
+    from: emailSender(),
+  });
+}
@@ -0,0 +1,73 @@
+import {
+  createGatewayAdapter,
+  GatewayName,
+  PaymentGatewayAdapter,
+  PaymentMethodType,
+  PAYMENT_METHOD_GATEWAYS,
+} from "./paymentGateways.ts";
+
+/**
+ * Edge-function wiring for the gateway adapters.
+ * Set PAYMENT_GATEWAY=sandbox to route every payment through the local
+ * sandboxGateway function instead of Eversend / Flutterwave. The sandbox is
+ * unavailable in any other deployment, and needs SANDBOX_API_KEY and
+ * SANDBOX_WEBHOOK_SECRET to be set.
+ */
+
+const GATEWAY_NAMES: GatewayName[] = ["eversend", "flutterwave", "sandbox"];
+
+export function isGatewayName(value: string | null | undefined): value is GatewayName {
+  return !!value && (GATEWAY_NAMES as string[]).includes(value);
+}
+
+export function isSandboxEnabled(): boolean {
+  return Deno.env.get("PAYMENT_GATEWAY") === "sandbox";
+}
+
+/**
+ * Gateways this deployment accepts payments and webhooks from
+ */
+export function isEnabledGateway(value: string | null | undefined): value is GatewayName {
+  return isGatewayName(value) && (value !== "sandbox" || isSandboxEnabled());
+}
+
+export function getGatewayAdapter(name: GatewayName): PaymentGatewayAdapter {
+  switch (name) {
+    case "flutterwave":
+      return createGatewayAdapter("flutterwave", {
+        apiKey: Deno.env.get("FLUTTERWAVE_SECRET_KEY"),
+        webhookSecret: Deno.env.get("FLUTTERWAVE_WEBHOOK_SECRET"),
+      });
+    case "sandbox": {
+      const apiKey = Deno.env.get("SANDBOX_API_KEY");
+      const webhookSecret = Deno.env.get("SANDBOX_WEBHOOK_SECRET");
+
+      if (!isSandboxEnabled()) {
+        throw new Error("The sandbox gateway is disabled (PAYMENT_GATEWAY is not 'sandbox')");
+      }
+      if (!apiKey || !webhookSecret) {
+        throw new Error("SANDBOX_API_KEY and SANDBOX_WEBHOOK_SECRET must be set to use the sandbox gateway");
+      }
+
+      return createGatewayAdapter("sandbox", {
+        apiKey,
+        webhookSecret,
+        baseUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/sandboxGateway`,
+      });
+    }
+    default:
+      return createGatewayAdapter("eversend", {
+        apiKey: Deno.env.get("EVERSEND_API_KEY"),
+        webhookSecret: Deno.env.get("EVERSEND_WEBHOOK_SECRET"),
+      });
+  }
+}
+
+/**
+ * Gateway for a payment method, honouring the PAYMENT_GATEWAY override
+ */
+export function resolveGateway(paymentMethod: string): GatewayName {
+  const override = Deno.env.get("PAYMENT_GATEWAY");
+  if (isGatewayName(override)) return override;
+  return PAYMENT_METHOD_GATEWAYS[paymentMethod as PaymentMethodType] ?? "eversend";
+}
@@ -0,0 +1,332 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { PromoMetadata, recordPromoRedemptions } from "./promoCodes.ts";
+import { recordReferralConversion } from "./referrals.ts";
+
+/**
+ * Settling membership payments
+ * Shared by handlePaymentWebhookUnified (gateway told us) and
+ * reconcilePayments (we asked the gateway). Settling is idempotent: a
+ * payment that is already completed or refunded is never settled again,
+ * so a late webhook after reconciliation (or the reverse) is harmless.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RENEWAL_LEAD_DAYS = Number(Deno.env.get("RENEWAL_LEAD_DAYS") ?? "3");
+const MEMBERSHIP_GRACE_PERIOD_DAYS = Number(Deno.env.get("MEMBERSHIP_GRACE_PERIOD_DAYS") ?? "7");
+const DUNNING_RETRY_DAYS = (Deno.env.get("DUNNING_RETRY_DAYS") ?? "1,3,5")
+  .split(",")
+  .map((d) => Number(d.trim()))
+  .filter((d) => !Number.isNaN(d));
+
+// An expired checkout can still be paid late; a failed one can be retried at the gateway
+const SETTLEABLE_STATUSES = ["pending", "processing", "failed", "expired"];
+
+export type MembershipType = "creator" | "member";
+
+export interface MembershipTransaction {
+  id: string;
+  user_id: string;
+  new_tier: string;
+  amount: number;
+  currency: string;
+  billing_cycle: string;
+  payment_method: string;
+  gateway: string;
+  status?: string;
+  is_renewal?: boolean;
+  subscription_id?: string | null;
+  metadata?: {
+    email?: string;
+    phoneNumber?: string;
+    proration?: { fullPrice: number; keepsCurrentPeriod: boolean };
+    promo?: PromoMetadata | null;
+  } | null;
+}
+
+export interface SettlementOptions {
+  /** Audit log action text */
+  action: string;
+  /** Extra columns to set on the transaction row (e.g. webhook details) */
+  updates?: Record<string, unknown>;
+  paymentToken?: string;
+  customerEmail?: string;
+  details?: Record<string, unknown>;
+}
+
+export function membershipTable(membershipType: string): string {
+  return membershipType === "member" ? "members_membership" : "creators_membership";
+}
+
+/**
+ * Mark a membership payment completed, grant the tier and start or roll
+ * the subscription. Returns false when the payment was already settled.
+ */
+export async function completeMembershipPayment(
+  supabase: SupabaseClient,
+  transaction: MembershipTransaction,
+  membershipType: MembershipType,
+  options: SettlementOptions
+): Promise<{ settled: boolean; subscriptionId: string | null }> {
+  const now = new Date().toISOString();
+
+  // Recorded before settling so a failure here is retried with the webhook
+  const promo = transaction.metadata?.promo;
+  if (promo) {
+    await recordPromoRedemptions(supabase, promo, {
+      userId: transaction.user_id,
+      itemType: `${membershipType}_membership`,
+      itemRef: transaction.new_tier,
+      currency: transaction.currency,
+      amountPaid: transaction.amount,
+      membershipTransactionId: transaction.id,
+    });
+  }
+
+  const { data: updated } = await supabase
+    .from(membershipTable(membershipType))
+    .update({
+      status: "completed",
+      payment_status: "completed",
+      completed_at: now,
+      ...options.updates,
+    })
+    .eq("id", transaction.id)
+    .in("status", SETTLEABLE_STATUSES)
+    .select("id");
+
+  if (!updated || updated.length === 0) {
+    return { settled: false, subscriptionId: null };
+  }
+
+  // Update user tier in profiles
+  await supabase
+    .from("profiles")
+    .update({
+      tier: transaction.new_tier,
+      updated_at: now,
+    })
+    .eq("id", transaction.user_id);
+
+  // Start the subscription, or roll a renewal into the next period
+  const subscriptionId = await activateSubscription(
+    supabase,
+    transaction,
+    membershipType,
+    options.paymentToken,
+    options.customerEmail
+  );
+
+  // A referred user's first paid membership rewards the referrer
+  if (!transaction.is_renewal) {
+    await recordReferralConversion(supabase, {
+      userId: transaction.user_id,
+      itemType: `${membershipType}_membership`,
+      paymentId: transaction.id,
+      amount: transaction.amount,
+      currency: transaction.currency,
+    });
+  }
+
+  await supabase.from("payment_audit_log").insert({
+    membership_type: membershipType,
+    transaction_id: transaction.id,
+    user_id: transaction.user_id,
+    action: options.action,
+    action_type: "complete",
+    previous_status: transaction.status ?? "processing",
+    new_status: "completed",
+    details: { subscriptionId, isRenewal: !!transaction.is_renewal, ...options.details },
+  });
+
+  return { settled: true, subscriptionId };
+}
+
+/**
+ * Mark an open membership payment failed. Failed renewals feed the
+ * dunning schedule. Returns false when the payment was no longer open.
+ */
+export async function failMembershipPayment(
+  supabase: SupabaseClient,
+  transaction: MembershipTransaction,
+  membershipType: MembershipType,
+  errorMessage: string,
+  options: SettlementOptions
+): Promise<boolean> {
+  const { data: updated } = await supabase
+    .from(membershipTable(membershipType))
+    .update({
+      status: "failed",
+      payment_status: "failed",
+      failed_at: new Date().toISOString(),
+      error_message: errorMessage,
+      ...options.updates,
+    })
+    .eq("id", transaction.id)
+    .in("status", ["pending", "processing"])
+    .select("id");
+
+  if (!updated || updated.length === 0) return false;
+
+  await supabase.from("payment_audit_log").insert({
+    membership_type: membershipType,
+    transaction_id: transaction.id,
+    user_id: transaction.user_id,
+    action: options.action,
+    action_type: "fail",
+    previous_status: transaction.status ?? "processing",
+    new_status: "failed",
+    details: options.details,
+  });
+
+  if (transaction.is_renewal && transaction.subscription_id) {
+    await recordRenewalFailure(supabase, transaction.subscription_id, transaction.id, errorMessage);
+  }
+
+  return true;
+}
+
+/**
+ * Upsert the user's subscription for a completed membership payment.
+ * First payments start a new period today; renewals continue from the
+ * old period end so paying early never loses days.
+ */
+async function activateSubscription(
+  supabase: SupabaseClient,
+  transaction: MembershipTransaction,
+  membershipType: string,
+  paymentToken?: string,
+  email?: string
+): Promise<string | null> {
+  const { data: existing } = await supabase
+    .from("membership_subscriptions")
+    .select("id, current_period_start, current_period_end, grace_period_days, payment_token, email")
+    .eq("user_id", transaction.user_id)
+    .eq("membership_type", membershipType)
+    .maybeSingle();
+
+  const now = new Date();
+  const proration = transaction.metadata?.proration;
+  const previousEnd = existing ? new Date(existing.current_period_end) : null;
+  let periodStart =
+    transaction.is_renewal && previousEnd && previousEnd > now ? previousEnd : now;
+  let periodEnd = new Date(periodStart);
+  periodEnd.setMonth(periodEnd.getMonth() + (transaction.billing_cycle === "annual" ? 12 : 1));
+
+  // Prorated upgrades only paid the difference for the rest of the current period
+  if (proration?.keepsCurrentPeriod && existing) {
+    periodStart = new Date(existing.current_period_start);
+    periodEnd = new Date(existing.current_period_end);
+  }
+
+  const { data: subscription, error } = await supabase
+    .from("membership_subscriptions")
+    .upsert(
+      {
+        user_id: transaction.user_id,
+        membership_type: membershipType,
+        tier: transaction.new_tier,
+        billing_cycle: transaction.billing_cycle,
+        // Renewals are charged the full price, not the discounted first period
+        amount: proration?.fullPrice ?? transaction.metadata?.promo?.listAmount ?? transaction.amount,
+        currency: transaction.currency,
+        payment_method: transaction.payment_method,
+        gateway: transaction.gateway,
+        payment_token: paymentToken ?? existing?.payment_token ?? null,
+        email: email ?? transaction.metadata?.email ?? existing?.email ?? null,
+        phone_number: transaction.metadata?.phoneNumber ?? null,
+        status: "active",
+        current_period_start: periodStart.toISOString(),
+        current_period_end: periodEnd.toISOString(),
+        cancel_at_period_end: false,
+        grace_period_days: existing?.grace_period_days ?? MEMBERSHIP_GRACE_PERIOD_DAYS,
+        grace_period_ends_at: null,
+        dunning_attempts: 0,
+        next_renewal_attempt_at: new Date(
+          periodEnd.getTime() - RENEWAL_LEAD_DAYS * DAY_MS
+        ).toISOString(),
+        last_renewal_transaction_id: transaction.is_renewal ? transaction.id : null,
+        last_renewal_error: null,
+        canceled_at: null,
+        downgraded_at: null,
+        scheduled_tier: null,
+        scheduled_billing_cycle: null,
+        scheduled_amount: null,
+        scheduled_change_requested_at: null,
+      },
+      { onConflict: "user_id,membership_type" }
+    )
+    .select("id")
+    .single();
+
+  if (error || !subscription) {
+    console.error("Failed to activate subscription:", error);
+    return null;
+  }
+
+  await supabase
+    .from(membershipTable(membershipType))
+    .update({ subscription_id: subscription.id })
+    .eq("id", transaction.id);
+
+  return subscription.id;
+}
+
+/**
+ * Advance dunning after a renewal charge is declined by the gateway.
+ * processMembershipRenewals picks the subscription up again at next_renewal_attempt_at.
+ */
+async function recordRenewalFailure(
+  supabase: SupabaseClient,
+  subscriptionId: string,
+  transactionId: string,
+  error: string
+): Promise<void> {
+  const { data: subscription } = await supabase
+    .from("membership_subscriptions")
+    .select("*")
+    .eq("id", subscriptionId)
+    .single();
+
+  if (!subscription) return;
+
+  const now = new Date();
+  const attempts = subscription.dunning_attempts + 1;
+  const delayDays = DUNNING_RETRY_DAYS[attempts - 1];
+  const nextAttemptAt =
+    delayDays === undefined ? null : new Date(now.getTime() + delayDays * DAY_MS);
+  const gracePeriodEndsAt = new Date(
+    new Date(subscription.current_period_end).getTime() +
+      subscription.grace_period_days * DAY_MS
+  );
+
+  await supabase
+    .from("membership_subscriptions")
+    .update({
+      status: "past_due",
+      dunning_attempts: attempts,
+      last_renewal_error: error,
+      next_renewal_attempt_at: nextAttemptAt?.toISOString() ?? null,
+      grace_period_ends_at: gracePeriodEndsAt.toISOString(),
+    })
+    .eq("id", subscription.id);
+
+  await supabase.from("payment_audit_log").insert({
+    membership_type: subscription.membership_type,
+    transaction_id: transactionId,
+    user_id: subscription.user_id,
+    action: nextAttemptAt
+      ? `Renewal attempt ${attempts} failed, retrying ${nextAttemptAt.toISOString()}`
+      : `Renewal attempt ${attempts} failed, no retries left`,
+    action_type: "dunning",
+    previous_status: "processing",
+    new_status: "failed",
+    details: {
+      subscriptionId: subscription.id,
+      error,
+      attempt: attempts,
+      nextAttemptAt: nextAttemptAt?.toISOString() ?? null,
+      gracePeriodEndsAt: gracePeriodEndsAt.toISOString(),
+      exhausted: !nextAttemptAt,
+    },
+  });
+}
@@ -0,0 +1,74 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { constantTimeCompare, hmacSha256Hex } from "./paymentGateways.ts";
+
+/**
+ * Applies a verified Mux webhook from the webhook inbox.
+ * Throws when the update fails so the inbox retries it.
+ */
+
+export interface MuxWebhookBody {
+  id?: string;
+  type?: string;
+  data?: {
+    id?: string;
+    playback_ids?: { id: string }[];
+  };
+}
+
+const MUX_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Verify a Mux-Signature header ("t=<unix time>,v1=<hex hmac>").
+ * Mux signs "<t>.<raw body>" with the webhook signing secret.
+ */
+export async function verifyMuxSignature(
+  secret: string,
+  rawBody: string,
+  header: string | null
+): Promise<boolean> {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...value] = part.split("=");
+      return [key.trim(), value.join("=")];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || Number.isNaN(timestamp)) return false;
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > MUX_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = await hmacSha256Hex(secret, `${parts.t}.${rawBody}`);
+  return constantTimeCompare(parts.v1, expected);
+}
+
+export async function processMuxWebhook(
+  supabase: SupabaseClient,
+  webhook: MuxWebhookBody
+): Promise<void> {
+  if (webhook.type !== "video.asset.ready") return;
+
+  const assetId = webhook.data?.id;
+  const playbackId = webhook.data?.playback_ids?.[0]?.id;
+
+  if (!assetId || !playbackId) {
+    throw new Error("Missing asset or playback ID");
+  }
+
+  const { error } = await supabase
+    .from("video_uploads")
+    .update({
+      playback_id: playbackId,
+      status: "ready",
+    })
+    .eq("asset_id", assetId);
+
+  if (error) {
+    throw new Error(`Database update error: ${error.message}`);
+  }
+
+  console.log(`Video Asset ${assetId} is ready with playback ID ${playbackId}.`);
+}
@@ -0,0 +1,655 @@
+/**
+ * Payment Gateway Adapters
+ * One interface for every gateway the platform talks to. Edge functions get
+ * an adapter from gatewayConfig.ts (which reads Deno.env); other backends can
+ * call createGatewayAdapter with their own credentials.
+ *
+ * This module must stay runtime-neutral: fetch + Web Crypto only, no Deno or
+ * Node globals.
+ */
+
+export type GatewayName = 'eversend' | 'flutterwave' | 'sandbox';
+
+export type PaymentMethodType = 'card' | 'mobile_money' | 'express_pay';
+
+export interface GatewayCredentials {
+  apiKey?: string;
+  webhookSecret?: string;
+  /** Override the API base URL (required for the sandbox gateway) */
+  baseUrl?: string;
+}
+
+export interface InitializePaymentParams {
+  /** Our reference for the charge (tx_ref / externalId) */
+  reference: string;
+  amount: number;
+  currency: string;
+  email: string;
+  phoneNumber?: string;
+  customerName?: string;
+  title: string;
+  description: string;
+  redirectUrl: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface InitializePaymentResult {
+  success: boolean;
+  transactionId?: string;
+  referenceId?: string;
+  checkoutUrl?: string;
+  error?: string;
+}
+
+export interface ChargeTokenParams extends InitializePaymentParams {
+  token: string;
+}
+
+export interface VerifyPaymentResult {
+  success: boolean;
+  status: 'completed' | 'failed' | 'pending';
+  amount?: number;
+  currency?: string;
+  error?: string;
+}
+
+export interface RefundParams {
+  /** Gateway transaction reference of the original payment */
+  transactionId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  /** Our reference for the refund */
+  reference: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  error?: string;
+}
+
+export interface GatewayWebhookEvent {
+  kind: 'payment' | 'refund';
+  eventType: string;
+  /** Value to match against paymentLookupColumn (payments) or gateway_refund_id (refunds) */
+  reference: string;
+  status: 'completed' | 'failed' | 'pending';
+  amount?: number;
+  currency?: string;
+  paymentToken?: string;
+  customerEmail?: string;
+  message?: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface PaymentGatewayAdapter {
+  name: GatewayName;
+  /** Header carrying the webhook signature */
+  signatureHeader: string;
+  /** Transaction column the webhook reference is stored in */
+  paymentLookupColumn: 'reference_id' | 'transaction_id';
+  initializePayment(params: InitializePaymentParams): Promise<InitializePaymentResult>;
+  /** Charge a stored card token without the customer present, if supported */
+  chargeToken?(params: ChargeTokenParams): Promise<InitializePaymentResult>;
+  verifyPayment(transactionId: string): Promise<VerifyPaymentResult>;
+  refundPayment(params: RefundParams): Promise<RefundResult>;
+  verifySignature(rawBody: string, signature: string | null): Promise<boolean>;
+  parseWebhook(payload: WebhookBody): GatewayWebhookEvent | null;
+}
+
+interface WebhookData {
+  id?: string | number;
+  reference?: string;
+  flw_ref?: string;
+  status?: string;
+  amount?: number | string;
+  currency?: string;
+  email?: string;
+  message?: string;
+  token?: string;
+  metadata?: Record<string, unknown>;
+  card?: { token?: string };
+  customer?: { email?: string };
+}
+
+export interface WebhookBody {
+  event?: string;
+  data?: WebhookData;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Default gateway for each payment method
+ */
+export const PAYMENT_METHOD_GATEWAYS: Record<PaymentMethodType, GatewayName> = {
+  card: 'eversend',
+  mobile_money: 'eversend',
+  express_pay: 'flutterwave',
+};
+
+export function createGatewayAdapter(
+  name: GatewayName,
+  credentials: GatewayCredentials
+): PaymentGatewayAdapter {
+  switch (name) {
+    case 'flutterwave':
+      return createFlutterwaveAdapter(credentials);
+    case 'sandbox':
+      return createSandboxAdapter(credentials);
+    default:
+      return createEversendAdapter(credentials);
+  }
+}
+
+/**
+ * HMAC-SHA256 hex digest, used by every gateway's webhook signature
+ */
+export async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Constant-time string comparison to prevent timing attacks
+ */
+export function constantTimeCompare(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+async function verifyHmacSignature(
+  secret: string | undefined,
+  rawBody: string,
+  signature: string | null
+): Promise<boolean> {
+  if (!secret || !signature) return false;
+  return constantTimeCompare(signature, await hmacSha256Hex(secret, rawBody));
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+// ===================================================================
+// EVERSEND
+// ===================================================================
+
+function createEversendAdapter(credentials: GatewayCredentials): PaymentGatewayAdapter {
+  const baseUrl = credentials.baseUrl ?? 'https://api.eversend.co';
+  const headers = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${credentials.apiKey}`,
+  });
+
+  return {
+    name: 'eversend',
+    signatureHeader: 'x-eversend-signature',
+    paymentLookupColumn: 'reference_id',
+
+    async initializePayment(params) {
+      if (!credentials.apiKey) {
+        return { success: false, error: 'Eversend API key not configured' };
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/send/initiate`, {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify({
+            amount: params.amount,
+            currency: params.currency,
+            phoneNumber: params.phoneNumber,
+            email: params.email,
+            description: params.description,
+            externalId: params.reference,
+            redirectUrl: params.redirectUrl,
+            metadata: params.metadata,
+          }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          return { success: false, error: data.message || 'Eversend initialization failed' };
+        }
+
+        return {
+          success: true,
+          transactionId: data.reference,
+          referenceId: data.reference,
+          checkoutUrl: data.checkoutLink || data.paymentLink,
+        };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Eversend error') };
+      }
+    },
+
+    async verifyPayment(transactionId) {
+      try {
+        const response = await fetch(`${baseUrl}/send/verify/${transactionId}`, {
+          method: 'GET',
+          headers: headers(),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          return { success: false, status: 'pending', error: data.message };
+        }
+
+        const status =
+          data.status === 'completed' || data.status === 'success'
+            ? 'completed'
+            : data.status === 'failed'
+              ? 'failed'
+              : 'pending';
+        return {
+          success: true,
+          status,
+          amount: data.amount !== undefined ? Number(data.amount) : undefined,
+          currency: data.currency,
+        };
+      } catch (error) {
+        return { success: false, status: 'pending', error: errorMessage(error, 'Eversend error') };
+      }
+    },
+
+    async refundPayment(params) {
+      if (!credentials.apiKey) {
+        return { success: false, error: 'Eversend API key not configured' };
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/send/refund`, {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify({
+            reference: params.transactionId,
+            amount: params.amount,
+            currency: params.currency,
+            reason: params.reason,
+            externalId: params.reference,
+          }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          return { success: false, error: data.message || 'Eversend refund failed' };
+        }
+        return { success: true, refundId: data.reference || data.refundId };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Eversend error') };
+      }
+    },
+
+    verifySignature(rawBody, signature) {
+      return verifyHmacSignature(credentials.webhookSecret, rawBody, signature);
+    },
+
+    parseWebhook(payload) {
+      const data = payload.data;
+      if (!data?.reference) return null;
+      const event = payload.event ?? '';
+      const metadata = { ...(data.metadata ?? {}), ...(payload.meta ?? {}) };
+
+      if (event.startsWith('refund.')) {
+        return {
+          kind: 'refund',
+          eventType: event,
+          reference: String(data.reference),
+          status:
+            event === 'refund.completed' || data.status === 'completed'
+              ? 'completed'
+              : event === 'refund.failed' || data.status === 'failed'
+                ? 'failed'
+                : 'pending',
+          message: data.message,
+          metadata,
+        };
+      }
+
+      return {
+        kind: 'payment',
+        eventType: event,
+        reference: String(data.reference),
+        status:
+          event === 'payment.completed' || data.status === 'completed'
+            ? 'completed'
+            : event === 'payment.failed'
+              ? 'failed'
+              : 'pending',
+        amount: data.amount !== undefined ? Number(data.amount) : undefined,
+        currency: data.currency,
+        customerEmail: data.email,
+        metadata,
+      };
+    },
+  };
+}
+
+// ===================================================================
+// FLUTTERWAVE
+// ===================================================================
+
+function createFlutterwaveAdapter(credentials: GatewayCredentials): PaymentGatewayAdapter {
+  const baseUrl = credentials.baseUrl ?? 'https://api.flutterwave.com/v3';
+  const headers = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${credentials.apiKey}`,
+  });
+
+  return {
+    name: 'flutterwave',
+    signatureHeader: 'veriff-signature',
+    paymentLookupColumn: 'transaction_id',
+
+    async initializePayment(params) {
+      if (!credentials.apiKey) {
+        return { success: false, error: 'Flutterwave secret key not configured' };
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/payments`, {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify({
+            tx_ref: params.reference,
+            amount: params.amount,
+            currency: params.currency,
+            payment_options: 'card,mobilemoney,ussd',
+            customer: {
+              email: params.email,
+              name: params.customerName,
+              phonenumber: params.phoneNumber,
+            },
+            customizations: {
+              title: params.title,
+              description: params.description,
+            },
+            redirect_url: params.redirectUrl,
+            meta: params.metadata,
+          }),
+        });
+        const data = await response.json();
+
+        if (data.status !== 'success') {
+          return { success: false, error: data.message || 'Flutterwave initialization failed' };
+        }
+
+        return {
+          success: true,
+          transactionId: data.data.reference,
+          referenceId: data.data.reference,
+          checkoutUrl: data.data.link,
+        };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Flutterwave error') };
+      }
+    },
+
+    async chargeToken(params) {
+      if (!credentials.apiKey) {
+        return { success: false, error: 'Flutterwave secret key not configured' };
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/tokenized-charges`, {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify({
+            token: params.token,
+            currency: params.currency,
+            amount: params.amount,
+            email: params.email,
+            tx_ref: params.reference,
+            meta: params.metadata,
+          }),
+        });
+        const data = await response.json();
+
+        if (data.status !== 'success') {
+          return { success: false, error: data.message || 'Tokenized charge failed' };
+        }
+
+        return {
+          success: true,
+          transactionId: data.data.flw_ref,
+          referenceId: data.data.tx_ref,
+        };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Flutterwave error') };
+      }
+    },
+
+    async verifyPayment(transactionId) {
+      try {
+        const response = await fetch(`${baseUrl}/transactions/${transactionId}/verify`, {
+          method: 'GET',
+          headers: headers(),
+        });
+        const data = await response.json();
+
+        if (data.status !== 'success') {
+          return { success: false, status: 'pending', error: data.message };
+        }
+
+        return {
+          success: true,
+          status:
+            data.data.status === 'successful'
+              ? 'completed'
+              : data.data.status === 'failed'
+                ? 'failed'
+                : 'pending',
+          amount: Number(data.data.amount),
+          currency: data.data.currency,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          status: 'pending',
+          error: errorMessage(error, 'Flutterwave error'),
+        };
+      }
+    },
+
+    async refundPayment(params) {
+      if (!credentials.apiKey) {
+        return { success: false, error: 'Flutterwave secret key not configured' };
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/transactions/${params.transactionId}/refund`, {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify({ amount: params.amount, comments: params.reason }),
+        });
+        const data = await response.json();
+
+        if (data.status !== 'success') {
+          return { success: false, error: data.message || 'Flutterwave refund failed' };
+        }
+        return { success: true, refundId: String(data.data.id) };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Flutterwave error') };
+      }
+    },
+
+    verifySignature(rawBody, signature) {
+      return verifyHmacSignature(credentials.webhookSecret, rawBody, signature);
+    },
+
+    parseWebhook(payload) {
+      const data = payload.data;
+      if (!data) return null;
+      const event = payload.event ?? '';
+      const metadata = { ...(payload.meta ?? {}) };
+
+      if (event.startsWith('refund.')) {
+        if (data.id === undefined) return null;
+        const status = String(data.status ?? '').toLowerCase();
+        return {
+          kind: 'refund',
+          eventType: event,
+          reference: String(data.id),
+          status:
+            event === 'refund.completed' || ['completed', 'successful'].includes(status)
+              ? 'completed'
+              : status === 'failed'
+                ? 'failed'
+                : 'pending',
+          message: data.message,
+          metadata,
+        };
+      }
+
+      if (!data.flw_ref) return null;
+      return {
+        kind: 'payment',
+        eventType: event,
+        reference: String(data.flw_ref),
+        status:
+          event === 'charge.completed' && data.status === 'successful'
+            ? 'completed'
+            : data.status === 'failed'
+              ? 'failed'
+              : 'pending',
+        amount: data.amount !== undefined ? Number(data.amount) : undefined,
+        currency: data.currency,
+        paymentToken: data.card?.token,
+        customerEmail: data.customer?.email,
+        metadata,
+      };
+    },
+  };
+}
+
+// ===================================================================
+// SANDBOX
+// Talks to the sandboxGateway edge function, which behaves like a real
+// gateway: hosted checkout page, verify/refund API and signed webhooks.
+// ===================================================================
+
+function createSandboxAdapter(credentials: GatewayCredentials): PaymentGatewayAdapter {
+  const baseUrl = credentials.baseUrl ?? '';
+  const headers = () => ({
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${credentials.apiKey}`,
+  });
+
+  const post = async (path: string, body: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify(body),
+    });
+    return { ok: response.ok, data: await response.json() };
+  };
+
+  return {
+    name: 'sandbox',
+    signatureHeader: 'x-sandbox-signature',
+    paymentLookupColumn: 'reference_id',
+
+    async initializePayment(params) {
+      if (!baseUrl) {
+        return { success: false, error: 'Sandbox gateway URL not configured' };
+      }
+
+      try {
+        const { ok, data } = await post('/payments', params);
+        if (!ok) {
+          return { success: false, error: data.error || 'Sandbox initialization failed' };
+        }
+        return {
+          success: true,
+          transactionId: data.reference,
+          referenceId: data.reference,
+          checkoutUrl: data.checkoutUrl,
+        };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Sandbox error') };
+      }
+    },
+
+    async chargeToken(params) {
+      try {
+        const { ok, data } = await post('/charges', params);
+        if (!ok) {
+          return { success: false, error: data.error || 'Sandbox charge failed' };
+        }
+        return { success: true, transactionId: data.reference, referenceId: data.reference };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Sandbox error') };
+      }
+    },
+
+    async verifyPayment(transactionId) {
+      try {
+        const response = await fetch(`${baseUrl}/payments/${transactionId}`, {
+          method: 'GET',
+          headers: headers(),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          return { success: false, status: 'pending', error: data.error };
+        }
+        return {
+          success: true,
+          status: data.status,
+          amount: Number(data.amount),
+          currency: data.currency,
+        };
+      } catch (error) {
+        return { success: false, status: 'pending', error: errorMessage(error, 'Sandbox error') };
+      }
+    },
+
+    async refundPayment(params) {
+      try {
+        const { ok, data } = await post(`/payments/${params.transactionId}/refund`, params);
+        if (!ok) {
+          return { success: false, error: data.error || 'Sandbox refund failed' };
+        }
+        return { success: true, refundId: data.refundId };
+      } catch (error) {
+        return { success: false, error: errorMessage(error, 'Sandbox error') };
+      }
+    },
+
+    verifySignature(rawBody, signature) {
+      return verifyHmacSignature(credentials.webhookSecret, rawBody, signature);
+    },
+
+    parseWebhook(payload) {
+      const data = payload.data;
+      if (!data?.reference) return null;
+      const event = payload.event ?? '';
+      return {
+        kind: event.startsWith('refund.') ? 'refund' : 'payment',
+        eventType: event,
+        reference: String(data.reference),
+        status:
+          data.status === 'completed' || data.status === 'failed' ? data.status : 'pending',
+        amount: data.amount !== undefined ? Number(data.amount) : undefined,
+        currency: data.currency,
+        paymentToken: data.token,
+        customerEmail: data.email,
+        message: data.message,
+        metadata: { ...(data.metadata ?? {}), ...(payload.meta ?? {}) },
+      };
+    },
+  };
+}
@@ -0,0 +1,378 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { GatewayName, GatewayWebhookEvent, WebhookBody } from "./paymentGateways.ts";
+import { getGatewayAdapter } from "./gatewayConfig.ts";
+import {
+  completeMembershipPayment,
+  failMembershipPayment,
+  MembershipTransaction,
+  MembershipType,
+  membershipTable,
+} from "./membershipSettlement.ts";
+import { completePaymentOrder, failPaymentOrder, issueRefundCreditNote, PaymentOrder } from "./purchaseOrders.ts";
+
+/**
+ * Applies a verified payment gateway webhook from the webhook inbox.
+ * Throws when the event cannot be applied yet (e.g. the transaction row is
+ * not written) so the inbox retries it with backoff. Safe to run more than
+ * once for the same event.
+ */
+
+const GATEWAY_LABELS: Record<GatewayName, string> = {
+  eversend: "Eversend",
+  flutterwave: "Flutterwave",
+  sandbox: "Sandbox",
+};
+
+export async function processPaymentWebhook(
+  supabase: SupabaseClient,
+  source: GatewayName,
+  webhook: WebhookBody,
+  signature: string
+): Promise<void> {
+  const adapter = getGatewayAdapter(source);
+  const event = adapter.parseWebhook(webhook);
+
+  if (!event) {
+    throw new Error("Unrecognised webhook payload");
+  }
+
+  // Refund webhooks settle a payment_refunds row instead of a payment
+  if (event.kind === "refund") {
+    await reconcileRefund(supabase, source, event, webhook, signature);
+    return;
+  }
+
+  // One-off purchases (courses, event tickets, tips) are payment orders
+  const { data: order, error: orderError } = await supabase
+    .from("payment_orders")
+    .select("*")
+    .eq(adapter.paymentLookupColumn, event.reference)
+    .maybeSingle();
+
+  if (orderError) throw new Error(`Order lookup failed: ${orderError.message}`);
+  if (order) {
+    // A gateway can only settle payments it was asked to take
+    if (order.gateway !== source) {
+      throw new Error(`Order ${order.id} was not paid through ${source}`);
+    }
+    await settlePaymentOrder(supabase, source, order, event);
+    return;
+  }
+
+  // Determine membership type from metadata, falling back to the other table
+  const preferred: MembershipType = event.metadata.membershipType === "member" ? "member" : "creator";
+  let membershipType: MembershipType = preferred;
+  let transaction: MembershipTransaction | null = null;
+
+  for (const candidate of [preferred, preferred === "member" ? "creator" : "member"] as MembershipType[]) {
+    const { data, error } = await supabase
+      .from(membershipTable(candidate))
+      .select("*")
+      .eq(adapter.paymentLookupColumn, event.reference)
+      .maybeSingle();
+
+    if (error) throw new Error(`Transaction lookup failed: ${error.message}`);
+    if (data) {
+      transaction = data;
+      membershipType = candidate;
+      break;
+    }
+  }
+
+  // The gateway can call back before initializePaymentUnified stores its reference
+  if (!transaction) {
+    throw new Error(`Transaction not found for ${source} reference ${event.reference}`);
+  }
+
+  if (transaction.gateway !== source) {
+    throw new Error(`Transaction ${transaction.id} was not paid through ${source}`);
+  }
+
+  // Record webhook event to consolidated webhook_events table
+  await supabase.from("webhook_events").insert({
+    membership_type: membershipType,
+    transaction_id: transaction.id,
+    event_id: event.reference,
+    event_type: event.eventType,
+    source: source,
+    payload: webhook,
+    signature: signature,
+    signature_verified: true,
+    status: "processing",
+  });
+
+  // A repeat webhook for a settled payment is a no-op
+  if (event.status === "completed") {
+    await completeMembershipPayment(supabase, transaction, membershipType, {
+      action: `${GATEWAY_LABELS[source]} webhook ${transaction.is_renewal ? "renewal" : "payment"} completed`,
+      updates: {
+        webhook_received_at: new Date().toISOString(),
+        webhook_verified: true,
+        webhook_signature: signature,
+      },
+      paymentToken: event.paymentToken,
+      customerEmail: event.customerEmail,
+    });
+  } else if (event.status === "failed") {
+    await failMembershipPayment(supabase, transaction, membershipType, `Payment failed on ${source}`, {
+      action: `${GATEWAY_LABELS[source]} webhook payment failed`,
+      updates: {
+        webhook_received_at: new Date().toISOString(),
+        webhook_verified: true,
+      },
+    });
+  }
+}
+
+async function settlePaymentOrder(
+  supabase: SupabaseClient,
+  source: GatewayName,
+  order: PaymentOrder,
+  event: GatewayWebhookEvent
+): Promise<void> {
+  if (event.status === "completed") {
+    let paid = { amount: event.amount, currency: event.currency };
+
+    // Without an amount in the webhook, ask the gateway what it charged
+    // (an unreachable gateway is retried by the inbox)
+    if (paid.amount === undefined) {
+      const reference = order.transaction_id ?? order.reference_id;
+      if (reference) {
+        const verification = await getGatewayAdapter(source).verifyPayment(reference);
+        if (!verification.success) {
+          throw new Error(`Could not verify order ${order.id} on ${source}: ${verification.error ?? "unknown error"}`);
+        }
+        if (verification.status === "completed") {
+          paid = { amount: verification.amount, currency: verification.currency ?? paid.currency };
+        }
+      }
+    }
+
+    // Never fulfil an order the gateway charged a different amount or currency for
+    const mismatch = describePaidMismatch(order, paid);
+    if (mismatch) {
+      await failPaymentOrder(supabase, order, mismatch, {
+        action: `${GATEWAY_LABELS[source]} webhook amount mismatch`,
+        details: { gatewayAmount: paid.amount, gatewayCurrency: paid.currency },
+      });
+      return;
+    }
+
+    await completePaymentOrder(supabase, order, {
+      action: `${GATEWAY_LABELS[source]} webhook payment completed`,
+      details: { eventType: event.eventType, customerEmail: event.customerEmail },
+    });
+  } else if (event.status === "failed") {
+    await failPaymentOrder(supabase, order, event.message || `Payment failed on ${source}`, {
+      action: `${GATEWAY_LABELS[source]} webhook payment failed`,
+      details: { eventType: event.eventType },
+    });
+  }
+}
+
+function describePaidMismatch(
+  order: PaymentOrder,
+  paid: { amount?: number; currency?: string }
+): string | null {
+  if (paid.amount === undefined) {
+    return `The gateway did not confirm the amount paid for order ${order.id}`;
+  }
+
+  if (Math.abs(Number(paid.amount) - Number(order.amount)) > 0.01) {
+    return `Paid amount ${paid.amount} does not match order amount ${order.amount}`;
+  }
+
+  if (paid.currency && paid.currency.toUpperCase() !== order.currency.toUpperCase()) {
+    return `Paid currency ${paid.currency} does not match order currency ${order.currency}`;
+  }
+
+  return null;
+}
+
+/**
+ * Settle a refund issued by refundPayment once the gateway confirms it.
+ * Safe to receive more than once: settled refunds are left untouched.
+ */
+async function reconcileRefund(
+  supabase: SupabaseClient,
+  source: GatewayName,
+  event: GatewayWebhookEvent,
+  webhook: WebhookBody,
+  signature: string
+): Promise<void> {
+  const gatewayRefundId = event.reference;
+
+  const { data: refund, error: refundError } = await supabase
+    .from("payment_refunds")
+    .select("*")
+    .eq("gateway", source)
+    .eq("gateway_refund_id", gatewayRefundId)
+    .maybeSingle();
+
+  if (refundError) throw new Error(`Refund lookup failed: ${refundError.message}`);
+
+  // refundPayment stores the gateway refund id after the gateway answers
+  if (!refund) {
+    throw new Error(`Refund not found for ${source} refund ${gatewayRefundId}`);
+  }
+
+  if (refund.status === "completed" || refund.status === "failed") return;
+
+  const isMembership = refund.payment_type !== "course_enrollment";
+  const membershipType = refund.payment_type === "member_membership" ? "member" : "creator";
+  const paymentTable = !isMembership ? "student_enrollments" : membershipTable(membershipType);
+
+  if (isMembership) {
+    await supabase.from("webhook_events").insert({
+      membership_type: membershipType,
+      transaction_id: refund.payment_id,
+      event_id: gatewayRefundId,
+      event_type: event.eventType,
+      source,
+      payload: webhook,
+      signature,
+      signature_verified: true,
+      status: "processing",
+    });
+  }
+
+  // Still pending at the gateway: nothing to settle yet
+  if (event.status === "pending") return;
+
+  const now = new Date().toISOString();
+
+  if (event.status === "failed") {
+    const { error } = await supabase
+      .from("payment_refunds")
+      .update({
+        status: "failed",
+        failed_at: now,
+        error_message: event.message || `Refund failed on ${source}`,
+      })
+      .eq("id", refund.id);
+
+    if (error) throw new Error(`Failed to update refund: ${error.message}`);
+
+    if (isMembership) {
+      await supabase.from("payment_audit_log").insert({
+        membership_type: membershipType,
+        transaction_id: refund.payment_id,
+        user_id: refund.user_id,
+        action: `Refund of ${refund.amount} ${refund.currency} failed on ${source}`,
+        action_type: "refund",
+        previous_status: "refund_processing",
+        new_status: "refund_failed",
+        details: { refundId: refund.id },
+      });
+    }
+    return;
+  }
+
+  const { data: payment, error: paymentError } = await supabase
+    .from(paymentTable)
+    .select("*")
+    .eq("id", refund.payment_id)
+    .single();
+
+  if (paymentError || !payment) {
+    throw new Error(`Refunded payment ${refund.payment_id} not found`);
+  }
+
+  // Settle the refund first so a retry after a partial failure never counts it twice
+  const { data: settled, error: settleError } = await supabase
+    .from("payment_refunds")
+    .update({ status: "completed", completed_at: now })
+    .eq("id", refund.id)
+    .in("status", ["pending", "processing"])
+    .select("id");
+
+  if (settleError) throw new Error(`Failed to settle refund: ${settleError.message}`);
+  if (!settled || settled.length === 0) return;
+
+  const { data: applied, error: applyError } = await supabase.rpc("apply_payment_refund", {
+    p_payment_type: refund.payment_type,
+    p_payment_id: refund.payment_id,
+    p_amount: refund.amount,
+  });
+
+  if (applyError) throw new Error(`Failed to record refund on payment: ${applyError.message}`);
+
+  const refundedAmount = Number(applied.refunded_amount);
+  const refundStatus: "refunded" | "partially_refunded" = applied.status;
+  // Whether the payment is fully refunded is only known now: refunds
+  // requested alongside this one may still fail
+  const isFullyRefunded = refundStatus === "refunded";
+
+  // A full refund takes back what the payment granted, but only once the money has gone back
+  if (isFullyRefunded) {
+    await revokeRefundedAccess(supabase, refund.payment_type, payment);
+  }
+
+  if (!isMembership) {
+    await issueRefundCreditNote(supabase, refund);
+
+    if (payment.payment_order_id) {
+      await supabase
+        .from("payment_orders")
+        .update({ status: refundStatus, refunded_amount: refundedAmount })
+        .eq("id", payment.payment_order_id);
+    }
+  }
+
+  if (isMembership) {
+    await supabase.from("payment_audit_log").insert({
+      membership_type: membershipType,
+      transaction_id: refund.payment_id,
+      user_id: refund.user_id,
+      action: `${GATEWAY_LABELS[source]} webhook refund completed`,
+      action_type: "refund",
+      previous_status: payment.status,
+      new_status: refundStatus,
+      details: {
+        refundId: refund.id,
+        amount: refund.amount,
+        refundedAmount,
+        reason: refund.reason,
+        accessRevoked: isFullyRefunded,
+      },
+    });
+  }
+}
+
+/**
+ * Undo what a fully refunded payment granted: the tier change, or the
+ * course enrollment
+ */
+async function revokeRefundedAccess(
+  supabase: SupabaseClient,
+  paymentType: string,
+  payment: { id: string; user_id: string; previous_tier?: string | null; new_tier?: string | null }
+): Promise<void> {
+  if (paymentType === "course_enrollment") {
+    await supabase
+      .from("student_enrollments")
+      .update({ status: "refunded" })
+      .eq("id", payment.id);
+    return;
+  }
+
+  // Only roll the tier back if nothing has changed it since this payment
+  await supabase
+    .from("profiles")
+    .update({ tier: payment.previous_tier, updated_at: new Date().toISOString() })
+    .eq("id", payment.user_id)
+    .eq("tier", payment.new_tier);
+
+  await supabase
+    .from("membership_subscriptions")
+    .update({
+      status: "canceled",
+      cancel_at_period_end: true,
+      next_renewal_attempt_at: null,
+      canceled_at: new Date().toISOString(),
+      downgraded_at: new Date().toISOString(),
+    })
+    .eq("user_id", payment.user_id)
+    .eq("membership_type", paymentType === "member_membership" ? "member" : "creator")
+    .eq("tier", payment.new_tier);
+}
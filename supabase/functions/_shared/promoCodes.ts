@@ -0,0 +1,124 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+/**
+ * Promo codes v2 (database/030_promo_codes_v2.sql)
+ * Discounts are always calculated by evaluate_promo_codes so the price the
+ * client previewed and the price we charge agree. Redemptions are recorded
+ * once the payment settles, never at checkout.
+ */
+
+export type PromoItemType =
+  | "course_enrollment"
+  | "event_ticket"
+  | "creator_membership"
+  | "member_membership";
+
+export interface AppliedPromoCode {
+  id: string;
+  code: string;
+  discount_amount: number;
+}
+
+export interface PromoEvaluation {
+  valid: boolean;
+  error?: string;
+  list_amount?: number;
+  discount_amount?: number;
+  final_amount?: number;
+  codes?: AppliedPromoCode[];
+}
+
+/** Stored on the order / membership transaction metadata as `promo` */
+export interface PromoMetadata {
+  listAmount: number;
+  discountAmount: number;
+  codes: AppliedPromoCode[];
+}
+
+export async function evaluatePromoCodes(
+  supabase: SupabaseClient,
+  params: {
+    codes: string[];
+    itemType: PromoItemType;
+    itemRef: string;
+    amount: number;
+    currency: string;
+    userId: string;
+  }
+): Promise<PromoEvaluation> {
+  const { data, error } = await supabase.rpc("evaluate_promo_codes", {
+    p_codes: params.codes,
+    p_item_type: params.itemType,
+    p_item_ref: params.itemRef,
+    p_amount: params.amount,
+    p_currency: params.currency,
+    p_user_id: params.userId,
+  });
+
+  if (error || !data) {
+    console.error("Promo code evaluation failed:", error);
+    return { valid: false, error: "Could not check promo codes" };
+  }
+
+  return data as PromoEvaluation;
+}
+
+export function toPromoMetadata(evaluation: PromoEvaluation): PromoMetadata {
+  return {
+    listAmount: Number(evaluation.list_amount ?? 0),
+    discountAmount: Number(evaluation.discount_amount ?? 0),
+    codes: evaluation.codes ?? [],
+  };
+}
+
+/**
+ * Record each applied code against a settled payment and count the use.
+ * Safe to repeat: a code already recorded for the payment is skipped.
+ */
+export async function recordPromoRedemptions(
+  supabase: SupabaseClient,
+  promo: PromoMetadata,
+  purchase: {
+    userId: string;
+    itemType: PromoItemType;
+    itemRef: string;
+    currency: string;
+    amountPaid: number;
+    paymentOrderId?: string;
+    membershipTransactionId?: string;
+  }
+): Promise<void> {
+  for (const code of promo.codes) {
+    const { data: inserted, error } = await supabase
+      .from("promo_code_redemptions")
+      .upsert(
+        {
+          promo_code_id: code.id,
+          user_id: purchase.userId,
+          item_type: purchase.itemType,
+          item_ref: purchase.itemRef,
+          payment_order_id: purchase.paymentOrderId ?? null,
+          membership_transaction_id: purchase.membershipTransactionId ?? null,
+          currency: purchase.currency,
+          list_amount: promo.listAmount,
+          discount_amount: code.discount_amount,
+          amount_paid: purchase.amountPaid,
+        },
+        {
+          onConflict: purchase.paymentOrderId
+            ? "promo_code_id,payment_order_id"
+            : "promo_code_id,membership_transaction_id",
+          ignoreDuplicates: true,
+        }
+      )
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to record promo code ${code.code}: ${error.message}`);
+    }
+
+    if (inserted && inserted.length > 0) {
+      await supabase.rpc("increment_promo_usage", { p_promo_id: code.id });
+    }
+  }
+}
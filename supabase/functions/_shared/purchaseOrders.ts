@@ -0,0 +1,906 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { evaluatePromoCodes, PromoMetadata, recordPromoRedemptions, toPromoMetadata } from "./promoCodes.ts";
+import { recordReferralConversion } from "./referrals.ts";
+
+/**
+ * Payment orders for one-off purchases (database/029_payment_orders.sql)
+ *
+ * initializePaymentUnified prices the item with priceOrderItem and creates
+ * the order; the payment webhook settles it with completePaymentOrder or
+ * failPaymentOrder. Fulfilment (enrollment + invoice, event registration,
+ * workshop seat, mentorship session, learning path, tip) happens only
+ * there, after the gateway confirmed the payment, and is safe to repeat
+ * when the webhook is retried.
+ */
+
+export type OrderItemType =
+  | "course_enrollment"
+  | "event_ticket"
+  | "tip"
+  | "workshop_registration"
+  | "mentorship_session"
+  | "learning_path";
+
+export const ORDER_ITEM_TYPES: OrderItemType[] = [
+  "course_enrollment",
+  "event_ticket",
+  "tip",
+  "workshop_registration",
+  "mentorship_session",
+  "learning_path",
+];
+
+export interface PaymentOrder {
+  id: string;
+  user_id: string;
+  item_type: OrderItemType;
+  item_ref: string;
+  item_title: string | null;
+  list_price: number;
+  discount_amount: number;
+  amount: number;
+  currency: string;
+  promo_code_ids: string[];
+  payment_method: string;
+  gateway: string;
+  status: string;
+  transaction_id: string | null;
+  reference_id: string | null;
+  fulfillment_id: string | null;
+  metadata?: {
+    email?: string;
+    phoneNumber?: string;
+    userName?: string;
+    message?: string;
+    promo?: PromoMetadata;
+    /** Event ticket type and how many were bought (database/045_event_ticketing.sql) */
+    ticketTypeId?: string;
+    quantity?: number;
+  } | null;
+}
+
+export interface PricedItem {
+  title: string;
+  listPrice: number;
+  discountAmount: number;
+  amount: number;
+  promo: PromoMetadata | null;
+}
+
+export interface PriceOrderOptions {
+  userId: string;
+  amount?: number;
+  promoCodes?: string[];
+  ticketTypeId?: string;
+  quantity?: number;
+}
+
+export interface OrderSettlementOptions {
+  /** Order event action text */
+  action: string;
+  /** Extra columns to set on the order (e.g. gateway references) */
+  updates?: Record<string, unknown>;
+  details?: Record<string, unknown>;
+}
+
+// Currencies the tips table accepts
+const TIP_CURRENCIES = ["UGX", "USD", "EUR", "GBP"];
+
+// An expired checkout can still be paid late; a failed one can be retried at the gateway
+const SETTLEABLE_STATUSES = ["pending", "processing", "failed", "expired"];
+
+export function isOrderItemType(value: unknown): value is OrderItemType {
+  return typeof value === "string" && (ORDER_ITEM_TYPES as string[]).includes(value);
+}
+
+/**
+ * Gateway reference for an order, e.g. order-course_enrollment-<id>
+ */
+export function orderReference(order: Pick<PaymentOrder, "id" | "item_type">): string {
+  return `order-${order.item_type}-${order.id}`;
+}
+
+/**
+ * Server-side price of an item. Courses and event tickets come from the
+ * pricing catalog (falling back to the course/event row) less any promo
+ * codes, or from the ticket type for events that have them; workshop
+ * seats, mentorship sessions and learning paths are priced on the
+ * session, booking or path; tips are priced by the buyer.
+ * Returns an error message when the item cannot be sold.
+ */
+export async function priceOrderItem(
+  supabase: SupabaseClient,
+  itemType: OrderItemType,
+  itemRef: string,
+  currency: string,
+  options: PriceOrderOptions
+): Promise<PricedItem | { error: string }> {
+  if (itemType === "tip") {
+    const amount = Number(options.amount);
+    if (!amount || amount <= 0) return { error: "Tip amount must be greater than zero" };
+    if (!TIP_CURRENCIES.includes(currency)) return { error: `Tips cannot be paid in ${currency}` };
+    return { title: `Tip for ${itemRef}`, listPrice: amount, discountAmount: 0, amount, promo: null };
+  }
+
+  if (itemType === "workshop_registration") {
+    return await priceWorkshopSeat(supabase, itemRef, currency, options);
+  }
+
+  if (itemType === "mentorship_session") {
+    return await priceMentorshipBooking(supabase, itemRef, currency, options);
+  }
+
+  if (itemType === "learning_path") {
+    return await priceLearningPath(supabase, itemRef, currency, options);
+  }
+
+  if (itemType === "event_ticket" && (options.ticketTypeId || (await hasTicketTypes(supabase, itemRef)))) {
+    return await priceEventTickets(supabase, itemRef, currency, options);
+  }
+
+  if (options.quantity !== undefined && options.quantity !== 1) {
+    return { error: "Only one ticket can be bought at a time for this event" };
+  }
+
+  let title: string;
+  let fallbackPrice: number | null;
+
+  if (itemType === "course_enrollment") {
+    const { data: course } = await supabase
+      .from("masterclass_page_content")
+      .select("title, course_price, course_currency")
+      .eq("id", itemRef)
+      .maybeSingle();
+
+    if (!course) return { error: "Course not found" };
+    title = course.title;
+    fallbackPrice = (course.course_currency || "UGX") === currency ? Number(course.course_price || 0) : null;
+  } else {
+    const { data: event } = await supabase
+      .from("events")
+      .select("title, price, status")
+      .eq("id", itemRef)
+      .maybeSingle();
+
+    if (!event) return { error: "Event not found" };
+    if (event.status === "cancelled" || event.status === "completed") {
+      return { error: "Tickets are no longer on sale for this event" };
+    }
+    title = event.title;
+    // Event prices are kept in UGX (see database/026_pricing_catalog.sql)
+    fallbackPrice = currency === "UGX" ? Number(event.price || 0) : null;
+  }
+
+  const { data: catalogPrice, error: catalogError } = await supabase.rpc("get_catalog_price", {
+    p_product_type: itemType === "course_enrollment" ? "course" : "event_ticket",
+    p_product_ref: itemRef,
+    p_currency: currency,
+  });
+
+  if (catalogError) console.error("Catalog price lookup failed:", catalogError);
+
+  const listPrice =
+    catalogPrice !== null && catalogPrice !== undefined ? Number(catalogPrice) : fallbackPrice;
+
+  if (listPrice === null) return { error: `${title} is not sold in ${currency}` };
+  if (listPrice <= 0) return { error: "This item is free and does not need a payment" };
+
+  return await applyPromoCodes(supabase, itemType, itemRef, currency, title, listPrice, options);
+}
+
+/**
+ * The list price less any promo codes
+ */
+async function applyPromoCodes(
+  supabase: SupabaseClient,
+  itemType: OrderItemType,
+  itemRef: string,
+  currency: string,
+  title: string,
+  listPrice: number,
+  options: PriceOrderOptions
+): Promise<PricedItem | { error: string }> {
+  if (!options.promoCodes?.length) {
+    return { title, listPrice, discountAmount: 0, amount: listPrice, promo: null };
+  }
+
+  const evaluation = await evaluatePromoCodes(supabase, {
+    codes: options.promoCodes,
+    itemType,
+    itemRef,
+    amount: listPrice,
+    currency,
+    userId: options.userId,
+  });
+
+  if (!evaluation.valid) return { error: evaluation.error || "Invalid promo code" };
+  // Orders always take a payment (payment_orders.amount > 0)
+  if (Number(evaluation.final_amount) <= 0) return { error: "Promo codes cannot cover the full price" };
+
+  const promo = toPromoMetadata(evaluation);
+  return {
+    title,
+    listPrice,
+    discountAmount: promo.discountAmount,
+    amount: Number(evaluation.final_amount),
+    promo,
+  };
+}
+
+/**
+ * Fulfil a paid order and mark it completed. Returns false when the order
+ * was already settled.
+ */
+export async function completePaymentOrder(
+  supabase: SupabaseClient,
+  order: PaymentOrder,
+  options: OrderSettlementOptions
+): Promise<boolean> {
+  if (!SETTLEABLE_STATUSES.includes(order.status)) return false;
+
+  // Fulfil first: a failure here throws and the webhook is retried
+  const fulfillmentId = order.fulfillment_id ?? (await fulfillOrder(supabase, order));
+  const now = new Date().toISOString();
+
+  if (
+    order.metadata?.promo &&
+    (order.item_type === "course_enrollment" || order.item_type === "event_ticket")
+  ) {
+    await recordPromoRedemptions(supabase, order.metadata.promo, {
+      userId: order.user_id,
+      itemType: order.item_type,
+      itemRef: order.item_ref,
+      currency: order.currency,
+      amountPaid: order.amount,
+      paymentOrderId: order.id,
+    });
+  }
+
+  if (!order.fulfillment_id) {
+    await supabase
+      .from("payment_orders")
+      .update({ fulfillment_id: fulfillmentId, fulfilled_at: now })
+      .eq("id", order.id);
+  }
+
+  const { data: updated } = await supabase
+    .from("payment_orders")
+    .update({
+      status: "completed",
+      completed_at: now,
+      error_message: null,
+      ...options.updates,
+    })
+    .eq("id", order.id)
+    .in("status", SETTLEABLE_STATUSES)
+    .select("id");
+
+  if (!updated || updated.length === 0) return false;
+
+  if (order.item_type === "course_enrollment") {
+    await recordReferralConversion(supabase, {
+      userId: order.user_id,
+      itemType: "course_enrollment",
+      paymentId: order.id,
+      amount: order.amount,
+      currency: order.currency,
+    });
+  }
+
+  await logOrderEvent(supabase, order, {
+    action: options.action,
+    actionType: "complete",
+    newStatus: "completed",
+    details: { fulfillmentId, ...options.details },
+  });
+
+  return true;
+}
+
+/**
+ * Mark an open order failed. Returns false when the order was no longer open.
+ */
+export async function failPaymentOrder(
+  supabase: SupabaseClient,
+  order: PaymentOrder,
+  errorMessage: string,
+  options: OrderSettlementOptions
+): Promise<boolean> {
+  const { data: updated } = await supabase
+    .from("payment_orders")
+    .update({
+      status: "failed",
+      failed_at: new Date().toISOString(),
+      error_message: errorMessage,
+      ...options.updates,
+    })
+    .eq("id", order.id)
+    .in("status", ["pending", "processing"])
+    .select("id");
+
+  if (!updated || updated.length === 0) return false;
+
+  await logOrderEvent(supabase, order, {
+    action: options.action,
+    actionType: "fail",
+    newStatus: "failed",
+    details: options.details,
+  });
+
+  return true;
+}
+
+export async function logOrderEvent(
+  supabase: SupabaseClient,
+  order: Pick<PaymentOrder, "id" | "user_id" | "status">,
+  event: {
+    action: string;
+    actionType: string;
+    newStatus: string;
+    details?: Record<string, unknown>;
+    performedBy?: string;
+  }
+): Promise<void> {
+  const { error } = await supabase.from("payment_order_events").insert({
+    order_id: order.id,
+    user_id: order.user_id,
+    action: event.action,
+    action_type: event.actionType,
+    previous_status: order.status,
+    new_status: event.newStatus,
+    details: event.details ?? {},
+    performed_by: event.performedBy ?? "system",
+  });
+
+  if (error) console.error("Failed to log order event:", error);
+}
+
+async function fulfillOrder(supabase: SupabaseClient, order: PaymentOrder): Promise<string> {
+  switch (order.item_type) {
+    case "course_enrollment":
+      return await fulfillCourseEnrollment(supabase, order);
+    case "event_ticket":
+      return await fulfillEventTicket(supabase, order);
+    case "tip":
+      return await fulfillTip(supabase, order);
+    case "workshop_registration":
+      return await fulfillWorkshopRegistration(supabase, order);
+    case "mentorship_session":
+      return await fulfillMentorshipBooking(supabase, order);
+    case "learning_path":
+      return await fulfillLearningPath(supabase, order);
+  }
+}
+
+/**
+ * Enroll the buyer and issue the invoice. The enrollment becomes
+ * certificate-eligible here.
+ */
+async function fulfillCourseEnrollment(supabase: SupabaseClient, order: PaymentOrder): Promise<string> {
+  return await enrollPaidCourse(supabase, order, order.item_ref, order.amount);
+}
+
+/**
+ * Paid enrollment in one course with its invoice. Learning paths call
+ * this per course with the course's share of the order amount.
+ */
+async function enrollPaidCourse(
+  supabase: SupabaseClient,
+  order: PaymentOrder,
+  courseId: string,
+  amount: number
+): Promise<string> {
+  const transactionId = order.transaction_id ?? order.reference_id;
+
+  const { data: enrollment, error } = await supabase
+    .from("student_enrollments")
+    .upsert(
+      {
+        user_id: order.user_id,
+        course_id: courseId,
+        price_paid: amount,
+        currency: order.currency,
+        payment_method: order.gateway,
+        transaction_id: transactionId,
+        payment_order_id: order.id,
+        payment_status: "completed",
+        certificate_eligible: true,
+        status: "active",
+      },
+      { onConflict: "user_id,course_id" }
+    )
+    .select("id")
+    .single();
+
+  if (error || !enrollment) {
+    throw new Error(`Failed to create enrollment: ${error?.message ?? "unknown error"}`);
+  }
+
+  // Free courses in a bundle get no invoice
+  if (amount <= 0) return enrollment.id;
+
+  const invoiceTransactionId = transactionId ?? order.id;
+  const { data: existingInvoice } = await supabase
+    .from("enrollment_invoices")
+    .select("id")
+    .eq("enrollment_id", enrollment.id)
+    .eq("transaction_id", invoiceTransactionId)
+    .maybeSingle();
+
+  if (!existingInvoice) {
+    const invoiceDate = new Date();
+    const { error: invoiceError } = await supabase.from("enrollment_invoices").insert({
+      enrollment_id: enrollment.id,
+      user_id: order.user_id,
+      course_id: courseId,
+      amount,
+      currency: order.currency,
+      payment_method: order.payment_method,
+      transaction_id: invoiceTransactionId,
+      invoice_date: invoiceDate.toISOString(),
+      due_date: invoiceDate.toISOString(),
+      status: "paid",
+      email_sent: false,
+    });
+
+    if (invoiceError) throw new Error(`Failed to create invoice: ${invoiceError.message}`);
+  }
+
+  return enrollment.id;
+}
+
+async function hasTicketTypes(supabase: SupabaseClient, eventId: string): Promise<boolean> {
+  const { count } = await supabase
+    .from("event_ticket_types")
+    .select("id", { count: "exact", head: true })
+    .eq("event_id", eventId);
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Tickets of one type (database/045_event_ticketing.sql), sold while the
+ * type is on sale and has enough left. Like workshop seats, a payment
+ * that lands after the last ones went is still honoured.
+ */
+async function priceEventTickets(
+  supabase: SupabaseClient,
+  eventId: string,
+  currency: string,
+  options: PriceOrderOptions
+): Promise<PricedItem | { error: string }> {
+  if (!options.ticketTypeId) return { error: "Choose a ticket type" };
+
+  const { data: ticketType } = await supabase
+    .from("event_ticket_types")
+    .select("name, price, currency, quantity, sold_count, max_per_order, sales_start_at, sales_end_at, is_active, events(title, status)")
+    .eq("id", options.ticketTypeId)
+    .eq("event_id", eventId)
+    .maybeSingle();
+
+  if (!ticketType || !ticketType.is_active) return { error: "Ticket not found" };
+
+  const event = ticketType.events as unknown as { title: string; status: string } | null;
+  if (!event || event.status === "cancelled" || event.status === "completed") {
+    return { error: "Tickets are no longer on sale for this event" };
+  }
+
+  const now = Date.now();
+  if (ticketType.sales_start_at && new Date(ticketType.sales_start_at).getTime() > now) {
+    return { error: `Sales for ${ticketType.name} have not started yet` };
+  }
+  if (ticketType.sales_end_at && new Date(ticketType.sales_end_at).getTime() < now) {
+    return { error: `Sales for ${ticketType.name} have ended` };
+  }
+
+  const quantity = options.quantity ?? 1;
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > ticketType.max_per_order) {
+    return { error: `You can buy between 1 and ${ticketType.max_per_order} ${ticketType.name} tickets` };
+  }
+
+  const remaining = ticketType.quantity - ticketType.sold_count;
+  if (remaining <= 0) return { error: `${ticketType.name} is sold out` };
+  if (quantity > remaining) return { error: `Only ${remaining} ${ticketType.name} tickets left` };
+
+  const title = `${event.title} - ${ticketType.name}${quantity > 1 ? ` x${quantity}` : ""}`;
+  if (ticketType.currency !== currency) return { error: `${title} is not sold in ${currency}` };
+
+  const listPrice = Number(ticketType.price) * quantity;
+  if (listPrice <= 0) return { error: "This item is free and does not need a payment" };
+
+  return await applyPromoCodes(supabase, "event_ticket", eventId, currency, title, listPrice, options);
+}
+
+/**
+ * Register the buyer and issue their tickets, one per quantity bought.
+ * Tickets already issued for the order are counted, so a retried
+ * webhook doesn't issue them twice.
+ */
+async function fulfillEventTicket(supabase: SupabaseClient, order: PaymentOrder): Promise<string> {
+  const { data: registration, error } = await supabase
+    .from("event_registrations")
+    .upsert(
+      { user_id: order.user_id, event_id: order.item_ref, status: "registered" },
+      { onConflict: "user_id,event_id" }
+    )
+    .select("id")
+    .single();
+
+  if (error || !registration) {
+    throw new Error(`Failed to register for event: ${error?.message ?? "unknown error"}`);
+  }
+
+  const quantity = order.metadata?.quantity ?? 1;
+  const { count: issued } = await supabase
+    .from("event_tickets")
+    .select("id", { count: "exact", head: true })
+    .eq("payment_order_id", order.id);
+
+  const missing = quantity - (issued ?? 0);
+  if (missing > 0) {
+    const pricePaid = Math.round((order.amount / quantity) * 100) / 100;
+    const { error: ticketError } = await supabase.from("event_tickets").insert(
+      Array.from({ length: missing }, () => ({
+        event_id: order.item_ref,
+        ticket_type_id: order.metadata?.ticketTypeId ?? null,
+        user_id: order.user_id,
+        price_paid: pricePaid,
+        currency: order.currency,
+        payment_order_id: order.id,
+      }))
+    );
+
+    if (ticketError) throw new Error(`Failed to issue tickets: ${ticketError.message}`);
+  }
+
+  return registration.id;
+}
+
+/**
+ * Seats for live workshops (database/038_workshop_sessions.sql). Sold
+ * only while the session is open and has room; the promo code system
+ * doesn't cover workshops.
+ */
+async function priceWorkshopSeat(
+  supabase: SupabaseClient,
+  sessionId: string,
+  currency: string,
+  options: { userId: string; promoCodes?: string[] }
+): Promise<PricedItem | { error: string }> {
+  const { data: session } = await supabase
+    .from("workshop_sessions")
+    .select("title, price, currency, status, starts_at, duration_minutes, capacity, registered_count")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (!session) return { error: "Workshop not found" };
+  if (session.status !== "scheduled") return { error: "This workshop has been cancelled" };
+
+  const endsAt = new Date(session.starts_at).getTime() + session.duration_minutes * 60 * 1000;
+  if (endsAt < Date.now()) return { error: "This workshop has already taken place" };
+  if (session.registered_count >= session.capacity) return { error: "This workshop is full" };
+  if (session.currency !== currency) return { error: `${session.title} is not sold in ${currency}` };
+
+  const listPrice = Number(session.price || 0);
+  if (listPrice <= 0) return { error: "This item is free and does not need a payment" };
+  if (options.promoCodes?.length) return { error: "Promo codes cannot be used for workshops" };
+
+  const { data: registration } = await supabase
+    .from("workshop_registrations")
+    .select("status")
+    .eq("session_id", sessionId)
+    .eq("user_id", options.userId)
+    .maybeSingle();
+
+  if (registration?.status === "registered") {
+    return { error: "You are already registered for this workshop" };
+  }
+
+  return { title: session.title, listPrice, discountAmount: 0, amount: listPrice, promo: null };
+}
+
+async function fulfillWorkshopRegistration(supabase: SupabaseClient, order: PaymentOrder): Promise<string> {
+  const { data: registration, error } = await supabase
+    .from("workshop_registrations")
+    .upsert(
+      {
+        session_id: order.item_ref,
+        user_id: order.user_id,
+        status: "registered",
+        price_paid: order.amount,
+        currency: order.currency,
+        payment_order_id: order.id,
+      },
+      { onConflict: "session_id,user_id" }
+    )
+    .select("id")
+    .single();
+
+  if (error || !registration) {
+    throw new Error(`Failed to register for workshop: ${error?.message ?? "unknown error"}`);
+  }
+
+  return registration.id;
+}
+
+/**
+ * A paid mentorship booking (database/039_mentorship_booking.sql). The
+ * slot is held while the student pays; once the hold lapses the student
+ * has to book again.
+ */
+async function priceMentorshipBooking(
+  supabase: SupabaseClient,
+  bookingId: string,
+  currency: string,
+  options: { userId: string; promoCodes?: string[] }
+): Promise<PricedItem | { error: string }> {
+  const { data: booking } = await supabase
+    .from("mentorship_bookings")
+    .select("student_id, session_title, mentor_name, status, price, currency, hold_expires_at")
+    .eq("id", bookingId)
+    .maybeSingle();
+
+  if (!booking || booking.student_id !== options.userId) return { error: "Booking not found" };
+  if (booking.status === "confirmed") return { error: "This session is already paid for" };
+  if (booking.status !== "pending_payment" || new Date(booking.hold_expires_at).getTime() < Date.now()) {
+    return { error: "Your hold on this time has expired, please book the session again" };
+  }
+  if (booking.currency !== currency) return { error: `This session is not sold in ${currency}` };
+  if (options.promoCodes?.length) return { error: "Promo codes cannot be used for mentorship sessions" };
+
+  const listPrice = Number(booking.price);
+  if (listPrice <= 0) return { error: "This item is free and does not need a payment" };
+
+  const title = booking.mentor_name
+    ? `${booking.session_title} with ${booking.mentor_name}`
+    : booking.session_title;
+
+  return { title, listPrice, discountAmount: 0, amount: listPrice, promo: null };
+}
+
+/**
+ * Confirm the booking. A payment that lands after the hold lapsed and
+ * someone else took the time, or after the student cancelled, can't be
+ * confirmed: the booking is cancelled and flagged for a refund instead.
+ */
+async function fulfillMentorshipBooking(supabase: SupabaseClient, order: PaymentOrder): Promise<string> {
+  const { data: confirmed, error } = await supabase
+    .from("mentorship_bookings")
+    .update({ status: "confirmed", hold_expires_at: null, payment_order_id: order.id })
+    .eq("id", order.item_ref)
+    .in("status", ["pending_payment", "expired"])
+    .select("id");
+
+  if (!error && (!confirmed || confirmed.length === 0)) {
+    const { data: booking, error: bookingError } = await supabase
+      .from("mentorship_bookings")
+      .select("status, payment_order_id, cancellation_reason")
+      .eq("id", order.item_ref)
+      .maybeSingle();
+
+    if (bookingError) throw new Error(`Failed to load mentorship booking: ${bookingError.message}`);
+
+    // Confirmed by an earlier attempt at this order
+    if (booking?.status === "confirmed" && booking.payment_order_id === order.id) {
+      return order.item_ref;
+    }
+
+    const { error: flagError } = await supabase
+      .from("mentorship_bookings")
+      .update({
+        refund_eligible: true,
+        payment_order_id: order.id,
+        cancellation_reason:
+          booking?.cancellation_reason ?? "The booking was no longer open when the payment completed",
+      })
+      .eq("id", order.item_ref);
+
+    if (flagError) throw new Error(`Failed to flag mentorship booking for refund: ${flagError.message}`);
+    return order.item_ref;
+  }
+
+  // 23P01: exclusion_violation (mentorship_bookings_no_overlap)
+  if (error?.code === "23P01") {
+    const { error: cancelError } = await supabase
+      .from("mentorship_bookings")
+      .update({
+        status: "cancelled",
+        cancelled_at: new Date().toISOString(),
+        cancellation_reason: "The time was booked by someone else before the payment completed",
+        refund_eligible: true,
+        payment_order_id: order.id,
+      })
+      .eq("id", order.item_ref);
+
+    if (cancelError) throw new Error(`Failed to cancel mentorship booking: ${cancelError.message}`);
+  } else if (error) {
+    throw new Error(`Failed to confirm mentorship booking: ${error.message}`);
+  }
+
+  return order.item_ref;
+}
+
+interface LearningPathCoursePrice {
+  course_id: string;
+  course_position: number;
+  list_price: number | null;
+}
+
+/**
+ * A learning path or bundle (database/041_learning_paths.sql), sold at
+ * the path's own price, which has to stay below what its courses cost
+ * separately. Promo codes don't apply to bundles.
+ */
+async function priceLearningPath(
+  supabase: SupabaseClient,
+  pathId: string,
+  currency: string,
+  options: { userId: string; promoCodes?: string[] }
+): Promise<PricedItem | { error: string }> {
+  const { data: path } = await supabase
+    .from("learning_paths")
+    .select("title, price, currency, is_published")
+    .eq("id", pathId)
+    .maybeSingle();
+
+  if (!path || !path.is_published) return { error: "Learning path not found" };
+  if (path.currency !== currency) return { error: `${path.title} is not sold in ${currency}` };
+  if (options.promoCodes?.length) return { error: "Promo codes cannot be used for bundles" };
+
+  const listPrice = Number(path.price || 0);
+  if (listPrice <= 0) return { error: "This item is free and does not need a payment" };
+
+  const { data: coursePrices, error: pricesError } = await supabase.rpc("get_learning_path_course_prices", {
+    p_path_id: pathId,
+    p_currency: currency,
+  });
+
+  if (pricesError) {
+    console.error("Learning path price lookup failed:", pricesError);
+    return { error: "Could not price this learning path" };
+  }
+
+  const courses = (coursePrices || []) as LearningPathCoursePrice[];
+  const partsTotal = courses.reduce(
+    (sum, course) => sum + Number(course.list_price || 0),
+    0
+  );
+  // Catalog prices may have dropped since the bundle was priced
+  if (listPrice >= partsTotal) return { error: "This bundle is not available right now" };
+
+  const { data: owned } = await supabase
+    .from("student_enrollments")
+    .select("course_id")
+    .eq("user_id", options.userId)
+    .eq("certificate_eligible", true)
+    .in("course_id", courses.map((course) => course.course_id));
+
+  if ((owned?.length ?? 0) >= courses.length) {
+    return { error: "You already have every course in this learning path" };
+  }
+
+  return { title: path.title, listPrice, discountAmount: 0, amount: listPrice, promo: null };
+}
+
+/**
+ * Enroll the buyer in every course of the path they don't already own.
+ * The amount is split across those courses in proportion to their own
+ * prices so each invoice shows its share; the path enrollment then picks
+ * up their progress.
+ */
+async function fulfillLearningPath(supabase: SupabaseClient, order: PaymentOrder): Promise<string> {
+  const { data: coursePrices, error: pricesError } = await supabase.rpc("get_learning_path_course_prices", {
+    p_path_id: order.item_ref,
+    p_currency: order.currency,
+  });
+
+  if (pricesError) throw new Error(`Failed to load learning path courses: ${pricesError.message}`);
+
+  const courses = (coursePrices || []) as LearningPathCoursePrice[];
+
+  // Enrollments from an earlier attempt at this order are re-written, not skipped
+  const { data: owned } = await supabase
+    .from("student_enrollments")
+    .select("course_id, payment_order_id")
+    .eq("user_id", order.user_id)
+    .eq("certificate_eligible", true)
+    .in("course_id", courses.map((course) => course.course_id));
+
+  const ownedIds = new Set(
+    (owned || []).filter((row) => row.payment_order_id !== order.id).map((row) => row.course_id)
+  );
+  const toEnroll = courses.filter((course) => !ownedIds.has(course.course_id));
+
+  const weightTotal = toEnroll.reduce((sum, course) => sum + Number(course.list_price || 0), 0);
+  let allocated = 0;
+
+  for (const [index, course] of toEnroll.entries()) {
+    const weight = weightTotal > 0 ? Number(course.list_price || 0) / weightTotal : 1 / toEnroll.length;
+    // The last course takes the rounding remainder so the shares add up to the order
+    const share =
+      index === toEnroll.length - 1 ? order.amount - allocated : Math.round(order.amount * weight * 100) / 100;
+    allocated += share;
+
+    await enrollPaidCourse(supabase, order, course.course_id, Math.round(share * 100) / 100);
+  }
+
+  const { data: pathEnrollment, error } = await supabase
+    .from("learning_path_enrollments")
+    .upsert(
+      {
+        path_id: order.item_ref,
+        user_id: order.user_id,
+        price_paid: order.amount,
+        currency: order.currency,
+        payment_order_id: order.id,
+      },
+      { onConflict: "path_id,user_id" }
+    )
+    .select("id")
+    .single();
+
+  if (error || !pathEnrollment) {
+    throw new Error(`Failed to enroll in learning path: ${error?.message ?? "unknown error"}`);
+  }
+
+  const { error: refreshError } = await supabase.rpc("refresh_learning_path_enrollment", {
+    p_path_enrollment_id: pathEnrollment.id,
+  });
+  if (refreshError) console.error("Learning path progress refresh failed:", refreshError);
+
+  return pathEnrollment.id;
+}
+
+async function fulfillTip(supabase: SupabaseClient, order: PaymentOrder): Promise<string> {
+  const { data: tip, error } = await supabase
+    .from("tips")
+    .insert({
+      from_user_id: order.user_id,
+      creator_name: order.item_ref,
+      amount: order.amount,
+      currency: order.currency,
+      message: order.metadata?.message ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (error || !tip) {
+    throw new Error(`Failed to record tip: ${error?.message ?? "unknown error"}`);
+  }
+
+  return tip.id;
+}
+
+/**
+ * Credit the enrollment's invoice for a completed course refund. The
+ * invoice itself is never edited (database/042_invoice_numbering_and_tax.sql);
+ * the credit note brings its refunded total and status up to date.
+ */
+export async function issueRefundCreditNote(
+  supabase: SupabaseClient,
+  refund: { id: string; payment_id: string; amount: number; reason: string | null }
+): Promise<void> {
+  const { data: invoice } = await supabase
+    .from("enrollment_invoices")
+    .select("id, amount, refunded_amount")
+    .eq("enrollment_id", refund.payment_id)
+    .order("invoice_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  // Free enrollments have no invoice to credit
+  if (!invoice) return;
+
+  const remaining = Number(invoice.amount) - Number(invoice.refunded_amount ?? 0);
+  const amount = Math.min(Number(refund.amount), remaining);
+  if (amount <= 0) return;
+
+  const { error } = await supabase
+    .from("credit_notes")
+    .upsert(
+      { invoice_id: invoice.id, refund_id: refund.id, amount, reason: refund.reason },
+      { onConflict: "refund_id", ignoreDuplicates: true }
+    );
+
+  if (error) console.error("Failed to issue credit note:", error);
+}
@@ -0,0 +1,31 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+/**
+ * Referral attribution (database/031_referral_program.sql)
+ * A referred user's first settled membership or course enrollment converts
+ * the referral and rewards the referrer. Called after the payment is
+ * settled, so a failure is logged rather than retried.
+ */
+
+export type ReferralItemType = "creator_membership" | "member_membership" | "course_enrollment";
+
+export async function recordReferralConversion(
+  supabase: SupabaseClient,
+  purchase: {
+    userId: string;
+    itemType: ReferralItemType;
+    paymentId: string;
+    amount: number;
+    currency: string;
+  }
+): Promise<void> {
+  const { error } = await supabase.rpc("record_referral_conversion", {
+    p_user_id: purchase.userId,
+    p_item_type: purchase.itemType,
+    p_payment_id: purchase.paymentId,
+    p_amount: purchase.amount,
+    p_currency: purchase.currency,
+  });
+
+  if (error) console.error("Failed to record referral conversion:", error);
+}
@@ -0,0 +1,182 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { WebhookBody } from "./paymentGateways.ts";
+import { isEnabledGateway } from "./gatewayConfig.ts";
+import { processPaymentWebhook } from "./paymentWebhookProcessor.ts";
+import { MuxWebhookBody, processMuxWebhook } from "./muxWebhookProcessor.ts";
+
+/**
+ * Durable webhook inbox (database/028_webhook_inbox.sql)
+ *
+ * Receivers verify the signature, store the event with storeWebhookEvent and
+ * acknowledge it; processing happens afterwards (inline first, then by the
+ * processWebhookInbox worker) so a failed database update is retried instead
+ * of lost. Redeliveries of a stored event are ignored by its event key.
+ *
+ * A failed event is retried with exponential backoff; after max_attempts it
+ * moves to 'dead_letter' until an admin replays it (replay_webhook_event).
+ */
+
+export type WebhookSource = "eversend" | "flutterwave" | "sandbox" | "mux";
+
+export interface WebhookInboxEvent {
+  id: string;
+  source: WebhookSource;
+  event_key: string;
+  event_type: string | null;
+  payload: unknown;
+  signature: string | null;
+  status: "pending" | "processing" | "processed" | "failed" | "dead_letter";
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface StoreWebhookParams {
+  source: WebhookSource;
+  eventKey: string;
+  eventType?: string;
+  payload: unknown;
+  signature?: string | null;
+}
+
+export interface InboxRunSummary {
+  claimed: number;
+  processed: number;
+  failed: number;
+  deadLettered: number;
+}
+
+const RETRY_BASE_SECONDS = Number(Deno.env.get("WEBHOOK_RETRY_BASE_SECONDS") ?? "30");
+const RETRY_MAX_SECONDS = Number(Deno.env.get("WEBHOOK_RETRY_MAX_SECONDS") ?? String(6 * 60 * 60));
+
+/**
+ * Store a verified webhook. Throws if it could not be stored, so the
+ * receiver can answer with an error and the sender redelivers.
+ */
+export async function storeWebhookEvent(
+  supabase: SupabaseClient,
+  params: StoreWebhookParams
+): Promise<{ id: string; duplicate: boolean }> {
+  const { data, error } = await supabase
+    .from("webhook_inbox")
+    .insert({
+      source: params.source,
+      event_key: params.eventKey,
+      event_type: params.eventType ?? null,
+      payload: params.payload,
+      signature: params.signature ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (!error && data) {
+    return { id: data.id, duplicate: false };
+  }
+
+  // 23505 = already stored (redelivery)
+  if (error?.code === "23505") {
+    const { data: existing, error: lookupError } = await supabase
+      .from("webhook_inbox")
+      .select("id")
+      .eq("source", params.source)
+      .eq("event_key", params.eventKey)
+      .single();
+
+    if (!lookupError && existing) {
+      return { id: existing.id, duplicate: true };
+    }
+  }
+
+  throw new Error(`Failed to store webhook: ${error?.message ?? "unknown error"}`);
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped
+ */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Claim due events (or the one event eventId) and process them
+ */
+export async function processInboxEvents(
+  supabase: SupabaseClient,
+  options: { eventId?: string; limit?: number } = {}
+): Promise<InboxRunSummary> {
+  const summary: InboxRunSummary = { claimed: 0, processed: 0, failed: 0, deadLettered: 0 };
+
+  const { data: claimed, error } = await supabase.rpc("claim_webhook_inbox_events", {
+    p_limit: options.limit ?? 20,
+    p_event_id: options.eventId ?? null,
+  });
+
+  if (error) {
+    console.error("Failed to claim webhook events:", error);
+    return summary;
+  }
+
+  for (const event of (claimed ?? []) as WebhookInboxEvent[]) {
+    summary.claimed++;
+
+    try {
+      await dispatchWebhookEvent(supabase, event);
+
+      await supabase
+        .from("webhook_inbox")
+        .update({ status: "processed", processed_at: new Date().toISOString(), last_error: null })
+        .eq("id", event.id);
+
+      summary.processed++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      const exhausted = event.attempts >= event.max_attempts;
+      console.error(`Webhook ${event.id} attempt ${event.attempts} failed:`, message);
+
+      await supabase
+        .from("webhook_inbox")
+        .update(
+          exhausted
+            ? {
+                status: "dead_letter",
+                dead_lettered_at: new Date().toISOString(),
+                last_error: message,
+              }
+            : {
+                status: "failed",
+                next_attempt_at: new Date(
+                  Date.now() + retryDelaySeconds(event.attempts) * 1000
+                ).toISOString(),
+                last_error: message,
+              }
+        )
+        .eq("id", event.id);
+
+      if (exhausted) summary.deadLettered++;
+      else summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+async function dispatchWebhookEvent(
+  supabase: SupabaseClient,
+  event: WebhookInboxEvent
+): Promise<void> {
+  if (event.source === "mux") {
+    await processMuxWebhook(supabase, event.payload as MuxWebhookBody);
+    return;
+  }
+
+  if (isEnabledGateway(event.source)) {
+    await processPaymentWebhook(
+      supabase,
+      event.source,
+      event.payload as WebhookBody,
+      event.signature ?? ""
+    );
+    return;
+  }
+
+  throw new Error(`No handler for webhook source '${event.source}'`);
+}
@@ -0,0 +1,423 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+/**
+ * Zoho Books sales sync (database/044_zoho_books_sales_sync.sql)
+ *
+ * Completed sales are queued per Zoho Books connection by database
+ * triggers. For each record the worker:
+ *   1. finds the buyer's Zoho contact by email and updates its name, or
+ *      creates it billed in the sale currency (as createCustomer does in
+ *      src/lib/zohoBooksService.ts)
+ *   2. updates the invoice it created before, or one carrying the sale's
+ *      reference number, or creates it (as createInvoice does)
+ *   3. marks the invoice sent and records a customer payment with the
+ *      gateway transaction reference, which makes it paid
+ * Each Zoho id is saved as soon as it exists, so a retry continues where
+ * the last attempt stopped instead of creating duplicates.
+ *
+ * Failed records are retried with exponential backoff and dead-lettered
+ * after max_attempts; the owner can retry them from the Books page.
+ */
+
+export interface ZohoSyncRecord {
+  id: string;
+  user_id: string;
+  source_type: "course_enrollment" | "membership_payment" | "tip" | "event_ticket";
+  source_table: string;
+  source_id: string;
+  customer_name: string;
+  customer_email: string | null;
+  description: string;
+  amount: number;
+  currency: string;
+  payment_method: string | null;
+  transaction_reference: string;
+  paid_at: string;
+  attempts: number;
+  max_attempts: number;
+  zoho_contact_id: string | null;
+  zoho_invoice_id: string | null;
+  zoho_invoice_number: string | null;
+  zoho_payment_id: string | null;
+}
+
+export interface ZohoSyncRunSummary {
+  claimed: number;
+  synced: number;
+  failed: number;
+  deadLettered: number;
+}
+
+interface ZohoConnection {
+  userId: string;
+  organizationId: string;
+  accessToken: string;
+}
+
+const ZOHO_BOOKS_API_BASE = "https://www.zohoapis.com/books/v3";
+const ZOHO_OAUTH_TOKEN_URL = "https://accounts.zoho.com/oauth/v2/token";
+
+const RETRY_BASE_SECONDS = Number(Deno.env.get("ZOHO_SYNC_RETRY_BASE_SECONDS") ?? "300");
+const RETRY_MAX_SECONDS = Number(Deno.env.get("ZOHO_SYNC_RETRY_MAX_SECONDS") ?? String(12 * 60 * 60));
+
+// Zoho payment modes for our payment methods; everything else is "others"
+const PAYMENT_MODES: Record<string, string> = {
+  card: "creditcard",
+  bank_transfer: "banktransfer",
+};
+
+export class ZohoApiError extends Error {
+  constructor(message: string, readonly status: number, readonly code: number | null) {
+    super(message);
+    this.name = "ZohoApiError";
+  }
+}
+
+/**
+ * Delay before the next attempt: base * 2^(attempts - 1), capped
+ */
+export function zohoSyncRetryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Claim due sync records and push them to Zoho Books
+ */
+export async function processZohoBooksSync(
+  supabase: SupabaseClient,
+  options: { limit?: number } = {}
+): Promise<ZohoSyncRunSummary> {
+  const summary: ZohoSyncRunSummary = { claimed: 0, synced: 0, failed: 0, deadLettered: 0 };
+
+  const { data: claimed, error } = await supabase.rpc("claim_zoho_books_sync_records", {
+    p_limit: options.limit ?? 20,
+  });
+
+  if (error) {
+    console.error("Failed to claim Zoho Books sync records:", error);
+    return summary;
+  }
+
+  // One token lookup per connection per run
+  const connections = new Map<string, Promise<ZohoConnection>>();
+
+  for (const record of (claimed ?? []) as ZohoSyncRecord[]) {
+    summary.claimed++;
+
+    try {
+      if (!connections.has(record.user_id)) {
+        connections.set(record.user_id, loadConnection(supabase, record.user_id));
+      }
+      const connection = await connections.get(record.user_id)!;
+
+      await syncRecord(supabase, connection, record);
+
+      const now = new Date().toISOString();
+      await supabase
+        .from("zoho_books_sync_records")
+        .update({ status: "synced", synced_at: now, last_error: null })
+        .eq("id", record.id);
+      await supabase.from("zoho_books_integrations").update({ last_sync: now }).eq("user_id", record.user_id);
+
+      summary.synced++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      const exhausted = record.attempts >= record.max_attempts;
+      console.error(`Zoho Books sync ${record.id} attempt ${record.attempts} failed:`, message);
+
+      await supabase
+        .from("zoho_books_sync_records")
+        .update(
+          exhausted
+            ? { status: "dead_letter", last_error: message }
+            : {
+                status: "failed",
+                next_attempt_at: new Date(
+                  Date.now() + zohoSyncRetryDelaySeconds(record.attempts) * 1000
+                ).toISOString(),
+                last_error: message,
+              }
+        )
+        .eq("id", record.id);
+
+      if (exhausted) summary.deadLettered++;
+      else summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+async function syncRecord(
+  supabase: SupabaseClient,
+  connection: ZohoConnection,
+  record: ZohoSyncRecord
+): Promise<void> {
+  const contactId = record.zoho_contact_id ?? (await upsertContact(supabase, connection, record));
+  if (!record.zoho_contact_id) {
+    await saveProgress(supabase, record.id, { zoho_contact_id: contactId });
+  }
+
+  const invoice = await upsertInvoice(connection, record, contactId);
+  if (invoice.invoice_id !== record.zoho_invoice_id) {
+    await saveProgress(supabase, record.id, {
+      zoho_invoice_id: invoice.invoice_id,
+      zoho_invoice_number: invoice.invoice_number,
+    });
+  }
+
+  if (record.zoho_payment_id || invoice.status === "paid") return;
+
+  if (invoice.status === "draft") {
+    await zohoRequest(connection, "POST", `/invoices/${invoice.invoice_id}/status/sent`);
+  }
+
+  const { payment } = await zohoRequest<{ payment: { payment_id: string } }>(connection, "POST", "/customerpayments", {
+    customer_id: contactId,
+    payment_mode: PAYMENT_MODES[record.payment_method ?? ""] ?? "others",
+    amount: record.amount,
+    date: record.paid_at.slice(0, 10),
+    reference_number: record.transaction_reference,
+    description: record.description,
+    invoices: [{ invoice_id: invoice.invoice_id, amount_applied: record.amount }],
+  });
+
+  await saveProgress(supabase, record.id, { zoho_payment_id: payment.payment_id });
+}
+
+async function saveProgress(supabase: SupabaseClient, recordId: string, updates: Record<string, unknown>) {
+  const { error } = await supabase.from("zoho_books_sync_records").update(updates).eq("id", recordId);
+  if (error) throw new Error(`Failed to save sync progress: ${error.message}`);
+}
+
+/**
+ * The buyer's contact, found by email (or name when there is none) and
+ * kept up to date, or created in the sale currency
+ */
+async function upsertContact(
+  supabase: SupabaseClient,
+  connection: ZohoConnection,
+  record: ZohoSyncRecord
+): Promise<string> {
+  const search = record.customer_email
+    ? `email=${encodeURIComponent(record.customer_email)}`
+    : `contact_name=${encodeURIComponent(record.customer_name)}`;
+
+  const { contacts } = await zohoRequest<{
+    contacts: { contact_id: string; contact_name: string; currency_code: string }[];
+  }>(connection, "GET", `/contacts?contact_type=customer&${search}`);
+
+  const existing = contacts?.[0];
+  let contactId: string;
+
+  if (existing) {
+    if (existing.currency_code && existing.currency_code !== record.currency) {
+      throw new Error(
+        `Customer ${existing.contact_name} is billed in ${existing.currency_code} in Zoho Books; this sale is in ${record.currency}`
+      );
+    }
+
+    if (existing.contact_name !== record.customer_name) {
+      await zohoRequest(connection, "PUT", `/contacts/${existing.contact_id}`, {
+        contact_name: record.customer_name,
+      });
+    }
+    contactId = existing.contact_id;
+  } else {
+    const currencyId = await findCurrencyId(connection, record.currency);
+    const contact = {
+      contact_type: "customer",
+      currency_id: currencyId,
+      contact_persons: record.customer_email
+        ? [{ first_name: record.customer_name, email: record.customer_email, is_primary_contact: true }]
+        : [],
+    };
+
+    let created: { contact: { contact_id: string } };
+    try {
+      created = await zohoRequest(connection, "POST", "/contacts", { contact_name: record.customer_name, ...contact });
+    } catch (err) {
+      // Contact names are unique in Zoho Books; tell namesakes apart by email
+      if (!(err instanceof ZohoApiError) || !record.customer_email || !/already exists/i.test(err.message)) throw err;
+      created = await zohoRequest(connection, "POST", "/contacts", {
+        contact_name: `${record.customer_name} (${record.customer_email})`,
+        ...contact,
+      });
+    }
+    contactId = created.contact.contact_id;
+  }
+
+  await supabase.from("zoho_books_customers").upsert(
+    {
+      user_id: connection.userId,
+      zoho_contact_id: contactId,
+      contact_name: record.customer_name,
+      email: record.customer_email,
+      currency_code: record.currency,
+      last_synced_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,zoho_contact_id" }
+  );
+
+  return contactId;
+}
+
+async function findCurrencyId(connection: ZohoConnection, currencyCode: string): Promise<string> {
+  const { currencies } = await zohoRequest<{ currencies: { currency_id: string; currency_code: string }[] }>(
+    connection,
+    "GET",
+    "/settings/currencies"
+  );
+
+  const currency = currencies?.find((item) => item.currency_code === currencyCode);
+  if (!currency) {
+    throw new Error(`Add ${currencyCode} to the currencies in Zoho Books to sync this sale`);
+  }
+
+  return currency.currency_id;
+}
+
+interface ZohoInvoiceSummary {
+  invoice_id: string;
+  invoice_number: string;
+  status: string;
+}
+
+/**
+ * The sale's invoice: the one created on an earlier attempt, or one
+ * with the sale reference, updated to match; otherwise a new one
+ */
+async function upsertInvoice(
+  connection: ZohoConnection,
+  record: ZohoSyncRecord,
+  contactId: string
+): Promise<ZohoInvoiceSummary> {
+  const referenceNumber = `${record.source_type}-${record.source_id}`.slice(0, 50);
+  let invoiceId = record.zoho_invoice_id;
+
+  if (!invoiceId) {
+    const { invoices } = await zohoRequest<{ invoices: ZohoInvoiceSummary[] }>(
+      connection,
+      "GET",
+      `/invoices?reference_number=${encodeURIComponent(referenceNumber)}`
+    );
+    invoiceId = invoices?.[0]?.invoice_id ?? null;
+  }
+
+  const invoice = {
+    customer_id: contactId,
+    reference_number: referenceNumber,
+    date: record.paid_at.slice(0, 10),
+    line_items: [{ description: record.description, quantity: 1, rate: record.amount }],
+    notes: `Paid online. Transaction reference: ${record.transaction_reference}`,
+  };
+
+  if (invoiceId) {
+    const current = await zohoRequest<{ invoice: ZohoInvoiceSummary }>(connection, "GET", `/invoices/${invoiceId}`);
+
+    // Paid invoices are locked in Zoho Books
+    if (current.invoice.status === "paid") return current.invoice;
+
+    const { invoice: updated } = await zohoRequest<{ invoice: ZohoInvoiceSummary }>(
+      connection,
+      "PUT",
+      `/invoices/${invoiceId}`,
+      invoice
+    );
+    return updated;
+  }
+
+  const { invoice: created } = await zohoRequest<{ invoice: ZohoInvoiceSummary }>(
+    connection,
+    "POST",
+    "/invoices",
+    invoice
+  );
+  return created;
+}
+
+/**
+ * The connection's organization and a live access token, refreshed
+ * like zoho-api-call does when it has expired
+ */
+async function loadConnection(supabase: SupabaseClient, userId: string): Promise<ZohoConnection> {
+  const { data: integration, error } = await supabase
+    .from("zoho_books_integrations")
+    .select("access_token, refresh_token, token_expires_at, organization_id, is_connected")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Zoho Books connection lookup failed: ${error.message}`);
+  if (!integration?.is_connected || !integration.refresh_token || !integration.organization_id) {
+    throw new Error("Zoho Books is not connected");
+  }
+
+  // Refresh a minute early so the token cannot expire mid-sync
+  if (integration.access_token && new Date(integration.token_expires_at).getTime() > Date.now() + 60_000) {
+    return { userId, organizationId: integration.organization_id, accessToken: integration.access_token };
+  }
+
+  const response = await fetch(ZOHO_OAUTH_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      client_id: Deno.env.get("VITE_ZOHO_CLIENT_ID") ?? "",
+      client_secret: Deno.env.get("VITE_ZOHO_CLIENT_SECRET") ?? "",
+      refresh_token: integration.refresh_token,
+    }).toString(),
+  });
+  const token = await response.json();
+
+  if (token.error || !token.access_token) {
+    throw new Error(`Zoho token refresh failed: ${token.error ?? response.statusText}`);
+  }
+
+  await supabase
+    .from("zoho_books_integrations")
+    .update({
+      access_token: token.access_token,
+      token_expires_at: new Date(Date.now() + token.expires_in * 1000).toISOString(),
+    })
+    .eq("user_id", userId);
+
+  return { userId, organizationId: integration.organization_id, accessToken: token.access_token };
+}
+
+async function zohoRequest<T = Record<string, unknown>>(
+  connection: ZohoConnection,
+  method: "GET" | "POST" | "PUT",
+  endpoint: string,
+  body?: unknown
+): Promise<T> {
+  const url = new URL(`${ZOHO_BOOKS_API_BASE}${endpoint}`);
+  url.searchParams.set("organization_id", connection.organizationId);
+
+  const response = await fetch(url.toString(), {
+    method,
+    headers: {
+      Authorization: `Zoho-oauthtoken ${connection.accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const text = await response.text();
+  let data: { code?: number; message?: string } & Record<string, unknown> = {};
+  try {
+    data = text ? JSON.parse(text) : {};
+  } catch {
+    // Not JSON: reported below with the status text
+  }
+
+  // Zoho answers code 0 on success
+  if (!response.ok || (data.code !== undefined && data.code !== 0)) {
+    throw new ZohoApiError(
+      `Zoho Books ${method} ${url.pathname.replace("/books/v3", "")} failed: ${data.message ?? (text || response.statusText)}`,
+      response.status,
+      data.code ?? null
+    );
+  }
+
+  return data as T;
+}
@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+/**
+ * Bounce reports for the email outbox
+ * For bounces that arrive after the SMTP server accepted the message
+ * (relay or provider bounce notifications). Expects
+ *   Authorization: Bearer <EMAIL_BOUNCE_WEBHOOK_SECRET>
+ *   { "email": "...", "type": "hard" | "soft" | "complaint",
+ *     "reason": "...", "messageId": "<outbox-id@domain>" }
+ * Hard bounces and complaints suppress the address.
+ */
+
+const BOUNCE_TYPES = ["hard", "soft", "complaint"];
+
+interface BounceReport {
+  email?: string;
+  type?: string;
+  reason?: string;
+  messageId?: string;
+}
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const secret = Deno.env.get("EMAIL_BOUNCE_WEBHOOK_SECRET");
+  if (!secret || req.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const report: BounceReport = await req.json();
+
+    if (!report.email || !report.type || !BOUNCE_TYPES.includes(report.type)) {
+      return json({ error: "email and a type of hard, soft or complaint are required" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    let outboxId: string | null = null;
+    if (report.messageId) {
+      const messageId = report.messageId.startsWith("<") ? report.messageId : `<${report.messageId}>`;
+      const { data: email } = await supabase
+        .from("email_outbox")
+        .select("id")
+        .eq("message_id", messageId)
+        .maybeSingle();
+      outboxId = email?.id ?? null;
+    }
+
+    const { error } = await supabase.rpc("record_email_bounce", {
+      p_email: report.email,
+      p_bounce_type: report.type,
+      p_reason: report.reason ?? null,
+      p_outbox_id: outboxId,
+    });
+
+    if (error) throw error;
+
+    return json({ success: true, matched: !!outboxId }, 200);
+  } catch (error) {
+    console.error("Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
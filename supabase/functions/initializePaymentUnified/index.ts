@@ -1,5 +1,14 @@
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { getGatewayAdapter, resolveGateway } from "../_shared/gatewayConfig.ts";
+import {
+  isOrderItemType,
+  logOrderEvent,
+  OrderItemType,
+  orderReference,
+  priceOrderItem,
+} from "../_shared/purchaseOrders.ts";
+import { evaluatePromoCodes, PromoMetadata, toPromoMetadata } from "../_shared/promoCodes.ts";
 
 interface InitPaymentRequest {
   membershipType: 'creator' | 'member'; // Platform membership, not per-creator
@@ -13,6 +22,37 @@ interface InitPaymentRequest {
   phoneNumber: string;
   userName: string;
   idempotencyKey: string;
+  proration?: Proration;
+  /** Discount codes; `amount` is the price after the discount */
+  promoCodes?: string[];
+}
+
+// One-off purchase (course enrollment, event ticket, tip) - priced server-side
+interface InitOrderRequest {
+  itemType: OrderItemType;
+  itemRef: string;
+  currency: string;
+  /** What the buyer was shown; the order fails with PRICE_MISMATCH if it differs */
+  expectedAmount: number;
+  promoCodes?: string[];
+  message?: string;
+  /** Event ticket type and how many tickets (events with ticket types) */
+  ticketTypeId?: string;
+  quantity?: number;
+  paymentMethod: string;
+  email: string;
+  phoneNumber: string;
+  userName: string;
+  idempotencyKey: string;
+}
+
+// Mid-cycle plan change (membershipProrationConfig.ts), repriced server-side
+interface Proration {
+  kind: string;
+  fullPrice: number;
+  credit: number;
+  keepsCurrentPeriod: boolean;
+  periodEnd: string;
 }
 
 serve(async (req) => {
@@ -47,7 +87,13 @@ serve(async (req) => {
       });
     }
 
-    const body: InitPaymentRequest = await req.json();
+    const requestBody = await req.json();
+
+    if (isOrderItemType(requestBody.itemType)) {
+      return await initializeOrder(req, user.id, requestBody as InitOrderRequest);
+    }
+
+    const body: InitPaymentRequest = requestBody;
 
     // Validate request
     if (
@@ -64,11 +110,55 @@ serve(async (req) => {
       );
     }
 
+    if (body.promoCodes?.length && body.proration) {
+      return new Response(
+        JSON.stringify({
+          error: "Promo codes cannot be used for a mid-cycle plan change",
+          errorCode: "VALIDATION_FAILED",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const catalogPrice = await getCatalogPrice(body);
+    let promo: PromoMetadata | null = null;
+
+    if (body.promoCodes?.length) {
+      const promoResult = await applyMembershipPromo(body, catalogPrice);
+      if ("error" in promoResult) {
+        return new Response(
+          JSON.stringify({ error: promoResult.error, errorCode: promoResult.errorCode }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      promo = promoResult.promo;
+    }
+
+    const priceError = promo ? null : validateCatalogPrice(body, catalogPrice);
+    if (priceError) {
+      return new Response(
+        JSON.stringify({ error: priceError, errorCode: "PRICE_MISMATCH" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    let proration: Proration | undefined;
+
+    if (body.proration) {
+      const prorationResult = await priceProration(body, catalogPrice);
+      if ("error" in prorationResult) {
+        return new Response(
+          JSON.stringify({ error: prorationResult.error, errorCode: prorationResult.errorCode }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      proration = prorationResult.proration;
+    }
+
     // Determine table based on membership type
     const tableName =
       body.membershipType === 'creator' ? 'creators_membership' : 'members_membership';
-    const gateway =
-      body.paymentMethod === "express_pay" ? "flutterwave" : "eversend";
+    const gateway = resolveGateway(body.paymentMethod);
 
     // Check for existing transaction (idempotency)
     const { data: existingTx } = await supabase
@@ -98,6 +188,13 @@ serve(async (req) => {
       status: "pending",
       payment_status: "pending",
       ip_address: req.headers.get("x-forwarded-for") || "unknown",
+      metadata: {
+        email: body.email,
+        phoneNumber: body.phoneNumber,
+        userName: body.userName,
+        proration,
+        promo,
+      },
     };
 
     // Create pending transaction
@@ -115,13 +212,27 @@ serve(async (req) => {
     }
 
     // Call payment gateway
-    let paymentResult;
-
-    if (gateway === "eversend") {
-      paymentResult = await initializeEversendPayment(body, transaction.id);
-    } else {
-      paymentResult = await initializeFlutterwavePayment(body, transaction.id);
-    }
+    const membershipLabel = body.membershipType === 'creator' ? 'Creator' : 'Member';
+    const paymentResult = await getGatewayAdapter(gateway).initializePayment({
+      reference: `membership-${body.membershipType}-${body.userId}-${transaction.id}`,
+      amount: body.amount,
+      currency: "USD",
+      email: body.email,
+      phoneNumber: body.phoneNumber,
+      customerName: body.userName,
+      title: `${membershipLabel} Membership`,
+      description: `Upgrade from ${body.previousTier} to ${body.targetTier}`,
+      redirectUrl: `${Deno.env.get("APP_URL")}/membership-callback?type=${body.membershipType}`,
+      metadata: {
+        membershipType: body.membershipType,
+        userId: body.userId,
+        transactionId: transaction.id,
+        currentTier: body.previousTier,
+        targetTier: body.targetTier,
+        billingCycle: body.billingCycle,
+        type: body.proration ? "membership-plan-change" : "membership-upgrade",
+      },
+    });
 
     if (!paymentResult.success) {
       await supabase
@@ -168,139 +279,364 @@ serve(async (req) => {
   }
 });
 
-async function initializeEversendPayment(
-  body: InitPaymentRequest,
-  transactionId: string
-): Promise<{
-  success: boolean;
-  error?: string;
-  transactionId?: string;
-  referenceId?: string;
-  checkoutUrl?: string;
-}> {
-  const eversendKey = Deno.env.get("EVERSEND_API_KEY");
-  if (!eversendKey) {
-    return { success: false, error: "Eversend API key not configured" };
+/**
+ * Create a payment order for a one-off purchase and open the gateway
+ * checkout. Nothing is granted here: the payment webhook fulfils the order.
+ */
+async function initializeOrder(
+  req: Request,
+  userId: string,
+  body: InitOrderRequest
+): Promise<Response> {
+  const jsonHeaders = { "Content-Type": "application/json" };
+
+  if (!body.itemRef || !body.currency || !body.paymentMethod || !body.idempotencyKey) {
+    return new Response(JSON.stringify({ error: "Missing required fields" }), {
+      status: 400,
+      headers: jsonHeaders,
+    });
   }
 
-  try {
-    const response = await fetch("https://api.eversend.co/send/initiate", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${eversendKey}`,
-      },
-      body: JSON.stringify({
-        amount: body.amount,
-        currency: "USD",
-        phoneNumber: body.phoneNumber,
-        email: body.email,
-        description: `${body.membershipType === 'creator' ? 'Creator' : 'Member'} Membership - ${body.previousTier} to ${body.targetTier}`,
-        externalId: `membership-${body.membershipType}-${body.userId}-${transactionId}`,
-        redirectUrl: `${Deno.env.get("APP_URL")}/membership-callback?type=${body.membershipType}`,
-        metadata: {
-          membershipType: body.membershipType,
-          userId: body.userId,
-          transactionId: transactionId,
-          currentTier: body.previousTier,
-          targetTier: body.targetTier,
-          billingCycle: body.billingCycle,
-          type: "membership-upgrade",
-        },
+  const admin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  // Check for existing order (idempotency)
+  const { data: existingOrder } = await admin
+    .from("payment_orders")
+    .select("id, user_id, status, checkout_url")
+    .eq("idempotency_key", body.idempotencyKey)
+    .maybeSingle();
+
+  if (existingOrder && existingOrder.user_id === userId) {
+    return new Response(
+      JSON.stringify({
+        success: true,
+        orderId: existingOrder.id,
+        status: existingOrder.status,
+        checkoutUrl: existingOrder.checkout_url,
       }),
+      { status: 200, headers: jsonHeaders }
+    );
+  }
+
+  const priced = await priceOrderItem(admin, body.itemType, body.itemRef, body.currency, {
+    userId,
+    amount: body.itemType === "tip" ? body.expectedAmount : undefined,
+    promoCodes: body.promoCodes,
+    ticketTypeId: body.itemType === "event_ticket" ? body.ticketTypeId : undefined,
+    quantity: body.itemType === "event_ticket" ? body.quantity : undefined,
+  });
+
+  if ("error" in priced) {
+    return new Response(JSON.stringify({ error: priced.error, errorCode: "VALIDATION_FAILED" }), {
+      status: 400,
+      headers: jsonHeaders,
     });
+  }
 
-    const data = await response.json();
+  if (Math.abs(priced.amount - Number(body.expectedAmount)) > 0.01) {
+    return new Response(
+      JSON.stringify({
+        error: "Price has changed, please review your order again",
+        errorCode: "PRICE_MISMATCH",
+      }),
+      { status: 400, headers: jsonHeaders }
+    );
+  }
 
-    if (!response.ok) {
-      return {
-        success: false,
-        error: data.message || "Eversend initialization failed",
-      };
-    }
+  const gateway = resolveGateway(body.paymentMethod);
 
-    return {
+  const { data: order, error: orderError } = await admin
+    .from("payment_orders")
+    .insert({
+      user_id: userId,
+      item_type: body.itemType,
+      item_ref: body.itemRef,
+      item_title: priced.title,
+      list_price: priced.listPrice,
+      discount_amount: priced.discountAmount,
+      amount: priced.amount,
+      currency: body.currency,
+      promo_code_ids: priced.promo?.codes.map((code) => code.id) ?? [],
+      payment_method: body.paymentMethod,
+      gateway,
+      idempotency_key: body.idempotencyKey,
+      status: "pending",
+      ip_address: req.headers.get("x-forwarded-for") || "unknown",
+      metadata: {
+        email: body.email,
+        phoneNumber: body.phoneNumber,
+        userName: body.userName,
+        message: body.message,
+        promo: priced.promo,
+        ticketTypeId: body.itemType === "event_ticket" ? body.ticketTypeId : undefined,
+        quantity: body.itemType === "event_ticket" ? body.quantity ?? 1 : undefined,
+      },
+    })
+    .select("*")
+    .single();
+
+  if (orderError || !order) {
+    return new Response(JSON.stringify({ error: "Failed to create order" }), {
+      status: 500,
+      headers: jsonHeaders,
+    });
+  }
+
+  const paymentResult = await getGatewayAdapter(gateway).initializePayment({
+    reference: orderReference(order),
+    amount: priced.amount,
+    currency: body.currency,
+    email: body.email,
+    phoneNumber: body.phoneNumber,
+    customerName: body.userName,
+    title: priced.title,
+    description: priced.title,
+    redirectUrl: `${Deno.env.get("APP_URL")}/${
+      body.itemType === "course_enrollment" ? "enrollment-callback" : "order-callback"
+    }?order=${order.id}`,
+    metadata: {
+      orderId: order.id,
+      itemType: body.itemType,
+      itemRef: body.itemRef,
+      userId,
+      type: body.itemType.replace("_", "-"),
+    },
+  });
+
+  if (!paymentResult.success) {
+    await admin
+      .from("payment_orders")
+      .update({
+        status: "failed",
+        failed_at: new Date().toISOString(),
+        error_message: paymentResult.error,
+      })
+      .eq("id", order.id);
+
+    await logOrderEvent(admin, order, {
+      action: `Checkout could not be opened on ${gateway}`,
+      actionType: "init",
+      newStatus: "failed",
+      details: { error: paymentResult.error },
+    });
+
+    return new Response(JSON.stringify({ ...paymentResult, errorCode: "GATEWAY_ERROR" }), {
+      status: 400,
+      headers: jsonHeaders,
+    });
+  }
+
+  await admin
+    .from("payment_orders")
+    .update({
+      transaction_id: paymentResult.transactionId,
+      reference_id: paymentResult.referenceId,
+      checkout_url: paymentResult.checkoutUrl,
+      status: "processing",
+    })
+    .eq("id", order.id);
+
+  await logOrderEvent(admin, order, {
+    action: `Checkout opened on ${gateway}`,
+    actionType: "init",
+    newStatus: "processing",
+    details: { gateway, paymentMethod: body.paymentMethod, amount: priced.amount },
+  });
+
+  return new Response(
+    JSON.stringify({
       success: true,
-      transactionId: data.reference,
-      referenceId: data.reference,
-      checkoutUrl: data.checkoutLink || data.paymentLink,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Eversend error",
-    };
+      orderId: order.id,
+      gateway,
+      checkoutUrl: paymentResult.checkoutUrl,
+    }),
+    { status: 200, headers: jsonHeaders }
+  );
+}
+
+/**
+ * Current pricing catalog price for the tier (memberships are sold from
+ * the USD price book), or null when the tier has no catalog price.
+ */
+async function getCatalogPrice(body: InitPaymentRequest): Promise<number | null> {
+  const admin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const { data: catalogPrice, error } = await admin.rpc("get_catalog_price", {
+    p_product_type: `${body.membershipType}_membership`,
+    p_product_ref: body.targetTier,
+    p_currency: "USD",
+    p_billing_cycle: body.billingCycle,
+  });
+
+  if (error) {
+    console.error("Catalog price lookup failed:", error);
+    return null;
   }
+  if (catalogPrice === null || catalogPrice === undefined) return null;
+
+  return Number(catalogPrice);
 }
 
-async function initializeFlutterwavePayment(
+/**
+ * The price the user renews at must be the catalog's current price for
+ * the tier. Tiers without a catalog price are not checked; plan changes
+ * are repriced by priceProration.
+ */
+function validateCatalogPrice(body: InitPaymentRequest, catalogPrice: number | null): string | null {
+  if (catalogPrice === null || body.proration) return null;
+
+  if (Math.abs(catalogPrice - body.amount) > 0.01) {
+    return "Price has changed, please review your plan again";
+  }
+
+  return null;
+}
+
+/**
+ * Discount the tier's catalog price with the promo codes; the amount the
+ * user was shown must be the discounted price
+ */
+async function applyMembershipPromo(
   body: InitPaymentRequest,
-  transactionId: string
-): Promise<{
-  success: boolean;
-  error?: string;
-  transactionId?: string;
-  referenceId?: string;
-  checkoutUrl?: string;
-}> {
-  const flutterwaveKey = Deno.env.get("FLUTTERWAVE_SECRET_KEY");
-  if (!flutterwaveKey) {
-    return { success: false, error: "Flutterwave secret key not configured" };
+  catalogPrice: number | null
+): Promise<{ promo: PromoMetadata } | { error: string; errorCode: string }> {
+  if (catalogPrice === null) {
+    return { error: "Promo codes cannot be applied to this plan", errorCode: "VALIDATION_FAILED" };
   }
 
-  try {
-    const response = await fetch("https://api.flutterwave.com/v3/payments", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${flutterwaveKey}`,
-      },
-      body: JSON.stringify({
-        tx_ref: `membership-${body.membershipType}-${body.userId}-${transactionId}`,
-        amount: body.amount,
-        currency: "USD",
-        payment_options: "card,mobilemoney,ussd",
-        customer: {
-          email: body.email,
-          name: body.userName,
-          phonenumber: body.phoneNumber,
-        },
-        customizations: {
-          title: `${body.membershipType === 'creator' ? 'Creator' : 'Member'} Membership`,
-          description: `Upgrade from ${body.previousTier} to ${body.targetTier}`,
-        },
-        redirect_url: `${Deno.env.get("APP_URL")}/membership-callback?type=${body.membershipType}`,
-        meta: {
-          membershipType: body.membershipType,
-          userId: body.userId,
-          transactionId: transactionId,
-          currentTier: body.previousTier,
-          targetTier: body.targetTier,
-          billingCycle: body.billingCycle,
-          type: "membership-upgrade",
-        },
-      }),
-    });
+  const admin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const evaluation = await evaluatePromoCodes(admin, {
+    codes: body.promoCodes!,
+    itemType: `${body.membershipType}_membership`,
+    itemRef: body.targetTier,
+    amount: catalogPrice,
+    currency: "USD",
+    userId: body.userId,
+  });
 
-    const data = await response.json();
+  if (!evaluation.valid) {
+    return { error: evaluation.error || "Invalid promo code", errorCode: "VALIDATION_FAILED" };
+  }
 
-    if (data.status !== "success") {
-      return {
-        success: false,
-        error: data.message || "Flutterwave initialization failed",
-      };
-    }
+  if (Number(evaluation.final_amount) <= 0) {
+    return { error: "Promo codes cannot cover the full price", errorCode: "VALIDATION_FAILED" };
+  }
 
+  if (Math.abs(Number(evaluation.final_amount) - body.amount) > 0.01) {
+    return { error: "Price has changed, please review your plan again", errorCode: "PRICE_MISMATCH" };
+  }
+
+  return { promo: toPromoMetadata(evaluation) };
+}
+
+// The client priced the change when the user opened the review step
+const PRORATION_GRACE_MS = 15 * 60 * 1000;
+
+/**
+ * Price a mid-cycle plan change from the user's current subscription and
+ * the catalog, the same way membershipProrationConfig.ts does. Only
+ * upgrades and monthly -> annual switches are charged now (the rest is
+ * scheduled with schedule_membership_change), and the amount the user was
+ * shown must match the price at some point since the review step opened.
+ */
+async function priceProration(
+  body: InitPaymentRequest,
+  catalogPrice: number | null
+): Promise<{ proration: Proration } | { error: string; errorCode: string }> {
+  if (catalogPrice === null) {
+    return { error: "This plan cannot be changed mid-cycle", errorCode: "INVALID_PRORATION" };
+  }
+
+  const admin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const { data: subscription } = await admin
+    .from("membership_subscriptions")
+    .select("tier, billing_cycle, amount, status, current_period_start, current_period_end")
+    .eq("user_id", body.userId)
+    .eq("membership_type", body.membershipType)
+    .maybeSingle();
+
+  if (!subscription || !["active", "past_due"].includes(subscription.status)) {
+    return { error: "No active subscription to prorate against", errorCode: "INVALID_PRORATION" };
+  }
+
+  const start = new Date(subscription.current_period_start).getTime();
+  const end = new Date(subscription.current_period_end).getTime();
+
+  if (end <= Date.now()) {
+    return { error: "Billing period changed, please review the upgrade again", errorCode: "INVALID_PRORATION" };
+  }
+
+  const [{ data: currentRank }, { data: targetRank }] = await Promise.all([
+    admin.rpc("membership_tier_rank", { p_membership_type: body.membershipType, p_tier: subscription.tier }),
+    admin.rpc("membership_tier_rank", { p_membership_type: body.membershipType, p_tier: body.targetTier }),
+  ]);
+
+  if (currentRank === null || targetRank === null) {
+    return { error: "Unknown plan", errorCode: "INVALID_PRORATION" };
+  }
+
+  const isUpgrade = targetRank > currentRank;
+  const toAnnual =
+    targetRank === currentRank && subscription.billing_cycle === "monthly" && body.billingCycle === "annual";
+  const keepsCurrentPeriod = body.proration!.keepsCurrentPeriod;
+
+  const keepsPeriodAllowed = isUpgrade && body.billingCycle === subscription.billing_cycle;
+
+  if (!(isUpgrade || toAnnual) || (keepsCurrentPeriod && !keepsPeriodAllowed)) {
     return {
-      success: true,
-      transactionId: data.data.reference,
-      referenceId: data.data.reference,
-      checkoutUrl: data.data.link,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Flutterwave error",
+      error: "Only upgrades and monthly to annual switches are charged now",
+      errorCode: "INVALID_PRORATION",
     };
   }
+
+  const remaining = (at: number) => Math.min(1, Math.max(0, (end - at) / (end - start || 1)));
+  const credit = (at: number) => roundMoney(Number(subscription.amount) * remaining(at));
+  // An upgrade within the period pays the difference for what is left of it; otherwise a new period starts now
+  const amountDue = (at: number) =>
+    keepsCurrentPeriod
+      ? roundMoney(catalogPrice * remaining(at) - credit(at))
+      : roundMoney(Math.max(0, catalogPrice - credit(at)));
+
+  const now = Date.now();
+  const dueNow = amountDue(now);
+  const dueAtReview = amountDue(now - PRORATION_GRACE_MS);
+
+  if (keepsCurrentPeriod && dueNow <= 0) {
+    return { error: "Billing period changed, please review the upgrade again", errorCode: "INVALID_PRORATION" };
+  }
+
+  if (
+    body.amount < Math.min(dueNow, dueAtReview) - 0.01 ||
+    body.amount > Math.max(dueNow, dueAtReview) + 0.01
+  ) {
+    return { error: "Price has changed, please review your plan again", errorCode: "PRICE_MISMATCH" };
+  }
+
+  const periodEnd = new Date(now);
+  periodEnd.setMonth(periodEnd.getMonth() + (body.billingCycle === "annual" ? 12 : 1));
+
+  return {
+    proration: {
+      kind: isUpgrade ? "upgrade" : "billing_cycle_change",
+      fullPrice: catalogPrice,
+      credit: credit(now),
+      keepsCurrentPeriod,
+      periodEnd: new Date(keepsCurrentPeriod ? end : periodEnd.getTime()).toISOString(),
+    },
+  };
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
 }
@@ -0,0 +1,415 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { PDFDocument, rgb, StandardFonts } from "npm:pdf-lib@1.17.1";
+import { isAdminUser } from "../_shared/adminAuth.ts";
+
+/**
+ * Issue a course completion certificate
+ * Called by the student with their enrollment id. Checks the enrollment
+ * is completed (all lessons plus required quizzes, see
+ * refresh_enrollment_progress), renders the certificate to PDF, stores it
+ * in B2 through upload-to-b2 and records it in student_certificates.
+ * Issuing again returns the existing certificate. Once a certificate is
+ * revoked (revoke_certificate), only the course instructor or an admin can
+ * issue the enrollment a new one, by calling this with the same id.
+ *
+ * Learning path certificates are issued the same way for a completed
+ * path enrollment (learningPathEnrollmentId, see
+ * refresh_learning_path_enrollment).
+ */
+
+interface IssueCertificateRequest {
+  enrollmentId?: string;
+  learningPathEnrollmentId?: string;
+}
+
+type CertificateTarget =
+  | { enrollment_id: string; course_id: string }
+  | { learning_path_enrollment_id: string; learning_path_id: string };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonHeaders = { ...corsHeaders, "Content-Type": "application/json" };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: jsonHeaders });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(authHeader.substring(7));
+
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid token" }, 401);
+    }
+
+    const body: IssueCertificateRequest = await req.json();
+
+    if (body.learningPathEnrollmentId) {
+      return await issuePathCertificate(supabase, user, body.learningPathEnrollmentId);
+    }
+
+    if (!body.enrollmentId) {
+      return jsonResponse({ error: "Missing enrollmentId" }, 400);
+    }
+
+    const { data: enrollment, error: enrollmentError } = await supabase
+      .from("student_enrollments")
+      .select("id, user_id, course_id, status, certificate_eligible, certificate_revoked_at")
+      .eq("id", body.enrollmentId)
+      .maybeSingle();
+
+    if (enrollmentError) throw enrollmentError;
+
+    if (!enrollment) {
+      return jsonResponse({ error: "Enrollment not found" }, 404);
+    }
+
+    const { data: course } = await supabase
+      .from("masterclass_page_content")
+      .select("title, creator, user_id")
+      .eq("id", enrollment.course_id)
+      .maybeSingle();
+
+    // The instructor or an admin may issue on the student's behalf
+    const isInstructor = !!course && (course.user_id === user.id || isAdminUser(user));
+
+    if (enrollment.user_id !== user.id && !isInstructor) {
+      return jsonResponse({ error: "Enrollment not found" }, 404);
+    }
+
+    if (!course) {
+      return jsonResponse({ error: "Course not found" }, 404);
+    }
+
+    if (!enrollment.certificate_eligible) {
+      return jsonResponse({ error: "This enrollment is not eligible for a certificate" }, 403);
+    }
+
+    // The stored status is not trusted: recompute it from lesson progress
+    // and quiz attempts before issuing
+    const { error: refreshError } = await supabase.rpc("refresh_enrollment_progress", {
+      p_enrollment_id: enrollment.id,
+    });
+
+    if (refreshError) throw refreshError;
+
+    const { data: refreshed, error: refreshedError } = await supabase
+      .from("student_enrollments")
+      .select("status")
+      .eq("id", enrollment.id)
+      .single();
+
+    if (refreshedError) throw refreshedError;
+
+    if (refreshed.status !== "completed") {
+      return jsonResponse(
+        { error: "Complete every lesson and pass the required quizzes to earn your certificate" },
+        409
+      );
+    }
+
+    const { data: existing } = await supabase
+      .from("student_certificates")
+      .select("*")
+      .eq("enrollment_id", enrollment.id)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    // Certificates from before PDF issuing (data: URLs) are re-issued as PDFs
+    if (existing && !existing.download_url?.startsWith("data:")) {
+      return jsonResponse({ success: true, certificate: existing });
+    }
+
+    if (enrollment.certificate_revoked_at && !isInstructor) {
+      return jsonResponse(
+        { error: "Your certificate for this course was revoked. Contact the instructor to have it re-issued" },
+        403
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("name")
+      .eq("id", enrollment.user_id)
+      .maybeSingle();
+
+    const certificate = await issueCertificate(supabase, {
+      userId: enrollment.user_id,
+      target: { enrollment_id: enrollment.id, course_id: enrollment.course_id },
+      title: course.title,
+      kind: "course",
+      holderName: profile?.name || (enrollment.user_id === user.id ? user.email : null) || "Student",
+      instructorName: course.creator || "Course Instructor",
+      storagePrefix: `certificates/${enrollment.course_id}`,
+      supersedes: existing?.id ?? null,
+    });
+
+    await supabase
+      .from("student_enrollments")
+      .update({
+        certificate_id: certificate.id,
+        certificate_generated_at: certificate.generated_at,
+        certificate_revoked_at: null,
+      })
+      .eq("id", enrollment.id);
+
+    return jsonResponse({ success: true, certificate });
+  } catch (error) {
+    console.error("Certificate issue error:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Failed to issue certificate" },
+      500
+    );
+  }
+});
+
+async function issuePathCertificate(
+  supabase: SupabaseClient,
+  user: { id: string; email?: string },
+  pathEnrollmentId: string
+): Promise<Response> {
+  const { data: pathEnrollment, error: enrollmentError } = await supabase
+    .from("learning_path_enrollments")
+    .select("id, user_id, path_id, completed_at, learning_paths(title, path_type, owner_id)")
+    .eq("id", pathEnrollmentId)
+    .maybeSingle();
+
+  if (enrollmentError) throw enrollmentError;
+
+  if (!pathEnrollment || pathEnrollment.user_id !== user.id) {
+    return jsonResponse({ error: "Learning path enrollment not found" }, 404);
+  }
+
+  const path = pathEnrollment.learning_paths as { title: string; path_type: string; owner_id: string } | null;
+  if (!path) {
+    return jsonResponse({ error: "Learning path not found" }, 404);
+  }
+
+  if (path.path_type !== "path") {
+    return jsonResponse({ error: "Bundles don't come with a certificate of their own" }, 403);
+  }
+
+  if (!pathEnrollment.completed_at) {
+    return jsonResponse({ error: "Complete every course in the path to earn your certificate" }, 409);
+  }
+
+  const { data: existing } = await supabase
+    .from("student_certificates")
+    .select("*")
+    .eq("learning_path_enrollment_id", pathEnrollment.id)
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (existing) {
+    return jsonResponse({ success: true, certificate: existing });
+  }
+
+  const [{ data: profile }, { data: owner }] = await Promise.all([
+    supabase.from("profiles").select("name").eq("id", user.id).maybeSingle(),
+    supabase.from("profiles").select("name").eq("id", path.owner_id).maybeSingle(),
+  ]);
+
+  const certificate = await issueCertificate(supabase, {
+    userId: user.id,
+    target: { learning_path_enrollment_id: pathEnrollment.id, learning_path_id: pathEnrollment.path_id },
+    title: path.title,
+    kind: "learning path",
+    holderName: profile?.name || user.email || "Student",
+    instructorName: owner?.name || "Course Instructor",
+    storagePrefix: `certificates/paths/${pathEnrollment.path_id}`,
+    supersedes: null,
+  });
+
+  await supabase
+    .from("learning_path_enrollments")
+    .update({ certificate_id: certificate.id })
+    .eq("id", pathEnrollment.id);
+
+  return jsonResponse({ success: true, certificate });
+}
+
+/**
+ * Number, render, store and record a certificate. A superseded
+ * certificate (an old HTML one) is revoked in its favour.
+ */
+async function issueCertificate(
+  supabase: SupabaseClient,
+  options: {
+    userId: string;
+    target: CertificateTarget;
+    title: string;
+    kind: "course" | "learning path";
+    holderName: string;
+    instructorName: string;
+    storagePrefix: string;
+    supersedes: string | null;
+  }
+) {
+  const { data: certificateNumber, error: numberError } = await supabase.rpc(
+    "generate_certificate_number"
+  );
+  if (numberError || !certificateNumber) {
+    throw numberError ?? new Error("Could not generate a certificate number");
+  }
+
+  const issuedAt = new Date();
+  const verifyUrl = `${Deno.env.get("APP_URL")}/verify/${certificateNumber}`;
+
+  const pdf = await renderCertificatePdf({
+    holderName: options.holderName,
+    courseTitle: options.title,
+    kind: options.kind,
+    instructorName: options.instructorName,
+    issuedAt,
+    certificateNumber,
+    verifyUrl,
+  });
+
+  const storageKey = `${options.storagePrefix}/${certificateNumber}.pdf`;
+  const downloadUrl = await uploadPdf(supabase, pdf, storageKey);
+
+  if (options.supersedes) {
+    await supabase
+      .from("student_certificates")
+      .update({
+        revoked_at: issuedAt.toISOString(),
+        revoked_reason: "Superseded by PDF certificate",
+      })
+      .eq("id", options.supersedes);
+  }
+
+  const { data: certificate, error: insertError } = await supabase
+    .from("student_certificates")
+    .insert({
+      ...options.target,
+      user_id: options.userId,
+      course_title: options.title,
+      certificate_number: certificateNumber,
+      holder_name: options.holderName,
+      instructor_name: options.instructorName,
+      download_url: downloadUrl,
+      storage_key: storageKey,
+      generated_at: issuedAt.toISOString(),
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  return certificate;
+}
+
+interface CertificateContent {
+  holderName: string;
+  courseTitle: string;
+  kind: "course" | "learning path";
+  instructorName: string;
+  issuedAt: Date;
+  certificateNumber: string;
+  verifyUrl: string;
+}
+
+async function renderCertificatePdf(content: CertificateContent): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Certificate ${content.certificateNumber}`);
+  doc.setSubject(content.courseTitle);
+
+  // A4 landscape
+  const page = doc.addPage([842, 595]);
+  const { width, height } = page.getSize();
+  const serif = await doc.embedFont(StandardFonts.TimesRoman);
+  const serifBold = await doc.embedFont(StandardFonts.TimesRomanBold);
+  const serifItalic = await doc.embedFont(StandardFonts.TimesRomanItalic);
+  const sans = await doc.embedFont(StandardFonts.Helvetica);
+
+  const gold = rgb(0.83, 0.69, 0.22);
+  const dark = rgb(0.2, 0.2, 0.2);
+  const muted = rgb(0.4, 0.4, 0.4);
+
+  page.drawRectangle({ x: 0, y: 0, width, height, color: rgb(0.96, 0.97, 0.98) });
+  page.drawRectangle({
+    x: 24,
+    y: 24,
+    width: width - 48,
+    height: height - 48,
+    borderColor: gold,
+    borderWidth: 3,
+  });
+
+  const centered = (text: string, y: number, font: typeof serif, size: number, color = dark) => {
+    // Shrink long lines (course titles, names) to fit inside the border
+    let fontSize = size;
+    while (font.widthOfTextAtSize(text, fontSize) > width - 120 && fontSize > 10) {
+      fontSize -= 1;
+    }
+    const textWidth = font.widthOfTextAtSize(text, fontSize);
+    page.drawText(text, { x: (width - textWidth) / 2, y, size: fontSize, font, color });
+  };
+
+  centered("CERTIFICATE OF COMPLETION", 470, serifBold, 36, gold);
+  centered("This is to certify that", 410, serifItalic, 18, muted);
+  centered(content.holderName, 360, serifBold, 34);
+  centered(`has successfully completed the ${content.kind}`, 315, serifItalic, 18, muted);
+  centered(content.courseTitle, 270, serifBold, 24);
+
+  const issuedOn = content.issuedAt.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  // Signature and date
+  page.drawLine({ start: { x: 120, y: 150 }, end: { x: 320, y: 150 }, thickness: 1, color: dark });
+  page.drawText(content.instructorName, { x: 120, y: 130, size: 14, font: serifBold, color: dark });
+  page.drawText("Course Instructor", { x: 120, y: 114, size: 11, font: serif, color: muted });
+
+  page.drawText(issuedOn, { x: width - 320, y: 130, size: 14, font: serifBold, color: dark });
+  page.drawText("Date of completion", { x: width - 320, y: 114, size: 11, font: serif, color: muted });
+
+  centered(`Certificate No. ${content.certificateNumber}`, 70, sans, 10, muted);
+  centered(`Verify at ${content.verifyUrl}`, 54, sans, 10, muted);
+
+  return await doc.save();
+}
+
+/** Store the PDF in B2 through the upload-to-b2 function; returns its public URL */
+async function uploadPdf(supabase: SupabaseClient, pdf: Uint8Array, storageKey: string): Promise<string> {
+  const formData = new FormData();
+  formData.append("file", new Blob([pdf], { type: "application/pdf" }), storageKey.split("/").pop()!);
+  formData.append("filename", storageKey);
+  formData.append("contentType", "application/pdf");
+
+  const { data, error } = await supabase.functions.invoke("upload-to-b2", { body: formData });
+
+  if (error || !data?.publicUrl) {
+    throw new Error(error?.message || "Failed to store certificate PDF");
+  }
+
+  return data.publicUrl as string;
+}
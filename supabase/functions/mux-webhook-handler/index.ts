@@ -1,4 +1,6 @@
-import { createClient } from 'npm:@supabase/supabase-js';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { verifyMuxSignature } from '../_shared/muxWebhookProcessor.ts';
+import { processInboxEvents, storeWebhookEvent } from '../_shared/webhookInbox.ts';
 
 const MUX_WEBHOOK_SECRET = Deno.env.get("MUX_WEBHOOK_SECRET");
 
@@ -7,42 +9,53 @@ const supabaseAdmin = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
+// Events are stored in the webhook inbox first and applied by
+// _shared/muxWebhookProcessor.ts, so a failed update is retried.
 Deno.serve(async (req) => {
   if (req.method !== 'POST') {
     return new Response('Method Not Allowed', { status: 405 });
   }
 
-  const data = await req.json();
+  const body = await req.text();
+  const signature = req.headers.get('mux-signature');
 
-  if (data.type === 'video.asset.ready') {
-    const assetId = data.data.id;
-    const playbackId = data.data.playback_ids?.[0]?.id;
+  if (MUX_WEBHOOK_SECRET && !(await verifyMuxSignature(MUX_WEBHOOK_SECRET, body, signature))) {
+    return new Response(JSON.stringify({ error: 'Invalid signature' }), { status: 401 });
+  }
 
-    if (!playbackId) {
-      return new Response(JSON.stringify({ error: 'Missing playback ID' }), { status: 400 });
-    }
+  const data = JSON.parse(body);
 
-    const { error } = await supabaseAdmin
-      .from('video_uploads')
-      .update({
-        playback_id: playbackId,
-        status: 'ready'
-      })
-      .eq('asset_id', assetId);
-
-    if (error) {
-      console.error("Database update error:", error);
-      return new Response(JSON.stringify({ error: error.message }), { status: 500 });
-    }
+  if (data.type !== 'video.asset.ready') {
+    return new Response(JSON.stringify({ status: `ignored event type: ${data.type}` }), { status: 200 });
+  }
 
-    console.log(`Video Asset ${assetId} is ready with playback ID ${playbackId}.`);
+  if (!data.data?.playback_ids?.[0]?.id) {
+    return new Response(JSON.stringify({ error: 'Missing playback ID' }), { status: 400 });
+  }
+
+  try {
+    const stored = await storeWebhookEvent(supabaseAdmin, {
+      source: 'mux',
+      eventKey: data.id ?? `${data.type}:${data.data.id}`,
+      eventType: data.type,
+      payload: data,
+      signature,
+    });
+
+    if (!stored.duplicate) {
+      await processInboxEvents(supabaseAdmin, { eventId: stored.id });
+    }
 
     return new Response(JSON.stringify({
       status: 'success',
-      assetId,
-      playbackId
+      assetId: data.data.id,
+      duplicate: stored.duplicate
     }), { status: 200 });
+  } catch (error) {
+    console.error("Webhook inbox error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500 }
+    );
   }
-
-  return new Response(JSON.stringify({ status: `ignored event type: ${data.type}` }), { status: 200 });
 });
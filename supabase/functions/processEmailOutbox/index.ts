@@ -0,0 +1,45 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { processEmailOutbox } from "../_shared/emailOutbox.ts";
+import { getEmailTransport } from "../_shared/emailTransport.ts";
+
+/**
+ * Email outbox worker
+ * Run every minute (see database/043_transactional_email.sql). Queues due
+ * event reminder emails, sends queued emails through EMAIL_TRANSPORT and
+ * retries failed ones whose backoff has elapsed.
+ */
+
+const BATCH_SIZE = Number(Deno.env.get("EMAIL_OUTBOX_BATCH_SIZE") ?? "50");
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const summary = await processEmailOutbox(supabase, getEmailTransport(), { limit: BATCH_SIZE });
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
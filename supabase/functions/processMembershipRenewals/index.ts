@@ -0,0 +1,533 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { InitializePaymentResult } from "../_shared/paymentGateways.ts";
+import { getGatewayAdapter, isEnabledGateway } from "../_shared/gatewayConfig.ts";
+
+/**
+ * Membership renewal job
+ * Run on a schedule (see database/022_membership_subscriptions.sql).
+ *
+ * 1. Charges subscriptions whose renewal attempt is due (set RENEWAL_LEAD_DAYS
+ *    before period end by handlePaymentWebhookUnified when the period starts)
+ * 2. Retries failed charges on the DUNNING_RETRY_DAYS schedule
+ * 3. Moves lapsed subscriptions into their grace period
+ * 4. Downgrades the tier once grace ends or dunning is exhausted
+ *
+ * A plan change scheduled with schedule_membership_change (downgrade or
+ * annual -> monthly) is charged at the next renewal in place of the current plan.
+ *
+ * Each renewal charge is a normal creators_membership / members_membership row,
+ * so completion and failure arrive through handlePaymentWebhookUnified.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUNNING_RETRY_DAYS = (Deno.env.get("DUNNING_RETRY_DAYS") ?? "1,3,5")
+  .split(",")
+  .map((d) => Number(d.trim()))
+  .filter((d) => !Number.isNaN(d));
+
+interface Subscription {
+  id: string;
+  user_id: string;
+  membership_type: "creator" | "member";
+  tier: string;
+  billing_cycle: "monthly" | "annual";
+  amount: number;
+  currency: string;
+  payment_method: string;
+  gateway: string;
+  payment_token: string | null;
+  email: string | null;
+  phone_number: string | null;
+  status: string;
+  current_period_end: string;
+  cancel_at_period_end: boolean;
+  grace_period_days: number;
+  grace_period_ends_at: string | null;
+  dunning_attempts: number;
+  last_renewal_transaction_id: string | null;
+  scheduled_tier: string | null;
+  scheduled_billing_cycle: "monthly" | "annual" | null;
+  scheduled_amount: number | null;
+}
+
+interface RenewalSummary {
+  attempted: number;
+  initiated: number;
+  failed: number;
+  lapsed: number;
+  downgraded: number;
+}
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const now = new Date();
+    const summary: RenewalSummary = {
+      attempted: 0,
+      initiated: 0,
+      failed: 0,
+      lapsed: 0,
+      downgraded: 0,
+    };
+
+    await markLapsedSubscriptions(supabase, now, summary);
+    await attemptDueRenewals(supabase, now, summary);
+    await downgradeEndedSubscriptions(supabase, now, summary);
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
+
+function tableFor(membershipType: string): string {
+  return membershipType === "member" ? "members_membership" : "creators_membership";
+}
+
+/**
+ * Period ended without a successful renewal: start the grace period.
+ * A renewal that is still waiting on the customer counts as a failed attempt.
+ */
+async function markLapsedSubscriptions(
+  supabase: SupabaseClient,
+  now: Date,
+  summary: RenewalSummary
+): Promise<void> {
+  const { data: lapsed } = await supabase
+    .from("membership_subscriptions")
+    .select("*")
+    .eq("status", "active")
+    .eq("cancel_at_period_end", false)
+    .lte("current_period_end", now.toISOString());
+
+  for (const subscription of (lapsed ?? []) as Subscription[]) {
+    summary.lapsed++;
+    const tableName = tableFor(subscription.membership_type);
+
+    if (subscription.last_renewal_transaction_id) {
+      const { data: inFlight } = await supabase
+        .from(tableName)
+        .select("id, status")
+        .eq("id", subscription.last_renewal_transaction_id)
+        .in("status", ["pending", "processing"])
+        .maybeSingle();
+
+      if (inFlight) {
+        await supabase
+          .from(tableName)
+          .update({
+            status: "failed",
+            payment_status: "failed",
+            failed_at: now.toISOString(),
+            error_message: "Renewal not completed before the billing period ended",
+            error_code: "RENEWAL_LAPSED",
+          })
+          .eq("id", inFlight.id);
+
+        await recordRenewalFailure(
+          supabase,
+          subscription,
+          inFlight.id,
+          "Renewal not completed before the billing period ended",
+          now
+        );
+        continue;
+      }
+    }
+
+    await supabase
+      .from("membership_subscriptions")
+      .update({
+        status: "past_due",
+        grace_period_ends_at: graceEnd(subscription).toISOString(),
+      })
+      .eq("id", subscription.id);
+  }
+}
+
+/**
+ * Create and charge a renewal transaction for every subscription that is due
+ */
+async function attemptDueRenewals(
+  supabase: SupabaseClient,
+  now: Date,
+  summary: RenewalSummary
+): Promise<void> {
+  const { data: due } = await supabase
+    .from("membership_subscriptions")
+    .select("*")
+    .in("status", ["active", "past_due"])
+    .eq("cancel_at_period_end", false)
+    .lte("next_renewal_attempt_at", now.toISOString());
+
+  for (const subscription of (due ?? []) as Subscription[]) {
+    summary.attempted++;
+    const tableName = tableFor(subscription.membership_type);
+    const attempt = subscription.dunning_attempts + 1;
+    const renewal = withScheduledChange(subscription);
+
+    // One key per period and attempt: a re-run of this job can never double charge
+    const idempotencyKey = `renewal-${subscription.id}-${new Date(
+      subscription.current_period_end
+    ).getTime()}-${attempt}`;
+
+    const { data: transaction, error: txError } = await supabase
+      .from(tableName)
+      .insert({
+        user_id: subscription.user_id,
+        previous_tier: subscription.tier,
+        new_tier: renewal.tier,
+        amount: renewal.amount,
+        currency: subscription.currency,
+        billing_cycle: renewal.billing_cycle,
+        payment_method: subscription.payment_method,
+        gateway: subscription.gateway,
+        status: "pending",
+        payment_status: "pending",
+        idempotency_key: idempotencyKey,
+        subscription_id: subscription.id,
+        is_renewal: true,
+        initiated_at: now.toISOString(),
+        metadata: {
+          phoneNumber: subscription.phone_number,
+          attempt,
+          type: "membership-renewal",
+          scheduledChange: renewal !== subscription,
+        },
+      })
+      .select("*")
+      .single();
+
+    if (txError || !transaction) {
+      // 23505 = idempotency key already used, the attempt is already in flight
+      if (txError?.code !== "23505") {
+        console.error("Failed to create renewal transaction:", txError);
+      }
+      continue;
+    }
+
+    // Claim the attempt so overlapping runs skip this subscription
+    await supabase
+      .from("membership_subscriptions")
+      .update({
+        next_renewal_attempt_at: null,
+        last_renewal_transaction_id: transaction.id,
+      })
+      .eq("id", subscription.id);
+
+    await logAudit(supabase, subscription, transaction.id, {
+      action: `Renewal attempt ${attempt} initiated`,
+      action_type: "renewal",
+      previous_status: null,
+      new_status: "pending",
+      details: {
+        attempt,
+        periodEnd: subscription.current_period_end,
+        gateway: subscription.gateway,
+        tier: renewal.tier,
+        billingCycle: renewal.billing_cycle,
+      },
+    });
+
+    const charge = await chargeRenewal(renewal, transaction.id);
+
+    if (!charge.success) {
+      summary.failed++;
+      await supabase
+        .from(tableName)
+        .update({
+          status: "failed",
+          payment_status: "failed",
+          failed_at: new Date().toISOString(),
+          error_message: charge.error,
+          error_code: "GATEWAY_ERROR",
+        })
+        .eq("id", transaction.id);
+
+      await recordRenewalFailure(
+        supabase,
+        subscription,
+        transaction.id,
+        charge.error || "Renewal charge failed",
+        now
+      );
+      continue;
+    }
+
+    summary.initiated++;
+    await supabase
+      .from(tableName)
+      .update({
+        status: "processing",
+        processing_started_at: new Date().toISOString(),
+        transaction_id: charge.transactionId,
+        reference_id: charge.referenceId,
+        metadata: {
+          ...transaction.metadata,
+          checkoutUrl: charge.checkoutUrl,
+        },
+      })
+      .eq("id", transaction.id);
+
+    await logAudit(supabase, subscription, transaction.id, {
+      action: `Renewal attempt ${attempt} sent to ${subscription.gateway}`,
+      action_type: "renewal",
+      previous_status: "pending",
+      new_status: "processing",
+      details: { attempt, requiresCustomerAction: !!charge.checkoutUrl },
+    });
+  }
+}
+
+/**
+ * The plan the next renewal charges: the scheduled change if there is one
+ */
+function withScheduledChange(subscription: Subscription): Subscription {
+  if (
+    !subscription.scheduled_tier ||
+    !subscription.scheduled_billing_cycle ||
+    !subscription.scheduled_amount
+  ) {
+    return subscription;
+  }
+
+  return {
+    ...subscription,
+    tier: subscription.scheduled_tier,
+    billing_cycle: subscription.scheduled_billing_cycle,
+    amount: Number(subscription.scheduled_amount),
+  };
+}
+
+/**
+ * Downgrade subscriptions that were canceled, ran out of grace,
+ * or exhausted every dunning retry after the period ended
+ */
+async function downgradeEndedSubscriptions(
+  supabase: SupabaseClient,
+  now: Date,
+  summary: RenewalSummary
+): Promise<void> {
+  const { data: candidates } = await supabase
+    .from("membership_subscriptions")
+    .select("*")
+    .in("status", ["active", "past_due"])
+    .lte("current_period_end", now.toISOString());
+
+  for (const subscription of (candidates ?? []) as Subscription[]) {
+    const canceled = subscription.status === "active" && subscription.cancel_at_period_end;
+    const graceOver =
+      subscription.status === "past_due" &&
+      !!subscription.grace_period_ends_at &&
+      new Date(subscription.grace_period_ends_at) <= now;
+    const dunningExhausted =
+      subscription.status === "past_due" &&
+      subscription.dunning_attempts > DUNNING_RETRY_DAYS.length;
+
+    if (!canceled && !graceOver && !dunningExhausted) continue;
+
+    const reason = canceled
+      ? "Auto-renew turned off"
+      : dunningExhausted
+        ? "All renewal retries failed"
+        : "Grace period ended without payment";
+
+    // Only reset the profile tier if it still belongs to this subscription
+    await supabase
+      .from("profiles")
+      .update({ tier: "free", updated_at: now.toISOString() })
+      .eq("id", subscription.user_id)
+      .eq("tier", subscription.tier);
+
+    await supabase
+      .from("membership_subscriptions")
+      .update({
+        status: canceled ? "canceled" : "expired",
+        next_renewal_attempt_at: null,
+        downgraded_at: now.toISOString(),
+      })
+      .eq("id", subscription.id);
+
+    summary.downgraded++;
+
+    const transactionId =
+      subscription.last_renewal_transaction_id ??
+      (await latestTransactionId(supabase, subscription));
+
+    if (transactionId) {
+      await logAudit(supabase, subscription, transactionId, {
+        action: `Membership downgraded from ${subscription.tier} to free: ${reason}`,
+        action_type: "downgrade",
+        previous_status: subscription.status,
+        new_status: canceled ? "canceled" : "expired",
+        details: {
+          reason,
+          tier: subscription.tier,
+          dunningAttempts: subscription.dunning_attempts,
+          periodEnd: subscription.current_period_end,
+          gracePeriodEndsAt: subscription.grace_period_ends_at,
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Advance dunning after a failed renewal attempt
+ */
+async function recordRenewalFailure(
+  supabase: SupabaseClient,
+  subscription: Subscription,
+  transactionId: string,
+  error: string,
+  now: Date
+): Promise<void> {
+  const attempts = subscription.dunning_attempts + 1;
+  const delayDays = DUNNING_RETRY_DAYS[attempts - 1];
+  const nextAttemptAt =
+    delayDays === undefined ? null : new Date(now.getTime() + delayDays * DAY_MS);
+
+  await supabase
+    .from("membership_subscriptions")
+    .update({
+      status: "past_due",
+      dunning_attempts: attempts,
+      last_renewal_error: error,
+      next_renewal_attempt_at: nextAttemptAt?.toISOString() ?? null,
+      grace_period_ends_at: graceEnd(subscription).toISOString(),
+    })
+    .eq("id", subscription.id);
+
+  await logAudit(supabase, subscription, transactionId, {
+    action: nextAttemptAt
+      ? `Renewal attempt ${attempts} failed, retrying ${nextAttemptAt.toISOString()}`
+      : `Renewal attempt ${attempts} failed, no retries left`,
+    action_type: "dunning",
+    previous_status: "processing",
+    new_status: "failed",
+    details: {
+      error,
+      attempt: attempts,
+      nextAttemptAt: nextAttemptAt?.toISOString() ?? null,
+      gracePeriodEndsAt: graceEnd(subscription).toISOString(),
+      exhausted: !nextAttemptAt,
+    },
+  });
+}
+
+function graceEnd(subscription: Subscription): Date {
+  return new Date(
+    new Date(subscription.current_period_end).getTime() +
+      subscription.grace_period_days * DAY_MS
+  );
+}
+
+async function latestTransactionId(
+  supabase: SupabaseClient,
+  subscription: Subscription
+): Promise<string | null> {
+  const { data } = await supabase
+    .from(tableFor(subscription.membership_type))
+    .select("id")
+    .eq("subscription_id", subscription.id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+async function logAudit(
+  supabase: SupabaseClient,
+  subscription: Subscription,
+  transactionId: string,
+  entry: {
+    action: string;
+    action_type: string;
+    previous_status: string | null;
+    new_status: string;
+    details: Record<string, unknown>;
+  }
+): Promise<void> {
+  const { error } = await supabase.from("payment_audit_log").insert({
+    membership_type: subscription.membership_type,
+    transaction_id: transactionId,
+    user_id: subscription.user_id,
+    ...entry,
+    details: { subscriptionId: subscription.id, ...entry.details },
+  });
+  if (error) {
+    console.error("Error logging audit event:", error);
+  }
+}
+
+/**
+ * Charge the renewal with the gateway the subscription was started on.
+ * Subscriptions with a stored card token are charged directly when the
+ * gateway adapter supports tokenized charges;
+ * mobile money gets a collection prompt; otherwise the customer receives a
+ * checkout link to complete the renewal themselves.
+ */
+async function chargeRenewal(
+  subscription: Subscription,
+  transactionId: string
+): Promise<InitializePaymentResult> {
+  if (!isEnabledGateway(subscription.gateway)) {
+    return { success: false, error: `Unsupported gateway '${subscription.gateway}'` };
+  }
+
+  const adapter = getGatewayAdapter(subscription.gateway);
+  const params = {
+    reference: `membership-${subscription.membership_type}-${subscription.user_id}-${transactionId}`,
+    amount: subscription.amount,
+    currency: subscription.currency,
+    email: subscription.email ?? "",
+    phoneNumber: subscription.phone_number ?? undefined,
+    title: "Membership Renewal",
+    description: `Renew ${subscription.tier} (${subscription.billing_cycle})`,
+    redirectUrl: `${Deno.env.get("APP_URL")}/membership-callback?type=${subscription.membership_type}`,
+    metadata: {
+      membershipType: subscription.membership_type,
+      userId: subscription.user_id,
+      transactionId,
+      subscriptionId: subscription.id,
+      targetTier: subscription.tier,
+      billingCycle: subscription.billing_cycle,
+      type: "membership-renewal",
+    },
+  };
+
+  // Saved card: charge it directly, no customer interaction needed
+  if (subscription.payment_token && adapter.chargeToken) {
+    return adapter.chargeToken({ ...params, token: subscription.payment_token });
+  }
+
+  const result = await adapter.initializePayment(params);
+
+  // Mobile money renewals are approved on the phone, not through a checkout page
+  if (result.success && subscription.payment_method === "mobile_money") {
+    return { ...result, checkoutUrl: undefined };
+  }
+  return result;
+}
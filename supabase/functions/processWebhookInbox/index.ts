@@ -0,0 +1,45 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { processInboxEvents } from "../_shared/webhookInbox.ts";
+
+/**
+ * Webhook inbox worker
+ * Run every minute (see database/028_webhook_inbox.sql). Retries failed
+ * webhook events whose backoff has elapsed, picks up events a receiver
+ * stored but never processed, and dead-letters events that run out of
+ * attempts.
+ */
+
+const BATCH_SIZE = Number(Deno.env.get("WEBHOOK_INBOX_BATCH_SIZE") ?? "50");
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const summary = await processInboxEvents(supabase, { limit: BATCH_SIZE });
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,735 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { VerifyPaymentResult } from "../_shared/paymentGateways.ts";
+import { getGatewayAdapter, isEnabledGateway } from "../_shared/gatewayConfig.ts";
+import { isAdminUser } from "../_shared/adminAuth.ts";
+import {
+  completeMembershipPayment,
+  failMembershipPayment,
+  MembershipTransaction,
+  MembershipType,
+  membershipTable,
+} from "../_shared/membershipSettlement.ts";
+import {
+  completePaymentOrder,
+  failPaymentOrder,
+  logOrderEvent,
+  PaymentOrder,
+} from "../_shared/purchaseOrders.ts";
+
+/**
+ * Payment reconciliation job
+ * POST (service role, on a schedule - see database/027_payment_reconciliation.sql):
+ *
+ * 1. Verifies pending/processing membership transactions older than
+ *    RECONCILE_STALE_MINUTES with the gateway (the server-side equivalent of
+ *    verifyEversendPayment / verifyFlutterwavePayment) and settles them
+ * 2. Expires checkouts still open after RECONCILE_EXPIRE_HOURS. Renewal
+ *    charges are left to processMembershipRenewals, which fails them when
+ *    the period ends.
+ * 3. Re-verifies transactions completed in the last RECONCILE_LOOKBACK_HOURS
+ *    that have not been reconciled yet
+ * 4. Does the same as 1 and 2 for one-off purchase orders (payment_orders):
+ *    verified orders are fulfilled or failed, abandoned checkouts expire
+ *
+ * A transaction whose gateway amount or currency differs from ours is
+ * flagged as a mismatch and never settled automatically.
+ *
+ * GET ?date=YYYY-MM-DD (admin): that day's reconciliation report as CSV.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const STALE_MINUTES = Number(Deno.env.get("RECONCILE_STALE_MINUTES") ?? "30");
+const EXPIRE_HOURS = Number(Deno.env.get("RECONCILE_EXPIRE_HOURS") ?? "24");
+const LOOKBACK_HOURS = Number(Deno.env.get("RECONCILE_LOOKBACK_HOURS") ?? "48");
+const BATCH_SIZE = Number(Deno.env.get("RECONCILE_BATCH_SIZE") ?? "100");
+const MEMBERSHIP_TYPES: MembershipType[] = ["creator", "member"];
+
+interface ReconcilableTransaction extends MembershipTransaction {
+  status: string;
+  transaction_id: string | null;
+  reference_id: string | null;
+  created_at: string;
+}
+
+interface ReconcilableOrder extends PaymentOrder {
+  created_at: string;
+}
+
+type Outcome = "settled" | "failed" | "expired" | "mismatch" | "matched" | "error";
+
+interface ReconciliationItem {
+  run_id: string;
+  /** 'order' for payment_orders */
+  membership_type: MembershipType | "order";
+  transaction_id: string;
+  user_id: string;
+  gateway: string;
+  gateway_reference: string | null;
+  outcome: Outcome;
+  previous_status: string;
+  new_status: string;
+  amount: number;
+  currency: string;
+  gateway_status: string | null;
+  gateway_amount: number | null;
+  gateway_currency: string | null;
+  message: string | null;
+}
+
+interface RunSummary {
+  checked: number;
+  settled: number;
+  failed: number;
+  expired: number;
+  mismatched: number;
+  matched: number;
+  still_pending: number;
+  errors: number;
+}
+
+const SUMMARY_FIELD: Record<Outcome, keyof RunSummary> = {
+  settled: "settled",
+  failed: "failed",
+  expired: "expired",
+  mismatch: "mismatched",
+  matched: "matched",
+  error: "errors",
+};
+
+const REPORT_COLUMNS: (keyof ReconciliationItem | "created_at")[] = [
+  "created_at",
+  "membership_type",
+  "transaction_id",
+  "user_id",
+  "gateway",
+  "gateway_reference",
+  "outcome",
+  "previous_status",
+  "new_status",
+  "amount",
+  "currency",
+  "gateway_status",
+  "gateway_amount",
+  "gateway_currency",
+  "message",
+];
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+serve(async (req) => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  if (req.method === "GET") {
+    return await downloadReport(req, supabase);
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: jsonHeaders,
+    });
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from("payment_reconciliation_runs")
+    .insert({ status: "running" })
+    .select("id")
+    .single();
+
+  if (runError || !run) {
+    return new Response(JSON.stringify({ error: "Failed to start reconciliation run" }), {
+      status: 500,
+      headers: jsonHeaders,
+    });
+  }
+
+  const summary: RunSummary = {
+    checked: 0,
+    settled: 0,
+    failed: 0,
+    expired: 0,
+    mismatched: 0,
+    matched: 0,
+    still_pending: 0,
+    errors: 0,
+  };
+
+  try {
+    const now = new Date();
+
+    for (const membershipType of MEMBERSHIP_TYPES) {
+      await reconcileOpenTransactions(supabase, run.id, membershipType, now, summary);
+      await verifyCompletedTransactions(supabase, run.id, membershipType, now, summary);
+    }
+
+    await reconcileOpenOrders(supabase, run.id, now, summary);
+
+    await supabase
+      .from("payment_reconciliation_runs")
+      .update({ ...summary, status: "completed", completed_at: new Date().toISOString() })
+      .eq("id", run.id);
+
+    return new Response(JSON.stringify({ success: true, runId: run.id, ...summary }), {
+      status: 200,
+      headers: jsonHeaders,
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    await supabase
+      .from("payment_reconciliation_runs")
+      .update({
+        ...summary,
+        status: "failed",
+        error_message: message,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", run.id);
+
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: jsonHeaders,
+    });
+  }
+});
+
+/**
+ * Settle or expire pending/processing transactions we have not heard back on
+ */
+async function reconcileOpenTransactions(
+  supabase: SupabaseClient,
+  runId: string,
+  membershipType: MembershipType,
+  now: Date,
+  summary: RunSummary
+): Promise<void> {
+  const tableName = membershipTable(membershipType);
+  const { data: open } = await supabase
+    .from(tableName)
+    .select("*")
+    .in("status", ["pending", "processing"])
+    .lte("created_at", new Date(now.getTime() - STALE_MINUTES * MINUTE_MS).toISOString())
+    .or("reconciliation_status.is.null,reconciliation_status.neq.mismatch")
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  for (const transaction of (open ?? []) as ReconcilableTransaction[]) {
+    summary.checked++;
+    const reference = transaction.transaction_id ?? transaction.reference_id;
+    const expired =
+      !transaction.is_renewal &&
+      now.getTime() - new Date(transaction.created_at).getTime() >= EXPIRE_HOURS * HOUR_MS;
+
+    // Never reached the gateway (or the gateway doesn't know it): nothing to verify
+    let verification: VerifyPaymentResult | null = null;
+    if (reference && isEnabledGateway(transaction.gateway)) {
+      verification = await getGatewayAdapter(transaction.gateway).verifyPayment(reference);
+    }
+
+    const item = baseItem(runId, membershipType, transaction, reference, verification);
+
+    if (!verification?.success || verification.status === "pending") {
+      if (!expired) {
+        summary.still_pending++;
+        continue;
+      }
+
+      const { data: expiredRows } = await supabase
+        .from(tableName)
+        .update({
+          status: "expired",
+          payment_status: "expired",
+          error_message: "Checkout was not completed",
+          error_code: "CHECKOUT_EXPIRED",
+          reconciliation_status: "expired",
+          reconciled_at: now.toISOString(),
+        })
+        .eq("id", transaction.id)
+        .in("status", ["pending", "processing"])
+        .select("id");
+
+      // Settled by a webhook in the meantime
+      if (!expiredRows || expiredRows.length === 0) continue;
+
+      await logAudit(supabase, membershipType, transaction, {
+        action: `Reconciliation expired ${transaction.status} payment after ${EXPIRE_HOURS}h`,
+        action_type: "reconcile",
+        new_status: "expired",
+        details: { runId, gatewayError: verification?.error ?? null },
+      });
+
+      await recordItem(supabase, summary, {
+        ...item,
+        outcome: "expired",
+        new_status: "expired",
+        message: verification?.error ?? (reference ? null : "No gateway reference"),
+      });
+      continue;
+    }
+
+    const mismatch = describeMismatch(transaction, verification);
+    if (mismatch) {
+      await flagMismatch(supabase, runId, membershipType, transaction, mismatch, now);
+      await recordItem(supabase, summary, { ...item, outcome: "mismatch", message: mismatch });
+      continue;
+    }
+
+    if (verification.status === "completed") {
+      const { settled } = await completeMembershipPayment(supabase, transaction, membershipType, {
+        action: `Reconciliation settled ${transaction.is_renewal ? "renewal" : "payment"} completed on ${transaction.gateway}`,
+        updates: { reconciliation_status: "settled", reconciled_at: now.toISOString() },
+        details: { runId },
+      });
+
+      // A webhook may have settled it while we were asking
+      if (settled) {
+        await recordItem(supabase, summary, { ...item, outcome: "settled", new_status: "completed" });
+      }
+      continue;
+    }
+
+    const failed = await failMembershipPayment(
+      supabase,
+      transaction,
+      membershipType,
+      `Payment failed on ${transaction.gateway}`,
+      {
+        action: `Reconciliation marked payment failed on ${transaction.gateway}`,
+        updates: { reconciliation_status: "settled", reconciled_at: now.toISOString() },
+        details: { runId },
+      }
+    );
+
+    if (failed) {
+      await recordItem(supabase, summary, { ...item, outcome: "failed", new_status: "failed" });
+    }
+  }
+}
+
+/**
+ * Settle or expire pending/processing payment orders we have not heard back on
+ */
+async function reconcileOpenOrders(
+  supabase: SupabaseClient,
+  runId: string,
+  now: Date,
+  summary: RunSummary
+): Promise<void> {
+  const { data: open } = await supabase
+    .from("payment_orders")
+    .select("*")
+    .in("status", ["pending", "processing"])
+    .lte("created_at", new Date(now.getTime() - STALE_MINUTES * MINUTE_MS).toISOString())
+    .or("reconciliation_status.is.null,reconciliation_status.neq.mismatch")
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  for (const order of (open ?? []) as ReconcilableOrder[]) {
+    summary.checked++;
+    const reference = order.transaction_id ?? order.reference_id;
+    const expired = now.getTime() - new Date(order.created_at).getTime() >= EXPIRE_HOURS * HOUR_MS;
+
+    let verification: VerifyPaymentResult | null = null;
+    if (reference && isEnabledGateway(order.gateway)) {
+      verification = await getGatewayAdapter(order.gateway).verifyPayment(reference);
+    }
+
+    const item = baseOrderItem(runId, order, reference, verification);
+
+    if (!verification?.success || verification.status === "pending") {
+      if (!expired) {
+        summary.still_pending++;
+        continue;
+      }
+
+      // An expired order can still be fulfilled if the payment lands late
+      const { data: expiredRows } = await supabase
+        .from("payment_orders")
+        .update({
+          status: "expired",
+          error_message: "Checkout was not completed",
+          reconciliation_status: "expired",
+          reconciled_at: now.toISOString(),
+        })
+        .eq("id", order.id)
+        .in("status", ["pending", "processing"])
+        .select("id");
+
+      if (!expiredRows || expiredRows.length === 0) continue;
+
+      await logOrderEvent(supabase, order, {
+        action: `Reconciliation expired ${order.status} order after ${EXPIRE_HOURS}h`,
+        actionType: "reconcile",
+        newStatus: "expired",
+        details: { runId, gatewayError: verification?.error ?? null },
+      });
+
+      await recordItem(supabase, summary, {
+        ...item,
+        outcome: "expired",
+        new_status: "expired",
+        message: verification?.error ?? (reference ? null : "No gateway reference"),
+      });
+      continue;
+    }
+
+    const mismatch = describeMismatch(order, verification);
+    if (mismatch) {
+      await supabase
+        .from("payment_orders")
+        .update({
+          reconciliation_status: "mismatch",
+          reconciled_at: now.toISOString(),
+          error_message: mismatch,
+        })
+        .eq("id", order.id);
+
+      await logOrderEvent(supabase, order, {
+        action: "Reconciliation flagged a gateway mismatch",
+        actionType: "reconcile",
+        newStatus: order.status,
+        details: { runId, mismatch },
+      });
+
+      await recordItem(supabase, summary, { ...item, outcome: "mismatch", message: mismatch });
+      continue;
+    }
+
+    const settlement = {
+      updates: { reconciliation_status: "settled", reconciled_at: now.toISOString() },
+      details: { runId },
+    };
+
+    if (verification.status === "completed") {
+      // Fulfilment can fail (e.g. the booked slot is gone); retry on the next run
+      try {
+        const settled = await completePaymentOrder(supabase, order, {
+          ...settlement,
+          action: `Reconciliation settled order completed on ${order.gateway}`,
+        });
+        if (settled) {
+          await recordItem(supabase, summary, { ...item, outcome: "settled", new_status: "completed" });
+        }
+      } catch (error) {
+        await recordItem(supabase, summary, {
+          ...item,
+          outcome: "error",
+          message: error instanceof Error ? error.message : "Fulfilment failed",
+        });
+      }
+      continue;
+    }
+
+    const failed = await failPaymentOrder(supabase, order, `Payment failed on ${order.gateway}`, {
+      ...settlement,
+      action: `Reconciliation marked order failed on ${order.gateway}`,
+    });
+
+    if (failed) {
+      await recordItem(supabase, summary, { ...item, outcome: "failed", new_status: "failed" });
+    }
+  }
+}
+
+/**
+ * Double-check amount and currency of recently completed transactions
+ */
+async function verifyCompletedTransactions(
+  supabase: SupabaseClient,
+  runId: string,
+  membershipType: MembershipType,
+  now: Date,
+  summary: RunSummary
+): Promise<void> {
+  const tableName = membershipTable(membershipType);
+  const { data: completed } = await supabase
+    .from(tableName)
+    .select("*")
+    .eq("status", "completed")
+    .is("reconciled_at", null)
+    .gte("completed_at", new Date(now.getTime() - LOOKBACK_HOURS * HOUR_MS).toISOString())
+    .order("completed_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  for (const transaction of (completed ?? []) as ReconcilableTransaction[]) {
+    summary.checked++;
+    const reference = transaction.transaction_id ?? transaction.reference_id;
+
+    if (!reference || !isEnabledGateway(transaction.gateway)) {
+      await recordItem(supabase, summary, {
+        ...baseItem(runId, membershipType, transaction, reference, null),
+        outcome: "error",
+        message: reference ? `Unknown gateway '${transaction.gateway}'` : "No gateway reference",
+      });
+      continue;
+    }
+
+    const verification = await getGatewayAdapter(transaction.gateway).verifyPayment(reference);
+    const item = baseItem(runId, membershipType, transaction, reference, verification);
+
+    // Try again on the next run while still inside the lookback window
+    if (!verification.success) {
+      await recordItem(supabase, summary, {
+        ...item,
+        outcome: "error",
+        message: verification.error ?? "Gateway verification failed",
+      });
+      continue;
+    }
+
+    const mismatch =
+      verification.status !== "completed"
+        ? `Completed here but '${verification.status}' on ${transaction.gateway}`
+        : describeMismatch(transaction, verification);
+
+    if (mismatch) {
+      await flagMismatch(supabase, runId, membershipType, transaction, mismatch, now);
+      await recordItem(supabase, summary, { ...item, outcome: "mismatch", message: mismatch });
+      continue;
+    }
+
+    await supabase
+      .from(tableName)
+      .update({ reconciliation_status: "matched", reconciled_at: now.toISOString() })
+      .eq("id", transaction.id);
+
+    summary.matched++;
+  }
+}
+
+/**
+ * Difference between our record and the gateway's, if any
+ */
+function describeMismatch(
+  transaction: { amount: number; currency: string },
+  verification: VerifyPaymentResult
+): string | null {
+  const problems: string[] = [];
+
+  if (
+    verification.amount !== undefined &&
+    Math.abs(verification.amount - Number(transaction.amount)) > 0.01
+  ) {
+    problems.push(`amount ${transaction.amount} vs ${verification.amount} on gateway`);
+  }
+
+  if (
+    verification.currency &&
+    verification.currency.toUpperCase() !== transaction.currency.toUpperCase()
+  ) {
+    problems.push(`currency ${transaction.currency} vs ${verification.currency} on gateway`);
+  }
+
+  return problems.length > 0 ? `Mismatch: ${problems.join(", ")}` : null;
+}
+
+async function flagMismatch(
+  supabase: SupabaseClient,
+  runId: string,
+  membershipType: MembershipType,
+  transaction: ReconcilableTransaction,
+  mismatch: string,
+  now: Date
+): Promise<void> {
+  await supabase
+    .from(membershipTable(membershipType))
+    .update({
+      reconciliation_status: "mismatch",
+      reconciled_at: now.toISOString(),
+      error_code: "RECONCILIATION_MISMATCH",
+      error_message: mismatch,
+    })
+    .eq("id", transaction.id);
+
+  await logAudit(supabase, membershipType, transaction, {
+    action: "Reconciliation flagged a gateway mismatch",
+    action_type: "reconcile",
+    new_status: transaction.status,
+    details: { runId, mismatch },
+  });
+}
+
+function baseItem(
+  runId: string,
+  membershipType: MembershipType,
+  transaction: ReconcilableTransaction,
+  reference: string | null,
+  verification: VerifyPaymentResult | null
+): ReconciliationItem {
+  return {
+    run_id: runId,
+    membership_type: membershipType,
+    transaction_id: transaction.id,
+    user_id: transaction.user_id,
+    gateway: transaction.gateway,
+    gateway_reference: reference,
+    outcome: "error",
+    previous_status: transaction.status,
+    new_status: transaction.status,
+    amount: Number(transaction.amount),
+    currency: transaction.currency,
+    gateway_status: verification?.success ? verification.status : null,
+    gateway_amount: verification?.amount ?? null,
+    gateway_currency: verification?.currency ?? null,
+    message: null,
+  };
+}
+
+function baseOrderItem(
+  runId: string,
+  order: ReconcilableOrder,
+  reference: string | null,
+  verification: VerifyPaymentResult | null
+): ReconciliationItem {
+  return {
+    run_id: runId,
+    membership_type: "order",
+    transaction_id: order.id,
+    user_id: order.user_id,
+    gateway: order.gateway,
+    gateway_reference: reference,
+    outcome: "error",
+    previous_status: order.status,
+    new_status: order.status,
+    amount: Number(order.amount),
+    currency: order.currency,
+    gateway_status: verification?.success ? verification.status : null,
+    gateway_amount: verification?.amount ?? null,
+    gateway_currency: verification?.currency ?? null,
+    message: null,
+  };
+}
+
+async function recordItem(
+  supabase: SupabaseClient,
+  summary: RunSummary,
+  item: ReconciliationItem
+): Promise<void> {
+  summary[SUMMARY_FIELD[item.outcome]]++;
+
+  const { error } = await supabase.from("payment_reconciliation_items").insert(item);
+  if (error) {
+    console.error("Failed to record reconciliation item:", error);
+  }
+}
+
+async function logAudit(
+  supabase: SupabaseClient,
+  membershipType: MembershipType,
+  transaction: ReconcilableTransaction,
+  entry: {
+    action: string;
+    action_type: string;
+    new_status: string;
+    details: Record<string, unknown>;
+  }
+): Promise<void> {
+  await supabase.from("payment_audit_log").insert({
+    membership_type: membershipType,
+    transaction_id: transaction.id,
+    user_id: transaction.user_id,
+    previous_status: transaction.status,
+    ...entry,
+  });
+}
+
+/**
+ * GET ?date=YYYY-MM-DD: every item recorded by that day's runs, as CSV (admin only)
+ */
+async function downloadReport(req: Request, supabase: SupabaseClient): Promise<Response> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: jsonHeaders,
+    });
+  }
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser(authHeader.substring(7));
+
+  if (authError || !user) {
+    return new Response(JSON.stringify({ error: "Invalid token" }), {
+      status: 401,
+      headers: jsonHeaders,
+    });
+  }
+
+  if (!isAdminUser(user)) {
+    return new Response(JSON.stringify({ error: "Admin access required" }), {
+      status: 403,
+      headers: jsonHeaders,
+    });
+  }
+
+  const date = new URL(req.url).searchParams.get("date") ?? new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return new Response(JSON.stringify({ error: "date must be YYYY-MM-DD" }), {
+      status: 400,
+      headers: jsonHeaders,
+    });
+  }
+
+  const { data: runs, error: runsError } = await supabase
+    .from("payment_reconciliation_runs")
+    .select("id")
+    .eq("run_date", date);
+
+  if (runsError) {
+    return new Response(JSON.stringify({ error: runsError.message }), {
+      status: 500,
+      headers: jsonHeaders,
+    });
+  }
+
+  const runIds = (runs ?? []).map((run: { id: string }) => run.id);
+  let items: Record<string, unknown>[] = [];
+
+  if (runIds.length > 0) {
+    const { data, error } = await supabase
+      .from("payment_reconciliation_items")
+      .select(REPORT_COLUMNS.join(", "))
+      .in("run_id", runIds)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 500,
+        headers: jsonHeaders,
+      });
+    }
+    items = (data ?? []) as Record<string, unknown>[];
+  }
+
+  const csv = [
+    REPORT_COLUMNS.join(","),
+    ...items.map((item) => REPORT_COLUMNS.map((column) => csvCell(item[column])).join(",")),
+  ].join("\n");
+
+  return new Response(csv, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="reconciliation-${date}.csv"`,
+    },
+  });
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,326 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { RefundResult } from "../_shared/paymentGateways.ts";
+import { getGatewayAdapter, isEnabledGateway } from "../_shared/gatewayConfig.ts";
+import { isAdminUser } from "../_shared/adminAuth.ts";
+
+/**
+ * Admin refund API
+ * Issues a full or partial refund with the original gateway and leaves the
+ * refund in 'processing' until the gateway's refund webhook arrives at
+ * handlePaymentWebhookUnified, which removes the access the payment bought
+ * (tier or enrollment) once a full refund completes.
+ */
+
+type PaymentType = "creator_membership" | "member_membership" | "course_enrollment";
+
+interface RefundRequest {
+  paymentType: PaymentType;
+  paymentId: string;
+  amount?: number; // omitted = refund everything not yet refunded
+  reason: string;
+}
+
+interface RefundablePayment {
+  id: string;
+  userId: string;
+  amount: number;
+  refundedAmount: number;
+  currency: string;
+  gateway: string;
+  gatewayTransactionId: string | null;
+  status: string;
+  previousTier?: string;
+  newTier?: string;
+  courseId?: string;
+}
+
+const PAYMENT_TABLES: Record<PaymentType, string> = {
+  creator_membership: "creators_membership",
+  member_membership: "members_membership",
+  course_enrollment: "student_enrollments",
+};
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: jsonHeaders,
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(authHeader.substring(7));
+
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: "Invalid token" }), {
+        status: 401,
+        headers: jsonHeaders,
+      });
+    }
+
+    if (!isAdminUser(user)) {
+      return new Response(JSON.stringify({ error: "Admin access required" }), {
+        status: 403,
+        headers: jsonHeaders,
+      });
+    }
+
+    const body: RefundRequest = await req.json();
+
+    if (!body.paymentType || !PAYMENT_TABLES[body.paymentType] || !body.paymentId) {
+      return new Response(JSON.stringify({ error: "Missing payment reference" }), {
+        status: 400,
+        headers: jsonHeaders,
+      });
+    }
+
+    if (!body.reason?.trim()) {
+      return new Response(JSON.stringify({ error: "A refund reason is required" }), {
+        status: 400,
+        headers: jsonHeaders,
+      });
+    }
+
+    const payment = await loadPayment(supabase, body.paymentType, body.paymentId);
+
+    if (!payment) {
+      return new Response(JSON.stringify({ error: "Payment not found" }), {
+        status: 404,
+        headers: jsonHeaders,
+      });
+    }
+
+    if (!["completed", "partially_refunded"].includes(payment.status)) {
+      return new Response(
+        JSON.stringify({ error: `Cannot refund a payment with status '${payment.status}'` }),
+        { status: 409, headers: jsonHeaders }
+      );
+    }
+
+    // Refunds already in flight count against the refundable balance
+    const { data: openRefunds } = await supabase
+      .from("payment_refunds")
+      .select("amount")
+      .eq("payment_type", body.paymentType)
+      .eq("payment_id", payment.id)
+      .in("status", ["pending", "processing"]);
+
+    const inFlight = (openRefunds ?? []).reduce(
+      (sum: number, r: { amount: number }) => sum + Number(r.amount),
+      0
+    );
+    const refundable = roundMoney(payment.amount - payment.refundedAmount - inFlight);
+    const amount = roundMoney(body.amount ?? refundable);
+
+    if (amount <= 0 || amount > refundable) {
+      return new Response(
+        JSON.stringify({
+          error: `Refund amount must be between 0 and ${refundable} ${payment.currency}`,
+        }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+
+    const isFullRefund = amount + payment.refundedAmount + inFlight >= payment.amount;
+
+    const { data: refund, error: refundError } = await supabase
+      .from("payment_refunds")
+      .insert({
+        payment_type: body.paymentType,
+        payment_id: payment.id,
+        user_id: payment.userId,
+        amount,
+        currency: payment.currency,
+        is_full_refund: isFullRefund,
+        reason: body.reason.trim(),
+        gateway: payment.gateway,
+        status: "pending",
+        requested_by: user.id,
+      })
+      .select("*")
+      .single();
+
+    if (refundError || !refund) {
+      return new Response(JSON.stringify({ error: "Failed to create refund" }), {
+        status: 500,
+        headers: jsonHeaders,
+      });
+    }
+
+    const gatewayResult = await requestGatewayRefund(payment, amount, body.reason, refund.id);
+
+    if (!gatewayResult.success) {
+      await supabase
+        .from("payment_refunds")
+        .update({
+          status: "failed",
+          failed_at: new Date().toISOString(),
+          error_message: gatewayResult.error,
+        })
+        .eq("id", refund.id);
+
+      await logMembershipAudit(supabase, body.paymentType, payment, {
+        action: `Refund of ${amount} ${payment.currency} rejected by ${payment.gateway}`,
+        action_type: "refund",
+        new_status: "refund_failed",
+        details: { refundId: refund.id, reason: body.reason, error: gatewayResult.error },
+        performed_by: user.id,
+      });
+
+      return new Response(
+        JSON.stringify({ success: false, refundId: refund.id, error: gatewayResult.error }),
+        { status: 502, headers: jsonHeaders }
+      );
+    }
+
+    await supabase
+      .from("payment_refunds")
+      .update({
+        status: "processing",
+        gateway_refund_id: gatewayResult.refundId,
+      })
+      .eq("id", refund.id);
+
+    await logMembershipAudit(supabase, body.paymentType, payment, {
+      action: `${isFullRefund ? "Full" : "Partial"} refund of ${amount} ${payment.currency} requested`,
+      action_type: "refund",
+      new_status: "refund_processing",
+      details: {
+        refundId: refund.id,
+        amount,
+        reason: body.reason,
+        gatewayRefundId: gatewayResult.refundId,
+        isFullRefund,
+      },
+      performed_by: user.id,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        refundId: refund.id,
+        status: "processing",
+        amount,
+        currency: payment.currency,
+        isFullRefund,
+      }),
+      { status: 200, headers: jsonHeaders }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+async function loadPayment(
+  supabase: SupabaseClient,
+  paymentType: PaymentType,
+  paymentId: string
+): Promise<RefundablePayment | null> {
+  const { data } = await supabase
+    .from(PAYMENT_TABLES[paymentType])
+    .select("*")
+    .eq("id", paymentId)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  if (paymentType === "course_enrollment") {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      amount: Number(data.price_paid),
+      refundedAmount: Number(data.refunded_amount ?? 0),
+      currency: data.currency,
+      gateway: data.payment_method,
+      gatewayTransactionId: data.transaction_id,
+      status: data.payment_status,
+      courseId: data.course_id,
+    };
+  }
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    amount: Number(data.amount),
+    refundedAmount: Number(data.refunded_amount ?? 0),
+    currency: data.currency,
+    gateway: data.gateway,
+    gatewayTransactionId: data.transaction_id,
+    status: data.status,
+    previousTier: data.previous_tier,
+    newTier: data.new_tier,
+  };
+}
+
+async function logMembershipAudit(
+  supabase: SupabaseClient,
+  paymentType: PaymentType,
+  payment: RefundablePayment,
+  entry: {
+    action: string;
+    action_type: string;
+    new_status: string;
+    details: Record<string, unknown>;
+    performed_by: string;
+  }
+): Promise<void> {
+  // payment_audit_log only covers membership transactions
+  if (paymentType === "course_enrollment") return;
+
+  await supabase.from("payment_audit_log").insert({
+    membership_type: paymentType === "member_membership" ? "member" : "creator",
+    transaction_id: payment.id,
+    user_id: payment.userId,
+    previous_status: payment.status,
+    ...entry,
+  });
+}
+
+async function requestGatewayRefund(
+  payment: RefundablePayment,
+  amount: number,
+  reason: string,
+  refundId: string
+): Promise<RefundResult> {
+  if (!payment.gatewayTransactionId) {
+    return { success: false, error: "Payment has no gateway transaction reference" };
+  }
+
+  if (!isEnabledGateway(payment.gateway)) {
+    return { success: false, error: `Unsupported gateway '${payment.gateway}'` };
+  }
+
+  return getGatewayAdapter(payment.gateway).refundPayment({
+    transactionId: payment.gatewayTransactionId,
+    amount,
+    currency: payment.currency,
+    reason,
+    reference: `refund-${refundId}`,
+  });
+}
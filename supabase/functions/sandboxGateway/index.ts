@@ -0,0 +1,362 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { hmacSha256Hex } from "../_shared/paymentGateways.ts";
+
+/**
+ * Offline sandbox payment gateway
+ * Lets the full payment flow run on a dev machine without gateway credentials.
+ * Enable with PAYMENT_GATEWAY=sandbox (edge functions) and
+ * VITE_PAYMENT_GATEWAY=sandbox (frontend), and set SANDBOX_API_KEY and
+ * SANDBOX_WEBHOOK_SECRET.
+ *
+ *   POST /payments                 create a charge, returns a hosted checkout URL
+ *   POST /charges                  charge a sandbox card token (auto-approved)
+ *   GET  /payments/:ref            verify a charge
+ *   POST /payments/:ref/refund     refund a charge (auto-approved)
+ *   GET  /checkout?reference=...   hosted checkout page with Pay / Decline
+ *   POST /checkout                 checkout form submit, emits the signed webhook
+ *
+ * Webhooks are signed with SANDBOX_WEBHOOK_SECRET (x-sandbox-signature) and
+ * delivered to handlePaymentWebhookUnified?source=sandbox.
+ */
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SANDBOX_API_KEY = Deno.env.get("SANDBOX_API_KEY") ?? "";
+const SANDBOX_WEBHOOK_SECRET = Deno.env.get("SANDBOX_WEBHOOK_SECRET") ?? "";
+const WEBHOOK_DELAY_MS = Number(Deno.env.get("SANDBOX_WEBHOOK_DELAY_MS") ?? "1500");
+const BASE_URL = `${SUPABASE_URL}/functions/v1/sandboxGateway`;
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+interface SandboxPayment {
+  reference: string;
+  merchant_reference: string;
+  amount: number;
+  currency: string;
+  email: string | null;
+  phone_number: string | null;
+  title: string | null;
+  description: string | null;
+  redirect_url: string | null;
+  metadata: Record<string, unknown>;
+  status: "pending" | "completed" | "failed";
+  card_token: string | null;
+  refunded_amount: number;
+}
+
+serve(async (req) => {
+  const supabase = createClient(SUPABASE_URL, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const url = new URL(req.url);
+
+  // Never reachable outside a sandbox deployment, and never with guessable secrets
+  if (Deno.env.get("PAYMENT_GATEWAY") !== "sandbox" || !SANDBOX_API_KEY || !SANDBOX_WEBHOOK_SECRET) {
+    return json({ error: "Sandbox gateway is disabled" }, 404);
+  }
+
+  const path = url.pathname.replace(/^.*\/sandboxGateway/, "") || "/";
+
+  try {
+    // Hosted checkout is opened by the customer's browser, so it is unauthenticated
+    if (path === "/checkout" && req.method === "GET") {
+      return await renderCheckout(supabase, url.searchParams.get("reference"));
+    }
+    if (path === "/checkout" && req.method === "POST") {
+      return await submitCheckout(supabase, await req.formData());
+    }
+
+    if (req.headers.get("Authorization") !== `Bearer ${SANDBOX_API_KEY}`) {
+      return json({ error: "Invalid sandbox API key" }, 401);
+    }
+
+    if (path === "/payments" && req.method === "POST") {
+      return await createPayment(supabase, await req.json(), null);
+    }
+
+    if (path === "/charges" && req.method === "POST") {
+      const body = await req.json();
+      return await createPayment(supabase, body, body.token);
+    }
+
+    const refundMatch = path.match(/^\/payments\/([^/]+)\/refund$/);
+    if (refundMatch && req.method === "POST") {
+      return await refundPayment(supabase, refundMatch[1], await req.json());
+    }
+
+    const paymentMatch = path.match(/^\/payments\/([^/]+)$/);
+    if (paymentMatch && req.method === "GET") {
+      const payment = await findPayment(supabase, paymentMatch[1]);
+      if (!payment) return json({ error: "Payment not found" }, 404);
+      return json({
+        reference: payment.reference,
+        status: payment.status,
+        amount: payment.amount,
+        currency: payment.currency,
+        refundedAmount: payment.refunded_amount,
+      });
+    }
+
+    return json({ error: "Not found" }, 404);
+  } catch (error) {
+    console.error("Sandbox gateway error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: jsonHeaders });
+}
+
+async function findPayment(
+  supabase: SupabaseClient,
+  reference: string
+): Promise<SandboxPayment | null> {
+  const { data } = await supabase
+    .from("sandbox_gateway_payments")
+    .select("*")
+    .eq("reference", reference)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Create a charge. With a card token it is approved straight away,
+ * otherwise it waits for the customer on the hosted checkout page.
+ */
+async function createPayment(
+  supabase: SupabaseClient,
+  body: {
+    reference: string;
+    amount: number;
+    currency: string;
+    email?: string;
+    phoneNumber?: string;
+    title?: string;
+    description?: string;
+    redirectUrl?: string;
+    metadata?: Record<string, unknown>;
+  },
+  token: string | null
+): Promise<Response> {
+  if (!body.reference || !body.amount || !body.currency) {
+    return json({ error: "reference, amount and currency are required" }, 400);
+  }
+
+  if (token && !token.startsWith("sandbox-tok-")) {
+    return json({ error: "Unknown sandbox card token" }, 402);
+  }
+
+  const reference = `sbx_${crypto.randomUUID().replace(/-/g, "").slice(0, 20)}`;
+
+  const { data: payment, error } = await supabase
+    .from("sandbox_gateway_payments")
+    .insert({
+      reference,
+      merchant_reference: body.reference,
+      amount: body.amount,
+      currency: body.currency,
+      email: body.email ?? null,
+      phone_number: body.phoneNumber ?? null,
+      title: body.title ?? null,
+      description: body.description ?? null,
+      redirect_url: body.redirectUrl ?? null,
+      metadata: body.metadata ?? {},
+      status: token ? "completed" : "pending",
+      card_token: token,
+      completed_at: token ? new Date().toISOString() : null,
+    })
+    .select("*")
+    .single();
+
+  if (error || !payment) {
+    return json({ error: "Failed to create sandbox payment" }, 500);
+  }
+
+  if (token) {
+    // Delivered after the caller has stored our reference, like a real gateway
+    deliverLater(() => emitWebhook("payment.completed", payment));
+    return json({ reference, status: "completed" });
+  }
+
+  return json({
+    reference,
+    status: "pending",
+    checkoutUrl: `${BASE_URL}/checkout?reference=${reference}`,
+  });
+}
+
+async function refundPayment(
+  supabase: SupabaseClient,
+  reference: string,
+  body: { amount: number; reason?: string }
+): Promise<Response> {
+  const payment = await findPayment(supabase, reference);
+  if (!payment) return json({ error: "Payment not found" }, 404);
+
+  if (payment.status !== "completed") {
+    return json({ error: "Only completed payments can be refunded" }, 409);
+  }
+
+  const remaining = Number(payment.amount) - Number(payment.refunded_amount);
+  if (!body.amount || body.amount <= 0 || body.amount > remaining) {
+    return json({ error: `Refund must be between 0 and ${remaining}` }, 400);
+  }
+
+  await supabase
+    .from("sandbox_gateway_payments")
+    .update({ refunded_amount: Number(payment.refunded_amount) + body.amount })
+    .eq("reference", reference);
+
+  const refundId = `sbx_rf_${crypto.randomUUID().replace(/-/g, "").slice(0, 16)}`;
+
+  deliverLater(() =>
+    emitWebhook("refund.completed", {
+      ...payment,
+      reference: refundId,
+      amount: body.amount,
+    })
+  );
+
+  return json({ refundId, status: "processing" });
+}
+
+async function renderCheckout(
+  supabase: SupabaseClient,
+  reference: string | null
+): Promise<Response> {
+  const payment = reference ? await findPayment(supabase, reference) : null;
+  if (!payment) {
+    return new Response("Sandbox payment not found", { status: 404 });
+  }
+
+  const escape = (value: string) =>
+    value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+  const amount = `${payment.currency} ${Number(payment.amount).toLocaleString()}`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Sandbox Checkout</title>
+  <style>
+    body { font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; display: flex; justify-content: center; padding: 48px 16px; }
+    .card { background: #1e293b; border-radius: 16px; padding: 32px; max-width: 420px; width: 100%; }
+    .badge { display: inline-block; background: #f59e0b; color: #1e293b; font-size: 12px; font-weight: bold; padding: 2px 10px; border-radius: 999px; }
+    .amount { font-size: 32px; font-weight: bold; margin: 16px 0 4px; }
+    .muted { color: #94a3b8; font-size: 14px; }
+    button { width: 100%; padding: 12px; border: 0; border-radius: 8px; font-size: 16px; cursor: pointer; margin-top: 12px; }
+    .pay { background: #22c55e; color: white; }
+    .decline { background: #334155; color: #e2e8f0; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <span class="badge">SANDBOX - no real money moves</span>
+    <div class="amount">${escape(amount)}</div>
+    <div>${escape(payment.title ?? "Payment")}</div>
+    <p class="muted">${escape(payment.description ?? "")}</p>
+    <p class="muted">Ref ${escape(payment.reference)}${payment.email ? ` &middot; ${escape(payment.email)}` : ""}</p>
+    ${
+      payment.status === "pending"
+        ? `<form method="POST" action="${BASE_URL}/checkout">
+      <input type="hidden" name="reference" value="${escape(payment.reference)}">
+      <button class="pay" name="outcome" value="completed">Pay ${escape(amount)}</button>
+      <button class="decline" name="outcome" value="failed">Decline payment</button>
+    </form>`
+        : `<p>This payment is already ${escape(payment.status)}.</p>`
+    }
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, { status: 200, headers: { "Content-Type": "text/html" } });
+}
+
+async function submitCheckout(supabase: SupabaseClient, form: FormData): Promise<Response> {
+  const reference = String(form.get("reference") ?? "");
+  const outcome = form.get("outcome") === "completed" ? "completed" : "failed";
+  const payment = await findPayment(supabase, reference);
+
+  if (!payment) {
+    return new Response("Sandbox payment not found", { status: 404 });
+  }
+
+  if (payment.status === "pending") {
+    const cardToken = outcome === "completed" ? `sandbox-tok-${payment.reference}` : null;
+    const { data: updated } = await supabase
+      .from("sandbox_gateway_payments")
+      .update({
+        status: outcome,
+        card_token: cardToken,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("reference", reference)
+      .select("*")
+      .single();
+
+    // Customer is on our page, so the webhook can go out before the redirect
+    await emitWebhook(
+      outcome === "completed" ? "payment.completed" : "payment.failed",
+      updated ?? payment
+    );
+  }
+
+  if (!payment.redirect_url) {
+    return new Response(`Payment ${outcome}. You can close this window.`, { status: 200 });
+  }
+
+  const redirect = new URL(payment.redirect_url);
+  redirect.searchParams.set("status", outcome === "completed" ? "successful" : "failed");
+  redirect.searchParams.set("tx_ref", payment.merchant_reference);
+  redirect.searchParams.set("transaction_id", payment.reference);
+
+  return new Response(null, { status: 303, headers: { Location: redirect.toString() } });
+}
+
+function deliverLater(send: () => Promise<void>): void {
+  const delivery = new Promise((resolve) => setTimeout(resolve, WEBHOOK_DELAY_MS)).then(send);
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(delivery);
+  }
+}
+
+/**
+ * Sign and deliver a webhook exactly like a real gateway would
+ */
+async function emitWebhook(event: string, payment: SandboxPayment): Promise<void> {
+  const isRefund = event.startsWith("refund.");
+  const body = JSON.stringify({
+    event,
+    data: {
+      reference: payment.reference,
+      merchant_reference: payment.merchant_reference,
+      status: isRefund ? "completed" : payment.status,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      email: payment.email,
+      token: isRefund ? undefined : payment.card_token ?? undefined,
+      metadata: payment.metadata,
+    },
+    meta: payment.metadata,
+  });
+
+  const signature = await hmacSha256Hex(SANDBOX_WEBHOOK_SECRET, body);
+
+  try {
+    const response = await fetch(
+      `${SUPABASE_URL}/functions/v1/handlePaymentWebhookUnified?source=sandbox`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-sandbox-signature": signature },
+        body,
+      }
+    );
+    if (!response.ok) {
+      console.error(`Sandbox webhook ${event} rejected:`, response.status, await response.text());
+    }
+  } catch (error) {
+    console.error(`Sandbox webhook ${event} delivery failed:`, error);
+  }
+}
@@ -0,0 +1,44 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { processZohoBooksSync } from "../_shared/zohoBooksSync.ts";
+
+/**
+ * Zoho Books sales sync worker
+ * Run every 5 minutes (see database/044_zoho_books_sales_sync.sql). Pushes
+ * queued sales to the owners' Zoho Books organizations and retries failed
+ * ones whose backoff has elapsed.
+ */
+
+const BATCH_SIZE = Number(Deno.env.get("ZOHO_SYNC_BATCH_SIZE") ?? "20");
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const summary = await processZohoBooksSync(supabase, { limit: BATCH_SIZE });
+
+    return new Response(JSON.stringify({ success: true, ...summary }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});